@@ -252,7 +252,9 @@ ADD COLUMN IF NOT EXISTS customer_statuses JSONB DEFAULT '[]',
 ADD COLUMN IF NOT EXISTS payment_statuses JSONB DEFAULT '[]',
 ADD COLUMN IF NOT EXISTS features JSONB DEFAULT '{}',
 ADD COLUMN IF NOT EXISTS message_templates JSONB DEFAULT '[]',
-ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP NULL;
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP NULL,
+ADD COLUMN IF NOT EXISTS inbound_key_hash TEXT, -- גיבוב מפתח קליטת לידים חיצונית (אתרים ודפי נחיתה)
+ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'; -- הגדרות לקוח (מדיניות כפילויות וכו')
 
 -- כל המידע נשמר בטבלת system_clients עצמה בשדות JSONB
 -- אין צורך בטבלאות נפרדות
@@ -359,6 +361,7 @@ CREATE INDEX IF NOT EXISTS idx_activity_logs_created ON activity_logs(created_at
 CREATE INDEX IF NOT EXISTS idx_system_clients_name ON system_clients(name);
 CREATE INDEX IF NOT EXISTS idx_system_clients_company_name ON system_clients(company_name);
 CREATE INDEX IF NOT EXISTS idx_system_clients_is_active ON system_clients(is_active);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_system_clients_inbound_key_hash ON system_clients(inbound_key_hash) WHERE inbound_key_hash IS NOT NULL;
 
 -- אינדקסים להיסטוריית שיחות ואנשי קשר
 CREATE INDEX IF NOT EXISTS idx_users_call_history ON users USING GIN (call_history);
@@ -743,6 +746,826 @@ COMMENT ON COLUMN whatsapp_connections.is_active IS 'Whether the WhatsApp connec
 COMMENT ON COLUMN whatsapp_connections.expires_at IS 'Token expiration date (if applicable)';
 COMMENT ON COLUMN whatsapp_connections.last_used_at IS 'Last time a message was sent through this connection';
 
+-- ========================================
+-- זיהוי לידים כפולים - Duplicate lead detection
+-- ========================================
+
+-- מפתחות מנורמלים לזיהוי כפילויות (טלפון בפורמט מקומי, אימייל באותיות קטנות)
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS normalized_phone TEXT,
+ADD COLUMN IF NOT EXISTS normalized_email TEXT;
+
+-- מילוי ערכים ללידים קיימים
+UPDATE leads SET normalized_email = LOWER(TRIM(email))
+WHERE normalized_email IS NULL AND email IS NOT NULL AND TRIM(email) <> '';
+
+UPDATE leads SET normalized_phone = CASE
+        WHEN regexp_replace(phone, '\D', '', 'g') LIKE '972%'
+            THEN '0' || ltrim(substr(regexp_replace(phone, '\D', '', 'g'), 4), '0')
+        WHEN regexp_replace(phone, '\D', '', 'g') ~ '^5\d{8}$'
+            THEN '0' || regexp_replace(phone, '\D', '', 'g')
+        ELSE NULLIF(regexp_replace(phone, '\D', '', 'g'), '')
+    END
+WHERE normalized_phone IS NULL AND phone IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_client_normalized_phone ON leads(client_id, normalized_phone);
+CREATE INDEX IF NOT EXISTS idx_leads_client_normalized_email ON leads(client_id, normalized_email);
+
+COMMENT ON COLUMN leads.normalized_phone IS 'Normalized phone used for duplicate detection';
+COMMENT ON COLUMN leads.normalized_email IS 'Lower-cased email used for duplicate detection';
+COMMENT ON COLUMN system_clients.settings IS 'Client settings, e.g. duplicateLeadPolicy: warn | skip | attach';
+
+-- ========================================
+-- אישורי מעבר סטטוס - Lead status approvals
+-- ========================================
+
+-- בקשות לשינוי סטטוס לסטטוסים שדורשים אישור מנהל (requiresApproval)
+CREATE TABLE IF NOT EXISTS lead_status_approvals (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP,
+    review_note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_status_approvals_lead_id ON lead_status_approvals(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_status_approvals_status ON lead_status_approvals(status);
+CREATE INDEX IF NOT EXISTS idx_lead_status_approvals_requested_by ON lead_status_approvals(requested_by);
+
+COMMENT ON TABLE lead_status_approvals IS 'Pending/decided lead status changes that require manager approval';
+
+-- ========================================
+-- שיוך לידים אוטומטי - Lead auto-assignment
+-- ========================================
+
+-- יומן שיוכים - למה כל ליד שויך לנציג (מוצג למנהל)
+CREATE TABLE IF NOT EXISTS lead_assignment_log (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    manager_id INTEGER REFERENCES users(id) ON DELETE SET NULL, -- המנהל שבצוות שלו בוצע השיוך
+    assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    strategy TEXT NOT NULL, -- 'round_robin', 'least_open', 'fallback'
+    rule_index INTEGER, -- מספר הכלל שהתאים (אם יש)
+    reason TEXT NOT NULL,
+    candidates JSONB DEFAULT '[]', -- הנציגים שנבדקו
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_lead_id ON lead_assignment_log(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_manager ON lead_assignment_log(manager_id, created_at);
+
+COMMENT ON TABLE lead_assignment_log IS 'Explains every automatic lead assignment (strategy, matched rule, candidates)';
+
+-- ========================================
+-- ציון לידים - Lead scoring
+-- ========================================
+
+-- הציון מחושב בשרת (services/leadScoring.ts) ומתעדכן בשינוי הערות, סטטוס או היסטוריה
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS score INTEGER,
+ADD COLUMN IF NOT EXISTS score_classification VARCHAR(50), -- 'ליד חם', 'ליד מבטיח', 'ליד בינוני', 'ליד קר'
+ADD COLUMN IF NOT EXISTS sentiment VARCHAR(20), -- 'positive', 'negative', 'neutral'
+ADD COLUMN IF NOT EXISTS predicted_status VARCHAR(100),
+ADD COLUMN IF NOT EXISTS scored_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_leads_client_score ON leads(client_id, score);
+
+COMMENT ON COLUMN leads.score IS 'Lead score 0-100, recomputed on change and by the daily rescore job (time decay)';
+COMMENT ON COLUMN leads.score_classification IS 'Classification derived from the score';
+
+-- ========================================
+-- ייבוא לידים - Lead import
+-- ========================================
+
+-- שדות מותאמים ללידים (ממופים מעמודות בקובץ הייבוא)
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS custom_fields JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN leads.custom_fields IS 'Tenant-specific lead fields (key -> value)';
+
+-- ========================================
+-- משימות ייבוא לידים - Lead import jobs
+-- ========================================
+
+-- ייבוא ברקע: הקובץ נשמר עם המשימה כדי שאפשר יהיה להמשיך/להריץ מחדש
+CREATE TABLE IF NOT EXISTS lead_import_jobs (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    filename TEXT NOT NULL,
+    file_data BYTEA NOT NULL,
+    file_hash TEXT NOT NULL, -- sha256 של הקובץ + המיפוי + הקידוד
+    encoding TEXT DEFAULT 'auto',
+    mapping JSONB NOT NULL,
+    status TEXT DEFAULT 'pending', -- 'pending', 'running', 'completed', 'failed'
+    total_rows INTEGER DEFAULT 0,
+    processed_rows INTEGER DEFAULT 0, -- שורות הקובץ שעובדו (לפי הסדר)
+    created_count INTEGER DEFAULT 0,
+    skipped_count INTEGER DEFAULT 0,
+    attached_count INTEGER DEFAULT 0,
+    failed_count INTEGER DEFAULT 0,
+    row_errors JSONB DEFAULT '[]', -- [{rowNumber, type: failed/skipped, reason}]
+    retry_rows JSONB DEFAULT '[]', -- שורות שנכשלו ומחכות להרצה חוזרת
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_import_jobs_created_by ON lead_import_jobs(created_by, created_at);
+CREATE INDEX IF NOT EXISTS idx_lead_import_jobs_hash ON lead_import_jobs(client_id, file_hash);
+
+-- כל ליד מיובא מסומן במשימה ובשורה - הרצה חוזרת לא יוצרת כפילויות
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS import_job_id INTEGER REFERENCES lead_import_jobs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS import_row INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_import_job_row ON leads(import_job_id, import_row) WHERE import_job_id IS NOT NULL;
+
+COMMENT ON TABLE lead_import_jobs IS 'Background lead imports with progress counters and per-row errors';
+COMMENT ON COLUMN leads.import_row IS 'Row number in the import file (unique per import job)';
+
+-- ========================================
+-- שדות מותאמים - Custom fields
+-- ========================================
+
+-- הגדרות השדות לכל לקוח מערכת: {"leads": [...], "customers": [...]}
+ALTER TABLE system_clients
+ADD COLUMN IF NOT EXISTS custom_fields JSONB DEFAULT '{}';
+
+-- סינון רשימות לפי ערכי שדות מותאמים
+CREATE INDEX IF NOT EXISTS idx_leads_custom_fields ON leads USING GIN (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_customers_custom_fields ON customers USING GIN (custom_fields);
+
+COMMENT ON COLUMN system_clients.custom_fields IS 'Custom field definitions per entity (leads, customers) - see src/types/client.ts CustomField';
+
+-- ========================================
+-- ציר זמן של לידים - Lead timeline
+-- ========================================
+
+-- נרשם על ידי השרת בכל שינוי של ליד (במקום leads.history שנכתב מהלקוח)
+CREATE TABLE IF NOT EXISTS lead_timeline (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    type VARCHAR(20) NOT NULL, -- 'status', 'note', 'callback', 'task', 'edit', 'message', 'call'
+    description TEXT NOT NULL,
+    actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL, -- המשתמש שביצע את הפעולה (NULL = המערכת)
+    before_values JSONB, -- ערכי השדות לפני השינוי
+    after_values JSONB, -- ערכי השדות אחרי השינוי
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_timeline_lead ON lead_timeline(lead_id, created_at DESC);
+
+-- רשומות לא משתנות - מותר רק להעביר ליד אחר (מיזוג) או לנתק משתמש שנמחק
+CREATE OR REPLACE FUNCTION prevent_lead_timeline_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.type IS DISTINCT FROM OLD.type
+       OR NEW.description IS DISTINCT FROM OLD.description
+       OR NEW.before_values IS DISTINCT FROM OLD.before_values
+       OR NEW.after_values IS DISTINCT FROM OLD.after_values
+       OR NEW.metadata IS DISTINCT FROM OLD.metadata
+       OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'lead_timeline entries are append-only';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'lead_timeline_append_only') THEN
+        CREATE TRIGGER lead_timeline_append_only BEFORE UPDATE ON lead_timeline
+            FOR EACH ROW EXECUTE FUNCTION prevent_lead_timeline_changes();
+    END IF;
+END $$;
+
+-- העברת ההיסטוריה הישנה לציר הזמן (פעם אחת - רק ללידים שעדיין אין להם רשומות)
+INSERT INTO lead_timeline (lead_id, client_id, type, description, metadata, created_at)
+SELECT
+    l.id,
+    l.client_id,
+    CASE WHEN entry->>'type' IN ('status', 'note', 'callback', 'task', 'edit', 'message', 'call') THEN entry->>'type' ELSE 'edit' END,
+    COALESCE(NULLIF(entry->>'description', ''), 'פעולה מההיסטוריה הקודמת'),
+    COALESCE(entry->'metadata', '{}'::jsonb) || jsonb_build_object('legacy_id', entry->>'id'),
+    CASE WHEN entry->>'createdAt' ~ '^\d{4}-\d{2}-\d{2}T' THEN (entry->>'createdAt')::timestamptz ELSE l.created_at END
+FROM leads l
+CROSS JOIN LATERAL jsonb_array_elements(l.history) AS entry
+WHERE jsonb_typeof(l.history) = 'array'
+  AND jsonb_typeof(entry) = 'object'
+  AND NOT EXISTS (SELECT 1 FROM lead_timeline t WHERE t.lead_id = l.id);
+
+COMMENT ON TABLE lead_timeline IS 'Append-only lead activity timeline written by the server on every lead mutation';
+COMMENT ON COLUMN leads.history IS 'Legacy client-written history - copied to lead_timeline and no longer updated';
+
+-- ========================================
+-- תגיות וסגמנטים של לידים - Lead tags and segments
+-- ========================================
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON leads USING GIN (tags);
+
+-- אוצר התגיות של כל לקוח מערכת - לידים מתויגים רק בתגיות מהרשימה
+CREATE TABLE IF NOT EXISTS lead_tags (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    color VARCHAR(20) DEFAULT '#6b7280',
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_tags_client_name ON lead_tags(COALESCE(client_id, 0), name);
+
+-- סגמנט = הגדרת סינון שמורה (פרמטרים של GET /api/leads) לשימוש ברשימות, ייצוא, ווטסאפ ודוחות
+CREATE TABLE IF NOT EXISTS lead_segments (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    filters JSONB NOT NULL DEFAULT '{}', -- לדוגמה {"status": "חדש", "tag": "VIP", "score_min": "70"}
+    is_shared BOOLEAN DEFAULT false, -- משותף לכל המשתמשים של הלקוח (מנהלים בלבד)
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_segments_client ON lead_segments(client_id);
+
+COMMENT ON COLUMN leads.tags IS 'Tags from the client vocabulary (lead_tags)';
+COMMENT ON TABLE lead_segments IS 'Saved lead filters (query parameters of the lead list) - counts are computed live';
+
+-- ========================================
+-- זמני מענה ללידים (SLA) - Lead response-time SLA
+-- ========================================
+
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS first_touch_at TIMESTAMP, -- מגע ראשון של נציג (שיחה, הודעה או שינוי סטטוס)
+ADD COLUMN IF NOT EXISTS first_touch_type VARCHAR(20), -- סוג המגע הראשון ('call', 'message', 'status')
+ADD COLUMN IF NOT EXISTS sla_rule VARCHAR(100), -- שם כלל ה-SLA שחל על הליד
+ADD COLUMN IF NOT EXISTS sla_due_at TIMESTAMP, -- מועד אחרון למגע ראשון לפי הכלל
+ADD COLUMN IF NOT EXISTS sla_breached_at TIMESTAMP; -- מתי זוהתה החריגה (המנהל קיבל התראה)
+
+-- לידים שעדיין עלולים לחרוג (טרם טופלו, או טופלו אחרי המועד ועוד לא סומנו)
+CREATE INDEX IF NOT EXISTS idx_leads_sla_open ON leads(sla_due_at)
+    WHERE sla_breached_at IS NULL AND (first_touch_at IS NULL OR first_touch_at > sla_due_at);
+
+-- מגע ראשון ו"קשר אחרון" מתעדכנים מציר הזמן - רק פעולות של משתמש, לא של המערכת
+CREATE OR REPLACE FUNCTION record_lead_touch()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.actor_id IS NULL OR NEW.type NOT IN ('call', 'message', 'status') THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE leads SET
+        first_touch_at = COALESCE(first_touch_at, NEW.created_at),
+        first_touch_type = CASE WHEN first_touch_at IS NULL THEN NEW.type ELSE first_touch_type END,
+        last_contact = CASE
+            WHEN NEW.type IN ('call', 'message') THEN GREATEST(COALESCE(last_contact, NEW.created_at), NEW.created_at)
+            ELSE last_contact
+        END
+    WHERE id = NEW.lead_id;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'lead_timeline_record_touch') THEN
+        CREATE TRIGGER lead_timeline_record_touch AFTER INSERT ON lead_timeline
+            FOR EACH ROW EXECUTE FUNCTION record_lead_touch();
+    END IF;
+END $$;
+
+-- מילוי מגע ראשון ללידים קיימים מתוך ציר הזמן
+UPDATE leads l SET first_touch_at = touch.created_at, first_touch_type = touch.type
+FROM (
+    SELECT DISTINCT ON (lead_id) lead_id, type, created_at
+    FROM lead_timeline
+    WHERE actor_id IS NOT NULL AND type IN ('call', 'message', 'status')
+    ORDER BY lead_id, created_at, id
+) touch
+WHERE touch.lead_id = l.id AND l.first_touch_at IS NULL;
+
+COMMENT ON COLUMN leads.first_touch_at IS 'First call/message/status change by a user - maintained by the record_lead_touch trigger';
+COMMENT ON COLUMN leads.sla_due_at IS 'First-touch deadline from the client SLA rules (settings.sla) - set by LeadSlaJobs';
+COMMENT ON COLUMN leads.sla_breached_at IS 'When the SLA breach was detected and the agent''s manager notified';
+
+-- ========================================
+-- שינויי סטטוס אוטומטיים - Automatic status changes
+-- ========================================
+
+-- כללים כמו "אין מענה" -> "אין מענה 2" אחרי 24 שעות (ראו AutoStatusChange ב-src/types/client.ts)
+ALTER TABLE system_clients
+ADD COLUMN IF NOT EXISTS auto_status_changes JSONB DEFAULT '[]';
+
+-- חיפוש לידים לפי סטטוס בכל הרצה של הכללים
+CREATE INDEX IF NOT EXISTS idx_leads_client_status ON leads(client_id, status);
+
+COMMENT ON COLUMN system_clients.auto_status_changes IS 'Time-based status change rules, applied hourly by AutoStatusChangeJobs';
+
+-- ========================================
+-- רשימת "אל תפנה" - Do-not-contact registry
+-- ========================================
+
+-- אנשי קשר שביקשו לא לקבל פניות (חוק התקשורת - "חוק הספאם"), לפי לקוח מערכת
+CREATE TABLE IF NOT EXISTS dnc_entries (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    contact_type VARCHAR(10) NOT NULL CHECK (contact_type IN ('phone', 'email')),
+    value VARCHAR(255) NOT NULL, -- טלפון ב-E.164 (+972501234567) או אימייל באותיות קטנות - כמו normalized_phone/normalized_email של לידים
+    source VARCHAR(20) NOT NULL CHECK (source IN ('status', 'stop_reply', 'manual')),
+    reason TEXT,
+    lead_id INTEGER REFERENCES leads(id) ON DELETE SET NULL, -- הליד שממנו נוצרה ההסרה
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dnc_entries_client_value ON dnc_entries(COALESCE(client_id, 0), contact_type, value);
+
+-- ניסיונות פנייה שנחסמו (WhatsApp, אימייל, חייגן, ייבוא, טפסים באתר) - לדיווח
+CREATE TABLE IF NOT EXISTS dnc_blocked_attempts (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('whatsapp', 'email', 'dialer', 'import', 'inbound')),
+    contact_type VARCHAR(10) NOT NULL CHECK (contact_type IN ('phone', 'email')),
+    value VARCHAR(255) NOT NULL,
+    dnc_entry_id INTEGER REFERENCES dnc_entries(id) ON DELETE SET NULL,
+    lead_id INTEGER REFERENCES leads(id) ON DELETE SET NULL,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- לידים מטפסים באתר נבדקים גם הם
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'dnc_blocked_attempts_channel_check'
+          AND pg_get_constraintdef(oid) NOT LIKE '%inbound%'
+    ) THEN
+        ALTER TABLE dnc_blocked_attempts DROP CONSTRAINT dnc_blocked_attempts_channel_check;
+        ALTER TABLE dnc_blocked_attempts
+        ADD CONSTRAINT dnc_blocked_attempts_channel_check
+        CHECK (channel IN ('whatsapp', 'email', 'dialer', 'import', 'inbound'));
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_dnc_blocked_attempts_client_created ON dnc_blocked_attempts(client_id, created_at DESC);
+
+-- ליד שעובר לסטטוס הסרה (ברירת מחדל "הסרה מהמאגר", settings.dnc.removalStatuses) נכנס לרשימה - מכל מקום שמשנה סטטוס
+CREATE OR REPLACE FUNCTION register_lead_removal()
+RETURNS TRIGGER AS $$
+DECLARE
+    removal_statuses JSONB;
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(settings->'dnc'->'removalStatuses', '["הסרה מהמאגר"]'::jsonb) INTO removal_statuses
+    FROM system_clients WHERE id = NEW.client_id;
+
+    IF NOT COALESCE(removal_statuses, '["הסרה מהמאגר"]'::jsonb) ? NEW.status THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO dnc_entries (client_id, contact_type, value, source, reason, lead_id)
+    SELECT NEW.client_id, contact.contact_type, contact.value, 'status', 'סטטוס ליד: ' || NEW.status, NEW.id
+    FROM (VALUES ('phone', NEW.normalized_phone), ('email', NEW.normalized_email)) AS contact(contact_type, value)
+    WHERE contact.value IS NOT NULL AND contact.value <> ''
+    ON CONFLICT (COALESCE(client_id, 0), contact_type, value) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'leads_register_removal') THEN
+        CREATE TRIGGER leads_register_removal
+            AFTER INSERT OR UPDATE OF status ON leads
+            FOR EACH ROW EXECUTE FUNCTION register_lead_removal();
+    END IF;
+END $$;
+
+-- לידים שכבר נמצאים בסטטוס הסרה
+INSERT INTO dnc_entries (client_id, contact_type, value, source, reason, lead_id)
+SELECT l.client_id, contact.contact_type, contact.value, 'status', 'סטטוס ליד: ' || l.status, l.id
+FROM leads l
+LEFT JOIN system_clients sc ON sc.id = l.client_id
+CROSS JOIN LATERAL (VALUES ('phone', l.normalized_phone), ('email', l.normalized_email)) AS contact(contact_type, value)
+WHERE COALESCE(sc.settings->'dnc'->'removalStatuses', '["הסרה מהמאגר"]'::jsonb) ? l.status
+  AND contact.value IS NOT NULL AND contact.value <> ''
+ON CONFLICT (COALESCE(client_id, 0), contact_type, value) DO NOTHING;
+
+COMMENT ON TABLE dnc_entries IS 'Do-not-contact registry per client - filled by removal statuses, WhatsApp STOP replies and managers';
+COMMENT ON TABLE dnc_blocked_attempts IS 'Contact attempts blocked by the do-not-contact registry';
+
+-- ========================================
+-- קבצים מצורפים - Attachments
+-- ========================================
+
+-- קבצים (חוזים חתומים, צילומי ת"ז, הצעות מחיר) של ליד, לקוח או משימה
+-- מחיקת הרשומה מאפסת את הקישור, והקבץ עצמו נמחק מהאחסון בניקוי (AttachmentService.purgeOrphans)
+CREATE TABLE IF NOT EXISTS attachments (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    parent_type VARCHAR(20) NOT NULL CHECK (parent_type IN ('lead', 'customer', 'task')),
+    lead_id INTEGER REFERENCES leads(id) ON DELETE SET NULL,
+    customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL,
+    task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+    file_name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    storage_driver VARCHAR(20) NOT NULL DEFAULT 'local', -- הדרייבר ששמר את הקובץ (local / דרייבר שנרשם)
+    storage_key VARCHAR(500) NOT NULL,
+    uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (num_nonnulls(lead_id, customer_id, task_id) <= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_lead ON attachments(lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_customer ON attachments(customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_task ON attachments(task_id) WHERE task_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_orphaned ON attachments(id)
+    WHERE lead_id IS NULL AND customer_id IS NULL AND task_id IS NULL;
+
+COMMENT ON TABLE attachments IS 'Files attached to leads, customers and tasks - rows without a parent are purged with their stored file';
+
+-- ========================================
+-- מספרי טלפון - Phone numbers
+-- ========================================
+
+-- המרת מספר ל-E.164 (+972501234567) - אותם כללים כמו parsePhone ב-server/utils/phone.ts
+-- מספר בלי קידומת מדינה הוא ישראלי; מחזירה NULL למספר לא תקין
+CREATE OR REPLACE FUNCTION phone_to_e164(raw TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    digits TEXT := regexp_replace(COALESCE(raw, ''), '\D', '', 'g');
+    is_international BOOLEAN := ltrim(COALESCE(raw, '')) LIKE '+%';
+    national TEXT;
+BEGIN
+    IF digits LIKE '00%' THEN
+        digits := substr(digits, 3);
+        is_international := true;
+    END IF;
+
+    IF digits LIKE '972%' AND (is_international OR length(digits) >= 11) THEN
+        national := '0' || regexp_replace(substr(digits, 4), '^0', '');
+    ELSIF NOT is_international THEN
+        national := CASE WHEN digits ~ '^5\d{8}$' THEN '0' || digits ELSE digits END;
+    END IF;
+
+    -- מספר זר - בלי תוכנית מספור נבדק רק האורך
+    IF national IS NULL THEN
+        RETURN CASE WHEN length(digits) BETWEEN 8 AND 15 THEN '+' || digits END;
+    END IF;
+
+    IF national ~ '^0[57]\d{8}$' OR national ~ '^0[23489]\d{7}$' THEN
+        RETURN '+972' || substr(national, 2);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- הטלפון נשמר בפורמט תצוגה (050-123-4567) ולידו בפורמט E.164 להשוואה
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS phone_e164 VARCHAR(20);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS phone_e164 VARCHAR(20);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone_e164 VARCHAR(20);
+
+-- מילוי ערכים לרשומות קיימות
+UPDATE leads SET phone_e164 = phone_to_e164(phone)
+WHERE phone_e164 IS NULL AND phone_to_e164(phone) IS NOT NULL;
+
+UPDATE customers SET phone_e164 = phone_to_e164(phone)
+WHERE phone_e164 IS NULL AND phone_to_e164(phone) IS NOT NULL;
+
+UPDATE users SET phone_e164 = phone_to_e164(phone_number)
+WHERE phone_e164 IS NULL AND phone_to_e164(phone_number) IS NOT NULL;
+
+-- מפתח הכפילויות עובר מהפורמט המקומי (0501234567) ל-E.164 - מספרים לא תקינים נשארים ספרות בלבד
+UPDATE leads SET normalized_phone = phone_to_e164(phone)
+WHERE normalized_phone ~ '^0\d{8,9}$' AND phone_to_e164(phone) IS NOT NULL;
+
+-- גם ברשימת "אל תפנה" - ערך שכבר קיים בפורמט החדש מוחק את הישן
+UPDATE dnc_entries d SET value = phone_to_e164(d.value)
+WHERE d.contact_type = 'phone'
+  AND d.value ~ '^0\d{8,9}$'
+  AND phone_to_e164(d.value) IS NOT NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM dnc_entries e
+      WHERE COALESCE(e.client_id, 0) = COALESCE(d.client_id, 0)
+        AND e.contact_type = 'phone'
+        AND e.value = phone_to_e164(d.value)
+  );
+
+DELETE FROM dnc_entries
+WHERE contact_type = 'phone' AND value ~ '^0\d{8,9}$' AND phone_to_e164(value) IS NOT NULL;
+
+UPDATE dnc_blocked_attempts SET value = phone_to_e164(value)
+WHERE contact_type = 'phone' AND value ~ '^0\d{8,9}$' AND phone_to_e164(value) IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_client_phone_e164 ON customers(client_id, phone_e164);
+CREATE INDEX IF NOT EXISTS idx_users_phone_e164 ON users(phone_e164);
+
+COMMENT ON FUNCTION phone_to_e164(TEXT) IS 'E.164 form of a phone number (Israeli when there is no country code), NULL when invalid';
+COMMENT ON COLUMN leads.phone_e164 IS 'Phone in E.164 format - phone holds the display format';
+COMMENT ON COLUMN customers.phone_e164 IS 'Phone in E.164 format - phone holds the display format';
+COMMENT ON COLUMN users.phone_e164 IS 'Phone number in E.164 format - phone_number holds the display format';
+COMMENT ON COLUMN leads.normalized_phone IS 'Phone used for duplicate detection - E.164, or the digits of an invalid number';
+
+-- ========================================
+-- פעולות מרובות על לידים - Bulk lead operations
+-- ========================================
+
+-- כל פעולה מרובה (סטטוס, מחיקה, תגיות, שיחה חוזרת, המרה ללקוחות) נרשמת כקבוצה שמנהל יכול לבטל עד undo_until
+CREATE TABLE IF NOT EXISTS lead_bulk_batches (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('status', 'delete', 'tags', 'callback', 'convert')),
+    params JSONB DEFAULT '{}', -- פרמטרי הפעולה (הסטטוס החדש, תגיות להוספה/הסרה, תאריך השיחה החוזרת)
+    lead_count INTEGER NOT NULL DEFAULT 0, -- לידים שהפעולה שינתה בפועל
+    performed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    undo_until TIMESTAMP NOT NULL,
+    undone_at TIMESTAMP,
+    undone_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_bulk_batches_client_created ON lead_bulk_batches(client_id, created_at DESC);
+
+-- מצב כל ליד לפני הפעולה - בלי מפתח זר ללידים, כי ליד שנמחק משוחזר עם אותו מזהה
+CREATE TABLE IF NOT EXISTS lead_bulk_batch_items (
+    id SERIAL PRIMARY KEY,
+    batch_id INTEGER NOT NULL REFERENCES lead_bulk_batches(id) ON DELETE CASCADE,
+    lead_id INTEGER NOT NULL,
+    before_values JSONB NOT NULL, -- במחיקה: הליד עצמו, השורות שנמחקו איתו ומזהי הרשומות שנותקו ממנו
+    after_values JSONB -- הערכים שהפעולה קבעה - ביטול משחזר רק ליד שלא השתנה מאז
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_bulk_batch_items_batch ON lead_bulk_batch_items(batch_id);
+
+COMMENT ON TABLE lead_bulk_batches IS 'Bulk lead actions - each can be undone by a manager until undo_until';
+COMMENT ON TABLE lead_bulk_batch_items IS 'Per-lead state before a bulk action, used to undo it';
+
+-- ========================================
+-- לוח מכירות - Sales pipeline board
+-- ========================================
+
+-- מיקום הכרטיס בתוך עמודת הסטטוס (NULL = לא סודר ידנית, מוצג לפי תאריך יצירה)
+ALTER TABLE leads
+ADD COLUMN IF NOT EXISTS pipeline_position DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_leads_pipeline ON leads(client_id, status, pipeline_position);
+
+COMMENT ON COLUMN leads.pipeline_position IS 'Manual order of the lead within its status column on the pipeline board';
+
+-- ========================================
+-- חיפוש גלובלי - Global search
+-- ========================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- טקסט לחיפוש: אותיות קטנות, בלי ניקוד וגרשיים, אותיות סופיות כרגילות (ך→כ, ם→מ, ן→נ, ף→פ, ץ→צ)
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT AS $$
+    SELECT translate(regexp_replace(lower(COALESCE(value, '')), '[֑-ׇ]', '', 'g'), 'ךםןףץ׳״"''', 'כמנפצ');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ספרות הטלפון בלי קידומת מדינה ו-0 מוביל (050-123-4567 / +972-50-1234567 → 501234567) - כמו phoneSearchDigits בשרת
+CREATE OR REPLACE FUNCTION search_phone_digits(value TEXT)
+RETURNS TEXT AS $$
+    SELECT regexp_replace(regexp_replace(regexp_replace(COALESCE(value, ''), '\D', '', 'g'), '^(00)?972', ''), '^0+', '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- עמודות החיפוש מתעדכנות בטריגר בכל שמירה (לא GENERATED - שחזור ביטול פעולה מרוכזת מכניס שורות שלמות)
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS search_text TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS search_phone TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS search_text TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS search_phone TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS search_text TEXT;
+ALTER TABLE unified_events ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE OR REPLACE FUNCTION leads_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_text = search_normalize(COALESCE(NEW.name, '') || ' ' || COALESCE(NEW.email, '') || ' ' || COALESCE(NEW.product, '') || ' ' || COALESCE(NEW.notes, ''));
+    NEW.search_phone = search_phone_digits(NEW.phone);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION customers_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_text = search_normalize(COALESCE(NEW.full_name, '') || ' ' || COALESCE(NEW.company_name, '') || ' ' || COALESCE(NEW.email, '') || ' ' || COALESCE(NEW.vat_number, '') || ' ' || COALESCE(NEW.notes, ''));
+    NEW.search_phone = search_phone_digits(NEW.phone);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION tasks_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_text = search_normalize(COALESCE(NEW.title, '') || ' ' || COALESCE(NEW.description, ''));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION unified_events_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_text = search_normalize(COALESCE(NEW.title, '') || ' ' || COALESCE(NEW.description, '') || ' ' || COALESCE(NEW.customer_name, ''));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- שורות קיימות מתמלאות פעם אחת, כשהטריגר נוצר (העדכון עצמו מפעיל אותו)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'leads_search_columns') THEN
+        CREATE TRIGGER leads_search_columns BEFORE INSERT OR UPDATE ON leads
+            FOR EACH ROW EXECUTE FUNCTION leads_search_columns();
+        UPDATE leads SET search_text = NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'customers_search_columns') THEN
+        CREATE TRIGGER customers_search_columns BEFORE INSERT OR UPDATE ON customers
+            FOR EACH ROW EXECUTE FUNCTION customers_search_columns();
+        UPDATE customers SET search_text = NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'tasks_search_columns') THEN
+        CREATE TRIGGER tasks_search_columns BEFORE INSERT OR UPDATE ON tasks
+            FOR EACH ROW EXECUTE FUNCTION tasks_search_columns();
+        UPDATE tasks SET search_text = NULL;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'unified_events_search_columns') THEN
+        CREATE TRIGGER unified_events_search_columns BEFORE INSERT OR UPDATE ON unified_events
+            FOR EACH ROW EXECUTE FUNCTION unified_events_search_columns();
+        UPDATE unified_events SET search_text = NULL;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_leads_search_text ON leads USING gin (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_search_phone ON leads USING gin (search_phone gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_customers_search_text ON customers USING gin (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_customers_search_phone ON customers USING gin (search_phone gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tasks_search_text ON tasks USING gin (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_unified_events_search_text ON unified_events USING gin (search_text gin_trgm_ops);
+
+COMMENT ON FUNCTION search_normalize(TEXT) IS 'Normalizes text for search - lowercase, no niqqud or geresh, Hebrew final letters as regular letters';
+COMMENT ON FUNCTION search_phone_digits(TEXT) IS 'Phone digits without country code or leading zero, for digit-only phone search';
+COMMENT ON COLUMN leads.search_text IS 'Normalized name, email, product and notes for global search (trigram index)';
+COMMENT ON COLUMN leads.search_phone IS 'Phone digits for global search';
+COMMENT ON COLUMN customers.search_text IS 'Normalized name, company, email, VAT number and notes for global search (trigram index)';
+COMMENT ON COLUMN customers.search_phone IS 'Phone digits for global search';
+COMMENT ON COLUMN tasks.search_text IS 'Normalized title and description for global search (trigram index)';
+COMMENT ON COLUMN unified_events.search_text IS 'Normalized title, description and customer name for global search (trigram index)';
+
+-- ========================================
+-- הערות על לידים ולקוחות - Notes
+-- ========================================
+
+-- הערות עם שרשור ואזכורים - כל הערה נשמרת בנפרד (שדה notes של הרשומה נדרס בכל שמירה)
+CREATE TABLE IF NOT EXISTS notes (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    parent_type VARCHAR(20) NOT NULL CHECK (parent_type IN ('lead', 'customer')),
+    lead_id INTEGER REFERENCES leads(id) ON DELETE CASCADE,
+    customer_id INTEGER REFERENCES customers(id) ON DELETE CASCADE,
+    reply_to_id INTEGER REFERENCES notes(id) ON DELETE CASCADE, -- ההערה הראשית שזו תגובה אליה (שרשור ברמה אחת)
+    body TEXT NOT NULL,
+    mentions INTEGER[] DEFAULT '{}', -- משתמשים שאוזכרו (@שם מלא)
+    author_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    edited_at TIMESTAMP, -- עריכה אחרונה של הכותב
+    CHECK (num_nonnulls(lead_id, customer_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notes_lead ON notes(lead_id, created_at) WHERE lead_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_customer ON notes(customer_id, created_at) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_reply_to ON notes(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+COMMENT ON TABLE notes IS 'Threaded notes on leads and customers - only the author edits a note, mentioned users get a reminder';
+COMMENT ON COLUMN notes.mentions IS 'IDs of the users mentioned in the body as @Full Name';
+
+-- ========================================
+-- לוח חיובים - Customer billing schedule
+-- ========================================
+
+-- החיובים הצפויים של כל לקוח - נוצרים מהשירותים ומתוכנית התשלומים ומסומנים כשולם / חלקי / נכשל
+CREATE TABLE IF NOT EXISTS customer_charges (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    schedule_key VARCHAR(255) NOT NULL, -- מקור החיוב בלוח (installment:1:3, service:<מזהה השירות>:<תאריך>) - יצירה חוזרת לא משכפלת
+    source VARCHAR(20) NOT NULL CHECK (source IN ('installment', 'service')),
+    description TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    amount DECIMAL(10,2) NOT NULL, -- כולל מע"מ
+    paid_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'partial', 'failed')),
+    paid_at TIMESTAMP,
+    failure_reason TEXT,
+    overdue_at TIMESTAMP, -- מתי זוהה כחיוב באיחור (התזכורת לנציג נשלחת פעם אחת)
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_charges_schedule ON customer_charges(customer_id, schedule_key);
+CREATE INDEX IF NOT EXISTS idx_customer_charges_customer_due ON customer_charges(customer_id, due_date);
+
+-- חיובים שטרם שולמו ולא דווחו כבאיחור
+CREATE INDEX IF NOT EXISTS idx_customer_charges_unreported ON customer_charges(due_date)
+    WHERE status <> 'paid' AND overdue_at IS NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_customer_charges_updated_at') THEN
+        CREATE TRIGGER update_customer_charges_updated_at BEFORE UPDATE ON customer_charges
+            FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    END IF;
+END $$;
+
+-- חיובי שירות נרשמו בעבר לפי שם השירות - עוברים למזהה השירות (הראשון בשם זה) כדי ששירותים באותו שם לא יתנגשו
+UPDATE customer_charges c SET schedule_key = 'service:' || s.id || ':' || RIGHT(c.schedule_key, 10)
+FROM (SELECT customer_id, service_name, MIN(id) AS id FROM customer_services GROUP BY customer_id, service_name) s
+WHERE c.source = 'service'
+  AND s.customer_id = c.customer_id
+  AND c.schedule_key = 'service:' || s.service_name || ':' || RIGHT(c.schedule_key, 10)
+  AND NOT EXISTS (
+      SELECT 1 FROM customer_charges e
+      WHERE e.customer_id = c.customer_id AND e.schedule_key = 'service:' || s.id || ':' || RIGHT(c.schedule_key, 10)
+  );
+
+COMMENT ON TABLE customer_charges IS 'Expected charges of a customer generated from its services and payment plan - overdue charges set the payment status and remind the rep';
+COMMENT ON COLUMN customer_charges.schedule_key IS 'Stable key of the charge in the generated schedule - regenerating updates untouched charges instead of duplicating them';
+
+-- ========================================
+-- חשבוניות וקבלות - Billing documents
+-- ========================================
+
+-- חשבוניות מס וקבלות שהופקו ללקוח - ה-PDF נשמר כקובץ מצורף של הלקוח
+CREATE TABLE IF NOT EXISTS billing_documents (
+    id SERIAL PRIMARY KEY,
+    client_id INTEGER REFERENCES system_clients(id) ON DELETE SET NULL,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE RESTRICT, -- מסמכים שהופקו נשמרים - לקוח עם מסמכים אינו נמחק
+    document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'receipt')),
+    document_number INTEGER NOT NULL, -- מספור רץ לכל לקוח מערכת ולכל סוג מסמך
+    vat_type VARCHAR(20) NOT NULL DEFAULT 'plus' CHECK (vat_type IN ('plus', 'included')),
+    vat_rate DECIMAL(5,4) NOT NULL, -- שיעור המע"מ ביום ההפקה
+    lines JSONB NOT NULL DEFAULT '[]', -- שורות המסמך כפי שהופקו (תיאור, לפני מע"מ, מע"מ, סה"כ)
+    net_amount DECIMAL(12,2) NOT NULL,
+    vat_amount DECIMAL(12,2) NOT NULL,
+    total_amount DECIMAL(12,2) NOT NULL,
+    attachment_id INTEGER REFERENCES attachments(id) ON DELETE SET NULL,
+    issued_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- טבלאות שנוצרו עם ON DELETE CASCADE עוברות ל-RESTRICT
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'billing_documents_customer_id_fkey' AND confdeltype = 'c'
+    ) THEN
+        ALTER TABLE billing_documents DROP CONSTRAINT billing_documents_customer_id_fkey;
+        ALTER TABLE billing_documents
+        ADD CONSTRAINT billing_documents_customer_id_fkey
+        FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE RESTRICT;
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_documents_number
+    ON billing_documents(COALESCE(client_id, 0), document_type, document_number);
+CREATE INDEX IF NOT EXISTS idx_billing_documents_customer ON billing_documents(customer_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_billing_documents_attachment ON billing_documents(attachment_id) WHERE attachment_id IS NOT NULL;
+
+-- הסכום מתוך התשלום שכבר הופקה עליו קבלה
+ALTER TABLE customer_charges ADD COLUMN IF NOT EXISTS receipted_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON TABLE billing_documents IS 'Invoices and receipts issued to customers - numbered per tenant and document type without gaps, the PDF is a customer attachment';
+COMMENT ON COLUMN billing_documents.lines IS 'Document lines as issued: description, net, vat and total (charge_id on receipt lines)';
+COMMENT ON COLUMN customer_charges.receipted_amount IS 'Part of paid_amount a receipt was already issued for';
+
 -- ========================================
 -- הערות על שדות תשלום
 -- ========================================
@@ -8,6 +8,8 @@ import { validateInput, securityHeaders, preventHPP, corsOptions, addRequestId,
 import { testConnection, initializeDatabase, closePool } from './database/connection.js';
 import authRoutes from './routes/auth.js';
 import leadsRoutes from './routes/leads.js';
+import leadTagsRoutes from './routes/lead-tags.js';
+import leadSegmentsRoutes from './routes/lead-segments.js';
 import tasksRoutes from './routes/tasks.js';
 import remindersRoutes from './routes/reminders.js';
 import calendarRoutes from './routes/calendar.js';
@@ -19,7 +21,16 @@ import customersRoutes from './routes/customers.js';
 import reportsRoutes from './routes/reports.js';
 import cleanupRoutes from './routes/cleanup.js';
 import whatsappRoutes from './routes/whatsapp.js';
+import inboundRoutes from './routes/inbound.js';
+import whatsappWebhookRoutes from './routes/whatsapp-webhook.js';
+import doNotContactRoutes from './routes/do-not-contact.js';
+import searchRoutes from './routes/search.js';
 import { CleanupJobs } from './jobs/cleanupJobs.js';
+import { LeadScoringJobs } from './jobs/leadScoringJobs.js';
+import { LeadImportJobs } from './jobs/leadImportJobs.js';
+import { LeadSlaJobs } from './jobs/leadSlaJobs.js';
+import { AutoStatusChangeJobs } from './jobs/autoStatusChangeJobs.js';
+import { BillingJobs } from './jobs/billingJobs.js';
 
 // Load environment variables
 dotenv.config();
@@ -37,6 +48,25 @@ app.set('trust proxy', 1);
 app.use(addRequestId);
 app.use(securityHeaders);
 app.use(preventHPP);
+
+// Public inbound lead capture - open to any origin (websites / landing pages), authenticated by client key
+app.use(
+  '/api/inbound',
+  cors(),
+  express.json({ limit: '1mb' }),
+  express.urlencoded({ extended: true, limit: '1mb' }),
+  validateInput,
+  inboundRoutes
+);
+
+// WhatsApp Cloud API webhook - called by Meta; the raw body is kept for the signature check
+app.use(
+  '/api/whatsapp/webhook',
+  express.json({ limit: '1mb', verify: (req: any, _res, buf) => { req.rawBody = buf; } }),
+  validateInput,
+  whatsappWebhookRoutes
+);
+
 app.use(cors(corsOptions));
 app.use(compression());
 app.use(express.json({ limit: '50mb' }));
@@ -58,6 +88,8 @@ app.get('/readyz', (_req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/leads', leadsRoutes);
+app.use('/api/lead-tags', leadTagsRoutes);
+app.use('/api/lead-segments', leadSegmentsRoutes);
 app.use('/api/tasks', tasksRoutes);
 app.use('/api/reminders', remindersRoutes);
 app.use('/api/calendar', calendarRoutes);
@@ -69,6 +101,8 @@ app.use('/api/customers', customersRoutes);
 app.use('/api/reports', reportsRoutes);
 app.use('/api/cleanup', cleanupRoutes);
 app.use('/api/whatsapp', whatsappRoutes);
+app.use('/api/dnc', doNotContactRoutes);
+app.use('/api/search', searchRoutes);
 
 // API placeholder route
 app.get('/api/hello', (_req, res) => {
@@ -112,6 +146,11 @@ const startServer = async () => {
 
     // Start cleanup jobs
     CleanupJobs.start();
+    LeadScoringJobs.start();
+    LeadImportJobs.start();
+    LeadSlaJobs.start();
+    AutoStatusChangeJobs.start();
+    BillingJobs.start();
 
     // Start server
     app.listen(PORT, HOST, () => {
@@ -120,6 +159,9 @@ const startServer = async () => {
       console.log(`📊 Database connected successfully`);
       console.log(`🔐 Auth endpoints available at /api/auth`);
       console.log(`🧹 Cleanup jobs started`);
+      if (!process.env.WHATSAPP_APP_SECRET) {
+        console.warn('⚠️ WHATSAPP_APP_SECRET is not set - the WhatsApp webhook is disabled and STOP replies are not registered');
+      }
     });
 
   } catch (error) {
@@ -132,6 +174,11 @@ const startServer = async () => {
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down server...');
   CleanupJobs.stop();
+  LeadScoringJobs.stop();
+  LeadImportJobs.stop();
+  LeadSlaJobs.stop();
+  AutoStatusChangeJobs.stop();
+  BillingJobs.stop();
   await closePool();
   process.exit(0);
 });
@@ -139,6 +186,11 @@ process.on('SIGINT', async () => {
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down server...');
   CleanupJobs.stop();
+  LeadScoringJobs.stop();
+  LeadImportJobs.stop();
+  LeadSlaJobs.stop();
+  AutoStatusChangeJobs.stop();
+  BillingJobs.stop();
   await closePool();
   process.exit(0);
 });
@@ -0,0 +1,96 @@
+import { SystemClientModel } from '../models/SystemClient.js';
+import { AutoStatusChangeService } from '../services/autoStatusChanges.js';
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Job to apply the clients' automatic status change rules
+ * Runs every hour - e.g. moves "אין מענה" leads to "אין מענה 2" after the configured hours
+ */
+export class AutoStatusChangeJobs {
+  private static runInterval: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+  private static lastRun: Date | null = null;
+
+  /**
+   * Start the status change job
+   */
+  static start(): void {
+    if (this.runInterval) {
+      console.log('Auto status change job already running');
+      return;
+    }
+
+    console.log('Starting auto status change job...');
+
+    this.runRules();
+    this.runInterval = setInterval(() => {
+      this.runRules();
+    }, RUN_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the status change job
+   */
+  static stop(): void {
+    if (this.runInterval) {
+      clearInterval(this.runInterval);
+      this.runInterval = null;
+      console.log('Auto status change job stopped');
+    }
+  }
+
+  /**
+   * Run the enabled rules of every active client (skipped while the previous run is still going)
+   */
+  private static async runRules(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Auto status changes already running, skipping...');
+      return;
+    }
+
+    this.isRunning = true;
+    const startTime = Date.now();
+    let applied = 0;
+
+    try {
+      const clients = await SystemClientModel.findActiveAutoStatusChanges();
+      for (const client of clients) {
+        // Rules run in their configured order, each on the leads still in its fromStatus
+        for (const rule of client.auto_status_changes.filter(rule => rule.enabled)) {
+          try {
+            const moved = await AutoStatusChangeService.apply(client.id, rule, client.lead_statuses);
+            if (moved > 0) {
+              console.log(`Auto status change "${rule.name}" (client ${client.id}) moved ${moved} leads`);
+            }
+            applied += moved;
+          } catch (error) {
+            console.error(`Error applying auto status change "${rule.name}" of client ${client.id}:`, error);
+          }
+        }
+      }
+
+      this.lastRun = new Date();
+      console.log(`Auto status changes completed in ${Date.now() - startTime}ms - ${applied} leads moved`);
+    } catch (error) {
+      console.error('Error during auto status changes:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Get status change job status
+   */
+  static getStatus(): {
+    isRunning: boolean;
+    hasInterval: boolean;
+    lastRun: Date | null;
+  } {
+    return {
+      isRunning: this.isRunning,
+      hasInterval: this.runInterval !== null,
+      lastRun: this.lastRun
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { CustomerChargeModel } from '../models/CustomerCharge.js';
+import { BillingService } from '../services/billing.js';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Job to keep customer billing schedules up to date
+ * Runs every hour: once a day extends the schedules to the horizon, then reports the charges that went overdue
+ */
+export class BillingJobs {
+  private static checkInterval: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+  private static lastRun: Date | null = null;
+  private static lastGeneratedDate: string | null = null;
+
+  /**
+   * Start the billing job
+   */
+  static start(): void {
+    if (this.checkInterval) {
+      console.log('Billing job already running');
+      return;
+    }
+
+    console.log('Starting billing job...');
+
+    this.runCheck();
+    this.checkInterval = setInterval(() => {
+      this.runCheck();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the billing job
+   */
+  static stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('Billing job stopped');
+    }
+  }
+
+  /**
+   * Run one check (skipped while the previous one is still running)
+   */
+  private static async runCheck(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    try {
+      const today = BillingService.today();
+      if (this.lastGeneratedDate !== today) {
+        const generated = await this.generateAll();
+        this.lastGeneratedDate = today;
+        console.log(`Billing schedules extended for ${generated} customers`);
+      }
+
+      const result = await BillingService.reportOverdue();
+      if (result.charges > 0) {
+        console.log(`Billing check - ${result.charges} overdue charges reported for ${result.customers} customers`);
+      }
+      this.lastRun = new Date();
+    } catch (error) {
+      console.error('Error during billing check:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Regenerate every schedule - a customer that fails is logged and retried the next day
+   */
+  private static async generateAll(): Promise<number> {
+    let generated = 0;
+    for (const customerId of await CustomerChargeModel.findScheduledCustomerIds()) {
+      try {
+        if (await BillingService.generate(customerId)) generated++;
+      } catch (error) {
+        console.error(`Error generating billing schedule of customer ${customerId}:`, error);
+      }
+    }
+    return generated;
+  }
+
+  /**
+   * Get billing job status
+   */
+  static getStatus(): {
+    isRunning: boolean;
+    hasInterval: boolean;
+    lastRun: Date | null;
+  } {
+    return {
+      isRunning: this.isRunning,
+      hasInterval: this.checkInterval !== null,
+      lastRun: this.lastRun
+    };
+  }
+}
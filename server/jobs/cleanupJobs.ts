@@ -1,9 +1,11 @@
 import { UserModel } from '../models/User.js';
 import { SessionModel } from '../models/Session.js';
 import { SystemClientModel } from '../models/SystemClient.js';
+import { AttachmentService } from '../services/attachments.js';
+import { LeadBulkBatchModel } from '../models/LeadBulkBatch.js';
 
 /**
- * Job to clean up deleted users and expired sessions
+ * Job to clean up deleted users, expired sessions, orphaned attachment files and old bulk lead actions
  * Runs automatically every day at 2:00 AM
  */
 export class CleanupJobs {
@@ -93,6 +95,14 @@ export class CleanupJobs {
       const expiredSessionsCount = await SessionModel.cleanupExpired();
       console.log(`Cleaned up ${expiredSessionsCount} expired sessions`);
       
+      // Remove files of deleted leads, customers and tasks
+      const orphanedAttachmentsCount = await AttachmentService.purgeOrphans();
+      console.log(`Cleaned up ${orphanedAttachmentsCount} orphaned attachments`);
+      
+      // Clean up bulk lead actions that can no longer be undone (more than 1 month old)
+      const expiredBulkBatchesCount = await LeadBulkBatchModel.cleanupExpired();
+      console.log(`Cleaned up ${expiredBulkBatchesCount} expired bulk lead actions`);
+      
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
       
@@ -100,6 +110,8 @@ export class CleanupJobs {
       console.log(`- Deleted users: ${deletedUsersCount}`);
       console.log(`- Deleted system clients: ${deletedClientsCount}`);
       console.log(`- Expired sessions: ${expiredSessionsCount}`);
+      console.log(`- Orphaned attachments: ${orphanedAttachmentsCount}`);
+      console.log(`- Expired bulk lead actions: ${expiredBulkBatchesCount}`);
       
     } catch (error) {
       console.error('Error during cleanup process:', error);
@@ -115,6 +127,8 @@ export class CleanupJobs {
     deletedUsers: number;
     deletedSystemClients: number;
     expiredSessions: number;
+    orphanedAttachments: number;
+    expiredBulkBatches: number;
     duration: number;
   }> {
     if (this.isRunning) {
@@ -129,6 +143,8 @@ export class CleanupJobs {
       const deletedUsersCount = await UserModel.cleanupDeletedUsers();
       const deletedClientsCount = await SystemClientModel.cleanupDeletedClients();
       const expiredSessionsCount = await SessionModel.cleanupExpired();
+      const orphanedAttachmentsCount = await AttachmentService.purgeOrphans();
+      const expiredBulkBatchesCount = await LeadBulkBatchModel.cleanupExpired();
       
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
@@ -137,6 +153,8 @@ export class CleanupJobs {
         deletedUsers: deletedUsersCount,
         deletedSystemClients: deletedClientsCount,
         expiredSessions: expiredSessionsCount,
+        orphanedAttachments: orphanedAttachmentsCount,
+        expiredBulkBatches: expiredBulkBatchesCount,
         duration
       };
       
@@ -0,0 +1,184 @@
+import { LeadImportJobModel, LeadImportJob, LeadImportProgress } from '../models/LeadImportJob.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { UserModel } from '../models/User.js';
+import { LeadImportService, ImportEncoding, ImportRowResult, ImportBatchState, ImportUser } from '../services/leadImport.js';
+
+const CHUNK_SIZE = 500;
+
+/**
+ * Background lead imports
+ * Jobs run one at a time in the order they were queued. Progress is saved after every
+ * chunk, so a job interrupted by a restart continues from the last saved row.
+ */
+export class LeadImportJobs {
+  private static queue: number[] = [];
+  private static currentJobId: number | null = null;
+  private static isStarted = false;
+
+  /**
+   * Start processing - resumes jobs that were queued or running when the server stopped
+   */
+  static async start(): Promise<void> {
+    if (this.isStarted) {
+      console.log('Lead import jobs already running');
+      return;
+    }
+
+    console.log('Starting lead import jobs...');
+    this.isStarted = true;
+
+    try {
+      const unfinished = await LeadImportJobModel.findUnfinished();
+      if (unfinished.length > 0) {
+        console.log(`Resuming ${unfinished.length} unfinished lead import jobs`);
+      }
+      unfinished.forEach(job => this.enqueue(job.id));
+    } catch (error) {
+      console.error('Error resuming lead import jobs:', error);
+    }
+  }
+
+  /**
+   * Stop picking up queued jobs (they are resumed on the next start)
+   */
+  static stop(): void {
+    if (this.isStarted) {
+      this.isStarted = false;
+      this.queue = [];
+      console.log('Lead import jobs stopped');
+    }
+  }
+
+  /**
+   * Queue a job for processing
+   */
+  static enqueue(jobId: number): void {
+    if (this.currentJobId === jobId || this.queue.includes(jobId)) return;
+
+    this.queue.push(jobId);
+    if (this.currentJobId === null) {
+      this.processQueue();
+    }
+  }
+
+  private static async processQueue(): Promise<void> {
+    while (this.isStarted && this.queue.length > 0) {
+      this.currentJobId = this.queue.shift()!;
+      try {
+        await this.runJob(this.currentJobId);
+      } catch (error) {
+        console.error(`Error running lead import job ${this.currentJobId}:`, error);
+      }
+    }
+    this.currentJobId = null;
+  }
+
+  /**
+   * Import the rows of a job that were not processed yet (and the failed rows queued for a re-run)
+   */
+  private static async runJob(jobId: number): Promise<void> {
+    const job = await LeadImportJobModel.findByIdWithFile(jobId);
+    if (!job || !job.file_data || job.status === 'completed') return;
+
+    try {
+      const user = job.created_by ? await UserModel.findById(job.created_by) : null;
+      if (!user) {
+        await LeadImportJobModel.finish(jobId, 'failed', 'The user who started the import no longer exists');
+        return;
+      }
+
+      const config = job.client_id ? await SystemClientModel.getConfiguration(job.client_id) : null;
+      const customFields = config?.custom_fields.leads || [];
+
+      const file = LeadImportService.parseFile(job.file_data, job.filename, undefined, job.encoding as ImportEncoding);
+      const mappingErrors = LeadImportService.validateMapping(file, job.mapping, customFields);
+      if (mappingErrors.length > 0) {
+        await LeadImportJobModel.finish(jobId, 'failed', mappingErrors.join('; '));
+        return;
+      }
+
+      const rows = LeadImportService.buildRows(file, job.mapping, config?.lead_statuses || [], customFields);
+      const state = LeadImportService.createBatchState(rows);
+      const retryRows = new Set(job.retry_rows || []);
+      const pending = rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row, index }) => index >= job.processed_rows || retryRows.has(row.rowNumber));
+
+      await LeadImportJobModel.markRunning(jobId, rows.length);
+      console.log(`Lead import job ${jobId}: ${pending.length} rows to process`);
+
+      let processedRows = job.processed_rows;
+      for (let start = 0; start < pending.length; start += CHUNK_SIZE) {
+        const chunk = pending.slice(start, start + CHUNK_SIZE);
+        const progress = await this.importChunk(job, user, chunk.map(({ row }) => row), state);
+
+        processedRows = Math.max(processedRows, chunk[chunk.length - 1].index + 1);
+        await LeadImportJobModel.updateProgress(jobId, { ...progress, processed_rows: processedRows });
+      }
+
+      await LeadImportJobModel.finish(jobId, 'completed');
+      console.log(`Lead import job ${jobId} completed`);
+    } catch (error) {
+      console.error(`Lead import job ${jobId} failed:`, error);
+      await LeadImportJobModel.finish(jobId, 'failed', error instanceof Error ? error.message : 'Import failed');
+    }
+  }
+
+  // Import one chunk - rows with validation errors fail, a failed save fails the whole chunk
+  private static async importChunk(
+    job: LeadImportJob,
+    user: ImportUser,
+    rows: ImportRowResult[],
+    state: ImportBatchState
+  ): Promise<Omit<LeadImportProgress, 'processed_rows'>> {
+    const progress: Omit<LeadImportProgress, 'processed_rows'> = { created: 0, skipped: 0, attached: 0, failed: 0, row_errors: [] };
+
+    rows.filter(row => !row.lead).forEach(row => {
+      progress.failed++;
+      progress.row_errors.push({ rowNumber: row.rowNumber, type: 'failed', reason: row.errors.join('; ') });
+    });
+
+    const validRows = rows
+      .filter(row => row.lead)
+      .map(row => ({ rowNumber: row.rowNumber, lead: row.lead! }));
+    if (validRows.length === 0) return progress;
+
+    try {
+      const result = await LeadImportService.importLeads(user, validRows, { importJobId: job.id, state });
+
+      for (const outcome of result.outcomes) {
+        if (outcome.result === 'created') progress.created++;
+        if (outcome.result === 'attached') progress.attached++;
+        if (outcome.result === 'skipped') {
+          progress.skipped++;
+          progress.row_errors.push({ rowNumber: outcome.rowNumber, type: 'skipped', reason: outcome.reason || 'דולג' });
+        }
+      }
+    } catch (error) {
+      console.error(`Error saving rows of lead import job ${job.id}:`, error);
+      const reason = `שגיאה בשמירה: ${error instanceof Error ? error.message : 'unknown error'}`;
+      validRows.forEach(row => {
+        progress.failed++;
+        progress.row_errors.push({ rowNumber: row.rowNumber, type: 'failed', reason });
+      });
+    }
+
+    progress.row_errors.sort((a, b) => a.rowNumber - b.rowNumber);
+    return progress;
+  }
+
+  /**
+   * Get import job runner status
+   */
+  static getStatus(): {
+    isStarted: boolean;
+    currentJobId: number | null;
+    queued: number;
+  } {
+    return {
+      isStarted: this.isStarted,
+      currentJobId: this.currentJobId,
+      queued: this.queue.length
+    };
+  }
+}
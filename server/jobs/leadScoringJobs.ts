@@ -0,0 +1,146 @@
+import { LeadModel } from '../models/Lead.js';
+import { LeadScoringService } from '../services/leadScoring.js';
+
+const BATCH_SIZE = 500;
+
+/**
+ * Job to rescore all leads (time decay - days without contact)
+ * Runs automatically every day at 3:00 AM
+ */
+export class LeadScoringJobs {
+  private static rescoreInterval: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+  private static lastRun: Date | null = null;
+
+  /**
+   * Start the rescore job
+   */
+  static start(): void {
+    if (this.rescoreInterval) {
+      console.log('Lead scoring job already running');
+      return;
+    }
+
+    console.log('Starting lead scoring job...');
+
+    // Run on startup - scores leads that were created before scoring existed
+    this.runRescore();
+
+    // Schedule rescore to run daily at 3:00 AM
+    this.scheduleDailyRescore();
+  }
+
+  /**
+   * Stop the rescore job
+   */
+  static stop(): void {
+    if (this.rescoreInterval) {
+      clearInterval(this.rescoreInterval);
+      this.rescoreInterval = null;
+      console.log('Lead scoring job stopped');
+    }
+  }
+
+  /**
+   * Schedule daily rescore at 3:00 AM
+   */
+  private static scheduleDailyRescore(): void {
+    const now = new Date();
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(3, 0, 0, 0); // 3:00 AM
+
+    const msUntilTomorrow = tomorrow.getTime() - now.getTime();
+
+    // Set timeout for first run tomorrow
+    setTimeout(() => {
+      this.runRescore();
+
+      // Then set interval for every 24 hours
+      this.rescoreInterval = setInterval(() => {
+        this.runRescore();
+      }, 24 * 60 * 60 * 1000); // 24 hours
+
+    }, msUntilTomorrow);
+
+    console.log(`Next lead rescore scheduled for: ${tomorrow.toISOString()}`);
+  }
+
+  /**
+   * Run the rescore process (scheduled)
+   */
+  private static async runRescore(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Lead rescore already running, skipping...');
+      return;
+    }
+
+    try {
+      const result = await this.rescoreAll();
+      console.log(`Lead rescore completed in ${result.duration}ms - ${result.updated}/${result.scanned} leads updated`);
+    } catch (error) {
+      console.error('Error during lead rescore:', error);
+    }
+  }
+
+  /**
+   * Rescore every lead, saving only the ones whose score changed
+   */
+  private static async rescoreAll(): Promise<{ scanned: number; updated: number; duration: number }> {
+    this.isRunning = true;
+    const startTime = new Date();
+    let scanned = 0;
+    let updated = 0;
+
+    try {
+      let lastId = 0;
+      while (true) {
+        const leads = await LeadModel.findForRescore(lastId, BATCH_SIZE);
+        if (leads.length === 0) break;
+
+        for (const lead of leads) {
+          const { score } = LeadScoringService.analyze(lead, startTime);
+          if (score !== lead.score) {
+            await LeadModel.saveScore(lead);
+            updated++;
+          }
+        }
+
+        scanned += leads.length;
+        lastId = leads[leads.length - 1].id;
+      }
+
+      this.lastRun = new Date();
+      return { scanned, updated, duration: this.lastRun.getTime() - startTime.getTime() };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Manually trigger a rescore (for admin use)
+   */
+  static async triggerRescore(): Promise<{ scanned: number; updated: number; duration: number }> {
+    if (this.isRunning) {
+      throw new Error('Lead rescore is already running');
+    }
+
+    console.log('Manual lead rescore triggered...');
+    return this.rescoreAll();
+  }
+
+  /**
+   * Get rescore job status
+   */
+  static getStatus(): {
+    isRunning: boolean;
+    hasInterval: boolean;
+    lastRun: Date | null;
+  } {
+    return {
+      isRunning: this.isRunning,
+      hasInterval: this.rescoreInterval !== null,
+      lastRun: this.lastRun
+    };
+  }
+}
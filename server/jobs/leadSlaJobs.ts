@@ -0,0 +1,152 @@
+import { LeadSlaModel, SlaBreachLead } from '../models/LeadSla.js';
+import { SystemClientModel, LeadSlaSettings } from '../models/SystemClient.js';
+import { UnifiedEventModel } from '../models/UnifiedEvent.js';
+import { LeadSlaService, DEFAULT_BUSINESS_HOURS } from '../services/leadSla.js';
+import { formatIsraelTime } from '../utils/israelTimezone.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// New leads older than this are not given a deadline (e.g. right after SLA is enabled)
+const CANDIDATE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// The manager's reminder pops up right away (reminders show within their advance notice)
+const NOTIFICATION_ADVANCE_MINUTES = 5;
+
+/**
+ * Job to track first-touch SLAs of new leads
+ * Runs every minute: sets the deadline of new leads and notifies the agent's manager on a breach
+ */
+export class LeadSlaJobs {
+  private static checkInterval: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+  private static lastRun: Date | null = null;
+
+  /**
+   * Start the SLA job
+   */
+  static start(): void {
+    if (this.checkInterval) {
+      console.log('Lead SLA job already running');
+      return;
+    }
+
+    console.log('Starting lead SLA job...');
+
+    this.runCheck();
+    this.checkInterval = setInterval(() => {
+      this.runCheck();
+    }, CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the SLA job
+   */
+  static stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      console.log('Lead SLA job stopped');
+    }
+  }
+
+  /**
+   * Run one check (skipped while the previous one is still running)
+   */
+  private static async runCheck(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    try {
+      const result = await this.check();
+      if (result.scheduled > 0 || result.breached > 0) {
+        console.log(`Lead SLA check - ${result.scheduled} deadlines set, ${result.breached} breaches (${result.notified} managers notified)`);
+      }
+      this.lastRun = new Date();
+    } catch (error) {
+      console.error('Error during lead SLA check:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Set deadlines of new leads, then mark and report the missed ones
+   */
+  private static async check(): Promise<{ scheduled: number; breached: number; notified: number }> {
+    const clients = (await SystemClientModel.findActiveSettings())
+      .filter(client => LeadSlaService.isEnabled(client.settings.sla));
+    if (clients.length === 0) return { scheduled: 0, breached: 0, notified: 0 };
+
+    const slaByClient = new Map<number, LeadSlaSettings>(clients.map(client => [client.id, client.settings.sla!]));
+    const clientIds = clients.map(client => client.id);
+
+    let scheduled = 0;
+    const candidates = await LeadSlaModel.findCandidates(clientIds, new Date(Date.now() - CANDIDATE_LOOKBACK_MS));
+    for (const lead of candidates) {
+      const sla = slaByClient.get(lead.client_id)!;
+      const rule = LeadSlaService.findRule(sla, lead.source);
+      if (!rule) continue;
+
+      const dueAt = LeadSlaService.computeDueAt(new Date(lead.created_at), rule, sla.businessHours || DEFAULT_BUSINESS_HOURS);
+      await LeadSlaModel.setDue(lead.id, rule.name, dueAt);
+      scheduled++;
+    }
+
+    let breached = 0;
+    let notified = 0;
+    const breaches = await LeadSlaModel.findBreaches(clientIds);
+    for (const lead of breaches) {
+      if (!await LeadSlaModel.markBreached(lead.id)) continue;
+      breached++;
+
+      if (slaByClient.get(lead.client_id)!.notifyManager === false || !lead.manager_id) continue;
+      try {
+        await this.notifyManager(lead);
+        notified++;
+      } catch (error) {
+        console.error(`Error notifying manager about SLA breach of lead ${lead.id}:`, error);
+      }
+    }
+
+    return { scheduled, breached, notified };
+  }
+
+  /**
+   * Remind the manager of the assigned agent about the missed lead
+   */
+  private static async notifyManager(lead: SlaBreachLead): Promise<void> {
+    const startTime = new Date(Date.now() + NOTIFICATION_ADVANCE_MINUTES * 60 * 1000);
+    const touched = lead.first_touch_at
+      ? `טופל באיחור (${formatIsraelTime(new Date(lead.first_touch_at))})`
+      : 'טרם טופל';
+
+    await UnifiedEventModel.createEventFromLead(lead.manager_id!, {
+      title: `חריגת זמן מענה - ${lead.name}`,
+      description: `הליד ${lead.name}${lead.phone ? ` (${lead.phone})` : ''} של ${lead.agent_name || 'הנציג'} ${touched}. ` +
+        `כלל: ${lead.sla_rule || '-'}, מועד אחרון: ${formatIsraelTime(new Date(lead.sla_due_at))}`,
+      eventType: 'reminder',
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + 30 * 60 * 1000).toISOString(),
+      advanceNotice: NOTIFICATION_ADVANCE_MINUTES,
+      isActive: true,
+      notified: false,
+      customerName: lead.name,
+      leadId: lead.id
+    });
+  }
+
+  /**
+   * Get SLA job status
+   */
+  static getStatus(): {
+    isRunning: boolean;
+    hasInterval: boolean;
+    lastRun: Date | null;
+  } {
+    return {
+      isRunning: this.isRunning,
+      hasInterval: this.checkInterval !== null,
+      lastRun: this.lastRun
+    };
+  }
+}
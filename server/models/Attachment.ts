@@ -0,0 +1,103 @@
+import { query } from '../database/connection.js';
+
+export type AttachmentParentType = 'lead' | 'customer' | 'task';
+
+export interface Attachment {
+  id: number;
+  client_id: number | null;
+  parent_type: AttachmentParentType;
+  lead_id: number | null;
+  customer_id: number | null;
+  task_id: number | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_driver: string;
+  storage_key: string;
+  uploaded_by: number | null;
+  uploaded_by_name?: string | null;
+  created_at: Date;
+}
+
+export interface CreateAttachmentData {
+  client_id: number | null;
+  parent_type: AttachmentParentType;
+  parent_id: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_driver: string;
+  storage_key: string;
+  uploaded_by: number;
+}
+
+// Column holding the parent of each parent type
+const PARENT_COLUMNS: Record<AttachmentParentType, string> = {
+  lead: 'lead_id',
+  customer: 'customer_id',
+  task: 'task_id'
+};
+
+export class AttachmentModel {
+  // Get the attachments of a record, newest first
+  static async findByParent(parentType: AttachmentParentType, parentId: number): Promise<Attachment[]> {
+    const result = await query(
+      `SELECT a.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as uploaded_by_name
+       FROM attachments a
+       LEFT JOIN users u ON u.id = a.uploaded_by
+       WHERE a.${PARENT_COLUMNS[parentType]} = $1
+       ORDER BY a.created_at DESC, a.id DESC`,
+      [parentId]
+    );
+
+    return result.rows;
+  }
+
+  // Find an attachment of a record
+  static async findForParent(id: number, parentType: AttachmentParentType, parentId: number): Promise<Attachment | null> {
+    const result = await query(
+      `SELECT * FROM attachments WHERE id = $1 AND ${PARENT_COLUMNS[parentType]} = $2`,
+      [id, parentId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Create attachment
+  static async create(data: CreateAttachmentData): Promise<Attachment> {
+    const result = await query(
+      `INSERT INTO attachments (client_id, parent_type, ${PARENT_COLUMNS[data.parent_type]}, file_name, mime_type, size_bytes, storage_driver, storage_key, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [data.client_id, data.parent_type, data.parent_id, data.file_name, data.mime_type, data.size_bytes, data.storage_driver, data.storage_key, data.uploaded_by]
+    );
+
+    return result.rows[0];
+  }
+
+  // Delete attachment
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM attachments WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+
+  // Get attachments whose record was deleted (the parent reference was set to NULL)
+  // Files of leads whose bulk delete can still be undone are kept
+  static async findOrphaned(limit: number): Promise<Attachment[]> {
+    const result = await query(
+      `SELECT * FROM attachments a
+       WHERE lead_id IS NULL AND customer_id IS NULL AND task_id IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM lead_bulk_batch_items i
+           JOIN lead_bulk_batches b ON b.id = i.batch_id
+           WHERE b.action = 'delete' AND b.undone_at IS NULL AND b.undo_until > CURRENT_TIMESTAMP
+             AND i.before_values->'attachments' @> to_jsonb(a.id)
+         )
+       ORDER BY id
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows;
+  }
+}
@@ -294,4 +294,17 @@ export class AttendanceModel {
     
     return parseFloat(result.rows[0].total) || 0;
   }
+
+  // Get which of the given users are currently clocked in (open record from the last 16 hours)
+  static async findClockedInUserIds(userIds: number[]): Promise<number[]> {
+    if (userIds.length === 0) return [];
+
+    const result = await query(
+      `SELECT DISTINCT user_id FROM attendance_records 
+       WHERE user_id = ANY($1::int[]) AND clock_out IS NULL AND clock_in > NOW() - INTERVAL '16 hours'`,
+      [userIds]
+    );
+    
+    return result.rows.map((row: any) => row.user_id);
+  }
 }
@@ -0,0 +1,105 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolClient } from 'pg';
+import pool from '../database/connection.js';
+import { BillingDocumentModel, IssueBillingDocumentData } from './BillingDocument.js';
+
+// Stands in for a pooled connection - answers by statement and records what ran
+class FakeClient {
+  statements: Array<{ sql: string; params: unknown[] }> = [];
+  released = false;
+
+  constructor(private nextNumber: number, private receiptedCharges: number[] = []) {}
+
+  async query(sql: string, params: unknown[] = []) {
+    this.statements.push({ sql, params });
+    if (sql.includes('UPDATE customer_charges')) {
+      return { rows: this.receiptedCharges.includes(params[0] as number) ? [{ id: params[0] }] : [] };
+    }
+    if (sql.includes('next_number')) return { rows: [{ next_number: String(this.nextNumber) }] };
+    if (sql.includes('INSERT INTO billing_documents')) {
+      return {
+        rows: [{
+          id: 1,
+          document_number: params[3],
+          vat_rate: '0.18',
+          net_amount: String(params[7]),
+          vat_amount: String(params[8]),
+          total_amount: String(params[9])
+        }]
+      };
+    }
+    return { rows: [] };
+  }
+
+  release() {
+    this.released = true;
+  }
+
+  ran(statement: string) {
+    return this.statements.some(({ sql }) => sql.includes(statement));
+  }
+}
+
+const useClient = (client: FakeClient) => {
+  mock.method(pool, 'connect', async () => client as unknown as PoolClient);
+};
+
+const receipt: IssueBillingDocumentData = {
+  client_id: 3,
+  customer_id: 7,
+  document_type: 'receipt',
+  vat_type: 'included',
+  vat_rate: 0.18,
+  lines: [{ description: 'תשלום', charge_id: 11, net: 100, vat: 18, total: 118 }],
+  net_amount: 100,
+  vat_amount: 18,
+  total_amount: 118,
+  issued_by: 5
+};
+
+describe('BillingDocumentModel.issue', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('numbers the document after the last of the tenant and type, under a lock, in one transaction', async () => {
+    const client = new FakeClient(42, [11]);
+    useClient(client);
+
+    const document = await BillingDocumentModel.issue(receipt);
+
+    assert.equal(document?.document_number, 42);
+    assert.equal(document?.attachment, null);
+    const lock = client.statements.find(({ sql }) => sql.includes('pg_advisory_xact_lock'));
+    assert.deepEqual(lock?.params, ['billing-document:3:receipt']);
+    const numbering = client.statements.find(({ sql }) => sql.includes('next_number'));
+    assert.deepEqual(numbering?.params, [3, 'receipt']);
+    assert.deepEqual(client.statements.map(({ sql }) => sql.trim().split(/\s/)[0]), ['BEGIN', 'SELECT', 'UPDATE', 'SELECT', 'INSERT', 'COMMIT']);
+    assert.equal(client.released, true);
+  });
+
+  it('takes no number when a charge of the receipt was receipted in the meantime', async () => {
+    const client = new FakeClient(42);
+    useClient(client);
+
+    assert.equal(await BillingDocumentModel.issue(receipt), null);
+    assert.equal(client.ran('INSERT INTO billing_documents'), false);
+    assert.equal(client.ran('ROLLBACK'), true);
+    assert.equal(client.released, true);
+  });
+
+  it('rolls back when the document cannot be saved', async () => {
+    const client = new FakeClient(42, [11]);
+    mock.method(client, 'query', async (sql: string) => {
+      client.statements.push({ sql, params: [] });
+      if (sql.includes('INSERT INTO billing_documents')) throw new Error('duplicate key');
+      return { rows: sql.includes('next_number') ? [{ next_number: '42' }] : [{ id: 11 }] };
+    });
+    useClient(client);
+
+    await assert.rejects(BillingDocumentModel.issue(receipt), /duplicate key/);
+    assert.equal(client.ran('ROLLBACK'), true);
+    assert.equal(client.ran('COMMIT'), false);
+  });
+});
@@ -0,0 +1,172 @@
+import { query, getClient } from '../database/connection.js';
+import { Attachment } from './Attachment.js';
+
+export type BillingDocumentType = 'invoice' | 'receipt';
+
+export const BILLING_DOCUMENT_TYPES: BillingDocumentType[] = ['invoice', 'receipt'];
+
+export interface BillingDocumentLine {
+  description: string;
+  vat_type?: 'plus' | 'included'; // invoices - how the service's amount was entered
+  charge_id?: number; // receipts - the charge the payment was recorded on
+  paid_at?: string | null; // receipts - YYYY-MM-DD
+  net: number;
+  vat: number;
+  total: number;
+}
+
+export interface BillingDocument {
+  id: number;
+  client_id: number | null;
+  customer_id: number;
+  document_type: BillingDocumentType;
+  document_number: number;
+  vat_type: 'plus' | 'included';
+  vat_rate: number;
+  lines: BillingDocumentLine[];
+  net_amount: number;
+  vat_amount: number;
+  total_amount: number;
+  attachment_id: number | null;
+  attachment?: Attachment | null; // the PDF
+  issued_by: number | null;
+  issued_by_name?: string | null;
+  issued_at: Date;
+}
+
+export interface IssueBillingDocumentData {
+  client_id: number | null;
+  customer_id: number;
+  document_type: BillingDocumentType;
+  vat_type: 'plus' | 'included';
+  vat_rate: number;
+  lines: BillingDocumentLine[];
+  net_amount: number;
+  vat_amount: number;
+  total_amount: number;
+  issued_by: number;
+}
+
+const toDocument = (row: any): BillingDocument => ({
+  ...row,
+  vat_rate: parseFloat(row.vat_rate),
+  net_amount: parseFloat(row.net_amount),
+  vat_amount: parseFloat(row.vat_amount),
+  total_amount: parseFloat(row.total_amount)
+});
+
+export class BillingDocumentModel {
+  // Get the documents of a customer, newest first, with their PDF
+  static async findByCustomer(customerId: number): Promise<BillingDocument[]> {
+    const result = await query(
+      `SELECT d.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as issued_by_name,
+         CASE WHEN a.id IS NOT NULL THEN to_jsonb(a) END as attachment
+       FROM billing_documents d
+       LEFT JOIN users u ON u.id = d.issued_by
+       LEFT JOIN attachments a ON a.id = d.attachment_id
+       WHERE d.customer_id = $1
+       ORDER BY d.issued_at DESC, d.id DESC`,
+      [customerId]
+    );
+
+    return result.rows.map(toDocument);
+  }
+
+  // Get a document with its PDF
+  static async findById(id: number): Promise<BillingDocument | null> {
+    const result = await query(
+      `SELECT d.*, CASE WHEN a.id IS NOT NULL THEN to_jsonb(a) END as attachment
+       FROM billing_documents d
+       LEFT JOIN attachments a ON a.id = d.attachment_id
+       WHERE d.id = $1`,
+      [id]
+    );
+
+    return result.rows[0] ? toDocument(result.rows[0]) : null;
+  }
+
+  // Check whether documents were issued to a customer (such customers are not deleted)
+  static async hasCustomerDocuments(customerId: number): Promise<boolean> {
+    const result = await query('SELECT 1 FROM billing_documents WHERE customer_id = $1 LIMIT 1', [customerId]);
+    return result.rows.length > 0;
+  }
+
+  // Check whether an attachment is the PDF of an issued document (those are not deleted)
+  static async isDocumentAttachment(attachmentId: number): Promise<boolean> {
+    const result = await query('SELECT 1 FROM billing_documents WHERE attachment_id = $1 LIMIT 1', [attachmentId]);
+    return result.rows.length > 0;
+  }
+
+  // Issue a document with the tenant's next number of its type - the number is taken under a lock and saved
+  // in the same transaction, so numbers have no gaps or duplicates. The PDF is attached after the commit
+  // (setAttachment), so rendering and storing it do not hold the lock
+  // Receipts add their lines to the receipted amount of the charges - returns null when a charge was receipted
+  // by someone else in the meantime
+  static async issue(data: IssueBillingDocumentData): Promise<BillingDocument | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        `billing-document:${data.client_id ?? 0}:${data.document_type}`
+      ]);
+
+      for (const line of data.lines) {
+        if (!line.charge_id) continue;
+        const chargeResult = await client.query(
+          `UPDATE customer_charges SET receipted_amount = receipted_amount + $3
+           WHERE id = $1 AND customer_id = $2 AND receipted_amount + $3 <= paid_amount
+           RETURNING id`,
+          [line.charge_id, data.customer_id, line.total]
+        );
+        if (chargeResult.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+      }
+
+      const numberResult = await client.query(
+        `SELECT COALESCE(MAX(document_number), 0) + 1 as next_number
+         FROM billing_documents
+         WHERE COALESCE(client_id, 0) = $1 AND document_type = $2`,
+        [data.client_id ?? 0, data.document_type]
+      );
+      const documentNumber = parseInt(numberResult.rows[0].next_number);
+
+      const result = await client.query(
+        `INSERT INTO billing_documents (
+           client_id, customer_id, document_type, document_number, vat_type, vat_rate, lines,
+           net_amount, vat_amount, total_amount, issued_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING *`,
+        [
+          data.client_id,
+          data.customer_id,
+          data.document_type,
+          documentNumber,
+          data.vat_type,
+          data.vat_rate,
+          JSON.stringify(data.lines),
+          data.net_amount,
+          data.vat_amount,
+          data.total_amount,
+          data.issued_by
+        ]
+      );
+
+      await client.query('COMMIT');
+      return { ...toDocument(result.rows[0]), attachment: null };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Attach the PDF of an issued document - false when it already has one
+  static async setAttachment(id: number, attachmentId: number): Promise<boolean> {
+    const result = await query('UPDATE billing_documents SET attachment_id = $2 WHERE id = $1 AND attachment_id IS NULL', [id, attachmentId]);
+    return result.rowCount > 0;
+  }
+}
@@ -1,4 +1,5 @@
 import { query } from '../database/connection.js';
+import { phoneColumns, phoneSearchDigits } from '../utils/phone.js';
 
 export interface Customer {
   id: number;
@@ -7,6 +8,7 @@ export interface Customer {
   client_id?: number;
   full_name: string;
   phone?: string;
+  phone_e164?: string | null;
   email?: string;
   status?: string;
   address?: string;
@@ -21,6 +23,7 @@ export interface Customer {
   payment_type?: string; // 'amount' or 'percentage'
   payment_value?: number; // סכום או אחוז
   payment_vat_included?: boolean; // האם כולל מע"מ (רק לאחוזים)
+  vat_type?: string; // 'plus' or 'included'
   tags?: string[];
   custom_fields?: any;
   notes?: string;
@@ -107,22 +110,23 @@ export class CustomerModel {
       custom_fields = {},
       notes
     } = cleanData;
+    const phoneValues = phoneColumns(phone);
     
     const result = await query(
       `INSERT INTO customers (
         lead_id, created_by, client_id, full_name, phone, email, status, 
         address, company_name, company_id, vat_number, assigned_rep, 
         payment_status, billing_frequency, total_amount, start_date, 
-        payment_type, payment_value, payment_vat_included, notes
+        payment_type, payment_value, payment_vat_included, notes, phone_e164
       )
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
        RETURNING *`,
       [
         lead_id || null, 
         created_by, 
         client_id || null, 
         full_name, 
-        phone || null, 
+        phoneValues.phone, 
         email || null, 
         status,
         address || null, 
@@ -137,49 +141,14 @@ export class CustomerModel {
         payment_type,
         payment_value,
         payment_vat_included,
-        notes || null
+        notes || null,
+        phoneValues.phone_e164
       ]
     );
     
     return result.rows[0];
   }
 
-  // Create customer from lead
-  static async createFromLead(leadId: number, customerData: CreateCustomerData): Promise<Customer> {
-    await query('BEGIN');
-    
-    try {
-      // Get lead data
-      const leadResult = await query('SELECT * FROM leads WHERE id = $1', [leadId]);
-      if (leadResult.rows.length === 0) {
-        throw new Error('Lead not found');
-      }
-      
-      const lead = leadResult.rows[0];
-      
-      // Create customer with lead data
-      const customer = await this.create({
-        ...customerData,
-        lead_id: leadId,
-        full_name: customerData.full_name || lead.name,
-        phone: customerData.phone || lead.phone,
-        email: customerData.email || lead.email
-      });
-      
-      // Update lead status to indicate conversion
-      await query(
-        'UPDATE leads SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-        ['לקוח קיים', leadId]
-      );
-      
-      await query('COMMIT');
-      return customer;
-    } catch (error) {
-      await query('ROLLBACK');
-      throw error;
-    }
-  }
-
   // Find customer by ID
   static async findById(id: number): Promise<Customer | null> {
     const result = await query(
@@ -246,7 +215,10 @@ export class CustomerModel {
 
   // Update customer
   static async update(id: number, updates: Partial<Customer>): Promise<Customer | null> {
-    
+    if (updates.phone !== undefined) {
+      updates = { ...updates, ...phoneColumns(updates.phone) } as Partial<Customer>;
+    }
+
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -397,9 +369,10 @@ export class CustomerModel {
   static async search(searchTerm: string): Promise<Customer[]> {
     const result = await query(
       `SELECT * FROM customers 
-       WHERE full_name ILIKE $1 OR phone ILIKE $1 OR email ILIKE $1 OR company_name ILIKE $1
+       WHERE search_text LIKE '%' || search_normalize($1) || '%'
+         OR ($2 <> '' AND search_phone LIKE '%' || $2 || '%')
        ORDER BY created_at DESC`,
-      [`%${searchTerm}%`]
+      [searchTerm.replace(/[\\%_]/g, '\\$&'), phoneSearchDigits(searchTerm)]
     );
     
     return result.rows.map((customer: any) => ({
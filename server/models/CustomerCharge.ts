@@ -0,0 +1,304 @@
+import { query, getClient } from '../database/connection.js';
+
+export type ChargeStatus = 'pending' | 'paid' | 'partial' | 'failed';
+
+export const CHARGE_STATUSES: ChargeStatus[] = ['pending', 'paid', 'partial', 'failed'];
+
+export type ChargeSource = 'installment' | 'service';
+
+export interface CustomerCharge {
+  id: number;
+  client_id: number | null;
+  customer_id: number;
+  schedule_key: string;
+  source: ChargeSource;
+  description: string;
+  due_date: string; // YYYY-MM-DD
+  amount: number;
+  paid_amount: number;
+  receipted_amount: number; // part of paid_amount a receipt was issued for
+  status: ChargeStatus;
+  paid_at: Date | null;
+  failure_reason: string | null;
+  overdue_at: Date | null;
+  is_overdue: boolean; // not paid and past its due date
+  updated_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A charge of the generated schedule, before it is saved
+export interface PlannedCharge {
+  schedule_key: string;
+  source: ChargeSource;
+  description: string;
+  due_date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface ChargePaymentUpdate {
+  status: ChargeStatus;
+  paid_amount: number;
+  paid_at: string | null; // null - now for paid and partial charges
+  failure_reason: string | null;
+}
+
+// What a schedule is generated from - dates as YYYY-MM-DD
+export interface BillingSource {
+  customer: {
+    id: number;
+    client_id: number | null;
+    full_name: string;
+    billing_frequency: string | null;
+    vat_type: string | null;
+    start_date: string | null;
+    created_date: string;
+  };
+  services: Array<{ id: number; service_name: string; amount: number | null; tax_type: string | null; billing_frequency: string | null }>;
+  plans: Array<{
+    total_amount: number | null;
+    start_date: string | null;
+    installments: number | null;
+    installment_amount: number | null;
+    vat_included: boolean | null; // the amounts include VAT (otherwise by the customer's vat_type)
+  }>;
+}
+
+// A charge that went overdue since the last check, with the user to remind
+export interface OverdueCharge {
+  id: number;
+  customer_id: number;
+  client_id: number | null;
+  customer_name: string;
+  rep_id: number | null; // assigned_rep (user ID or full name), otherwise the customer's creator
+  description: string;
+  due_date: string;
+  amount: number;
+  paid_amount: number;
+}
+
+export interface ChargeDueSummary {
+  due: number; // charges due by today
+  paid: number;
+  partial: number;
+  overdue: number;
+}
+
+const CHARGE_SELECT = `SELECT c.*, TO_CHAR(c.due_date, 'YYYY-MM-DD') as due_date,
+    (c.status <> 'paid' AND c.due_date < $2::date) as is_overdue
+  FROM customer_charges c`;
+
+const toCharge = (row: any): CustomerCharge => ({
+  ...row,
+  amount: parseFloat(row.amount),
+  paid_amount: parseFloat(row.paid_amount),
+  receipted_amount: parseFloat(row.receipted_amount)
+});
+
+// Rows per INSERT of a schedule (6 parameters each)
+const SYNC_BATCH_SIZE = 500;
+
+export class CustomerChargeModel {
+  // Get the charges of a customer by due date
+  static async findByCustomer(customerId: number, today: string): Promise<CustomerCharge[]> {
+    const result = await query(
+      `${CHARGE_SELECT}
+       WHERE c.customer_id = $1
+       ORDER BY c.due_date ASC, c.id ASC`,
+      [customerId, today]
+    );
+
+    return result.rows.map(toCharge);
+  }
+
+  // Find a charge of a customer
+  static async findForCustomer(id: number, customerId: number, today: string): Promise<CustomerCharge | null> {
+    const result = await query(
+      `${CHARGE_SELECT}
+       WHERE c.customer_id = $1 AND c.id = $3`,
+      [customerId, today, id]
+    );
+
+    return result.rows[0] ? toCharge(result.rows[0]) : null;
+  }
+
+  // Get the customer fields, services and payment plans a schedule is generated from
+  static async getBillingSource(customerId: number): Promise<BillingSource | null> {
+    const customerResult = await query(
+      `SELECT id, client_id, full_name, billing_frequency, vat_type,
+         TO_CHAR(start_date, 'YYYY-MM-DD') as start_date,
+         TO_CHAR(created_at, 'YYYY-MM-DD') as created_date
+       FROM customers WHERE id = $1`,
+      [customerId]
+    );
+    if (!customerResult.rows[0]) return null;
+
+    const servicesResult = await query(
+      `SELECT id, service_name, amount, tax_type, billing_frequency
+       FROM customer_services WHERE customer_id = $1 ORDER BY id`,
+      [customerId]
+    );
+    const plansResult = await query(
+      `SELECT total_amount, TO_CHAR(start_date, 'YYYY-MM-DD') as start_date, installments, installment_amount, vat_included
+       FROM payments WHERE customer_id = $1 ORDER BY id`,
+      [customerId]
+    );
+
+    const toNumber = (value: any) => (value === null || value === undefined ? null : parseFloat(value));
+    return {
+      customer: customerResult.rows[0],
+      services: servicesResult.rows.map((service: any) => ({ ...service, amount: toNumber(service.amount) })),
+      plans: plansResult.rows.map((plan: any) => ({
+        ...plan,
+        total_amount: toNumber(plan.total_amount),
+        installment_amount: toNumber(plan.installment_amount)
+      }))
+    };
+  }
+
+  // Get the customers that have a schedule (the billing job extends them)
+  static async findScheduledCustomerIds(): Promise<number[]> {
+    const result = await query('SELECT DISTINCT customer_id FROM customer_charges ORDER BY customer_id');
+    return result.rows.map((row: any) => row.customer_id);
+  }
+
+  // Check whether a customer has a schedule
+  static async hasSchedule(customerId: number): Promise<boolean> {
+    const result = await query('SELECT 1 FROM customer_charges WHERE customer_id = $1 LIMIT 1', [customerId]);
+    return result.rows.length > 0;
+  }
+
+  // Save a generated schedule - new charges are added, charges nothing was recorded on yet follow the schedule
+  // (or are removed when they left it), charges with a payment or failure are kept as they are
+  static async sync(customerId: number, clientId: number | null, planned: PlannedCharge[]): Promise<void> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      // One generation at a time per customer (the job and the generate button)
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`billing:${customerId}`]);
+
+      await client.query(
+        `DELETE FROM customer_charges
+         WHERE customer_id = $1 AND status = 'pending' AND paid_amount = 0
+           AND NOT (schedule_key = ANY($2::text[]))`,
+        [customerId, planned.map(charge => charge.schedule_key)]
+      );
+
+      for (let start = 0; start < planned.length; start += SYNC_BATCH_SIZE) {
+        const params: any[] = [customerId, clientId];
+        const rows = planned.slice(start, start + SYNC_BATCH_SIZE).map(charge => {
+          params.push(charge.schedule_key, charge.source, charge.description, charge.due_date);
+          params.push(charge.amount);
+          const offset = params.length - 5;
+          return `($1, $2, $${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}::date, $${offset + 5})`;
+        });
+
+        await client.query(
+          `INSERT INTO customer_charges (customer_id, client_id, schedule_key, source, description, due_date, amount)
+           VALUES ${rows.join(', ')}
+           ON CONFLICT (customer_id, schedule_key) DO UPDATE SET
+             description = EXCLUDED.description,
+             due_date = EXCLUDED.due_date,
+             amount = EXCLUDED.amount,
+             overdue_at = CASE WHEN customer_charges.due_date = EXCLUDED.due_date THEN customer_charges.overdue_at END
+           WHERE customer_charges.status = 'pending' AND customer_charges.paid_amount = 0
+             AND (customer_charges.description, customer_charges.due_date, customer_charges.amount)
+               IS DISTINCT FROM (EXCLUDED.description, EXCLUDED.due_date, EXCLUDED.amount)`,
+          params
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Record a payment, partial payment or failure of a charge (pending clears what was recorded)
+  static async recordPayment(id: number, update: ChargePaymentUpdate, userId: number): Promise<void> {
+    await query(
+      `UPDATE customer_charges SET
+         status = $2,
+         paid_amount = $3,
+         paid_at = CASE WHEN $2 IN ('paid', 'partial') THEN COALESCE($4::timestamp, CURRENT_TIMESTAMP) END,
+         failure_reason = CASE WHEN $2 = 'failed' THEN $5 END,
+         updated_by = $6
+       WHERE id = $1`,
+      [id, update.status, update.paid_amount, update.paid_at, update.failure_reason, userId]
+    );
+  }
+
+  // Get the unpaid charges that passed their due date and were not reported yet
+  static async findNewlyOverdue(today: string): Promise<OverdueCharge[]> {
+    const result = await query(
+      `SELECT ch.id, ch.customer_id, ch.client_id, cu.full_name as customer_name,
+         COALESCE(rep.id, cu.created_by) as rep_id,
+         ch.description, TO_CHAR(ch.due_date, 'YYYY-MM-DD') as due_date, ch.amount, ch.paid_amount
+       FROM customer_charges ch
+       JOIN customers cu ON cu.id = ch.customer_id
+       LEFT JOIN LATERAL (
+         SELECT u.id FROM users u
+         WHERE u.deleted_at IS NULL AND u.is_active = true
+           AND (u.id::text = TRIM(cu.assigned_rep) OR TRIM(CONCAT(u.first_name, ' ', u.last_name)) = TRIM(cu.assigned_rep))
+           AND u.client_id IS NOT DISTINCT FROM cu.client_id
+         ORDER BY (u.id::text = TRIM(cu.assigned_rep)) DESC, u.id
+         LIMIT 1
+       ) rep ON true
+       WHERE ch.status <> 'paid' AND ch.overdue_at IS NULL AND ch.due_date < $1::date
+       ORDER BY ch.customer_id, ch.due_date, ch.id`,
+      [today]
+    );
+
+    return result.rows.map((row: any) => ({
+      ...row,
+      amount: parseFloat(row.amount),
+      paid_amount: parseFloat(row.paid_amount)
+    }));
+  }
+
+  // Mark charges as reported overdue
+  static async markOverdue(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await query('UPDATE customer_charges SET overdue_at = CURRENT_TIMESTAMP WHERE id = ANY($1::int[])', [ids]);
+  }
+
+  // Count the charges of a customer due by today - what the payment status is worked out from
+  static async getDueSummary(customerId: number, today: string): Promise<ChargeDueSummary> {
+    const result = await query(
+      `SELECT
+         COUNT(*) as due,
+         COUNT(*) FILTER (WHERE status = 'paid') as paid,
+         COUNT(*) FILTER (WHERE status = 'partial') as partial,
+         COUNT(*) FILTER (WHERE status <> 'paid' AND due_date < $2::date) as overdue
+       FROM customer_charges
+       WHERE customer_id = $1 AND due_date <= $2::date`,
+      [customerId, today]
+    );
+
+    const row = result.rows[0];
+    return {
+      due: parseInt(row.due),
+      paid: parseInt(row.paid),
+      partial: parseInt(row.partial),
+      overdue: parseInt(row.overdue)
+    };
+  }
+
+  // Set the payment status of a customer - only over the statuses billing manages (not e.g. cancelled or refunded)
+  // Returns whether the status changed
+  static async setPaymentStatus(customerId: number, status: string, managedStatuses: string[]): Promise<boolean> {
+    const result = await query(
+      `UPDATE customers SET payment_status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND (payment_status IS NULL OR payment_status = ANY($3::text[]))
+         AND payment_status IS DISTINCT FROM $2`,
+      [customerId, status, managedStatuses]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -0,0 +1,183 @@
+import { query, getClient } from '../database/connection.js';
+import { Lead } from './Lead.js';
+import { Customer, CustomerService, CustomerPayment } from './Customer.js';
+import { LeadTimelineModel, TimelineQueryRunner } from './LeadTimeline.js';
+import { LeadTimelineService } from '../services/leadTimeline.js';
+import { CustomerConversionRequest } from '../services/customerConversion.js';
+import { phoneColumns } from '../utils/phone.js';
+
+// What a conversion did - returned to the user as the conversion summary
+export interface CustomerConversionResult {
+  customer: Customer;
+  services: CustomerService[];
+  payment: CustomerPayment | null;
+  lead: {
+    id: number;
+    name: string;
+    fromStatus: string | null;
+    toStatus: string;
+  };
+  movedTasks: Array<{ id: number; title: string; due_date: Date }>;
+  movedEvents: Array<{ id: number; title: string; event_type: string; start_time: Date }>;
+}
+
+const pool: TimelineQueryRunner = { query };
+
+export class CustomerConversionModel {
+  // Get the customer a lead was converted to
+  // (leads.customer_id alone does not count - imports link leads to the customer with the same contact details)
+  static async findCustomerOfLead(leadId: number, db: TimelineQueryRunner = pool): Promise<number | null> {
+    const result = await db.query(
+      'SELECT id FROM customers WHERE lead_id = $1 LIMIT 1',
+      [leadId]
+    );
+    return result.rows[0]?.id || null;
+  }
+
+  // Convert a lead in one transaction: the customer with its services and payment plan,
+  // the lead's closed status and its open tasks and upcoming events moved to the customer
+  // Returns null when the lead was deleted or converted after the request was checked
+  static async convert(
+    leadId: number,
+    request: CustomerConversionRequest,
+    closedStatus: string,
+    actor: { id: number; client_id: number | null },
+    customFields: Record<string, any>
+  ): Promise<CustomerConversionResult | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const leadResult = await client.query('SELECT * FROM leads WHERE id = $1 FOR UPDATE', [leadId]);
+      const before: Lead | undefined = leadResult.rows[0];
+      if (!before || await this.findCustomerOfLead(leadId, client)) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const data = request.customer;
+      const phone = phoneColumns(data.phone || before.phone);
+      const customerResult = await client.query(
+        `INSERT INTO customers (
+          lead_id, created_by, client_id, full_name, phone, phone_e164, email, status,
+          address, company_name, vat_number, assigned_rep,
+          payment_status, billing_frequency, total_amount, start_date,
+          payment_type, payment_value, payment_vat_included, vat_type, tags, custom_fields, notes
+        )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
+         RETURNING *`,
+        [
+          leadId,
+          actor.id,
+          before.client_id || actor.client_id,
+          data.full_name || before.name,
+          phone.phone,
+          phone.phone_e164,
+          data.email || before.email || null,
+          data.status,
+          data.address,
+          data.company_name,
+          data.vat_number,
+          data.assigned_rep,
+          data.payment_status,
+          data.billing_frequency,
+          request.paymentPlan?.total_amount || 0,
+          data.start_date,
+          data.payment_type,
+          data.payment_value,
+          data.payment_vat_included,
+          data.vat_type,
+          data.tags,
+          JSON.stringify(customFields),
+          data.notes ?? before.notes ?? null
+        ]
+      );
+      const customer: Customer = customerResult.rows[0];
+
+      const services = request.services.length === 0 ? [] : (await client.query(
+        `INSERT INTO customer_services (customer_id, service_name, amount, tax_type, total, billing_frequency)
+         SELECT $1, s.service_name, s.amount, s.tax_type, s.total, s.billing_frequency
+         FROM jsonb_to_recordset($2::jsonb) WITH ORDINALITY
+           AS s(service_name text, amount numeric, tax_type text, total numeric, billing_frequency text, n int)
+         ORDER BY n
+         RETURNING *`,
+        [customer.id, JSON.stringify(request.services)]
+      )).rows;
+
+      let payment: CustomerPayment | null = null;
+      if (request.paymentPlan) {
+        const plan = request.paymentPlan;
+        const paymentResult = await client.query(
+          `INSERT INTO payments (customer_id, total_amount, payment_status, start_date, installments, installment_amount, payment_type, payment_value, vat_included, notes)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+           RETURNING *`,
+          [
+            customer.id, plan.total_amount, plan.payment_status, plan.start_date, plan.installments,
+            plan.installment_amount, plan.payment_type, plan.payment_value, plan.vat_included, plan.notes
+          ]
+        );
+        payment = paymentResult.rows[0];
+      }
+
+      // The callback now lives on the customer's reminder - a closed lead has nothing to call back about
+      const leadUpdate = await client.query(
+        `UPDATE leads SET status = $2, customer_id = $3, callback_date = NULL, callback_time = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [leadId, closedStatus, customer.id]
+      );
+      const after: Lead = leadUpdate.rows[0];
+
+      const movedTasks = await client.query(
+        `UPDATE tasks SET customer_id = $2, lead_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE lead_id = $1 AND status <> 'הושלם'
+         RETURNING id, title, due_date`,
+        [leadId, customer.id]
+      );
+      // Events are deleted with their lead, so upcoming ones are moved off it
+      const movedEvents = await client.query(
+        `UPDATE unified_events SET customer_id = $2, customer_name = $3, lead_id = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE lead_id = $1 AND end_time >= CURRENT_TIMESTAMP
+         RETURNING id, title, event_type, start_time`,
+        [leadId, customer.id, customer.full_name]
+      );
+
+      const metadata = { customer_id: customer.id, converted: true };
+      await LeadTimelineModel.append(
+        [
+          ...LeadTimelineService.describeChanges(before, after).map(entry => ({ ...entry, metadata: { ...entry.metadata, ...metadata } })),
+          {
+            type: 'edit' as const,
+            description: `הליד הומר ללקוח "${customer.full_name}"` +
+              (movedTasks.rows.length + movedEvents.rows.length > 0
+                ? ` - ${movedTasks.rows.length} משימות ו-${movedEvents.rows.length} אירועים הועברו ללקוח`
+                : ''),
+            before_values: { customer_id: null },
+            after_values: { customer_id: customer.id },
+            metadata: {
+              ...metadata,
+              moved_task_ids: movedTasks.rows.map((task: any) => task.id),
+              moved_event_ids: movedEvents.rows.map((event: any) => event.id)
+            }
+          }
+        ].map(entry => ({ ...entry, lead_id: leadId, client_id: after.client_id, actor_id: actor.id })),
+        client
+      );
+
+      await client.query('COMMIT');
+      return {
+        customer,
+        services,
+        payment,
+        lead: { id: leadId, name: after.name, fromStatus: before.status || null, toStatus: after.status },
+        movedTasks: movedTasks.rows,
+        movedEvents: movedEvents.rows
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import { query } from '../database/connection.js';
+
+export type DncContactType = 'phone' | 'email';
+export type DncSource = 'status' | 'stop_reply' | 'manual';
+export type DncChannel = 'whatsapp' | 'email' | 'dialer' | 'import' | 'inbound';
+
+export interface DncEntry {
+  id: number;
+  client_id: number | null;
+  contact_type: DncContactType;
+  value: string; // E.164 phone or lower-cased email - like leads.normalized_phone / normalized_email
+  source: DncSource;
+  reason: string | null;
+  lead_id: number | null;
+  lead_name?: string | null;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+}
+
+export interface CreateDncEntryData {
+  client_id: number | null;
+  contact_type: DncContactType;
+  value: string;
+  source: DncSource;
+  reason?: string | null;
+  lead_id?: number | null;
+  created_by?: number | null;
+}
+
+export interface DncContactKey {
+  contact_type: DncContactType;
+  value: string;
+}
+
+export interface DncBlockedAttempt {
+  id: number;
+  client_id: number | null;
+  channel: DncChannel;
+  contact_type: DncContactType;
+  value: string;
+  dnc_entry_id: number | null;
+  lead_id: number | null;
+  lead_name?: string | null;
+  user_id: number | null;
+  user_name?: string | null;
+  created_at: Date;
+}
+
+export interface CreateDncBlockedAttemptData {
+  client_id: number | null;
+  channel: DncChannel;
+  contact_type: DncContactType;
+  value: string;
+  dnc_entry_id: number | null;
+  lead_id?: number | null;
+  user_id?: number | null;
+}
+
+export class DoNotContactModel {
+  // Get the client's registry, newest first (search matches the phone/email or the reason)
+  static async findByClient(
+    clientId: number | null,
+    options: { search?: string; limit: number; offset: number }
+  ): Promise<{ entries: DncEntry[]; total: number }> {
+    const params: any[] = [clientId];
+    let searchCondition = '';
+    if (options.search) {
+      params.push(`%${options.search.toLowerCase()}%`);
+      searchCondition = `AND (d.value LIKE $${params.length} OR LOWER(COALESCE(d.reason, '')) LIKE $${params.length}`;
+
+      // Phones are stored in E.164 - a local number (050-123...) matches without its leading zero
+      const digits = options.search.replace(/\D/g, '').replace(/^0/, '');
+      if (digits.length >= 3) {
+        params.push(`%${digits}%`);
+        searchCondition += ` OR (d.contact_type = 'phone' AND d.value LIKE $${params.length})`;
+      }
+      searchCondition += ')';
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*)::int as total FROM dnc_entries d WHERE d.client_id IS NOT DISTINCT FROM $1 ${searchCondition}`,
+      params
+    );
+
+    const result = await query(
+      `SELECT d.*, l.name as lead_name, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as created_by_name
+       FROM dnc_entries d
+       LEFT JOIN leads l ON l.id = d.lead_id
+       LEFT JOIN users u ON u.id = d.created_by
+       WHERE d.client_id IS NOT DISTINCT FROM $1 ${searchCondition}
+       ORDER BY d.created_at DESC, d.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset]
+    );
+
+    return { entries: result.rows, total: countResult.rows[0].total };
+  }
+
+  // Find entry by ID
+  static async findById(id: number): Promise<DncEntry | null> {
+    const result = await query('SELECT * FROM dnc_entries WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  // Get the entries of the client matching any of the contact keys
+  static async findMatches(clientId: number | null, keys: DncContactKey[]): Promise<DncEntry[]> {
+    if (keys.length === 0) return [];
+
+    const result = await query(
+      `SELECT d.* FROM dnc_entries d
+       JOIN UNNEST($2::text[], $3::text[]) AS k(contact_type, value)
+         ON d.contact_type = k.contact_type AND d.value = k.value
+       WHERE d.client_id IS NOT DISTINCT FROM $1`,
+      [clientId, keys.map(key => key.contact_type), keys.map(key => key.value)]
+    );
+
+    return result.rows;
+  }
+
+  // Add a contact - an existing entry is kept as is and returned
+  static async add(data: CreateDncEntryData): Promise<{ entry: DncEntry; created: boolean }> {
+    const result = await query(
+      `INSERT INTO dnc_entries (client_id, contact_type, value, source, reason, lead_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (COALESCE(client_id, 0), contact_type, value) DO NOTHING
+       RETURNING *`,
+      [data.client_id, data.contact_type, data.value, data.source, data.reason || null, data.lead_id ?? null, data.created_by ?? null]
+    );
+
+    if (result.rows[0]) return { entry: result.rows[0], created: true };
+
+    const [existing] = await this.findMatches(data.client_id, [data]);
+    return { entry: existing, created: false };
+  }
+
+  // Delete entry
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM dnc_entries WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+
+  // Record contact attempts that were blocked
+  static async recordBlockedAttempts(attempts: CreateDncBlockedAttemptData[]): Promise<void> {
+    if (attempts.length === 0) return;
+
+    await query(
+      `INSERT INTO dnc_blocked_attempts (client_id, channel, contact_type, value, dnc_entry_id, lead_id, user_id)
+       SELECT * FROM UNNEST($1::int[], $2::text[], $3::text[], $4::text[], $5::int[], $6::int[], $7::int[])`,
+      [
+        attempts.map(attempt => attempt.client_id),
+        attempts.map(attempt => attempt.channel),
+        attempts.map(attempt => attempt.contact_type),
+        attempts.map(attempt => attempt.value),
+        attempts.map(attempt => attempt.dnc_entry_id),
+        attempts.map(attempt => attempt.lead_id ?? null),
+        attempts.map(attempt => attempt.user_id ?? null)
+      ]
+    );
+  }
+
+  // Get the client's blocked attempts since a date, with counts per channel
+  static async findBlockedAttempts(
+    clientId: number | null,
+    options: { since: Date; channel?: DncChannel; limit: number; offset: number }
+  ): Promise<{ attempts: DncBlockedAttempt[]; total: number; byChannel: Record<string, number> }> {
+    const countResult = await query(
+      `SELECT channel, COUNT(*)::int as count FROM dnc_blocked_attempts
+       WHERE client_id IS NOT DISTINCT FROM $1 AND created_at >= $2
+       GROUP BY channel`,
+      [clientId, options.since]
+    );
+    const byChannel: Record<string, number> = Object.fromEntries(countResult.rows.map((row: any) => [row.channel, row.count]));
+
+    const result = await query(
+      `SELECT a.*, l.name as lead_name, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as user_name
+       FROM dnc_blocked_attempts a
+       LEFT JOIN leads l ON l.id = a.lead_id
+       LEFT JOIN users u ON u.id = a.user_id
+       WHERE a.client_id IS NOT DISTINCT FROM $1 AND a.created_at >= $2
+         AND ($3::text IS NULL OR a.channel = $3)
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $4 OFFSET $5`,
+      [clientId, options.since, options.channel || null, options.limit, options.offset]
+    );
+
+    const total = options.channel
+      ? byChannel[options.channel] || 0
+      : Object.values(byChannel).reduce((sum, count) => sum + count, 0);
+
+    return { attempts: result.rows, total, byChannel };
+  }
+}
@@ -0,0 +1,126 @@
+import { query } from '../database/connection.js';
+
+export type SearchEntity = 'lead' | 'customer' | 'task' | 'event';
+
+export interface SearchResult {
+  type: SearchEntity;
+  id: number;
+  title: string;
+  subtitle: string | null; // phone, company or date - whatever identifies the record in a list
+  status: string | null;
+  rank: number;
+}
+
+// What the user may find - the same rules as the lists of each entity
+export interface SearchScope {
+  userId: number;
+  leadAssignees: number[] | null; // null - all leads (admins)
+  allTasks: boolean; // admins see every task, others the tasks assigned to or created by them
+}
+
+// A search term as bound in the queries below: $1 the term, $2 the term with LIKE wildcards escaped,
+// $3 the result limit and $4 the phone digits ('' - not a phone number, only bound where phones are searched)
+export interface SearchTerm {
+  text: string;
+  likeText: string;
+  phoneDigits: string;
+}
+
+const textMatch = (alias: string) =>
+  `(${alias}.search_text LIKE '%' || search_normalize($2) || '%' OR search_normalize($1) <% ${alias}.search_text)`;
+
+const phoneMatch = (alias: string) => `($4 <> '' AND ${alias}.search_phone LIKE '%' || $4 || '%')`;
+
+// Closeness to the best matching words, plus a bonus when the record's name is the term or starts with it
+const textRank = (alias: string, titleColumn: string) => `word_similarity(search_normalize($1), ${alias}.search_text)
+  + CASE
+      WHEN search_normalize(${alias}.${titleColumn}) = search_normalize($1) THEN 1
+      WHEN search_normalize(${alias}.${titleColumn}) LIKE search_normalize($2) || '%' THEN 0.5
+      ELSE 0
+    END`;
+
+const phoneRank = (alias: string) => `CASE WHEN ${phoneMatch(alias)} THEN 1 ELSE 0 END`;
+
+const termParams = (term: SearchTerm, limit: number) => [term.text, term.likeText, limit];
+
+const toResults = (type: SearchEntity, rows: any[]): SearchResult[] =>
+  rows.map(row => ({
+    type,
+    id: row.id,
+    title: row.title,
+    subtitle: row.subtitle || null,
+    status: row.status || null,
+    rank: Math.round(parseFloat(row.rank) * 1000) / 1000
+  }));
+
+export class GlobalSearchModel {
+  // Search leads by name, email, product, notes and phone digits
+  static async searchLeads(term: SearchTerm, scope: SearchScope, limit: number): Promise<SearchResult[]> {
+    const params: any[] = [...termParams(term, limit), term.phoneDigits];
+    let visibility = '';
+    if (scope.leadAssignees) {
+      params.push(scope.leadAssignees);
+      visibility = `AND l.assigned_to = ANY($${params.length}::int[])`;
+    }
+
+    const result = await query(
+      `SELECT l.id, l.name as title, l.phone as subtitle, l.status,
+         ${textRank('l', 'name')} + ${phoneRank('l')} as rank
+       FROM leads l
+       WHERE (${textMatch('l')} OR ${phoneMatch('l')}) ${visibility}
+       ORDER BY rank DESC, l.updated_at DESC
+       LIMIT $3`,
+      params
+    );
+    return toResults('lead', result.rows);
+  }
+
+  // Search the customers the user created by name, company, email, VAT number, notes and phone digits
+  static async searchCustomers(term: SearchTerm, scope: SearchScope, limit: number): Promise<SearchResult[]> {
+    const result = await query(
+      `SELECT c.id, c.full_name as title, COALESCE(c.company_name, c.phone) as subtitle, c.status,
+         ${textRank('c', 'full_name')} + ${phoneRank('c')} as rank
+       FROM customers c
+       WHERE (${textMatch('c')} OR ${phoneMatch('c')}) AND c.created_by = $5
+       ORDER BY rank DESC, c.updated_at DESC
+       LIMIT $3`,
+      [...termParams(term, limit), term.phoneDigits, scope.userId]
+    );
+    return toResults('customer', result.rows);
+  }
+
+  // Search tasks by title and description
+  static async searchTasks(term: SearchTerm, scope: SearchScope, limit: number): Promise<SearchResult[]> {
+    const params: any[] = termParams(term, limit);
+    let visibility = '';
+    if (!scope.allTasks) {
+      params.push(scope.userId);
+      visibility = `AND (t.assigned_to = $${params.length} OR t.created_by = $${params.length})`;
+    }
+
+    const result = await query(
+      `SELECT t.id, t.title, TO_CHAR(t.due_date, 'DD/MM/YYYY HH24:MI') as subtitle, t.status,
+         ${textRank('t', 'title')} as rank
+       FROM tasks t
+       WHERE ${textMatch('t')} ${visibility}
+       ORDER BY rank DESC, t.due_date DESC
+       LIMIT $3`,
+      params
+    );
+    return toResults('task', result.rows);
+  }
+
+  // Search the user's calendar events and reminders by title, description and customer name
+  static async searchEvents(term: SearchTerm, scope: SearchScope, limit: number): Promise<SearchResult[]> {
+    const result = await query(
+      `SELECT e.id, e.title, TO_CHAR(e.start_time, 'DD/MM/YYYY HH24:MI') as subtitle, e.event_type as status,
+         ${textRank('e', 'title')} as rank
+       FROM unified_events e
+       WHERE ${textMatch('e')} AND e.created_by = $4
+       ORDER BY rank DESC, e.start_time DESC
+       LIMIT $3`,
+      [...termParams(term, limit), scope.userId]
+    );
+    return toResults('event', result.rows);
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolClient } from 'pg';
+import pool from '../database/connection.js';
+import { LeadModel, Lead } from './Lead.js';
+
+const target = {
+  id: 1,
+  client_id: 10,
+  name: 'ליד',
+  phone: '0501234567',
+  status: 'חדש',
+  tags: ['חם', 'VIP'],
+  custom_fields: { budget: 5000, city: '', interests: [] }
+} as unknown as Lead;
+
+const source = {
+  id: 2,
+  client_id: 10,
+  name: 'ליד',
+  phone: '0501234567',
+  status: 'חדש',
+  tags: ['VIP', 'משקיע'],
+  custom_fields: { budget: 9000, city: 'חיפה', interests: ['דירה'], size: 4 },
+  history: [{ id: 'h1', type: 'note', description: 'שיחה ישנה' }]
+} as unknown as Lead;
+
+// Stands in for a pooled connection - answers by statement and records what ran
+class FakeClient {
+  statements: Array<{ sql: string; params: unknown[] }> = [];
+
+  async query(sql: string, params: unknown[] = []) {
+    this.statements.push({ sql, params });
+    if (sql.includes('FOR UPDATE')) return { rows: [target, source] };
+    if (sql.includes('UPDATE leads SET')) return { rows: [target] };
+    return { rows: [] };
+  }
+
+  release() {}
+
+  indexOf(statement: string) {
+    return this.statements.findIndex(({ sql }) => sql.includes(statement));
+  }
+}
+
+describe('LeadModel.merge', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('keeps the tags and custom field values of the merged lead the target does not have', async () => {
+    const client = new FakeClient();
+    mock.method(pool, 'connect', async () => client as unknown as PoolClient);
+
+    await LeadModel.merge(1, 2, 4);
+
+    const update = client.statements.find(({ sql }) => sql.includes('tags = $6'))!;
+    assert.deepEqual(update.params[5], ['חם', 'VIP', 'משקיע']);
+    assert.deepEqual(JSON.parse(update.params[6] as string), {
+      budget: 5000,
+      city: 'חיפה',
+      interests: ['דירה'],
+      size: 4
+    });
+  });
+
+  it('copies the legacy history of the merged lead to the timeline before deleting it', async () => {
+    const client = new FakeClient();
+    mock.method(pool, 'connect', async () => client as unknown as PoolClient);
+
+    await LeadModel.merge(1, 2, 4);
+
+    const copy = client.indexOf('jsonb_array_elements(l.history)');
+    assert.notEqual(copy, -1);
+    assert.deepEqual(client.statements[copy].params.slice(0, 2), [2, 1]);
+    assert.ok(copy < client.indexOf('UPDATE lead_timeline SET lead_id'));
+    assert.ok(copy < client.indexOf('DELETE FROM leads'));
+  });
+});
+
+describe('LeadModel.buildFilterConditions', () => {
+  it('searches the free text literally', () => {
+    const params: unknown[] = [];
+    const [condition] = LeadModel.buildFilterConditions({ q: '100%_a\\b' }, params);
+
+    assert.equal(params[0], '%100\\%\\_a\\\\b%');
+    assert.match(condition, /name ILIKE \$1 ESCAPE '\\'/);
+  });
+});
@@ -1,4 +1,9 @@
-import { query } from '../database/connection.js';
+import { query, getClient } from '../database/connection.js';
+import { phoneKey, phoneColumns, phoneSearchDigits } from '../utils/phone.js';
+import { LeadFilters, LeadSort, DEFAULT_LEAD_SORT } from '../utils/leadFilters.js';
+import { LeadScoringService, ScorableLead } from '../services/leadScoring.js';
+import { LeadTimelineService, LeadChangeEntry } from '../services/leadTimeline.js';
+import { LeadTimelineModel, TimelineQueryRunner } from './LeadTimeline.js';
 
 export interface Lead {
   id: number;
@@ -15,14 +20,80 @@ export interface Lead {
   product: string | null;
   amount: number | null;
   closing_date: Date | null;
-  history: any;
+  history: any; // Legacy client-written history - moved to lead_timeline
   assigned_to: number | null;
   client_id: number | null;
   notes: string | null;
+  custom_fields?: Record<string, any> | null;
+  tags?: string[];
+  phone_e164?: string | null;
+  normalized_phone?: string | null;
+  normalized_email?: string | null;
+  score?: number | null;
+  score_classification?: string | null;
+  sentiment?: string | null;
+  predicted_status?: string | null;
+  scored_at?: Date | null;
+  import_job_id?: number | null;
+  import_row?: number | null;
+  pipeline_position?: number | null; // manual order on the pipeline board
   created_at: Date;
   updated_at: Date;
 }
 
+export interface DuplicateLeadGroup {
+  match_type: 'phone' | 'email';
+  match_value: string;
+  leads: Lead[];
+}
+
+// Normalized keys used for duplicate detection (and the do-not-contact registry) - phones use phoneKey
+export const normalizeEmail = (email?: string | null): string | null => {
+  const value = email?.toString().trim().toLowerCase();
+  return value ? value : null;
+};
+
+const scoreValues = (lead: ScorableLead): any[] => {
+  const columns = LeadScoringService.toColumns(lead);
+  return [columns.score, columns.score_classification, columns.sentiment, columns.predicted_status, columns.scored_at];
+};
+
+// Custom field values of a merged lead - the target's values, empty ones filled from the source
+const mergeCustomFields = (target: Record<string, any> | null, source: Record<string, any> | null): Record<string, any> => {
+  const isEmpty = (value: any) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+  const merged: Record<string, any> = { ...(target || {}) };
+  for (const [key, value] of Object.entries(source || {})) {
+    if (isEmpty(merged[key]) && !isEmpty(value)) merged[key] = value;
+  }
+  return merged;
+};
+
+// Names of the users in an assignment change (timeline descriptions)
+const getUserNames = async (db: TimelineQueryRunner, userIds: Array<number | null | undefined>): Promise<Map<number, string>> => {
+  const ids = userIds.filter((id): id is number => !!id).map(Number);
+  if (ids.length === 0) return new Map();
+
+  const result = await db.query(
+    `SELECT id, CONCAT(first_name, ' ', last_name) as name FROM users WHERE id = ANY($1::int[])`,
+    [ids]
+  );
+  return new Map(result.rows.map((row: any) => [row.id, row.name.trim() || row.id.toString()]));
+};
+
+// A lead found by an automatic status rule, with the times the rule checks
+export interface StaleLead {
+  id: number;
+  name: string;
+  phone: string | null;
+  status: string;
+  source: string | null;
+  custom_fields: Record<string, any> | null;
+  assigned_to: number | null;
+  assigned_to_name: string | null;
+  status_since: Date;
+  last_activity: Date;
+}
+
 export interface CreateLeadData {
   customer_id?: number;
   name: string;
@@ -35,6 +106,8 @@ export interface CreateLeadData {
   assigned_to?: number;
   client_id?: number;
   notes?: string;
+  custom_fields?: Record<string, any>;
+  tags?: string[];
 }
 
 export interface BulkLeadData {
@@ -48,11 +121,81 @@ export interface BulkLeadData {
   notes?: string;
   assigned_to?: number;
   client_id?: number;
+  custom_fields?: Record<string, any>;
+  import_row?: number;
 }
 
+// Build WHERE conditions for the lead list filter grammar (see utils/leadFilters.ts)
+const buildFilterConditions = (filters: LeadFilters, params: any[]): string[] => {
+  const conditions: string[] = [];
+  const addParam = (value: any): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.status?.length) conditions.push(`status = ANY(${addParam(filters.status)}::text[])`);
+  if (filters.source?.length) conditions.push(`source = ANY(${addParam(filters.source)}::text[])`);
+  if (filters.assigned_to) conditions.push(`assigned_to = ANY(${addParam(filters.assigned_to)}::int[])`);
+
+  // Date ranges are inclusive of the whole "to" day
+  if (filters.created_from) conditions.push(`created_at >= ${addParam(filters.created_from)}::date`);
+  if (filters.created_to) conditions.push(`created_at < ${addParam(filters.created_to)}::date + INTERVAL '1 day'`);
+  if (filters.callback_from) conditions.push(`callback_date >= ${addParam(filters.callback_from)}::date`);
+  if (filters.callback_to) conditions.push(`callback_date <= ${addParam(filters.callback_to)}::date`);
+  if (filters.last_contact_from) conditions.push(`last_contact >= ${addParam(filters.last_contact_from)}::date`);
+  if (filters.last_contact_to) conditions.push(`last_contact < ${addParam(filters.last_contact_to)}::date + INTERVAL '1 day'`);
+
+  if (filters.amount_min !== undefined) conditions.push(`amount >= ${addParam(filters.amount_min)}`);
+  if (filters.amount_max !== undefined) conditions.push(`amount <= ${addParam(filters.amount_max)}`);
+  if (filters.score_min !== undefined) conditions.push(`score >= ${addParam(filters.score_min)}`);
+  if (filters.score_max !== undefined) conditions.push(`score <= ${addParam(filters.score_max)}`);
+  if (filters.classification?.length) conditions.push(`score_classification = ANY(${addParam(filters.classification)}::text[])`);
+  if (filters.tags?.length) conditions.push(`tags && ${addParam(filters.tags)}::text[]`);
+
+  if (filters.q) {
+    // The search text is matched literally - % and _ are not wildcards
+    const textParam = addParam(`%${filters.q.replace(/[\\%_]/g, '\\$&')}%`);
+    const textConditions = [
+      `name ILIKE ${textParam} ESCAPE '\\'`,
+      `email ILIKE ${textParam} ESCAPE '\\'`,
+      `notes ILIKE ${textParam} ESCAPE '\\'`,
+      `phone ILIKE ${textParam} ESCAPE '\\'`
+    ];
+
+    // Phone numbers are matched by digits only (050-123 matches 050123...)
+    const digits = filters.q.replace(/\D/g, '');
+    if (digits.length >= 3) {
+      textConditions.push(`regexp_replace(phone, '\\D', '', 'g') LIKE ${addParam(`%${digits}%`)}`);
+    }
+
+    conditions.push(`(${textConditions.join(' OR ')})`);
+  }
+
+  for (const filter of filters.custom_fields || []) {
+    const key = addParam(filter.key);
+    if (filter.values) {
+      // Single values are compared as text, multiselect arrays by any shared item
+      const values = addParam(filter.values);
+      conditions.push(`(custom_fields->>${key} = ANY(${values}::text[]) OR custom_fields->${key} ?| ${values}::text[])`);
+    }
+    for (const [bound, operator] of [['min', '>='], ['max', '<=']] as const) {
+      const limit = filter[bound];
+      if (limit === undefined) continue;
+      if (typeof limit === 'number') {
+        conditions.push(`(jsonb_typeof(custom_fields->${key}) = 'number' AND (custom_fields->>${key})::numeric ${operator} ${addParam(limit)})`);
+      } else {
+        // Dates are stored as YYYY-MM-DD, so text order is date order
+        conditions.push(`custom_fields->>${key} ${operator} ${addParam(limit)}`);
+      }
+    }
+  }
+
+  return conditions;
+};
+
 export class LeadModel {
   // Create a new lead
-  static async create(leadData: CreateLeadData): Promise<Lead> {
+  static async create(leadData: CreateLeadData, actorId: number | null = null): Promise<Lead> {
     const { 
       customer_id = null, 
       name, 
@@ -64,90 +207,178 @@ export class LeadModel {
       callback_time = null,
       assigned_to,
       client_id,
-      notes 
+      notes,
+      custom_fields = {},
+      tags = []
     } = leadData;
     
+    const phoneValues = phoneColumns(phone);
     const result = await query(
-      `INSERT INTO leads (customer_id, name, phone, email, status, source, callback_date, callback_time, assigned_to, client_id, notes)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `INSERT INTO leads (customer_id, name, phone, email, status, source, callback_date, callback_time, assigned_to, client_id, notes, custom_fields, normalized_phone, normalized_email,
+                          score, score_classification, sentiment, predicted_status, scored_at, tags, phone_e164)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
        RETURNING *`,
-      [customer_id, name, phone, email, status, source, callback_date, callback_time, assigned_to, client_id, notes]
+      [
+        customer_id, name, phoneValues.phone, email, status, source, callback_date, callback_time, assigned_to, client_id, notes, JSON.stringify(custom_fields),
+        phoneKey(phone), normalizeEmail(email),
+        ...scoreValues({ status, notes, created_at: new Date() }),
+        tags,
+        phoneValues.phone_e164
+      ]
     );
     
+    await LeadTimelineModel.append([{
+      ...LeadTimelineService.describeCreation(result.rows[0]),
+      lead_id: result.rows[0].id,
+      client_id: result.rows[0].client_id,
+      actor_id: actorId
+    }]);
+    
     return result.rows[0];
   }
 
-  // Create multiple leads (bulk import)
-  static async createBulk(leadsData: BulkLeadData[]): Promise<Lead[]> {
+  // Create imported leads in one transaction - each lead is linked to the client's customer with the same email or phone,
+  // or to a new customer
+  // Rows that were already imported by the same job are not inserted again (see idx_leads_import_job_row)
+  static async createImported(leadsData: BulkLeadData[], importJobId?: number, actorId: number | null = null): Promise<Lead[]> {
     if (leadsData.length === 0) return [];
-    
-    const client = await query('BEGIN');
+
+    const client = await getClient();
     try {
+      await client.query('BEGIN');
       const results: Lead[] = [];
-      
+
       for (const leadData of leadsData) {
-        // First, create or find customer
-        let customerId: number;
-        
-        // Check if customer exists by email or phone
-        const existingCustomer = await query(
-          'SELECT id FROM customers WHERE email = $1 OR phone = $2',
-          [leadData.email, leadData.phone]
-        );
-        
-        if (existingCustomer.rows.length > 0) {
-          customerId = existingCustomer.rows[0].id;
-        } else {
-          // Create new customer
-          const customerResult = await query(
-            `INSERT INTO customers (full_name, phone, email, status, company_name)
-             VALUES ($1, $2, $3, $4, $5)
-             RETURNING id`,
-            [leadData.name, leadData.phone, leadData.email, 'active', 'Unknown']
+        if (importJobId && leadData.import_row !== undefined) {
+          // A re-run of the job must not create the customer again either
+          const imported = await client.query(
+            'SELECT 1 FROM leads WHERE import_job_id = $1 AND import_row = $2',
+            [importJobId, leadData.import_row]
           );
-          customerId = customerResult.rows[0].id;
+          if (imported.rows.length > 0) continue;
         }
-        
-        // Create lead
-        const leadResult = await query(
-          `INSERT INTO leads (customer_id, name, phone, email, status, source, callback_date, callback_time, notes, assigned_to, client_id)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+
+        const status = leadData.status || 'חדש';
+        const phoneValues = phoneColumns(leadData.phone);
+
+        // First, find or create the customer - phones are compared in E.164 (phoneKey), emails without case
+        const existingCustomer = await client.query(
+          `SELECT id FROM customers
+           WHERE client_id IS NOT DISTINCT FROM $1 AND (LOWER(email) = $2 OR phone_e164 = $3)
+           ORDER BY created_at ASC
+           LIMIT 1`,
+          [leadData.client_id || null, normalizeEmail(leadData.email), phoneKey(leadData.phone)]
+        );
+        const customerId: number = existingCustomer.rows[0]?.id ?? (await client.query(
+          `INSERT INTO customers (created_by, client_id, full_name, phone, phone_e164, email, status)
+           VALUES ($1, $2, $3, $4, $5, $6, 'פעיל')
+           RETURNING id`,
+          [actorId, leadData.client_id || null, leadData.name, phoneValues.phone, phoneValues.phone_e164, leadData.email || null]
+        )).rows[0].id;
+
+        const leadResult = await client.query(
+          `INSERT INTO leads (customer_id, name, phone, email, status, source, callback_date, callback_time, notes, assigned_to, client_id, normalized_phone, normalized_email,
+                              score, score_classification, sentiment, predicted_status, scored_at, custom_fields, import_job_id, import_row, phone_e164)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+           ON CONFLICT (import_job_id, import_row) WHERE import_job_id IS NOT NULL DO NOTHING
            RETURNING *`,
           [
             customerId,
             leadData.name,
-            leadData.phone,
-            leadData.email,
-            leadData.status || 'new',
+            phoneValues.phone,
+            leadData.email || null,
+            status,
             leadData.source || 'excel_import',
             leadData.followup_date ? new Date(leadData.followup_date) : null,
             leadData.followup_time || null,
             leadData.notes || null,
             leadData.assigned_to || null,
-            leadData.client_id || null
+            leadData.client_id || null,
+            phoneKey(leadData.phone),
+            normalizeEmail(leadData.email),
+            ...scoreValues({ status, notes: leadData.notes, created_at: new Date() }),
+            JSON.stringify(leadData.custom_fields || {}),
+            importJobId || null,
+            importJobId ? leadData.import_row ?? null : null,
+            phoneValues.phone_e164
           ]
         );
-        
-        results.push(leadResult.rows[0]);
+
+        if (leadResult.rows[0]) results.push(leadResult.rows[0]);
       }
-      
-      await query('COMMIT');
+
+      await LeadTimelineModel.append(results.map(lead => ({
+        ...LeadTimelineService.describeCreation(lead, 'הליד נוצר בייבוא'),
+        lead_id: lead.id,
+        client_id: lead.client_id,
+        actor_id: actorId,
+        metadata: importJobId ? { import_job_id: importJobId, import_row: lead.import_row } : {}
+      })), client);
+
+      await client.query('COMMIT');
       return results;
     } catch (error) {
-      await query('ROLLBACK');
+      await client.query('ROLLBACK');
       throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Find the leads an import job already created for the given file rows
+  static async findImportedRows(importJobId: number, rowNumbers: number[]): Promise<Map<number, Lead>> {
+    if (rowNumbers.length === 0) return new Map();
+
+    const result = await query(
+      'SELECT * FROM leads WHERE import_job_id = $1 AND import_row = ANY($2::int[])',
+      [importJobId, rowNumbers]
+    );
+
+    return new Map(result.rows.map((lead: Lead) => [lead.import_row as number, lead]));
+  }
+
+  // Batch version of findDuplicates - the earliest matching lead for each contact (null when none)
+  // Leads created by excludeImportJobId are ignored (duplicates inside the file are handled by the import)
+  static async findDuplicatesForContacts(
+    contacts: { phone?: string | null; email?: string | null }[],
+    clientId: number | null | undefined,
+    excludeImportJobId?: number
+  ): Promise<(Lead | null)[]> {
+    const keys = contacts.map(contact => ({ phone: phoneKey(contact.phone), email: normalizeEmail(contact.email) }));
+    const phones = keys.map(key => key.phone).filter(Boolean);
+    const emails = keys.map(key => key.email).filter(Boolean);
+
+    if (phones.length === 0 && emails.length === 0) return contacts.map(() => null);
+
+    const result = await query(
+      `SELECT id, name, normalized_phone, normalized_email
+      FROM leads
+      WHERE client_id IS NOT DISTINCT FROM $1
+        AND (normalized_phone = ANY($2::text[]) OR normalized_email = ANY($3::text[]))
+        AND ($4::int IS NULL OR import_job_id IS DISTINCT FROM $4)
+      ORDER BY created_at ASC`,
+      [clientId || null, phones, emails, excludeImportJobId || null]
+    );
+
+    const byPhone = new Map<string, Lead>();
+    const byEmail = new Map<string, Lead>();
+    for (const lead of result.rows as Lead[]) {
+      if (lead.normalized_phone && !byPhone.has(lead.normalized_phone)) byPhone.set(lead.normalized_phone, lead);
+      if (lead.normalized_email && !byEmail.has(lead.normalized_email)) byEmail.set(lead.normalized_email, lead);
     }
+
+    return keys.map(key => (key.phone && byPhone.get(key.phone)) || (key.email && byEmail.get(key.email)) || null);
   }
 
   // Find lead by ID
   static async findById(id: number): Promise<Lead | null> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE id = $1`,
       [id]
     );
@@ -159,11 +390,11 @@ export class LeadModel {
   static async findAll(limit = 50, offset = 0): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads ORDER BY created_at DESC LIMIT $1 OFFSET $2`,
       [limit, offset]
     );
@@ -175,11 +406,11 @@ export class LeadModel {
   static async findByCustomerId(customerId: number): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE customer_id = $1 ORDER BY created_at DESC`,
       [customerId]
     );
@@ -187,8 +418,18 @@ export class LeadModel {
     return result.rows;
   }
 
-  // Update lead
-  static async update(id: number, updates: Partial<Lead>): Promise<Lead | null> {
+  // Update lead - every change is recorded in the lead timeline in the same transaction
+  static async update(id: number, updates: Partial<Lead>, actorId: number | null = null): Promise<Lead | null> {
+    // The history is written only by the server (lead_timeline) - never from update data
+    updates = { ...updates };
+    delete updates.history;
+    
+    // Keep duplicate detection keys in sync with contact details
+    if (updates.phone !== undefined) {
+      updates = { ...updates, ...phoneColumns(updates.phone), normalized_phone: phoneKey(updates.phone) } as Partial<Lead>;
+    }
+    if (updates.email !== undefined) updates = { ...updates, normalized_email: normalizeEmail(updates.email) };
+
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -204,14 +445,76 @@ export class LeadModel {
     if (fields.length === 0) return null;
 
     values.push(id);
+    const client = await getClient();
+    let lead: Lead | null = null;
+    let entries: LeadChangeEntry[] = [];
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query('SELECT * FROM leads WHERE id = $1 FOR UPDATE', [id]);
+      if (!existing.rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const result = await client.query(
+        `UPDATE leads SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${paramCount}
+         RETURNING *`,
+        values
+      );
+      lead = result.rows[0];
+
+      const before: Lead = existing.rows[0];
+      const userNames = before.assigned_to !== lead!.assigned_to
+        ? await getUserNames(client, [before.assigned_to, lead!.assigned_to])
+        : undefined;
+      entries = LeadTimelineService.describeChanges(before, lead!, userNames);
+      await LeadTimelineModel.append(
+        entries.map(entry => ({ ...entry, lead_id: id, client_id: lead!.client_id, actor_id: actorId })),
+        client
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Status, notes or activity changed - recompute the stored score
+    return entries.length > 0 ? LeadModel.saveScore(lead!) : lead;
+  }
+
+  // Recompute and store the score of a lead (activity is read from the timeline)
+  static async saveScore(lead: Lead): Promise<Lead> {
+    const history = await LeadTimelineModel.getScoringHistory(lead.id);
     const result = await query(
-      `UPDATE leads SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $${paramCount}
+      `UPDATE leads SET score = $1, score_classification = $2, sentiment = $3, predicted_status = $4, scored_at = $5
+       WHERE id = $6
        RETURNING *`,
-      values
+      [...scoreValues({ ...lead, history }), lead.id]
     );
 
-    return result.rows[0] || null;
+    return result.rows[0] || lead;
+  }
+
+  // Recompute the score of a lead by ID
+  static async rescore(id: number): Promise<Lead | null> {
+    const result = await query('SELECT * FROM leads WHERE id = $1', [id]);
+    return result.rows[0] ? LeadModel.saveScore(result.rows[0]) : null;
+  }
+
+  // Get a batch of leads for the scheduled rescore (keyset pagination by ID)
+  static async findForRescore(afterId: number, limit: number): Promise<Lead[]> {
+    const result = await query(
+      `SELECT id, status, notes, last_contact, created_at, score
+       FROM leads WHERE id > $1 ORDER BY id ASC LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return result.rows;
   }
 
   // Delete lead
@@ -228,11 +531,11 @@ export class LeadModel {
   static async findByStatus(status: string): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE status = $1 ORDER BY created_at DESC`,
       [status]
     );
@@ -244,15 +547,16 @@ export class LeadModel {
   static async search(searchTerm: string): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads 
-      WHERE name ILIKE $1 OR phone ILIKE $1 OR email ILIKE $1 OR notes ILIKE $1
+      WHERE search_text LIKE '%' || search_normalize($1) || '%'
+         OR ($2 <> '' AND search_phone LIKE '%' || $2 || '%')
       ORDER BY created_at DESC`,
-      [`%${searchTerm}%`]
+      [searchTerm.replace(/[\\%_]/g, '\\$&'), phoneSearchDigits(searchTerm)]
     );
     
     return result.rows;
@@ -273,11 +577,11 @@ export class LeadModel {
       // Get leads assigned to user or belonging to their client
       const result = await query(
         `SELECT 
-          id, customer_id, name, phone, email, status, source, 
+          id, customer_id, name, phone, phone_e164, email, status, source, 
           callback_date, 
           TO_CHAR(callback_time, 'HH24:MI') as callback_time,
           potential_value, last_contact, product, amount, closing_date, 
-          history, assigned_to, client_id, notes, created_at, updated_at
+          history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
         FROM leads WHERE assigned_to = $1 OR client_id = $2 ORDER BY created_at DESC`,
         [userId, clientId]
       );
@@ -286,11 +590,11 @@ export class LeadModel {
       // Get only leads assigned to this user
       const result = await query(
         `SELECT 
-          id, customer_id, name, phone, email, status, source, 
+          id, customer_id, name, phone, phone_e164, email, status, source, 
           callback_date, 
           TO_CHAR(callback_time, 'HH24:MI') as callback_time,
           potential_value, last_contact, product, amount, closing_date, 
-          history, assigned_to, client_id, notes, created_at, updated_at
+          history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
         FROM leads WHERE assigned_to = $1 ORDER BY created_at DESC`,
         [userId]
       );
@@ -302,11 +606,11 @@ export class LeadModel {
   static async findByAssignedTo(assignedTo: number): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE assigned_to = $1 ORDER BY created_at DESC`,
       [assignedTo]
     );
@@ -326,11 +630,11 @@ export class LeadModel {
     // Get paginated results
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE assigned_to = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
       [assignedTo, limit, offset]
     );
@@ -342,11 +646,11 @@ export class LeadModel {
   static async findByClientId(clientId: number): Promise<Lead[]> {
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE client_id = $1 ORDER BY created_at DESC`,
       [clientId]
     );
@@ -369,11 +673,11 @@ export class LeadModel {
     // Get paginated results
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads ORDER BY created_at DESC LIMIT $1 OFFSET $2`,
       [limit, offset]
     );
@@ -400,15 +704,357 @@ export class LeadModel {
     // Get paginated results
     const result = await query(
       `SELECT 
-        id, customer_id, name, phone, email, status, source, 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
         callback_date, 
         TO_CHAR(callback_time, 'HH24:MI') as callback_time,
         potential_value, last_contact, product, amount, closing_date, 
-        history, assigned_to, client_id, notes, created_at, updated_at
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
       FROM leads WHERE assigned_to IN (${placeholders}) ORDER BY created_at DESC LIMIT $${assignedToIds.length + 1} OFFSET $${assignedToIds.length + 2}`,
       [...assignedToIds, limit, offset]
     );
     
     return { leads: result.rows, total };
   }
+
+  // Find existing leads with the same normalized phone or email (within the same client)
+  static async findDuplicates(phone: string | null | undefined, email: string | null | undefined, clientId: number | null | undefined, excludeId?: number): Promise<Lead[]> {
+    const normalizedPhone = phoneKey(phone);
+    const normalizedEmail = normalizeEmail(email);
+
+    if (!normalizedPhone && !normalizedEmail) return [];
+
+    const result = await query(
+      `SELECT 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
+        callback_date, 
+        TO_CHAR(callback_time, 'HH24:MI') as callback_time,
+        potential_value, last_contact, product, amount, closing_date, 
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
+      FROM leads 
+      WHERE client_id IS NOT DISTINCT FROM $3
+        AND (normalized_phone = $1 OR normalized_email = $2)
+        AND ($4::int IS NULL OR id <> $4)
+      ORDER BY created_at ASC`,
+      [normalizedPhone, normalizedEmail, clientId || null, excludeId || null]
+    );
+
+    return result.rows;
+  }
+
+  // Add an entry to the lead timeline (activities that are not a change of the lead row)
+  static async addTimelineEntry(id: number, entry: LeadChangeEntry, actorId: number | null = null): Promise<Lead | null> {
+    const result = await query('SELECT * FROM leads WHERE id = $1', [id]);
+    if (!result.rows[0]) return null;
+
+    await LeadTimelineModel.append([{ ...entry, lead_id: id, client_id: result.rows[0].client_id, actor_id: actorId }]);
+    return LeadModel.saveScore(result.rows[0]);
+  }
+
+  // Get the leads of a client that stayed in a status / had no timeline activity for the given hours
+  static async findStaleInStatus(
+    clientId: number,
+    status: string,
+    options: { elapsedHours?: number; inactiveHours?: number } = {}
+  ): Promise<StaleLead[]> {
+    const result = await query(
+      `SELECT l.id, l.name, l.phone, l.status, l.source, l.custom_fields, l.assigned_to,
+              NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as assigned_to_name,
+              activity.status_since, activity.last_activity
+       FROM leads l
+       LEFT JOIN users u ON u.id = l.assigned_to
+       CROSS JOIN LATERAL (
+         SELECT COALESCE(MAX(t.created_at) FILTER (WHERE t.type = 'status'), l.created_at) as status_since,
+                COALESCE(MAX(t.created_at), l.created_at) as last_activity
+         FROM lead_timeline t
+         WHERE t.lead_id = l.id
+       ) activity
+       WHERE l.client_id = $1
+         AND l.status = $2
+         AND ($3::int IS NULL OR activity.status_since <= CURRENT_TIMESTAMP - make_interval(hours => $3::int))
+         AND ($4::int IS NULL OR activity.last_activity <= CURRENT_TIMESTAMP - make_interval(hours => $4::int))
+       ORDER BY activity.status_since, l.id`,
+      [clientId, status, options.elapsedHours ?? null, options.inactiveHours ?? null]
+    );
+
+    return result.rows;
+  }
+
+  // Move a lead by an automatic status rule (system entry, no actor)
+  // Returns null if the lead left the status in the meantime
+  static async applyAutoStatusChange(id: number, fromStatus: string, toStatus: string, rule: { id: string; name: string }): Promise<Lead | null> {
+    const client = await getClient();
+    let lead: Lead | null = null;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE leads SET status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND status = $3
+         RETURNING *`,
+        [toStatus, id, fromStatus]
+      );
+      lead = result.rows[0] || null;
+      if (!lead) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await LeadTimelineModel.append([{
+        lead_id: id,
+        client_id: lead.client_id,
+        type: 'status',
+        description: `סטטוס שונה אוטומטית מ"${fromStatus}" ל"${toStatus}" (כלל: ${rule.name})`,
+        actor_id: null,
+        before_values: { status: fromStatus },
+        after_values: { status: toStatus },
+        metadata: { auto_status_change: rule.id }
+      }], client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return LeadModel.saveScore(lead);
+  }
+
+  // Attach a repeated inquiry to an existing lead instead of creating a duplicate
+  static async attachDuplicate(existingId: number, incoming: { name?: string; phone?: string; email?: string; source?: string; notes?: string }, actorId: number | null = null): Promise<Lead | null> {
+    const details = [incoming.name, incoming.phone, incoming.email].filter(Boolean).join(', ');
+
+    return LeadModel.addTimelineEntry(existingId, {
+      type: 'note',
+      description: `פנייה חוזרת${incoming.source ? ` ממקור ${incoming.source}` : ''}: ${details}`,
+      metadata: {
+        notes: incoming.notes,
+        source: incoming.source,
+        name: incoming.name,
+        phone: incoming.phone,
+        email: incoming.email
+      }
+    }, actorId);
+  }
+
+  // Get groups of possible duplicate leads (same normalized phone or email)
+  static async findPossibleDuplicates(assignedToIds?: number[]): Promise<DuplicateLeadGroup[]> {
+    const hasScope = assignedToIds !== undefined;
+    if (hasScope && assignedToIds.length === 0) return [];
+
+    const params: any[] = hasScope ? [assignedToIds] : [];
+    const scopeCondition = hasScope ? 'AND assigned_to = ANY($1::int[])' : '';
+
+    const result = await query(
+      `SELECT 'phone' as match_type, normalized_phone as match_value, client_id, array_agg(id ORDER BY created_at) as lead_ids
+       FROM leads
+       WHERE normalized_phone IS NOT NULL ${scopeCondition}
+       GROUP BY client_id, normalized_phone
+       HAVING COUNT(*) > 1
+       UNION ALL
+       SELECT 'email' as match_type, normalized_email as match_value, client_id, array_agg(id ORDER BY created_at) as lead_ids
+       FROM leads
+       WHERE normalized_email IS NOT NULL ${scopeCondition}
+       GROUP BY client_id, normalized_email
+       HAVING COUNT(*) > 1
+       ORDER BY match_type, match_value
+       LIMIT 500`,
+      params
+    );
+
+    if (result.rows.length === 0) return [];
+
+    const leadIds = [...new Set(result.rows.flatMap((row: any) => row.lead_ids as number[]))];
+    const leadsResult = await query(
+      `SELECT 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
+        callback_date, 
+        TO_CHAR(callback_time, 'HH24:MI') as callback_time,
+        potential_value, last_contact, product, amount, closing_date, 
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
+      FROM leads WHERE id = ANY($1::int[])`,
+      [leadIds]
+    );
+    const leadsById = new Map<number, Lead>(leadsResult.rows.map((lead: Lead) => [lead.id, lead]));
+
+    return result.rows.map((row: any) => ({
+      match_type: row.match_type,
+      match_value: row.match_value,
+      leads: (row.lead_ids as number[]).map(id => leadsById.get(id)).filter((lead): lead is Lead => !!lead)
+    }));
+  }
+
+  // Merge source lead into target lead (timeline, tasks, events and notes) and delete the source
+  static async merge(targetId: number, sourceId: number, mergedBy?: number): Promise<Lead | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const leadsResult = await client.query(
+        'SELECT * FROM leads WHERE id = ANY($1::int[]) FOR UPDATE',
+        [[targetId, sourceId]]
+      );
+      const target = leadsResult.rows.find((lead: Lead) => lead.id === targetId);
+      const source = leadsResult.rows.find((lead: Lead) => lead.id === sourceId);
+
+      if (!target || !source) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const notes = [target.notes, source.notes]
+        .filter((note: string | null) => note && note.trim())
+        .filter((note: string, index: number, all: string[]) => all.indexOf(note) === index)
+        .join('\n\n') || null;
+
+      await client.query(
+        `UPDATE tasks SET lead_id = $1 WHERE lead_id = $2`,
+        [targetId, sourceId]
+      );
+
+      await client.query(
+        `UPDATE unified_events SET lead_id = $1 WHERE lead_id = $2`,
+        [targetId, sourceId]
+      );
+
+      await client.query(
+        `UPDATE attachments SET lead_id = $1 WHERE lead_id = $2`,
+        [targetId, sourceId]
+      );
+
+      await client.query(
+        `UPDATE notes SET lead_id = $1 WHERE lead_id = $2`,
+        [targetId, sourceId]
+      );
+
+      // The source timeline continues on the target lead (with the legacy history it still has only in leads.history)
+      await LeadTimelineModel.copyLegacyHistory(sourceId, targetId, client);
+      await LeadTimelineModel.moveToLead(sourceId, targetId, client);
+
+      await client.query('DELETE FROM leads WHERE id = $1', [sourceId]);
+
+      const updated = await client.query(
+        `UPDATE leads SET 
+          notes = $1,
+          email = COALESCE(NULLIF(email, ''), $2),
+          normalized_email = COALESCE(normalized_email, $3),
+          callback_date = COALESCE(callback_date, $4),
+          callback_time = COALESCE(callback_time, $5),
+          tags = $6,
+          custom_fields = $7,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $8
+        RETURNING *`,
+        [
+          notes,
+          source.email || null,
+          normalizeEmail(source.email),
+          source.callback_date,
+          source.callback_time,
+          [...new Set([...(target.tags || []), ...(source.tags || [])])],
+          JSON.stringify(mergeCustomFields(target.custom_fields, source.custom_fields)),
+          targetId
+        ]
+      );
+
+      await LeadTimelineModel.append([{
+        lead_id: targetId,
+        client_id: target.client_id,
+        type: 'edit',
+        description: `מוזג ליד כפול: ${source.name || ''} (${source.phone || source.email || source.id})`,
+        actor_id: mergedBy ?? null,
+        before_values: { status: source.status },
+        after_values: { status: target.status },
+        metadata: { mergedLeadId: source.id }
+      }], client);
+
+      const history = await LeadTimelineModel.getScoringHistory(targetId, client);
+      const scored = await client.query(
+        `UPDATE leads SET score = $1, score_classification = $2, sentiment = $3, predicted_status = $4, scored_at = $5
+         WHERE id = $6
+         RETURNING *`,
+        [...scoreValues({ ...updated.rows[0], history }), targetId]
+      );
+
+      await client.query('COMMIT');
+      return scored.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Get leads matching the list filters with sorting and pagination
+  static async findFiltered(filters: LeadFilters, options: { limit?: number; offset?: number; sort?: LeadSort[] } = {}): Promise<{ leads: Lead[], total: number }> {
+    const params: any[] = [];
+    const conditions = buildFilterConditions(filters, params);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM leads ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].total);
+
+    // Sort fields are validated against LEAD_SORT_FIELDS by the parser
+    const orderBy = (options.sort || DEFAULT_LEAD_SORT)
+      .map(sort => `${sort.field} ${sort.direction} NULLS LAST`)
+      .concat('id DESC')
+      .join(', ');
+
+    let pagination = '';
+    if (options.limit !== undefined) {
+      params.push(options.limit, options.offset || 0);
+      pagination = `LIMIT $${params.length - 1} OFFSET $${params.length}`;
+    }
+
+    // Get paginated results
+    const result = await query(
+      `SELECT 
+        id, customer_id, name, phone, phone_e164, email, status, source, 
+        callback_date, 
+        TO_CHAR(callback_time, 'HH24:MI') as callback_time,
+        potential_value, last_contact, product, amount, closing_date, 
+        history, assigned_to, client_id, notes, custom_fields, tags, score, score_classification, sentiment, predicted_status, scored_at, created_at, updated_at
+      FROM leads ${whereClause} ORDER BY ${orderBy} ${pagination}`,
+      params
+    );
+
+    return { leads: result.rows, total };
+  }
+
+  // Count leads matching the list filters (segment counts)
+  static async countFiltered(filters: LeadFilters): Promise<number> {
+    const params: any[] = [];
+    const conditions = buildFilterConditions(filters, params);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await query(`SELECT COUNT(*) as total FROM leads ${whereClause}`, params);
+    return parseInt(result.rows[0].total);
+  }
+
+  // WHERE conditions of the list filters for queries built elsewhere (reports) - params are appended
+  static buildFilterConditions(filters: LeadFilters, params: any[]): string[] {
+    return buildFilterConditions(filters, params);
+  }
+
+  // Count open leads (not in a final status) per assigned user
+  static async countOpenByAssignees(assignedToIds: number[], finalStatuses: string[] = []): Promise<Map<number, number>> {
+    const counts = new Map<number, number>(assignedToIds.map(id => [id, 0]));
+    if (assignedToIds.length === 0) return counts;
+
+    const result = await query(
+      `SELECT assigned_to, COUNT(*) as count FROM leads 
+       WHERE assigned_to = ANY($1::int[]) AND NOT (status = ANY($2::text[]))
+       GROUP BY assigned_to`,
+      [assignedToIds, finalStatuses]
+    );
+
+    result.rows.forEach((row: any) => counts.set(row.assigned_to, parseInt(row.count)));
+    return counts;
+  }
 }
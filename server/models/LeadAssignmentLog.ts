@@ -0,0 +1,78 @@
+import { query } from '../database/connection.js';
+
+export interface LeadAssignmentLog {
+  id: number;
+  lead_id: number;
+  client_id: number | null;
+  manager_id: number | null;
+  assigned_to: number | null;
+  strategy: string;
+  rule_index: number | null;
+  reason: string;
+  candidates: number[];
+  created_at: Date;
+  assigned_to_name?: string;
+}
+
+export interface CreateLeadAssignmentLogData {
+  lead_id: number;
+  client_id?: number | null;
+  manager_id?: number | null;
+  assigned_to: number | null;
+  strategy: string;
+  rule_index?: number | null;
+  reason: string;
+  candidates?: number[];
+}
+
+export class LeadAssignmentLogModel {
+  // Record an automatic assignment
+  static async create(data: CreateLeadAssignmentLogData): Promise<LeadAssignmentLog> {
+    const result = await query(
+      `INSERT INTO lead_assignment_log (lead_id, client_id, manager_id, assigned_to, strategy, rule_index, reason, candidates)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.lead_id,
+        data.client_id || null,
+        data.manager_id || null,
+        data.assigned_to,
+        data.strategy,
+        data.rule_index ?? null,
+        data.reason,
+        JSON.stringify(data.candidates || [])
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  // Get assignment history of a lead
+  static async findByLeadId(leadId: number): Promise<LeadAssignmentLog[]> {
+    const result = await query(
+      `SELECT l.*, CONCAT(u.first_name, ' ', u.last_name) as assigned_to_name
+       FROM lead_assignment_log l
+       LEFT JOIN users u ON u.id = l.assigned_to
+       WHERE l.lead_id = $1
+       ORDER BY l.created_at DESC`,
+      [leadId]
+    );
+
+    return result.rows;
+  }
+
+  // Get the last user that received a round-robin lead from this pool
+  static async findLastRoundRobinAssignee(candidateIds: number[]): Promise<number | null> {
+    if (candidateIds.length === 0) return null;
+
+    const result = await query(
+      `SELECT assigned_to FROM lead_assignment_log
+       WHERE strategy = 'round_robin' AND assigned_to = ANY($1::int[])
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1`,
+      [candidateIds]
+    );
+
+    return result.rows[0]?.assigned_to || null;
+  }
+}
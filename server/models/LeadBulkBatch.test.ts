@@ -0,0 +1,123 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolClient } from 'pg';
+import pool from '../database/connection.js';
+import { Lead } from './Lead.js';
+import { LeadBulkBatchModel } from './LeadBulkBatch.js';
+
+const batch = { id: 8, client_id: 10, action: 'status', params: { status: 'לא רלוונטי' }, created_at: new Date('2025-03-01T10:00:00Z') };
+
+const leads = [
+  { id: 1, client_id: 10, status: 'לא רלוונטי' },
+  { id: 2, client_id: 10, status: 'בטיפול' }
+] as Lead[];
+
+// Stands in for a pooled connection - answers by statement and records what ran
+class FakeClient {
+  statements: Array<{ sql: string; params: unknown[] }> = [];
+  released = false;
+
+  constructor(private answers: Record<string, unknown[]>) {}
+
+  async query(sql: string, params: unknown[] = []) {
+    this.statements.push({ sql, params });
+    const statement = Object.keys(this.answers).find(key => sql.includes(key));
+    return { rows: statement ? this.answers[statement] : [] };
+  }
+
+  release() {
+    this.released = true;
+  }
+
+  ran(statement: string) {
+    return this.statements.filter(({ sql }) => sql.includes(statement));
+  }
+}
+
+const useClient = (client: FakeClient) => {
+  mock.method(pool, 'connect', async () => client as unknown as PoolClient);
+};
+
+describe('LeadBulkBatchModel.undo', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('does nothing once the batch was undone or its window has passed', async () => {
+    const client = new FakeClient({});
+    useClient(client);
+
+    assert.equal(await LeadBulkBatchModel.undo(8, 4), null);
+    assert.equal(client.ran('UPDATE lead_bulk_batches').length, 0);
+    assert.equal(client.ran('ROLLBACK').length, 1);
+    assert.equal(client.released, true);
+  });
+
+  it('puts back only the leads nobody changed since and reports the others as skipped', async () => {
+    const client = new FakeClient({
+      'FROM lead_bulk_batches': [batch],
+      'FROM lead_bulk_batch_items': [
+        { lead_id: 1, before_values: { status: 'חדש' }, after_values: { status: 'לא רלוונטי' } },
+        { lead_id: 2, before_values: { status: 'חדש' }, after_values: { status: 'לא רלוונטי' } }
+      ],
+      'SELECT * FROM leads': leads,
+      'UPDATE leads SET status': [{ ...leads[0], status: 'חדש' }],
+      'UPDATE lead_bulk_batches': [{ ...batch, undone_at: new Date(), undone_by: 4 }]
+    });
+    useClient(client);
+
+    const result = await LeadBulkBatchModel.undo(8, 4);
+
+    assert.deepEqual(result?.restoredLeadIds, [1]);
+    assert.deepEqual(result?.skippedLeadIds, [2]);
+    assert.equal(result?.batch.undone_by, 4);
+    // Leads taken off a removal status leave the do-not-contact list again
+    assert.deepEqual(client.ran('DELETE FROM dnc_entries')[0].params, [[1], batch.created_at]);
+    assert.equal(client.ran('COMMIT').length, 1);
+  });
+
+  it('removes the customers of an undone conversion except ones with issued documents or other leads', async () => {
+    const attachment = { id: 70, customer_id: 31, file_name: 'חוזה.pdf' };
+    const client = new FakeClient({
+      'FROM lead_bulk_batches': [{ ...batch, action: 'convert' }],
+      'FROM lead_bulk_batch_items': [
+        { lead_id: 1, before_values: {}, after_values: { customer_id: 31 } },
+        { lead_id: 2, before_values: {}, after_values: { customer_id: 32 } }
+      ],
+      'SELECT id FROM customers': [{ id: 31 }],
+      'SELECT * FROM attachments': [attachment],
+      'DELETE FROM customers': [{ lead_id: 1 }],
+      'UPDATE lead_bulk_batches': [{ ...batch, action: 'convert', undone_at: new Date() }]
+    });
+    useClient(client);
+
+    const result = await LeadBulkBatchModel.undo(8, 4);
+
+    const [removable] = client.ran('SELECT id FROM customers');
+    assert.deepEqual(removable.params, [[31, 32]]);
+    assert.match(removable.sql, /NOT EXISTS \(SELECT 1 FROM billing_documents/);
+    assert.deepEqual(client.ran('DELETE FROM customers')[0].params, [[31]]);
+    assert.deepEqual(result?.restoredLeadIds, [1]);
+    assert.deepEqual(result?.skippedLeadIds, [2]);
+    assert.deepEqual(result?.removedAttachments, [attachment]);
+  });
+
+  it('rolls back the whole undo when a step fails', async () => {
+    const client = new FakeClient({
+      'FROM lead_bulk_batches': [batch],
+      'FROM lead_bulk_batch_items': [{ lead_id: 1, before_values: { status: 'חדש' }, after_values: { status: 'לא רלוונטי' } }],
+      'SELECT * FROM leads': leads
+    });
+    const query = client.query.bind(client);
+    mock.method(client, 'query', async (sql: string, params?: unknown[]) => {
+      if (sql.includes('UPDATE leads SET status')) throw new Error('deadlock detected');
+      return query(sql, params);
+    });
+    useClient(client);
+
+    await assert.rejects(LeadBulkBatchModel.undo(8, 4), /deadlock detected/);
+    assert.equal(client.ran('ROLLBACK').length, 1);
+    assert.equal(client.ran('COMMIT').length, 0);
+    assert.equal(client.released, true);
+  });
+});
@@ -0,0 +1,589 @@
+import { query, getClient } from '../database/connection.js';
+import { Lead } from './Lead.js';
+import { LeadTimelineModel, TimelineQueryRunner } from './LeadTimeline.js';
+import { Attachment } from './Attachment.js';
+import { LeadTimelineService } from '../services/leadTimeline.js';
+import {
+  LeadBulkAction,
+  LeadBulkParams,
+  LeadBulkRequest,
+  LeadBulkActionService,
+  BULK_UNDO_WINDOW_MINUTES,
+  CONVERTED_LEAD_STATUS
+} from '../services/leadBulkActions.js';
+
+export interface LeadBulkBatch {
+  id: number;
+  client_id: number | null;
+  action: LeadBulkAction;
+  params: LeadBulkParams;
+  lead_count: number;
+  performed_by: number | null;
+  performed_by_name?: string | null;
+  undo_until: Date;
+  undone_at: Date | null;
+  undone_by: number | null;
+  created_at: Date;
+}
+
+// What one lead looked like before the action - undo puts it back if nobody changed the lead since
+interface LeadBulkBatchItem {
+  lead_id: number;
+  before_values: Record<string, any>;
+  after_values: Record<string, any> | null;
+}
+
+export interface LeadBulkResult {
+  batch: LeadBulkBatch;
+  leadIds: number[]; // leads the action changed
+}
+
+export interface LeadBulkUndoResult {
+  batch: LeadBulkBatch;
+  restoredLeadIds: number[];
+  skippedLeadIds: number[]; // changed again after the action - left as they are
+  removedAttachments: Attachment[]; // of the customers an undone conversion removed - their files are deleted after the undo
+}
+
+interface BulkContext {
+  db: TimelineQueryRunner;
+  batch: LeadBulkBatch;
+  actorId: number;
+  removedAttachments?: Attachment[];
+}
+
+// Rows that are deleted with a lead - kept whole so undo can insert them back
+const CASCADED_TABLES = ['lead_timeline', 'unified_events', 'lead_assignment_log', 'lead_status_approvals', 'notes'];
+
+// Rows that only lose their link to a deleted lead - undo links them again
+const LINKED_TABLES = ['tasks', 'attachments', 'dnc_entries', 'dnc_blocked_attempts'];
+
+// Length of the callback reminder created by a reschedule (same as a callback set on the lead)
+const CALLBACK_REMINDER_MINUTES = 30;
+
+// Timeline entries for the changes of each lead, marked with the batch
+const appendChanges = async (context: BulkContext, pairs: Array<[Lead, Lead]>, metadata: Record<string, any> = {}) => {
+  const entries = pairs.flatMap(([before, after]) =>
+    LeadTimelineService.describeChanges(before, after).map(entry => ({
+      ...entry,
+      lead_id: after.id,
+      client_id: after.client_id,
+      actor_id: context.actorId,
+      metadata: { ...entry.metadata, bulk_batch_id: context.batch.id, ...metadata }
+    }))
+  );
+  await LeadTimelineModel.append(entries, context.db);
+};
+
+const lockLeads = async (db: TimelineQueryRunner, ids: number[]): Promise<Map<number, Lead>> => {
+  const result = await db.query('SELECT * FROM leads WHERE id = ANY($1::int[]) ORDER BY id FOR UPDATE', [ids]);
+  return new Map(result.rows.map((lead: Lead) => [lead.id, lead]));
+};
+
+const pairWith = (before: Map<number, Lead>, rows: Lead[]): Array<[Lead, Lead]> =>
+  rows.map(row => [before.get(row.id)!, row]);
+
+// Rows of a table that belong to the leads, grouped by lead
+const snapshotRows = async (db: TimelineQueryRunner, table: string, leadIds: number[]): Promise<Map<number, any[]>> => {
+  const result = await db.query(
+    `SELECT lead_id, jsonb_agg(to_jsonb(t) ORDER BY t.id) as rows FROM ${table} t
+     WHERE lead_id = ANY($1::int[])
+     GROUP BY lead_id`,
+    [leadIds]
+  );
+  return new Map(result.rows.map((row: any) => [row.lead_id, row.rows]));
+};
+
+const linkedIds = async (db: TimelineQueryRunner, table: string, leadIds: number[]): Promise<Map<number, number[]>> => {
+  const result = await db.query(
+    `SELECT lead_id, array_agg(id ORDER BY id) as ids FROM ${table}
+     WHERE lead_id = ANY($1::int[])
+     GROUP BY lead_id`,
+    [leadIds]
+  );
+  return new Map(result.rows.map((row: any) => [row.lead_id, row.ids]));
+};
+
+// Removal statuses add the lead to the do-not-contact list - undo takes those entries back out
+const removeDncEntriesSince = async (db: TimelineQueryRunner, leadIds: number[], since: Date) => {
+  if (leadIds.length === 0) return;
+  await db.query(
+    `DELETE FROM dnc_entries WHERE source = 'status' AND lead_id = ANY($1::int[]) AND created_at >= $2`,
+    [leadIds, since]
+  );
+};
+
+const restoreStatuses = async (context: BulkContext, items: LeadBulkBatchItem[]): Promise<number[]> => {
+  const changed = items.filter(item => item.after_values?.status !== undefined);
+  if (changed.length === 0) return [];
+
+  const before = await lockLeads(context.db, changed.map(item => item.lead_id));
+  const result = await context.db.query(
+    `UPDATE leads SET status = m.before_status, updated_at = CURRENT_TIMESTAMP
+     FROM jsonb_to_recordset($1::jsonb) AS m(id int, before_status text, after_status text)
+     WHERE leads.id = m.id AND leads.status = m.after_status
+     RETURNING leads.*`,
+    [JSON.stringify(changed.map(item => ({
+      id: item.lead_id,
+      before_status: item.before_values.status,
+      after_status: item.after_values!.status
+    })))]
+  );
+
+  await appendChanges(context, pairWith(before, result.rows), { undo: true });
+  const restored = result.rows.map((lead: Lead) => lead.id);
+  await removeDncEntriesSince(context.db, restored, context.batch.created_at);
+  return restored;
+};
+
+// Each action changes the locked leads and returns what undo needs
+const APPLY: Record<LeadBulkAction, (context: BulkContext, leads: Lead[], params: LeadBulkParams) => Promise<LeadBulkBatchItem[]>> = {
+  async status(context, leads, params) {
+    const before = new Map(leads.map(lead => [lead.id, lead]));
+    const result = await context.db.query(
+      `UPDATE leads SET status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1::int[]) AND status IS DISTINCT FROM $2
+       RETURNING *`,
+      [leads.map(lead => lead.id), params.status]
+    );
+
+    await appendChanges(context, pairWith(before, result.rows));
+    return result.rows.map((lead: Lead) => ({
+      lead_id: lead.id,
+      before_values: { status: before.get(lead.id)!.status },
+      after_values: { status: lead.status }
+    }));
+  },
+
+  async tags(context, leads, params) {
+    const before = new Map(leads.map(lead => [lead.id, lead]));
+    const changes = leads
+      .map(lead => ({ id: lead.id, before: lead.tags || [], tags: LeadBulkActionService.applyTags(lead.tags, params) }))
+      .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.tags));
+    if (changes.length === 0) return [];
+
+    const result = await context.db.query(
+      `UPDATE leads SET tags = ARRAY(SELECT jsonb_array_elements_text(m.tags)), updated_at = CURRENT_TIMESTAMP
+       FROM jsonb_to_recordset($1::jsonb) AS m(id int, tags jsonb)
+       WHERE leads.id = m.id
+       RETURNING leads.*`,
+      [JSON.stringify(changes.map(change => ({ id: change.id, tags: change.tags })))]
+    );
+
+    await appendChanges(context, pairWith(before, result.rows));
+    return changes.map(change => ({
+      lead_id: change.id,
+      before_values: { tags: change.before },
+      after_values: { tags: change.tags }
+    }));
+  },
+
+  async callback(context, leads, params) {
+    const before = new Map(leads.map(lead => [lead.id, lead]));
+    const result = await context.db.query(
+      `UPDATE leads l SET callback_date = $2::date, callback_time = COALESCE($3::time, l.callback_time), updated_at = CURRENT_TIMESTAMP
+       FROM (
+         SELECT id, TO_CHAR(callback_date, 'YYYY-MM-DD') as old_date, TO_CHAR(callback_time, 'HH24:MI') as old_time
+         FROM leads WHERE id = ANY($1::int[])
+       ) old
+       WHERE l.id = old.id
+         AND (l.callback_date IS DISTINCT FROM $2::date OR ($3::time IS NOT NULL AND l.callback_time IS DISTINCT FROM $3::time))
+       RETURNING l.*, old.old_date, old.old_time, TO_CHAR(l.callback_time, 'HH24:MI') as new_time`,
+      [leads.map(lead => lead.id), params.callbackDate, params.callbackTime || null]
+    );
+    if (result.rows.length === 0) return [];
+
+    // The reminder of the callback moves with it (leads without a time have no reminder)
+    const timed = result.rows.filter((row: any) => row.new_time);
+    const reminders = await context.db.query(
+      `SELECT lead_id, jsonb_agg(jsonb_build_object('id', id, 'start_time', start_time, 'end_time', end_time, 'notified', notified)) as reminders
+       FROM unified_events
+       WHERE event_type = 'reminder' AND lead_id = ANY($1::int[])
+       GROUP BY lead_id`,
+      [timed.map((row: any) => row.id)]
+    );
+    const remindersByLead = new Map<number, any[]>(reminders.rows.map((row: any) => [row.lead_id, row.reminders]));
+
+    const startTime = `(($2::date + $3::time) AT TIME ZONE 'Asia/Jerusalem') AT TIME ZONE 'UTC'`;
+    const createdReminders = new Map<number, number>();
+    for (const row of timed) {
+      if (remindersByLead.has(row.id)) {
+        await context.db.query(
+          `UPDATE unified_events SET start_time = ${startTime}, end_time = ${startTime} + make_interval(mins => $4),
+             notified = false, updated_at = CURRENT_TIMESTAMP
+           WHERE event_type = 'reminder' AND lead_id = $1`,
+          [row.id, params.callbackDate, row.new_time, CALLBACK_REMINDER_MINUTES]
+        );
+      } else {
+        const created = await context.db.query(
+          `INSERT INTO unified_events (title, description, event_type, start_time, end_time, advance_notice, customer_name, lead_id, created_by)
+           VALUES ($5, $6, 'reminder', ${startTime}, ${startTime} + make_interval(mins => $4), 5, $7, $1, $8)
+           RETURNING id`,
+          [
+            row.id,
+            params.callbackDate,
+            row.new_time,
+            CALLBACK_REMINDER_MINUTES,
+            `שיחה חוזרת - ${row.name}`,
+            `שיחה חוזרת עם ${row.name} (${row.phone})`,
+            row.name,
+            context.actorId
+          ]
+        );
+        createdReminders.set(row.id, created.rows[0].id);
+      }
+    }
+
+    await appendChanges(context, pairWith(before, result.rows));
+    return result.rows.map((row: any) => ({
+      lead_id: row.id,
+      before_values: {
+        callback_date: row.old_date,
+        callback_time: row.old_time,
+        reminders: remindersByLead.get(row.id) || []
+      },
+      after_values: {
+        callback_date: params.callbackDate,
+        callback_time: row.new_time,
+        created_reminder_id: createdReminders.get(row.id) ?? null
+      }
+    }));
+  },
+
+  async delete(context, leads) {
+    const ids = leads.map(lead => lead.id);
+    const rows = await context.db.query('SELECT id, to_jsonb(l) as row FROM leads l WHERE id = ANY($1::int[])', [ids]);
+
+    const cascaded = new Map<string, Map<number, any[]>>();
+    for (const table of CASCADED_TABLES) cascaded.set(table, await snapshotRows(context.db, table, ids));
+    const linked = new Map<string, Map<number, number[]>>();
+    for (const table of LINKED_TABLES) linked.set(table, await linkedIds(context.db, table, ids));
+
+    await context.db.query('DELETE FROM leads WHERE id = ANY($1::int[])', [ids]);
+
+    return rows.rows.map((row: any) => ({
+      lead_id: row.id,
+      before_values: {
+        lead: row.row,
+        ...Object.fromEntries(CASCADED_TABLES.map(table => [table, cascaded.get(table)!.get(row.id) || []])),
+        ...Object.fromEntries(LINKED_TABLES.map(table => [table, linked.get(table)!.get(row.id) || []]))
+      },
+      after_values: null
+    }));
+  },
+
+  async convert(context, leads, params) {
+    const status = params.status || CONVERTED_LEAD_STATUS;
+    const before = new Map(leads.map(lead => [lead.id, lead]));
+    const customers = await context.db.query(
+      `INSERT INTO customers (lead_id, created_by, client_id, full_name, phone, phone_e164, email, status, payment_status, billing_frequency)
+       SELECT id, $2, client_id, COALESCE(NULLIF(name, ''), phone, email), phone, phone_e164, email, 'פעיל', 'ממתין לתשלום', 'חד פעמי'
+       FROM leads WHERE id = ANY($1::int[])
+       ORDER BY id
+       RETURNING id, lead_id`,
+      [leads.map(lead => lead.id), context.actorId]
+    );
+    const customerOf = new Map<number, number>(customers.rows.map((row: any) => [row.lead_id, row.id]));
+
+    const result = await context.db.query(
+      `UPDATE leads SET status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1::int[]) AND status IS DISTINCT FROM $2
+       RETURNING *`,
+      [leads.map(lead => lead.id), status]
+    );
+    await appendChanges(context, pairWith(before, result.rows), { converted: true });
+
+    const statusChanged = new Set(result.rows.map((lead: Lead) => lead.id));
+    return leads.map(lead => ({
+      lead_id: lead.id,
+      before_values: { status: lead.status },
+      after_values: {
+        ...(statusChanged.has(lead.id) ? { status } : {}),
+        customer_id: customerOf.get(lead.id)
+      }
+    }));
+  }
+};
+
+// Undo puts back only leads still in the state the action left them in
+const UNDO: Record<LeadBulkAction, (context: BulkContext, items: LeadBulkBatchItem[]) => Promise<number[]>> = {
+  status: restoreStatuses,
+
+  async tags(context, items) {
+    const before = await lockLeads(context.db, items.map(item => item.lead_id));
+    const result = await context.db.query(
+      `UPDATE leads SET tags = ARRAY(SELECT jsonb_array_elements_text(m.before_tags)), updated_at = CURRENT_TIMESTAMP
+       FROM jsonb_to_recordset($1::jsonb) AS m(id int, before_tags jsonb, after_tags jsonb)
+       WHERE leads.id = m.id AND to_jsonb(COALESCE(leads.tags, '{}')) = m.after_tags
+       RETURNING leads.*`,
+      [JSON.stringify(items.map(item => ({
+        id: item.lead_id,
+        before_tags: item.before_values.tags,
+        after_tags: item.after_values!.tags
+      })))]
+    );
+
+    await appendChanges(context, pairWith(before, result.rows), { undo: true });
+    return result.rows.map((lead: Lead) => lead.id);
+  },
+
+  async callback(context, items) {
+    const before = await lockLeads(context.db, items.map(item => item.lead_id));
+    const result = await context.db.query(
+      `UPDATE leads SET callback_date = m.before_date::date, callback_time = m.before_time::time, updated_at = CURRENT_TIMESTAMP
+       FROM jsonb_to_recordset($1::jsonb) AS m(id int, before_date text, before_time text, after_date text, after_time text)
+       WHERE leads.id = m.id
+         AND leads.callback_date IS NOT DISTINCT FROM m.after_date::date
+         AND leads.callback_time IS NOT DISTINCT FROM m.after_time::time
+       RETURNING leads.*`,
+      [JSON.stringify(items.map(item => ({
+        id: item.lead_id,
+        before_date: item.before_values.callback_date,
+        before_time: item.before_values.callback_time,
+        after_date: item.after_values!.callback_date,
+        after_time: item.after_values!.callback_time
+      })))]
+    );
+
+    const restored = new Set<number>(result.rows.map((lead: Lead) => lead.id));
+    const restoredItems = items.filter(item => restored.has(item.lead_id));
+    const reminders = restoredItems.flatMap(item => item.before_values.reminders || []);
+    if (reminders.length > 0) {
+      await context.db.query(
+        `UPDATE unified_events SET start_time = m.start_time, end_time = m.end_time, notified = m.notified, updated_at = CURRENT_TIMESTAMP
+         FROM jsonb_to_recordset($1::jsonb) AS m(id int, start_time timestamp, end_time timestamp, notified boolean)
+         WHERE unified_events.id = m.id`,
+        [JSON.stringify(reminders)]
+      );
+    }
+    const createdReminderIds = restoredItems.map(item => item.after_values!.created_reminder_id).filter(Boolean);
+    if (createdReminderIds.length > 0) {
+      await context.db.query('DELETE FROM unified_events WHERE id = ANY($1::int[])', [createdReminderIds]);
+    }
+
+    await appendChanges(context, pairWith(before, result.rows), { undo: true });
+    return [...restored];
+  },
+
+  async delete(context, items) {
+    const restored: number[] = [];
+    for (const item of items) {
+      const leadRow = await context.db.query(
+        `INSERT INTO leads SELECT * FROM jsonb_populate_record(NULL::leads, $1::jsonb)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING id, client_id`,
+        [JSON.stringify(item.before_values.lead)]
+      );
+      if (!leadRow.rows[0]) continue;
+
+      for (const table of CASCADED_TABLES) {
+        const rows = item.before_values[table] || [];
+        if (rows.length === 0) continue;
+        // Events of a task or customer deleted in the meantime are not brought back
+        const stillLinked = table === 'unified_events'
+          ? `WHERE (r.task_id IS NULL OR EXISTS (SELECT 1 FROM tasks WHERE id = r.task_id))
+               AND (r.customer_id IS NULL OR EXISTS (SELECT 1 FROM customers WHERE id = r.customer_id))`
+          : '';
+        await context.db.query(
+          `INSERT INTO ${table} SELECT r.* FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb) r ${stillLinked}
+           ON CONFLICT (id) DO NOTHING`,
+          [JSON.stringify(rows)]
+        );
+      }
+
+      for (const table of LINKED_TABLES) {
+        const ids = item.before_values[table] || [];
+        if (ids.length === 0) continue;
+        // An attachment can belong to one record only
+        const free = table === 'attachments' ? 'AND customer_id IS NULL AND task_id IS NULL' : '';
+        await context.db.query(
+          `UPDATE ${table} SET lead_id = $1 WHERE id = ANY($2::int[]) AND lead_id IS NULL ${free}`,
+          [item.lead_id, ids]
+        );
+      }
+
+      restored.push(item.lead_id);
+    }
+
+    if (restored.length > 0) {
+      const leads = await context.db.query('SELECT id, client_id FROM leads WHERE id = ANY($1::int[])', [restored]);
+      await LeadTimelineModel.append(
+        leads.rows.map((lead: any) => ({
+          lead_id: lead.id,
+          client_id: lead.client_id,
+          type: 'edit' as const,
+          description: 'הליד שוחזר - ביטול מחיקה מרובה',
+          actor_id: context.actorId,
+          metadata: { bulk_batch_id: context.batch.id, undo: true }
+        })),
+        context.db
+      );
+    }
+    return restored;
+  },
+
+  async convert(context, items) {
+    const restored = new Set(await restoreStatuses(context, items));
+
+    // A customer some lead was linked to since is kept (deleting it would delete that lead too),
+    // and so is one that was issued invoices or receipts
+    const customerIds = items.map(item => item.after_values?.customer_id).filter(Boolean);
+    const removable = await context.db.query(
+      `SELECT id FROM customers WHERE id = ANY($1::int[])
+         AND NOT EXISTS (SELECT 1 FROM leads WHERE leads.customer_id = customers.id)
+         AND NOT EXISTS (SELECT 1 FROM billing_documents WHERE billing_documents.customer_id = customers.id)
+       FOR UPDATE`,
+      [customerIds]
+    );
+    const removableIds = removable.rows.map((row: { id: number }) => row.id);
+
+    // Read before the delete unlinks them from the customers
+    const attachments = await context.db.query('SELECT * FROM attachments WHERE customer_id = ANY($1::int[])', [removableIds]);
+    context.removedAttachments = attachments.rows;
+
+    const deleted = await context.db.query(
+      'DELETE FROM customers WHERE id = ANY($1::int[]) RETURNING lead_id',
+      [removableIds]
+    );
+    for (const row of deleted.rows) restored.add(row.lead_id);
+
+    return [...restored];
+  }
+};
+
+const pool: TimelineQueryRunner = { query };
+
+export class LeadBulkBatchModel {
+  // Get leads for checking a bulk action
+  static async findLeads(ids: number[], db: TimelineQueryRunner = pool): Promise<Lead[]> {
+    const result = await db.query('SELECT * FROM leads WHERE id = ANY($1::int[]) ORDER BY id', [ids]);
+    return result.rows;
+  }
+
+  // Get the leads that already have a customer
+  static async findConvertedLeadIds(ids: number[]): Promise<number[]> {
+    const result = await query('SELECT DISTINCT lead_id FROM customers WHERE lead_id = ANY($1::int[])', [ids]);
+    return result.rows.map((row: any) => row.lead_id);
+  }
+
+  // Run a bulk action in one transaction and record it as a batch that can be undone
+  // Returns null when a lead was deleted after the request was checked
+  static async apply(request: LeadBulkRequest, actorId: number, clientId: number | null): Promise<LeadBulkResult | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const leads = await lockLeads(client, request.leadIds);
+      if (leads.size !== request.leadIds.length) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const batchResult = await client.query(
+        `INSERT INTO lead_bulk_batches (client_id, action, params, performed_by, undo_until)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(mins => $5))
+         RETURNING *`,
+        [clientId, request.action, JSON.stringify(request.params), actorId, BULK_UNDO_WINDOW_MINUTES]
+      );
+      const context: BulkContext = { db: client, batch: batchResult.rows[0], actorId };
+
+      const items = await APPLY[request.action](context, [...leads.values()], request.params);
+      if (items.length > 0) {
+        await client.query(
+          `INSERT INTO lead_bulk_batch_items (batch_id, lead_id, before_values, after_values)
+           SELECT $1, m.lead_id, m.before_values, m.after_values
+           FROM jsonb_to_recordset($2::jsonb) AS m(lead_id int, before_values jsonb, after_values jsonb)`,
+          [context.batch.id, JSON.stringify(items)]
+        );
+      }
+
+      const batch = await client.query(
+        'UPDATE lead_bulk_batches SET lead_count = $1 WHERE id = $2 RETURNING *',
+        [items.length, context.batch.id]
+      );
+
+      await client.query('COMMIT');
+      return { batch: batch.rows[0], leadIds: items.map(item => item.lead_id) };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Get a batch by ID
+  static async findById(id: number): Promise<LeadBulkBatch | null> {
+    const result = await query('SELECT * FROM lead_bulk_batches WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  // Get the batches that can still be undone, newest first
+  static async findUndoable(clientId: number | null): Promise<LeadBulkBatch[]> {
+    const result = await query(
+      `SELECT b.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as performed_by_name
+       FROM lead_bulk_batches b
+       LEFT JOIN users u ON u.id = b.performed_by
+       WHERE ($1::int IS NULL OR b.client_id = $1)
+         AND b.undone_at IS NULL AND b.undo_until > CURRENT_TIMESTAMP AND b.lead_count > 0
+       ORDER BY b.created_at DESC`,
+      [clientId]
+    );
+    return result.rows;
+  }
+
+  // Undo a batch in one transaction - returns null when it was undone already or its window has passed
+  static async undo(id: number, actorId: number): Promise<LeadBulkUndoResult | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const batchResult = await client.query(
+        `SELECT * FROM lead_bulk_batches
+         WHERE id = $1 AND undone_at IS NULL AND undo_until > CURRENT_TIMESTAMP
+         FOR UPDATE`,
+        [id]
+      );
+      if (!batchResult.rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const items = await client.query(
+        'SELECT lead_id, before_values, after_values FROM lead_bulk_batch_items WHERE batch_id = $1 ORDER BY id',
+        [id]
+      );
+      const context: BulkContext = { db: client, batch: batchResult.rows[0], actorId };
+      const restored = await UNDO[context.batch.action](context, items.rows);
+
+      const batch = await client.query(
+        `UPDATE lead_bulk_batches SET undone_at = CURRENT_TIMESTAMP, undone_by = $1
+         WHERE id = $2
+         RETURNING *`,
+        [actorId, id]
+      );
+
+      await client.query('COMMIT');
+      const restoredIds = new Set(restored);
+      return {
+        batch: batch.rows[0],
+        restoredLeadIds: restored,
+        skippedLeadIds: items.rows.map((item: LeadBulkBatchItem) => item.lead_id).filter((leadId: number) => !restoredIds.has(leadId)),
+        removedAttachments: context.removedAttachments || []
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Clean up batches whose undo window ended more than a month ago (they hold copies of deleted leads)
+  static async cleanupExpired(): Promise<number> {
+    const result = await query(
+      `DELETE FROM lead_bulk_batches WHERE undo_until < CURRENT_TIMESTAMP - INTERVAL '1 month'`
+    );
+    return result.rowCount || 0;
+  }
+}
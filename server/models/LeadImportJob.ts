@@ -0,0 +1,178 @@
+import { query } from '../database/connection.js';
+
+export type LeadImportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// A row that was not imported - 'failed' rows are retried when the job is re-run
+export interface LeadImportRowError {
+  rowNumber: number;
+  type: 'failed' | 'skipped';
+  reason: string;
+}
+
+export interface LeadImportJob {
+  id: number;
+  client_id: number | null;
+  created_by: number | null;
+  filename: string;
+  file_data?: Buffer;
+  file_hash: string;
+  encoding: string;
+  mapping: Record<string, string>;
+  status: LeadImportJobStatus;
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  skipped_count: number;
+  attached_count: number;
+  failed_count: number;
+  row_errors: LeadImportRowError[];
+  retry_rows?: number[];
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+export interface CreateLeadImportJobData {
+  client_id?: number | null;
+  created_by: number;
+  filename: string;
+  file_data: Buffer;
+  file_hash: string;
+  encoding: string;
+  mapping: Record<string, string>;
+}
+
+export interface LeadImportProgress {
+  processed_rows: number;
+  created: number;
+  skipped: number;
+  attached: number;
+  failed: number;
+  row_errors: LeadImportRowError[];
+}
+
+// Every column except the uploaded file
+const JOB_COLUMNS = `id, client_id, created_by, filename, file_hash, encoding, mapping, status, total_rows, processed_rows,
+  created_count, skipped_count, attached_count, failed_count, row_errors, error, created_at, started_at, finished_at`;
+
+export class LeadImportJobModel {
+  // Create a new pending import job
+  static async create(data: CreateLeadImportJobData): Promise<LeadImportJob> {
+    const result = await query(
+      `INSERT INTO lead_import_jobs (client_id, created_by, filename, file_data, file_hash, encoding, mapping)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${JOB_COLUMNS}`,
+      [data.client_id || null, data.created_by, data.filename, data.file_data, data.file_hash, data.encoding, JSON.stringify(data.mapping)]
+    );
+
+    return result.rows[0];
+  }
+
+  // Find job by ID (without the file)
+  static async findById(id: number): Promise<LeadImportJob | null> {
+    const result = await query(
+      `SELECT ${JOB_COLUMNS} FROM lead_import_jobs WHERE id = $1`,
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Find job by ID including the uploaded file (for processing)
+  static async findByIdWithFile(id: number): Promise<LeadImportJob | null> {
+    const result = await query(
+      'SELECT * FROM lead_import_jobs WHERE id = $1',
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Find an earlier job of the same file and mapping (uploading the same file twice reuses it)
+  static async findByHash(clientId: number | null | undefined, fileHash: string): Promise<LeadImportJob | null> {
+    const result = await query(
+      `SELECT ${JOB_COLUMNS} FROM lead_import_jobs
+       WHERE client_id IS NOT DISTINCT FROM $1 AND file_hash = $2 AND status <> 'failed'
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [clientId || null, fileHash]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Get the recent jobs of a user
+  static async findByCreator(userId: number, limit = 20): Promise<LeadImportJob[]> {
+    const result = await query(
+      `SELECT ${JOB_COLUMNS} FROM lead_import_jobs WHERE created_by = $1 ORDER BY created_at DESC LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows;
+  }
+
+  // Get jobs that did not finish (server restarted while they were queued or running)
+  static async findUnfinished(): Promise<LeadImportJob[]> {
+    const result = await query(
+      `SELECT ${JOB_COLUMNS} FROM lead_import_jobs WHERE status IN ('pending', 'running') ORDER BY created_at ASC`
+    );
+
+    return result.rows;
+  }
+
+  // Mark a job as running
+  static async markRunning(id: number, totalRows: number): Promise<void> {
+    await query(
+      `UPDATE lead_import_jobs SET status = 'running', total_rows = $1, started_at = COALESCE(started_at, CURRENT_TIMESTAMP), error = NULL
+       WHERE id = $2`,
+      [totalRows, id]
+    );
+  }
+
+  // Save progress after a chunk of rows
+  static async updateProgress(id: number, progress: LeadImportProgress): Promise<void> {
+    await query(
+      `UPDATE lead_import_jobs SET
+        processed_rows = $1,
+        created_count = created_count + $2,
+        skipped_count = skipped_count + $3,
+        attached_count = attached_count + $4,
+        failed_count = failed_count + $5,
+        row_errors = row_errors || $6::jsonb
+       WHERE id = $7`,
+      [progress.processed_rows, progress.created, progress.skipped, progress.attached, progress.failed, JSON.stringify(progress.row_errors), id]
+    );
+  }
+
+  // Mark a job as finished (retried rows were handled when the job completes)
+  static async finish(id: number, status: 'completed' | 'failed', error?: string): Promise<void> {
+    await query(
+      `UPDATE lead_import_jobs SET
+        status = $1,
+        error = $2,
+        retry_rows = CASE WHEN $1 = 'completed' THEN '[]'::jsonb ELSE retry_rows END,
+        finished_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [status, error || null, id]
+    );
+  }
+
+  // Queue a job again - failed rows move from the report to retry_rows and are processed again
+  static async resetForRerun(id: number): Promise<LeadImportJob | null> {
+    const result = await query(
+      `UPDATE lead_import_jobs SET
+        status = 'pending',
+        error = NULL,
+        finished_at = NULL,
+        failed_count = 0,
+        retry_rows = retry_rows || COALESCE((SELECT jsonb_agg((e->>'rowNumber')::int) FROM jsonb_array_elements(row_errors) e WHERE e->>'type' = 'failed'), '[]'::jsonb),
+        row_errors = COALESCE((SELECT jsonb_agg(e) FROM jsonb_array_elements(row_errors) e WHERE e->>'type' <> 'failed'), '[]'::jsonb)
+       WHERE id = $1 AND status IN ('completed', 'failed')
+       RETURNING ${JOB_COLUMNS}`,
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+}
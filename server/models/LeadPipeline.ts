@@ -0,0 +1,151 @@
+import { query, getClient } from '../database/connection.js';
+import { Lead, LeadModel } from './Lead.js';
+import { LeadFilters } from '../utils/leadFilters.js';
+import { TimelineQueryRunner } from './LeadTimeline.js';
+
+export interface PipelineStageTotals {
+  status: string;
+  count: number;
+  potential_value: number; // sum of potential_value
+  amount: number; // sum of amount
+}
+
+// Where a card was dropped - the cards shown right above and below it
+export interface PipelinePlacement {
+  afterLeadId?: number | null;
+  beforeLeadId?: number | null;
+}
+
+// Gap between positions when a column is numbered again
+const POSITION_STEP = 1000;
+
+// Below this gap there is no room left between two cards - the column is numbered again
+const MIN_POSITION_GAP = 0.001;
+
+// Manual order first, cards never moved on top (newest first)
+const STAGE_ORDER = 'pipeline_position ASC NULLS FIRST, created_at DESC, id DESC';
+
+// Fields of a board card (without the row number the cards of a column are limited by)
+const CARD_COLUMNS = `id, name, phone, email, status, source, callback_date, callback_time,
+  potential_value, amount, product, assigned_to, client_id, tags, score, score_classification,
+  pipeline_position, created_at, updated_at`;
+
+// The column of a lead - same status within the same client
+const STAGE_CONDITION = 'status = $1 AND client_id IS NOT DISTINCT FROM $2';
+
+const renumberStage = async (db: TimelineQueryRunner, status: string, clientId: number | null) => {
+  await db.query(
+    `UPDATE leads SET pipeline_position = r.position
+     FROM (
+       SELECT id, ROW_NUMBER() OVER (ORDER BY ${STAGE_ORDER}) * ${POSITION_STEP} as position
+       FROM leads WHERE ${STAGE_CONDITION}
+     ) r
+     WHERE leads.id = r.id`,
+    [status, clientId]
+  );
+};
+
+const positionOf = async (db: TimelineQueryRunner, leadId: number | null | undefined, status: string, clientId: number | null) => {
+  if (!leadId) return null;
+  const result = await db.query(
+    `SELECT pipeline_position FROM leads WHERE id = $3 AND ${STAGE_CONDITION}`,
+    [status, clientId, leadId]
+  );
+  return result.rows[0]?.pipeline_position ?? null;
+};
+
+export class LeadPipelineModel {
+  // Get count and value sums of every status for the list filters
+  static async getStageTotals(filters: LeadFilters): Promise<PipelineStageTotals[]> {
+    const params: any[] = [];
+    const conditions = LeadModel.buildFilterConditions(filters, params);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await query(
+      `SELECT status, COUNT(*) as count,
+         COALESCE(SUM(potential_value), 0) as potential_value,
+         COALESCE(SUM(amount), 0) as amount
+       FROM leads ${whereClause}
+       GROUP BY status`,
+      params
+    );
+    return result.rows.map((row: any) => ({
+      status: row.status,
+      count: parseInt(row.count),
+      potential_value: parseFloat(row.potential_value),
+      amount: parseFloat(row.amount)
+    }));
+  }
+
+  // Get the first cards of every status in board order
+  static async findStageLeads(filters: LeadFilters, perStage: number): Promise<Lead[]> {
+    const params: any[] = [];
+    const conditions = LeadModel.buildFilterConditions(filters, params);
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await query(
+      `SELECT ${CARD_COLUMNS} FROM (
+         SELECT
+           id, name, phone, email, status, source, callback_date,
+           TO_CHAR(callback_time, 'HH24:MI') as callback_time,
+           potential_value, amount, product, assigned_to, client_id, tags, score, score_classification,
+           pipeline_position, created_at, updated_at,
+           ROW_NUMBER() OVER (PARTITION BY status ORDER BY ${STAGE_ORDER}) as stage_row
+         FROM leads ${whereClause}
+       ) stage_leads
+       WHERE stage_row <= $${params.length + 1}
+       ORDER BY status, stage_row`,
+      [...params, perStage]
+    );
+    return result.rows;
+  }
+
+  // Put a lead between the cards it was dropped between (the lead is already in its new status)
+  // Without neighbors the lead goes to the top of the column
+  static async place(lead: Pick<Lead, 'id' | 'status' | 'client_id'>, placement: PipelinePlacement): Promise<number> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      // One move at a time per column, so two drops cannot get the same position
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`pipeline:${lead.client_id}:${lead.status}`]);
+
+      const unordered = await client.query(
+        `SELECT 1 FROM leads WHERE ${STAGE_CONDITION} AND pipeline_position IS NULL AND id <> $3 LIMIT 1`,
+        [lead.status, lead.client_id, lead.id]
+      );
+      if (unordered.rows.length > 0) {
+        await renumberStage(client, lead.status, lead.client_id);
+      }
+
+      const findPosition = async () => {
+        const after = await positionOf(client, placement.afterLeadId, lead.status, lead.client_id);
+        const before = await positionOf(client, placement.beforeLeadId, lead.status, lead.client_id);
+        if (after !== null && before !== null) return { position: (after + before) / 2, gap: Math.abs(before - after) };
+        if (after !== null) return { position: after + POSITION_STEP, gap: POSITION_STEP };
+        if (before !== null) return { position: before - POSITION_STEP, gap: POSITION_STEP };
+
+        const top = await client.query(
+          `SELECT MIN(pipeline_position) as position FROM leads WHERE ${STAGE_CONDITION} AND id <> $3`,
+          [lead.status, lead.client_id, lead.id]
+        );
+        return { position: (top.rows[0].position ?? POSITION_STEP) - POSITION_STEP, gap: POSITION_STEP };
+      };
+
+      const found = await findPosition();
+      let position = found.position;
+      if (found.gap < MIN_POSITION_GAP) {
+        await renumberStage(client, lead.status, lead.client_id);
+        ({ position } = await findPosition());
+      }
+
+      await client.query('UPDATE leads SET pipeline_position = $1 WHERE id = $2', [position, lead.id]);
+
+      await client.query('COMMIT');
+      return position;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
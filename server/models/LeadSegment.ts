@@ -0,0 +1,90 @@
+import { query } from '../database/connection.js';
+
+export interface LeadSegment {
+  id: number;
+  client_id: number | null;
+  name: string;
+  description: string | null;
+  filters: Record<string, string>;
+  is_shared: boolean;
+  created_by: number | null;
+  created_by_name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateLeadSegmentData {
+  client_id?: number | null;
+  name: string;
+  description?: string | null;
+  filters: Record<string, string>;
+  is_shared?: boolean;
+  created_by: number;
+}
+
+export class LeadSegmentModel {
+  // Get the segments a user can use - shared segments of the client and their own
+  static async findVisible(clientId: number | null, userId: number): Promise<LeadSegment[]> {
+    const result = await query(
+      `SELECT s.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as created_by_name
+       FROM lead_segments s
+       LEFT JOIN users u ON u.id = s.created_by
+       WHERE s.client_id IS NOT DISTINCT FROM $1 AND (s.is_shared OR s.created_by = $2)
+       ORDER BY s.name`,
+      [clientId, userId]
+    );
+
+    return result.rows;
+  }
+
+  // Find segment by ID
+  static async findById(id: number): Promise<LeadSegment | null> {
+    const result = await query('SELECT * FROM lead_segments WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  // Create a segment
+  static async create(data: CreateLeadSegmentData): Promise<LeadSegment> {
+    const result = await query(
+      `INSERT INTO lead_segments (client_id, name, description, filters, is_shared, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [data.client_id ?? null, data.name, data.description || null, JSON.stringify(data.filters), data.is_shared || false, data.created_by]
+    );
+
+    return result.rows[0];
+  }
+
+  // Update a segment
+  static async update(
+    id: number,
+    updates: { name?: string; description?: string | null; filters?: Record<string, string>; is_shared?: boolean }
+  ): Promise<LeadSegment | null> {
+    const result = await query(
+      `UPDATE lead_segments
+       SET name = COALESCE($1, name),
+           description = CASE WHEN $2::boolean THEN $3 ELSE description END,
+           filters = COALESCE($4, filters),
+           is_shared = COALESCE($5, is_shared),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6
+       RETURNING *`,
+      [
+        updates.name ?? null,
+        updates.description !== undefined,
+        updates.description || null,
+        updates.filters ? JSON.stringify(updates.filters) : null,
+        updates.is_shared ?? null,
+        id
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Delete a segment
+  static async delete(id: number): Promise<boolean> {
+    const result = await query('DELETE FROM lead_segments WHERE id = $1', [id]);
+    return result.rowCount > 0;
+  }
+}
@@ -0,0 +1,149 @@
+import { query } from '../database/connection.js';
+
+// A new lead waiting for its SLA deadline
+export interface SlaCandidateLead {
+  id: number;
+  client_id: number;
+  source: string | null;
+  created_at: Date;
+}
+
+// A lead that missed its first-touch deadline
+export interface SlaBreachLead {
+  id: number;
+  client_id: number;
+  name: string;
+  phone: string | null;
+  assigned_to: number | null;
+  agent_name: string | null;
+  manager_id: number | null;
+  sla_rule: string | null;
+  sla_due_at: Date;
+  first_touch_at: Date | null;
+}
+
+export interface SlaStats {
+  tracked: number; // לידים עם מועד SLA
+  met: number; // טופלו בזמן
+  breached: number;
+  pending: number; // טרם טופלו והמועד עוד לא עבר
+  avgFirstTouchMinutes: number | null; // כל הלידים שטופלו, גם ללא כלל SLA
+  byAgent: Array<{ assigned_to: number; agent_name: string; tracked: number; breached: number; avg_first_touch_minutes: number | null }>;
+  recentBreaches: Array<{ id: number; name: string; agent_name: string | null; sla_rule: string | null; sla_due_at: Date; first_touch_at: Date | null }>;
+}
+
+export class LeadSlaModel {
+  // Get recent manually created/inbound leads of the clients that have no deadline yet (imports are not tracked)
+  static async findCandidates(clientIds: number[], createdSince: Date): Promise<SlaCandidateLead[]> {
+    if (clientIds.length === 0) return [];
+
+    const result = await query(
+      `SELECT id, client_id, source, created_at
+       FROM leads
+       WHERE client_id = ANY($1::int[])
+         AND created_at >= $2
+         AND sla_due_at IS NULL
+         AND import_job_id IS NULL
+       ORDER BY id`,
+      [clientIds, createdSince]
+    );
+
+    return result.rows;
+  }
+
+  // Set the deadline of a lead
+  static async setDue(id: number, ruleName: string, dueAt: Date): Promise<void> {
+    await query(
+      'UPDATE leads SET sla_rule = $2, sla_due_at = $3 WHERE id = $1 AND sla_due_at IS NULL',
+      [id, ruleName, dueAt]
+    );
+  }
+
+  // Get leads of the clients whose deadline passed without a first touch (or with a late one)
+  // The open-lead condition matches idx_leads_sla_open
+  static async findBreaches(clientIds: number[]): Promise<SlaBreachLead[]> {
+    if (clientIds.length === 0) return [];
+
+    const result = await query(
+      `SELECT l.id, l.client_id, l.name, l.phone, l.assigned_to, l.sla_rule, l.sla_due_at, l.first_touch_at,
+              NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as agent_name, u.manager_id
+       FROM leads l
+       LEFT JOIN users u ON u.id = l.assigned_to
+       WHERE l.client_id = ANY($1::int[])
+         AND l.sla_due_at <= CURRENT_TIMESTAMP
+         AND l.sla_breached_at IS NULL AND (l.first_touch_at IS NULL OR l.first_touch_at > l.sla_due_at)
+       ORDER BY l.sla_due_at`,
+      [clientIds]
+    );
+
+    return result.rows;
+  }
+
+  // Mark a breach - returns false if another run already marked it
+  static async markBreached(id: number): Promise<boolean> {
+    const result = await query(
+      'UPDATE leads SET sla_breached_at = CURRENT_TIMESTAMP WHERE id = $1 AND sla_breached_at IS NULL RETURNING id',
+      [id]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  // SLA figures of leads created since a date - whereClause scopes the leads (e.g. "WHERE assigned_to = $1")
+  static async getStats(whereClause: string, params: any[], createdSince: Date): Promise<SlaStats> {
+    const scoped = `SELECT * FROM leads ${whereClause} ${whereClause ? 'AND' : 'WHERE'} created_at >= $${params.length + 1}`;
+    const scopedParams = [...params, createdSince];
+
+    const summaryResult = await query(
+      `SELECT
+         COUNT(*) FILTER (WHERE sla_due_at IS NOT NULL) as tracked,
+         COUNT(*) FILTER (WHERE first_touch_at IS NOT NULL AND first_touch_at <= sla_due_at) as met,
+         COUNT(*) FILTER (WHERE sla_breached_at IS NOT NULL) as breached,
+         COUNT(*) FILTER (WHERE first_touch_at IS NULL AND sla_due_at > CURRENT_TIMESTAMP) as pending,
+         ROUND(AVG(EXTRACT(EPOCH FROM (first_touch_at - created_at)) / 60) FILTER (WHERE first_touch_at IS NOT NULL), 1) as avg_minutes
+       FROM (${scoped}) l`,
+      scopedParams
+    );
+
+    const byAgentResult = await query(
+      `SELECT l.assigned_to, CONCAT(u.first_name, ' ', u.last_name) as agent_name,
+         COUNT(*) FILTER (WHERE l.sla_due_at IS NOT NULL) as tracked,
+         COUNT(*) FILTER (WHERE l.sla_breached_at IS NOT NULL) as breached,
+         ROUND(AVG(EXTRACT(EPOCH FROM (l.first_touch_at - l.created_at)) / 60) FILTER (WHERE l.first_touch_at IS NOT NULL), 1) as avg_first_touch_minutes
+       FROM (${scoped}) l
+       JOIN users u ON u.id = l.assigned_to
+       GROUP BY l.assigned_to, u.first_name, u.last_name
+       HAVING COUNT(*) FILTER (WHERE l.sla_due_at IS NOT NULL) > 0
+       ORDER BY breached DESC, tracked DESC`,
+      scopedParams
+    );
+
+    const recentResult = await query(
+      `SELECT l.id, l.name, l.sla_rule, l.sla_due_at, l.first_touch_at,
+              NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as agent_name
+       FROM (${scoped}) l
+       LEFT JOIN users u ON u.id = l.assigned_to
+       WHERE l.sla_breached_at IS NOT NULL
+       ORDER BY l.sla_breached_at DESC
+       LIMIT 10`,
+      scopedParams
+    );
+
+    const summary = summaryResult.rows[0];
+    return {
+      tracked: parseInt(summary.tracked),
+      met: parseInt(summary.met),
+      breached: parseInt(summary.breached),
+      pending: parseInt(summary.pending),
+      avgFirstTouchMinutes: summary.avg_minutes !== null ? parseFloat(summary.avg_minutes) : null,
+      byAgent: byAgentResult.rows.map((row: any) => ({
+        assigned_to: row.assigned_to,
+        agent_name: row.agent_name,
+        tracked: parseInt(row.tracked),
+        breached: parseInt(row.breached),
+        avg_first_touch_minutes: row.avg_first_touch_minutes !== null ? parseFloat(row.avg_first_touch_minutes) : null
+      })),
+      recentBreaches: recentResult.rows
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PoolClient } from 'pg';
+import pool from '../database/connection.js';
+import { LeadModel, Lead } from './Lead.js';
+import { LeadStatusApprovalModel } from './LeadStatusApproval.js';
+
+const pending = { id: 3, lead_id: 1, client_id: 10, requested_by: 6, from_status: 'חדש', to_status: 'נסגר', status: 'pending' };
+const lead = { id: 1, client_id: 10, status: 'חדש' } as Lead;
+
+// Stands in for a pooled connection - answers by statement and records what ran
+class FakeClient {
+  statements: Array<{ sql: string; params: unknown[] }> = [];
+  released = false;
+
+  async query(sql: string, params: unknown[] = []) {
+    this.statements.push({ sql, params });
+    if (sql.includes('UPDATE lead_status_approvals')) return { rows: [{ ...pending, status: params[0] }] };
+    if (sql.includes('INSERT INTO lead_status_approvals')) return { rows: [pending] };
+    if (sql.includes('SELECT * FROM leads')) return { rows: [lead] };
+    if (sql.includes('UPDATE leads')) return { rows: [{ ...lead, status: params[1] }] };
+    return { rows: [] };
+  }
+
+  release() {
+    this.released = true;
+  }
+
+  timelineEntries() {
+    return this.statements.filter(({ sql }) => sql.includes('INSERT INTO lead_timeline'));
+  }
+}
+
+const useClient = (client: FakeClient) => {
+  mock.method(pool, 'connect', async () => client as unknown as PoolClient);
+};
+
+describe('LeadStatusApprovalModel', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('replaces the pending request of the lead in the transaction that creates the new one', async () => {
+    const client = new FakeClient();
+    useClient(client);
+
+    await LeadStatusApprovalModel.create({ lead_id: 1, requested_by: 6, from_status: 'חדש', to_status: 'נסגר' });
+
+    assert.deepEqual(client.statements.map(({ sql }) => sql.trim().split(/\s/)[0]), ['BEGIN', 'UPDATE', 'INSERT', 'COMMIT']);
+    assert.equal(client.released, true);
+  });
+
+  it('records an approved change as one status entry carrying the approval', async () => {
+    const client = new FakeClient();
+    useClient(client);
+    mock.method(LeadModel, 'saveScore', async (saved: Lead) => saved);
+
+    const review = await LeadStatusApprovalModel.review(3, 'approved', 4, undefined, 'חדש');
+
+    assert.equal(review?.lead.status, 'נסגר');
+    const entries = client.timelineEntries();
+    assert.equal(entries.length, 1);
+    const [, , type, , actor, before, after, metadata] = entries[0].params;
+    assert.equal(type, 'status');
+    assert.equal(actor, 4);
+    assert.deepEqual(JSON.parse(before as string), { status: 'חדש' });
+    assert.deepEqual(JSON.parse(after as string), { status: 'נסגר' });
+    assert.deepEqual(JSON.parse(metadata as string), { approval_id: 3, decision: 'approved', requested_by: 6 });
+  });
+
+  it('leaves the lead alone when it changed status since the request was checked', async () => {
+    const client = new FakeClient();
+    useClient(client);
+
+    assert.equal(await LeadStatusApprovalModel.review(3, 'approved', 4, undefined, 'בטיפול'), null);
+    assert.equal(client.statements.some(({ sql }) => sql.includes('UPDATE leads')), false);
+    assert.equal(client.statements.some(({ sql }) => sql.includes('ROLLBACK')), true);
+    assert.equal(client.released, true);
+  });
+});
@@ -0,0 +1,163 @@
+import { query, getClient } from '../database/connection.js';
+import { Lead, LeadModel } from './Lead.js';
+import { LeadTimelineModel } from './LeadTimeline.js';
+import { LeadChangeEntry } from '../services/leadTimeline.js';
+
+export interface LeadStatusApproval {
+  id: number;
+  lead_id: number;
+  client_id: number | null;
+  requested_by: number | null;
+  from_status: string | null;
+  to_status: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewed_by: number | null;
+  reviewed_at: Date | null;
+  review_note: string | null;
+  created_at: Date;
+  lead_name?: string;
+  requested_by_name?: string;
+}
+
+export interface CreateLeadStatusApprovalData {
+  lead_id: number;
+  client_id?: number | null;
+  requested_by: number;
+  from_status?: string | null;
+  to_status: string;
+}
+
+export interface LeadStatusReview {
+  approval: LeadStatusApproval;
+  lead: Lead;
+}
+
+export class LeadStatusApprovalModel {
+  // Create a pending approval request (replaces an older pending request for the same lead, in one transaction)
+  static async create(data: CreateLeadStatusApprovalData): Promise<LeadStatusApproval> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `UPDATE lead_status_approvals SET status = 'rejected', reviewed_at = CURRENT_TIMESTAMP, review_note = 'Replaced by a newer request'
+         WHERE lead_id = $1 AND status = 'pending'`,
+        [data.lead_id]
+      );
+
+      const result = await client.query(
+        `INSERT INTO lead_status_approvals (lead_id, client_id, requested_by, from_status, to_status)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [data.lead_id, data.client_id || null, data.requested_by, data.from_status || null, data.to_status]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Find approval by ID
+  static async findById(id: number): Promise<LeadStatusApproval | null> {
+    const result = await query(
+      'SELECT * FROM lead_status_approvals WHERE id = $1',
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Get pending approvals (optionally only for leads assigned to the given users)
+  static async findPending(assignedToIds?: number[]): Promise<LeadStatusApproval[]> {
+    const params: any[] = [];
+    let scopeCondition = '';
+
+    if (assignedToIds) {
+      params.push(assignedToIds);
+      scopeCondition = 'AND l.assigned_to = ANY($1::int[])';
+    }
+
+    const result = await query(
+      `SELECT a.*, l.name as lead_name, CONCAT(u.first_name, ' ', u.last_name) as requested_by_name
+       FROM lead_status_approvals a
+       JOIN leads l ON l.id = a.lead_id
+       LEFT JOIN users u ON u.id = a.requested_by
+       WHERE a.status = 'pending' ${scopeCondition}
+       ORDER BY a.created_at ASC`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  // Approve or reject a pending request in one transaction with its timeline entry (and the lead's new status when approved)
+  // Returns null when the request was already reviewed, or the lead left expectedStatus since it was checked
+  static async review(
+    id: number,
+    decision: 'approved' | 'rejected',
+    reviewedBy: number,
+    note: string | undefined,
+    expectedStatus: string
+  ): Promise<LeadStatusReview | null> {
+    const client = await getClient();
+    let approval: LeadStatusApproval;
+    let lead: Lead;
+    try {
+      await client.query('BEGIN');
+
+      const reviewed = await client.query(
+        `UPDATE lead_status_approvals
+         SET status = $1, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, review_note = $3
+         WHERE id = $4 AND status = 'pending'
+         RETURNING *`,
+        [decision, reviewedBy, note || null, id]
+      );
+      approval = reviewed.rows[0];
+      const leadResult = approval
+        ? await client.query('SELECT * FROM leads WHERE id = $1 FOR UPDATE', [approval.lead_id])
+        : null;
+      const before: Lead | undefined = leadResult?.rows[0];
+      if (!approval || !before || before.status !== expectedStatus) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      lead = before;
+      if (decision === 'approved') {
+        const updated = await client.query(
+          `UPDATE leads SET status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+          [before.id, approval.to_status]
+        );
+        lead = updated.rows[0];
+      }
+
+      // One entry with the reviewer as actor - the status change itself when approved
+      const entry: LeadChangeEntry = {
+        type: 'status',
+        description: decision === 'approved'
+          ? `סטטוס שונה מ"${before.status}" ל"${lead.status}" (שינוי שאושר)`
+          : `שינוי סטטוס ל"${approval.to_status}" נדחה${note ? ` - ${note}` : ''}`,
+        before_values: { status: decision === 'approved' ? before.status || null : approval.from_status || null },
+        after_values: { status: lead.status },
+        metadata: { approval_id: approval.id, decision, requested_by: approval.requested_by, note: note || undefined }
+      };
+
+      await LeadTimelineModel.append([{ ...entry, lead_id: lead.id, client_id: lead.client_id, actor_id: reviewedBy }], client);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Status changed - recompute the stored score
+    return { approval, lead: decision === 'approved' ? await LeadModel.saveScore(lead) : lead };
+  }
+}
@@ -0,0 +1,130 @@
+import { query, getClient } from '../database/connection.js';
+
+export interface LeadTag {
+  id: number;
+  client_id: number | null;
+  name: string;
+  color: string;
+  created_by: number | null;
+  created_at: Date;
+  lead_count?: number;
+}
+
+export interface CreateLeadTagData {
+  client_id?: number | null;
+  name: string;
+  color?: string;
+  created_by?: number | null;
+}
+
+export class LeadTagModel {
+  // Get the tag vocabulary of a client, with the number of tagged leads
+  static async findByClient(clientId: number | null): Promise<LeadTag[]> {
+    const result = await query(
+      `SELECT t.*,
+              (SELECT COUNT(*) FROM leads l
+               WHERE l.client_id IS NOT DISTINCT FROM t.client_id AND t.name = ANY(l.tags))::int as lead_count
+       FROM lead_tags t
+       WHERE t.client_id IS NOT DISTINCT FROM $1
+       ORDER BY t.name`,
+      [clientId]
+    );
+
+    return result.rows;
+  }
+
+  // Find tag by ID
+  static async findById(id: number): Promise<LeadTag | null> {
+    const result = await query('SELECT * FROM lead_tags WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  // Get the names of the client's tags
+  static async getNames(clientId: number | null): Promise<string[]> {
+    const result = await query(
+      'SELECT name FROM lead_tags WHERE client_id IS NOT DISTINCT FROM $1',
+      [clientId]
+    );
+
+    return result.rows.map((row: any) => row.name);
+  }
+
+  // Create a tag
+  static async create(data: CreateLeadTagData): Promise<LeadTag> {
+    const result = await query(
+      `INSERT INTO lead_tags (client_id, name, color, created_by)
+       VALUES ($1, $2, COALESCE($3, '#6b7280'), $4)
+       RETURNING *`,
+      [data.client_id ?? null, data.name, data.color || null, data.created_by ?? null]
+    );
+
+    return result.rows[0];
+  }
+
+  // Rename or recolor a tag - a rename is applied to the client's tagged leads as well
+  static async update(id: number, updates: { name?: string; color?: string }): Promise<LeadTag | null> {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query('SELECT * FROM lead_tags WHERE id = $1 FOR UPDATE', [id]);
+      const tag: LeadTag | undefined = existing.rows[0];
+      if (!tag) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const result = await client.query(
+        `UPDATE lead_tags SET name = COALESCE($1, name), color = COALESCE($2, color)
+         WHERE id = $3
+         RETURNING *`,
+        [updates.name ?? null, updates.color ?? null, id]
+      );
+
+      if (updates.name && updates.name !== tag.name) {
+        await client.query(
+          `UPDATE leads SET tags = array_replace(tags, $1, $2)
+           WHERE client_id IS NOT DISTINCT FROM $3 AND $1 = ANY(tags)`,
+          [tag.name, updates.name, tag.client_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Delete a tag and remove it from the client's leads
+  static async delete(id: number): Promise<boolean> {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query('DELETE FROM lead_tags WHERE id = $1 RETURNING *', [id]);
+      const tag: LeadTag | undefined = result.rows[0];
+
+      if (tag) {
+        await client.query(
+          `UPDATE leads SET tags = array_remove(tags, $1)
+           WHERE client_id IS NOT DISTINCT FROM $2 AND $1 = ANY(tags)`,
+          [tag.name, tag.client_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return !!tag;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
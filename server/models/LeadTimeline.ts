@@ -0,0 +1,170 @@
+import { query } from '../database/connection.js';
+
+export type LeadTimelineType = 'status' | 'note' | 'callback' | 'task' | 'edit' | 'message' | 'call';
+
+export const LEAD_TIMELINE_TYPES: LeadTimelineType[] = ['status', 'note', 'callback', 'task', 'edit', 'message', 'call'];
+
+export interface LeadTimelineEntry {
+  id: number;
+  lead_id: number;
+  client_id: number | null;
+  type: LeadTimelineType;
+  description: string;
+  actor_id: number | null;
+  actor_name?: string | null;
+  before_values: Record<string, any> | null;
+  after_values: Record<string, any> | null;
+  metadata: Record<string, any>;
+  created_at: Date;
+}
+
+export interface CreateLeadTimelineEntryData {
+  lead_id: number;
+  client_id?: number | null;
+  type: LeadTimelineType;
+  description: string;
+  actor_id?: number | null;
+  before_values?: Record<string, any> | null;
+  after_values?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+// The pool or a transaction client (entries written together with the lead change)
+export interface TimelineQueryRunner {
+  query: (text: string, params?: any[]) => Promise<any>;
+}
+
+const pool: TimelineQueryRunner = { query };
+
+// Rows per INSERT (8 parameters each - imports can append thousands of entries)
+const APPEND_BATCH_SIZE = 500;
+
+export class LeadTimelineModel {
+  // Append entries - rows are never updated (see prevent_lead_timeline_changes in schema.sql)
+  static async append(entries: CreateLeadTimelineEntryData[], db: TimelineQueryRunner = pool): Promise<LeadTimelineEntry[]> {
+    if (entries.length === 0) return [];
+
+    if (entries.length > APPEND_BATCH_SIZE) {
+      const appended: LeadTimelineEntry[] = [];
+      for (let start = 0; start < entries.length; start += APPEND_BATCH_SIZE) {
+        appended.push(...await this.append(entries.slice(start, start + APPEND_BATCH_SIZE), db));
+      }
+      return appended;
+    }
+
+    const params: any[] = [];
+    const rows = entries.map(entry => {
+      params.push(
+        entry.lead_id,
+        entry.client_id ?? null,
+        entry.type,
+        entry.description,
+        entry.actor_id ?? null,
+        entry.before_values ? JSON.stringify(entry.before_values) : null,
+        entry.after_values ? JSON.stringify(entry.after_values) : null,
+        JSON.stringify(entry.metadata || {})
+      );
+      const offset = params.length - 8;
+      return `(${Array.from({ length: 8 }, (_, index) => `$${offset + index + 1}`).join(', ')})`;
+    });
+
+    const result = await db.query(
+      `INSERT INTO lead_timeline (lead_id, client_id, type, description, actor_id, before_values, after_values, metadata)
+       VALUES ${rows.join(', ')}
+       RETURNING *`,
+      params
+    );
+
+    return result.rows;
+  }
+
+  // Get the timeline of a lead, newest first
+  static async findByLeadId(
+    leadId: number,
+    options: { types?: LeadTimelineType[]; limit?: number; offset?: number } = {}
+  ): Promise<{ entries: LeadTimelineEntry[]; total: number }> {
+    const params: any[] = [leadId];
+    let typeCondition = '';
+    if (options.types?.length) {
+      params.push(options.types);
+      typeCondition = `AND t.type = ANY($${params.length}::text[])`;
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM lead_timeline t WHERE t.lead_id = $1 ${typeCondition}`,
+      params
+    );
+
+    params.push(options.limit ?? 100, options.offset || 0);
+    const result = await query(
+      `SELECT t.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as actor_name
+       FROM lead_timeline t
+       LEFT JOIN users u ON u.id = t.actor_id
+       WHERE t.lead_id = $1 ${typeCondition}
+       ORDER BY t.created_at DESC, t.id DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    return { entries: result.rows, total: parseInt(countResult.rows[0].total) };
+  }
+
+  // Get the latest entry of each lead (export "last action" column)
+  static async findLatestByLeadIds(leadIds: number[]): Promise<Map<number, LeadTimelineEntry>> {
+    if (leadIds.length === 0) return new Map();
+
+    const result = await query(
+      `SELECT DISTINCT ON (lead_id) *
+       FROM lead_timeline
+       WHERE lead_id = ANY($1::int[])
+       ORDER BY lead_id, created_at DESC, id DESC`,
+      [leadIds]
+    );
+
+    return new Map(result.rows.map((entry: LeadTimelineEntry) => [entry.lead_id, entry]));
+  }
+
+  // Get entry types and times of a lead - the activity part of the lead score
+  static async getScoringHistory(leadId: number, db: TimelineQueryRunner = pool): Promise<Array<{ type: string; createdAt: string }>> {
+    const result = await db.query(
+      `SELECT type, created_at FROM lead_timeline WHERE lead_id = $1 ORDER BY created_at DESC`,
+      [leadId]
+    );
+
+    return result.rows.map((row: any) => ({ type: row.type, createdAt: new Date(row.created_at).toISOString() }));
+  }
+
+  // Copy the legacy history of a lead (leads.history) to another lead's timeline - entries already
+  // moved to the timeline by the one-time migration (schema.sql, metadata.legacy_id) are skipped
+  static async copyLegacyHistory(fromLeadId: number, toLeadId: number, db: TimelineQueryRunner = pool): Promise<void> {
+    await db.query(
+      `INSERT INTO lead_timeline (lead_id, client_id, type, description, metadata, created_at)
+       SELECT
+         t.id,
+         t.client_id,
+         CASE WHEN entry->>'type' = ANY($3::text[]) THEN entry->>'type' ELSE 'edit' END,
+         COALESCE(NULLIF(entry->>'description', ''), 'פעולה מההיסטוריה הקודמת'),
+         COALESCE(entry->'metadata', '{}'::jsonb) || jsonb_build_object('legacy_id', entry->>'id', 'mergedLeadId', l.id),
+         CASE WHEN entry->>'createdAt' ~ '^\\d{4}-\\d{2}-\\d{2}T' THEN (entry->>'createdAt')::timestamptz ELSE l.created_at END
+       FROM leads l
+       JOIN leads t ON t.id = $2
+       CROSS JOIN LATERAL jsonb_array_elements(l.history) AS entry
+       WHERE l.id = $1
+         AND jsonb_typeof(l.history) = 'array'
+         AND jsonb_typeof(entry) = 'object'
+         AND NOT EXISTS (
+           SELECT 1 FROM lead_timeline m
+           WHERE m.lead_id = l.id AND m.metadata ? 'legacy_id' AND m.metadata->>'legacy_id' IS NOT DISTINCT FROM entry->>'id'
+         )`,
+      [fromLeadId, toLeadId, LEAD_TIMELINE_TYPES]
+    );
+  }
+
+  // Move the entries of a merged lead to the lead it was merged into
+  static async moveToLead(fromLeadId: number, toLeadId: number, db: TimelineQueryRunner = pool): Promise<void> {
+    await db.query(
+      'UPDATE lead_timeline SET lead_id = $1 WHERE lead_id = $2',
+      [toLeadId, fromLeadId]
+    );
+  }
+}
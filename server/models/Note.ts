@@ -0,0 +1,194 @@
+import { query, getClient } from '../database/connection.js';
+import { LeadTimelineModel } from './LeadTimeline.js';
+
+export type NoteParentType = 'lead' | 'customer';
+
+export interface Note {
+  id: number;
+  client_id: number | null;
+  parent_type: NoteParentType;
+  lead_id: number | null;
+  customer_id: number | null;
+  reply_to_id: number | null;
+  body: string;
+  mentions: number[];
+  author_id: number | null;
+  author_name?: string | null;
+  created_at: Date;
+  edited_at: Date | null;
+}
+
+export interface CreateNoteData {
+  client_id: number | null;
+  parent_type: NoteParentType;
+  parent_id: number;
+  reply_to_id: number | null;
+  body: string;
+  mentions: number[];
+  author_id: number;
+}
+
+export interface MentionableUser {
+  id: number;
+  name: string;
+}
+
+// Column holding the parent of each parent type
+const PARENT_COLUMNS: Record<NoteParentType, string> = {
+  lead: 'lead_id',
+  customer: 'customer_id'
+};
+
+// Note text kept in a timeline entry
+const TIMELINE_BODY_LENGTH = 500;
+
+const NOTE_SELECT = `SELECT n.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') as author_name
+  FROM notes n
+  LEFT JOIN users u ON u.id = n.author_id`;
+
+export class NoteModel {
+  // Get the notes of a record, oldest first (threads are built by the service)
+  static async findByParent(parentType: NoteParentType, parentId: number): Promise<Note[]> {
+    const result = await query(
+      `${NOTE_SELECT}
+       WHERE n.${PARENT_COLUMNS[parentType]} = $1
+       ORDER BY n.created_at ASC, n.id ASC`,
+      [parentId]
+    );
+
+    return result.rows;
+  }
+
+  // Find a note of a record
+  static async findForParent(id: number, parentType: NoteParentType, parentId: number): Promise<Note | null> {
+    const result = await query(
+      `${NOTE_SELECT}
+       WHERE n.id = $1 AND n.${PARENT_COLUMNS[parentType]} = $2`,
+      [id, parentId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  // Get the active users of a client that can be mentioned
+  static async findMentionable(clientId: number | null): Promise<MentionableUser[]> {
+    const result = await query(
+      `SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) as name
+       FROM users
+       WHERE client_id IS NOT DISTINCT FROM $1 AND is_active = true AND deleted_at IS NULL
+         AND TRIM(CONCAT(first_name, ' ', last_name)) <> ''
+       ORDER BY first_name, last_name`,
+      [clientId]
+    );
+
+    return result.rows;
+  }
+
+  // Create a note - a note on a lead is added to the lead timeline in the same transaction
+  static async create(data: CreateNoteData): Promise<Note> {
+    const client = await getClient();
+    let id: number;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO notes (client_id, parent_type, ${PARENT_COLUMNS[data.parent_type]}, reply_to_id, body, mentions, author_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [data.client_id, data.parent_type, data.parent_id, data.reply_to_id, data.body, data.mentions, data.author_id]
+      );
+      id = result.rows[0].id;
+
+      if (data.parent_type === 'lead') {
+        await LeadTimelineModel.append([{
+          lead_id: data.parent_id,
+          client_id: data.client_id,
+          type: 'note',
+          description: data.reply_to_id ? 'נוספה תגובה להערה' : 'נוספה הערה',
+          actor_id: data.author_id,
+          after_values: { body: data.body.slice(0, TIMELINE_BODY_LENGTH) },
+          metadata: { note_id: id, reply_to_id: data.reply_to_id, mentions: data.mentions }
+        }], client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.findForParent(id, data.parent_type, data.parent_id))!;
+  }
+
+  // Replace the body of a note - the edit is added to the lead timeline with the text before and after
+  static async update(note: Note, body: string, mentions: number[], actorId: number): Promise<Note> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        'UPDATE notes SET body = $1, mentions = $2, edited_at = CURRENT_TIMESTAMP WHERE id = $3',
+        [body, mentions, note.id]
+      );
+
+      if (note.lead_id) {
+        await LeadTimelineModel.append([{
+          lead_id: note.lead_id,
+          client_id: note.client_id,
+          type: 'note',
+          description: 'הערה נערכה',
+          actor_id: actorId,
+          before_values: { body: note.body.slice(0, TIMELINE_BODY_LENGTH) },
+          after_values: { body: body.slice(0, TIMELINE_BODY_LENGTH) },
+          metadata: { note_id: note.id, reply_to_id: note.reply_to_id, mentions }
+        }], client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.findForParent(note.id, note.parent_type, (note.lead_id ?? note.customer_id)!))!;
+  }
+
+  // Check whether a note has replies
+  static async hasReplies(id: number): Promise<boolean> {
+    const result = await query('SELECT 1 FROM notes WHERE reply_to_id = $1 LIMIT 1', [id]);
+    return result.rows.length > 0;
+  }
+
+  // Delete a note - the timeline keeps its entries and gets one for the deletion
+  static async delete(note: Note, actorId: number): Promise<void> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      await client.query('DELETE FROM notes WHERE id = $1', [note.id]);
+
+      if (note.lead_id) {
+        await LeadTimelineModel.append([{
+          lead_id: note.lead_id,
+          client_id: note.client_id,
+          type: 'note',
+          description: 'הערה נמחקה',
+          actor_id: actorId,
+          before_values: { body: note.body.slice(0, TIMELINE_BODY_LENGTH) },
+          metadata: { note_id: note.id, reply_to_id: note.reply_to_id }
+        }], client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { query } from '../database/connection.js';
 
 export interface LeadStatus {
@@ -7,6 +8,10 @@ export interface LeadStatus {
   order: number;
   isDefault: boolean;
   isFinal: boolean;
+  description?: string;
+  allowedTransitions?: string[]; // מזהי סטטוסים שמותר לעבור אליהם
+  requiresApproval?: boolean; // מעבר לסטטוס דורש אישור מנהל
+  isConversion?: boolean; // הסטטוס שליד מקבל כשהוא הופך ללקוח
 }
 
 export interface TaskStatus {
@@ -30,9 +35,94 @@ export interface PaymentStatus {
   order: number;
 }
 
+export interface AutoAssignRule {
+  field: string; // 'source' או 'custom_fields.<key>'
+  value: string;
+  agentIds?: number[]; // נציגים שמקבלים לידים לפי הכלל (ברירת מחדל - כל הצוות)
+  strategy?: 'round_robin' | 'least_open';
+}
+
+export interface AutoAssignSettings {
+  strategy?: 'round_robin' | 'least_open';
+  rules?: AutoAssignRule[];
+  requireClockedIn?: boolean; // לדלג על נציגים שלא החתימו כניסה (ברירת מחדל - כן)
+}
+
+export interface LeadSlaRule {
+  id: string;
+  name: string; // לדוגמה "מגע ראשון תוך 15 דקות"
+  firstTouchMinutes: number;
+  businessHoursOnly?: boolean; // לספור רק דקות בשעות הפעילות (ברירת מחדל - כן)
+  sources?: string[]; // מקורות הלידים שהכלל חל עליהם (ברירת מחדל - כל הלידים)
+}
+
+export interface BusinessHours {
+  days: number[]; // 0 = ראשון ... 6 = שבת
+  start: string; // 'HH:MM' שעון ישראל
+  end: string;
+}
+
+export interface LeadSlaSettings {
+  enabled?: boolean;
+  rules?: LeadSlaRule[]; // הכלל הראשון שמתאים לליד חל עליו
+  businessHours?: BusinessHours;
+  notifyManager?: boolean; // התראה למנהל של הנציג בחריגה (ברירת מחדל - כן)
+}
+
+export interface DoNotContactSettings {
+  removalStatuses?: string[]; // סטטוסים שמכניסים את הליד לרשימת "אל תפנה" (ברירת מחדל - "הסרה מהמאגר")
+}
+
+// Time-based status change rule (mirrors AutoStatusChange in src/types/client.ts)
+export interface AutoStatusChangeRule {
+  id: string;
+  name: string;
+  fromStatus: string; // שם או מזהה סטטוס
+  toStatus: string;
+  conditions: {
+    timeElapsed?: number; // שעות בסטטוס הנוכחי
+    noActivity?: number; // שעות ללא פעילות בציר הזמן
+    fieldValue?: { field: string; value: any }; // 'source' או 'custom_fields.<key>'
+  };
+  enabled: boolean;
+}
+
+export interface ClientSettings {
+  duplicateLeadPolicy?: 'warn' | 'skip' | 'attach'; // טיפול בלידים כפולים ביצירה ובייבוא
+  autoAssignLeads?: boolean; // שיוך אוטומטי של לידים חדשים לנציגים
+  autoAssign?: AutoAssignSettings;
+  sla?: LeadSlaSettings; // זמני מענה ללידים חדשים
+  dnc?: DoNotContactSettings; // רשימת "אל תפנה"
+  [key: string]: any;
+}
+
 // כל המידע נשמר בטבלת system_clients עצמה בשדות JSONB
 // אין צורך ב-interfaces נפרדים
 
+// Tenant-defined field on leads/customers (mirrors CustomField in src/types/client.ts)
+export interface CustomFieldDefinition {
+  id: string; // key in custom_fields
+  name: string;
+  type: 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'boolean' | 'email' | 'phone' | 'url';
+  required: boolean;
+  options?: string[];
+  defaultValue?: any;
+  validation?: {
+    min?: number;
+    max?: number;
+    pattern?: string;
+    message?: string;
+  };
+  showInList?: boolean;
+  showInForm?: boolean;
+  category?: string;
+}
+
+export interface CustomFieldSchemas {
+  leads?: CustomFieldDefinition[];
+  customers?: CustomFieldDefinition[];
+}
+
 export interface SystemClient {
   id: number;
   name: string;
@@ -46,6 +136,9 @@ export interface SystemClient {
   payment_statuses?: PaymentStatus[];
   features?: Record<string, any>;
   message_templates?: any[]; // תבניות הודעות (ווצאפ/אמייל/סמס)
+  settings?: ClientSettings;
+  custom_fields?: CustomFieldSchemas;
+  auto_status_changes?: AutoStatusChangeRule[];
   created_at: Date;
   updated_at: Date;
 }
@@ -61,6 +154,8 @@ export interface CreateSystemClientData {
   payment_statuses?: PaymentStatus[];
   features?: Record<string, any>;
   message_templates?: any[];
+  custom_fields?: CustomFieldSchemas;
+  auto_status_changes?: AutoStatusChangeRule[];
 }
 
 export class SystemClientModel {
@@ -76,14 +171,16 @@ export class SystemClientModel {
       customer_statuses = [],
       payment_statuses = [],
       features = {},
-      message_templates = []
+      message_templates = [],
+      custom_fields = {},
+      auto_status_changes = []
     } = clientData;
     
     const result = await query(
-      `INSERT INTO system_clients (name, company_name, primary_color, secondary_color, logo_url, lead_statuses, customer_statuses, payment_statuses, features, message_templates)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `INSERT INTO system_clients (name, company_name, primary_color, secondary_color, logo_url, lead_statuses, customer_statuses, payment_statuses, features, message_templates, custom_fields, auto_status_changes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        RETURNING *`,
-      [name, company_name, primary_color, secondary_color, logo_url, JSON.stringify(lead_statuses), JSON.stringify(customer_statuses), JSON.stringify(payment_statuses), JSON.stringify(features), JSON.stringify(message_templates)]
+      [name, company_name, primary_color, secondary_color, logo_url, JSON.stringify(lead_statuses), JSON.stringify(customer_statuses), JSON.stringify(payment_statuses), JSON.stringify(features), JSON.stringify(message_templates), JSON.stringify(custom_fields), JSON.stringify(auto_status_changes)]
     );
     
     return result.rows[0];
@@ -111,7 +208,10 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {},
+      auto_status_changes: client.auto_status_changes || []
     };
   }
 
@@ -134,7 +234,8 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {}
     }));
   }
 
@@ -156,7 +257,8 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {}
     }));
   }
 
@@ -171,7 +273,7 @@ export class SystemClientModel {
 
       for (const key of Object.keys(updates)) {
         if (key !== 'id' && updates[key as keyof SystemClient] !== undefined) {
-        if (key.includes('_statuses') || key === 'features' || key === 'message_templates') {
+        if (key.includes('_statuses') || key === 'features' || key === 'message_templates' || key === 'settings' || key === 'custom_fields' || key === 'auto_status_changes') {
           // JSON fields
           fields.push(`${key} = $${paramCount}`);
           try {
@@ -216,7 +318,10 @@ export class SystemClientModel {
         customer_statuses: client.customer_statuses || [],
         payment_statuses: client.payment_statuses || [],
         features: client.features || {},
-        message_templates: client.message_templates || []
+        message_templates: client.message_templates || [],
+        settings: client.settings || {},
+        custom_fields: client.custom_fields || {},
+        auto_status_changes: client.auto_status_changes || []
       };
     } catch (error) {
       console.error('Error in SystemClientModel.update:', error);
@@ -250,7 +355,9 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
     };
   }
 
@@ -270,7 +377,9 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
     };
   }
 
@@ -281,9 +390,11 @@ export class SystemClientModel {
     payment_statuses: PaymentStatus[];
     features: Record<string, any>;
     message_templates: any[];
+    settings: ClientSettings;
+    custom_fields: CustomFieldSchemas;
   } | null> {
     const result = await query(
-      'SELECT lead_statuses, customer_statuses, payment_statuses, features, message_templates FROM system_clients WHERE id = $1',
+      'SELECT lead_statuses, customer_statuses, payment_statuses, features, message_templates, settings, custom_fields FROM system_clients WHERE id = $1',
       [id]
     );
     
@@ -295,7 +406,9 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
     };
   }
 
@@ -306,6 +419,8 @@ export class SystemClientModel {
     payment_statuses?: PaymentStatus[];
     features?: Record<string, any>;
     message_templates?: any[];
+    settings?: ClientSettings;
+    custom_fields?: CustomFieldSchemas;
   }): Promise<SystemClient | null> {
     const fields: string[] = [];
     const values: any[] = [];
@@ -343,6 +458,18 @@ export class SystemClientModel {
       paramCount++;
     }
 
+    if (config.settings !== undefined) {
+      fields.push(`settings = $${paramCount}`);
+      values.push(JSON.stringify(config.settings));
+      paramCount++;
+    }
+
+    if (config.custom_fields !== undefined) {
+      fields.push(`custom_fields = $${paramCount}`);
+      values.push(JSON.stringify(config.custom_fields));
+      paramCount++;
+    }
+
     if (fields.length === 0) return null;
 
     values.push(id);
@@ -362,7 +489,9 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
     };
   }
 
@@ -388,7 +517,9 @@ export class SystemClientModel {
       customer_statuses: client.customer_statuses || [],
       payment_statuses: client.payment_statuses || [],
       features: client.features || {},
-      message_templates: client.message_templates || []
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
     };
   }
 
@@ -438,6 +569,109 @@ export class SystemClientModel {
     return parseInt(result.rows[0]?.count || '0');
   }
 
+  // Find active client by inbound lead-capture key (used by public inbound endpoint)
+  static async findByInboundKey(inboundKey: string): Promise<SystemClient | null> {
+    const keyHash = crypto.createHash('sha256').update(inboundKey).digest('hex');
+
+    const result = await query(
+      'SELECT * FROM system_clients WHERE inbound_key_hash = $1 AND is_active = true AND deleted_at IS NULL',
+      [keyHash]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const client = result.rows[0];
+    return {
+      ...client,
+      lead_statuses: client.lead_statuses || [],
+      customer_statuses: client.customer_statuses || [],
+      payment_statuses: client.payment_statuses || [],
+      features: client.features || {},
+      message_templates: client.message_templates || [],
+      settings: client.settings || {},
+      custom_fields: client.custom_fields || {}
+    };
+  }
+
+  // Generate a new inbound lead-capture key (only the hash is stored - the key is returned once)
+  static async regenerateInboundKey(id: number): Promise<string | null> {
+    const inboundKey = crypto.randomBytes(24).toString('hex');
+    const keyHash = crypto.createHash('sha256').update(inboundKey).digest('hex');
+
+    const result = await query(
+      'UPDATE system_clients SET inbound_key_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 AND deleted_at IS NULL',
+      [keyHash, id]
+    );
+
+    return result.rowCount > 0 ? inboundKey : null;
+  }
+
+  // Get client settings (empty settings for users without a client)
+  static async getSettings(id?: number | null): Promise<ClientSettings> {
+    if (!id) return {};
+
+    const result = await query(
+      'SELECT settings FROM system_clients WHERE id = $1',
+      [id]
+    );
+
+    return result.rows[0]?.settings || {};
+  }
+
+  // Get the settings of all active clients (background jobs)
+  static async findActiveSettings(): Promise<Array<{ id: number; settings: ClientSettings }>> {
+    const result = await query(
+      'SELECT id, settings FROM system_clients WHERE is_active = true AND deleted_at IS NULL ORDER BY id'
+    );
+
+    return result.rows.map((row: any) => ({ id: row.id, settings: row.settings || {} }));
+  }
+
+  // Get the status change rules and lead statuses of all active clients (background jobs)
+  static async findActiveAutoStatusChanges(): Promise<Array<{ id: number; lead_statuses: LeadStatus[]; auto_status_changes: AutoStatusChangeRule[] }>> {
+    const result = await query(
+      `SELECT id, lead_statuses, auto_status_changes FROM system_clients
+       WHERE is_active = true AND deleted_at IS NULL AND jsonb_array_length(COALESCE(auto_status_changes, '[]'::jsonb)) > 0
+       ORDER BY id`
+    );
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      lead_statuses: row.lead_statuses || [],
+      auto_status_changes: row.auto_status_changes || []
+    }));
+  }
+
+  // Replace the status change rules of a client
+  static async updateAutoStatusChanges(id: number, rules: AutoStatusChangeRule[]): Promise<AutoStatusChangeRule[] | null> {
+    const result = await query(
+      `UPDATE system_clients SET auto_status_changes = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND deleted_at IS NULL
+       RETURNING auto_status_changes`,
+      [JSON.stringify(rules), id]
+    );
+
+    return result.rows[0] ? result.rows[0].auto_status_changes || [] : null;
+  }
+
+  // Get the custom field definitions of an entity (none for users without a client)
+  static async getCustomFields(id: number | null | undefined, entity: keyof CustomFieldSchemas): Promise<CustomFieldDefinition[]> {
+    if (!id) return [];
+
+    const result = await query(
+      'SELECT custom_fields FROM system_clients WHERE id = $1',
+      [id]
+    );
+
+    return result.rows[0]?.custom_fields?.[entity] || [];
+  }
+
+  // Get the tenant's default lead status name (falls back to 'חדש')
+  static getDefaultLeadStatus(leadStatuses?: LeadStatus[]): string {
+    const defaultStatus = (leadStatuses || []).find(status => status.isDefault);
+    return defaultStatus?.name || 'חדש';
+  }
+
   // כל המידע נשמר בטבלת system_clients עצמה בשדות JSONB
   // אין צורך בפונקציות נפרדות
 }
@@ -1,6 +1,7 @@
 import { query } from '../database/connection.js';
 import bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
+import { phoneColumns, toE164 } from '../utils/phone.js';
 
 export interface User {
   id: number;
@@ -13,6 +14,7 @@ export interface User {
   email_verified: boolean;
   department?: string;
   phone_number?: string;
+  phone_e164?: string | null;
   notes?: string;
   client_id?: number;
   created_at: Date;
@@ -67,6 +69,13 @@ export interface LoginData {
   password: string;
 }
 
+// A changed phone number is stored in display format next to its E.164 form
+const withPhoneColumns = (updates: Partial<User>): Partial<User> => {
+  if (updates.phone_number === undefined) return updates;
+  const { phone, phone_e164 } = phoneColumns(updates.phone_number);
+  return { ...updates, phone_number: phone as string, phone_e164 };
+};
+
 export class UserModel {
   // Create a new user
   static async create(userData: CreateUserData): Promise<User> {
@@ -97,10 +106,10 @@ export class UserModel {
     }
     
     const result = await query(
-      `INSERT INTO users (email, password_hash, first_name, last_name, role, department, phone_number, notes, client_id, created_by, manager_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `INSERT INTO users (email, password_hash, first_name, last_name, role, department, phone_number, phone_e164, notes, client_id, created_by, manager_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        RETURNING *`,
-      [email, finalPasswordHash, first_name, last_name, role, department, phone_number, notes, client_id, created_by, manager_id]
+      [email, finalPasswordHash, first_name, last_name, role, department, phoneColumns(phone_number).phone, toE164(phone_number), notes, client_id, created_by, manager_id]
     );
     
     return result.rows[0];
@@ -137,6 +146,7 @@ export class UserModel {
 
   // Update user
   static async update(id: number, updates: Partial<User>): Promise<User | null> {
+    updates = withPhoneColumns(updates);
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -236,6 +246,18 @@ export class UserModel {
     return result.rows;
   }
 
+  // Find users by IDs (names for lists and exports)
+  static async findByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+
+    const result = await query(
+      'SELECT id, email, first_name, last_name, role, is_active, client_id, manager_id FROM users WHERE id = ANY($1::int[])',
+      [ids]
+    );
+
+    return result.rows;
+  }
+
   // Get user profile
   static async getProfile(userId: number): Promise<UserProfile | null> {
     const result = await query(
@@ -325,6 +347,7 @@ export class UserModel {
 
   // Update user with extended fields
   static async updateExtended(id: number, updates: Partial<User>): Promise<User | null> {
+    updates = withPhoneColumns(updates);
     const fields: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -371,10 +394,10 @@ export class UserModel {
     } = userData;
     
     const result = await query(
-      `INSERT INTO users (email, password_hash, first_name, last_name, role, department, phone_number, notes, client_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO users (email, password_hash, first_name, last_name, role, department, phone_number, phone_e164, notes, client_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
-      [email, password_hash, first_name, last_name, role, department, phone_number, notes, client_id]
+      [email, password_hash, first_name, last_name, role, department, phoneColumns(phone_number).phone, toE164(phone_number), notes, client_id]
     );
     
     return result.rows[0];
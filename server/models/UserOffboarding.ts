@@ -0,0 +1,262 @@
+import { query, getClient } from '../database/connection.js';
+import { LeadTimelineModel, TimelineQueryRunner } from './LeadTimeline.js';
+import { UserOffboardingService, OffboardingDistribution } from '../services/userOffboarding.js';
+
+export interface OwnedLead {
+  id: number;
+  name: string;
+  status: string;
+  client_id: number | null;
+}
+
+export interface OwnedCustomer {
+  id: number;
+  full_name: string;
+  status: string | null;
+}
+
+export interface OwnedTask {
+  id: number;
+  title: string;
+  status: string;
+  due_date: Date;
+  lead_id: number | null;
+  customer_id: number | null;
+}
+
+export interface OwnedEvent {
+  id: number;
+  title: string;
+  event_type: string;
+  start_time: Date;
+  lead_id: number | null;
+  customer_id: number | null;
+  task_id: number | null;
+}
+
+// Everything that is lost or orphaned when the user is deleted
+export interface UserBookOfBusiness {
+  leads: OwnedLead[]; // assigned_to (set to NULL on delete)
+  customers: OwnedCustomer[]; // created_by - the only user who can see the customer
+  tasks: OwnedTask[]; // assigned_to or created_by (deleted with the user)
+  events: OwnedEvent[]; // created_by (deleted with the user)
+  agents: Array<{ id: number; name: string }>; // team of a manager
+  whatsappConnection: { id: number; wa_phone_number_id: string; is_active: boolean } | null;
+}
+
+export interface OffboardingAssignment {
+  id: number;
+  to: number;
+}
+
+export interface OffboardingPlan {
+  leads: OffboardingAssignment[];
+  customers: OffboardingAssignment[];
+  tasks: OffboardingAssignment[];
+  events: OffboardingAssignment[];
+}
+
+export interface OffboardingOptions {
+  targetUserIds: number[];
+  distribution: OffboardingDistribution;
+  finalStatuses: string[];
+  successorManagerId: number | null;
+}
+
+export interface OffboardingResult {
+  plan: OffboardingPlan;
+  agentsMoved: number;
+  whatsappConnection: 'moved' | 'deactivated' | null;
+}
+
+const pool: TimelineQueryRunner = { query };
+
+const toAssignmentArrays = (items: OffboardingAssignment[]) => [items.map(item => item.id), items.map(item => item.to)];
+
+export class UserOffboardingModel {
+  // Get everything the user owns (rows are locked when read inside the offboarding transaction)
+  static async findBookOfBusiness(userId: number, db: TimelineQueryRunner = pool, lock = false): Promise<UserBookOfBusiness> {
+    const forUpdate = lock ? 'FOR UPDATE' : '';
+
+    const leads = await db.query(
+      `SELECT id, name, status, client_id FROM leads WHERE assigned_to = $1 ORDER BY id ${forUpdate}`,
+      [userId]
+    );
+    const customers = await db.query(
+      `SELECT id, full_name, status FROM customers WHERE created_by = $1 ORDER BY id ${forUpdate}`,
+      [userId]
+    );
+    const tasks = await db.query(
+      `SELECT id, title, status, due_date, lead_id, customer_id FROM tasks
+       WHERE assigned_to = $1 OR created_by = $1
+       ORDER BY id ${forUpdate}`,
+      [userId]
+    );
+    const events = await db.query(
+      `SELECT id, title, event_type, start_time, lead_id, customer_id, task_id FROM unified_events
+       WHERE created_by = $1
+       ORDER BY start_time, id ${forUpdate}`,
+      [userId]
+    );
+    const agents = await db.query(
+      `SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) as name FROM users
+       WHERE manager_id = $1 AND deleted_at IS NULL
+       ORDER BY id`,
+      [userId]
+    );
+    const whatsapp = await db.query(
+      'SELECT id, wa_phone_number_id, is_active FROM whatsapp_connections WHERE manager_id = $1',
+      [userId]
+    );
+
+    return {
+      leads: leads.rows,
+      customers: customers.rows,
+      tasks: tasks.rows,
+      events: events.rows,
+      agents: agents.rows,
+      whatsappConnection: whatsapp.rows[0] || null
+    };
+  }
+
+  // Reassign everything the user owns and deactivate the account in one transaction
+  // The plan is made from the rows locked here, so records added after the preview are included
+  static async offboard(userId: number, options: OffboardingOptions, actorId: number): Promise<OffboardingResult | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const departing = await client.query(
+        `SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) as name FROM users
+         WHERE id = $1 AND deleted_at IS NULL
+         FOR UPDATE`,
+        [userId]
+      );
+      if (!departing.rows[0]) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const book = await this.findBookOfBusiness(userId, client, true);
+
+      let openCounts: Map<number, number> | undefined;
+      if (options.distribution === 'least_open') {
+        const counts = await client.query(
+          `SELECT assigned_to, COUNT(*) as count FROM leads
+           WHERE assigned_to = ANY($1::int[]) AND NOT (status = ANY($2::text[]))
+           GROUP BY assigned_to`,
+          [options.targetUserIds, options.finalStatuses]
+        );
+        openCounts = new Map(counts.rows.map((row: any) => [row.assigned_to, parseInt(row.count)]));
+      }
+
+      const plan = UserOffboardingService.plan(book, options.targetUserIds, options.distribution, {
+        finalStatuses: options.finalStatuses,
+        openCounts
+      });
+
+      if (plan.leads.length > 0) {
+        await client.query(
+          `UPDATE leads SET assigned_to = m.to_user, updated_at = CURRENT_TIMESTAMP
+           FROM UNNEST($1::int[], $2::int[]) AS m(id, to_user)
+           WHERE leads.id = m.id`,
+          toAssignmentArrays(plan.leads)
+        );
+
+        const names = await client.query(
+          `SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) as name FROM users WHERE id = ANY($1::int[])`,
+          [options.targetUserIds]
+        );
+        const nameOf = new Map<number, string>(names.rows.map((row: any) => [row.id, row.name || `#${row.id}`]));
+        const departingName = departing.rows[0].name || `#${userId}`;
+        const leadClients = new Map(book.leads.map(lead => [lead.id, lead.client_id]));
+
+        await LeadTimelineModel.append(
+          plan.leads.map(item => ({
+            lead_id: item.id,
+            client_id: leadClients.get(item.id) ?? null,
+            type: 'edit' as const,
+            description: `הליד שויך ל${nameOf.get(item.to)} (במקום ${departingName}) - העברת תיק של משתמש עוזב`,
+            actor_id: actorId,
+            before_values: { assigned_to: userId },
+            after_values: { assigned_to: item.to },
+            metadata: { offboarding: true }
+          })),
+          client
+        );
+      }
+
+      if (plan.customers.length > 0) {
+        await client.query(
+          `UPDATE customers SET created_by = m.to_user, updated_at = CURRENT_TIMESTAMP
+           FROM UNNEST($1::int[], $2::int[]) AS m(id, to_user)
+           WHERE customers.id = m.id`,
+          toAssignmentArrays(plan.customers)
+        );
+      }
+
+      // Only the side of the task that belongs to the departing user changes
+      if (plan.tasks.length > 0) {
+        await client.query(
+          `UPDATE tasks SET
+             assigned_to = CASE WHEN tasks.assigned_to = $3 THEN m.to_user ELSE tasks.assigned_to END,
+             created_by = CASE WHEN tasks.created_by = $3 THEN m.to_user ELSE tasks.created_by END,
+             updated_at = CURRENT_TIMESTAMP
+           FROM UNNEST($1::int[], $2::int[]) AS m(id, to_user)
+           WHERE tasks.id = m.id`,
+          [...toAssignmentArrays(plan.tasks), userId]
+        );
+      }
+
+      if (plan.events.length > 0) {
+        await client.query(
+          `UPDATE unified_events SET created_by = m.to_user, updated_at = CURRENT_TIMESTAMP
+           FROM UNNEST($1::int[], $2::int[]) AS m(id, to_user)
+           WHERE unified_events.id = m.id`,
+          toAssignmentArrays(plan.events)
+        );
+      }
+
+      // A manager's team and WhatsApp number go to the successor manager
+      let agentsMoved = 0;
+      let whatsappConnection: OffboardingResult['whatsappConnection'] = null;
+      if (options.successorManagerId) {
+        const agents = await client.query(
+          'UPDATE users SET manager_id = $1, updated_at = CURRENT_TIMESTAMP WHERE manager_id = $2 AND deleted_at IS NULL',
+          [options.successorManagerId, userId]
+        );
+        agentsMoved = agents.rowCount || 0;
+      }
+      if (book.whatsappConnection) {
+        const successorHasConnection = options.successorManagerId
+          ? (await client.query('SELECT 1 FROM whatsapp_connections WHERE manager_id = $1', [options.successorManagerId])).rows.length > 0
+          : true;
+
+        if (!successorHasConnection) {
+          await client.query(
+            'UPDATE whatsapp_connections SET manager_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+            [options.successorManagerId, book.whatsappConnection.id]
+          );
+          whatsappConnection = 'moved';
+        } else {
+          await client.query(
+            'UPDATE whatsapp_connections SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+            [book.whatsappConnection.id]
+          );
+          whatsappConnection = 'deactivated';
+        }
+      }
+
+      await client.query('UPDATE users SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1', [userId]);
+      await client.query('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
+
+      await client.query('COMMIT');
+      return { plan, agentsMoved, whatsappConnection };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
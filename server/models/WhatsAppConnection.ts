@@ -189,6 +189,32 @@ export class WhatsAppConnectionModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * מציאת חיבור ווטסאפ פעיל לפי מזהה המספר (webhook של הודעות נכנסות), כולל לקוח המערכת של המנהל
+   */
+  static async findActiveByPhoneNumberId(phone_number_id: string): Promise<(WhatsAppConnection & { client_id: number | null }) | null> {
+    const result = await query(
+      `SELECT wc.*, u.client_id FROM whatsapp_connections wc
+       JOIN users u ON u.id = wc.manager_id
+       WHERE wc.wa_phone_number_id = $1 AND wc.is_active = true`,
+      [phone_number_id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * בדיקה אם קיים חיבור פעיל עם טוקן האימות של ה-webhook
+   */
+  static async hasWebhookVerifyToken(token: string): Promise<boolean> {
+    const result = await query(
+      'SELECT 1 FROM whatsapp_connections WHERE wa_webhook_verify_token = $1 AND is_active = true',
+      [token]
+    );
+
+    return result.rows.length > 0;
+  }
+
   /**
    * מחיקת חיבור ווטסאפ
    */
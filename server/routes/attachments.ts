@@ -0,0 +1,173 @@
+import express from 'express';
+import multer from 'multer';
+import { AttachmentModel, AttachmentParentType } from '../models/Attachment.js';
+import { LeadModel } from '../models/Lead.js';
+import { CustomerModel } from '../models/Customer.js';
+import { TaskModel } from '../models/Task.js';
+import { BillingDocumentModel } from '../models/BillingDocument.js';
+import { AttachmentService, AttachmentParent, MAX_ATTACHMENT_BYTES } from '../services/attachments.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+// Files are validated before anything is stored, so they are kept in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 }
+});
+
+const PARENT_NAMES: Record<AttachmentParentType, string> = {
+  lead: 'Lead',
+  customer: 'Customer',
+  task: 'Task'
+};
+
+// Load the record with the same visibility rules as its own GET route
+async function findVisibleParent(parentType: AttachmentParentType, id: number, user: any): Promise<AttachmentParent | 'not_found' | 'forbidden'> {
+  if (parentType === 'lead') {
+    const lead = await LeadModel.findById(id);
+    if (!lead) return 'not_found';
+    if (user.role === 'agent' && Number(lead.assigned_to) !== Number(user.id)) return 'forbidden';
+    return { type: parentType, id, clientId: lead.client_id ?? user.client_id ?? null };
+  }
+
+  if (parentType === 'customer') {
+    const customer = await CustomerModel.findById(id);
+    if (!customer) return 'not_found';
+    if (customer.created_by !== user.id) return 'forbidden';
+    return { type: parentType, id, clientId: customer.client_id ?? user.client_id ?? null };
+  }
+
+  const task = await TaskModel.findById(id);
+  if (!task) return 'not_found';
+  if (task.assigned_to !== user.id && task.created_by !== user.id) return 'forbidden';
+  return { type: parentType, id, clientId: user.client_id ?? null };
+}
+
+/**
+ * Attachment routes of a record type - mounted under /:id/attachments of the record's router
+ */
+export function createAttachmentRoutes(parentType: AttachmentParentType) {
+  const router = express.Router({ mergeParams: true });
+  const parentName = PARENT_NAMES[parentType];
+
+  // Resolve the record of the request, or answer with 404/403
+  const resolveParent = async (req: any, res: any): Promise<AttachmentParent | null> => {
+    const parent = await findVisibleParent(parentType, parseInt(req.params.id), req.user);
+    if (parent === 'not_found') {
+      res.status(404).json({ error: `${parentName} not found` });
+      return null;
+    }
+    if (parent === 'forbidden') {
+      res.status(403).json({ error: 'Access denied' });
+      return null;
+    }
+    return parent;
+  };
+
+  // Get the record's attachments
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const attachments = await AttachmentModel.findByParent(parentType, parent.id);
+      res.json({ attachments });
+    } catch (error) {
+      console.error(`Error fetching ${parentType} attachments:`, error);
+      res.status(500).json({ error: 'Failed to fetch attachments' });
+    }
+  });
+
+  // Upload a file (multipart field "file")
+  router.post('/', authenticateToken, (req: any, res: any, next: any) => {
+    upload.single('file')(req, res, (error: any) => {
+      if (error) {
+        const message = error.code === 'LIMIT_FILE_SIZE'
+          ? `file must be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`
+          : error.message;
+        return res.status(400).json({ error: 'Invalid file', details: [message] });
+      }
+      // Browsers send the file name as UTF-8 while multer reads it as latin1 (Hebrew names)
+      if (req.file) {
+        req.file.originalname = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
+      }
+      next();
+    });
+  }, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const errors = AttachmentService.validateFile(req.file);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid file', details: errors });
+      }
+
+      const attachment = await AttachmentService.upload(parent, req.file, req.user.id);
+      res.status(201).json({ attachment });
+    } catch (error) {
+      console.error(`Error uploading ${parentType} attachment:`, error);
+      res.status(500).json({ error: 'Failed to upload attachment' });
+    }
+  });
+
+  // Download a file
+  router.get('/:attachmentId/download', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const attachment = await AttachmentModel.findForParent(parseInt(req.params.attachmentId), parentType, parent.id);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      const stream = await AttachmentService.open(attachment);
+      res.setHeader('Content-Type', attachment.mime_type);
+      res.setHeader('Content-Length', attachment.size_bytes);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.attachment(attachment.file_name);
+      stream.on('error', (streamError: any) => {
+        console.error(`Error streaming attachment ${attachment.id}:`, streamError);
+        res.destroy(streamError);
+      });
+      stream.pipe(res);
+    } catch (error: any) {
+      console.error(`Error downloading ${parentType} attachment:`, error);
+      if (error.code === 'ENOENT') {
+        res.status(404).json({ error: 'Attachment file is missing' });
+      } else {
+        res.status(500).json({ error: 'Failed to download attachment' });
+      }
+    }
+  });
+
+  // Delete a file (the uploader, managers and admins)
+  router.delete('/:attachmentId', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const attachment = await AttachmentModel.findForParent(parseInt(req.params.attachmentId), parentType, parent.id);
+      if (!attachment) {
+        return res.status(404).json({ error: 'Attachment not found' });
+      }
+
+      if (req.user.role === 'agent' && attachment.uploaded_by !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied. Only the uploader or a manager can delete this file' });
+      }
+
+      // Issued invoices and receipts stay downloadable
+      if (parentType === 'customer' && await BillingDocumentModel.isDocumentAttachment(attachment.id)) {
+        return res.status(409).json({ error: 'Attachment is an issued invoice or receipt and can not be deleted' });
+      }
+
+      await AttachmentService.remove(attachment);
+      res.json({ message: 'Attachment deleted successfully' });
+    } catch (error) {
+      console.error(`Error deleting ${parentType} attachment:`, error);
+      res.status(500).json({ error: 'Failed to delete attachment' });
+    }
+  });
+
+  return router;
+}
@@ -158,7 +158,8 @@ router.post('/login', validateInput, async (req: Request, res: Response) => {
               customer_statuses: client.customer_statuses || [],
               payment_statuses: client.payment_statuses || [],
               features: client.features || {},
-              message_templates: client.message_templates || []
+              message_templates: client.message_templates || [],
+              custom_fields: client.custom_fields || {}
             };
           }
         }
@@ -292,7 +293,8 @@ router.get('/me', async (req: Request, res: Response) => {
               customer_statuses: client.customer_statuses || [],
               payment_statuses: client.payment_statuses || [],
               features: client.features || {},
-              message_templates: client.message_templates || []
+              message_templates: client.message_templates || [],
+              custom_fields: client.custom_fields || {}
             };
           }
         } else {
@@ -1,16 +1,41 @@
 import express, { Request, Response } from 'express';
 import * as XLSX from 'xlsx';
 import { CustomerModel } from '../models/Customer.js';
+import { CustomerConversionModel } from '../models/CustomerConversion.js';
+import { LeadModel } from '../models/Lead.js';
+import { SystemClientModel } from '../models/SystemClient.js';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth.js';
+import { createAttachmentRoutes } from './attachments.js';
+import { createNoteRoutes } from './notes.js';
+import { AttachmentService } from '../services/attachments.js';
+import { AttachmentModel } from '../models/Attachment.js';
 import { query } from '../database/connection.js';
+import { CustomFieldService } from '../services/customFields.js';
+import { CustomerConversionService } from '../services/customerConversion.js';
+import { BillingService } from '../services/billing.js';
+import { CustomerChargeModel } from '../models/CustomerCharge.js';
+import { BillingDocumentModel } from '../models/BillingDocument.js';
+import { BillingDocumentService } from '../services/billingDocuments.js';
+import { parseCustomFieldFilters, matchesCustomFieldFilters } from '../utils/customFieldFilters.js';
 
 const router = express.Router();
 
+// Files attached to a customer
+router.use('/:id/attachments', createAttachmentRoutes('customer'));
+
+// Notes on a customer
+router.use('/:id/notes', createNoteRoutes('customer'));
+
 // Get all customers
 router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
     const { limit = '50', offset = '0', status, assigned_to } = req.query;
     
+    const customFieldFilters = parseCustomFieldFilters(req.query);
+    if (customFieldFilters.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid filters', details: customFieldFilters.errors });
+    }
+    
     // All users (including admins) see only customers they created
     let customers;
     if (status) {
@@ -24,6 +49,10 @@ router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Resp
       customers = await CustomerModel.findByCreatedBy(req.user.id);
     }
     
+    if (customFieldFilters.filters.length > 0) {
+      customers = customers.filter((customer: any) => matchesCustomFieldFilters(customer.custom_fields, customFieldFilters.filters));
+    }
+    
     // Ensure each customer has services and payments data
     const customersWithRelations = await Promise.all(customers.map(async (customer: any) => {
       const services = await CustomerModel.getServices(customer.id);
@@ -46,6 +75,73 @@ router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Resp
   }
 });
 
+// Export customers to Excel
+router.get('/export', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    // All users (including admins) export only customers they created
+    const customers = await CustomerModel.findByCreatedBy(req.user.id);
+    const customFieldDefinitions = await CustomFieldService.getDefinitions(req.user.client_id, 'customers');
+
+    // Transform data for Excel export (custom fields after the fixed columns)
+    const exportData = customers.map(customer => ({
+      'מזהה': customer.id,
+      'שם מלא': customer.full_name,
+      'טלפון': customer.phone,
+      'אימייל': customer.email,
+      'כתובת': customer.address,
+      'חברה': customer.company_name,
+      'מס\' עוסק': customer.vat_number,
+      'נציג מטפל': customer.assigned_rep,
+      'סטטוס': customer.status,
+      'סטטוס תשלום': customer.payment_status,
+      'תדירות חיוב': customer.billing_frequency,
+      'תאריך התחלה': customer.start_date,
+      'הערות': customer.notes,
+      'תאריך יצירה': customer.created_at,
+      ...Object.fromEntries(customFieldDefinitions.map(definition => [
+        definition.name,
+        CustomFieldService.formatValue(customer.custom_fields?.[definition.id])
+      ]))
+    }));
+
+    // Create Excel workbook
+    const workbook = XLSX.utils.book_new();
+    const worksheet = XLSX.utils.json_to_sheet(exportData);
+    
+    // Set column widths
+    worksheet['!cols'] = [
+      { wch: 10 }, // מזהה
+      { wch: 25 }, // שם מלא
+      { wch: 15 }, // טלפון
+      { wch: 30 }, // אימייל
+      { wch: 40 }, // כתובת
+      { wch: 20 }, // חברה
+      { wch: 15 }, // מס' עוסק
+      { wch: 20 }, // נציג מטפל
+      { wch: 15 }, // סטטוס
+      { wch: 20 }, // סטטוס תשלום
+      { wch: 15 }, // תדירות חיוב
+      { wch: 15 }, // תאריך התחלה
+      { wch: 40 }, // הערות
+      { wch: 20 }, // תאריך יצירה
+      ...customFieldDefinitions.map(() => ({ wch: 20 }))
+    ];
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'לקוחות');
+
+    // Generate buffer
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="customers-${new Date().toISOString().split('T')[0]}.xlsx"`);
+    res.send(buffer);
+
+  } catch (error) {
+    console.error('Error exporting customers:', error);
+    res.status(500).json({ error: 'Failed to export customers' });
+  }
+});
+
 // Get customer by ID
 router.get('/:id', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
@@ -91,9 +187,17 @@ router.post('/', authenticateToken, async (req: Request & {user?: any}, res: Res
       payment_vat_included: req.body.paymentVatIncluded || false,
       notes: req.body.notes,
       created_by: req.user.id,
-      client_id: req.user.client_id || null
+      client_id: req.user.client_id || null,
+      custom_fields: {} as Record<string, any>
     };
     
+    const customFieldDefinitions = await CustomFieldService.getDefinitions(customerData.client_id, 'customers');
+    const customFields = CustomFieldService.validateValues(customFieldDefinitions, req.body.customFields, { applyDefaults: true });
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid custom fields', details: customFields.errors });
+    }
+    customerData.custom_fields = customFields.values;
+    
     const customer = await CustomerModel.create(customerData);
     
     // Update lead status if created from a lead
@@ -104,7 +208,7 @@ router.post('/', authenticateToken, async (req: Request & {user?: any}, res: Res
         await LeadModel.update(parseInt(req.body.leadId as string), {
           status: 'הומר ללקוח',
           customer_id: customer.id
-        });
+        }, req.user.id);
       } catch (leadError) {
         console.error('Error updating lead status:', leadError);
         // Continue without failing the customer creation
@@ -171,6 +275,13 @@ router.post('/', authenticateToken, async (req: Request & {user?: any}, res: Res
         // Continue without failing the customer creation
       }
     }
+
+    try {
+      await BillingService.generate(customer.id);
+    } catch (billingError) {
+      console.error('Error generating billing schedule:', billingError);
+      // The schedule can be generated later from the customer card
+    }
     
     res.status(201).json({ customer });
   } catch (error) {
@@ -233,9 +344,20 @@ router.put('/:id', authenticateToken, async (req: Request & {user?: any}, res: R
       vat_type: updates.vatType,
       payment_plan: updates.paymentPlan,
       tags: updates.tags,
-      custom_fields: updates.customFields
+      custom_fields: undefined as Record<string, any> | undefined
     };
     
+    if (updates.customFields !== undefined) {
+      const customFieldDefinitions = await CustomFieldService.getDefinitions(existingCustomer.client_id || req.user.client_id, 'customers');
+      const customFields = CustomFieldService.validateValues(customFieldDefinitions, updates.customFields, {
+        existing: existingCustomer.custom_fields
+      });
+      if (customFields.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields', details: customFields.errors });
+      }
+      customerUpdates.custom_fields = customFields.values;
+    }
+    
     // Remove undefined values
     Object.keys(customerUpdates).forEach(key => {
       if (customerUpdates[key as keyof typeof customerUpdates] === undefined) {
@@ -291,6 +413,15 @@ router.put('/:id', authenticateToken, async (req: Request & {user?: any}, res: R
     if (!customer) {
       return res.status(404).json({ error: 'Customer not found' });
     }
+
+    // Services and payment plan may have changed - an existing schedule follows them
+    try {
+      if (await CustomerChargeModel.hasSchedule(customerId)) {
+        await BillingService.generate(customerId);
+      }
+    } catch (billingError) {
+      console.error('Error regenerating billing schedule:', billingError);
+    }
     
     res.json({ customer });
   } catch (error) {
@@ -319,14 +450,27 @@ router.delete('/:id', authenticateToken, async (req: Request & {user?: any}, res
       return res.status(403).json({ error: 'Access denied' });
     }
     
+    // Invoices and receipts are kept with their PDFs - a customer they were issued to is not deleted
+    if (await BillingDocumentModel.hasCustomerDocuments(existingCustomer.id)) {
+      return res.status(409).json({ error: 'Invoices or receipts were issued to this customer - it cannot be deleted' });
+    }
+
+    const attachments = await AttachmentModel.findByParent('customer', existingCustomer.id);
     const deleted = await CustomerModel.delete(parseInt(id as string));
     
     if (!deleted) {
       return res.status(404).json({ error: 'Customer not found' });
     }
+
+    // Remove the customer's files
+    await AttachmentService.removeAll(attachments);
     
     res.json({ message: 'Customer deleted successfully' });
   } catch (error) {
+    // A document was issued after the check (billing_documents restricts the delete)
+    if ((error as { code?: string })?.code === '23503') {
+      return res.status(409).json({ error: 'Invoices or receipts were issued to this customer - it cannot be deleted' });
+    }
     console.error('Error deleting customer:', error);
     res.status(500).json({ error: 'Failed to delete customer' });
   }
@@ -398,71 +542,216 @@ router.post('/:id/payments', authenticateToken, async (req: Request & {user?: an
   }
 });
 
-// Convert lead to customer
+// Get the billing schedule of a customer - charges by due date with totals
+router.get('/:id/charges', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const today = BillingService.today();
+    const charges = await CustomerChargeModel.findByCustomer(customerId, today);
+    res.json({ charges, totals: BillingService.totals(charges), today });
+  } catch (error) {
+    console.error('Error fetching customer charges:', error);
+    res.status(500).json({ error: 'Failed to fetch customer charges' });
+  }
+});
+
+// Generate the billing schedule of a customer from its services and payment plan
+router.post('/:id/charges/generate', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await BillingService.generate(customerId);
+    const charges = await CustomerChargeModel.findByCustomer(customerId, BillingService.today());
+    res.json({ charges });
+  } catch (error) {
+    console.error('Error generating customer charges:', error);
+    res.status(500).json({ error: 'Failed to generate customer charges' });
+  }
+});
+
+// Record a payment of a charge - { status: paid|partial|failed|pending, paidAmount?, paidAt?, failureReason? }
+router.patch('/:id/charges/:chargeId', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const charge = await CustomerChargeModel.findForCustomer(parseInt(req.params.chargeId as string), customerId, BillingService.today());
+    if (!charge) {
+      return res.status(404).json({ error: 'Charge not found' });
+    }
+
+    const { update, errors } = BillingService.parsePaymentUpdate(charge, req.body);
+    if (!update) {
+      return res.status(400).json({ error: 'Invalid charge update', details: errors });
+    }
+
+    const updated = await BillingService.recordPayment(charge, update, req.user.id);
+    res.json({ charge: updated });
+  } catch (error) {
+    console.error('Error updating customer charge:', error);
+    res.status(500).json({ error: 'Failed to update customer charge' });
+  }
+});
+
+// Get the invoices and receipts issued to a customer, newest first
+router.get('/:id/documents', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const documents = await BillingDocumentModel.findByCustomer(customerId);
+    res.json({ documents });
+  } catch (error) {
+    console.error('Error fetching billing documents:', error);
+    res.status(500).json({ error: 'Failed to fetch billing documents' });
+  }
+});
+
+// Issue an invoice or receipt PDF - { type: 'invoice', serviceIds? } or { type: 'receipt', chargeIds }
+// The PDF is saved as a customer attachment and downloaded from there
+router.post('/:id/documents', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { request, errors } = BillingDocumentService.parseRequest(req.body);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid billing document', details: errors });
+    }
+
+    const { lines, errors: lineErrors } = await BillingDocumentService.buildLines(customer, request);
+    if (!lines) {
+      return res.status(400).json({ error: 'Invalid billing document', details: lineErrors });
+    }
+
+    const clientId = customer.client_id ?? req.user.client_id ?? null;
+    const document = await BillingDocumentService.issue(customer, request.type, lines, req.user.id, clientId);
+    if (!document) {
+      return res.status(409).json({ error: 'A receipt was issued for these payments by someone else' });
+    }
+
+    res.status(201).json({ document });
+  } catch (error) {
+    console.error('Error issuing billing document:', error);
+    res.status(500).json({ error: 'Failed to issue billing document' });
+  }
+});
+
+// Render the PDF of an issued document again - for documents whose PDF could not be stored when issued
+router.post('/:id/documents/:documentId/pdf', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const customerId = parseInt(req.params.id as string);
+    const customer = await CustomerModel.findById(customerId);
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    if (customer.created_by !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const document = await BillingDocumentModel.findById(parseInt(req.params.documentId as string));
+    if (!document || document.customer_id !== customerId) {
+      return res.status(404).json({ error: 'Billing document not found' });
+    }
+
+    res.json({ document: await BillingDocumentService.attachPdf(customer, document, req.user.id) });
+  } catch (error) {
+    console.error('Error rendering billing document PDF:', error);
+    res.status(500).json({ error: 'Failed to render billing document PDF' });
+  }
+});
+
+// Convert lead to customer - the customer, its services and payment plan, the lead's closed status
+// and the move of the lead's open tasks and upcoming events happen together or not at all
 router.post('/convert-from-lead/:leadId', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
-    const { leadId } = req.params;
-    
-    // Extract products and totalAmount for separate handling
-    const { products, totalAmount, vatType, paymentPlan, paymentType, paymentValue, paymentVatIncluded, ...customerFields } = req.body;
-    
-    // Remove any undefined or null values and fix field names
-    const customerData = {
-      full_name: customerFields.full_name || customerFields.name,
-      phone: customerFields.phone,
-      email: customerFields.email,
-      status: customerFields.status || 'פעיל',
-      address: customerFields.address,
-      company_name: customerFields.company_name || customerFields.company,
-      vat_number: customerFields.vat_number || customerFields.vatNumber,
-      assigned_rep: customerFields.assigned_rep || customerFields.assignedTo,
-      payment_status: customerFields.payment_status || customerFields.paymentStatus || 'ממתין לתשלום',
-      billing_frequency: customerFields.billing_frequency || customerFields.billingFrequency || 'חד פעמי',
-      total_amount: totalAmount || 0,
-      start_date: customerFields.start_date || customerFields.startDate,
-      payment_type: paymentType || 'amount',
-      payment_value: paymentValue || 0,
-      payment_vat_included: paymentVatIncluded || false,
-      notes: customerFields.notes,
-      created_by: req.user.id,
-      client_id: req.user.client_id || null,
-      lead_id: parseInt(leadId as string),
-      payment_plan: paymentPlan || customerFields.payment_plan
-    };
-    
-    const customer = await CustomerModel.createFromLead(parseInt(leadId as string), customerData);
-    
-    // Handle products as services if provided
-    if (products && Array.isArray(products) && products.length > 0) {
-      for (const product of products) {
-        if (product.trim()) {
-          await CustomerModel.addService(customer.id, {
-            service_name: product.trim(),
-            amount: totalAmount ? (totalAmount / products.length) : 0,
-            tax_type: vatType || 'plus',
-            total: totalAmount || 0,
-            billing_frequency: customerData.billing_frequency || 'חד פעמי'
-          });
-        }
-      }
+    const leadId = parseInt(req.params.leadId as string);
+    const lead = await LeadModel.findById(leadId);
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
     }
-    
-    // Handle payment plan if provided
-    if (totalAmount && totalAmount > 0) {
-      await CustomerModel.addPayment(customer.id, {
-        total_amount: totalAmount,
-        payment_status: customerData.payment_status || 'ממתין לתשלום',
-        start_date: customerData.start_date ? new Date(customerData.start_date) : new Date(),
-        installments: req.body.payment_plan?.numberOfPayments || 1,
-        installment_amount: req.body.payment_plan?.monthlyAmount || totalAmount,
-        payment_type: paymentType || 'amount',
-        payment_value: paymentValue || 0,
-        vat_included: paymentVatIncluded || false,
-        notes: `תשלום עבור: ${products?.join(', ') || 'שירות'}`
-      });
+
+    // Agents can convert only their own leads
+    if (req.user.role === 'agent' && Number(lead.assigned_to) !== Number(req.user.id)) {
+      return res.status(403).json({ error: 'Access denied' });
     }
-    
-    res.status(201).json({ customer });
+    if (req.user.role !== 'admin' && req.user.client_id && lead.client_id && Number(lead.client_id) !== Number(req.user.client_id)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (await CustomerConversionModel.findCustomerOfLead(leadId)) {
+      return res.status(409).json({ error: 'Lead was already converted to a customer' });
+    }
+
+    const { request, errors } = CustomerConversionService.parseRequest(req.body);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid conversion', details: errors });
+    }
+
+    const clientId = lead.client_id || req.user.client_id || null;
+    const customFieldDefinitions = await CustomFieldService.getDefinitions(clientId, 'customers');
+    const customFields = CustomFieldService.validateValues(customFieldDefinitions, req.body.customFields, { applyDefaults: true });
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid custom fields', details: customFields.errors });
+    }
+
+    const configuration = clientId ? await SystemClientModel.getConfiguration(clientId) : null;
+    const closedStatus = CustomerConversionService.closedStatus(configuration?.lead_statuses || []);
+
+    const result = await CustomerConversionModel.convert(
+      leadId,
+      request,
+      closedStatus,
+      { id: req.user.id, client_id: req.user.client_id || null },
+      customFields.values
+    );
+    if (!result) {
+      return res.status(409).json({ error: 'Lead was converted or deleted by someone else' });
+    }
+
+    // Score depends on the status
+    LeadModel.rescore(leadId).catch(error => console.error(`Error rescoring lead ${leadId}:`, error));
+
+    try {
+      await BillingService.generate(result.customer.id);
+    } catch (billingError) {
+      console.error('Error generating billing schedule:', billingError);
+    }
+
+    res.status(201).json(result);
   } catch (error) {
     console.error('Error converting lead to customer:', error);
     res.status(500).json({ error: 'Failed to convert lead to customer' });
@@ -524,67 +813,6 @@ router.get('/stats/summary', authenticateToken, async (req: Request & {user?: an
   }
 });
 
-// Export customers to Excel
-router.get('/export', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
-  try {
-    // All users (including admins) export only customers they created
-    const customers = await CustomerModel.findByCreatedBy(req.user.id);
-
-    // Transform data for Excel export
-    const exportData = customers.map(customer => ({
-      'מזהה': customer.id,
-      'שם מלא': customer.full_name,
-      'טלפון': customer.phone,
-      'אימייל': customer.email,
-      'כתובת': customer.address,
-      'חברה': customer.company_name,
-      'מס\' עוסק': customer.vat_number,
-      'נציג מטפל': customer.assigned_rep,
-      'סטטוס': customer.status,
-      'סטטוס תשלום': customer.payment_status,
-      'תדירות חיוב': customer.billing_frequency,
-      'תאריך התחלה': customer.start_date,
-      'הערות': customer.notes,
-      'תאריך יצירה': customer.created_at
-    }));
-
-    // Create Excel workbook
-    const workbook = XLSX.utils.book_new();
-    const worksheet = XLSX.utils.json_to_sheet(exportData);
-    
-    // Set column widths
-    worksheet['!cols'] = [
-      { wch: 10 }, // מזהה
-      { wch: 25 }, // שם מלא
-      { wch: 15 }, // טלפון
-      { wch: 30 }, // אימייל
-      { wch: 40 }, // כתובת
-      { wch: 20 }, // חברה
-      { wch: 15 }, // מס' עוסק
-      { wch: 20 }, // נציג מטפל
-      { wch: 15 }, // סטטוס
-      { wch: 20 }, // סטטוס תשלום
-      { wch: 15 }, // תדירות חיוב
-      { wch: 15 }, // תאריך התחלה
-      { wch: 40 }, // הערות
-      { wch: 20 }  // תאריך יצירה
-    ];
-
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'לקוחות');
-
-    // Generate buffer
-    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
-
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-    res.setHeader('Content-Disposition', `attachment; filename="customers-${new Date().toISOString().split('T')[0]}.xlsx"`);
-    res.send(buffer);
-
-  } catch (error) {
-    console.error('Error exporting customers:', error);
-    res.status(500).json({ error: 'Failed to export customers' });
-  }
-});
-
 // TEMPORARY: Fix existing customers client_id
 router.post('/fix-client-ids', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
@@ -0,0 +1,148 @@
+import express from 'express';
+import { DoNotContactModel, DncChannel, DncEntry } from '../models/DoNotContact.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { DoNotContactService, DEFAULT_REMOVAL_STATUSES } from '../services/doNotContact.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+const REASON_MAX_LENGTH = 500;
+
+// Channels checked by the browser before contacting (WhatsApp links, Gmail, phone calls)
+const CHECK_CHANNELS: DncChannel[] = ['whatsapp', 'email', 'dialer'];
+const REPORT_CHANNELS: DncChannel[] = ['whatsapp', 'email', 'dialer', 'import'];
+
+const isManagerOrAdmin = (user: any) => user.role === 'admin' || user.role === 'manager';
+
+const pageOptions = (queryParams: any) => ({
+  limit: Math.min(Math.max(parseInt(queryParams.limit) || 50, 1), MAX_PAGE_SIZE),
+  offset: Math.max(parseInt(queryParams.offset) || 0, 0)
+});
+
+// Get the client's do-not-contact registry (managers and admins)
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (!isManagerOrAdmin(req.user)) {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can view the do-not-contact list' });
+    }
+
+    const clientId = req.user.client_id ?? null;
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    const { entries, total } = await DoNotContactModel.findByClient(clientId, { search, ...pageOptions(req.query) });
+    const settings = await SystemClientModel.getSettings(clientId);
+
+    res.json({
+      entries,
+      total,
+      removal_statuses: settings.dnc?.removalStatuses || DEFAULT_REMOVAL_STATUSES
+    });
+  } catch (error) {
+    console.error('Error fetching do-not-contact list:', error);
+    res.status(500).json({ error: 'Failed to fetch do-not-contact list' });
+  }
+});
+
+// Add a phone and/or email to the registry (managers and admins)
+router.post('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (!isManagerOrAdmin(req.user)) {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can manage the do-not-contact list' });
+    }
+
+    const errors: string[] = [];
+    const phoneKey = DoNotContactService.toKey('phone', req.body.phone);
+    const emailKey = DoNotContactService.toKey('email', req.body.email);
+    if (!phoneKey && !emailKey) errors.push('phone or email is required');
+    if (emailKey && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailKey.value)) errors.push('email is not a valid email address');
+    if (req.body.reason !== undefined && (typeof req.body.reason !== 'string' || req.body.reason.length > REASON_MAX_LENGTH)) {
+      errors.push(`reason must be text of at most ${REASON_MAX_LENGTH} characters`);
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid do-not-contact entry', details: errors });
+    }
+
+    const entries: DncEntry[] = [];
+    for (const key of [phoneKey, emailKey]) {
+      if (!key) continue;
+      const { entry } = await DoNotContactModel.add({
+        ...key,
+        client_id: req.user.client_id ?? null,
+        source: 'manual',
+        reason: req.body.reason?.trim() || null,
+        created_by: req.user.id
+      });
+      entries.push(entry);
+    }
+
+    res.status(201).json({ entries });
+  } catch (error) {
+    console.error('Error adding do-not-contact entry:', error);
+    res.status(500).json({ error: 'Failed to add do-not-contact entry' });
+  }
+});
+
+// Check a contact before reaching out from the browser - blocked attempts are recorded
+router.post('/check', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { channel, phone, email, lead_id } = req.body;
+    if (!CHECK_CHANNELS.includes(channel)) {
+      return res.status(400).json({ error: 'Invalid channel', details: [`channel must be one of: ${CHECK_CHANNELS.join(', ')}`] });
+    }
+
+    const [entry] = await DoNotContactService.enforce(
+      req.user.client_id ?? null,
+      [{ phone, email, lead_id: parseInt(lead_id) || null }],
+      { channel, userId: req.user.id }
+    );
+
+    res.json({ allowed: !entry, entry });
+  } catch (error) {
+    console.error('Error checking do-not-contact list:', error);
+    res.status(500).json({ error: 'Failed to check do-not-contact list' });
+  }
+});
+
+// Report of blocked contact attempts (managers and admins)
+router.get('/blocked-attempts', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (!isManagerOrAdmin(req.user)) {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can view blocked attempts' });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days) || 30, 1), 365);
+    const channel = REPORT_CHANNELS.includes(req.query.channel) ? req.query.channel as DncChannel : undefined;
+    const report = await DoNotContactModel.findBlockedAttempts(req.user.client_id ?? null, {
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      channel,
+      ...pageOptions(req.query)
+    });
+
+    res.json({ ...report, days });
+  } catch (error) {
+    console.error('Error fetching blocked contact attempts:', error);
+    res.status(500).json({ error: 'Failed to fetch blocked contact attempts' });
+  }
+});
+
+// Remove an entry - the contact may be reached again (managers and admins)
+router.delete('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (!isManagerOrAdmin(req.user)) {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can manage the do-not-contact list' });
+    }
+
+    const entry = await DoNotContactModel.findById(parseInt(req.params.id));
+    if (!entry || (entry.client_id ?? null) !== (req.user.client_id ?? null)) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+
+    await DoNotContactModel.delete(entry.id);
+    res.json({ message: 'Entry removed from the do-not-contact list' });
+  } catch (error) {
+    console.error('Error deleting do-not-contact entry:', error);
+    res.status(500).json({ error: 'Failed to delete do-not-contact entry' });
+  }
+});
+
+export default router;
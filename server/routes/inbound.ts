@@ -0,0 +1,104 @@
+import express from 'express';
+import { rateLimit } from 'express-rate-limit';
+import { z } from 'zod';
+import { LeadModel } from '../models/Lead.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { LeadAssignmentService } from '../services/leadAssignment.js';
+import { DoNotContactService } from '../services/doNotContact.js';
+import { normalizePhone } from '../utils/phone.js';
+
+const router = express.Router();
+
+// Public endpoint - stricter limit than the authenticated API
+const inboundLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    console.log('Inbound rate limit exceeded:', { ip: req.ip, path: req.path });
+    res.status(429).json({ error: 'Too many requests, please try again later' });
+  }
+});
+
+// Validation schema for leads coming from websites / landing pages
+const inboundLeadSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  phone: z.union([z.string(), z.number()]),
+  email: z.string().trim().email().max(255).optional().or(z.literal('')),
+  source: z.string().trim().max(100).optional(),
+  notes: z.string().trim().max(2000).optional()
+});
+
+// Capture lead from an external source (authenticated by the client's inbound key)
+// Every accepted request gets the same response - whether the contact was already a lead or is on the
+// do-not-contact list is not told to the (unauthenticated) caller
+router.post('/leads/:clientKey', inboundLimiter, async (req, res) => {
+  try {
+    const systemClient = await SystemClientModel.findByInboundKey(req.params.clientKey);
+    if (!systemClient) {
+      return res.status(401).json({ error: 'Invalid inbound key' });
+    }
+
+    const data = inboundLeadSchema.parse(req.body);
+
+    const phone = normalizePhone(data.phone);
+    if (!phone) {
+      return res.status(400).json({ error: 'Invalid phone number' });
+    }
+
+    // Contacts on the do-not-contact list are not captured (the attempt is recorded)
+    const [dncEntry] = await DoNotContactService.enforce(systemClient.id, [{ phone, email: data.email || null }], { channel: 'inbound' });
+    if (dncEntry) {
+      console.log(`Inbound lead for client ${systemClient.id} blocked by the do-not-contact list`);
+      return res.status(201).json({ success: true });
+    }
+
+    // Repeated inquiries are handled by the client's duplicate policy
+    const duplicates = await LeadModel.findDuplicates(phone, data.email, systemClient.id);
+    const duplicateLeadPolicy = systemClient.settings?.duplicateLeadPolicy || 'warn';
+
+    if (duplicates.length > 0 && duplicateLeadPolicy === 'skip') {
+      return res.status(201).json({ success: true });
+    }
+
+    if (duplicates.length > 0 && duplicateLeadPolicy === 'attach') {
+      await LeadModel.attachDuplicate(duplicates[0].id, { ...data, phone, source: data.source || 'website' });
+      return res.status(201).json({ success: true });
+    }
+
+    // Assignment engine when enabled, otherwise the lead goes to the client's manager
+    const assignmentDecision = await LeadAssignmentService.decide(
+      { source: data.source || 'website' },
+      { clientId: systemClient.id, settings: systemClient.settings }
+    );
+    const assignedTo = assignmentDecision?.assignedTo || await LeadAssignmentService.findClientManagerId(systemClient.id);
+
+    const lead = await LeadModel.create({
+      name: data.name,
+      phone,
+      email: data.email || undefined,
+      status: SystemClientModel.getDefaultLeadStatus(systemClient.lead_statuses),
+      source: data.source || 'website',
+      notes: data.notes,
+      assigned_to: assignedTo || undefined,
+      client_id: systemClient.id
+    });
+
+    if (assignmentDecision) {
+      await LeadAssignmentService.record(lead.id, systemClient.id, assignmentDecision);
+    }
+
+    console.log(`Inbound lead ${lead.id} captured for client ${systemClient.id}`);
+
+    res.status(201).json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    console.error('Error capturing inbound lead:', error);
+    res.status(500).json({ error: 'Failed to capture lead' });
+  }
+});
+
+export default router;
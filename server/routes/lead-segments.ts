@@ -0,0 +1,142 @@
+import express from 'express';
+import { LeadModel } from '../models/Lead.js';
+import { LeadSegment, LeadSegmentModel } from '../models/LeadSegment.js';
+import { LeadSegmentService } from '../services/leadSegments.js';
+import { parseLeadFilters } from '../utils/leadFilters.js';
+import { scopeAssignedTo } from '../utils/leadScope.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Live number of leads in the segment that the user can see
+async function countSegmentLeads(segment: LeadSegment, user: any): Promise<number> {
+  const { filters } = parseLeadFilters(segment.filters);
+  filters.assigned_to = await scopeAssignedTo(user, filters.assigned_to);
+  return LeadModel.countFiltered(filters);
+}
+
+// Get the user's segments (own + shared) with live lead counts
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const segments = await LeadSegmentModel.findVisible(req.user.client_id ?? null, req.user.id);
+
+    const withCounts = [];
+    for (const segment of segments) {
+      withCounts.push({ ...segment, lead_count: await countSegmentLeads(segment, req.user) });
+    }
+
+    res.json({ segments: withCounts });
+  } catch (error) {
+    console.error('Error fetching lead segments:', error);
+    res.status(500).json({ error: 'Failed to fetch lead segments' });
+  }
+});
+
+// Get a segment with its live lead count
+router.get('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    const segment = await LeadSegmentModel.findById(parseInt(req.params.id));
+    if (!segment || !LeadSegmentService.canUse(segment, req.user)) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    res.json({ segment: { ...segment, lead_count: await countSegmentLeads(segment, req.user) } });
+  } catch (error) {
+    console.error('Error fetching lead segment:', error);
+    res.status(500).json({ error: 'Failed to fetch lead segment' });
+  }
+});
+
+// Save a segment - { name, description?, filters: {status: 'חדש', tag: 'VIP', ...}, is_shared? }
+router.post('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'Segment name is required' });
+    }
+
+    // Shared segments are visible to the whole client - managers and admins only
+    if (req.body.is_shared && req.user.role === 'agent') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can share segments' });
+    }
+
+    const { filters, errors } = LeadSegmentService.sanitizeFilters(req.body.filters);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid filters', details: errors });
+    }
+
+    const segment = await LeadSegmentModel.create({
+      client_id: req.user.client_id ?? null,
+      name,
+      description: req.body.description,
+      filters,
+      is_shared: !!req.body.is_shared,
+      created_by: req.user.id
+    });
+
+    res.status(201).json({ segment: { ...segment, lead_count: await countSegmentLeads(segment, req.user) } });
+  } catch (error) {
+    console.error('Error creating lead segment:', error);
+    res.status(500).json({ error: 'Failed to create lead segment' });
+  }
+});
+
+// Update a segment (author, or managers/admins for shared segments)
+router.put('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    const existing = await LeadSegmentModel.findById(parseInt(req.params.id));
+    if (!existing || !LeadSegmentService.canUse(existing, req.user)) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+    if (!LeadSegmentService.canManage(existing, req.user)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    if (req.body.is_shared && req.user.role === 'agent') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can share segments' });
+    }
+
+    const updates: { name?: string; description?: string | null; filters?: Record<string, string>; is_shared?: boolean } = {};
+    if (req.body.name !== undefined) {
+      updates.name = String(req.body.name).trim();
+      if (!updates.name) {
+        return res.status(400).json({ error: 'Segment name is required' });
+      }
+    }
+    if (req.body.description !== undefined) updates.description = req.body.description;
+    if (req.body.is_shared !== undefined) updates.is_shared = !!req.body.is_shared;
+    if (req.body.filters !== undefined) {
+      const { filters, errors } = LeadSegmentService.sanitizeFilters(req.body.filters);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid filters', details: errors });
+      }
+      updates.filters = filters;
+    }
+
+    const segment = await LeadSegmentModel.update(existing.id, updates);
+    res.json({ segment: segment && { ...segment, lead_count: await countSegmentLeads(segment, req.user) } });
+  } catch (error) {
+    console.error('Error updating lead segment:', error);
+    res.status(500).json({ error: 'Failed to update lead segment' });
+  }
+});
+
+// Delete a segment (author, or managers/admins for shared segments)
+router.delete('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    const existing = await LeadSegmentModel.findById(parseInt(req.params.id));
+    if (!existing || !LeadSegmentService.canUse(existing, req.user)) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+    if (!LeadSegmentService.canManage(existing, req.user)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await LeadSegmentModel.delete(existing.id);
+    res.json({ message: 'Segment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting lead segment:', error);
+    res.status(500).json({ error: 'Failed to delete lead segment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,129 @@
+import express from 'express';
+import { LeadTagModel } from '../models/LeadTag.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const TAG_NAME_MAX_LENGTH = 50;
+const TAG_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Validate tag name/color from the request body
+function validateTagInput(body: any, requireName: boolean): string[] {
+  const errors: string[] = [];
+
+  if (body.name !== undefined || requireName) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) errors.push('name is required');
+    else if (name.length > TAG_NAME_MAX_LENGTH) errors.push(`name must be at most ${TAG_NAME_MAX_LENGTH} characters`);
+    else if (name.includes(',')) errors.push('name must not contain commas');
+  }
+
+  if (body.color !== undefined && !TAG_COLOR_PATTERN.test(String(body.color))) {
+    errors.push('color must be a hex color (#RRGGBB)');
+  }
+
+  return errors;
+}
+
+// Find a tag of the current user's client
+async function findClientTag(user: any, id: number) {
+  const tag = await LeadTagModel.findById(id);
+  if (!tag || (tag.client_id ?? null) !== (user.client_id ?? null)) return null;
+  return tag;
+}
+
+// Get the client's tag vocabulary
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const tags = await LeadTagModel.findByClient(req.user.client_id ?? null);
+    res.json({ tags });
+  } catch (error) {
+    console.error('Error fetching lead tags:', error);
+    res.status(500).json({ error: 'Failed to fetch lead tags' });
+  }
+});
+
+// Create a tag (managers and admins)
+router.post('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can manage tags' });
+    }
+
+    const errors = validateTagInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tag', details: errors });
+    }
+
+    const tag = await LeadTagModel.create({
+      client_id: req.user.client_id ?? null,
+      name: req.body.name.trim(),
+      color: req.body.color,
+      created_by: req.user.id
+    });
+
+    res.status(201).json({ tag });
+  } catch (error: any) {
+    console.error('Error creating lead tag:', error);
+    if (error.code === '23505') {
+      res.status(400).json({ error: 'A tag with this name already exists' });
+    } else {
+      res.status(500).json({ error: 'Failed to create lead tag' });
+    }
+  }
+});
+
+// Rename or recolor a tag - renaming updates the tagged leads (managers and admins)
+router.put('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can manage tags' });
+    }
+
+    const existing = await findClientTag(req.user, parseInt(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const errors = validateTagInput(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tag', details: errors });
+    }
+
+    const tag = await LeadTagModel.update(existing.id, {
+      name: req.body.name?.trim(),
+      color: req.body.color
+    });
+
+    res.json({ tag });
+  } catch (error: any) {
+    console.error('Error updating lead tag:', error);
+    if (error.code === '23505') {
+      res.status(400).json({ error: 'A tag with this name already exists' });
+    } else {
+      res.status(500).json({ error: 'Failed to update lead tag' });
+    }
+  }
+});
+
+// Delete a tag and remove it from all leads (managers and admins)
+router.delete('/:id', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can manage tags' });
+    }
+
+    const existing = await findClientTag(req.user, parseInt(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    await LeadTagModel.delete(existing.id);
+    res.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting lead tag:', error);
+    res.status(500).json({ error: 'Failed to delete lead tag' });
+  }
+});
+
+export default router;
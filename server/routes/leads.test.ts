@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import router from './leads.js';
+import { LeadModel, Lead } from '../models/Lead.js';
+import { UserModel, User } from '../models/User.js';
+import { DoNotContactService } from '../services/doNotContact.js';
+import { DncEntry } from '../models/DoNotContact.js';
+import { SystemClientModel, LeadStatus } from '../models/SystemClient.js';
+
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean>; stack: Array<{ handle: (req: Request, res: Response) => Promise<void> }> };
+}
+
+// The handler after authenticateToken - req.user is set by the test
+const postHandler = (path: string) => (router.stack as RouteLayer[])
+  .find(layer => layer.route?.path === path && layer.route.methods.post)!
+  .route!.stack.at(-1)!.handle;
+
+const createHandler = postHandler('/');
+const mergeHandler = postHandler('/:id/merge');
+const timelineHandler = postHandler('/:id/timeline');
+
+const leads: Record<number, Partial<Lead>> = {
+  1: { id: 1, client_id: 10, assigned_to: 5 },
+  2: { id: 2, client_id: 10, assigned_to: 6 },
+  3: { id: 3, client_id: 20, assigned_to: 7 },
+  4: { id: 4, client_id: 20, assigned_to: 8 }
+};
+
+const call = async (handler: (req: Request, res: Response) => Promise<void>, req: object) => {
+  const response = { statusCode: 200, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      response.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      response.body = body;
+      return this;
+    }
+  };
+  await handler(req as unknown as Request, res as unknown as Response);
+  return response;
+};
+
+const merge = (user: { id: number; role: string; client_id?: number }, targetId: number, sourceId: number) =>
+  call(mergeHandler, { params: { id: String(targetId) }, body: { sourceLeadId: sourceId }, user });
+
+describe('POST /leads/:id/merge', () => {
+  let merged: Array<[number, number]>;
+
+  beforeEach(() => {
+    merged = [];
+    mock.method(LeadModel, 'findById', async (id: number) => leads[id] ?? null);
+    mock.method(LeadModel, 'merge', async (targetId: number, sourceId: number) => {
+      merged.push([targetId, sourceId]);
+      return leads[targetId];
+    });
+    // Manager 4 of client 10 manages agent 6, manager 9 of client 20 manages agents 7 and 8
+    mock.method(UserModel, 'findByManagerId', async (managerId: number) =>
+      (managerId === 4 ? [{ id: 6 }] : managerId === 9 ? [{ id: 7 }, { id: 8 }] : []) as User[]
+    );
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('lets a manager merge leads of their own client assigned to them and their agents', async () => {
+    const response = await merge({ id: 9, role: 'manager', client_id: 20 }, 3, 4);
+    assert.equal(response.statusCode, 200);
+    assert.deepEqual(merged, [[3, 4]]);
+  });
+
+  it('refuses a manager leads of another client', async () => {
+    const response = await merge({ id: 4, role: 'manager', client_id: 10 }, 3, 4);
+    assert.equal(response.statusCode, 403);
+    assert.deepEqual(merged, []);
+  });
+
+  it('refuses a manager leads of their client assigned outside their team', async () => {
+    const response = await merge({ id: 4, role: 'manager', client_id: 10 }, 1, 2);
+    assert.equal(response.statusCode, 403);
+    assert.deepEqual(merged, []);
+  });
+
+  it('lets an agent merge only leads assigned to them', async () => {
+    assert.equal((await merge({ id: 6, role: 'agent', client_id: 10 }, 1, 2)).statusCode, 403);
+    assert.deepEqual(merged, []);
+  });
+
+  it('refuses leads of different clients before checking the role', async () => {
+    const response = await merge({ id: 1, role: 'admin' }, 1, 3);
+    assert.equal(response.statusCode, 400);
+    assert.deepEqual(merged, []);
+  });
+});
+
+describe('POST /leads/:id/timeline', () => {
+  const user = { id: 5, role: 'agent', client_id: 10 };
+  const blocked = { id: 30, contact_type: 'phone', value: '0501234567' } as DncEntry;
+  let recorded: string[];
+  let checked: string[];
+
+  const log = (type: string, metadata?: object) =>
+    call(timelineHandler, { params: { id: '1' }, body: { type, description: 'שיחה', metadata }, user });
+
+  beforeEach(() => {
+    recorded = [];
+    checked = [];
+    mock.method(LeadModel, 'findById', async (id: number) => ({ ...leads[id], phone: '0501234567', email: 'lead@example.com' }));
+    mock.method(LeadModel, 'addTimelineEntry', async (_leadId: number, entry: { type: string }) => {
+      recorded.push(entry.type);
+      return leads[1];
+    });
+    mock.method(DoNotContactService, 'enforce', async (_clientId: number, _contacts: unknown[], attempt: { channel: string }) => {
+      checked.push(attempt.channel);
+      return [blocked];
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('refuses recording a call or message to a contact on the do-not-contact list', async () => {
+    assert.equal((await log('call')).statusCode, 403);
+    assert.equal((await log('message', { channel: 'email' })).statusCode, 403);
+    assert.deepEqual(checked, ['dialer', 'email']);
+    assert.deepEqual(recorded, []);
+  });
+
+  it('records notes without checking the list', async () => {
+    assert.equal((await log('note')).statusCode, 201);
+    assert.deepEqual(checked, []);
+    assert.deepEqual(recorded, ['note']);
+  });
+});
+
+describe('POST /leads', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('refuses a status that is not one of the client\'s lead statuses', async () => {
+    const statuses = [{ id: 'new', name: 'חדש', isDefault: true }, { id: 'won', name: 'נסגר' }] as LeadStatus[];
+    mock.method(SystemClientModel, 'getConfiguration', async () => ({ lead_statuses: statuses }));
+    const created = mock.method(LeadModel, 'create', async () => leads[1]);
+
+    const response = await call(createHandler, {
+      body: { name: 'ליד', phone: '0501234567', status: 'לא קיים' },
+      user: { id: 5, role: 'agent', client_id: 10 }
+    });
+
+    assert.equal(response.statusCode, 400);
+    assert.equal(created.mock.callCount(), 0);
+  });
+});
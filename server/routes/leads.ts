@@ -1,8 +1,34 @@
 import express, { Request, Response } from 'express';
 import multer from 'multer';
+import crypto from 'crypto';
 import * as XLSX from 'xlsx';
-import { LeadModel, BulkLeadData } from '../models/Lead.js';
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth.js';
+import { LeadModel, Lead } from '../models/Lead.js';
+import { LeadPipelineModel } from '../models/LeadPipeline.js';
+import { LeadTimelineModel, LeadTimelineType, LEAD_TIMELINE_TYPES } from '../models/LeadTimeline.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { parseLeadFilters } from '../utils/leadFilters.js';
+import { scopeAssignedTo } from '../utils/leadScope.js';
+import { checkStatusTransition, canEditLeadInStatus } from '../utils/leadStatusTransitions.js';
+import { LeadStatusApprovalModel } from '../models/LeadStatusApproval.js';
+import { LeadAssignmentService } from '../services/leadAssignment.js';
+import { LeadScoringJobs } from '../jobs/leadScoringJobs.js';
+import { LeadImportJobs } from '../jobs/leadImportJobs.js';
+import { LeadImportJobModel } from '../models/LeadImportJob.js';
+import { LeadImportService, IMPORT_FIELDS, ImportColumnMapping, ImportEncoding } from '../services/leadImport.js';
+import { LeadExportService } from '../services/leadExport.js';
+import { LeadSegmentService } from '../services/leadSegments.js';
+import { LeadTagModel } from '../models/LeadTag.js';
+import { LeadBulkBatchModel } from '../models/LeadBulkBatch.js';
+import { LeadBulkActionService, LeadBulkAction } from '../services/leadBulkActions.js';
+import { CustomerConversionService } from '../services/customerConversion.js';
+import { CustomFieldService } from '../services/customFields.js';
+import { authenticateToken, AuthenticatedRequest, withAuth } from '../middleware/auth.js';
+import { createAttachmentRoutes } from './attachments.js';
+import { createNoteRoutes } from './notes.js';
+import { AttachmentService } from '../services/attachments.js';
+import { AttachmentModel } from '../models/Attachment.js';
+import { DoNotContactService } from '../services/doNotContact.js';
+import { DncChannel } from '../models/DoNotContact.js';
 
 // Israel timezone functions (inline to avoid import issues)
 function isIsraelDST(date: Date): boolean {
@@ -40,79 +66,192 @@ const upload = multer({
     if (file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
         file.mimetype === 'application/vnd.ms-excel' ||
         file.originalname.endsWith('.xlsx') ||
-        file.originalname.endsWith('.xls')) {
+        file.originalname.endsWith('.xls') ||
+        LeadImportService.isCsvFile(file.originalname, file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only Excel files are allowed'));
+      cb(new Error('Only Excel or CSV files are allowed'));
     }
   }
 });
 
-// Get all leads
+// Files attached to a lead
+router.use('/:id/attachments', createAttachmentRoutes('lead'));
+
+// Notes on a lead
+router.use('/:id/notes', createNoteRoutes('lead'));
+
+// Import preview limits
+const IMPORT_PREVIEW_ROWS = 20;
+const IMPORT_MAX_REPORTED_ROWS = 500;
+
+// Largest export in one file
+const EXPORT_MAX_ROWS = 50000;
+
+// Timeline page size limit, and the entry types users may add themselves
+const TIMELINE_MAX_ENTRIES = 200;
+const ACTIVITY_TIMELINE_TYPES: LeadTimelineType[] = ['call', 'message', 'note'];
+
+// Channels a lead is contacted on from the browser, with the timeline entry type recorded for each
+const CONTACT_CHANNELS: Partial<Record<DncChannel, LeadTimelineType>> = { dialer: 'call', whatsapp: 'message', email: 'message' };
+
+// Cards returned per pipeline board column
+const PIPELINE_DEFAULT_CARDS = 50;
+const PIPELINE_MAX_CARDS = 200;
+
+// Get the lead statuses configured for the lead's client
+async function getLeadStatuses(clientId: number | null | undefined) {
+  if (!clientId) return [];
+  const config = await SystemClientModel.getConfiguration(clientId);
+  return config?.lead_statuses || [];
+}
+
+// Check tags against the client's tag vocabulary (lead_tags)
+async function validateTags(clientId: number | null | undefined, input: any): Promise<{ tags: string[]; errors: string[] }> {
+  if (!Array.isArray(input) || input.some(tag => typeof tag !== 'string')) {
+    return { tags: [], errors: ['tags must be a list of tag names'] };
+  }
+
+  const tags = [...new Set(input.map((tag: string) => tag.trim()).filter(Boolean))];
+  const vocabulary = await LeadTagModel.getNames(clientId ?? null);
+  const unknown = tags.filter(tag => !vocabulary.includes(tag));
+
+  return { tags, errors: unknown.map(tag => `Unknown tag: ${tag}`) };
+}
+
+interface LeadStatusChange {
+  statusCode?: number;
+  error?: string;
+  lead?: Lead | null;
+  pendingApproval?: any;
+}
+
+// Change a lead's status under the client's transition rules - a status that requires approval
+// only opens an approval request and the lead keeps its current status until a manager decides
+// Other field updates are saved with the status (or on their own while the status waits for approval)
+async function changeLeadStatus(existingLead: Lead, status: string, user: any, otherUpdates: Partial<Lead> = {}): Promise<LeadStatusChange> {
+  const leadStatuses = await getLeadStatuses(existingLead.client_id || user.client_id);
+  const transition = checkStatusTransition(leadStatuses, existingLead.status, status, user.role);
+
+  if (!transition.allowed) {
+    return { statusCode: transition.statusCode || 400, error: transition.error };
+  }
+
+  if (transition.requiresApproval) {
+    const approval = await LeadStatusApprovalModel.create({
+      lead_id: existingLead.id,
+      client_id: existingLead.client_id,
+      requested_by: user.id,
+      from_status: existingLead.status,
+      to_status: status
+    });
+    await LeadModel.addTimelineEntry(existingLead.id, {
+      type: 'status',
+      description: `התבקש שינוי סטטוס ל"${status}" - ממתין לאישור מנהל`,
+      before_values: { status: existingLead.status },
+      metadata: { approval_id: approval.id, requested_status: status }
+    }, user.id);
+
+    const lead = Object.keys(otherUpdates).length > 0
+      ? await LeadModel.update(existingLead.id, otherUpdates, user.id)
+      : existingLead;
+    return { lead, pendingApproval: approval };
+  }
+
+  return { lead: await LeadModel.update(existingLead.id, { ...otherUpdates, status }, user.id) };
+}
+
+// Bulk actions run all-or-nothing: any rejected lead fails the whole request before anything changes
+function bulkActionHandler(action: LeadBulkAction, successMessage: string) {
+  return async (req: any, res: any) => {
+    try {
+      const { request, errors } = LeadBulkActionService.parseRequest(action, req.body);
+      if (!request) {
+        return res.status(400).json({ error: 'Invalid bulk action', details: errors });
+      }
+
+      // Only tags being added must exist - removing a stale tag is always allowed
+      if (action === 'tags') {
+        const tagsToAdd = await validateTags(req.user.client_id, request.params.add);
+        if (tagsToAdd.errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid tags', details: tagsToAdd.errors });
+        }
+      }
+
+      const leads = await LeadBulkBatchModel.findLeads(request.leadIds);
+      const statuses = new Map<number, any[]>();
+      if (action === 'status') {
+        for (const clientId of new Set(leads.map(lead => lead.client_id || req.user.client_id))) {
+          statuses.set(clientId, await getLeadStatuses(clientId));
+        }
+      }
+      const convertedLeadIds = action === 'convert' ? await LeadBulkBatchModel.findConvertedLeadIds(request.leadIds) : [];
+      if (action === 'convert') {
+        request.params.status = CustomerConversionService.closedStatus(await getLeadStatuses(req.user.client_id));
+      }
+
+      const check = LeadBulkActionService.checkLeads(request, leads, req.user, {
+        statusesOf: lead => statuses.get(lead.client_id || req.user.client_id) || [],
+        convertedLeadIds
+      });
+      if (check.forbidden.length > 0) {
+        return res.status(403).json({ error: 'Access denied', details: check.forbidden });
+      }
+      if (check.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid bulk action', details: check.errors });
+      }
+
+      const result = await LeadBulkBatchModel.apply(request, req.user.id, req.user.client_id || null);
+      if (!result) {
+        return res.status(409).json({ error: 'Some of the leads were changed by someone else - please reload and try again' });
+      }
+
+      // Score depends on the status
+      if (action === 'status' || action === 'convert') {
+        for (const leadId of result.leadIds) {
+          LeadModel.rescore(leadId).catch(error => console.error(`Error rescoring lead ${leadId}:`, error));
+        }
+      }
+
+      res.json({
+        message: successMessage,
+        batch: result.batch,
+        successCount: result.leadIds.length,
+        unchangedCount: request.leadIds.length - result.leadIds.length
+      });
+    } catch (error) {
+      console.error(`Error in bulk ${action}:`, error);
+      res.status(500).json({ error: 'Failed to run bulk action' });
+    }
+  };
+}
+
+// Get all leads (filters, sorting and pagination - see utils/leadFilters.ts)
 router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
-    const { limit = '50', offset = '0', assigned_to } = req.query;
+    const { limit = '50', offset = '0' } = req.query;
     const limitNum = parseInt(limit as string);
     const offsetNum = parseInt(offset as string);
     
-    let leads: any[], total: number;
+    const resolved = await LeadSegmentService.resolveQuery(req.query, req.user);
+    if (resolved.error) {
+      return res.status(resolved.error.status).json({ error: resolved.error.message });
+    }
     
-    // Check if filtering by specific agent
-    if (assigned_to) {
-      const assignedToId = parseInt(assigned_to as string);
-      
-      // Check permissions based on user role
-      if (req.user.role === 'admin') {
-        // Admin can see leads assigned to any user
-        const result = await LeadModel.findByAssignedToPaginated(assignedToId, limitNum, offsetNum);
-        leads = result.leads;
-        total = result.total;
-      } else if (req.user.role === 'manager') {
-        // Manager can see leads assigned to their agents or their own leads
-        const { UserModel } = await import('../models/User.js');
-        const agents = await UserModel.findByManagerId(req.user.id);
-        const agentIds = agents.map(agent => agent.id);
-        agentIds.push(req.user.id); // Include manager's own leads
-        
-        if (agentIds.includes(assignedToId)) {
-          const result = await LeadModel.findByAssignedToPaginated(assignedToId, limitNum, offsetNum);
-          leads = result.leads;
-          total = result.total;
-        } else {
-          leads = [];
-          total = 0;
-        }
-      } else {
-        // Agent can only see their own leads
-        if (assignedToId === req.user.id) {
-          const result = await LeadModel.findByAssignedToPaginated(assignedToId, limitNum, offsetNum);
-          leads = result.leads;
-          total = result.total;
-        } else {
-          leads = [];
-          total = 0;
-        }
-      }
-    } else {
-      // No specific agent filter - show leads based on user role
-      if (req.user.role === 'admin') {
-        // Admin sees all leads
-        const result = await LeadModel.findAllPaginated(limitNum, offsetNum);
-        leads = result.leads;
-        total = result.total;
-      } else if (req.user.role === 'manager') {
-        // Manager sees only their own leads by default
-        const result = await LeadModel.findByAssignedToPaginated(req.user.id, limitNum, offsetNum);
-        leads = result.leads;
-        total = result.total;
-      } else {
-        // Agent sees only their own leads
-        const result = await LeadModel.findByAssignedToPaginated(req.user.id, limitNum, offsetNum);
-        leads = result.leads;
-        total = result.total;
-      }
+    const { filters, sort, errors } = parseLeadFilters(resolved.query);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid filters', details: errors });
     }
     
+    // Visibility rules are applied on top of the requested assigned users
+    filters.assigned_to = await scopeAssignedTo(req.user, filters.assigned_to);
+    
+    const { leads, total } = await LeadModel.findFiltered(filters, {
+      limit: limitNum,
+      offset: offsetNum,
+      sort
+    });
+    
     res.json({ leads, total });
   } catch (error) {
     console.error('Error fetching leads:', error);
@@ -120,6 +259,164 @@ router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Resp
   }
 });
 
+// Get possible duplicate leads (managers and admins)
+router.get('/duplicates', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can view duplicates' });
+    }
+    
+    let groups;
+    if (req.user.role === 'admin') {
+      groups = await LeadModel.findPossibleDuplicates();
+    } else {
+      // Manager sees duplicates among their agents' leads + their own leads
+      const { UserModel } = await import('../models/User.js');
+      const agents = await UserModel.findByManagerId(req.user.id);
+      const agentIds = agents.map(agent => agent.id);
+      agentIds.push(req.user.id); // Include manager's own leads
+      
+      groups = await LeadModel.findPossibleDuplicates(agentIds);
+    }
+    
+    res.json({ groups, total: groups.length });
+  } catch (error) {
+    console.error('Error fetching duplicate leads:', error);
+    res.status(500).json({ error: 'Failed to fetch duplicate leads' });
+  }
+});
+
+// Export leads to Excel/CSV - same filters and visibility as the list
+// ?format=xlsx|csv&columns=name,phone,... (see services/leadExport.ts)
+router.get('/export', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
+  try {
+    const format = (req.query.format as string) || 'xlsx';
+    if (format !== 'xlsx' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be one of: xlsx, csv' });
+    }
+
+    const resolved = await LeadSegmentService.resolveQuery(req.query, req.user);
+    if (resolved.error) {
+      return res.status(resolved.error.status).json({ error: resolved.error.message });
+    }
+
+    const { columns, errors: columnErrors } = LeadExportService.parseColumns(req.query.columns);
+    const { filters, sort, errors } = parseLeadFilters(resolved.query);
+    if (errors.length > 0 || columnErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid export request', details: [...errors, ...columnErrors] });
+    }
+
+    // Visibility rules are applied on top of the requested assigned users
+    filters.assigned_to = await scopeAssignedTo(req.user, filters.assigned_to);
+
+    const { leads, total } = await LeadModel.findFiltered(filters, { limit: EXPORT_MAX_ROWS, offset: 0, sort });
+    if (total > EXPORT_MAX_ROWS) {
+      return res.status(400).json({ error: `Too many leads to export (${total}). Narrow the filters to at most ${EXPORT_MAX_ROWS} leads` });
+    }
+
+    const { UserModel } = await import('../models/User.js');
+    const agentIds = [...new Set(leads.map(lead => lead.assigned_to).filter((id): id is number => !!id))];
+    const agents = await UserModel.findByIds(agentIds);
+    const agentNames = new Map(agents.map(agent => [agent.id, `${agent.first_name || ''} ${agent.last_name || ''}`.trim() || agent.email]));
+
+    const customFields = await CustomFieldService.getDefinitions(req.user.client_id, 'leads');
+    const lastActivity = columns.includes('last_history')
+      ? await LeadTimelineModel.findLatestByLeadIds(leads.map(lead => lead.id))
+      : undefined;
+    const buffer = LeadExportService.buildFile(leads, columns, format, { agentNames, customFields, lastActivity });
+    const filename = `leads-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv'
+      ? 'text/csv; charset=utf-8'
+      : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error exporting leads:', error);
+    res.status(500).json({ error: 'Failed to export leads' });
+  }
+});
+
+// Get the pipeline board - the client's statuses in their order with counts, value sums and the first cards of each
+// Same filters and visibility as the list (managers pick an agent with assigned_to); ?per_stage= cards per column
+router.get('/pipeline', authenticateToken, async (req: any, res: any) => {
+  try {
+    const perStage = req.query.per_stage === undefined ? PIPELINE_DEFAULT_CARDS : Number(req.query.per_stage);
+    if (!Number.isInteger(perStage) || perStage < 1 || perStage > PIPELINE_MAX_CARDS) {
+      return res.status(400).json({ error: `per_stage must be between 1 and ${PIPELINE_MAX_CARDS}` });
+    }
+
+    const resolved = await LeadSegmentService.resolveQuery(req.query, req.user);
+    if (resolved.error) {
+      return res.status(resolved.error.status).json({ error: resolved.error.message });
+    }
+
+    const { filters, errors } = parseLeadFilters(resolved.query);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid filters', details: errors });
+    }
+
+    // Visibility rules are applied on top of the requested assigned users
+    filters.assigned_to = await scopeAssignedTo(req.user, filters.assigned_to);
+
+    const [totals, leads, leadStatuses] = await Promise.all([
+      LeadPipelineModel.getStageTotals(filters),
+      LeadPipelineModel.findStageLeads(filters, perStage),
+      getLeadStatuses(req.user.client_id)
+    ]);
+
+    // Statuses missing from the configuration (legacy data) get their own columns after the configured ones
+    const configured = [...leadStatuses].sort((a, b) => a.order - b.order);
+    const columns = [
+      ...configured.map(status => ({ status: status.name, color: status.color, order: status.order, isFinal: status.isFinal, configured: true })),
+      ...totals
+        .filter(stage => !configured.some(status => status.name === stage.status))
+        .map(stage => ({ status: stage.status, color: null, order: null, isFinal: false, configured: false }))
+    ];
+
+    const stages = columns.map(column => {
+      const stageTotals = totals.find(stage => stage.status === column.status);
+      const stageLeads = leads.filter(lead => lead.status === column.status);
+      const count = stageTotals?.count || 0;
+      return {
+        ...column,
+        count,
+        potentialValue: stageTotals?.potential_value || 0,
+        amount: stageTotals?.amount || 0,
+        leads: stageLeads,
+        hasMore: count > stageLeads.length
+      };
+    });
+
+    res.json({
+      stages,
+      totals: {
+        count: totals.reduce((sum, stage) => sum + stage.count, 0),
+        potentialValue: totals.reduce((sum, stage) => sum + stage.potential_value, 0),
+        amount: totals.reduce((sum, stage) => sum + stage.amount, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching pipeline:', error);
+    res.status(500).json({ error: 'Failed to fetch pipeline' });
+  }
+});
+
+// Get the bulk actions that can still be undone (managers and admins)
+router.get('/bulk-batches', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can undo bulk actions' });
+    }
+
+    const batches = await LeadBulkBatchModel.findUndoable(req.user.role === 'admin' ? null : req.user.client_id || null);
+    res.json({ batches });
+  } catch (error) {
+    console.error('Error fetching bulk actions:', error);
+    res.status(500).json({ error: 'Failed to fetch bulk actions' });
+  }
+});
+
 // Get lead by ID
 router.get('/:id', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
@@ -173,10 +470,71 @@ router.post('/', authenticateToken, async (req: any, res: any) => {
       callback_date: req.body.callbackDate || req.body.callback_date,
       callback_time: req.body.callbackTime || req.body.callback_time,
       assigned_to: parseInt(req.body.assigned_to) || req.user.id,
-      client_id: req.user.client_id || null
+      client_id: req.user.client_id || null,
+      custom_fields: {} as Record<string, any>,
+      tags: [] as string[]
     };
+
+    // The status must be one of the client's lead statuses - without one the lead gets the client's default status
+    const leadStatuses = await getLeadStatuses(leadData.client_id);
+    if (!leadData.status) {
+      leadData.status = SystemClientModel.getDefaultLeadStatus(leadStatuses);
+    } else if (typeof leadData.status !== 'string' || (leadStatuses.length > 0 && !leadStatuses.some(status => status.name === leadData.status))) {
+      return res.status(400).json({ error: `Unknown lead status: ${leadData.status}` });
+    }
+    
+    // Custom fields are validated against the client's definitions
+    const customFieldDefinitions = await CustomFieldService.getDefinitions(leadData.client_id, 'leads');
+    const customFields = CustomFieldService.validateValues(
+      customFieldDefinitions,
+      req.body.customFields ?? req.body.custom_fields,
+      { applyDefaults: true }
+    );
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid custom fields', details: customFields.errors });
+    }
+    leadData.custom_fields = customFields.values;
+    
+    if (req.body.tags !== undefined) {
+      const tags = await validateTags(leadData.client_id, req.body.tags);
+      if (tags.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid tags', details: tags.errors });
+      }
+      leadData.tags = tags.tags;
+    }
+    
+    // Auto-assignment runs only when a manager/admin creates a lead without choosing an agent
+    const assignmentDecision = !parseInt(req.body.assigned_to) && req.user.role !== 'agent'
+      ? await LeadAssignmentService.decide(req.body, {
+          clientId: leadData.client_id,
+          managerId: req.user.role === 'manager' ? req.user.id : null
+        })
+      : null;
+    if (assignmentDecision?.assignedTo) {
+      leadData.assigned_to = assignmentDecision.assignedTo;
+    }
+    
+    // Duplicate detection by normalized phone/email - handled per client policy
+    const duplicates = await LeadModel.findDuplicates(leadData.phone, leadData.email, leadData.client_id);
+    const { duplicateLeadPolicy = 'warn' } = await SystemClientModel.getSettings(leadData.client_id);
     
-    const lead = await LeadModel.create(leadData);
+    if (duplicates.length > 0 && duplicateLeadPolicy === 'skip') {
+      return res.status(409).json({
+        error: 'A lead with the same phone or email already exists',
+        duplicates: duplicates.map(duplicate => ({ id: duplicate.id, name: duplicate.name, phone: duplicate.phone, email: duplicate.email }))
+      });
+    }
+    
+    if (duplicates.length > 0 && duplicateLeadPolicy === 'attach') {
+      const existingLead = await LeadModel.attachDuplicate(duplicates[0].id, leadData, req.user.id);
+      return res.json({ lead: existingLead, attached: true, duplicate_of: duplicates[0].id });
+    }
+    
+    const lead = await LeadModel.create(leadData, req.user.id);
+    
+    if (assignmentDecision) {
+      await LeadAssignmentService.record(lead.id, leadData.client_id, assignmentDecision);
+    }
     
     // Create unified event if callback date and time are provided
     if (leadData.callback_date && leadData.callback_time) {
@@ -221,7 +579,12 @@ router.post('/', authenticateToken, async (req: any, res: any) => {
       }
     }
     
-    res.status(201).json({ lead });
+    res.status(201).json({
+      lead,
+      duplicates: duplicates.length > 0
+        ? duplicates.map(duplicate => ({ id: duplicate.id, name: duplicate.name, phone: duplicate.phone, email: duplicate.email }))
+        : undefined
+    });
   } catch (error) {
     console.error('Error creating lead:', error);
     res.status(500).json({ error: 'Failed to create lead' });
@@ -279,6 +642,12 @@ router.put('/:id', authenticateToken, async (req: any, res: any) => {
       return res.status(403).json({ error: 'Access denied' });
     }
     
+    // Leads in a final status can only be edited by managers
+    const leadStatuses = await getLeadStatuses(existingLead.client_id || req.user.client_id);
+    if (!canEditLeadInStatus(leadStatuses, existingLead.status, req.user.role)) {
+      return res.status(403).json({ error: 'Lead is in a final status - only managers can edit it' });
+    }
+    
     // Transform the request body to match database field names
     const updates: any = {};
     if (req.body.name !== undefined) updates.name = req.body.name;
@@ -291,7 +660,40 @@ router.put('/:id', authenticateToken, async (req: any, res: any) => {
     if (req.body.callbackTime !== undefined) updates.callback_time = req.body.callbackTime;
     if (req.body.assigned_to !== undefined) updates.assigned_to = req.body.assigned_to;
     
-    const lead = await LeadModel.update(parseInt(id), updates);
+    const customFieldsInput = req.body.customFields ?? req.body.custom_fields;
+    if (customFieldsInput !== undefined) {
+      const customFieldDefinitions = await CustomFieldService.getDefinitions(existingLead.client_id || req.user.client_id, 'leads');
+      const customFields = CustomFieldService.validateValues(customFieldDefinitions, customFieldsInput, {
+        existing: existingLead.custom_fields
+      });
+      if (customFields.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields', details: customFields.errors });
+      }
+      updates.custom_fields = customFields.values;
+    }
+    
+    if (req.body.tags !== undefined) {
+      const tags = await validateTags(existingLead.client_id || req.user.client_id, req.body.tags);
+      if (tags.errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid tags', details: tags.errors });
+      }
+      updates.tags = tags.tags;
+    }
+    
+    // Status changes go through the client's transition rules
+    let lead: Lead | null = existingLead;
+    let pendingApproval = null;
+    if (updates.status !== undefined && updates.status !== existingLead.status) {
+      const { status, ...otherUpdates } = updates;
+      const change = await changeLeadStatus(existingLead, status, req.user, otherUpdates);
+      if (change.error) {
+        return res.status(change.statusCode || 400).json({ error: change.error });
+      }
+      lead = change.lead ?? null;
+      pendingApproval = change.pendingApproval;
+    } else if (Object.keys(updates).length > 0) {
+      lead = await LeadModel.update(parseInt(id), updates, req.user.id);
+    }
     
     if (!lead) {
       return res.status(404).json({ error: 'Lead not found' });
@@ -363,7 +765,7 @@ router.put('/:id', authenticateToken, async (req: any, res: any) => {
       }
     }
     
-    res.json({ lead });
+    res.json({ lead, pendingApproval: pendingApproval || undefined });
   } catch (error) {
     console.error('Error updating lead:', error);
     res.status(500).json({ error: 'Failed to update lead' });
@@ -405,19 +807,297 @@ router.patch('/:id/status', authenticateToken, async (req: any, res: any) => {
       return res.status(403).json({ error: 'Access denied' });
     }
     
-    const lead = await LeadModel.update(parseInt(id), { status });
+    if (!status || typeof status !== 'string') {
+      return res.status(400).json({ error: 'Status is required' });
+    }
     
-    if (!lead) {
+    // Validate against the client's status configuration
+    const change = await changeLeadStatus(existingLead, status, req.user);
+    
+    if (change.error) {
+      return res.status(change.statusCode || 400).json({ error: change.error });
+    }
+    
+    if (change.pendingApproval) {
+      return res.status(202).json({ lead: existingLead, pendingApproval: change.pendingApproval });
+    }
+    
+    if (!change.lead) {
       return res.status(404).json({ error: 'Lead not found' });
     }
     
-    res.json({ lead });
+    res.json({ lead: change.lead });
   } catch (error) {
     console.error('Error updating lead status:', error);
     res.status(500).json({ error: 'Failed to update lead status' });
   }
 });
 
+// Move a card on the pipeline board - { status, afterLeadId?, beforeLeadId? }
+// A new status goes through the same rules as PATCH /:id/status; the card is then put between the cards it was dropped between
+router.patch('/:id/pipeline', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { status, afterLeadId = null, beforeLeadId = null } = req.body;
+
+    const errors: string[] = [];
+    if (!status || typeof status !== 'string') errors.push('status is required');
+    for (const [field, value] of Object.entries({ afterLeadId, beforeLeadId })) {
+      if (value !== null && (!Number.isInteger(value) || value < 1)) errors.push(`${field} must be a lead ID`);
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid pipeline move', details: errors });
+    }
+
+    const existingLead = await LeadModel.findById(parseInt(req.params.id));
+    if (!existingLead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    // Admins and managers can move any lead, agents only their own
+    const hasPermission = req.user.role === 'admin' || req.user.role === 'manager' ||
+      (req.user.role === 'agent' && Number(existingLead.assigned_to) === Number(req.user.id));
+    if (!hasPermission) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    // Moving within the same column only changes the order
+    const change: LeadStatusChange = status === existingLead.status
+      ? { lead: existingLead }
+      : await changeLeadStatus(existingLead, status, req.user);
+
+    if (change.error) {
+      return res.status(change.statusCode || 400).json({ error: change.error });
+    }
+
+    // The card stays in its column until the status change is approved
+    if (change.pendingApproval) {
+      return res.status(202).json({ lead: existingLead, pendingApproval: change.pendingApproval });
+    }
+
+    if (!change.lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    const position = await LeadPipelineModel.place(change.lead, { afterLeadId, beforeLeadId });
+    res.json({ lead: { ...change.lead, pipeline_position: position } });
+  } catch (error) {
+    console.error('Error moving lead on pipeline:', error);
+    res.status(500).json({ error: 'Failed to move lead' });
+  }
+});
+
+// Merge another lead into this lead (history, tasks, events and notes) - the merged lead is deleted
+router.post('/:id/merge', authenticateToken, async (req: any, res: any) => {
+  try {
+    const targetId = parseInt(req.params.id);
+    const sourceId = parseInt(req.body.sourceLeadId);
+    
+    if (!sourceId) {
+      return res.status(400).json({ error: 'Source lead ID is required' });
+    }
+    
+    if (sourceId === targetId) {
+      return res.status(400).json({ error: 'Cannot merge a lead into itself' });
+    }
+    
+    const targetLead = await LeadModel.findById(targetId);
+    const sourceLead = await LeadModel.findById(sourceId);
+    if (!targetLead || !sourceLead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    if (Number(targetLead.client_id) !== Number(sourceLead.client_id)) {
+      return res.status(400).json({ error: 'Cannot merge leads of different clients' });
+    }
+    
+    // Check if user has permission to update both leads
+    let hasPermission = false;
+    
+    // Admin can merge any leads
+    if (req.user.role === 'admin') {
+      hasPermission = true;
+    }
+    // Manager can merge leads of their client assigned to them or to their agents - the source lead is deleted
+    else if (req.user.role === 'manager') {
+      const { UserModel } = await import('../models/User.js');
+      const agents = await UserModel.findByManagerId(req.user.id);
+      const teamIds = [Number(req.user.id), ...agents.map(agent => Number(agent.id))];
+      hasPermission = Number(targetLead.client_id) === Number(req.user.client_id)
+        && [targetLead, sourceLead].every(lead => teamIds.includes(Number(lead.assigned_to)));
+    }
+    // Agent can merge only their own leads
+    else if (req.user.role === 'agent') {
+      const agentId = Number(req.user.id);
+      hasPermission = Number(targetLead.assigned_to) === agentId && Number(sourceLead.assigned_to) === agentId;
+    }
+    
+    if (!hasPermission) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    const lead = await LeadModel.merge(targetId, sourceId, req.user.id);
+    
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    res.json({ lead, mergedLeadId: sourceId });
+  } catch (error) {
+    console.error('Error merging leads:', error);
+    res.status(500).json({ error: 'Failed to merge leads' });
+  }
+});
+
+// Get why the lead was assigned to its agent (managers and admins)
+router.get('/:id/assignment-log', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    const lead = await LeadModel.findById(parseInt(req.params.id));
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    const { LeadAssignmentLogModel } = await import('../models/LeadAssignmentLog.js');
+    const assignments = await LeadAssignmentLogModel.findByLeadId(lead.id);
+    
+    res.json({ assignments });
+  } catch (error) {
+    console.error('Error fetching lead assignment log:', error);
+    res.status(500).json({ error: 'Failed to fetch lead assignment log' });
+  }
+});
+
+// Get the lead activity timeline (newest first, optional ?type=status,note&limit=&offset=)
+router.get('/:id/timeline', authenticateToken, async (req: any, res: any) => {
+  try {
+    const lead = await LeadModel.findById(parseInt(req.params.id));
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    // Same visibility as the lead itself - agents see only their own leads
+    if (req.user.role === 'agent' && Number(lead.assigned_to) !== Number(req.user.id)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const types = req.query.type ? String(req.query.type).split(',').map((type: string) => type.trim()).filter(Boolean) : [];
+    const unknownTypes = types.filter((type: string) => !LEAD_TIMELINE_TYPES.includes(type as LeadTimelineType));
+    if (unknownTypes.length > 0) {
+      return res.status(400).json({ error: 'Invalid timeline filter', details: unknownTypes.map((type: string) => `Unknown timeline type: ${type}`) });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 100, 1), TIMELINE_MAX_ENTRIES);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+    const { entries, total } = await LeadTimelineModel.findByLeadId(lead.id, {
+      types: types as LeadTimelineType[],
+      limit,
+      offset
+    });
+
+    res.json({ entries, total, limit, offset });
+  } catch (error) {
+    console.error('Error fetching lead timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch lead timeline' });
+  }
+});
+
+// Record a contact activity done outside the system (phone call, WhatsApp/email opened from the lead card)
+router.post('/:id/timeline', authenticateToken, async (req: any, res: any) => {
+  try {
+    const lead = await LeadModel.findById(parseInt(req.params.id));
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    if (req.user.role === 'agent' && Number(lead.assigned_to) !== Number(req.user.id)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    // Changes of the lead itself are recorded by the server - only activities can be added
+    const { type, description } = req.body;
+    if (!ACTIVITY_TIMELINE_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Type must be one of: ${ACTIVITY_TIMELINE_TYPES.join(', ')}` });
+    }
+
+    if (!description || typeof description !== 'string' || !description.trim()) {
+      return res.status(400).json({ error: 'Description is required' });
+    }
+
+    // Calls and messages are contacts - they are checked against the do-not-contact list like POST /:id/contact
+    if (type !== 'note') {
+      const channel: DncChannel = type === 'call' ? 'dialer' : req.body.metadata?.channel === 'email' ? 'email' : 'whatsapp';
+      const [entry] = await DoNotContactService.enforce(
+        lead.client_id ?? req.user.client_id ?? null,
+        [channel === 'email' ? { email: lead.email, lead_id: lead.id } : { phone: lead.phone, lead_id: lead.id }],
+        { channel, userId: req.user.id }
+      );
+      if (entry) {
+        return res.status(403).json({ error: 'Contact is on the do-not-contact list', entry });
+      }
+    }
+
+    const updated = await LeadModel.addTimelineEntry(lead.id, {
+      type,
+      description: description.trim().slice(0, 1000),
+      metadata: req.body.metadata && typeof req.body.metadata === 'object' ? req.body.metadata : {}
+    }, req.user.id);
+
+    res.status(201).json({ lead: updated });
+  } catch (error) {
+    console.error('Error adding lead timeline entry:', error);
+    res.status(500).json({ error: 'Failed to add lead timeline entry' });
+  }
+});
+
+// Contact a lead from the browser (call, WhatsApp or email link) - { channel, description }
+// The contact is checked against the do-not-contact list and recorded here; the browser opens the link only when allowed
+router.post('/:id/contact', withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const lead = await LeadModel.findById(parseInt(req.params.id));
+    if (!lead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+
+    if (req.user.role === 'agent' && Number(lead.assigned_to) !== Number(req.user.id)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { channel, description } = req.body;
+    const type = CONTACT_CHANNELS[channel as DncChannel];
+    if (!type) {
+      return res.status(400).json({ error: `Channel must be one of: ${Object.keys(CONTACT_CHANNELS).join(', ')}` });
+    }
+
+    if (!description || typeof description !== 'string' || !description.trim()) {
+      return res.status(400).json({ error: 'Description is required' });
+    }
+
+    // Calls and WhatsApp go to the phone, emails to the email address
+    const [entry] = await DoNotContactService.enforce(
+      lead.client_id ?? req.user.client_id ?? null,
+      [channel === 'email' ? { email: lead.email, lead_id: lead.id } : { phone: lead.phone, lead_id: lead.id }],
+      { channel, userId: req.user.id }
+    );
+    if (entry) {
+      return res.status(403).json({ error: 'Contact is on the do-not-contact list', entry });
+    }
+
+    const updated = await LeadModel.addTimelineEntry(lead.id, {
+      type,
+      description: description.trim().slice(0, 1000),
+      metadata: { channel }
+    }, req.user.id);
+
+    res.status(201).json({ lead: updated });
+  } catch (error) {
+    console.error('Error recording lead contact:', error);
+    res.status(500).json({ error: 'Failed to record lead contact' });
+  }
+}));
+
 // Delete lead
 router.delete('/:id', authenticateToken, async (req: any, res: any) => {
   try {
@@ -452,11 +1132,15 @@ router.delete('/:id', authenticateToken, async (req: any, res: any) => {
       return res.status(403).json({ error: 'Access denied' });
     }
     
+    const attachments = await AttachmentModel.findByParent('lead', existingLead.id);
     const deleted = await LeadModel.delete(parseInt(id));
     
     if (!deleted) {
       return res.status(404).json({ error: 'Lead not found' });
     }
+
+    // Remove the lead's files
+    await AttachmentService.removeAll(attachments);
     
     res.json({ message: 'Lead deleted successfully' });
   } catch (error) {
@@ -572,212 +1256,294 @@ router.get('/stats/count', authenticateToken, async (req: any, res: any) => {
   }
 });
 
-// Import leads from Excel
-router.post('/import/excel', authenticateToken, upload.single('file'), async (req: any, res) => {
+// Read the optional encoding and column mapping sent with an import upload
+function parseImportOptions(body: any): { encoding: ImportEncoding; mapping: ImportColumnMapping | null; error?: string } {
+  const encoding = body?.encoding || 'auto';
+  if (!['auto', 'utf-8', 'cp1255'].includes(encoding)) {
+    return { encoding: 'auto', mapping: null, error: 'encoding must be one of: auto, utf-8, cp1255' };
+  }
+
+  if (!body?.mapping) return { encoding, mapping: null };
+
+  try {
+    const mapping = typeof body.mapping === 'string' ? JSON.parse(body.mapping) : body.mapping;
+    const isValid = mapping && typeof mapping === 'object' && !Array.isArray(mapping) &&
+      Object.values(mapping).every(header => typeof header === 'string');
+    if (!isValid) {
+      return { encoding, mapping: null, error: 'mapping must be an object of lead field -> column header' };
+    }
+
+    // Empty selections mean "don't import this field"
+    return { encoding, mapping: Object.fromEntries(Object.entries(mapping as Record<string, string>).filter(([, header]) => header)) };
+  } catch {
+    return { encoding, mapping: null, error: 'mapping must be valid JSON' };
+  }
+}
+
+// Preview an import: detected mapping and per-row validation, nothing is saved
+router.post('/import/preview', authenticateToken, upload.single('file'), async (req: any, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    // Parse Excel file
-    const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData = XLSX.utils.sheet_to_json(worksheet);
+    const options = parseImportOptions(req.body);
+    if (options.error) {
+      return res.status(400).json({ error: options.error });
+    }
 
-    if (jsonData.length === 0) {
-      return res.status(400).json({ error: 'Excel file is empty' });
+    const file = LeadImportService.parseFile(req.file.buffer, req.file.originalname, req.file.mimetype, options.encoding);
+    if (file.rows.length === 0) {
+      return res.status(400).json({ error: 'File is empty' });
     }
 
-    // Smart column detection function
-    const detectColumnMapping = (data: any[]) => {
-      const firstRow = data[0];
-      const columnKeys = Object.keys(firstRow);
-      
-      // Different patterns to identify columns
-      const namePatterns = ['name', 'שם', 'full_name', 'fullname', 'customer', 'לקוח', 'שם מלא', 'Name', 'FullName', 'Customer'];
-      const phonePatterns = ['phone', 'טלפון', 'mobile', 'cell', 'נייד', 'telephone', 'Phone', 'Mobile', 'Cell', 'Telephone'];
-      const emailPatterns = ['email', 'אימייל', 'mail', 'e_mail', 'Email', 'Mail', 'E_mail', 'E-mail'];
-      
-      const mapping: any = {};
-      
-      // First try exact matches
-      for (const key of columnKeys) {
-        const lowerKey = key.toLowerCase();
-        
-        if (namePatterns.some(pattern => lowerKey.includes(pattern.toLowerCase()))) {
-          mapping.name = key;
-        } else if (phonePatterns.some(pattern => lowerKey.includes(pattern.toLowerCase()))) {
-          mapping.phone = key;
-        } else if (emailPatterns.some(pattern => lowerKey.includes(pattern.toLowerCase()))) {
-          mapping.email = key;
-        }
-      }
-      
-      // If no mapping found, try position-based detection (A, B, C columns)
-      if (!mapping.name || !mapping.phone) {
-        const keys = Object.keys(firstRow);
-        
-        // Check if values look like names/phones to auto-detect
-        for (let i = 0; i < Math.min(keys.length, 5); i++) {
-          const key = keys[i];
-          const values = data.slice(0, 5).map(row => row[key]).filter(v => v);
-          
-          if (!mapping.name && values.some(v => 
-            typeof v === 'string' && 
-            v.length > 2 && 
-            /^[א-ת\s\w]+$/.test(v) && 
-            !v.match(/^[\d\-\+\(\)\s]+$/)
-          )) {
-            mapping.name = key;
-          } else if (!mapping.phone && values.some(v => 
-            typeof v === 'string' && 
-            (v.match(/^[\d\-\+\(\)\s]+$/) || v.match(/05\d{8}/))
-          )) {
-            mapping.phone = key;
-          } else if (!mapping.email && values.some(v => 
-            typeof v === 'string' && v.includes('@')
-          )) {
-            mapping.email = key;
-          }
-        }
-      }
-      
-      return mapping;
-    };
+    const customFields = await CustomFieldService.getDefinitions(req.user.client_id, 'leads');
+    const detectedMapping = LeadImportService.detectMapping(file, customFields);
+    const mapping = options.mapping || detectedMapping;
+    const mappingErrors = LeadImportService.validateMapping(file, mapping, customFields);
+    const rows = mappingErrors.length > 0
+      ? []
+      : LeadImportService.buildRows(file, mapping, await getLeadStatuses(req.user.client_id), customFields);
+    const invalidRows = rows.filter(row => row.errors.length > 0);
 
-    // Detect column mapping
-    const columnMapping = detectColumnMapping(jsonData);
-    
-    if (!columnMapping.name && !columnMapping.phone) {
-      return res.status(400).json({ 
-        error: 'Could not detect name and phone columns. Please ensure your Excel has name and phone data in the first few columns.',
-        suggestion: 'Make sure column A has names and column B has phone numbers, or use clear column headers like "שם", "name", "טלפון", "phone"'
-      });
+    res.json({
+      format: file.format,
+      encoding: file.encoding,
+      headers: file.headers,
+      fields: IMPORT_FIELDS,
+      customFields,
+      detectedMapping,
+      mapping,
+      mappingErrors,
+      totalRows: file.rows.length,
+      validRows: rows.length - invalidRows.length,
+      invalidRows: invalidRows.length,
+      // First rows as they will be imported, plus every row that has a problem
+      sample: file.rows.slice(0, IMPORT_PREVIEW_ROWS).map(row => ({
+        ...row,
+        errors: rows.find(result => result.rowNumber === row.rowNumber)?.errors || [],
+        warnings: rows.find(result => result.rowNumber === row.rowNumber)?.warnings || []
+      })),
+      rowErrors: rows
+        .filter(row => row.errors.length > 0 || row.warnings.length > 0)
+        .slice(0, IMPORT_MAX_REPORTED_ROWS)
+        .map(({ rowNumber, errors, warnings }) => ({ rowNumber, errors, warnings }))
+    });
+  } catch (error) {
+    console.error('Error previewing lead import:', error);
+    res.status(500).json({ error: 'Failed to read import file' });
+  }
+});
+
+// Check that the current user may see an import job (its creator or an admin)
+async function findVisibleImportJob(user: any, id: number) {
+  const job = await LeadImportJobModel.findById(id);
+  if (!job) return null;
+  if (user.role !== 'admin' && job.created_by !== user.id) return null;
+  return job;
+}
+
+// Start a background import with an explicit column mapping - rows with errors are reported per row
+// Uploading the same file with the same mapping again returns the existing job instead of importing twice
+router.post('/import/jobs', authenticateToken, upload.single('file'), async (req: any, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    // Validate and transform data
-    const leadsData: BulkLeadData[] = [];
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const options = parseImportOptions(req.body);
+    if (options.error) {
+      return res.status(400).json({ error: options.error });
+    }
+    if (!options.mapping) {
+      return res.status(400).json({ error: 'Column mapping is required' });
+    }
 
-    for (let i = 0; i < jsonData.length; i++) {
-      const row = jsonData[i] as any;
-      const rowNumber = i + 2; // +2 because Excel starts from 1 and we have headers
+    const file = LeadImportService.parseFile(req.file.buffer, req.file.originalname, req.file.mimetype, options.encoding);
+    if (file.rows.length === 0) {
+      return res.status(400).json({ error: 'File is empty' });
+    }
 
-      // Extract data using detected mapping
-      const name = columnMapping.name ? row[columnMapping.name] : '';
-      const phone = columnMapping.phone ? row[columnMapping.phone] : '';
-      const email = columnMapping.email ? row[columnMapping.email] : '';
+    const customFields = await CustomFieldService.getDefinitions(req.user.client_id, 'leads');
+    const mappingErrors = LeadImportService.validateMapping(file, options.mapping, customFields);
+    if (mappingErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid column mapping', details: mappingErrors });
+    }
 
-      // Validate required fields
-      if (!name || typeof name !== 'string' || name.trim() === '') {
-        errors.push(`Row ${rowNumber}: Name is required (found in column: ${columnMapping.name || 'not detected'})`);
-        continue;
-      }
+    const fileHash = crypto.createHash('sha256')
+      .update(req.file.buffer)
+      .update(JSON.stringify(Object.entries(options.mapping).sort()))
+      .update(options.encoding)
+      .digest('hex');
 
-      if (!phone || typeof phone !== 'string' || phone.trim() === '') {
-        errors.push(`Row ${rowNumber}: Phone is required (found in column: ${columnMapping.phone || 'not detected'})`);
-        continue;
-      }
+    const existingJob = await LeadImportJobModel.findByHash(req.user.client_id, fileHash);
+    if (existingJob) {
+      return res.json({ job: existingJob, reused: true });
+    }
 
-      // Clean and validate phone number
-      const cleanPhone = phone.toString().replace(/[\s\-\(\)]/g, '');
-      if (!cleanPhone.match(/^[\d\+]+$/) || cleanPhone.length < 9) {
-        warnings.push(`Row ${rowNumber}: Phone number "${phone}" might be invalid`);
-      }
+    const job = await LeadImportJobModel.create({
+      client_id: req.user.client_id,
+      created_by: req.user.id,
+      filename: req.file.originalname,
+      file_data: req.file.buffer,
+      file_hash: fileHash,
+      encoding: options.encoding,
+      mapping: options.mapping
+    });
 
-      // Transform data
-      const leadData: BulkLeadData = {
-        name: name.toString().trim(),
-        phone: cleanPhone,
-        email: email ? email.toString().trim() : '',
-        status: 'new',
-        source: 'excel_import',
-        followup_date: undefined,
-        followup_time: undefined,
-        notes: undefined
-      };
+    LeadImportJobs.enqueue(job.id);
 
-      // Basic email validation
-      if (leadData.email && !leadData.email.includes('@')) {
-        warnings.push(`Row ${rowNumber}: Email "${leadData.email}" might be invalid`);
-      }
+    res.status(202).json({ job, reused: false });
+  } catch (error) {
+    console.error('Error creating lead import job:', error);
+    res.status(500).json({ error: 'Failed to start import' });
+  }
+});
+
+// Get the recent import jobs of the current user
+router.get('/import/jobs', authenticateToken, async (req: any, res) => {
+  try {
+    const jobs = await LeadImportJobModel.findByCreator(req.user.id);
+    res.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching lead import jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch import jobs' });
+  }
+});
+
+// Get import job progress
+router.get('/import/jobs/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const job = await findVisibleImportJob(req.user, parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+
+    res.json({ job });
+  } catch (error) {
+    console.error('Error fetching lead import job:', error);
+    res.status(500).json({ error: 'Failed to fetch import job' });
+  }
+});
 
-      leadsData.push(leadData);
+// Download the failed and skipped rows of an import job as Excel, with the reason per row
+router.get('/import/jobs/:id/errors', authenticateToken, async (req: any, res) => {
+  try {
+    const job = await findVisibleImportJob(req.user, parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
     }
 
+    // The original values come from the stored file
+    const storedJob = await LeadImportJobModel.findByIdWithFile(job.id);
+    const file = LeadImportService.parseFile(storedJob!.file_data!, job.filename, undefined, job.encoding as ImportEncoding);
+    const valuesByRow = new Map(file.rows.map(row => [row.rowNumber, row.values]));
+
+    const sheetRows = job.row_errors.map(rowError => ({
+      'שורה': rowError.rowNumber,
+      'תוצאה': rowError.type === 'failed' ? 'נכשל' : 'דולג',
+      'סיבה': rowError.reason,
+      ...valuesByRow.get(rowError.rowNumber)
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    const worksheet = XLSX.utils.json_to_sheet(sheetRows, { header: ['שורה', 'תוצאה', 'סיבה', ...file.headers] });
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'שורות שלא יובאו');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="import-${job.id}-errors.xlsx"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error exporting lead import errors:', error);
+    res.status(500).json({ error: 'Failed to export import errors' });
+  }
+});
+
+// Re-run a finished import job - failed rows are retried, rows that were already imported are not created again
+router.post('/import/jobs/:id/rerun', authenticateToken, async (req: any, res) => {
+  try {
+    const job = await findVisibleImportJob(req.user, parseInt(req.params.id));
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+
+    const resetJob = await LeadImportJobModel.resetForRerun(job.id);
+    if (!resetJob) {
+      return res.status(409).json({ error: 'Import job is still running' });
+    }
+
+    LeadImportJobs.enqueue(resetJob.id);
+
+    res.status(202).json({ job: resetJob });
+  } catch (error) {
+    console.error('Error re-running lead import job:', error);
+    res.status(500).json({ error: 'Failed to re-run import job' });
+  }
+});
+
+// Import leads from Excel/CSV in one step (automatic column detection)
+router.post('/import/excel', authenticateToken, upload.single('file'), async (req: any, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const file = LeadImportService.parseFile(req.file.buffer, req.file.originalname, req.file.mimetype);
+    if (file.rows.length === 0) {
+      return res.status(400).json({ error: 'Excel file is empty' });
+    }
+
+    // Detect column mapping
+    const customFields = await CustomFieldService.getDefinitions(req.user.client_id, 'leads');
+    const columnMapping = LeadImportService.detectMapping(file, customFields);
+    
+    if (!columnMapping.name && !columnMapping.phone) {
+      return res.status(400).json({ 
+        error: 'Could not detect name and phone columns. Please ensure your Excel has name and phone data in the first few columns.',
+        suggestion: 'Make sure column A has names and column B has phone numbers, or use clear column headers like "שם", "name", "טלפון", "phone"'
+      });
+    }
+
+    // Validate and transform data
+    const rows = LeadImportService.buildRows(file, columnMapping, await getLeadStatuses(req.user.client_id), customFields);
+    const errors = rows.flatMap(row => row.errors.map(error => `Row ${row.rowNumber}: ${error}`));
+    const warnings = rows.flatMap(row => row.warnings.map(warning => `Row ${row.rowNumber}: ${warning}`));
+    const validRows = rows
+      .filter(row => row.lead)
+      .map(row => ({ rowNumber: row.rowNumber, lead: row.lead! }));
+
     if (errors.length > 0) {
       return res.status(400).json({ 
         error: 'Validation errors found', 
         errors,
         warnings,
-        validRows: leadsData.length,
-        totalRows: jsonData.length,
+        validRows: validRows.length,
+        totalRows: file.rows.length,
         detectedColumns: columnMapping
       });
     }
 
-    // Import leads to database
-    const leadsDataWithUser = leadsData.map(lead => ({
-      ...lead,
-      assigned_to: req.user.id,
-      client_id: req.user.client_id || null
-    }));
-    const importedLeads = await LeadModel.createBulk(leadsDataWithUser);
-
-    // Create unified events for leads with follow-up dates
-    const leadsWithCallbacks = importedLeads.filter(lead => 
-      lead.callback_date && lead.callback_time
-    );
-    
-    if (leadsWithCallbacks.length > 0) {
-      try {
-        const { UnifiedEventModel } = await import('../models/UnifiedEvent.js');
-        
-        for (const lead of leadsWithCallbacks) {
-          try {
-            // Combine date and time into ISO string with Jerusalem timezone handling
-            const startTime = `${lead.callback_date}T${lead.callback_time}:00.000Z`;
-            const endTime = `${lead.callback_date}T${lead.callback_time}:30.000Z`; // 30 minutes duration
-            
-            const eventData = {
-              title: `שיחה חוזרת - ${lead.name}`,
-              description: `שיחה חוזרת עם ${lead.name} (${lead.phone})${lead.notes ? ` - ${lead.notes}` : ''}`,
-              eventType: 'reminder' as const,
-              startTime: startTime,
-              endTime: endTime,
-              advanceNotice: 30, // 30 minutes advance notice
-              isActive: true,
-              notified: false,
-              customerName: undefined, // Don't set customer name when created from leads
-              leadId: lead.id
-            };
-            
-            await UnifiedEventModel.createEventFromLead(req.user.id, eventData);
-          } catch (eventError) {
-            console.error(`Error creating unified event for imported lead ${lead.id}:`, eventError);
-            // Continue with other leads even if one fails
-          }
-        }
-        
-        console.log(`Created unified events for ${leadsWithCallbacks.length} imported leads with callbacks`);
-      } catch (eventError) {
-        console.error('Error creating unified events for imported leads:', eventError);
-        // Don't fail the import if event creation fails
-      }
-    }
+    const result = await LeadImportService.importLeads(req.user, validRows);
 
     res.json({
       message: 'Leads imported successfully',
-      imported: importedLeads.length,
-      total: jsonData.length,
-      leads: importedLeads,
+      imported: result.leads.length,
+      skipped: result.skipped,
+      attached: result.attached,
+      blocked: result.blocked,
+      total: file.rows.length,
+      leads: result.leads,
       detectedColumns: columnMapping,
       warnings: warnings.length > 0 ? warnings : undefined,
+      duplicates: result.duplicates.length > 0 ? result.duplicates : undefined,
       summary: {
-        totalRows: jsonData.length,
-        successfulImports: importedLeads.length,
+        totalRows: file.rows.length,
+        successfulImports: result.leads.length,
+        skippedDuplicates: result.skipped - result.blocked,
+        attachedDuplicates: result.attached,
+        blockedDoNotContact: result.blocked,
+        duplicatePolicy: result.duplicatePolicy,
         warnings: warnings.length,
         columnsDetected: {
           name: columnMapping.name || 'Auto-detected',
@@ -868,7 +1634,7 @@ router.patch('/bulk-assign', authenticateToken, async (req: any, res: any) => {
         
         const updatedLead = await LeadModel.update(parseInt(leadId), { 
           assigned_to: parseInt(assignedTo) 
-        });
+        }, req.user.id);
         
         if (updatedLead) {
           successCount++;
@@ -896,6 +1662,179 @@ router.patch('/bulk-assign', authenticateToken, async (req: any, res: any) => {
   }
 });
 
+// Bulk add/remove tags - { leadIds, add: [...], remove: [...] }
+router.patch('/bulk-tags', authenticateToken, bulkActionHandler('tags', 'Bulk tagging completed'));
+
+// Bulk status change - { leadIds, status } (statuses that need approval must be changed one by one)
+router.patch('/bulk-status', authenticateToken, bulkActionHandler('status', 'Bulk status change completed'));
+
+// Bulk callback date - { leadIds, callbackDate, callbackTime? }
+router.patch('/bulk-callback', authenticateToken, bulkActionHandler('callback', 'Bulk callback update completed'));
+
+// Bulk delete - { leadIds } (admins and managers can undo it for a while)
+router.post('/bulk-delete', authenticateToken, bulkActionHandler('delete', 'Bulk delete completed'));
+
+// Bulk convert to customers - { leadIds }
+router.post('/bulk-convert', authenticateToken, bulkActionHandler('convert', 'Bulk conversion completed'));
+
+// Undo a bulk action (managers and admins, within the undo window)
+router.post('/bulk-batches/:batchId/undo', authenticateToken, async (req: any, res: any) => {
+  try {
+    const batch = await LeadBulkBatchModel.findById(parseInt(req.params.batchId));
+    if (!batch) {
+      return res.status(404).json({ error: 'Bulk action not found' });
+    }
+
+    const denied = LeadBulkActionService.checkUndo(batch, req.user);
+    if (denied) {
+      return res.status(denied.statusCode).json({ error: denied.error });
+    }
+
+    const result = await LeadBulkBatchModel.undo(batch.id, req.user.id);
+    if (!result) {
+      return res.status(409).json({ error: 'The bulk action was already undone or can no longer be undone' });
+    }
+
+    if (batch.action === 'status' || batch.action === 'convert') {
+      for (const leadId of result.restoredLeadIds) {
+        LeadModel.rescore(leadId).catch(error => console.error(`Error rescoring lead ${leadId}:`, error));
+      }
+    }
+    // Remove the files of the customers that were removed
+    await AttachmentService.removeAll(result.removedAttachments);
+
+    res.json({
+      message: 'Bulk action undone',
+      batch: result.batch,
+      restoredCount: result.restoredLeadIds.length,
+      skippedCount: result.skippedLeadIds.length
+    });
+  } catch (error) {
+    console.error('Error undoing bulk action:', error);
+    res.status(500).json({ error: 'Failed to undo bulk action' });
+  }
+});
+
+// Get pending status change approvals (managers and admins)
+router.get('/approvals/pending', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can view approvals' });
+    }
+    
+    let approvals;
+    if (req.user.role === 'admin') {
+      approvals = await LeadStatusApprovalModel.findPending();
+    } else {
+      // Manager sees requests for leads of their agents + their own leads
+      const { UserModel } = await import('../models/User.js');
+      const agents = await UserModel.findByManagerId(req.user.id);
+      const agentIds = agents.map(agent => agent.id);
+      agentIds.push(req.user.id); // Include manager's own leads
+      
+      approvals = await LeadStatusApprovalModel.findPending(agentIds);
+    }
+    
+    res.json({ approvals, total: approvals.length });
+  } catch (error) {
+    console.error('Error fetching status approvals:', error);
+    res.status(500).json({ error: 'Failed to fetch status approvals' });
+  }
+});
+
+// Get lead rescore job status (admin only)
+router.get('/scoring/status', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    res.json(LeadScoringJobs.getStatus());
+  } catch (error) {
+    console.error('Error getting lead scoring status:', error);
+    res.status(500).json({ error: 'Failed to get lead scoring status' });
+  }
+});
+
+// Manually rescore all leads (admin only)
+router.post('/scoring/rescore', authenticateToken, async (req: any, res: any) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const result = await LeadScoringJobs.triggerRescore();
+    res.json({ message: 'Lead rescore completed successfully', ...result });
+  } catch (error: any) {
+    console.error('Error triggering lead rescore:', error);
+    res.status(500).json({ error: 'Failed to rescore leads', details: error.message });
+  }
+});
+
+// Approve or reject a pending status change
+router.post('/approvals/:approvalId/:decision', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { approvalId, decision } = req.params;
+    
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(404).json({ error: 'Unknown approval action' });
+    }
+    
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+      return res.status(403).json({ error: 'Access denied. Only admins and managers can review approvals' });
+    }
+    
+    const approval = await LeadStatusApprovalModel.findById(parseInt(approvalId));
+    if (!approval || approval.status !== 'pending') {
+      return res.status(404).json({ error: 'Pending approval not found' });
+    }
+    
+    const existingLead = await LeadModel.findById(approval.lead_id);
+    if (!existingLead) {
+      return res.status(404).json({ error: 'Lead not found' });
+    }
+    
+    // Managers can review only requests for their team's leads
+    if (req.user.role === 'manager') {
+      const { UserModel } = await import('../models/User.js');
+      const agents = await UserModel.findByManagerId(req.user.id);
+      const agentIds = agents.map(agent => agent.id);
+      agentIds.push(req.user.id);
+      
+      if (!agentIds.includes(Number(existingLead.assigned_to))) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+    }
+    
+    if (decision === 'approve') {
+      // The lead may have moved since the request - check the transition again
+      const leadStatuses = await getLeadStatuses(existingLead.client_id);
+      const transition = checkStatusTransition(leadStatuses, existingLead.status, approval.to_status, req.user.role);
+      
+      if (!transition.allowed) {
+        return res.status(transition.statusCode || 400).json({ error: transition.error });
+      }
+    }
+    
+    // Reviewed together with the timeline entry and status change - only one reviewer gets through
+    const reviewed = await LeadStatusApprovalModel.review(
+      approval.id,
+      decision === 'approve' ? 'approved' : 'rejected',
+      req.user.id,
+      req.body.note,
+      existingLead.status
+    );
+    if (!reviewed) {
+      return res.status(409).json({ error: 'The request was already reviewed or the lead changed - please reload' });
+    }
+    
+    res.json(reviewed);
+  } catch (error) {
+    console.error('Error reviewing status approval:', error);
+    res.status(500).json({ error: 'Failed to review status approval' });
+  }
+});
+
 // Download Excel template
 router.get('/template/excel', authenticateToken, (req, res) => {
   try {
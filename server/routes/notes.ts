@@ -0,0 +1,156 @@
+import express from 'express';
+import { NoteModel, NoteParentType } from '../models/Note.js';
+import { LeadModel } from '../models/Lead.js';
+import { CustomerModel } from '../models/Customer.js';
+import { NoteService, NoteParent } from '../services/notes.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const PARENT_NAMES: Record<NoteParentType, string> = {
+  lead: 'Lead',
+  customer: 'Customer'
+};
+
+// Load the record with the same visibility rules as its own GET route
+async function findVisibleParent(parentType: NoteParentType, id: number, user: any): Promise<NoteParent | 'not_found' | 'forbidden'> {
+  if (parentType === 'lead') {
+    const lead = await LeadModel.findById(id);
+    if (!lead) return 'not_found';
+    if (user.role === 'agent' && Number(lead.assigned_to) !== Number(user.id)) return 'forbidden';
+    return { type: parentType, id, clientId: lead.client_id ?? user.client_id ?? null, name: lead.name };
+  }
+
+  const customer = await CustomerModel.findById(id);
+  if (!customer) return 'not_found';
+  if (customer.created_by !== user.id) return 'forbidden';
+  return { type: parentType, id, clientId: customer.client_id ?? user.client_id ?? null, name: customer.full_name };
+}
+
+/**
+ * Note routes of a record type - mounted under /:id/notes of the record's router
+ */
+export function createNoteRoutes(parentType: NoteParentType) {
+  const router = express.Router({ mergeParams: true });
+  const parentName = PARENT_NAMES[parentType];
+
+  // Resolve the record of the request, or answer with 404/403
+  const resolveParent = async (req: any, res: any): Promise<NoteParent | null> => {
+    const parent = await findVisibleParent(parentType, parseInt(req.params.id), req.user);
+    if (parent === 'not_found') {
+      res.status(404).json({ error: `${parentName} not found` });
+      return null;
+    }
+    if (parent === 'forbidden') {
+      res.status(403).json({ error: 'Access denied' });
+      return null;
+    }
+    return parent;
+  };
+
+  // Get the record's notes as threads (newest thread first)
+  router.get('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const notes = await NoteModel.findByParent(parentType, parent.id);
+      res.json({ threads: NoteService.toThreads(notes), total: notes.length });
+    } catch (error) {
+      console.error(`Error fetching ${parentType} notes:`, error);
+      res.status(500).json({ error: 'Failed to fetch notes' });
+    }
+  });
+
+  // Get the users that can be mentioned in the record's notes
+  router.get('/mentionable', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const users = await NoteModel.findMentionable(parent.clientId);
+      res.json({ users });
+    } catch (error) {
+      console.error(`Error fetching mentionable users of ${parentType} notes:`, error);
+      res.status(500).json({ error: 'Failed to fetch mentionable users' });
+    }
+  });
+
+  // Add a note or a reply ({ body, replyToId? })
+  router.post('/', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const { request, errors } = NoteService.parseRequest(req.body);
+      if (!request) {
+        return res.status(400).json({ error: 'Invalid note', details: errors });
+      }
+
+      const note = await NoteService.create(parent, request, req.user.id);
+      if (!note) {
+        return res.status(404).json({ error: 'Note to reply to not found' });
+      }
+
+      res.status(201).json({ note });
+    } catch (error) {
+      console.error(`Error adding ${parentType} note:`, error);
+      res.status(500).json({ error: 'Failed to add note' });
+    }
+  });
+
+  // Edit a note ({ body }) - the author only
+  router.put('/:noteId', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const note = await NoteModel.findForParent(parseInt(req.params.noteId), parentType, parent.id);
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      if (note.author_id !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied. Only the author can edit this note' });
+      }
+
+      const { request, errors } = NoteService.parseRequest({ body: req.body?.body });
+      if (!request) {
+        return res.status(400).json({ error: 'Invalid note', details: errors });
+      }
+
+      const updated = await NoteService.update(parent, note, request.body, req.user.id);
+      res.json({ note: updated });
+    } catch (error) {
+      console.error(`Error updating ${parentType} note:`, error);
+      res.status(500).json({ error: 'Failed to update note' });
+    }
+  });
+
+  // Delete a note - the author only, and only before it was replied to
+  router.delete('/:noteId', authenticateToken, async (req: any, res: any) => {
+    try {
+      const parent = await resolveParent(req, res);
+      if (!parent) return;
+
+      const note = await NoteModel.findForParent(parseInt(req.params.noteId), parentType, parent.id);
+      if (!note) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+
+      if (note.author_id !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied. Only the author can delete this note' });
+      }
+
+      if (await NoteModel.hasReplies(note.id)) {
+        return res.status(409).json({ error: 'Note has replies and cannot be deleted' });
+      }
+
+      await NoteModel.delete(note, req.user.id);
+      res.json({ message: 'Note deleted successfully' });
+    } catch (error) {
+      console.error(`Error deleting ${parentType} note:`, error);
+      res.status(500).json({ error: 'Failed to delete note' });
+    }
+  });
+
+  return router;
+}
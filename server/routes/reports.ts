@@ -1,11 +1,26 @@
 import express, { Request, Response } from 'express';
 import { LeadModel } from '../models/Lead.js';
 import { CustomerModel } from '../models/Customer.js';
+import { LeadSlaModel } from '../models/LeadSla.js';
 import { authenticateToken, AuthenticatedRequest, withAuth } from '../middleware/auth.js';
 import { query } from '../database/connection.js';
+import { LeadSegmentService } from '../services/leadSegments.js';
+import { parseLeadFilters } from '../utils/leadFilters.js';
 
 const router = express.Router();
 
+// Narrow lead report queries to a saved segment (?segment=<id>) - conditions are appended to the user's WHERE clause
+async function applySegment(segmentParam: any, user: any, whereClause: string, params: any[]): Promise<{ whereClause: string; error?: { status: number; message: string } }> {
+  if (segmentParam === undefined || segmentParam === '') return { whereClause };
+
+  const resolved = await LeadSegmentService.resolveQuery({ segment: segmentParam }, user);
+  if (resolved.error) return { whereClause, error: resolved.error };
+
+  const { filters } = parseLeadFilters(resolved.query);
+  const conditions = LeadModel.buildFilterConditions(filters, params);
+  return { whereClause: conditions.length > 0 ? `${whereClause} AND ${conditions.join(' AND ')}` : whereClause };
+}
+
 // Get comprehensive reports data
 router.get('/dashboard', authenticateToken, async (req: any, res) => {
   try {
@@ -33,6 +48,13 @@ router.get('/dashboard', authenticateToken, async (req: any, res) => {
     leadParams = [userId];
     customerParams = [userId];
 
+    // Lead figures can be narrowed to a segment - customer figures are not
+    const segmentScope = await applySegment(req.query.segment, req.user, leadWhereClause, leadParams);
+    if (segmentScope.error) {
+      return res.status(segmentScope.error.status).json({ error: segmentScope.error.message });
+    }
+    leadWhereClause = segmentScope.whereClause;
+
     console.log('Reports filtering - ONLY USER DATA:', { 
       leadWhereClause, 
       customerWhereClause, 
@@ -88,6 +110,26 @@ router.get('/dashboard', authenticateToken, async (req: any, res) => {
     );
     const sourceDistribution = sourceDistributionResult.rows;
 
+    // 6b. Lead score distribution (classification stored by the scoring service)
+    const scoreDistributionResult = await query(
+      `SELECT 
+         COALESCE(score_classification, 'לא דורג') as classification,
+         COUNT(*) as count,
+         ROUND(AVG(score), 1) as avg_score
+       FROM leads 
+       ${leadWhereClause}
+       GROUP BY score_classification 
+       ORDER BY avg_score DESC NULLS LAST`,
+      leadParams
+    );
+    const scoreDistribution = scoreDistributionResult.rows;
+
+    const averageScoreResult = await query(
+      `SELECT ROUND(AVG(score), 1) as average FROM leads ${leadWhereClause}`,
+      leadParams
+    );
+    const averageScore = parseFloat(averageScoreResult.rows[0].average) || 0;
+
     // 7. Payment status distribution with amounts
     const paymentStatusResult = await query(
       `SELECT 
@@ -148,6 +190,22 @@ router.get('/dashboard', authenticateToken, async (req: any, res) => {
     const weekGrowth = previousWeekLeads > 0 ? 
       (((newLeadsThisWeek - previousWeekLeads) / previousWeekLeads) * 100) : 0;
 
+    // 11. Response-time SLA of the period - breaches are escalated to managers,
+    // so managers see their team and admins their client (not only their own leads)
+    let slaWhereClause = 'WHERE assigned_to = $1';
+    let slaParams: any[] = [userId];
+    if (isAdmin) {
+      slaWhereClause = clientId ? 'WHERE client_id = $1' : 'WHERE TRUE';
+      slaParams = clientId ? [clientId] : [];
+    } else if (req.user.role === 'manager') {
+      const { UserModel } = await import('../models/User.js');
+      const agents = await UserModel.findByManagerId(userId);
+      slaWhereClause = 'WHERE assigned_to = ANY($1::int[])';
+      slaParams = [[...agents.map(agent => agent.id), Number(userId)]];
+    }
+    const slaScope = await applySegment(req.query.segment, req.user, slaWhereClause, slaParams);
+    const sla = await LeadSlaModel.getStats(slaScope.whereClause, slaParams, startDate);
+
     // Return real data with payment status distribution
     const realData = {
       summary: {
@@ -158,21 +216,25 @@ router.get('/dashboard', authenticateToken, async (req: any, res) => {
         totalCustomers,
         totalRevenue,
         conversionRate: parseFloat(conversionRate.toFixed(1)),
-        weekGrowth: parseFloat(weekGrowth.toFixed(1))
+        weekGrowth: parseFloat(weekGrowth.toFixed(1)),
+        averageScore
       },
       charts: {
         statusDistribution,
         sourceDistribution,
         recentActivity,
-        paymentStatusDistribution
+        paymentStatusDistribution,
+        scoreDistribution
       },
+      sla,
       _meta: {
         message: 'דוחות מוצגים עבור המשתמש הנוכחי בלבד - ללא נתוני נציגים',
         userId: userId,
         userRole: req.user.role,
         filterCriteria: {
           leads: 'assigned_to = current_user_id',
-          customers: 'created_by = current_user_id'
+          customers: 'created_by = current_user_id',
+          sla: 'agent - own leads, manager - team leads, admin - client leads'
         }
       }
     };
@@ -212,6 +274,12 @@ router.get('/leads/analytics', withAuth(async (req: AuthenticatedRequest, res) =
     // CONFIRMED: Everyone (admin/manager/agent) sees only their own data, no team data
     whereClause = 'WHERE assigned_to = $1';
     params = [userId];
+
+    const segmentScope = await applySegment(req.query.segment, req.user, whereClause, params);
+    if (segmentScope.error) {
+      return res.status(segmentScope.error.status).json({ error: segmentScope.error.message });
+    }
+    whereClause = segmentScope.whereClause;
     
     console.log('Lead Analytics filtering - ONLY USER DATA:', { 
       whereClause, 
@@ -228,9 +296,8 @@ router.get('/leads/analytics', withAuth(async (req: AuthenticatedRequest, res) =
          COUNT(l.id) as total_leads,
          COUNT(CASE WHEN l.customer_id IS NOT NULL THEN 1 END) as converted_leads,
          ROUND(COUNT(CASE WHEN l.customer_id IS NOT NULL THEN 1 END)::numeric / COUNT(l.id) * 100, 1) as conversion_rate
-       FROM leads l
+       FROM (SELECT * FROM leads ${whereClause}) l
        JOIN users u ON l.assigned_to = u.id
-       ${whereClause}
        GROUP BY u.id, u.first_name, u.last_name
        ORDER BY total_leads DESC`,
       params
@@ -283,11 +350,27 @@ router.get('/leads/analytics', withAuth(async (req: AuthenticatedRequest, res) =
       params
     );
 
+    // Conversion by lead score classification
+    const scoreAnalysisResult = await query(
+      `SELECT 
+         COALESCE(score_classification, 'לא דורג') as classification,
+         COUNT(*) as count,
+         ROUND(AVG(score), 1) as avg_score,
+         COUNT(CASE WHEN customer_id IS NOT NULL THEN 1 END) as converted_leads,
+         ROUND(COUNT(CASE WHEN customer_id IS NOT NULL THEN 1 END)::numeric / COUNT(*) * 100, 1) as conversion_rate
+       FROM leads 
+       ${whereClause}
+       GROUP BY score_classification
+       ORDER BY avg_score DESC NULLS LAST`,
+      params
+    );
+
     const realData = {
       userPerformance: userPerformanceResult.rows,
       qualityAnalysis: qualityAnalysisResult.rows,
       sourcePerformance: sourcePerformanceResult.rows,
       statusProgression: statusProgressionResult.rows,
+      scoreAnalysis: scoreAnalysisResult.rows,
       _meta: {
         message: 'אנליטיקה של לידים עבור המשתמש הנוכחי בלבד - ללא נתוני נציגים',
         userId: userId,
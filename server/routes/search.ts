@@ -0,0 +1,28 @@
+import express from 'express';
+import { GlobalSearchService } from '../services/globalSearch.js';
+import { authenticateToken } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Search leads, customers, tasks and events at once - ?q=&types=&limit= (see services/globalSearch.ts)
+// Results are grouped by entity type, best match first, and only include records the user may see
+router.get('/', authenticateToken, async (req: any, res: any) => {
+  try {
+    const { request, errors } = GlobalSearchService.parseRequest(req.query);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid search', details: errors });
+    }
+
+    const groups = await GlobalSearchService.search(request, req.user);
+    res.json({
+      query: request.term.text,
+      groups,
+      total: Object.values(groups).reduce((sum, results) => sum + results.length, 0)
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+});
+
+export default router;
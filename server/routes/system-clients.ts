@@ -1,5 +1,9 @@
 import express, { Response } from 'express';
 import { SystemClientModel } from '../models/SystemClient.js';
+import { CustomFieldService } from '../services/customFields.js';
+import { LeadSlaService } from '../services/leadSla.js';
+import { AutoStatusChangeService, PREVIEW_MAX_LEADS } from '../services/autoStatusChanges.js';
+import { DoNotContactService } from '../services/doNotContact.js';
 import { authenticateToken, AuthenticatedRequest, withAuth } from '../middleware/auth.js';
 
 const router = express.Router();
@@ -48,6 +52,30 @@ router.post('/', withAuth(async (req: AuthenticatedRequest, res: Response) => {
       return res.status(403).json({ error: 'Only admin users can create system clients' });
     }
     
+    if (req.body.custom_fields !== undefined) {
+      const customFieldErrors = CustomFieldService.validateDefinitions(req.body.custom_fields);
+      if (customFieldErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields', details: customFieldErrors });
+      }
+    }
+    
+    const slaErrors = LeadSlaService.validateSettings(req.body.settings?.sla);
+    if (slaErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid SLA settings', details: slaErrors });
+    }
+    
+    const dncErrors = DoNotContactService.validateSettings(req.body.settings?.dnc);
+    if (dncErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid do-not-contact settings', details: dncErrors });
+    }
+    
+    if (req.body.auto_status_changes !== undefined) {
+      const ruleErrors = AutoStatusChangeService.validateRules(req.body.auto_status_changes, req.body.lead_statuses || []);
+      if (ruleErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid workflow rules', details: ruleErrors });
+      }
+    }
+    
     const client = await SystemClientModel.create(req.body);
     res.status(201).json({ client });
   } catch (error) {
@@ -74,6 +102,32 @@ router.put('/:id', withAuth(async (req: AuthenticatedRequest, res: Response) =>
       return res.status(400).json({ error: 'Invalid client ID' });
     }
     
+    if (updates.custom_fields !== undefined) {
+      const customFieldErrors = CustomFieldService.validateDefinitions(updates.custom_fields);
+      if (customFieldErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields', details: customFieldErrors });
+      }
+    }
+    
+    const slaErrors = LeadSlaService.validateSettings(updates.settings?.sla);
+    if (slaErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid SLA settings', details: slaErrors });
+    }
+    
+    const dncErrors = DoNotContactService.validateSettings(updates.settings?.dnc);
+    if (dncErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid do-not-contact settings', details: dncErrors });
+    }
+    
+    if (updates.auto_status_changes !== undefined) {
+      // Rules are checked against the statuses saved together with them
+      const leadStatuses = updates.lead_statuses || (await SystemClientModel.getConfiguration(clientId))?.lead_statuses || [];
+      const ruleErrors = AutoStatusChangeService.validateRules(updates.auto_status_changes, leadStatuses);
+      if (ruleErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid workflow rules', details: ruleErrors });
+      }
+    }
+    
     const client = await SystemClientModel.update(clientId, updates);
     
     if (!client) {
@@ -183,14 +237,33 @@ router.put('/:id/config', withAuth(async (req: AuthenticatedRequest, res: Respon
     }
     
     const { id } = req.params;
-    const { lead_statuses, customer_statuses, payment_statuses, features, message_templates } = req.body;
+    const { lead_statuses, customer_statuses, payment_statuses, features, message_templates, settings, custom_fields } = req.body;
+    
+    if (custom_fields !== undefined) {
+      const customFieldErrors = CustomFieldService.validateDefinitions(custom_fields);
+      if (customFieldErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields', details: customFieldErrors });
+      }
+    }
+    
+    const slaErrors = LeadSlaService.validateSettings(settings?.sla);
+    if (slaErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid SLA settings', details: slaErrors });
+    }
+    
+    const dncErrors = DoNotContactService.validateSettings(settings?.dnc);
+    if (dncErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid do-not-contact settings', details: dncErrors });
+    }
     
     const client = await SystemClientModel.updateConfiguration(parseInt(id as string), {
       lead_statuses,
       customer_statuses,
       payment_statuses,
       features,
-      message_templates
+      message_templates,
+      settings,
+      custom_fields
     });
     
     if (!client) {
@@ -245,19 +318,50 @@ router.put('/:id/features', withAuth(async (req: AuthenticatedRequest, res: Resp
   }
 }));
 
-// Get workflow rules (placeholder - not implemented yet)
+// Generate (or rotate) the inbound lead-capture key - returned only once
+router.post('/:id/inbound-key', withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Only admin users can generate inbound keys
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admin users can generate inbound keys' });
+    }
+
+    const { id } = req.params;
+    const inboundKey = await SystemClientModel.regenerateInboundKey(parseInt(id as string));
+
+    if (!inboundKey) {
+      return res.status(404).json({ error: 'System client not found' });
+    }
+
+    res.json({
+      message: 'Inbound key generated successfully',
+      inbound_key: inboundKey,
+      endpoint: `/api/inbound/leads/${inboundKey}`
+    });
+  } catch (error) {
+    console.error('Error generating inbound key:', error);
+    res.status(500).json({ error: 'Failed to generate inbound key' });
+  }
+}));
+
+// Get workflow rules (automatic status changes)
 router.get('/:id/workflow', withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    // Workflow rules not implemented yet
-    res.json({ rules: [] });
+    const client = await SystemClientModel.findById(parseInt(id as string));
+    
+    if (!client) {
+      return res.status(404).json({ error: 'System client not found' });
+    }
+    
+    res.json({ rules: client.auto_status_changes || [] });
   } catch (error) {
     console.error('Error fetching workflow rules:', error);
     res.status(500).json({ error: 'Failed to fetch workflow rules' });
   }
 }));
 
-// Update workflow rules (placeholder - not implemented yet)
+// Update workflow rules - replaces the automatic status change rules
 router.put('/:id/workflow', withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
     // Only admin users can update workflow rules
@@ -268,14 +372,57 @@ router.put('/:id/workflow', withAuth(async (req: AuthenticatedRequest, res: Resp
     const { id } = req.params;
     const { rules } = req.body;
     
-    // Workflow rules not implemented yet
-    res.json({ message: 'Workflow rules updated successfully' });
+    const config = await SystemClientModel.getConfiguration(parseInt(id as string));
+    if (!config) {
+      return res.status(404).json({ error: 'System client not found' });
+    }
+    
+    const errors = AutoStatusChangeService.validateRules(rules, config.lead_statuses);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid workflow rules', details: errors });
+    }
+    
+    const saved = await SystemClientModel.updateAutoStatusChanges(parseInt(id as string), rules);
+    res.json({ message: 'Workflow rules updated successfully', rules: saved });
   } catch (error) {
     console.error('Error updating workflow rules:', error);
     res.status(500).json({ error: 'Failed to update workflow rules' });
   }
 }));
 
+// Dry run of an automatic status change rule - which leads it would move now (nothing is changed)
+// Body: { rule } - a saved or a new rule, enabled or not
+router.post('/:id/workflow/preview', withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only admin users can preview workflow rules' });
+    }
+    
+    const clientId = parseInt(req.params.id as string);
+    const config = await SystemClientModel.getConfiguration(clientId);
+    if (!config) {
+      return res.status(404).json({ error: 'System client not found' });
+    }
+    
+    const { rule } = req.body;
+    const errors = AutoStatusChangeService.validateRule(rule, config.lead_statuses);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid workflow rule', details: errors });
+    }
+    
+    const leads = await AutoStatusChangeService.findMatches(clientId, rule, config.lead_statuses);
+    res.json({
+      total: leads.length,
+      fromStatus: AutoStatusChangeService.resolveStatus(config.lead_statuses, rule.fromStatus),
+      toStatus: AutoStatusChangeService.resolveStatus(config.lead_statuses, rule.toStatus),
+      leads: leads.slice(0, PREVIEW_MAX_LEADS)
+    });
+  } catch (error) {
+    console.error('Error previewing workflow rule:', error);
+    res.status(500).json({ error: 'Failed to preview workflow rule' });
+  }
+}));
+
 // Get message templates
 router.get('/:id/templates', withAuth(async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -1,9 +1,31 @@
 import express, { Request, Response } from 'express';
-import { TaskModel } from '../models/Task.js';
+import { TaskModel, Task } from '../models/Task.js';
+import { LeadModel } from '../models/Lead.js';
+import { LeadChangeEntry } from '../services/leadTimeline.js';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth.js';
+import { createAttachmentRoutes } from './attachments.js';
+import { AttachmentService } from '../services/attachments.js';
+import { AttachmentModel } from '../models/Attachment.js';
 
 const router = express.Router();
 
+// Files attached to a task
+router.use('/:id/attachments', createAttachmentRoutes('task'));
+
+// Record a task change on the timeline of its lead - the task itself is already saved
+async function recordOnLeadTimeline(task: Task, entry: Omit<LeadChangeEntry, 'type'>, actorId: number) {
+  if (!task.lead_id) return;
+  try {
+    await LeadModel.addTimelineEntry(task.lead_id, {
+      ...entry,
+      type: 'task',
+      metadata: { task_id: task.id, ...entry.metadata }
+    }, actorId);
+  } catch (error) {
+    console.error('Error recording task on lead timeline:', error);
+  }
+}
+
 // Get all tasks
 router.get('/', authenticateToken, async (req: Request & {user?: any}, res: Response) => {
   try {
@@ -95,6 +117,10 @@ router.post('/', authenticateToken, async (req: Request & {user?: any}, res: Res
     };
     
     const task = await TaskModel.create(taskData);
+    await recordOnLeadTimeline(task, {
+      description: `נוצרה משימה: ${task.title}`,
+      after_values: { status: task.status, due_date: task.due_date, assigned_to: task.assigned_to ?? null }
+    }, req.user.id);
     res.status(201).json({ task });
   } catch (error) {
     console.error('Error creating task:', error);
@@ -125,6 +151,20 @@ router.put('/:id', authenticateToken, async (req: Request & {user?: any}, res: R
       return res.status(404).json({ error: 'Task not found' });
     }
     
+    if (task.status !== existingTask.status) {
+      await recordOnLeadTimeline(task, {
+        description: task.status === 'הושלם' ? `המשימה "${task.title}" הושלמה` : `סטטוס המשימה "${task.title}" שונה ל"${task.status}"`,
+        before_values: { status: existingTask.status },
+        after_values: { status: task.status }
+      }, req.user.id);
+    } else if (new Date(task.due_date).getTime() !== new Date(existingTask.due_date).getTime()) {
+      await recordOnLeadTimeline(task, {
+        description: `מועד המשימה "${task.title}" עודכן`,
+        before_values: { due_date: existingTask.due_date },
+        after_values: { due_date: task.due_date }
+      }, req.user.id);
+    }
+    
     res.json({ task });
   } catch (error) {
     console.error('Error updating task:', error);
@@ -148,12 +188,21 @@ router.delete('/:id', authenticateToken, async (req: Request & {user?: any}, res
       return res.status(403).json({ error: 'Access denied' });
     }
     
+    const attachments = await AttachmentModel.findByParent('task', existingTask.id);
     const deleted = await TaskModel.delete(parseInt(id as string));
     
     if (!deleted) {
       return res.status(404).json({ error: 'Task not found' });
     }
     
+    await recordOnLeadTimeline(existingTask, {
+      description: `המשימה "${existingTask.title}" נמחקה`,
+      before_values: { status: existingTask.status }
+    }, req.user.id);
+
+    // Remove the task's files
+    await AttachmentService.removeAll(attachments);
+    
     res.json({ message: 'Task deleted successfully' });
   } catch (error) {
     console.error('Error deleting task:', error);
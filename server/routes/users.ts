@@ -2,7 +2,10 @@ import * as express from 'express';
 import { Request, Response, NextFunction } from 'express';
 import { UserModel, User } from '../models/User.js';
 import { SystemClientModel } from '../models/SystemClient.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { UserOffboardingModel } from '../models/UserOffboarding.js';
+import { UserOffboardingService } from '../services/userOffboarding.js';
+import { authenticateToken, withAuth } from '../middleware/auth.js';
+import { formatPhone, toE164 } from '../utils/phone.js';
 import * as bcrypt from 'bcrypt';
 
 const router = express.Router();
@@ -431,6 +434,157 @@ router.delete('/:id/soft', authenticateToken, async (req: any, res: Response, ne
   }
 });
 
+// Find a user the requester may offboard - admins: anyone but themselves, managers: their own agents
+const findOffboardableUser = async (req: AuthenticatedRequest, res: Response): Promise<User | null> => {
+  const userId = parseInt(req.params.id as string);
+  if (isNaN(userId)) {
+    res.status(400).json({ error: 'Invalid user ID' });
+    return null;
+  }
+
+  if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+    res.status(403).json({ error: 'Access denied. Only admins and managers can offboard users' });
+    return null;
+  }
+
+  if (req.user.id === userId) {
+    res.status(400).json({ error: 'Cannot offboard your own account' });
+    return null;
+  }
+
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  if (req.user.role === 'manager' && (user.role !== 'agent' || user.manager_id !== req.user.id)) {
+    res.status(403).json({ error: 'Managers can only offboard their own agents' });
+    return null;
+  }
+
+  return user;
+};
+
+// Users who can take over the records - the manager's team, or the users of the departing user's client
+const findOffboardingCandidates = async (req: AuthenticatedRequest, departing: User): Promise<User[]> => {
+  let candidates: User[];
+  if (req.user.role === 'manager') {
+    const self = await UserModel.findById(req.user.id);
+    candidates = [...(self ? [self] : []), ...await UserModel.findByManagerId(req.user.id)];
+  } else if (departing.client_id) {
+    candidates = await UserModel.findByClientId(departing.client_id);
+  } else {
+    candidates = await UserModel.findAll(500, 0);
+  }
+
+  return candidates.filter(user => user.id !== departing.id && user.is_active);
+};
+
+const toUserSummary = (user: User) => ({
+  id: user.id,
+  name: `${user.first_name} ${user.last_name}`.trim(),
+  role: user.role
+});
+
+// Preview everything a user owns before offboarding them
+router.get('/:id/offboarding', withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await findOffboardableUser(req, res);
+    if (!user) return;
+
+    const book = await UserOffboardingModel.findBookOfBusiness(user.id);
+    const candidates = await findOffboardingCandidates(req, user);
+
+    res.json({
+      user: toUserSummary(user),
+      ...book,
+      counts: {
+        leads: book.leads.length,
+        customers: book.customers.length,
+        tasks: book.tasks.length,
+        events: book.events.length,
+        agents: book.agents.length
+      },
+      candidates: candidates.map(toUserSummary)
+    });
+  } catch (error: any) {
+    console.error('Error previewing user offboarding:', error);
+    res.status(500).json({ error: 'Failed to preview user offboarding' });
+  }
+}));
+
+// Reassign everything a user owns to one or more users and deactivate the account
+// Body: { targetUserIds, distribution: 'even' | 'least_open', successorManagerId?, dryRun? }
+router.post('/:id/offboarding', withAuth(async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await findOffboardableUser(req, res);
+    if (!user) return;
+
+    const { request, errors } = UserOffboardingService.parseRequest(req.body);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid offboarding request', details: errors });
+    }
+
+    if (request.successorManagerId && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Access denied. Only admins can choose a successor manager' });
+    }
+
+    if (req.user.role === 'manager') {
+      const teamIds = (await findOffboardingCandidates(req, user)).map(candidate => candidate.id);
+      if (request.targetUserIds.some(id => !teamIds.includes(id))) {
+        return res.status(403).json({
+          error: 'Access denied. Managers can only reassign records to their own agents or themselves'
+        });
+      }
+    }
+
+    const targets = (await Promise.all(request.targetUserIds.map(id => UserModel.findById(id))))
+      .filter((target): target is User => !!target);
+    const successor = request.successorManagerId ? await UserModel.findById(request.successorManagerId) : null;
+    const targetErrors = UserOffboardingService.validateTargets(user, targets, request, successor);
+    if (targetErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid offboarding request', details: targetErrors });
+    }
+
+    const configuration = user.client_id ? await SystemClientModel.getConfiguration(user.client_id) : null;
+    const finalStatuses = (configuration?.lead_statuses || []).filter(status => status.isFinal).map(status => status.name);
+
+    if (request.dryRun) {
+      const book = await UserOffboardingModel.findBookOfBusiness(user.id);
+      const plan = UserOffboardingService.plan(book, request.targetUserIds, request.distribution, { finalStatuses });
+      return res.json({
+        dryRun: true,
+        distribution: UserOffboardingService.summarize(plan, request.targetUserIds),
+        plan
+      });
+    }
+
+    const result = await UserOffboardingModel.offboard(user.id, {
+      targetUserIds: request.targetUserIds,
+      distribution: request.distribution,
+      finalStatuses,
+      successorManagerId: request.successorManagerId
+    }, req.user.id);
+
+    if (!result) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({
+      message: 'User offboarded successfully',
+      userId: user.id,
+      status: 'inactive',
+      distribution: UserOffboardingService.summarize(result.plan, request.targetUserIds),
+      agentsMoved: result.agentsMoved,
+      whatsappConnection: result.whatsappConnection
+    });
+  } catch (error: any) {
+    console.error('Error offboarding user:', error);
+    res.status(500).json({ error: 'Failed to offboard user' });
+  }
+}));
+
 // Get user call history
 // @ts-ignore
 router.get('/:id/call-history', authenticateToken, async (req: any, res: Response, next: NextFunction) => {
@@ -493,7 +647,12 @@ router.put('/:id/call-history', authenticateToken, async (req: any, res: Respons
     // Update user with new call history data
     const updatedUser = await UserModel.update(userId, {
       call_history: callHistory || [],
-      contacts: contacts || [],
+      // Contacts keep the number they were saved with, in display format, next to its E.164 form
+      contacts: (contacts || []).map((contact: any) => ({
+        ...contact,
+        phoneNumber: formatPhone(contact.phoneNumber),
+        phoneE164: toE164(contact.phoneNumber)
+      })),
       favorite_numbers: favoriteNumbers || [],
       recent_numbers: recentNumbers || [],
       call_settings: callSettings || {
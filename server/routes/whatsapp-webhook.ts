@@ -0,0 +1,100 @@
+import express from 'express';
+import crypto from 'crypto';
+import { WhatsAppConnectionModel } from '../models/WhatsAppConnection.js';
+import { DoNotContactModel } from '../models/DoNotContact.js';
+import { LeadModel } from '../models/Lead.js';
+import { DoNotContactService } from '../services/doNotContact.js';
+
+const router = express.Router();
+
+// Meta signs the raw body with the app secret (WHATSAPP_APP_SECRET)
+const hasValidSignature = (req: any, appSecret: string): boolean => {
+  const signature = String(req.headers['x-hub-signature-256'] || '');
+  const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(req.rawBody || '').digest('hex')}`;
+  return signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+};
+
+// Webhook verification (Meta sends the verify token set on one of the connections)
+router.get('/', async (req, res) => {
+  try {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    const challenge = req.query['hub.challenge'];
+
+    if (mode === 'subscribe' && typeof token === 'string' && await WhatsAppConnectionModel.hasWebhookVerifyToken(token)) {
+      return res.status(200).send(String(challenge ?? ''));
+    }
+
+    res.status(403).json({ error: 'Invalid verify token' });
+  } catch (error) {
+    console.error('Error verifying WhatsApp webhook:', error);
+    res.status(500).json({ error: 'Failed to verify webhook' });
+  }
+});
+
+// Incoming messages - STOP replies put the sender on the client's do-not-contact list
+router.post('/', async (req: any, res) => {
+  // Unsigned messages could put any number on the list - without the secret the webhook is disabled
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    return res.status(503).json({ error: 'WhatsApp webhook is not configured' });
+  }
+
+  if (!hasValidSignature(req, appSecret)) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  // Meta retries until it gets a 200, so errors are only logged
+  res.status(200).json({ received: true });
+
+  try {
+    for (const entry of req.body?.entry || []) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue;
+
+        const stopMessages = (change.value?.messages || [])
+          .filter((message: any) => message.type === 'text' && DoNotContactService.isStopMessage(message.text?.body));
+        if (stopMessages.length === 0) continue;
+
+        const connection = await WhatsAppConnectionModel.findActiveByPhoneNumberId(String(change.value?.metadata?.phone_number_id));
+        if (!connection) {
+          console.log('WhatsApp webhook message for an unknown phone number id:', change.value?.metadata?.phone_number_id);
+          continue;
+        }
+
+        for (const message of stopMessages) {
+          await registerStopReply(connection.client_id, message.from, message.text.body);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Error handling WhatsApp webhook:', error);
+  }
+});
+
+// Add the sender to the registry and note the request on the sender's leads
+async function registerStopReply(clientId: number | null, from: string, text: string): Promise<void> {
+  const key = DoNotContactService.toKey('phone', String(from || ''));
+  if (!key) return;
+
+  const leads = await LeadModel.findDuplicates(key.value, null, clientId);
+  const { created } = await DoNotContactModel.add({
+    ...key,
+    client_id: clientId,
+    source: 'stop_reply',
+    reason: `תגובת WhatsApp: "${text.trim()}"`,
+    lead_id: leads[0]?.id ?? null
+  });
+  if (!created) return;
+
+  console.log(`WhatsApp STOP reply - ${key.value} added to the do-not-contact list of client ${clientId}`);
+  for (const lead of leads) {
+    await LeadModel.addTimelineEntry(lead.id, {
+      type: 'message',
+      description: `התקבלה בקשת הסרה ב-WhatsApp ("${text.trim()}") - המספר נוסף לרשימת "אל תפנה"`,
+      metadata: { channel: 'whatsapp', do_not_contact: true }
+    });
+  }
+}
+
+export default router;
@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { WhatsAppConnectionModel } from '../models/WhatsAppConnection.js';
 import { UserModel } from '../models/User.js';
+import { LeadModel } from '../models/Lead.js';
+import { LeadSegmentService } from '../services/leadSegments.js';
+import { DoNotContactService } from '../services/doNotContact.js';
+import { parseLeadFilters } from '../utils/leadFilters.js';
+import { scopeAssignedTo } from '../utils/leadScope.js';
+import { phoneKey, toWhatsAppNumber } from '../utils/phone.js';
 import { validateInput } from '../middleware/security.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { z } from 'zod';
@@ -11,10 +17,17 @@ const router = Router();
 
 // Validation schemas
 const sendMessageSchema = z.object({
-  phone_numbers: z.array(z.string().min(1, 'Phone number is required')),
+  phone_numbers: z.array(z.string().min(1, 'Phone number is required')).default([]),
+  segment_id: z.number().int().positive().optional(),
   message: z.string().min(1, 'Message is required'),
+}).refine(data => data.phone_numbers.length > 0 || data.segment_id !== undefined, {
+  message: 'phone_numbers or segment_id is required',
+  path: ['phone_numbers'],
 });
 
+// מקסימום לידים בשליחה לסגמנט
+const SEGMENT_SEND_MAX_LEADS = 1000;
+
 const connectWhatsAppSchema = z.object({
   access_token: z.string().min(1, 'Access token is required'),
   phone_number_id: z.string().min(1, 'Phone number ID is required'),
@@ -217,9 +230,34 @@ router.put('/update', validateInput, requireManager, async (req: Request, res: R
 router.post('/send', validateInput, requireManagerOrAgent, async (req: Request, res: Response) => {
   try {
     const validatedData = sendMessageSchema.parse(req.body);
-    const { phone_numbers, message } = validatedData;
+    const { phone_numbers, segment_id, message } = validatedData;
     const user = (req as AuthenticatedRequest).user;
 
+    // שליחה לסגמנט - הטלפונים של הלידים בסגמנט שהמשתמש רשאי לראות
+    let phoneNumbers = phone_numbers;
+    if (segment_id !== undefined) {
+      const resolved = await LeadSegmentService.resolveQuery({ segment: String(segment_id) }, user);
+      if (resolved.error) {
+        return res.status(resolved.error.status).json({ error: resolved.error.message });
+      }
+
+      const { filters } = parseLeadFilters(resolved.query);
+      filters.assigned_to = await scopeAssignedTo(user, filters.assigned_to);
+      const { leads, total } = await LeadModel.findFiltered(filters, { limit: SEGMENT_SEND_MAX_LEADS, offset: 0 });
+      if (total > SEGMENT_SEND_MAX_LEADS) {
+        return res.status(400).json({ error: `Too many leads in segment (${total}). At most ${SEGMENT_SEND_MAX_LEADS} leads can be messaged at once` });
+      }
+
+      const seen = new Set(phone_numbers.map(phone => phoneKey(phone)));
+      phoneNumbers = [...phone_numbers];
+      for (const lead of leads) {
+        const key = phoneKey(lead.phone);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        phoneNumbers.push(lead.phone);
+      }
+    }
+
     // מציאת חיבור ווטסאפ פעיל
     let connection;
     if (user.role === 'manager') {
@@ -237,18 +275,30 @@ router.post('/send', validateInput, requireManagerOrAgent, async (req: Request,
       });
     }
 
+    // מספרים ברשימת "אל תפנה" לא נשלחים - נרשמים כניסיונות חסומים
+    const dncEntries = await DoNotContactService.enforce(
+      user.client_id ?? null,
+      phoneNumbers.map(phone => ({ phone })),
+      { channel: 'whatsapp', userId: user.id }
+    );
+    const blocked = phoneNumbers
+      .filter((_, index) => dncEntries[index])
+      .map(phone_number => ({ phone_number, error: 'Contact is on the do-not-contact list' }));
+    phoneNumbers = phoneNumbers.filter((_, index) => !dncEntries[index]);
+
     // שליחת הודעות לכל המספרים
     const results: any[] = [];
     const errors: any[] = [];
 
-    for (const phoneNumber of phone_numbers) {
-      try {
-        // ניקוי מספר הטלפון (הסרת תווים מיוחדים)
-        const cleanPhone = phoneNumber.replace(/[^\d]/g, '');
-        
-        // הוספת קידומת מדינה אם חסרה (ישראל)
-        const formattedPhone = cleanPhone.startsWith('972') ? cleanPhone : `972${cleanPhone}`;
+    for (const phoneNumber of phoneNumbers) {
+      // מספר לא תקין או קו נייח לא יכולים לקבל הודעת ווטסאפ
+      const { number: formattedPhone, error: phoneError } = toWhatsAppNumber(phoneNumber);
+      if (!formattedPhone) {
+        errors.push({ phone_number: phoneNumber, error: phoneError });
+        continue;
+      }
 
+      try {
         const messageData = {
           messaging_product: 'whatsapp',
           to: formattedPhone,
@@ -275,6 +325,20 @@ router.post('/send', validateInput, requireManagerOrAgent, async (req: Request,
           message_id: response.data.messages[0].id
         });
 
+        // תיעוד ההודעה בציר הזמן של הלידים עם אותו מספר
+        try {
+          const leads = await LeadModel.findDuplicates(phoneNumber, null, user.client_id);
+          for (const lead of leads) {
+            await LeadModel.addTimelineEntry(lead.id, {
+              type: 'message',
+              description: `נשלחה הודעת WhatsApp: ${message.length > 200 ? `${message.slice(0, 200)}...` : message}`,
+              metadata: { channel: 'whatsapp', message_id: response.data.messages[0].id }
+            }, user.id);
+          }
+        } catch (timelineError) {
+          console.error(`Error recording WhatsApp message to ${phoneNumber} on lead timeline:`, timelineError);
+        }
+
       } catch (error) {
         console.error(`Error sending message to ${phoneNumber}:`, error);
         
@@ -297,8 +361,10 @@ router.post('/send', validateInput, requireManagerOrAgent, async (req: Request,
       success: true,
       sent_count: results.length,
       error_count: errors.length,
+      blocked_count: blocked.length,
       results,
-      errors
+      errors,
+      blocked
     });
 
   } catch (error) {
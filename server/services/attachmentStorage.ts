@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+/**
+ * Where attachment files are kept - the driver name is saved with each file,
+ * so files stay readable after the default driver changes
+ */
+export interface AttachmentStorageDriver {
+  readonly name: string;
+  save(key: string, data: Buffer): Promise<void>;
+  open(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Local disk storage (default) - files under ATTACHMENTS_DIR, or uploads/attachments in the working directory
+ */
+export class LocalDiskStorage implements AttachmentStorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data, { flag: 'wx' });
+  }
+
+  async open(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Keys are generated by the server - still, never leave the storage directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+const drivers = new Map<string, AttachmentStorageDriver>();
+
+/**
+ * Attachment Storage
+ * Registry of storage drivers - ATTACHMENTS_STORAGE_DRIVER picks the one new files are saved with
+ */
+export class AttachmentStorage {
+  /**
+   * Register a driver (e.g. S3) - replaces a driver with the same name
+   */
+  static register(driver: AttachmentStorageDriver): void {
+    drivers.set(driver.name, driver);
+  }
+
+  /**
+   * Driver that saved a file
+   */
+  static get(name: string): AttachmentStorageDriver {
+    const driver = drivers.get(name);
+    if (!driver) {
+      throw new Error(`Attachment storage driver "${name}" is not registered`);
+    }
+    return driver;
+  }
+
+  /**
+   * Driver for new files
+   */
+  static getDefault(): AttachmentStorageDriver {
+    return this.get(process.env.ATTACHMENTS_STORAGE_DRIVER || 'local');
+  }
+}
+
+AttachmentStorage.register(new LocalDiskStorage(
+  process.env.ATTACHMENTS_DIR || path.resolve(process.cwd(), 'uploads', 'attachments')
+));
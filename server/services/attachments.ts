@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import { AttachmentModel, Attachment, AttachmentParentType } from '../models/Attachment.js';
+import { AttachmentStorage } from './attachmentStorage.js';
+
+// Largest file accepted (multer stops reading beyond it)
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+// Orphaned attachments removed per database round trip
+const PURGE_BATCH_SIZE = 100;
+
+const startsWith = (signature: number[]) => (data: Buffer) =>
+  data.length >= signature.length && signature.every((byte, index) => data[index] === byte);
+
+const ZIP = startsWith([0x50, 0x4b, 0x03, 0x04]); // docx/xlsx
+const OLE = startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]); // doc/xls
+const isText = (data: Buffer) => !data.subarray(0, 8192).includes(0);
+
+// Accepted types - the declared type must match the file content
+const ALLOWED_TYPES: Record<string, (data: Buffer) => boolean> = {
+  'application/pdf': startsWith([0x25, 0x50, 0x44, 0x46]),
+  'image/jpeg': startsWith([0xff, 0xd8, 0xff]),
+  'image/png': startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/gif': startsWith([0x47, 0x49, 0x46, 0x38]),
+  'image/webp': data => data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP',
+  'application/msword': OLE,
+  'application/vnd.ms-excel': OLE,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ZIP,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ZIP,
+  'text/plain': isText,
+  'text/csv': isText
+};
+
+export const ALLOWED_ATTACHMENT_TYPES = Object.keys(ALLOWED_TYPES);
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface AttachmentParent {
+  type: AttachmentParentType;
+  id: number;
+  clientId: number | null;
+}
+
+/**
+ * Attachment Service
+ * Validates uploads and keeps the stored files in step with the attachments table
+ */
+export class AttachmentService {
+  /**
+   * Validate an uploaded file - returns error messages
+   */
+  static validateFile(file: UploadedFile | undefined): string[] {
+    if (!file) return ['file is required'];
+
+    const errors: string[] = [];
+    if (file.size === 0) errors.push('file is empty');
+    if (file.size > MAX_ATTACHMENT_BYTES) errors.push(`file must be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB`);
+
+    const matchesContent = ALLOWED_TYPES[file.mimetype];
+    if (!matchesContent) {
+      errors.push(`file type ${file.mimetype || 'unknown'} is not allowed (PDF, images, Word, Excel, text or CSV)`);
+    } else if (file.size > 0 && !matchesContent(file.buffer)) {
+      errors.push(`file content does not match its type (${file.mimetype})`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Save a validated file and attach it to the record
+   */
+  static async upload(parent: AttachmentParent, file: UploadedFile, userId: number): Promise<Attachment> {
+    const driver = AttachmentStorage.getDefault();
+    const fileName = this.cleanFileName(file.originalname);
+    const storageKey = [
+      parent.clientId ?? 'shared',
+      `${parent.type}s`,
+      parent.id,
+      `${crypto.randomUUID()}${path.extname(fileName).toLowerCase()}`
+    ].join('/');
+
+    await driver.save(storageKey, file.buffer);
+    try {
+      return await AttachmentModel.create({
+        client_id: parent.clientId,
+        parent_type: parent.type,
+        parent_id: parent.id,
+        file_name: fileName,
+        mime_type: file.mimetype,
+        size_bytes: file.size,
+        storage_driver: driver.name,
+        storage_key: storageKey,
+        uploaded_by: userId
+      });
+    } catch (error) {
+      await driver.remove(storageKey).catch(removeError => console.error(`Error removing unsaved attachment ${storageKey}:`, removeError));
+      throw error;
+    }
+  }
+
+  /**
+   * Stream of the stored file
+   */
+  static open(attachment: Attachment): Promise<Readable> {
+    return AttachmentStorage.get(attachment.storage_driver).open(attachment.storage_key);
+  }
+
+  /**
+   * Delete an attachment and its stored file
+   */
+  static async remove(attachment: Attachment): Promise<void> {
+    await AttachmentModel.delete(attachment.id);
+    try {
+      await AttachmentStorage.get(attachment.storage_driver).remove(attachment.storage_key);
+    } catch (error) {
+      console.error(`Error removing stored file of attachment ${attachment.id}:`, error);
+    }
+  }
+
+  /**
+   * Delete the attachments of a record that was just deleted - the stored file first, then the row
+   * A file that cannot be removed keeps its row and is retried by the cleanup job (purgeOrphans)
+   */
+  static async removeAll(attachments: Attachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      try {
+        await AttachmentStorage.get(attachment.storage_driver).remove(attachment.storage_key);
+        await AttachmentModel.delete(attachment.id);
+      } catch (error) {
+        console.error(`Error removing attachment ${attachment.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Delete the files of deleted leads, customers and tasks - returns the number of attachments removed
+   * A file that cannot be removed keeps its row and is retried on the next run
+   */
+  static async purgeOrphans(): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const orphans = await AttachmentModel.findOrphaned(PURGE_BATCH_SIZE);
+      let purgedInBatch = 0;
+
+      for (const attachment of orphans) {
+        try {
+          await AttachmentStorage.get(attachment.storage_driver).remove(attachment.storage_key);
+          await AttachmentModel.delete(attachment.id);
+          purgedInBatch++;
+        } catch (error) {
+          console.error(`Error purging attachment ${attachment.id}:`, error);
+        }
+      }
+
+      purged += purgedInBatch;
+      if (orphans.length < PURGE_BATCH_SIZE || purgedInBatch === 0) return purged;
+    }
+  }
+
+  // Original name without directories and control characters
+  private static cleanFileName(name: string): string {
+    const baseName = Array.from(path.basename(String(name || '').replace(/\\/g, '/')))
+      .filter(char => char.charCodeAt(0) > 0x1f && char.charCodeAt(0) !== 0x7f)
+      .join('')
+      .trim();
+    return (baseName || 'file').slice(-255);
+  }
+}
@@ -0,0 +1,127 @@
+import { LeadModel, StaleLead } from '../models/Lead.js';
+import { AutoStatusChangeRule, LeadStatus } from '../models/SystemClient.js';
+import { checkStatusTransition } from '../utils/leadStatusTransitions.js';
+
+// Most leads returned by a dry run (the total is always reported)
+export const PREVIEW_MAX_LEADS = 100;
+
+const FIELD_PATTERN = /^(source|custom_fields\.[a-zA-Z][a-zA-Z0-9_]{0,49})$/;
+
+const isPositiveHours = (value: any) => Number.isInteger(value) && value > 0;
+
+/**
+ * Auto Status Change Service
+ * Evaluates the client's time-based status rules (system_clients.auto_status_changes)
+ */
+export class AutoStatusChangeService {
+  /**
+   * Status name of a rule status - rules may reference a status by id or by name
+   * Clients without configured statuses use the value as is
+   */
+  static resolveStatus(leadStatuses: LeadStatus[], value: string): string | null {
+    if (leadStatuses.length === 0) return value;
+    const status = leadStatuses.find(candidate => candidate.id === value) || leadStatuses.find(candidate => candidate.name === value);
+    return status ? status.name : null;
+  }
+
+  /**
+   * Validate rules sent by an admin - returns error messages
+   */
+  static validateRules(rules: any, leadStatuses: LeadStatus[]): string[] {
+    if (!Array.isArray(rules)) {
+      return ['auto_status_changes must be a list of rules'];
+    }
+
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    rules.forEach((rule: any, index: number) => {
+      errors.push(...this.validateRule(rule, leadStatuses).map(error => `auto_status_changes[${index}]: ${error}`));
+      if (rule?.id) {
+        if (ids.has(rule.id)) errors.push(`auto_status_changes[${index}]: duplicate id "${rule.id}"`);
+        ids.add(rule.id);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Validate a single rule (also used for dry runs of unsaved rules)
+   */
+  static validateRule(rule: any, leadStatuses: LeadStatus[]): string[] {
+    if (!rule || typeof rule !== 'object') return ['rule must be an object'];
+
+    const errors: string[] = [];
+    if (!rule.id) errors.push('id is required');
+    if (!rule.name || typeof rule.name !== 'string') errors.push('name is required');
+
+    const fromStatus = rule.fromStatus ? this.resolveStatus(leadStatuses, String(rule.fromStatus)) : null;
+    const toStatus = rule.toStatus ? this.resolveStatus(leadStatuses, String(rule.toStatus)) : null;
+    if (!fromStatus) errors.push(`Unknown fromStatus: ${rule.fromStatus ?? ''}`);
+    if (!toStatus) errors.push(`Unknown toStatus: ${rule.toStatus ?? ''}`);
+    if (fromStatus && toStatus) {
+      if (fromStatus === toStatus) {
+        errors.push('fromStatus and toStatus must differ');
+      } else {
+        // Rules are set by admins - approvals are skipped, but allowed transitions still apply
+        const transition = checkStatusTransition(leadStatuses, fromStatus, toStatus, 'admin');
+        if (!transition.allowed) errors.push(transition.error!);
+      }
+    }
+
+    const conditions = rule.conditions || {};
+    if (conditions.timeElapsed === undefined && conditions.noActivity === undefined) {
+      errors.push('conditions must include timeElapsed or noActivity (hours)');
+    }
+    if (conditions.timeElapsed !== undefined && !isPositiveHours(conditions.timeElapsed)) {
+      errors.push('conditions.timeElapsed must be a positive whole number of hours');
+    }
+    if (conditions.noActivity !== undefined && !isPositiveHours(conditions.noActivity)) {
+      errors.push('conditions.noActivity must be a positive whole number of hours');
+    }
+    if (conditions.fieldValue !== undefined && !FIELD_PATTERN.test(String(conditions.fieldValue?.field))) {
+      errors.push('conditions.fieldValue.field must be "source" or "custom_fields.<key>"');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Leads of the client the rule applies to right now, oldest in the status first
+   */
+  static async findMatches(clientId: number, rule: AutoStatusChangeRule, leadStatuses: LeadStatus[]): Promise<StaleLead[]> {
+    const fromStatus = this.resolveStatus(leadStatuses, rule.fromStatus);
+    if (!fromStatus) return [];
+
+    const leads = await LeadModel.findStaleInStatus(clientId, fromStatus, {
+      elapsedHours: rule.conditions.timeElapsed,
+      inactiveHours: rule.conditions.noActivity
+    });
+
+    const fieldValue = rule.conditions.fieldValue;
+    return fieldValue ? leads.filter(lead => this.matchesField(lead, fieldValue)) : leads;
+  }
+
+  /**
+   * Apply a rule to the matching leads - returns the number of leads moved
+   */
+  static async apply(clientId: number, rule: AutoStatusChangeRule, leadStatuses: LeadStatus[]): Promise<number> {
+    const toStatus = this.resolveStatus(leadStatuses, rule.toStatus);
+    if (!toStatus) return 0;
+
+    let applied = 0;
+    for (const lead of await this.findMatches(clientId, rule, leadStatuses)) {
+      if (await LeadModel.applyAutoStatusChange(lead.id, lead.status, toStatus, rule)) applied++;
+    }
+    return applied;
+  }
+
+  private static matchesField(lead: StaleLead, fieldValue: { field: string; value: any }): boolean {
+    const value = fieldValue.field.startsWith('custom_fields.')
+      ? lead.custom_fields?.[fieldValue.field.slice('custom_fields.'.length)]
+      : lead.source;
+
+    if (value === undefined || value === null) return false;
+    return String(value).trim().toLowerCase() === String(fieldValue.value).trim().toLowerCase();
+  }
+}
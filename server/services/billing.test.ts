@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BillingSource } from '../models/CustomerCharge.js';
+import { BillingService } from './billing.js';
+
+type Service = BillingSource['services'][number];
+type Plan = BillingSource['plans'][number];
+
+const source = (services: Partial<Service>[] = [], plans: Partial<Plan>[] = [], vatType: string | null = 'plus'): BillingSource => ({
+  customer: {
+    id: 1,
+    client_id: null,
+    full_name: 'לקוח',
+    billing_frequency: null,
+    vat_type: vatType,
+    start_date: '2025-01-31',
+    created_date: '2025-01-01'
+  },
+  services: services.map((service, index) => ({
+    id: index + 1,
+    service_name: 'שירות',
+    amount: 100,
+    tax_type: null,
+    billing_frequency: null,
+    ...service
+  })),
+  plans: plans.map(plan => ({ total_amount: null, start_date: null, installments: 1, installment_amount: null, vat_included: false, ...plan }))
+});
+
+describe('BillingService.planCharges', () => {
+  it('splits a payment plan into monthly installments, the last one taking the rounding difference', () => {
+    const charges = BillingService.planCharges(source([], [{ total_amount: 100, installments: 3, vat_included: true }]), '2025-01-01');
+    assert.deepEqual(charges.map(charge => [charge.schedule_key, charge.due_date, charge.amount]), [
+      ['installment:1:1', '2025-01-31', 33.33],
+      ['installment:1:2', '2025-02-28', 33.33],
+      ['installment:1:3', '2025-03-31', 33.34]
+    ]);
+  });
+
+  it('adds VAT to plan amounts entered before VAT', () => {
+    const charges = BillingService.planCharges(source([], [{ total_amount: 1000, installments: 2, installment_amount: 500 }], 'plus'), '2025-01-01');
+    assert.deepEqual(charges.map(charge => charge.amount), [590, 590]);
+  });
+
+  it('keeps plan amounts that include VAT - marked on the plan or by the customer\'s VAT type', () => {
+    const marked = BillingService.planCharges(source([], [{ total_amount: 1180, vat_included: true }], 'plus'), '2025-01-01');
+    assert.deepEqual(marked.map(charge => charge.amount), [1180]);
+
+    const included = BillingService.planCharges(source([], [{ total_amount: 1180 }], 'included'), '2025-01-01');
+    assert.deepEqual(included.map(charge => charge.amount), [1180]);
+  });
+
+  it('adds VAT to services by their tax type, the customer\'s by default', () => {
+    const charges = BillingService.planCharges(
+      source([{ amount: 100 }, { amount: 118, tax_type: 'included' }], [], 'plus'),
+      '2025-01-01'
+    );
+    assert.deepEqual(charges.map(charge => charge.amount), [118, 118]);
+  });
+
+  it('charges one-time services once without a plan and leaves them to the plan when there is one', () => {
+    assert.equal(BillingService.planCharges(source([{}]), '2025-01-01').length, 1);
+
+    const charges = BillingService.planCharges(source([{}], [{ total_amount: 500 }]), '2025-01-01');
+    assert.deepEqual(charges.map(charge => charge.source), ['installment']);
+  });
+
+  it('schedules recurring services every period until the horizon, after the period the plan pays for', () => {
+    const monthly = BillingService.planCharges(source([{ billing_frequency: 'חודשי' }]), '2025-01-01');
+    assert.equal(monthly[0].due_date, '2025-01-31');
+    assert.equal(monthly[monthly.length - 1].due_date, '2025-12-31');
+
+    const withPlan = BillingService.planCharges(source([{ billing_frequency: 'רבעוני' }], [{ total_amount: 300 }]), '2025-01-01');
+    assert.deepEqual(withPlan.filter(charge => charge.source === 'service').map(charge => charge.due_date), [
+      '2025-04-30',
+      '2025-07-31',
+      '2025-10-31'
+    ]);
+  });
+
+  it('keys service charges by service so services with the same name do not collide', () => {
+    const charges = BillingService.planCharges(source([{ service_name: 'ליווי' }, { service_name: 'ליווי' }]), '2025-01-01');
+    const keys = charges.map(charge => charge.schedule_key);
+    assert.deepEqual(keys, ['service:1:2025-01-31', 'service:2:2025-01-31']);
+  });
+
+  it('splits the total evenly when the stored installment amount does not add up to it', () => {
+    const charges = BillingService.planCharges(
+      source([], [{ total_amount: 900, installments: 3, installment_amount: 400, vat_included: true }]),
+      '2025-01-01'
+    );
+    assert.deepEqual(charges.map(charge => charge.amount), [300, 300, 300]);
+  });
+
+  it('skips services without an amount and plans without a total', () => {
+    assert.deepEqual(BillingService.planCharges(source([{ amount: 0 }, { amount: null }], [{ total_amount: 0 }]), '2025-01-01'), []);
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  CustomerChargeModel,
+  CustomerCharge,
+  BillingSource,
+  PlannedCharge,
+  ChargeStatus,
+  ChargePaymentUpdate,
+  CHARGE_STATUSES
+} from '../models/CustomerCharge.js';
+import { UnifiedEventModel } from '../models/UnifiedEvent.js';
+import { VatType, VAT_TYPES, vatBreakdown, roundAmount } from '../utils/vat.js';
+import { getCurrentIsraelTime } from '../utils/israelTimezone.js';
+
+// Months between charges of each billing frequency (0 - charged once)
+const FREQUENCY_MONTHS: Record<string, number> = {
+  'חד פעמי': 0,
+  'חודשי': 1,
+  'רבעוני': 3,
+  'שנתי': 12
+};
+
+// Recurring services are scheduled this far ahead (the billing job moves the horizon forward every day)
+const SCHEDULE_HORIZON_MONTHS = 12;
+
+// Payment statuses set from the charges - other statuses (cancelled, refund...) are left to the user
+export const PAYMENT_STATUS_PENDING = 'ממתין לתשלום';
+export const PAYMENT_STATUS_PAID = 'שולם';
+export const PAYMENT_STATUS_PARTIAL = 'תשלום חלקי';
+export const PAYMENT_STATUS_OVERDUE = 'חוב';
+
+const MANAGED_PAYMENT_STATUSES = [PAYMENT_STATUS_PENDING, PAYMENT_STATUS_PAID, PAYMENT_STATUS_PARTIAL, PAYMENT_STATUS_OVERDUE];
+
+// The rep's overdue reminder pops up right away (reminders show within their advance notice)
+const OVERDUE_REMINDER_ADVANCE_MINUTES = 5;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Same day of the month, months later - the last day when the month is shorter (31/01 -> 28/02)
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(day, lastDay))}`;
+};
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const formatMoney = (amount: number) => `₪${amount.toLocaleString('he-IL', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Billing Service
+ * Turns a customer's services and payment plan into a schedule of expected charges,
+ * records payments against them and keeps the customer's payment status in step
+ */
+export class BillingService {
+  /**
+   * Today's date in Israel (YYYY-MM-DD) - due dates are Israeli calendar days
+   */
+  static today(): string {
+    return getCurrentIsraelTime().toISOString().slice(0, 10);
+  }
+
+  /**
+   * The charges a customer should have until the horizon
+   * - every payment plan is split into monthly installments from its start date
+   * - one-time services are paid by the plan; without a plan each is charged once on the start date
+   * - recurring services are charged every period from the start date - the plan pays for the first period
+   * Every charge includes VAT - plan amounts include it when the plan is marked vat_included or the customer's
+   * prices include VAT, otherwise it is added on top (services the same way, by their tax type)
+   */
+  static planCharges(source: BillingSource, today: string): PlannedCharge[] {
+    const { customer, services, plans } = source;
+    const startDate = customer.start_date || plans[0]?.start_date || customer.created_date;
+    const horizon = addMonths(today, SCHEDULE_HORIZON_MONTHS);
+    const defaultVatType: VatType = VAT_TYPES.includes(customer.vat_type as VatType) ? customer.vat_type as VatType : 'plus';
+    const charges: PlannedCharge[] = [];
+
+    plans.forEach((plan, planIndex) => {
+      const installments = Math.max(plan.installments || 1, 1);
+      const planVatType: VatType = plan.vat_included || defaultVatType === 'included' ? 'included' : 'plus';
+      const total = vatBreakdown(plan.total_amount ?? (plan.installment_amount || 0) * installments, planVatType).total;
+      if (total <= 0) return;
+
+      // A stored installment amount that does not add up to the total (the last installment would be zero
+      // or negative, or take the whole difference) is ignored - the total is split evenly instead
+      const storedAmount = plan.installment_amount ? vatBreakdown(plan.installment_amount, planVatType).total : 0;
+      const installmentAmount = storedAmount > 0 && Math.abs(storedAmount * installments - total) <= installments * 0.01
+        ? storedAmount
+        : roundAmount(total / installments);
+      const firstDate = plan.start_date || startDate;
+      for (let number = 1; number <= installments; number++) {
+        // The last installment takes the rounding difference
+        const amount = number < installments ? installmentAmount : roundAmount(total - installmentAmount * (installments - 1));
+        charges.push({
+          schedule_key: `installment:${planIndex + 1}:${number}`,
+          source: 'installment',
+          description: installments > 1 ? `תשלום ${number} מתוך ${installments}` : 'תשלום',
+          due_date: addMonths(firstDate, number - 1),
+          amount
+        });
+      }
+    });
+
+    for (const service of services) {
+      const frequency = service.billing_frequency || customer.billing_frequency || 'חד פעמי';
+      const months = FREQUENCY_MONTHS[frequency] ?? 0;
+      const taxType: VatType = VAT_TYPES.includes(service.tax_type as VatType) ? service.tax_type as VatType : defaultVatType;
+      const amount = vatBreakdown(service.amount || 0, taxType).total;
+      if (amount <= 0) continue;
+
+      if (months === 0) {
+        if (plans.length > 0) continue;
+        charges.push({
+          schedule_key: `service:${service.id}:${startDate}`,
+          source: 'service',
+          description: service.service_name,
+          due_date: startDate,
+          amount
+        });
+        continue;
+      }
+
+      for (let period = plans.length > 0 ? 1 : 0; ; period++) {
+        const dueDate = addMonths(startDate, period * months);
+        if (dueDate > horizon) break;
+        charges.push({
+          schedule_key: `service:${service.id}:${dueDate}`,
+          source: 'service',
+          description: `${service.service_name} (${frequency})`,
+          due_date: dueDate,
+          amount
+        });
+      }
+    }
+
+    return charges;
+  }
+
+  /**
+   * Generate (or regenerate) the schedule of a customer - returns false when the customer does not exist
+   * Customers that existed before billing get a schedule only when a user generates it (their past charges
+   * would all be overdue), new and converted customers get one right away
+   */
+  static async generate(customerId: number): Promise<boolean> {
+    const source = await CustomerChargeModel.getBillingSource(customerId);
+    if (!source) return false;
+
+    const today = this.today();
+    await CustomerChargeModel.sync(customerId, source.customer.client_id, this.planCharges(source, today));
+    await this.refreshPaymentStatus(customerId, today);
+    return true;
+  }
+
+  /**
+   * Totals of a schedule - scheduled, paid and overdue (unpaid part of the charges past their due date)
+   */
+  static totals(charges: CustomerCharge[]): { amount: number; paid: number; overdue: number } {
+    const totals = { amount: 0, paid: 0, overdue: 0 };
+    for (const charge of charges) {
+      totals.amount += charge.amount;
+      totals.paid += charge.paid_amount;
+      if (charge.is_overdue) totals.overdue += charge.amount - charge.paid_amount;
+    }
+    return { amount: roundAmount(totals.amount), paid: roundAmount(totals.paid), overdue: roundAmount(totals.overdue) };
+  }
+
+  /**
+   * Validate a payment update ({ status, paidAmount?, paidAt?, failureReason? }) of a charge
+   */
+  static parsePaymentUpdate(charge: CustomerCharge, body: any): { update?: ChargePaymentUpdate; errors: string[] } {
+    const errors: string[] = [];
+
+    const status = body?.status as ChargeStatus;
+    if (!CHARGE_STATUSES.includes(status)) {
+      errors.push(`status must be one of: ${CHARGE_STATUSES.join(', ')}`);
+    }
+
+    const paidAt = body?.paidAt ?? null;
+    if (paidAt !== null && (typeof paidAt !== 'string' || isNaN(Date.parse(paidAt)))) {
+      errors.push('paidAt must be a date');
+    }
+
+    let paidAmount = 0;
+    if (status === 'paid') {
+      paidAmount = charge.amount;
+    } else if (status === 'partial') {
+      paidAmount = Number(body?.paidAmount);
+      if (!Number.isFinite(paidAmount) || paidAmount <= 0 || paidAmount >= charge.amount) {
+        errors.push(`paidAmount must be more than 0 and less than the charge amount (${charge.amount})`);
+      }
+    } else if (status === 'failed') {
+      // A failed attempt does not take back what was already paid
+      paidAmount = charge.paid_amount;
+    }
+
+    if (CHARGE_STATUSES.includes(status) && paidAmount < charge.receipted_amount) {
+      errors.push(`a receipt was issued for ${charge.receipted_amount} of this charge - the paid amount can not be less`);
+    }
+
+    const failureReason = typeof body?.failureReason === 'string' && body.failureReason.trim()
+      ? body.failureReason.trim().slice(0, 500)
+      : null;
+
+    if (errors.length > 0) return { errors };
+    return {
+      update: {
+        status,
+        paid_amount: roundAmount(paidAmount),
+        paid_at: paidAt && DATE_PATTERN.test(paidAt) ? `${paidAt}T12:00:00` : paidAt,
+        failure_reason: failureReason
+      },
+      errors
+    };
+  }
+
+  /**
+   * Record a payment update and refresh the customer's payment status
+   */
+  static async recordPayment(charge: CustomerCharge, update: ChargePaymentUpdate, userId: number): Promise<CustomerCharge> {
+    await CustomerChargeModel.recordPayment(charge.id, update, userId);
+    const today = this.today();
+    await this.refreshPaymentStatus(charge.customer_id, today);
+    return (await CustomerChargeModel.findForCustomer(charge.id, charge.customer_id, today))!;
+  }
+
+  /**
+   * Payment status of a customer from the charges due by today
+   */
+  static async refreshPaymentStatus(customerId: number, today: string = this.today()): Promise<void> {
+    const summary = await CustomerChargeModel.getDueSummary(customerId, today);
+    let status = PAYMENT_STATUS_PENDING;
+    if (summary.overdue > 0) status = PAYMENT_STATUS_OVERDUE;
+    else if (summary.partial > 0) status = PAYMENT_STATUS_PARTIAL;
+    else if (summary.due > 0 && summary.paid === summary.due) status = PAYMENT_STATUS_PAID;
+
+    await CustomerChargeModel.setPaymentStatus(customerId, status, MANAGED_PAYMENT_STATUSES);
+  }
+
+  /**
+   * Report the charges that went overdue - every customer with one gets its payment status updated
+   * and its rep a reminder listing the charges
+   */
+  static async reportOverdue(): Promise<{ charges: number; customers: number }> {
+    const today = this.today();
+    const overdue = await CustomerChargeModel.findNewlyOverdue(today);
+
+    const byCustomer = new Map<number, typeof overdue>();
+    for (const charge of overdue) {
+      byCustomer.set(charge.customer_id, [...(byCustomer.get(charge.customer_id) || []), charge]);
+    }
+
+    let reported = 0;
+    for (const [customerId, charges] of byCustomer) {
+      try {
+        await this.refreshPaymentStatus(customerId, today);
+
+        const first = charges[0];
+        if (first.rep_id) {
+          const startTime = new Date(Date.now() + OVERDUE_REMINDER_ADVANCE_MINUTES * 60 * 1000);
+          const lines = charges.map(charge =>
+            `${charge.description} - ${formatMoney(roundAmount(charge.amount - charge.paid_amount))} (לתשלום ב-${formatDate(charge.due_date)})`
+          );
+          await UnifiedEventModel.createEvent(first.rep_id, {
+            title: `חיוב באיחור - ${first.customer_name}`,
+            description: `חיובים שלא שולמו במועד:\n${lines.join('\n')}`,
+            eventType: 'reminder',
+            startTime: startTime.toISOString(),
+            endTime: new Date(startTime.getTime() + 30 * 60 * 1000).toISOString(),
+            advanceNotice: OVERDUE_REMINDER_ADVANCE_MINUTES,
+            isActive: true,
+            notified: false,
+            customerId,
+            customerName: first.customer_name
+          });
+        }
+
+        await CustomerChargeModel.markOverdue(charges.map(charge => charge.id));
+        reported += charges.length;
+      } catch (error) {
+        console.error(`Error reporting overdue charges of customer ${customerId}:`, error);
+      }
+    }
+
+    return { charges: reported, customers: byCustomer.size };
+  }
+}
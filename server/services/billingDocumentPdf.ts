@@ -0,0 +1,258 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { BillingDocumentType, BillingDocumentLine } from '../models/BillingDocument.js';
+import { visualRuns } from '../utils/rtl.js';
+
+// Built-in PDF fonts have no Hebrew - a TrueType font with Hebrew glyphs and ₪ is embedded instead
+const FONT_PATH = process.env.BILLING_FONT_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf';
+const BOLD_FONT_PATH = process.env.BILLING_FONT_BOLD_PATH || '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf';
+
+const DEFAULT_COLOR = '#3b82f6';
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const STRIPE_COLOR = '#f3f4f6';
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 40;
+
+const TITLES: Record<BillingDocumentType, string> = {
+  invoice: 'חשבונית מס',
+  receipt: 'קבלה'
+};
+
+export interface BillingDocumentPdfData {
+  type: BillingDocumentType;
+  number: number;
+  issuedAt: Date;
+  branding: {
+    companyName: string;
+    primaryColor: string | null;
+    logo: Buffer | null; // PNG or JPEG
+  };
+  customer: {
+    name: string;
+    companyName?: string | null;
+    vatNumber?: string | null;
+    address?: string | null;
+    phone?: string | null;
+    email?: string | null;
+  };
+  vatType: 'plus' | 'included';
+  vatRate: number;
+  lines: BillingDocumentLine[];
+  totals: { net: number; vat: number; total: number };
+  issuedByName?: string | null;
+}
+
+interface TextStyle {
+  align?: 'right' | 'left' | 'center';
+  bold?: boolean;
+  size?: number;
+  color?: string;
+}
+
+const formatMoney = (amount: number) => `₪${amount.toLocaleString('he-IL', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-GB', { timeZone: 'Asia/Jerusalem', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+/**
+ * Billing Document PDF
+ * Renders an invoice or receipt as an A4 right-to-left Hebrew PDF with the tenant's logo, name and color
+ */
+export class BillingDocumentPdf {
+  /**
+   * Whether the Hebrew font is installed (BILLING_FONT_PATH)
+   */
+  static isAvailable(): boolean {
+    return fs.existsSync(FONT_PATH);
+  }
+
+  /**
+   * Render the document
+   */
+  static render(data: BillingDocumentPdfData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const title = `${TITLES[data.type]} ${data.number}`;
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: MARGIN,
+        bufferPages: true, // the footer is drawn on every page at the end
+        info: { Title: title, Author: data.branding.companyName }
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.registerFont('regular', FONT_PATH);
+      doc.registerFont('bold', fs.existsSync(BOLD_FONT_PATH) ? BOLD_FONT_PATH : FONT_PATH);
+
+      const color = /^#[0-9a-f]{6}$/i.test(data.branding.primaryColor || '') ? data.branding.primaryColor! : DEFAULT_COLOR;
+      const pageWidth = doc.page.width;
+      const left = MARGIN;
+      const right = pageWidth - MARGIN;
+      const bottom = doc.page.height - MARGIN - FOOTER_HEIGHT;
+
+      // Header - color strip, logo on the left, company name on the right
+      doc.rect(0, 0, pageWidth, 6).fill(color);
+      if (data.branding.logo) {
+        try {
+          doc.image(data.branding.logo, left, 24, { fit: [140, 60] });
+        } catch (error) {
+          console.error('Error drawing billing document logo:', error);
+        }
+      }
+      this.drawText(doc, data.branding.companyName, left + 150, 30, right - left - 150, { bold: true, size: 18, color });
+
+      let y = 100;
+      this.drawText(doc, title, left, y, right - left, { bold: true, size: 20 });
+      y += 28;
+      this.drawText(doc, `תאריך: ${formatDate(data.issuedAt)}`, left, y, right - left, { size: 10, color: MUTED_COLOR });
+      y += 16;
+      this.drawText(doc, 'מקור', left, y, right - left, { size: 10, color: MUTED_COLOR });
+
+      // Customer
+      y += 30;
+      this.drawText(doc, 'לכבוד', left, y, right - left, { bold: true, size: 11 });
+      y += 16;
+      const customerLines = [
+        data.customer.name,
+        data.customer.companyName,
+        data.customer.vatNumber ? `ח.פ./ע.מ.: ${data.customer.vatNumber}` : null,
+        data.customer.address,
+        data.customer.phone ? `טלפון: ${data.customer.phone}` : null,
+        data.customer.email
+      ].filter((line): line is string => !!line && !!line.trim());
+      for (const line of customerLines) {
+        this.drawText(doc, line, left, y, right - left, { size: 10 });
+        y += 14;
+      }
+
+      // Lines - description on the right, amounts to its left
+      const columns = [
+        { title: 'תיאור', x: right - 255, width: 255 },
+        { title: 'לפני מע"מ', x: right - 345, width: 90 },
+        { title: `מע"מ (${Math.round(data.vatRate * 100)}%)`, x: right - 430, width: 85 },
+        { title: 'סה"כ', x: left, width: right - 430 - left }
+      ];
+
+      const drawHeaderRow = () => {
+        doc.rect(left, y, right - left, 22).fill(color);
+        columns.forEach((column, index) => {
+          this.drawText(doc, column.title, column.x + 6, y + 6, column.width - 12, {
+            bold: true,
+            size: 10,
+            color: '#ffffff',
+            align: index === 0 ? 'right' : 'center'
+          });
+        });
+        y += 22;
+      };
+
+      y += 20;
+      drawHeaderRow();
+
+      data.lines.forEach((line, index) => {
+        doc.font('regular').fontSize(10);
+        const descriptionLines = this.wrap(doc, line.description, columns[0].width - 12);
+        const rowHeight = descriptionLines.length * 14 + 10;
+
+        if (y + rowHeight > bottom) {
+          doc.addPage();
+          y = MARGIN;
+          drawHeaderRow();
+        }
+
+        if (index % 2 === 1) doc.rect(left, y, right - left, rowHeight).fill(STRIPE_COLOR);
+        descriptionLines.forEach((text, lineIndex) => {
+          this.drawText(doc, text, columns[0].x + 6, y + 6 + lineIndex * 14, columns[0].width - 12, { size: 10 });
+        });
+        [line.net, line.vat, line.total].forEach((amount, amountIndex) => {
+          const column = columns[amountIndex + 1];
+          this.drawText(doc, formatMoney(amount), column.x + 6, y + 6, column.width - 12, { size: 10, align: 'center' });
+        });
+        y += rowHeight;
+      });
+
+      // Totals - under the amount columns
+      if (y + 90 > bottom) {
+        doc.addPage();
+        y = MARGIN;
+      }
+      y += 12;
+      const totals: Array<[string, number, boolean]> = [
+        ['סה"כ לפני מע"מ', data.totals.net, false],
+        [`מע"מ ${Math.round(data.vatRate * 100)}%`, data.totals.vat, false],
+        [data.type === 'receipt' ? 'סה"כ שולם' : 'סה"כ לתשלום', data.totals.total, true]
+      ];
+      for (const [label, amount, isTotal] of totals) {
+        if (isTotal) doc.rect(left, y - 4, 300, 22).fill(STRIPE_COLOR);
+        this.drawText(doc, label, left + 150, y, 140, { bold: isTotal, size: isTotal ? 12 : 10 });
+        this.drawText(doc, formatMoney(amount), left + 10, y, 130, { bold: isTotal, size: isTotal ? 12 : 10, align: 'left' });
+        y += 22;
+      }
+
+      y += 6;
+      const vatNote = data.type === 'receipt'
+        ? 'הסכומים ששולמו כוללים מע"מ'
+        : data.vatType === 'included' ? 'המחירים כוללים מע"מ' : 'מע"מ חושב בנוסף למחירים';
+      this.drawText(doc, vatNote, left, y, right - left, { size: 9, color: MUTED_COLOR });
+
+      // Footer of every page
+      const range = doc.bufferedPageRange();
+      for (let page = range.start; page < range.start + range.count; page++) {
+        doc.switchToPage(page);
+        const footerY = doc.page.height - MARGIN - 14;
+        doc.moveTo(left, footerY - 8).lineTo(right, footerY - 8).lineWidth(0.5).strokeColor('#e5e7eb').stroke();
+        const footer = [
+          data.branding.companyName,
+          'מסמך ממוחשב',
+          data.issuedByName ? `הופק על ידי ${data.issuedByName}` : null,
+          range.count > 1 ? `עמוד ${page - range.start + 1} מתוך ${range.count}` : null
+        ].filter(Boolean).join(' · ');
+        this.drawText(doc, footer, left, footerY, right - left, { size: 8, color: MUTED_COLOR, align: 'center' });
+      }
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Draw one line of right-to-left text inside [x, x + width] (the text is not wrapped)
+   */
+  private static drawText(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number, style: TextStyle = {}): void {
+    doc.font(style.bold ? 'bold' : 'regular').fontSize(style.size || 10).fillColor(style.color || TEXT_COLOR);
+
+    // Runs are laid out whole, so the shaping reverses a Hebrew run as one piece
+    const runs = visualRuns(text).map(run => ({ ...run, width: doc.widthOfString(run.text, { features: [] }) }));
+    const textWidth = runs.reduce((sum, run) => sum + run.width, 0);
+    const align = style.align || 'right';
+
+    let cursor = align === 'left' ? x : align === 'center' ? x + (width - textWidth) / 2 : x + width - textWidth;
+    for (const run of runs) {
+      doc.text(run.text, cursor, y, { lineBreak: false, features: [] });
+      cursor += run.width;
+    }
+  }
+
+  /**
+   * Split text into lines that fit the width (by words, a longer word gets a line of its own)
+   */
+  private static wrap(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && doc.widthOfString(candidate) > width) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BillingDocumentModel, BillingDocument } from '../models/BillingDocument.js';
+import { Customer } from '../models/Customer.js';
+import { Attachment } from '../models/Attachment.js';
+import { UserModel } from '../models/User.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { AttachmentService } from './attachments.js';
+import { BillingDocumentPdf } from './billingDocumentPdf.js';
+import { BillingDocumentService } from './billingDocuments.js';
+
+const customer = { id: 7, full_name: 'ישראל ישראלי', vat_type: 'plus' } as Customer;
+const pdfAttachment = { id: 90, file_name: 'חשבונית-מס-42.pdf' } as Attachment;
+
+const issued: BillingDocument = {
+  id: 1,
+  client_id: null,
+  customer_id: 7,
+  document_type: 'invoice',
+  document_number: 42,
+  vat_type: 'plus',
+  vat_rate: 0.18,
+  lines: [{ description: 'ליווי', vat_type: 'plus', net: 100, vat: 18, total: 118 }],
+  net_amount: 100,
+  vat_amount: 18,
+  total_amount: 118,
+  attachment_id: null,
+  attachment: null,
+  issued_by: 5,
+  issued_at: new Date('2025-03-01T10:00:00Z')
+};
+
+describe('BillingDocumentService', () => {
+  let removed: Attachment[];
+
+  beforeEach(() => {
+    removed = [];
+    mock.method(BillingDocumentPdf, 'isAvailable', () => true);
+    mock.method(BillingDocumentPdf, 'render', async () => Buffer.from('%PDF'));
+    mock.method(BillingDocumentModel, 'issue', async () => ({ ...issued }));
+    mock.method(BillingDocumentModel, 'setAttachment', async () => true);
+    mock.method(AttachmentService, 'upload', async () => pdfAttachment);
+    mock.method(AttachmentService, 'remove', async (attachment: Attachment) => {
+      removed.push(attachment);
+    });
+    mock.method(UserModel, 'findById', async () => null);
+    mock.method(SystemClientModel, 'findById', async () => null);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('attaches the PDF of the issued document under its number', async () => {
+    const document = await BillingDocumentService.issue(customer, 'invoice', issued.lines, 5, null);
+
+    assert.equal(document?.attachment_id, 90);
+    const [upload] = (AttachmentService.upload as unknown as ReturnType<typeof mock.fn>).mock.calls;
+    assert.equal((upload.arguments[1] as { originalname: string }).originalname, 'חשבונית-מס-42.pdf');
+  });
+
+  it('keeps the document issued without a PDF when rendering fails', async () => {
+    mock.method(BillingDocumentPdf, 'render', async () => {
+      throw new Error('font not found');
+    });
+
+    const document = await BillingDocumentService.issue(customer, 'invoice', issued.lines, 5, null);
+
+    assert.equal(document?.document_number, 42);
+    assert.equal(document?.attachment, null);
+  });
+
+  it('renders the PDF of a document without one from its saved lines', async () => {
+    const document = await BillingDocumentService.attachPdf(customer, issued, 5);
+
+    assert.equal(document.attachment?.id, 90);
+    const [render] = (BillingDocumentPdf.render as unknown as ReturnType<typeof mock.fn>).mock.calls;
+    const data = render.arguments[0] as { number: number; totals: { total: number } };
+    assert.equal(data.number, 42);
+    assert.equal(data.totals.total, 118);
+  });
+
+  it('drops its own PDF when the document was attached in the meantime', async () => {
+    mock.method(BillingDocumentModel, 'setAttachment', async () => false);
+    mock.method(BillingDocumentModel, 'findById', async () => ({ ...issued, attachment_id: 80 }));
+
+    const document = await BillingDocumentService.attachPdf(customer, issued, 5);
+
+    assert.equal(document.attachment_id, 80);
+    assert.deepEqual(removed, [pdfAttachment]);
+  });
+
+  it('leaves documents that have their PDF as they are', async () => {
+    const document = await BillingDocumentService.attachPdf(customer, { ...issued, attachment_id: 80 }, 5);
+
+    assert.equal(document.attachment_id, 80);
+    assert.equal((BillingDocumentPdf.render as unknown as ReturnType<typeof mock.fn>).mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,299 @@
+import https from 'https';
+import { isIP } from 'net';
+import {
+  BillingDocumentModel,
+  BillingDocument,
+  BillingDocumentType,
+  BillingDocumentLine,
+  BILLING_DOCUMENT_TYPES
+} from '../models/BillingDocument.js';
+import { Customer, CustomerModel } from '../models/Customer.js';
+import { CustomerChargeModel } from '../models/CustomerCharge.js';
+import { SystemClientModel } from '../models/SystemClient.js';
+import { UserModel } from '../models/User.js';
+import { AttachmentService } from './attachments.js';
+import { BillingDocumentPdf } from './billingDocumentPdf.js';
+import { BillingService } from './billing.js';
+import { VatType, VAT_TYPES, VAT_RATE, vatBreakdown, roundAmount } from '../utils/vat.js';
+import { publicLookup } from '../utils/publicLookup.js';
+
+// A logo that does not load in time is left out of the document - only https logos on a host name with a public
+// address are fetched (checked when connecting, no redirects), so a tenant's logo URL cannot reach internal addresses
+const LOGO_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+export interface BillingDocumentRequest {
+  type: BillingDocumentType;
+  serviceIds: number[] | null; // invoices - null for all the customer's services
+  chargeIds: number[]; // receipts
+}
+
+const FILE_NAMES: Record<BillingDocumentType, string> = {
+  invoice: 'חשבונית-מס',
+  receipt: 'קבלה'
+};
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+const parseIds = (value: any): number[] | null => {
+  if (!Array.isArray(value)) return null;
+  const ids = value.map(Number);
+  return ids.every(id => Number.isInteger(id) && id > 0) ? Array.from(new Set(ids)) : null;
+};
+
+/**
+ * Billing Document Service
+ * Issues invoices (from the customer's services) and receipts (from the payments recorded on its charges)
+ * as numbered PDFs, saved as customer attachments
+ */
+export class BillingDocumentService {
+  /**
+   * Validate a request ({ type, serviceIds?, chargeIds? }) - returns the request or error messages
+   */
+  static parseRequest(body: any): { request?: BillingDocumentRequest; errors: string[] } {
+    const errors: string[] = [];
+
+    const type = body?.type as BillingDocumentType;
+    if (!BILLING_DOCUMENT_TYPES.includes(type)) {
+      errors.push(`type must be one of: ${BILLING_DOCUMENT_TYPES.join(', ')}`);
+    }
+
+    let serviceIds: number[] | null = null;
+    if (type === 'invoice' && body?.serviceIds !== undefined && body?.serviceIds !== null) {
+      serviceIds = parseIds(body.serviceIds);
+      if (!serviceIds || serviceIds.length === 0) errors.push('serviceIds must be a non-empty array of service IDs');
+    }
+
+    let chargeIds: number[] = [];
+    if (type === 'receipt') {
+      chargeIds = parseIds(body?.chargeIds) || [];
+      if (chargeIds.length === 0) errors.push('chargeIds must be a non-empty array of charge IDs');
+    }
+
+    if (errors.length > 0) return { errors };
+    return { request: { type, serviceIds, chargeIds }, errors };
+  }
+
+  /**
+   * Lines of the document - invoices list the services with their own VAT type (the customer's by default),
+   * receipts list what was paid on each charge since its last receipt (charges include VAT)
+   * The invoice states whether its prices include VAT, so services of different VAT types go on separate invoices
+   */
+  static async buildLines(customer: Customer, request: BillingDocumentRequest): Promise<{ lines?: BillingDocumentLine[]; errors: string[] }> {
+    const errors: string[] = [];
+    const lines: BillingDocumentLine[] = [];
+
+    if (request.type === 'invoice') {
+      const defaultVatType = this.vatType(customer.vat_type);
+      const services = await CustomerModel.getServices(customer.id);
+      const selected = request.serviceIds ? services.filter(service => request.serviceIds!.includes(service.id)) : services;
+      if (request.serviceIds && selected.length !== request.serviceIds.length) {
+        errors.push('serviceIds must be services of the customer');
+      }
+
+      for (const service of selected) {
+        const amount = parseFloat(String(service.amount ?? 0)) || 0;
+        if (amount <= 0) continue;
+        const frequency = service.billing_frequency && service.billing_frequency !== 'חד פעמי' ? ` (${service.billing_frequency})` : '';
+        const vatType = service.tax_type ? this.vatType(service.tax_type) : defaultVatType;
+        lines.push({ description: `${service.service_name}${frequency}`, vat_type: vatType, ...vatBreakdown(amount, vatType) });
+      }
+      if (errors.length === 0 && lines.length === 0) errors.push('the customer has no services with an amount to invoice');
+      if (new Set(lines.map(line => line.vat_type)).size > 1) {
+        errors.push('the services have different VAT types - issue a separate invoice for each (serviceIds)');
+      }
+    } else {
+      const charges = await CustomerChargeModel.findByCustomer(customer.id, BillingService.today());
+      for (const chargeId of request.chargeIds) {
+        const charge = charges.find(item => item.id === chargeId);
+        if (!charge) {
+          errors.push(`charge ${chargeId} is not a charge of the customer`);
+          continue;
+        }
+
+        const amount = roundAmount(charge.paid_amount - charge.receipted_amount);
+        if (amount <= 0) {
+          errors.push(`charge ${chargeId} has no payment without a receipt`);
+          continue;
+        }
+
+        const paidAt = charge.paid_at ? new Date(charge.paid_at).toISOString().slice(0, 10) : null;
+        lines.push({
+          description: `${charge.description} - לתשלום ב-${formatDate(charge.due_date)}${paidAt ? `, שולם ב-${formatDate(paidAt)}` : ''}`,
+          charge_id: charge.id,
+          paid_at: paidAt,
+          ...vatBreakdown(amount, 'included')
+        });
+      }
+    }
+
+    if (errors.length > 0) return { errors };
+    return { lines, errors };
+  }
+
+  /**
+   * Issue the document - number it, then render the PDF and attach it to the customer
+   * Returns null when a charge of a receipt was receipted by someone else in the meantime
+   * The document stays issued when its PDF cannot be stored - it is returned without an attachment
+   * and the PDF can be rendered again (attachPdf)
+   */
+  static async issue(
+    customer: Customer,
+    type: BillingDocumentType,
+    lines: BillingDocumentLine[],
+    userId: number,
+    clientId: number | null
+  ): Promise<BillingDocument | null> {
+    if (!BillingDocumentPdf.isAvailable()) {
+      throw new Error('Hebrew font for billing documents not found - set BILLING_FONT_PATH');
+    }
+
+    const vatType: VatType = type === 'receipt' ? 'included' : lines[0]?.vat_type ?? this.vatType(customer.vat_type);
+    const document = await BillingDocumentModel.issue({
+      client_id: clientId,
+      customer_id: customer.id,
+      document_type: type,
+      vat_type: vatType,
+      vat_rate: VAT_RATE,
+      lines,
+      net_amount: roundAmount(lines.reduce((sum, line) => sum + line.net, 0)),
+      vat_amount: roundAmount(lines.reduce((sum, line) => sum + line.vat, 0)),
+      total_amount: roundAmount(lines.reduce((sum, line) => sum + line.total, 0)),
+      issued_by: userId
+    });
+    if (!document) return null;
+
+    try {
+      return await this.attachPdf(customer, document, userId);
+    } catch (error) {
+      console.error(`Error attaching PDF of billing document ${document.id}:`, error);
+      return document;
+    }
+  }
+
+  /**
+   * Render the PDF of an issued document from its saved lines and attach it to the customer
+   * Documents that already have their PDF are returned as they are
+   */
+  static async attachPdf(customer: Customer, document: BillingDocument, userId: number): Promise<BillingDocument> {
+    if (document.attachment_id) return document;
+    if (!BillingDocumentPdf.isAvailable()) {
+      throw new Error('Hebrew font for billing documents not found - set BILLING_FONT_PATH');
+    }
+
+    const issuer = document.issued_by ? await UserModel.findById(document.issued_by) : null;
+    const tenant = document.client_id ? await SystemClientModel.findById(document.client_id) : null;
+    const logo = tenant?.logo_url ? await this.loadLogo(tenant.logo_url) : null;
+
+    const pdf = await BillingDocumentPdf.render({
+      type: document.document_type,
+      number: document.document_number,
+      issuedAt: new Date(document.issued_at),
+      branding: {
+        companyName: tenant?.company_name || tenant?.name || '',
+        primaryColor: tenant?.primary_color || null,
+        logo
+      },
+      customer: {
+        name: customer.full_name,
+        companyName: customer.company_name,
+        vatNumber: customer.vat_number || customer.company_id,
+        address: customer.address,
+        phone: customer.phone,
+        email: customer.email
+      },
+      vatType: document.vat_type,
+      vatRate: document.vat_rate,
+      lines: document.lines,
+      totals: { net: document.net_amount, vat: document.vat_amount, total: document.total_amount },
+      issuedByName: issuer ? `${issuer.first_name || ''} ${issuer.last_name || ''}`.trim() || null : null
+    });
+
+    const attachment = await AttachmentService.upload(
+      { type: 'customer', id: customer.id, clientId: document.client_id },
+      {
+        originalname: `${FILE_NAMES[document.document_type]}-${document.document_number}.pdf`,
+        mimetype: 'application/pdf',
+        size: pdf.length,
+        buffer: pdf
+      },
+      userId
+    );
+
+    // Someone else attached it in the meantime - theirs is kept
+    let attached = false;
+    try {
+      attached = await BillingDocumentModel.setAttachment(document.id, attachment.id);
+    } finally {
+      if (!attached) {
+        await AttachmentService.remove(attachment).catch(removeError =>
+          console.error('Error removing PDF that was not attached to its billing document:', removeError)
+        );
+      }
+    }
+    if (!attached) return (await BillingDocumentModel.findById(document.id)) || document;
+
+    return { ...document, attachment_id: attachment.id, attachment };
+  }
+
+  private static vatType(value: string | null | undefined): VatType {
+    return VAT_TYPES.includes(value as VatType) ? value as VatType : 'plus';
+  }
+
+  /**
+   * The tenant's logo as PNG or JPEG (https URL or data URL) - null when it cannot be loaded
+   */
+  private static async loadLogo(url: string): Promise<Buffer | null> {
+    try {
+      const dataUrl = url.match(/^data:(image\/[a-z]+);base64,(.+)$/i);
+      if (dataUrl) {
+        return LOGO_TYPES.includes(dataUrl[1].toLowerCase()) ? Buffer.from(dataUrl[2], 'base64') : null;
+      }
+
+      let address: URL;
+      try {
+        address = new URL(url);
+      } catch {
+        return null;
+      }
+      const host = address.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+      if (address.protocol !== 'https:' || isIP(host) !== 0 || host === 'localhost' || host.endsWith('.localhost')) return null;
+
+      return await this.download(address);
+    } catch (error) {
+      console.error('Error loading logo for billing document:', error);
+      return null;
+    }
+  }
+
+  /**
+   * GET an https URL through the public address lookup - null unless it is a PNG or JPEG up to the size cap
+   * (a larger logo is dropped without downloading the rest)
+   */
+  private static download(address: URL): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const request = https.get(address, { lookup: publicLookup, signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) }, response => {
+        const contentType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        if (response.statusCode !== 200 || !LOGO_TYPES.includes(contentType) || Number(response.headers['content-length'] || 0) > MAX_LOGO_BYTES) {
+          response.resume();
+          return resolve(null);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_LOGO_BYTES) {
+            request.destroy();
+            return resolve(null);
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => resolve(Buffer.concat(chunks)));
+        response.on('error', reject);
+      });
+      request.on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,266 @@
+import { CustomFieldDefinition, CustomFieldSchemas, SystemClientModel } from '../models/SystemClient.js';
+import { normalizePhone } from '../utils/phone.js';
+
+export type CustomFieldEntity = keyof CustomFieldSchemas;
+
+export const CUSTOM_FIELD_TYPES: CustomFieldDefinition['type'][] = [
+  'text', 'number', 'date', 'select', 'multiselect', 'boolean', 'email', 'phone', 'url'
+];
+
+// Keys are used in JSON paths, filter parameters and export column names
+const FIELD_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/;
+
+const TRUE_VALUES = ['true', '1', 'yes', 'כן', 'v'];
+const FALSE_VALUES = ['false', '0', 'no', 'לא'];
+
+export interface ValidateValuesOptions {
+  // Values already saved on the record - required fields may be satisfied by them
+  existing?: Record<string, any> | null;
+  // Fill defaultValue for fields that were not sent (new records)
+  applyDefaults?: boolean;
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// DD/MM/YYYY (Excel, Hebrew forms) or YYYY-MM-DD -> YYYY-MM-DD
+const parseDate = (value: any): string | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  let parts = match ? [match[1], match[2], match[3]] : null;
+  if (!parts) {
+    match = text.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+    parts = match ? [match[3], match[2].padStart(2, '0'), match[1].padStart(2, '0')] : null;
+  }
+  if (!parts) return null;
+
+  const date = `${parts[0]}-${parts[1]}-${parts[2]}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? date : null;
+};
+
+/**
+ * Custom Field Service
+ * Validates tenant-defined custom fields of leads and customers
+ */
+export class CustomFieldService {
+  /**
+   * Get the definitions of an entity for the user's system client
+   */
+  static async getDefinitions(clientId: number | null | undefined, entity: CustomFieldEntity): Promise<CustomFieldDefinition[]> {
+    return SystemClientModel.getCustomFields(clientId, entity);
+  }
+
+  /**
+   * Validate definitions sent by an admin - returns error messages
+   */
+  static validateDefinitions(schemas: any): string[] {
+    if (!schemas || typeof schemas !== 'object' || Array.isArray(schemas)) {
+      return ['custom_fields must be an object with "leads" and "customers" lists'];
+    }
+
+    const errors: string[] = [];
+    for (const [entity, definitions] of Object.entries(schemas)) {
+      if (entity !== 'leads' && entity !== 'customers') {
+        errors.push(`Unknown custom fields entity: ${entity}`);
+        continue;
+      }
+      if (!Array.isArray(definitions)) {
+        errors.push(`custom_fields.${entity} must be a list`);
+        continue;
+      }
+
+      const ids = new Set<string>();
+      definitions.forEach((definition: any, index: number) => {
+        const label = `custom_fields.${entity}[${index}]`;
+        if (!definition?.id || !FIELD_ID_PATTERN.test(definition.id)) {
+          errors.push(`${label}: id must start with a letter and contain only letters, digits and "_"`);
+        } else if (ids.has(definition.id)) {
+          errors.push(`${label}: duplicate id "${definition.id}"`);
+        } else {
+          ids.add(definition.id);
+        }
+
+        if (!definition?.name || typeof definition.name !== 'string') errors.push(`${label}: name is required`);
+        if (!CUSTOM_FIELD_TYPES.includes(definition?.type)) errors.push(`${label}: unknown type "${definition?.type}"`);
+
+        if ((definition?.type === 'select' || definition?.type === 'multiselect') &&
+          (!Array.isArray(definition.options) || definition.options.length === 0)) {
+          errors.push(`${label}: select fields need at least one option`);
+        }
+
+        const pattern = definition?.validation?.pattern;
+        if (pattern) {
+          try {
+            new RegExp(pattern);
+          } catch {
+            errors.push(`${label}: invalid validation pattern`);
+          }
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate and coerce submitted values against the definitions
+   * Empty values are dropped (so they can be cleared). Without definitions the values are kept as sent.
+   * Returns the values to store (merged with the existing ones) and Hebrew error messages.
+   */
+  static validateValues(
+    definitions: CustomFieldDefinition[],
+    input: any,
+    options: ValidateValuesOptions = {}
+  ): { values: Record<string, any>; errors: string[] } {
+    const existing = options.existing || {};
+
+    if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+      return { values: existing, errors: ['שדות מותאמים: פורמט לא תקין'] };
+    }
+    const submitted: Record<string, any> = input || {};
+
+    if (definitions.length === 0) {
+      return { values: { ...existing, ...submitted }, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const values: Record<string, any> = { ...existing };
+    const definitionsById = new Map(definitions.map(definition => [definition.id, definition]));
+
+    for (const key of Object.keys(submitted)) {
+      if (!definitionsById.has(key)) errors.push(`שדה לא מוגדר: ${key}`);
+    }
+
+    for (const definition of definitions) {
+      let raw = submitted[definition.id];
+      if (raw === undefined && options.applyDefaults && !isEmpty(definition.defaultValue)) {
+        raw = definition.defaultValue;
+      }
+      if (raw === undefined) continue;
+
+      if (isEmpty(raw)) {
+        delete values[definition.id];
+        continue;
+      }
+
+      const result = this.validateValue(definition, raw);
+      if (result.error) {
+        errors.push(`${definition.name}: ${definition.validation?.message || result.error}`);
+      } else {
+        values[definition.id] = result.value;
+      }
+    }
+
+    // Updates only check the fields they send, so records saved before a field became required stay editable
+    for (const definition of definitions) {
+      if (options.existing && !(definition.id in submitted)) continue;
+      if (definition.required && isEmpty(values[definition.id]) && !errors.some(error => error.startsWith(`${definition.name}:`))) {
+        errors.push(`${definition.name}: שדה חובה`);
+      }
+    }
+
+    return { values, errors };
+  }
+
+  /**
+   * Coerce a single non-empty value to its field type and apply the validation rules
+   */
+  static validateValue(definition: CustomFieldDefinition, raw: any): { value?: any; error?: string } {
+    const { min, max, pattern } = definition.validation || {};
+    const text = typeof raw === 'string' ? raw.trim() : raw;
+
+    const matchesPattern = (value: string) => {
+      if (!pattern) return true;
+      try {
+        return new RegExp(pattern).test(value);
+      } catch {
+        return true;
+      }
+    };
+
+    switch (definition.type) {
+      case 'number': {
+        const value = typeof text === 'number' ? text : parseFloat(String(text).replace(/,/g, ''));
+        if (isNaN(value) || !/^-?[\d,]*\.?\d+$/.test(String(text).trim())) return { error: 'ערך מספרי לא תקין' };
+        if (min !== undefined && value < min) return { error: `הערך המינימלי הוא ${min}` };
+        if (max !== undefined && value > max) return { error: `הערך המקסימלי הוא ${max}` };
+        return { value };
+      }
+
+      case 'date': {
+        const value = parseDate(text);
+        return value ? { value } : { error: 'תאריך לא תקין' };
+      }
+
+      case 'boolean': {
+        if (typeof text === 'boolean') return { value: text };
+        const value = String(text).toLowerCase();
+        if (TRUE_VALUES.includes(value)) return { value: true };
+        if (FALSE_VALUES.includes(value)) return { value: false };
+        return { error: 'ערך כן/לא לא תקין' };
+      }
+
+      case 'select': {
+        const value = String(text);
+        return (definition.options || []).includes(value) ? { value } : { error: `ערך לא מהרשימה: ${value}` };
+      }
+
+      case 'multiselect': {
+        const value = (Array.isArray(text) ? text : String(text).split(','))
+          .map(item => String(item).trim())
+          .filter(Boolean);
+        const invalid = value.filter(item => !(definition.options || []).includes(item));
+        if (invalid.length > 0) return { error: `ערכים לא מהרשימה: ${invalid.join(', ')}` };
+        if (min !== undefined && value.length < min) return { error: `יש לבחור לפחות ${min} ערכים` };
+        if (max !== undefined && value.length > max) return { error: `ניתן לבחור עד ${max} ערכים` };
+        return { value: [...new Set(value)] };
+      }
+
+      case 'email': {
+        const value = String(text).toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return { error: 'כתובת אימייל לא תקינה' };
+        return matchesPattern(value) ? { value } : { error: 'הערך אינו בפורמט הנדרש' };
+      }
+
+      case 'phone': {
+        const value = normalizePhone(text);
+        if (!value) return { error: 'מספר טלפון לא תקין' };
+        return matchesPattern(value) ? { value } : { error: 'הערך אינו בפורמט הנדרש' };
+      }
+
+      case 'url': {
+        const value = String(text);
+        try {
+          const url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+          if (!url.hostname.includes('.')) return { error: 'כתובת URL לא תקינה' };
+          return matchesPattern(url.toString()) ? { value: url.toString() } : { error: 'הערך אינו בפורמט הנדרש' };
+        } catch {
+          return { error: 'כתובת URL לא תקינה' };
+        }
+      }
+
+      default: {
+        const value = String(text);
+        if (min !== undefined && value.length < min) return { error: `נדרשים לפחות ${min} תווים` };
+        if (max !== undefined && value.length > max) return { error: `ניתן להזין עד ${max} תווים` };
+        return matchesPattern(value) ? { value } : { error: 'הערך אינו בפורמט הנדרש' };
+      }
+    }
+  }
+
+  /**
+   * Format a stored value for files and messages (lists joined, booleans in Hebrew)
+   */
+  static formatValue(value: any): string | number | null {
+    if (value === undefined || value === null) return null;
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'כן' : 'לא';
+    if (typeof value === 'number') return value;
+    return String(value);
+  }
+}
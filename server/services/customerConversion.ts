@@ -0,0 +1,200 @@
+import { LeadStatus } from '../models/SystemClient.js';
+import { VatType, VAT_TYPES, vatBreakdown, roundAmount } from '../utils/vat.js';
+
+// Status of a converted lead when the client did not mark a status with isConversion
+export const CONVERTED_LEAD_STATUS = 'לקוח קיים';
+
+// Most installments one payment plan can be split into
+const MAX_INSTALLMENTS = 120;
+
+const PAYMENT_TYPES = ['amount', 'percentage'];
+
+export interface ConversionService {
+  service_name: string;
+  amount: number; // as entered - before or including VAT according to tax_type
+  tax_type: VatType;
+  total: number; // including VAT
+  billing_frequency: string;
+}
+
+export interface ConversionPaymentPlan {
+  total_amount: number;
+  installments: number;
+  installment_amount: number;
+  start_date: string; // YYYY-MM-DD of the first installment
+  payment_status: string;
+  payment_type: string;
+  payment_value: number;
+  vat_included: boolean;
+  notes: string;
+}
+
+export interface CustomerConversionRequest {
+  customer: {
+    full_name: string | null; // null - the lead's name
+    phone: string | null; // null - the lead's phone
+    email: string | null; // null - the lead's email
+    status: string;
+    address: string | null;
+    company_name: string | null;
+    vat_number: string | null;
+    assigned_rep: string | null;
+    payment_status: string;
+    billing_frequency: string;
+    start_date: string | null;
+    vat_type: VatType;
+    payment_type: string;
+    payment_value: number;
+    payment_vat_included: boolean;
+    tags: string[];
+    notes: string | null;
+  };
+  services: ConversionService[];
+  paymentPlan: ConversionPaymentPlan | null; // null when nothing is charged
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const isDate = (value: any) => typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+const textOrNull = (value: any): string | null => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Customer Conversion Service
+ * Validates a lead-to-customer conversion and works out its services, payment plan and the lead's new status
+ */
+export class CustomerConversionService {
+  /**
+   * Parse and validate the request body - returns the request or error messages
+   * Services come as services: [{ name, amount, vatType, billingFrequency }] or, from the customer dialog,
+   * as products with a totalAmount (including VAT) split evenly between them
+   */
+  static parseRequest(body: any): { request?: CustomerConversionRequest; errors: string[] } {
+    const errors: string[] = [];
+
+    const vatType = body?.vatType ?? 'plus';
+    if (!VAT_TYPES.includes(vatType)) {
+      errors.push(`vatType must be one of: ${VAT_TYPES.join(', ')}`);
+    }
+    const billingFrequency = textOrNull(body?.billingFrequency ?? body?.billing_frequency) || 'חד פעמי';
+
+    const services: ConversionService[] = [];
+    if (body?.services !== undefined) {
+      if (!Array.isArray(body.services)) {
+        errors.push('services must be a list');
+      } else {
+        body.services.forEach((service: any, index: number) => {
+          const name = textOrNull(service?.name ?? service?.service_name);
+          const amount = Number(service?.amount);
+          const taxType = service?.vatType ?? service?.tax_type ?? vatType;
+          if (!name) errors.push(`services[${index}]: name is required`);
+          if (!Number.isFinite(amount) || amount < 0) errors.push(`services[${index}]: amount must be a non-negative number`);
+          if (!VAT_TYPES.includes(taxType)) errors.push(`services[${index}]: vatType must be one of: ${VAT_TYPES.join(', ')}`);
+          if (name && Number.isFinite(amount) && amount >= 0 && VAT_TYPES.includes(taxType)) {
+            services.push({
+              service_name: name,
+              amount: roundAmount(amount),
+              tax_type: taxType,
+              total: vatBreakdown(amount, taxType).total,
+              billing_frequency: textOrNull(service?.billingFrequency ?? service?.billing_frequency) || billingFrequency
+            });
+          }
+        });
+      }
+    } else if (Array.isArray(body?.products)) {
+      const products = body.products.map(textOrNull).filter(Boolean) as string[];
+      const totalAmount = Number(body?.totalAmount || 0);
+      if (!Number.isFinite(totalAmount) || totalAmount < 0) {
+        errors.push('totalAmount must be a non-negative number');
+      } else {
+        const share = products.length > 0 ? roundAmount(totalAmount / products.length) : 0;
+        for (const product of products) {
+          services.push({ service_name: product, amount: share, tax_type: 'included', total: share, billing_frequency: billingFrequency });
+        }
+      }
+    }
+
+    const paymentType = body?.paymentType ?? 'amount';
+    const paymentValue = Number(body?.paymentValue || 0);
+    if (!PAYMENT_TYPES.includes(paymentType)) {
+      errors.push(`paymentType must be one of: ${PAYMENT_TYPES.join(', ')}`);
+    } else if (!Number.isFinite(paymentValue) || paymentValue < 0 || (paymentType === 'percentage' && paymentValue > 100)) {
+      errors.push('paymentValue must be a non-negative amount or a percentage up to 100');
+    }
+
+    const plan = body?.paymentPlan || {};
+    const installments = plan.numberOfPayments === undefined ? 1 : Number(plan.numberOfPayments);
+    if (!Number.isInteger(installments) || installments < 1 || installments > MAX_INSTALLMENTS) {
+      errors.push(`paymentPlan.numberOfPayments must be between 1 and ${MAX_INSTALLMENTS}`);
+    }
+    const startDate = body?.startDate ?? body?.start_date ?? null;
+    if (startDate !== null && startDate !== '' && !isDate(startDate)) {
+      errors.push('startDate must be a date (YYYY-MM-DD)');
+    }
+    if (plan.firstPaymentDate && !isDate(plan.firstPaymentDate)) {
+      errors.push('paymentPlan.firstPaymentDate must be a date (YYYY-MM-DD)');
+    }
+    if (body?.tags !== undefined && (!Array.isArray(body.tags) || body.tags.some((tag: any) => typeof tag !== 'string'))) {
+      errors.push('tags must be a list of tag names');
+    }
+
+    if (errors.length > 0) return { errors };
+
+    const paymentStatus = textOrNull(body?.paymentStatus ?? body?.payment_status) || 'ממתין לתשלום';
+    const customer: CustomerConversionRequest['customer'] = {
+      full_name: textOrNull(body?.full_name ?? body?.name),
+      phone: textOrNull(body?.phone),
+      email: textOrNull(body?.email),
+      status: textOrNull(body?.status) || 'פעיל',
+      address: textOrNull(body?.address),
+      company_name: textOrNull(body?.company_name ?? body?.company),
+      vat_number: textOrNull(body?.vat_number ?? body?.vatNumber),
+      assigned_rep: textOrNull(body?.assigned_rep ?? body?.assignedTo),
+      payment_status: paymentStatus,
+      billing_frequency: billingFrequency,
+      start_date: startDate || null,
+      vat_type: vatType,
+      payment_type: paymentType,
+      payment_value: paymentValue,
+      payment_vat_included: body?.paymentVatIncluded === true,
+      tags: body?.tags || [],
+      notes: textOrNull(body?.notes)
+    };
+
+    return { request: { customer, services, paymentPlan: this.planPayments(customer, services, installments, plan.firstPaymentDate) }, errors };
+  }
+
+  /**
+   * Payment plan for the services - the total including VAT split into equal installments
+   */
+  static planPayments(
+    customer: CustomerConversionRequest['customer'],
+    services: ConversionService[],
+    installments: number,
+    firstPaymentDate?: string
+  ): ConversionPaymentPlan | null {
+    const total = roundAmount(services.reduce((sum, service) => sum + service.total, 0));
+    if (total <= 0) return null;
+
+    return {
+      total_amount: total,
+      installments,
+      installment_amount: roundAmount(total / installments),
+      start_date: (firstPaymentDate || customer.start_date || today()).slice(0, 10),
+      payment_status: customer.payment_status,
+      payment_type: customer.payment_type,
+      payment_value: customer.payment_value,
+      vat_included: true, // the services' totals include VAT
+      notes: `תשלום עבור: ${services.map(service => service.service_name).join(', ')}`
+    };
+  }
+
+  /**
+   * The status a converted lead gets - the client's status marked isConversion
+   */
+  static closedStatus(leadStatuses: LeadStatus[]): string {
+    return leadStatuses.find(status => status.isConversion)?.name || CONVERTED_LEAD_STATUS;
+  }
+}
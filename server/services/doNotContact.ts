@@ -0,0 +1,102 @@
+import { DoNotContactModel, DncChannel, DncContactKey, DncContactType, DncEntry } from '../models/DoNotContact.js';
+import { normalizeEmail } from '../models/Lead.js';
+import { phoneKey } from '../utils/phone.js';
+
+// Lead statuses that put the lead's phone/email on the registry (settings.dnc.removalStatuses overrides)
+export const DEFAULT_REMOVAL_STATUSES = ['הסרה מהמאגר'];
+
+// Replies asking to stop messaging - the whole message must be one of these
+const STOP_KEYWORDS = new Set(['stop', 'stop all', 'unsubscribe', 'הסר', 'הסרה', 'הסירו', 'הסירו אותי', 'תסירו', 'תסירו אותי', 'עצור']);
+
+export interface DncContact {
+  phone?: string | null;
+  email?: string | null;
+  lead_id?: number | null;
+}
+
+export interface DncAttempt {
+  channel: DncChannel;
+  userId?: number | null;
+}
+
+const keyString = (key: DncContactKey) => `${key.contact_type}:${key.value}`;
+
+/**
+ * Do-Not-Contact Service
+ * Keys contacts the same way as lead duplicate detection and blocks contacting registered ones
+ */
+export class DoNotContactService {
+  /**
+   * Normalized registry key of a phone/email (null when the value is empty)
+   */
+  static toKey(contactType: DncContactType, raw: string | null | undefined): DncContactKey | null {
+    const value = contactType === 'phone' ? phoneKey(raw) : normalizeEmail(raw);
+    return value ? { contact_type: contactType, value } : null;
+  }
+
+  /**
+   * Registry keys of a contact
+   */
+  static toKeys(contact: DncContact): DncContactKey[] {
+    return [this.toKey('phone', contact.phone), this.toKey('email', contact.email)]
+      .filter((key): key is DncContactKey => key !== null);
+  }
+
+  /**
+   * Check contacts before contacting them - returns the matching entry per contact (null = allowed)
+   * Blocked contacts are recorded as blocked attempts of the channel
+   */
+  static async enforce(clientId: number | null, contacts: DncContact[], attempt: DncAttempt): Promise<(DncEntry | null)[]> {
+    const keys = contacts.map(contact => this.toKeys(contact));
+    const entries = await DoNotContactModel.findMatches(clientId, keys.flat());
+    if (entries.length === 0) return contacts.map(() => null);
+
+    const entriesByKey = new Map(entries.map(entry => [keyString(entry), entry]));
+    const blockedAttempts = [];
+    const results: (DncEntry | null)[] = [];
+
+    for (let i = 0; i < contacts.length; i++) {
+      const entry = keys[i].map(key => entriesByKey.get(keyString(key))).find(Boolean) || null;
+      results.push(entry);
+      if (entry) {
+        blockedAttempts.push({
+          client_id: clientId,
+          channel: attempt.channel,
+          contact_type: entry.contact_type,
+          value: entry.value,
+          dnc_entry_id: entry.id,
+          lead_id: contacts[i].lead_id ?? null,
+          user_id: attempt.userId ?? null
+        });
+      }
+    }
+
+    await DoNotContactModel.recordBlockedAttempts(blockedAttempts);
+    return results;
+  }
+
+  /**
+   * Whether an incoming message asks to stop messaging (e.g. "STOP", "הסר")
+   */
+  static isStopMessage(text: string | null | undefined): boolean {
+    const normalized = String(text || '').trim().toLowerCase().replace(/[.!\s]+$/, '').replace(/\s+/g, ' ');
+    return STOP_KEYWORDS.has(normalized);
+  }
+
+  /**
+   * Validate do-not-contact settings sent by an admin - returns error messages
+   */
+  static validateSettings(dnc: any): string[] {
+    if (dnc === undefined || dnc === null) return [];
+    if (typeof dnc !== 'object' || Array.isArray(dnc)) {
+      return ['settings.dnc must be an object'];
+    }
+
+    if (dnc.removalStatuses !== undefined &&
+      (!Array.isArray(dnc.removalStatuses) || dnc.removalStatuses.some((status: any) => typeof status !== 'string' || !status.trim()))) {
+      return ['settings.dnc.removalStatuses must be a list of lead status names'];
+    }
+
+    return [];
+  }
+}
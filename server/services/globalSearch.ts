@@ -0,0 +1,98 @@
+import { GlobalSearchModel, SearchEntity, SearchResult, SearchScope, SearchTerm } from '../models/GlobalSearch.js';
+import { visibleAssignees } from '../utils/leadScope.js';
+import { phoneSearchDigits } from '../utils/phone.js';
+
+export const SEARCH_ENTITIES: SearchEntity[] = ['lead', 'customer', 'task', 'event'];
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 100;
+const MIN_PHONE_DIGITS = 3; // fewer digits match half the phone book
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+export interface GlobalSearchRequest {
+  term: SearchTerm;
+  types: SearchEntity[];
+  limit: number; // per entity type
+}
+
+export type GlobalSearchGroups = Record<SearchEntity, SearchResult[]>;
+
+/**
+ * Global Search Service
+ * One search box over leads, customers, tasks and events - every entity type is searched
+ * with the user's visibility rules and returned as its own ranked group
+ */
+export class GlobalSearchService {
+  /**
+   * Parse ?q=&types=lead,customer&limit= - returns the request or error messages
+   */
+  static parseRequest(queryParams: any): { request?: GlobalSearchRequest; errors: string[] } {
+    const errors: string[] = [];
+
+    const text = typeof queryParams?.q === 'string' ? queryParams.q.trim().replace(/\s+/g, ' ') : '';
+    if (text.length < MIN_TERM_LENGTH || text.length > MAX_TERM_LENGTH) {
+      errors.push(`q must be between ${MIN_TERM_LENGTH} and ${MAX_TERM_LENGTH} characters`);
+    }
+
+    const types = queryParams?.types
+      ? String(queryParams.types).split(',').map(type => type.trim()).filter(Boolean)
+      : SEARCH_ENTITIES;
+    const unknown = types.filter(type => !SEARCH_ENTITIES.includes(type as SearchEntity));
+    if (unknown.length > 0) {
+      errors.push(`types must be any of: ${SEARCH_ENTITIES.join(', ')}`);
+    }
+
+    const limit = queryParams?.limit === undefined ? DEFAULT_LIMIT : Number(queryParams.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      errors.push(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    if (errors.length > 0) return { errors };
+
+    // A term made of a phone number's characters is also looked up by digits (050-1234567, +972 50 123 4567)
+    const phoneDigits = /^[\d\s+()\-.]+$/.test(text) ? phoneSearchDigits(text) : '';
+
+    return {
+      request: {
+        term: {
+          text,
+          likeText: text.replace(/[\\%_]/g, '\\$&'),
+          phoneDigits: phoneDigits.length >= MIN_PHONE_DIGITS ? phoneDigits : ''
+        },
+        types: types as SearchEntity[],
+        limit
+      },
+      errors
+    };
+  }
+
+  /**
+   * What the user may find - the same rules as the list of each entity
+   */
+  static async scopeFor(user: any): Promise<SearchScope> {
+    return {
+      userId: Number(user.id),
+      leadAssignees: await visibleAssignees(user),
+      allTasks: user.role === 'admin'
+    };
+  }
+
+  /**
+   * Search every requested entity type - groups that were not requested are empty
+   */
+  static async search(request: GlobalSearchRequest, user: any): Promise<GlobalSearchGroups> {
+    const scope = await this.scopeFor(user);
+    const searches: Record<SearchEntity, () => Promise<SearchResult[]>> = {
+      lead: () => GlobalSearchModel.searchLeads(request.term, scope, request.limit),
+      customer: () => GlobalSearchModel.searchCustomers(request.term, scope, request.limit),
+      task: () => GlobalSearchModel.searchTasks(request.term, scope, request.limit),
+      event: () => GlobalSearchModel.searchEvents(request.term, scope, request.limit)
+    };
+
+    const results = await Promise.all(
+      SEARCH_ENTITIES.map(type => (request.types.includes(type) ? searches[type]() : Promise.resolve([])))
+    );
+    return Object.fromEntries(SEARCH_ENTITIES.map((type, index) => [type, results[index]])) as GlobalSearchGroups;
+  }
+}
@@ -0,0 +1,172 @@
+import { UserModel } from '../models/User.js';
+import { LeadModel } from '../models/Lead.js';
+import { AttendanceModel } from '../models/Attendance.js';
+import { SystemClientModel, AutoAssignRule, ClientSettings } from '../models/SystemClient.js';
+import { LeadAssignmentLogModel } from '../models/LeadAssignmentLog.js';
+
+export interface AssignableLead {
+  source?: string | null;
+  custom_fields?: Record<string, any> | null;
+}
+
+// Keeps the rotation correct when many leads are assigned before any is logged (Excel import)
+export interface AssignmentBatchState {
+  lastRoundRobin: Map<string, number>;
+  assignedCounts: Map<number, number>;
+}
+
+export interface AssignmentDecision {
+  assignedTo: number | null;
+  managerId: number | null;
+  strategy: 'round_robin' | 'least_open' | 'fallback';
+  ruleIndex: number | null;
+  reason: string;
+  candidates: number[];
+}
+
+/**
+ * Lead Assignment Service
+ * Picks an agent for new leads (creation, Excel import, inbound capture)
+ * according to the client's settings.autoAssign configuration
+ */
+export class LeadAssignmentService {
+  /**
+   * Find the active manager of a client (used when the creator is not a manager)
+   */
+  static async findClientManagerId(clientId: number | null | undefined): Promise<number | null> {
+    if (!clientId) return null;
+
+    const clientUsers = await UserModel.findByClientId(clientId);
+    const manager = clientUsers.find(user => user.role === 'manager' && user.is_active);
+    return manager?.id || null;
+  }
+
+  /**
+   * Decide who gets the lead
+   * Returns null when auto-assignment is disabled for the client
+   */
+  static async decide(
+    lead: AssignableLead,
+    context: { clientId: number | null | undefined; managerId?: number | null; settings?: ClientSettings; batch?: AssignmentBatchState }
+  ): Promise<AssignmentDecision | null> {
+    const settings = context.settings || await SystemClientModel.getSettings(context.clientId);
+    if (!settings.autoAssignLeads) return null;
+
+    const managerId = context.managerId || await this.findClientManagerId(context.clientId);
+    if (!managerId) return null;
+
+    const autoAssign = settings.autoAssign || {};
+    const team = (await UserModel.findByManagerId(managerId))
+      .filter(user => user.role === 'agent' && user.is_active);
+
+    // Rules are checked in order - the first matching rule narrows the candidates
+    const ruleIndex = (autoAssign.rules || []).findIndex(rule => this.matchesRule(lead, rule));
+    const rule = ruleIndex >= 0 ? autoAssign.rules![ruleIndex] : null;
+    const strategy = rule?.strategy || autoAssign.strategy || 'round_robin';
+
+    let candidates = team.map(user => user.id);
+    if (rule?.agentIds && rule.agentIds.length > 0) {
+      candidates = candidates.filter(id => rule.agentIds!.map(Number).includes(id));
+    }
+
+    const skipped: string[] = [];
+    if (autoAssign.requireClockedIn !== false && candidates.length > 0) {
+      const clockedIn = await AttendanceModel.findClockedInUserIds(candidates);
+      const clockedOut = candidates.filter(id => !clockedIn.includes(id));
+      if (clockedOut.length > 0) skipped.push(`${clockedOut.length} לא במשמרת`);
+      candidates = clockedIn.sort((a, b) => a - b);
+    } else {
+      candidates = candidates.sort((a, b) => a - b);
+    }
+
+    const ruleText = rule ? `כלל #${ruleIndex + 1} (${rule.field} = ${rule.value})` : 'ללא כלל תואם';
+    const skippedText = skipped.length > 0 ? `, דולגו: ${skipped.join(', ')}` : '';
+
+    if (candidates.length === 0) {
+      return {
+        assignedTo: managerId,
+        managerId,
+        strategy: 'fallback',
+        ruleIndex: rule ? ruleIndex : null,
+        reason: `אין נציגים זמינים - הליד נשאר אצל המנהל (${ruleText}${skippedText})`,
+        candidates
+      };
+    }
+
+    if (strategy === 'least_open') {
+      const client = await SystemClientModel.getConfiguration(context.clientId as number);
+      const finalStatuses = (client?.lead_statuses || []).filter(status => status.isFinal).map(status => status.name);
+      const openCounts = await LeadModel.countOpenByAssignees(candidates, finalStatuses);
+      context.batch?.assignedCounts.forEach((count, id) => {
+        if (openCounts.has(id)) openCounts.set(id, openCounts.get(id)! + count);
+      });
+
+      // Fewest open leads wins, ties go to the lower user ID
+      const assignedTo = candidates.reduce((best, id) => (openCounts.get(id)! < openCounts.get(best)! ? id : best), candidates[0]);
+      context.batch?.assignedCounts.set(assignedTo, (context.batch.assignedCounts.get(assignedTo) || 0) + 1);
+
+      return {
+        assignedTo,
+        managerId,
+        strategy,
+        ruleIndex: rule ? ruleIndex : null,
+        reason: `פחות לידים פתוחים (${openCounts.get(assignedTo)}) מתוך ${candidates.length} נציגים - ${ruleText}${skippedText}`,
+        candidates
+      };
+    }
+
+    // Round-robin: next candidate after the last one that received a lead
+    const poolKey = candidates.join(',');
+    const lastAssignee = context.batch?.lastRoundRobin.get(poolKey)
+      ?? await LeadAssignmentLogModel.findLastRoundRobinAssignee(candidates);
+    const lastIndex = lastAssignee ? candidates.indexOf(lastAssignee) : -1;
+    const assignedTo = candidates[(lastIndex + 1) % candidates.length];
+    context.batch?.lastRoundRobin.set(poolKey, assignedTo);
+
+    return {
+      assignedTo,
+      managerId,
+      strategy: 'round_robin',
+      ruleIndex: rule ? ruleIndex : null,
+      reason: `סבב (round-robin) בין ${candidates.length} נציגים - ${ruleText}${skippedText}`,
+      candidates
+    };
+  }
+
+  /**
+   * Create an empty batch state for assigning many leads in one request
+   */
+  static createBatch(): AssignmentBatchState {
+    return { lastRoundRobin: new Map(), assignedCounts: new Map() };
+  }
+
+  /**
+   * Save the decision so managers can see why the lead went to whom
+   */
+  static async record(leadId: number, clientId: number | null | undefined, decision: AssignmentDecision): Promise<void> {
+    try {
+      await LeadAssignmentLogModel.create({
+        lead_id: leadId,
+        client_id: clientId,
+        manager_id: decision.managerId,
+        assigned_to: decision.assignedTo,
+        strategy: decision.strategy,
+        rule_index: decision.ruleIndex,
+        reason: decision.reason,
+        candidates: decision.candidates
+      });
+    } catch (error) {
+      // Logging must not fail the lead creation
+      console.error('Error recording lead assignment:', error);
+    }
+  }
+
+  private static matchesRule(lead: AssignableLead, rule: AutoAssignRule): boolean {
+    const value = rule.field.startsWith('custom_fields.')
+      ? lead.custom_fields?.[rule.field.slice('custom_fields.'.length)]
+      : (lead as Record<string, any>)[rule.field];
+
+    if (value === undefined || value === null) return false;
+    return String(value).trim().toLowerCase() === String(rule.value).trim().toLowerCase();
+  }
+}
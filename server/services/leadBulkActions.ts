@@ -0,0 +1,171 @@
+import { Lead } from '../models/Lead.js';
+import { LeadStatus } from '../models/SystemClient.js';
+import { LeadBulkBatch } from '../models/LeadBulkBatch.js';
+import { checkStatusTransition } from '../utils/leadStatusTransitions.js';
+export { CONVERTED_LEAD_STATUS } from './customerConversion.js';
+
+export type LeadBulkAction = 'status' | 'delete' | 'tags' | 'callback' | 'convert';
+
+export const LEAD_BULK_ACTIONS: LeadBulkAction[] = ['status', 'delete', 'tags', 'callback', 'convert'];
+
+// Most leads one bulk action can change
+export const MAX_BULK_LEADS = 500;
+
+// How long a manager can undo a bulk action
+export const BULK_UNDO_WINDOW_MINUTES = 30;
+
+export interface LeadBulkParams {
+  status?: string; // new status, or the client's conversion status for convert
+  add?: string[];
+  remove?: string[];
+  callbackDate?: string; // YYYY-MM-DD
+  callbackTime?: string | null; // HH:MM - omitted keeps each lead's time
+}
+
+export interface LeadBulkRequest {
+  action: LeadBulkAction;
+  leadIds: number[];
+  params: LeadBulkParams;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isTagList = (value: any) => Array.isArray(value) && value.every(tag => typeof tag === 'string');
+
+/**
+ * Lead Bulk Action Service
+ * Validates bulk lead actions (status, delete, tags, callback, convert) and who may run or undo them
+ */
+export class LeadBulkActionService {
+  /**
+   * Parse and validate the request body of a bulk action - returns the request or error messages
+   */
+  static parseRequest(action: LeadBulkAction, body: any): { request?: LeadBulkRequest; errors: string[] } {
+    const errors: string[] = [];
+    const rawIds = Array.isArray(body?.leadIds) ? body.leadIds : [];
+    const leadIds = [...new Set<number>(rawIds.map((id: any) => Number(id)))];
+
+    if (leadIds.length === 0) {
+      errors.push('leadIds must contain at least one lead');
+    } else if (leadIds.some(id => !Number.isInteger(id) || id <= 0)) {
+      errors.push('leadIds must contain lead IDs');
+    } else if (leadIds.length > MAX_BULK_LEADS) {
+      errors.push(`At most ${MAX_BULK_LEADS} leads can be changed at once`);
+    }
+
+    const params: LeadBulkParams = {};
+    if (action === 'status') {
+      if (!body?.status || typeof body.status !== 'string') {
+        errors.push('status is required');
+      } else {
+        params.status = body.status;
+      }
+    } else if (action === 'tags') {
+      const add = body?.add ?? [];
+      const remove = body?.remove ?? [];
+      if (!isTagList(add) || !isTagList(remove)) {
+        errors.push('add and remove must be lists of tag names');
+      } else {
+        params.add = [...new Set<string>(add.map((tag: string) => tag.trim()).filter(Boolean))];
+        params.remove = [...new Set<string>(remove.map((tag: string) => tag.trim()).filter(Boolean))];
+        if (params.add.length === 0 && params.remove.length === 0) {
+          errors.push('No tags to add or remove');
+        }
+      }
+    } else if (action === 'callback') {
+      if (typeof body?.callbackDate !== 'string' || !DATE_PATTERN.test(body.callbackDate) || isNaN(Date.parse(body.callbackDate))) {
+        errors.push('callbackDate must be a date (YYYY-MM-DD)');
+      } else {
+        params.callbackDate = body.callbackDate;
+      }
+      if (body?.callbackTime !== undefined && body.callbackTime !== null && body.callbackTime !== '') {
+        if (typeof body.callbackTime !== 'string' || !TIME_PATTERN.test(body.callbackTime)) {
+          errors.push('callbackTime must be a time (HH:MM)');
+        } else {
+          params.callbackTime = body.callbackTime;
+        }
+      }
+    }
+
+    if (errors.length > 0) return { errors };
+    return { request: { action, leadIds, params }, errors };
+  }
+
+  /**
+   * Check every lead of the request - the action runs only when no lead is rejected
+   * statusesOf gives the status configuration of the lead's client, convertedLeadIds are leads that already have a customer
+   */
+  static checkLeads(
+    request: LeadBulkRequest,
+    leads: Lead[],
+    user: { id: number; role: string; client_id?: number | null },
+    options: { statusesOf?: (lead: Lead) => LeadStatus[]; convertedLeadIds?: number[] } = {}
+  ): { errors: string[]; forbidden: string[] } {
+    const errors: string[] = [];
+    const forbidden: string[] = [];
+    const found = new Map(leads.map(lead => [Number(lead.id), lead]));
+
+    for (const id of request.leadIds) {
+      const lead = found.get(id);
+      if (!lead) {
+        errors.push(`Lead ${id} not found`);
+        continue;
+      }
+
+      // Agents can change only their own leads
+      if (user.role === 'agent' && Number(lead.assigned_to) !== Number(user.id)) {
+        forbidden.push(`No permission to update lead ${id}`);
+        continue;
+      }
+      if (user.role !== 'admin' && user.client_id && lead.client_id && Number(lead.client_id) !== Number(user.client_id)) {
+        forbidden.push(`No permission to update lead ${id}`);
+        continue;
+      }
+
+      if (request.action === 'status') {
+        const transition = checkStatusTransition(options.statusesOf?.(lead) || [], lead.status, request.params.status!, user.role);
+        if (!transition.allowed) {
+          errors.push(`Lead ${id}: ${transition.error}`);
+        } else if (transition.requiresApproval) {
+          errors.push(`Lead ${id}: "${request.params.status}" requires manager approval - change it on the lead`);
+        }
+      } else if (request.action === 'convert' && options.convertedLeadIds?.includes(id)) {
+        errors.push(`Lead ${id} is already a customer`);
+      }
+    }
+
+    return { errors, forbidden };
+  }
+
+  /**
+   * Tags of a lead after the bulk tag action
+   */
+  static applyTags(current: string[] | null | undefined, params: LeadBulkParams): string[] {
+    const tags = current || [];
+    return [...new Set([...tags, ...(params.add || [])])].filter(tag => !(params.remove || []).includes(tag));
+  }
+
+  /**
+   * Why the user cannot undo the batch - null when they can
+   */
+  static checkUndo(
+    batch: LeadBulkBatch,
+    user: { id: number; role: string; client_id?: number | null },
+    now: Date = new Date()
+  ): { statusCode: number; error: string } | null {
+    if (user.role !== 'admin' && user.role !== 'manager') {
+      return { statusCode: 403, error: 'Access denied. Only admins and managers can undo bulk actions' };
+    }
+    if (user.role !== 'admin' && batch.client_id && Number(batch.client_id) !== Number(user.client_id)) {
+      return { statusCode: 403, error: 'Access denied' };
+    }
+    if (batch.undone_at) {
+      return { statusCode: 409, error: 'The bulk action was already undone' };
+    }
+    if (new Date(batch.undo_until).getTime() <= now.getTime()) {
+      return { statusCode: 409, error: `Bulk actions can be undone only within ${BULK_UNDO_WINDOW_MINUTES} minutes` };
+    }
+    return null;
+  }
+}
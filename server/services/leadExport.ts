@@ -0,0 +1,134 @@
+import * as XLSX from 'xlsx';
+import { Lead } from '../models/Lead.js';
+import { LeadTimelineEntry } from '../models/LeadTimeline.js';
+import { CustomFieldDefinition } from '../models/SystemClient.js';
+import { utcToIsraelTime } from '../utils/israelTimezone.js';
+import { CustomFieldService } from './customFields.js';
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+export interface ExportContext {
+  agentNames: Map<number, string>;
+  customFields?: CustomFieldDefinition[]; // headers of custom_fields.<key> columns
+  lastActivity?: Map<number, LeadTimelineEntry>; // latest timeline entry per lead (last_history column)
+}
+
+interface ExportColumnDefinition {
+  label: string;
+  width: number;
+  value: (lead: Lead, context: ExportContext) => string | number | null;
+}
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Timestamps are stored in UTC - shown as DD/MM/YYYY HH:MM in Israel time
+const formatTimestamp = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  const israel = utcToIsraelTime(date);
+  return `${pad(israel.getUTCDate())}/${pad(israel.getUTCMonth() + 1)}/${israel.getUTCFullYear()} ${pad(israel.getUTCHours())}:${pad(israel.getUTCMinutes())}`;
+};
+
+// callback_date is a DATE column that already holds the Israeli date
+const formatDate = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : `${pad(value.getDate())}/${pad(value.getMonth() + 1)}/${value.getFullYear()}`;
+  }
+  const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : String(value);
+};
+
+export const EXPORT_COLUMNS: Record<string, ExportColumnDefinition> = {
+  id: { label: 'מזהה', width: 10, value: lead => lead.id },
+  name: { label: 'שם', width: 25, value: lead => lead.name },
+  phone: { label: 'טלפון', width: 15, value: lead => lead.phone },
+  email: { label: 'אימייל', width: 30, value: lead => lead.email },
+  status: { label: 'סטטוס', width: 18, value: lead => lead.status },
+  source: { label: 'מקור', width: 15, value: lead => lead.source },
+  assigned_agent: {
+    label: 'נציג מטפל',
+    width: 20,
+    value: (lead, context) => (lead.assigned_to ? context.agentNames.get(lead.assigned_to) || `#${lead.assigned_to}` : null)
+  },
+  callback_date: { label: 'תאריך חזרה', width: 14, value: lead => formatDate(lead.callback_date) },
+  callback_time: { label: 'שעת חזרה', width: 10, value: lead => (lead.callback_time ? String(lead.callback_time).slice(0, 5) : null) },
+  last_contact: { label: 'קשר אחרון', width: 18, value: lead => formatTimestamp(lead.last_contact) },
+  notes: { label: 'הערות', width: 40, value: lead => lead.notes },
+  product: { label: 'מוצר', width: 20, value: lead => lead.product },
+  amount: { label: 'סכום', width: 12, value: lead => lead.amount },
+  score: { label: 'ציון', width: 8, value: lead => lead.score ?? null },
+  score_classification: { label: 'סיווג', width: 14, value: lead => lead.score_classification || null },
+  last_history: {
+    label: 'פעולה אחרונה',
+    width: 45,
+    value: (lead, context) => {
+      const entry = context.lastActivity?.get(lead.id);
+      if (!entry?.description) return null;
+      const date = formatTimestamp(entry.created_at);
+      return date ? `${date} - ${entry.description}` : entry.description;
+    }
+  },
+  created_at: { label: 'תאריך יצירה', width: 18, value: lead => formatTimestamp(lead.created_at) },
+  updated_at: { label: 'עדכון אחרון', width: 18, value: lead => formatTimestamp(lead.updated_at) }
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'name', 'phone', 'email', 'status', 'source', 'assigned_agent', 'callback_date', 'callback_time', 'last_history', 'created_at'
+];
+
+/**
+ * Lead Export Service
+ * Builds XLSX/CSV files of leads with the columns the user selected
+ */
+export class LeadExportService {
+  /**
+   * Parse the comma separated "columns" query value (default columns when empty)
+   * Custom fields are selected as "custom_fields.<key>"
+   */
+  static parseColumns(value: unknown): { columns: string[]; errors: string[] } {
+    if (value === undefined || value === '') return { columns: DEFAULT_EXPORT_COLUMNS, errors: [] };
+
+    const columns = String(value).split(',').map(column => column.trim()).filter(Boolean);
+    const errors = columns
+      .filter(column => !EXPORT_COLUMNS[column] && !(column.startsWith(CUSTOM_FIELD_PREFIX) && column.length > CUSTOM_FIELD_PREFIX.length))
+      .map(column => `Unknown export column: ${column}`);
+
+    if (columns.length === 0) errors.push('At least one column must be selected');
+    return { columns: [...new Set(columns)], errors };
+  }
+
+  /**
+   * Build the file content - one row per lead, headers in Hebrew
+   */
+  static buildFile(leads: Lead[], columns: string[], format: ExportFormat, context: ExportContext): Buffer {
+    const customFieldNames = new Map((context.customFields || []).map(definition => [definition.id, definition.name]));
+    const headers = columns.map(column => {
+      const key = column.slice(CUSTOM_FIELD_PREFIX.length);
+      return EXPORT_COLUMNS[column]?.label || customFieldNames.get(key) || key;
+    });
+    const rows = leads.map(lead => columns.map(column => {
+      const definition = EXPORT_COLUMNS[column];
+      if (definition) return definition.value(lead, context);
+      return CustomFieldService.formatValue(lead.custom_fields?.[column.slice(CUSTOM_FIELD_PREFIX.length)]);
+    }));
+
+    const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+
+    if (format === 'csv') {
+      // BOM so Excel opens the Hebrew text as UTF-8
+      return Buffer.from(`\uFEFF${XLSX.utils.sheet_to_csv(worksheet)}`, 'utf-8');
+    }
+
+    worksheet['!cols'] = columns.map(column => ({ wch: EXPORT_COLUMNS[column]?.width || 20 }));
+    // Right-to-left sheet for Hebrew
+    const workbook = XLSX.utils.book_new();
+    workbook.Workbook = { Views: [{ RTL: true }] };
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'לידים');
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+}
@@ -0,0 +1,547 @@
+import * as XLSX from 'xlsx';
+import { LeadModel, Lead, BulkLeadData } from '../models/Lead.js';
+import { SystemClientModel, LeadStatus, CustomFieldDefinition } from '../models/SystemClient.js';
+import { LeadAssignmentService, AssignmentDecision, AssignmentBatchState } from './leadAssignment.js';
+import { CustomFieldService } from './customFields.js';
+import { DoNotContactService } from './doNotContact.js';
+import { parsePhone, formatPhone, phoneKey } from '../utils/phone.js';
+
+export type ImportEncoding = 'auto' | 'utf-8' | 'cp1255';
+
+// Lead fields a file column can be mapped to (custom fields use "custom_fields.<key>")
+export const IMPORT_FIELDS = ['name', 'phone', 'email', 'status', 'source', 'notes', 'callback_date', 'callback_time'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+// Lead field (or custom_fields.<key>) -> column header in the file
+export type ImportColumnMapping = Record<string, string>;
+
+export interface ParsedImportFile {
+  format: 'csv' | 'excel';
+  encoding: 'utf-8' | 'cp1255' | null;
+  headers: string[];
+  rows: { rowNumber: number; values: Record<string, string> }[];
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  lead: BulkLeadData | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportUser {
+  id: number;
+  role: string;
+  client_id?: number | null;
+}
+
+export interface ImportRowOutcome {
+  rowNumber: number;
+  result: 'created' | 'skipped' | 'attached';
+  reason?: string;
+  leadId?: number;
+}
+
+export interface ImportBatchState {
+  fileDuplicates: Map<number, number>; // row number -> earlier row with the same phone/email
+  assignment: AssignmentBatchState;
+}
+
+export interface ImportLeadsOptions {
+  importJobId?: number;
+  state?: ImportBatchState;
+}
+
+export interface ImportLeadsResult {
+  leads: Lead[];
+  outcomes: ImportRowOutcome[];
+  skipped: number;
+  attached: number;
+  blocked: number; // skipped because the phone/email is on the do-not-contact list
+  duplicates: string[];
+  duplicatePolicy: string;
+}
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.';
+
+// Header patterns for automatic column detection - more specific fields are checked first
+const FIELD_PATTERNS: [ImportField, string[]][] = [
+  ['email', ['email', 'אימייל', 'מייל', 'mail', 'e_mail', 'e-mail']],
+  ['phone', ['phone', 'טלפון', 'mobile', 'cell', 'נייד', 'telephone']],
+  ['callback_time', ['callback_time', 'followup_time', 'שעת חזרה', 'שעה']],
+  ['callback_date', ['callback_date', 'followup_date', 'תאריך חזרה', 'תאריך']],
+  ['status', ['status', 'סטטוס', 'מצב']],
+  ['source', ['source', 'מקור']],
+  ['notes', ['notes', 'note', 'comments', 'הערות', 'הערה']],
+  ['name', ['name', 'שם', 'full_name', 'fullname', 'customer', 'לקוח', 'שם מלא']]
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Excel date cells (cellDates) -> YYYY-MM-DD / HH:MM text
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const time = `${pad(value.getHours())}:${pad(value.getMinutes())}`;
+    if (value.getFullYear() <= 1900) return time; // time-only cell
+    const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    return time === '00:00' ? date : `${date} ${time}`;
+  }
+  return String(value).trim();
+};
+
+const parseDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const local = value.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/); // DD/MM/YYYY (Israeli format)
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local
+      ? [local[3].length === 2 ? `20${local[3]}` : local[3], local[2], local[1]]
+      : [];
+
+  if (!year) return null;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+  return `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+};
+
+const parseTime = (value: string): string | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(:\d{2})?$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return `${pad(Number(match[1]))}:${match[2]}`;
+};
+
+/**
+ * Lead Import Service
+ * Two-step import of CSV/Excel files: preview (detected mapping + per-row validation)
+ * and a background job with the explicit mapping (see jobs/leadImportJobs.ts)
+ */
+export class LeadImportService {
+  /**
+   * Check whether an uploaded file is CSV (otherwise it is parsed as Excel)
+   */
+  static isCsvFile(filename: string, mimetype?: string): boolean {
+    return /\.(csv|txt)$/i.test(filename) || !!mimetype?.includes('csv');
+  }
+
+  /**
+   * Decode CSV bytes - UTF-8 (with or without BOM) or CP1255 (Hebrew Windows)
+   */
+  static decodeCsv(buffer: Buffer, encoding: ImportEncoding = 'auto'): { text: string; encoding: 'utf-8' | 'cp1255' } {
+    if (encoding === 'cp1255') {
+      return { text: new TextDecoder('windows-1255').decode(buffer), encoding };
+    }
+
+    try {
+      // fatal: invalid UTF-8 bytes throw instead of becoming U+FFFD
+      const text = new TextDecoder('utf-8', { fatal: encoding === 'auto' }).decode(buffer);
+      return { text: text.replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+    } catch {
+      return { text: new TextDecoder('windows-1255').decode(buffer), encoding: 'cp1255' };
+    }
+  }
+
+  /**
+   * Parse the first sheet of an Excel file or a CSV file into header + rows
+   */
+  static parseFile(buffer: Buffer, filename: string, mimetype?: string, encoding: ImportEncoding = 'auto'): ParsedImportFile {
+    let workbook: XLSX.WorkBook;
+    let detectedEncoding: ParsedImportFile['encoding'] = null;
+    const format = this.isCsvFile(filename, mimetype) ? 'csv' : 'excel';
+
+    if (format === 'csv') {
+      const decoded = this.decodeCsv(buffer, encoding);
+      detectedEncoding = decoded.encoding;
+      // raw: keep values as text (leading zeros of phone numbers)
+      workbook = XLSX.read(decoded.text, { type: 'string', raw: true });
+    } else {
+      workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+    }
+
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const table = worksheet
+      ? XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: true, defval: '', blankrows: true })
+      : [];
+
+    // Unique, non-empty headers so every column can be mapped
+    const headers: string[] = [];
+    (table[0] || []).forEach((cell, index) => {
+      const base = formatCell(cell) || `עמודה ${index + 1}`;
+      let header = base;
+      for (let copy = 2; headers.includes(header); copy++) header = `${base} (${copy})`;
+      headers.push(header);
+    });
+
+    const rows = table.slice(1)
+      .map((cells, index) => ({
+        rowNumber: index + 2, // row 1 is the header
+        values: Object.fromEntries(headers.map((header, column) => [header, formatCell(cells[column])]))
+      }))
+      .filter(row => Object.values(row.values).some(Boolean));
+
+    return { format, encoding: detectedEncoding, headers, rows };
+  }
+
+  /**
+   * Guess the column mapping from header names, then from the values of the first rows
+   * Headers named exactly like a custom field (name or id) are mapped to it first
+   */
+  static detectMapping(file: ParsedImportFile, customFields: CustomFieldDefinition[] = []): ImportColumnMapping {
+    const mapping: ImportColumnMapping = {};
+    const usedHeaders = new Set<string>();
+
+    for (const definition of customFields) {
+      const names = [definition.name, definition.id].map(name => name.trim().toLowerCase());
+      const header = file.headers.find(candidate => !usedHeaders.has(candidate) && names.includes(candidate.trim().toLowerCase()));
+      if (header) {
+        mapping[`${CUSTOM_FIELD_PREFIX}${definition.id}`] = header;
+        usedHeaders.add(header);
+      }
+    }
+
+    for (const [field, patterns] of FIELD_PATTERNS) {
+      const header = file.headers.find(candidate =>
+        !usedHeaders.has(candidate) && patterns.some(pattern => candidate.toLowerCase().includes(pattern))
+      );
+      if (header) {
+        mapping[field] = header;
+        usedHeaders.add(header);
+      }
+    }
+
+    // No clear headers - look at the values of the first columns
+    if (!mapping.name || !mapping.phone) {
+      for (const header of file.headers.slice(0, 5).filter(candidate => !usedHeaders.has(candidate))) {
+        const values = file.rows.slice(0, 5).map(row => row.values[header]).filter(Boolean);
+
+        if (!mapping.phone && values.some(value => /^[\d\-+()\s]+$/.test(value) && value.replace(/\D/g, '').length >= 9)) {
+          mapping.phone = header;
+        } else if (!mapping.email && values.some(value => value.includes('@'))) {
+          mapping.email = header;
+        } else if (!mapping.name && values.some(value => value.length > 2 && /^[א-ת\s\w'".-]+$/.test(value) && !/^[\d\-+()\s]+$/.test(value))) {
+          mapping.name = header;
+        } else {
+          continue;
+        }
+        usedHeaders.add(header);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Validate a column mapping against the file headers
+   * When the client defined custom fields, only those can be mapped
+   * Returns a list of errors (empty when the mapping is valid)
+   */
+  static validateMapping(file: ParsedImportFile, mapping: ImportColumnMapping, customFields: CustomFieldDefinition[] = []): string[] {
+    const errors: string[] = [];
+    const customFieldIds = customFields.map(definition => definition.id);
+
+    for (const [field, header] of Object.entries(mapping)) {
+      const isCustomField = field.startsWith(CUSTOM_FIELD_PREFIX) && field.length > CUSTOM_FIELD_PREFIX.length;
+      if (!isCustomField && !(IMPORT_FIELDS as readonly string[]).includes(field)) {
+        errors.push(`Unknown lead field: ${field}`);
+      }
+      if (isCustomField && customFieldIds.length > 0 && !customFieldIds.includes(field.slice(CUSTOM_FIELD_PREFIX.length))) {
+        errors.push(`Unknown custom field: ${field.slice(CUSTOM_FIELD_PREFIX.length)}`);
+      }
+      if (!file.headers.includes(header)) {
+        errors.push(`Column "${header}" (mapped to ${field}) was not found in the file`);
+      }
+    }
+
+    if (!mapping.name) errors.push('A column must be mapped to name');
+    if (!mapping.phone) errors.push('A column must be mapped to phone');
+
+    return errors;
+  }
+
+  /**
+   * Build leads from the file rows using the mapping, with per-row errors and warnings
+   * Custom field values are validated against the client's definitions
+   */
+  static buildRows(
+    file: ParsedImportFile,
+    mapping: ImportColumnMapping,
+    leadStatuses: LeadStatus[] = [],
+    customFieldDefinitions: CustomFieldDefinition[] = []
+  ): ImportRowResult[] {
+    const defaultStatus = SystemClientModel.getDefaultLeadStatus(leadStatuses);
+    const statusNames = leadStatuses.map(status => status.name);
+    const customFieldEntries = Object.entries(mapping).filter(([field]) => field.startsWith(CUSTOM_FIELD_PREFIX));
+
+    return file.rows.map(({ rowNumber, values }) => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const get = (field: ImportField) => (mapping[field] ? values[mapping[field]] || '' : '');
+
+      const name = get('name');
+      const phone = get('phone');
+      const email = get('email');
+      const status = get('status');
+      const callbackDateValue = get('callback_date');
+      const callbackTimeValue = get('callback_time');
+
+      if (!name) errors.push('שם הוא שדה חובה');
+      if (!phone) errors.push('טלפון הוא שדה חובה');
+
+      if (phone && !parsePhone(phone)) {
+        warnings.push(`מספר הטלפון "${phone}" עשוי להיות לא תקין`);
+      }
+
+      if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        warnings.push(`כתובת האימייל "${email}" עשויה להיות לא תקינה`);
+      }
+
+      if (status && statusNames.length > 0 && !statusNames.includes(status)) {
+        errors.push(`סטטוס לא מוכר: ${status}`);
+      }
+
+      const callbackDate = callbackDateValue ? parseDate(callbackDateValue) : null;
+      if (callbackDateValue && !callbackDate) errors.push(`תאריך חזרה לא תקין: ${callbackDateValue}`);
+
+      const callbackTime = callbackTimeValue ? parseTime(callbackTimeValue) : null;
+      if (callbackTimeValue && !callbackTime) errors.push(`שעת חזרה לא תקינה: ${callbackTimeValue}`);
+
+      const customFieldValues: Record<string, string> = {};
+      customFieldEntries.forEach(([field, header]) => {
+        if (values[header]) customFieldValues[field.slice(CUSTOM_FIELD_PREFIX.length)] = values[header];
+      });
+      const customFields = CustomFieldService.validateValues(customFieldDefinitions, customFieldValues, { applyDefaults: true });
+      errors.push(...customFields.errors);
+
+      return {
+        rowNumber,
+        errors,
+        warnings,
+        lead: errors.length > 0 ? null : {
+          name,
+          phone: formatPhone(phone),
+          email: email || undefined,
+          status: status || defaultStatus,
+          source: get('source') || 'excel_import',
+          followup_date: callbackDate || undefined,
+          followup_time: callbackTime || undefined,
+          notes: get('notes') || undefined,
+          custom_fields: Object.keys(customFields.values).length > 0 ? customFields.values : undefined
+        }
+      };
+    });
+  }
+
+  /**
+   * Map each valid row that repeats the phone/email of an earlier row to that earlier row
+   * Computed over the whole file so chunks of a background import agree on it
+   */
+  static findFileDuplicates(rows: { rowNumber: number; lead: BulkLeadData | null }[]): Map<number, number> {
+    const firstRows = new Map<string, number>();
+    const duplicates = new Map<number, number>();
+
+    for (const { rowNumber, lead } of rows) {
+      if (!lead) continue;
+      const contactKeys = [phoneKey(lead.phone), lead.email?.toLowerCase()].filter((key): key is string => !!key);
+      const previousRow = contactKeys.map(key => firstRows.get(key)).find(row => row !== undefined);
+      contactKeys.forEach(key => {
+        if (!firstRows.has(key)) firstRows.set(key, rowNumber);
+      });
+      if (previousRow !== undefined) duplicates.set(rowNumber, previousRow);
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * State shared by the chunks of one import (file duplicates + assignment rotation)
+   */
+  static createBatchState(rows: { rowNumber: number; lead: BulkLeadData | null }[]): ImportBatchState {
+    return {
+      fileDuplicates: this.findFileDuplicates(rows),
+      assignment: LeadAssignmentService.createBatch()
+    };
+  }
+
+  /**
+   * Save validated leads: duplicate policy, auto-assignment, insert and callback events
+   * With importJobId, rows already imported by the job are reported as created and not inserted again
+   */
+  static async importLeads(user: ImportUser, rows: { rowNumber: number; lead: BulkLeadData }[], options: ImportLeadsOptions = {}): Promise<ImportLeadsResult> {
+    const clientId = user.client_id || null;
+    const settings = await SystemClientModel.getSettings(clientId);
+    const { duplicateLeadPolicy = 'warn' } = settings;
+    const state = options.state || this.createBatchState(rows);
+
+    const outcomes: ImportRowOutcome[] = [];
+    const duplicates: string[] = [];
+    const leadsToImport: BulkLeadData[] = [];
+    const fileAttachments: { rowNumber: number; previousRow: number; lead: BulkLeadData; existing: Lead | null }[] = [];
+
+    const alreadyImported = options.importJobId
+      ? await LeadModel.findImportedRows(options.importJobId, rows.map(row => row.rowNumber))
+      : new Map<number, Lead>();
+    const pendingRows = rows.filter(row => {
+      const lead = alreadyImported.get(row.rowNumber);
+      if (lead) outcomes.push({ rowNumber: row.rowNumber, result: 'created', leadId: lead.id });
+      return !lead;
+    });
+
+    // Duplicate detection - against earlier rows in the same file and existing leads
+    const existingLeads = await LeadModel.findDuplicatesForContacts(pendingRows.map(row => row.lead), clientId, options.importJobId);
+
+    // Contacts on the do-not-contact list are never imported (each one is reported as a blocked attempt)
+    const dncEntries = await DoNotContactService.enforce(clientId, pendingRows.map(row => row.lead), { channel: 'import', userId: user.id });
+    let blocked = 0;
+
+    for (let i = 0; i < pendingRows.length; i++) {
+      const { rowNumber, lead: rowLead } = pendingRows[i];
+      const lead: BulkLeadData = { ...rowLead, assigned_to: user.id, client_id: clientId || undefined, import_row: rowNumber };
+      const previousRow = state.fileDuplicates.get(rowNumber);
+      const existing = existingLeads[i];
+
+      if (dncEntries[i]) {
+        blocked++;
+        outcomes.push({ rowNumber, result: 'skipped', reason: `ברשימת "אל תפנה" (${dncEntries[i]!.value})` });
+        continue;
+      }
+
+      if (previousRow !== undefined) {
+        const reason = `Duplicate of row ${previousRow} in the file`;
+        duplicates.push(`Row ${rowNumber}: ${reason}`);
+        if (duplicateLeadPolicy === 'attach') {
+          // Attached once the lead of the earlier row is known (below)
+          fileAttachments.push({ rowNumber, previousRow, lead, existing });
+          continue;
+        }
+        if (duplicateLeadPolicy === 'skip') {
+          outcomes.push({ rowNumber, result: 'skipped', reason: `כפילות של שורה ${previousRow} בקובץ` });
+          continue;
+        }
+      } else if (existing) {
+        duplicates.push(`Row ${rowNumber}: Matches existing lead #${existing.id} (${existing.name})`);
+        if (duplicateLeadPolicy === 'skip') {
+          outcomes.push({ rowNumber, result: 'skipped', reason: `קיים ליד עם אותם פרטים (#${existing.id} ${existing.name})`, leadId: existing.id });
+          continue;
+        }
+        if (duplicateLeadPolicy === 'attach') {
+          await LeadModel.attachDuplicate(existing.id, lead, user.id);
+          outcomes.push({ rowNumber, result: 'attached', leadId: existing.id });
+          continue;
+        }
+      }
+
+      leadsToImport.push(lead);
+    }
+
+    // Auto-assignment (managers/admins only) - one batch so the rotation continues across rows
+    const assignmentDecisions = new Map<number, AssignmentDecision>();
+    if (user.role !== 'agent') {
+      for (const lead of leadsToImport) {
+        const decision = await LeadAssignmentService.decide(lead, {
+          clientId,
+          managerId: user.role === 'manager' ? user.id : null,
+          settings,
+          batch: state.assignment
+        });
+        if (decision?.assignedTo) {
+          lead.assigned_to = decision.assignedTo;
+        }
+        if (decision) assignmentDecisions.set(lead.import_row!, decision);
+      }
+    }
+
+    const importedLeads = await LeadModel.createImported(leadsToImport, options.importJobId, user.id);
+    const importedByRow = new Map(importedLeads.map((lead, index) => [lead.import_row ?? leadsToImport[index].import_row!, lead]));
+
+    for (const lead of leadsToImport) {
+      const imported = importedByRow.get(lead.import_row!);
+      outcomes.push({ rowNumber: lead.import_row!, result: 'created', leadId: imported?.id });
+
+      const decision = assignmentDecisions.get(lead.import_row!);
+      if (imported && decision) {
+        await LeadAssignmentService.record(imported.id, clientId, decision);
+      }
+    }
+
+    await this.createCallbackEvents(user.id, importedLeads);
+
+    // Duplicates of earlier rows in the file are attached to the lead that row created or was attached to -
+    // earlier rows of previous chunks are looked up by the job
+    if (fileAttachments.length > 0) {
+      const leadOfRow = new Map<number, number>();
+      outcomes.forEach(outcome => {
+        if (outcome.leadId && outcome.result !== 'skipped') leadOfRow.set(outcome.rowNumber, outcome.leadId);
+      });
+      const missingRows = fileAttachments.map(row => row.previousRow).filter(row => !leadOfRow.has(row));
+      if (options.importJobId && missingRows.length > 0) {
+        const earlierLeads = await LeadModel.findImportedRows(options.importJobId, missingRows);
+        earlierLeads.forEach((lead, rowNumber) => leadOfRow.set(rowNumber, lead.id));
+      }
+
+      for (const { rowNumber, previousRow, lead, existing } of fileAttachments.sort((a, b) => a.rowNumber - b.rowNumber)) {
+        const targetId = leadOfRow.get(previousRow) ?? existing?.id;
+        if (!targetId) {
+          outcomes.push({ rowNumber, result: 'skipped', reason: `כפילות של שורה ${previousRow} בקובץ` });
+          continue;
+        }
+
+        await LeadModel.attachDuplicate(targetId, lead, user.id);
+        outcomes.push({ rowNumber, result: 'attached', leadId: targetId });
+        leadOfRow.set(rowNumber, targetId);
+      }
+    }
+
+    outcomes.sort((a, b) => a.rowNumber - b.rowNumber);
+
+    return {
+      leads: importedLeads,
+      outcomes,
+      skipped: outcomes.filter(outcome => outcome.result === 'skipped').length,
+      attached: outcomes.filter(outcome => outcome.result === 'attached').length,
+      blocked,
+      duplicates,
+      duplicatePolicy: duplicateLeadPolicy
+    };
+  }
+
+  // Create unified events for imported leads with follow-up dates
+  private static async createCallbackEvents(userId: number, leads: Lead[]): Promise<void> {
+    const leadsWithCallbacks = leads.filter(lead => lead.callback_date && lead.callback_time);
+    if (leadsWithCallbacks.length === 0) return;
+
+    try {
+      const { UnifiedEventModel } = await import('../models/UnifiedEvent.js');
+
+      for (const lead of leadsWithCallbacks) {
+        try {
+          const callbackDate = lead.callback_date instanceof Date
+            ? `${lead.callback_date.getFullYear()}-${pad(lead.callback_date.getMonth() + 1)}-${pad(lead.callback_date.getDate())}`
+            : String(lead.callback_date).slice(0, 10);
+          const callbackTime = String(lead.callback_time).slice(0, 5);
+
+          await UnifiedEventModel.createEventFromLead(userId, {
+            title: `שיחה חוזרת - ${lead.name}`,
+            description: `שיחה חוזרת עם ${lead.name} (${lead.phone})${lead.notes ? ` - ${lead.notes}` : ''}`,
+            eventType: 'reminder' as const,
+            startTime: `${callbackDate}T${callbackTime}:00.000Z`,
+            endTime: `${callbackDate}T${callbackTime}:30.000Z`, // 30 minutes duration
+            advanceNotice: 30, // 30 minutes advance notice
+            isActive: true,
+            notified: false,
+            customerName: undefined, // Don't set customer name when created from leads
+            leadId: lead.id
+          });
+        } catch (eventError) {
+          console.error(`Error creating unified event for imported lead ${lead.id}:`, eventError);
+          // Continue with other leads even if one fails
+        }
+      }
+
+      console.log(`Created unified events for ${leadsWithCallbacks.length} imported leads with callbacks`);
+    } catch (eventError) {
+      console.error('Error creating unified events for imported leads:', eventError);
+      // Don't fail the import if event creation fails
+    }
+  }
+}
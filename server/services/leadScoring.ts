@@ -0,0 +1,277 @@
+/**
+ * Lead Scoring Service
+ * Server-side version of the scoring that used to run in the browser (src/services/aiService.ts).
+ * Scores are stored on the lead so they can be sorted, filtered and reported on.
+ */
+
+export type LeadSentiment = 'positive' | 'negative' | 'neutral';
+
+export interface ScorableLead {
+  status?: string | null;
+  notes?: string | null;
+  history?: any;
+  last_contact?: Date | string | null;
+  created_at?: Date | string | null;
+}
+
+export interface LeadScore {
+  score: number;
+  classification: string;
+  sentiment: LeadSentiment;
+  predictedStatus: string | null;
+  daysWithoutContact: number;
+}
+
+interface WordCounts {
+  positive: number;
+  negative: number;
+  hesitation: number;
+  urgency: number;
+}
+
+// Time decay - open leads lose points after this many days without contact
+const DECAY_AFTER_DAYS = 7;
+const DECAY_POINTS_PER_DAY = 2;
+const MAX_DECAY = 30;
+
+// Contact activity in the history raises the score (up to MAX_ENGAGEMENT_BONUS)
+const ENGAGEMENT_TYPES = ['note', 'call', 'message', 'callback'];
+const ENGAGEMENT_POINTS = 2;
+const MAX_ENGAGEMENT_BONUS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const positiveWords = new Set([
+  // ביטויי עניין והסכמה
+  'מעוניין', 'מצוין', 'טוב', 'נהדר', 'מעולה', 'בסדר', 'מסכים', 'אשמח',
+  'מתעניין', 'רוצה', 'בעד', 'מתאים', 'מוכן', 'מתלהב', 'מרוצה',
+  'נשמע טוב', 'מעניין אותי', 'אהבתי', 'מתאים לי', 'נראה מעולה',
+  'אפשר', 'בשמחה', 'מעדיף', 'מחכה', 'מצפה', 'מתרגש',
+
+  // ביטויי דחיפות
+  'בהקדם', 'מהר', 'דחוף', 'מיידי', 'עכשיו', 'היום', 'מחר',
+
+  // ביטויי התקדמות
+  'להתקדם', 'להתחיל', 'לסגור', 'לחתום', 'להמשיך', 'להצטרף',
+
+  // ביטויי שביעות רצון
+  'מוצא חן', 'אוהב את זה', 'נראה לי טוב',
+
+  // ביטויי נכונות לתשלום
+  'מוכן לשלם', 'אשלם', 'התקציב מתאים', 'המחיר בסדר', 'משתלם',
+
+  // ביטויי אמון
+  'סומך עליכם', 'מאמין', 'בטוח בכם', 'יש לכם ניסיון', 'מקצועי'
+]);
+
+const negativeWords = new Set([
+  // ביטויי דחייה
+  'לא', 'יקר', 'בעיה', 'קשה', 'מסובך', 'מוותר', 'עזוב', 'יקר מדי',
+  'מתנגד', 'נגד', 'אין', 'בלי', 'מסרב', 'דוחה', 'מתקשה', 'נפנף',
+
+  // ביטויי חוסר עניין
+  'לא מעוניין', 'לא צריך', 'לא רוצה', 'לא בא בחשבון', 'לא מתאים',
+  'לא היה רציני', 'לא היה כל כך רציני',
+
+  // ביטויי תקציב
+  'אין תקציב', 'לא יכול להרשות', 'מחיר גבוה', 'לא משתלם',
+
+  // ביטויי חשש
+  'חושש', 'מפחד', 'לא בטוח', 'מודאג', 'מהסס', 'צריך לחשוב',
+
+  // ביטויי דחייה בזמן
+  'לא עכשיו', 'אולי בעתיד', 'בהמשך', 'נדבר בעוד כמה חודשים',
+  'נדבר בעוד שבועיים', 'תתקשר בעוד שבוע', 'תחזור אלי עוד חודש',
+
+  // ביטויי חוסר אמון
+  'לא מאמין', 'לא סומך', 'צריך לבדוק', 'נשמע חשוד', 'לא משכנע'
+]);
+
+const hesitationWords = new Set([
+  // ביטויי היסוס בסיסיים
+  'אולי', 'אחשוב', 'נראה', 'יכול להיות', 'אבדוק', 'צריך לבדוק',
+  'לא בטוח', 'אתייעץ', 'אשקול', 'בהמשך', 'מאוחר יותר',
+
+  // ביטויי דחייה עדינים
+  'נדבר שוב', 'אחזור אליך', 'אתקשר שוב', 'צריך להתייעץ',
+
+  // ביטויי חוסר ודאות
+  'צריך לחשוב על זה', 'אני עדיין לא בטוח', 'יש לי התלבטות',
+  'צריך לשקול', 'לא החלטתי עדיין', 'תן לי לחשוב',
+
+  // ביטויי השוואה
+  'אני בודק אופציות', 'יש לי עוד הצעות', 'משווה מחירים',
+  'מתייעץ עם אחרים', 'בודק מתחרים'
+]);
+
+const urgencyWords = new Set([
+  // ביטויי דחיפות מיידית
+  'דחוף', 'מיידי', 'בהקדם', 'עכשיו', 'היום', 'מחר',
+  'חשוב', 'קריטי', 'בדחיפות', 'מהר', 'בימים הקרובים',
+
+  // ביטויי לחץ זמן
+  'אין זמן', 'צריך מהר', 'לא יכול לחכות', 'חייב עכשיו',
+  'דוחק הזמן', 'מתי הכי מהר', 'בלי דיחוי',
+
+  // ביטויי תזמון ספציפי
+  'עד סוף השבוע', 'עד סוף החודש', 'לפני החג',
+  'בשבוע הבא', 'בחודש הקרוב'
+]);
+
+// Statuses with a fixed score - time decay and notes don't apply to them
+const FIXED_SCORES: Record<string, number> = {
+  'עסקה נסגרה': 100,
+  'לא מעוניין': 0,
+  'הסרה מהמאגר': 0
+};
+
+const STATUS_ADJUSTMENTS: Record<string, number> = {
+  'חדש': 10,
+  'נשלחה הצעת מחיר': 20,
+  'אין מענה': -10,
+  'אין מענה 2': -20,
+  'רוצה לחשוב': -5
+};
+
+const countWordTypes = (text: string): WordCounts => {
+  const counts: WordCounts = { positive: 0, negative: 0, hesitation: 0, urgency: 0 };
+
+  text.toLowerCase().split(/\s+/).forEach(word => {
+    if (positiveWords.has(word)) counts.positive++;
+    if (negativeWords.has(word)) counts.negative++;
+    if (hesitationWords.has(word)) counts.hesitation++;
+    if (urgencyWords.has(word)) counts.urgency++;
+  });
+
+  return counts;
+};
+
+const toHistoryEntries = (history: any): Array<{ type?: string; createdAt?: string }> => {
+  if (Array.isArray(history)) return history;
+  if (typeof history === 'string') {
+    try {
+      const parsed = JSON.parse(history);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+export class LeadScoringService {
+  /**
+   * Score a lead from its status, notes and history
+   */
+  static analyze(lead: ScorableLead, now: Date = new Date()): LeadScore {
+    const sentiment = this.getSentiment(lead.notes);
+    const daysWithoutContact = this.getDaysWithoutContact(lead, now);
+    const score = this.calculateScore(lead, daysWithoutContact);
+
+    return {
+      score,
+      classification: this.getClassification(score),
+      sentiment,
+      predictedStatus: this.predictNextStatus(lead.status, sentiment, score),
+      daysWithoutContact
+    };
+  }
+
+  /**
+   * Columns to store on the lead (see LeadModel)
+   */
+  static toColumns(lead: ScorableLead, now: Date = new Date()) {
+    const result = this.analyze(lead, now);
+    return {
+      score: result.score,
+      score_classification: result.classification,
+      sentiment: result.sentiment,
+      predicted_status: result.predictedStatus,
+      scored_at: now
+    };
+  }
+
+  private static calculateScore(lead: ScorableLead, daysWithoutContact: number): number {
+    const status = lead.status || '';
+    if (status in FIXED_SCORES) return FIXED_SCORES[status];
+
+    let score = 50; // ציון בסיס
+
+    // ניתוח הערות
+    if (lead.notes) {
+      const counts = countWordTypes(lead.notes);
+      score += counts.positive * 5;
+      score -= counts.negative * 8;
+      score -= counts.hesitation * 3;
+      score += counts.urgency * 4;
+    }
+
+    // התאמה לפי סטטוס
+    score += STATUS_ADJUSTMENTS[status] || 0;
+
+    // מעורבות - פעולות קשר שתועדו בהיסטוריה
+    const engagement = toHistoryEntries(lead.history).filter(entry => ENGAGEMENT_TYPES.includes(entry.type || '')).length;
+    score += Math.min(MAX_ENGAGEMENT_BONUS, engagement * ENGAGEMENT_POINTS);
+
+    // דעיכה - ימים ללא קשר
+    if (daysWithoutContact > DECAY_AFTER_DAYS) {
+      score -= Math.min(MAX_DECAY, (daysWithoutContact - DECAY_AFTER_DAYS) * DECAY_POINTS_PER_DAY);
+    }
+
+    // הגבלת הציון לטווח 0-100
+    return Math.max(0, Math.min(100, score));
+  }
+
+  private static getSentiment(notes?: string | null): LeadSentiment {
+    if (!notes) return 'neutral';
+
+    // בדיקת ביטויים שליליים ספציפיים
+    const hasStrongNegative = notes.includes('לא היה רציני') ||
+                             notes.includes('נפנף') ||
+                             notes.includes('לא מעוניין');
+    if (hasStrongNegative) return 'negative';
+
+    const counts = countWordTypes(notes);
+    const total = counts.positive + counts.negative + counts.hesitation;
+    if (total === 0) return 'neutral';
+
+    // חישוב יחס בין ביטויים חיוביים לשליליים
+    const positiveRatio = counts.positive / total;
+    if (positiveRatio > 0.6) return 'positive';
+    if (positiveRatio < 0.3) return 'negative';
+    return 'neutral';
+  }
+
+  private static getClassification(score: number): string {
+    if (score >= 80) return 'ליד חם';
+    if (score >= 60) return 'ליד מבטיח';
+    if (score >= 40) return 'ליד בינוני';
+    return 'ליד קר';
+  }
+
+  private static predictNextStatus(status: string | null | undefined, sentiment: LeadSentiment, score: number): string | null {
+    switch (status) {
+      case 'חדש':
+        return sentiment === 'positive' ? 'נשלחה הצעת מחיר' : 'אין מענה';
+      case 'נשלחה הצעת מחיר':
+        return score >= 70 ? 'עסקה נסגרה' : 'רוצה לחשוב';
+      case 'אין מענה':
+        return 'אין מענה 2';
+      case 'רוצה לחשוב':
+        return sentiment === 'positive' ? 'נשלחה הצעת מחיר' : 'לא מעוניין';
+      default:
+        return status || null;
+    }
+  }
+
+  // Days since the last contact (last_contact, latest history entry or creation date)
+  private static getDaysWithoutContact(lead: ScorableLead, now: Date): number {
+    const timestamps = [lead.last_contact, lead.created_at, ...toHistoryEntries(lead.history).map(entry => entry.createdAt)]
+      .filter(Boolean)
+      .map(value => new Date(value as string).getTime())
+      .filter(time => !isNaN(time));
+
+    if (timestamps.length === 0) return 0;
+    return Math.max(0, Math.floor((now.getTime() - Math.max(...timestamps)) / DAY_MS));
+  }
+}
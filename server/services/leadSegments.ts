@@ -0,0 +1,77 @@
+import { LeadSegment, LeadSegmentModel } from '../models/LeadSegment.js';
+import { parseLeadFilters } from '../utils/leadFilters.js';
+
+// Query parameters that are not filters - never stored in a segment
+const NON_FILTER_PARAMS = ['limit', 'offset', 'sort', 'segment', 'format', 'columns'];
+
+export interface ResolvedSegmentQuery {
+  query: Record<string, any>;
+  segment: LeadSegment | null;
+  error?: { status: number; message: string };
+}
+
+/**
+ * Lead Segment Service
+ * A segment is a saved set of lead list query parameters (see utils/leadFilters.ts),
+ * so every endpoint that lists leads can apply it the same way
+ */
+export class LeadSegmentService {
+  /**
+   * Clean and validate the filters of a segment before saving it
+   */
+  static sanitizeFilters(input: any): { filters: Record<string, string>; errors: string[] } {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { filters: {}, errors: ['filters must be an object of lead list query parameters'] };
+    }
+
+    const filters: Record<string, string> = {};
+    for (const [key, value] of Object.entries(input)) {
+      if (NON_FILTER_PARAMS.includes(key) || value === undefined || value === null) continue;
+
+      const text = Array.isArray(value) ? value.map(String).join(',') : String(value).trim();
+      if (text !== '') filters[key] = text;
+    }
+
+    const { errors } = parseLeadFilters(filters);
+    return { filters, errors };
+  }
+
+  /**
+   * Whether the user may use the segment - their own segments and the client's shared ones
+   */
+  static canUse(segment: LeadSegment, user: any): boolean {
+    if ((segment.client_id ?? null) !== (user.client_id ?? null)) return false;
+    return segment.is_shared || Number(segment.created_by) === Number(user.id);
+  }
+
+  /**
+   * Whether the user may change or delete the segment - the author, or a manager/admin for shared segments
+   */
+  static canManage(segment: LeadSegment, user: any): boolean {
+    if (!this.canUse(segment, user)) return false;
+    return Number(segment.created_by) === Number(user.id) || (segment.is_shared && user.role !== 'agent');
+  }
+
+  /**
+   * Resolve ?segment=<id> in list query parameters
+   * The segment's filters come first, parameters given explicitly in the request override them
+   */
+  static async resolveQuery(queryParams: Record<string, any>, user: any): Promise<ResolvedSegmentQuery> {
+    const { segment: segmentParam, ...rest } = queryParams;
+    if (segmentParam === undefined || segmentParam === '') {
+      return { query: queryParams, segment: null };
+    }
+
+    const segmentId = parseInt(String(segmentParam));
+    if (isNaN(segmentId)) {
+      return { query: rest, segment: null, error: { status: 400, message: 'segment must be a segment ID' } };
+    }
+
+    const segment = await LeadSegmentModel.findById(segmentId);
+    if (!segment || !this.canUse(segment, user)) {
+      return { query: rest, segment: null, error: { status: 404, message: 'Segment not found' } };
+    }
+
+    return { query: { ...segment.filters, ...rest }, segment };
+  }
+}
@@ -0,0 +1,118 @@
+import { BusinessHours, LeadSlaRule, LeadSlaSettings } from '../models/SystemClient.js';
+import { israelTimeToUtc, utcToIsraelTime } from '../utils/israelTimezone.js';
+
+// Sunday-Thursday, 09:00-18:00 Israel time
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = { days: [0, 1, 2, 3, 4], start: '09:00', end: '18:00' };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Longest search for business minutes (a week of holidays/weekend is covered)
+const MAX_SEARCH_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Lead SLA Service
+ * Picks the client's first-touch rule for a new lead and computes its deadline
+ */
+export class LeadSlaService {
+  /**
+   * Whether the client tracks response times
+   */
+  static isEnabled(sla: LeadSlaSettings | undefined): boolean {
+    return !!sla && sla.enabled !== false && (sla.rules || []).length > 0;
+  }
+
+  /**
+   * First rule that applies to the lead source (rules without sources apply to every lead)
+   */
+  static findRule(sla: LeadSlaSettings, source: string | null | undefined): LeadSlaRule | null {
+    const leadSource = String(source || '').trim().toLowerCase();
+    return (sla.rules || []).find(rule =>
+      !rule.sources?.length || rule.sources.some(ruleSource => ruleSource.trim().toLowerCase() === leadSource)
+    ) || null;
+  }
+
+  /**
+   * Deadline for the first touch - business-hours rules count only minutes inside the business hours
+   * e.g. 15 minutes for a lead created on Friday evening ends on Sunday at 09:15
+   */
+  static computeDueAt(createdAt: Date, rule: LeadSlaRule, businessHours: BusinessHours = DEFAULT_BUSINESS_HOURS): Date {
+    const durationMs = rule.firstTouchMinutes * 60 * 1000;
+    if (rule.businessHoursOnly === false || businessHours.days.length === 0) {
+      return new Date(createdAt.getTime() + durationMs);
+    }
+
+    const open = toMinutes(businessHours.start) * 60 * 1000;
+    const close = toMinutes(businessHours.end) * 60 * 1000;
+
+    // Walk the days on the Israel wall clock (UTC fields of the shifted date)
+    let remaining = durationMs;
+    let cursor = utcToIsraelTime(createdAt).getTime();
+    for (let day = 0; day < MAX_SEARCH_DAYS; day++) {
+      const dayStart = cursor - (cursor % DAY_MS);
+      if (businessHours.days.includes(new Date(dayStart).getUTCDay())) {
+        const from = Math.max(cursor, dayStart + open);
+        const available = dayStart + close - from;
+        if (available > 0) {
+          if (remaining <= available) {
+            return israelTimeToUtc(new Date(from + remaining));
+          }
+          remaining -= available;
+        }
+      }
+      cursor = dayStart + DAY_MS;
+    }
+
+    return new Date(createdAt.getTime() + durationMs);
+  }
+
+  /**
+   * Validate SLA settings sent by an admin - returns error messages
+   */
+  static validateSettings(sla: any): string[] {
+    if (sla === undefined || sla === null) return [];
+    if (typeof sla !== 'object' || Array.isArray(sla)) {
+      return ['settings.sla must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (sla.rules !== undefined) {
+      if (!Array.isArray(sla.rules)) {
+        errors.push('settings.sla.rules must be a list');
+      } else {
+        sla.rules.forEach((rule: any, index: number) => {
+          const label = `settings.sla.rules[${index}]`;
+          if (!rule?.id) errors.push(`${label}: id is required`);
+          if (!rule?.name || typeof rule.name !== 'string') errors.push(`${label}: name is required`);
+          if (!Number.isInteger(rule?.firstTouchMinutes) || rule.firstTouchMinutes <= 0) {
+            errors.push(`${label}: firstTouchMinutes must be a positive whole number`);
+          }
+          if (rule?.sources !== undefined && (!Array.isArray(rule.sources) || rule.sources.some((source: any) => typeof source !== 'string'))) {
+            errors.push(`${label}: sources must be a list of lead sources`);
+          }
+        });
+      }
+    }
+
+    if (sla.businessHours !== undefined) {
+      const { days, start, end } = sla.businessHours || {};
+      if (!Array.isArray(days) || days.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+        errors.push('settings.sla.businessHours.days must be a list of week days (0 = Sunday ... 6 = Saturday)');
+      }
+      if (!TIME_PATTERN.test(String(start)) || !TIME_PATTERN.test(String(end))) {
+        errors.push('settings.sla.businessHours start and end must be HH:MM');
+      } else if (toMinutes(start) >= toMinutes(end)) {
+        errors.push('settings.sla.businessHours must end after it starts');
+      }
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,135 @@
+import { Lead } from '../models/Lead.js';
+import { CreateLeadTimelineEntryData } from '../models/LeadTimeline.js';
+import { phoneKey } from '../utils/phone.js';
+
+export type LeadChangeEntry = Omit<CreateLeadTimelineEntryData, 'lead_id' | 'client_id' | 'actor_id'>;
+
+// Fields recorded as 'edit' entries (status, notes and callback have their own entry types)
+const EDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'שם',
+  phone: 'טלפון',
+  email: 'אימייל',
+  source: 'מקור',
+  product: 'מוצר',
+  amount: 'סכום',
+  potential_value: 'ערך פוטנציאלי',
+  closing_date: 'תאריך סגירה',
+  last_contact: 'קשר אחרון',
+  customer_id: 'לקוח',
+  custom_fields: 'שדות מותאמים',
+  tags: 'תגיות'
+};
+
+// DATE columns come back from pg as local midnight - compare them as YYYY-MM-DD
+const DATE_FIELDS = ['callback_date', 'closing_date'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toValue = (field: string, value: any): any => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) {
+    return DATE_FIELDS.includes(field)
+      ? `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+      : value.toISOString();
+  }
+  if (field === 'callback_time') return String(value).slice(0, 5);
+  if (field === 'amount' || field === 'potential_value') return Number(value);
+  return value;
+};
+
+const isSame = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+// Reformatting a phone (0501234567 -> 050-123-4567) is not a change
+const isSameValue = (field: string, a: any, b: any) =>
+  field === 'phone' ? phoneKey(a) === phoneKey(b) : isSame(toValue(field, a), toValue(field, b));
+
+const formatDate = (value: string) => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+};
+
+/**
+ * Lead Timeline Service
+ * Turns a lead change into typed timeline entries with the values before and after
+ */
+export class LeadTimelineService {
+  /**
+   * Describe the difference between two versions of a lead
+   * userNames resolves assigned_to IDs for the description (IDs are kept in the values)
+   */
+  static describeChanges(before: Lead, after: Lead, userNames: Map<number, string> = new Map()): LeadChangeEntry[] {
+    const entries: LeadChangeEntry[] = [];
+    const changed = (field: string) => !isSameValue(field, (before as any)[field], (after as any)[field]);
+
+    if (changed('status')) {
+      entries.push({
+        type: 'status',
+        description: before.status ? `סטטוס שונה מ"${before.status}" ל"${after.status}"` : `סטטוס נקבע ל"${after.status}"`,
+        before_values: { status: before.status || null },
+        after_values: { status: after.status }
+      });
+    }
+
+    if (changed('callback_date') || changed('callback_time')) {
+      const date = toValue('callback_date', after.callback_date);
+      const time = toValue('callback_time', after.callback_time);
+      entries.push({
+        type: 'callback',
+        description: date
+          ? `נקבעה שיחה חוזרת ל-${formatDate(date)}${time ? ` בשעה ${time}` : ''}`
+          : 'השיחה החוזרת בוטלה',
+        before_values: {
+          callback_date: toValue('callback_date', before.callback_date),
+          callback_time: toValue('callback_time', before.callback_time)
+        },
+        after_values: { callback_date: date, callback_time: time }
+      });
+    }
+
+    if (changed('notes')) {
+      entries.push({
+        type: 'note',
+        description: after.notes ? 'ההערות עודכנו' : 'ההערות נמחקו',
+        before_values: { notes: toValue('notes', before.notes) },
+        after_values: { notes: toValue('notes', after.notes) }
+      });
+    }
+
+    if (changed('assigned_to')) {
+      const name = (id: number | null) => (id ? userNames.get(Number(id)) || `#${id}` : 'ללא נציג');
+      entries.push({
+        type: 'edit',
+        description: `הליד שויך ל${name(after.assigned_to)}${before.assigned_to ? ` (במקום ${name(before.assigned_to)})` : ''}`,
+        before_values: { assigned_to: before.assigned_to ?? null },
+        after_values: { assigned_to: after.assigned_to ?? null }
+      });
+    }
+
+    const editedFields = Object.keys(EDIT_FIELD_LABELS).filter(changed);
+    if (editedFields.length > 0) {
+      entries.push({
+        type: 'edit',
+        description: `עודכנו פרטים: ${editedFields.map(field => EDIT_FIELD_LABELS[field]).join(', ')}`,
+        before_values: Object.fromEntries(editedFields.map(field => [field, toValue(field, (before as any)[field])])),
+        after_values: Object.fromEntries(editedFields.map(field => [field, toValue(field, (after as any)[field])]))
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Entry for a newly created lead
+   */
+  static describeCreation(lead: Lead, description: string = 'הליד נוצר'): LeadChangeEntry {
+    return {
+      type: 'edit',
+      description,
+      after_values: {
+        status: lead.status,
+        source: lead.source || null,
+        assigned_to: lead.assigned_to ?? null
+      }
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import { NoteModel, Note, NoteParentType, MentionableUser } from '../models/Note.js';
+import { UnifiedEventModel } from '../models/UnifiedEvent.js';
+import { LeadModel } from '../models/Lead.js';
+
+const MAX_NOTE_LENGTH = 5000;
+
+// The mention reminder pops up right away (reminders show within their advance notice)
+const MENTION_ADVANCE_MINUTES = 5;
+
+// Note text shown in the mention reminder
+const MENTION_EXCERPT_LENGTH = 200;
+
+export interface NoteParent {
+  type: NoteParentType;
+  id: number;
+  clientId: number | null;
+  name: string; // lead or customer name for the mention reminder
+}
+
+export interface NoteRequest {
+  body: string;
+  replyToId: number | null;
+}
+
+// A top-level note with its replies (oldest first)
+export interface NoteThread extends Note {
+  replies: Note[];
+}
+
+/**
+ * Note Service
+ * Threaded notes on leads and customers - mentions are resolved against the client's users
+ * and every newly mentioned user gets a reminder
+ */
+export class NoteService {
+  /**
+   * Validate the body of a new note or an edit - returns the request or error messages
+   */
+  static parseRequest(data: any): { request?: NoteRequest; errors: string[] } {
+    const errors: string[] = [];
+
+    const body = typeof data?.body === 'string' ? data.body.trim() : '';
+    if (!body) errors.push('body is required');
+    if (body.length > MAX_NOTE_LENGTH) errors.push(`body must be at most ${MAX_NOTE_LENGTH} characters`);
+
+    const replyToId = data?.replyToId === undefined || data?.replyToId === null ? null : Number(data.replyToId);
+    if (replyToId !== null && (!Number.isInteger(replyToId) || replyToId <= 0)) {
+      errors.push('replyToId must be a note ID');
+    }
+
+    if (errors.length > 0) return { errors };
+    return { request: { body, replyToId }, errors };
+  }
+
+  /**
+   * Users mentioned in a note as @Full Name - longer names first, so "@Dana Cohen Levi" is not also "@Dana Cohen"
+   */
+  static extractMentions(body: string, users: MentionableUser[]): number[] {
+    let remaining = body;
+    const mentioned: number[] = [];
+
+    for (const user of [...users].sort((a, b) => b.name.length - a.name.length)) {
+      const mention = `@${user.name}`;
+      if (!remaining.includes(mention)) continue;
+      mentioned.push(user.id);
+      remaining = remaining.split(mention).join(' ');
+    }
+
+    return mentioned;
+  }
+
+  /**
+   * Group notes into threads - newest thread first, replies in the order they were written
+   */
+  static toThreads(notes: Note[]): NoteThread[] {
+    const threads = new Map<number, NoteThread>();
+    for (const note of notes) {
+      if (!note.reply_to_id) threads.set(note.id, { ...note, replies: [] });
+    }
+    for (const note of notes) {
+      if (note.reply_to_id) threads.get(note.reply_to_id)?.replies.push(note);
+    }
+    return Array.from(threads.values()).reverse();
+  }
+
+  /**
+   * Add a note - a reply to a reply joins the thread of the note it answers
+   * Returns null when the note replied to is not on the record
+   */
+  static async create(parent: NoteParent, request: NoteRequest, authorId: number): Promise<Note | null> {
+    let replyToId: number | null = null;
+    if (request.replyToId) {
+      const repliedTo = await NoteModel.findForParent(request.replyToId, parent.type, parent.id);
+      if (!repliedTo) return null;
+      replyToId = repliedTo.reply_to_id ?? repliedTo.id;
+    }
+
+    const users = await NoteModel.findMentionable(parent.clientId);
+    const note = await NoteModel.create({
+      client_id: parent.clientId,
+      parent_type: parent.type,
+      parent_id: parent.id,
+      reply_to_id: replyToId,
+      body: request.body,
+      mentions: this.extractMentions(request.body, users),
+      author_id: authorId
+    });
+
+    // A note is activity on the lead - part of its score
+    if (parent.type === 'lead') await LeadModel.rescore(parent.id);
+
+    await this.notifyMentions(parent, note, note.mentions);
+    return note;
+  }
+
+  /**
+   * Replace the body of a note - only users not mentioned before are notified
+   */
+  static async update(parent: NoteParent, note: Note, body: string, authorId: number): Promise<Note> {
+    const users = await NoteModel.findMentionable(parent.clientId);
+    const mentions = this.extractMentions(body, users);
+    const updated = await NoteModel.update(note, body, mentions, authorId);
+
+    const previous = new Set((note.mentions || []).map(Number));
+    await this.notifyMentions(parent, updated, mentions.filter(id => !previous.has(Number(id))));
+    return updated;
+  }
+
+  /**
+   * Remind the mentioned users about the note - a failed reminder does not fail the note
+   */
+  private static async notifyMentions(parent: NoteParent, note: Note, userIds: number[]): Promise<void> {
+    const startTime = new Date(Date.now() + MENTION_ADVANCE_MINUTES * 60 * 1000);
+    const excerpt = note.body.length > MENTION_EXCERPT_LENGTH ? `${note.body.slice(0, MENTION_EXCERPT_LENGTH)}...` : note.body;
+
+    for (const userId of userIds) {
+      if (Number(userId) === Number(note.author_id)) continue;
+      try {
+        await UnifiedEventModel.createEvent(userId, {
+          title: `אוזכרת בהערה - ${parent.name}`,
+          description: `${note.author_name || 'משתמש'}: ${excerpt}`,
+          eventType: 'reminder',
+          startTime: startTime.toISOString(),
+          endTime: new Date(startTime.getTime() + 30 * 60 * 1000).toISOString(),
+          advanceNotice: MENTION_ADVANCE_MINUTES,
+          isActive: true,
+          notified: false,
+          customerName: parent.name,
+          leadId: parent.type === 'lead' ? parent.id : undefined,
+          customerId: parent.type === 'customer' ? parent.id : undefined
+        });
+      } catch (error) {
+        console.error(`Error notifying user ${userId} about note ${note.id}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { User } from '../models/User.js';
+import { UserBookOfBusiness, OffboardingPlan, OffboardingAssignment } from '../models/UserOffboarding.js';
+
+export type OffboardingDistribution = 'even' | 'least_open';
+
+export const OFFBOARDING_DISTRIBUTIONS: OffboardingDistribution[] = ['even', 'least_open'];
+
+// Most users the records can be split between
+const MAX_TARGETS = 50;
+
+export interface OffboardingRequest {
+  targetUserIds: number[];
+  distribution: OffboardingDistribution;
+  successorManagerId: number | null;
+  dryRun: boolean;
+}
+
+export interface OffboardingTargetSummary {
+  userId: number;
+  leads: number;
+  customers: number;
+  tasks: number;
+  events: number;
+}
+
+// Hands out targets in turn, or to whoever has the fewest open leads
+const createPicker = (targetIds: number[], distribution: OffboardingDistribution, openCounts: Map<number, number>) => {
+  let turn = 0;
+  const counts = new Map(targetIds.map(id => [id, openCounts.get(id) || 0]));
+
+  return {
+    next(): number {
+      return targetIds[turn++ % targetIds.length];
+    },
+    nextOpenLead(): number {
+      if (distribution !== 'least_open') return this.next();
+      // Ties go to the target listed first
+      const chosen = targetIds.reduce((best, id) => (counts.get(id)! < counts.get(best)! ? id : best), targetIds[0]);
+      counts.set(chosen, counts.get(chosen)! + 1);
+      return chosen;
+    }
+  };
+};
+
+/**
+ * User Offboarding Service
+ * Plans how a departing user's leads, customers, tasks and events are split between the users taking over
+ */
+export class UserOffboardingService {
+  /**
+   * Parse and validate the request body - returns the request or error messages
+   */
+  static parseRequest(body: any): { request?: OffboardingRequest; errors: string[] } {
+    const errors: string[] = [];
+    const rawTargets = Array.isArray(body?.targetUserIds) ? body.targetUserIds : [];
+    const targetUserIds = [...new Set<number>(rawTargets.map((id: any) => Number(id)))];
+
+    if (targetUserIds.length === 0) {
+      errors.push('targetUserIds must contain at least one user');
+    } else if (targetUserIds.some(id => !Number.isInteger(id) || id <= 0)) {
+      errors.push('targetUserIds must contain user IDs');
+    } else if (targetUserIds.length > MAX_TARGETS) {
+      errors.push(`targetUserIds can contain at most ${MAX_TARGETS} users`);
+    }
+
+    const distribution = body?.distribution ?? 'even';
+    if (!OFFBOARDING_DISTRIBUTIONS.includes(distribution)) {
+      errors.push(`distribution must be one of: ${OFFBOARDING_DISTRIBUTIONS.join(', ')}`);
+    }
+
+    let successorManagerId: number | null = null;
+    if (body?.successorManagerId !== undefined && body.successorManagerId !== null && body.successorManagerId !== '') {
+      successorManagerId = Number(body.successorManagerId);
+      if (!Number.isInteger(successorManagerId) || successorManagerId <= 0) {
+        errors.push('successorManagerId must be a user ID');
+      }
+    }
+
+    if (errors.length > 0) return { errors };
+    return {
+      request: { targetUserIds, distribution, successorManagerId, dryRun: body?.dryRun === true },
+      errors
+    };
+  }
+
+  /**
+   * Check that the users taking over can receive the records - returns error messages
+   */
+  static validateTargets(departing: User, targets: User[], request: OffboardingRequest, successor: User | null): string[] {
+    const errors: string[] = [];
+    const found = new Map(targets.map(user => [user.id, user]));
+    const sameClient = (user: User) => !departing.client_id || user.client_id === departing.client_id;
+
+    for (const id of request.targetUserIds) {
+      const target = found.get(id);
+      if (!target) {
+        errors.push(`user ${id} was not found`);
+      } else if (target.id === departing.id) {
+        errors.push('records cannot be reassigned to the departing user');
+      } else if (!target.is_active) {
+        errors.push(`user ${id} is not active`);
+      } else if (!sameClient(target)) {
+        errors.push(`user ${id} belongs to another client`);
+      }
+    }
+
+    if (request.successorManagerId) {
+      if (!successor) {
+        errors.push(`successor manager ${request.successorManagerId} was not found`);
+      } else if (successor.id === departing.id) {
+        errors.push('the successor manager cannot be the departing user');
+      } else if (successor.role !== 'manager' || !successor.is_active) {
+        errors.push('the successor must be an active manager');
+      } else if (!sameClient(successor)) {
+        errors.push('the successor manager belongs to another client');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Split the records between the targets
+   * Tasks and events follow the lead (or customer) they belong to, so a lead's history stays with one user
+   */
+  static plan(
+    book: UserBookOfBusiness,
+    targetIds: number[],
+    distribution: OffboardingDistribution,
+    options: { finalStatuses?: string[]; openCounts?: Map<number, number> } = {}
+  ): OffboardingPlan {
+    const finalStatuses = options.finalStatuses || [];
+    const openCounts = options.openCounts || new Map();
+
+    const leadPicker = createPicker(targetIds, distribution, openCounts);
+    const leads = book.leads.map(lead => ({
+      id: lead.id,
+      to: finalStatuses.includes(lead.status) ? leadPicker.next() : leadPicker.nextOpenLead()
+    }));
+
+    const customerPicker = createPicker(targetIds, 'even', openCounts);
+    const customers = book.customers.map(customer => ({ id: customer.id, to: customerPicker.next() }));
+
+    const leadOwners = new Map(leads.map(item => [item.id, item.to]));
+    const customerOwners = new Map(customers.map(item => [item.id, item.to]));
+
+    const taskPicker = createPicker(targetIds, 'even', openCounts);
+    const tasks = book.tasks.map(task => ({
+      id: task.id,
+      to: (task.lead_id && leadOwners.get(task.lead_id))
+        || (task.customer_id && customerOwners.get(task.customer_id))
+        || taskPicker.next()
+    }));
+
+    const taskOwners = new Map(tasks.map(item => [item.id, item.to]));
+    const eventPicker = createPicker(targetIds, 'even', openCounts);
+    const events = book.events.map(event => ({
+      id: event.id,
+      to: (event.lead_id && leadOwners.get(event.lead_id))
+        || (event.task_id && taskOwners.get(event.task_id))
+        || (event.customer_id && customerOwners.get(event.customer_id))
+        || eventPicker.next()
+    }));
+
+    return { leads, customers, tasks, events };
+  }
+
+  /**
+   * Number of records each target receives
+   */
+  static summarize(plan: OffboardingPlan, targetIds: number[]): OffboardingTargetSummary[] {
+    const count = (items: OffboardingAssignment[], userId: number) => items.filter(item => item.to === userId).length;
+
+    return targetIds.map(userId => ({
+      userId,
+      leads: count(plan.leads, userId),
+      customers: count(plan.customers, userId),
+      tasks: count(plan.tasks, userId),
+      events: count(plan.events, userId)
+    }));
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Custom Field Filters
+ * Filters on tenant-defined custom fields, shared by the lead and customer lists
+ *
+ * Query parameters:
+ *   cf.<key>=a,b                  - value in-list (matches any item of multiselect values)
+ *   cf.<key>.min / cf.<key>.max   - range on number fields, or on date fields (YYYY-MM-DD)
+ */
+
+export interface CustomFieldFilter {
+  key: string;
+  values?: string[];
+  min?: number | string;
+  max?: number | string;
+}
+
+const PARAM_PATTERN = /^cf\.([a-zA-Z][a-zA-Z0-9_]*)(?:\.(min|max))?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse cf.* query parameters
+ */
+export function parseCustomFieldFilters(queryParams: Record<string, any>): {
+  filters: CustomFieldFilter[];
+  errors: string[];
+} {
+  const byKey = new Map<string, CustomFieldFilter>();
+  const errors: string[] = [];
+
+  for (const [param, rawValue] of Object.entries(queryParams)) {
+    if (!param.startsWith('cf.')) continue;
+
+    const match = param.match(PARAM_PATTERN);
+    if (!match) {
+      errors.push(`Invalid custom field filter: ${param}`);
+      continue;
+    }
+
+    const key = match[1];
+    const bound = match[2] as 'min' | 'max' | undefined;
+    const filter = byKey.get(key) || { key };
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue])
+      .filter(item => item !== undefined && item !== null)
+      .flatMap(item => String(item).split(','))
+      .map(item => item.trim())
+      .filter(Boolean);
+    if (values.length === 0) continue;
+
+    if (!bound) {
+      filter.values = values;
+    } else if (DATE_PATTERN.test(values[0])) {
+      filter[bound] = values[0];
+    } else if (!isNaN(parseFloat(values[0]))) {
+      filter[bound] = parseFloat(values[0]);
+    } else {
+      errors.push(`${param} must be a number or a date in YYYY-MM-DD format`);
+      continue;
+    }
+
+    byKey.set(key, filter);
+  }
+
+  return { filters: [...byKey.values()], errors };
+}
+
+/**
+ * Check a record's custom_fields against the filters (lists that are filtered in memory)
+ */
+export function matchesCustomFieldFilters(customFields: Record<string, any> | null | undefined, filters: CustomFieldFilter[]): boolean {
+  return filters.every(filter => {
+    const value = customFields?.[filter.key];
+    if (value === undefined || value === null || value === '') return false;
+
+    if (filter.values) {
+      const items = (Array.isArray(value) ? value : [value]).map(item => String(item));
+      if (!items.some(item => filter.values!.includes(item))) return false;
+    }
+
+    for (const bound of ['min', 'max'] as const) {
+      const limit = filter[bound];
+      if (limit === undefined) continue;
+
+      const comparable = typeof limit === 'number' ? Number(value) : String(value);
+      if (typeof limit === 'number' && isNaN(comparable as number)) return false;
+      if (bound === 'min' ? comparable < limit : comparable > limit) return false;
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Lead List Filters
+ * Parses the filter grammar used by GET /api/leads (and every endpoint that lists leads)
+ *
+ * Query parameters:
+ *   status=חדש,אין מענה          - status in-list (comma separated)
+ *   source=website,excel_import   - source in-list
+ *   assigned_to=3,7               - assigned user set
+ *   created_from / created_to     - date range on created_at (YYYY-MM-DD, inclusive)
+ *   callback_from / callback_to   - date range on callback_date
+ *   last_contact_from / last_contact_to - date range on last_contact
+ *   amount_min / amount_max       - amount range
+ *   score_min / score_max         - lead score range (0-100)
+ *   classification=ליד חם         - score classification in-list
+ *   tag=VIP,חוזר                  - leads with any of the tags
+ *   q=text                        - free text (name, phone, email, notes)
+ *   cf.<key>=a,b / cf.<key>.min / cf.<key>.max - custom fields (see customFieldFilters.ts)
+ *   sort=-callback_date,name      - sort keys, "-" prefix for descending
+ *   segment=12                    - saved segment: its filters, overridden by the other parameters
+ *                                   (resolved by the routes - see services/leadSegments.ts)
+ */
+
+import { CustomFieldFilter, parseCustomFieldFilters } from './customFieldFilters.js';
+
+export interface LeadFilters {
+  status?: string[];
+  source?: string[];
+  assigned_to?: number[];
+  created_from?: string;
+  created_to?: string;
+  callback_from?: string;
+  callback_to?: string;
+  last_contact_from?: string;
+  last_contact_to?: string;
+  amount_min?: number;
+  amount_max?: number;
+  score_min?: number;
+  score_max?: number;
+  classification?: string[];
+  tags?: string[];
+  q?: string;
+  custom_fields?: CustomFieldFilter[];
+}
+
+export interface LeadSort {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+// Columns that can be used for sorting
+export const LEAD_SORT_FIELDS = [
+  'id', 'name', 'phone', 'email', 'status', 'source', 'created_at', 'updated_at',
+  'callback_date', 'callback_time', 'last_contact', 'amount', 'potential_value',
+  'closing_date', 'assigned_to', 'score'
+];
+
+export const DEFAULT_LEAD_SORT: LeadSort[] = [{ field: 'created_at', direction: 'DESC' }];
+
+const DATE_FILTERS = [
+  'created_from', 'created_to', 'callback_from', 'callback_to', 'last_contact_from', 'last_contact_to'
+] as const;
+
+const toList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter(item => item !== undefined && item !== null)
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Parse lead filters and sort keys from request query parameters
+ * Returns validation errors instead of throwing, so routes can answer with 400
+ */
+export function parseLeadFilters(queryParams: Record<string, any>): {
+  filters: LeadFilters;
+  sort: LeadSort[];
+  errors: string[];
+} {
+  const filters: LeadFilters = {};
+  const errors: string[] = [];
+
+  const status = toList(queryParams.status);
+  if (status.length > 0) filters.status = status;
+
+  const source = toList(queryParams.source);
+  if (source.length > 0) filters.source = source;
+
+  const assignedTo = toList(queryParams.assigned_to);
+  if (assignedTo.length > 0) {
+    const ids = assignedTo.map(id => parseInt(id));
+    if (ids.some(id => isNaN(id))) {
+      errors.push('assigned_to must be a list of user IDs');
+    } else {
+      filters.assigned_to = ids;
+    }
+  }
+
+  for (const key of DATE_FILTERS) {
+    const value = queryParams[key];
+    if (value === undefined || value === '') continue;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(String(value)) || isNaN(new Date(String(value)).getTime())) {
+      errors.push(`${key} must be a date in YYYY-MM-DD format`);
+    } else {
+      filters[key] = String(value);
+    }
+  }
+
+  const classification = toList(queryParams.classification);
+  if (classification.length > 0) filters.classification = classification;
+
+  const tags = toList(queryParams.tag);
+  if (tags.length > 0) filters.tags = tags;
+
+  for (const key of ['amount_min', 'amount_max', 'score_min', 'score_max'] as const) {
+    const value = queryParams[key];
+    if (value === undefined || value === '') continue;
+
+    const amount = parseFloat(String(value));
+    if (isNaN(amount)) {
+      errors.push(`${key} must be a number`);
+    } else {
+      filters[key] = amount;
+    }
+  }
+
+  if (queryParams.q && String(queryParams.q).trim()) {
+    filters.q = String(queryParams.q).trim();
+  }
+
+  const customFields = parseCustomFieldFilters(queryParams);
+  errors.push(...customFields.errors);
+  if (customFields.filters.length > 0) filters.custom_fields = customFields.filters;
+
+  const sort: LeadSort[] = [];
+  for (const key of toList(queryParams.sort)) {
+    const direction = key.startsWith('-') ? 'DESC' : 'ASC';
+    const field = key.replace(/^[-+]/, '');
+
+    if (!LEAD_SORT_FIELDS.includes(field)) {
+      errors.push(`Unknown sort field: ${field}`);
+    } else {
+      sort.push({ field, direction });
+    }
+  }
+
+  return { filters, sort: sort.length > 0 ? sort : DEFAULT_LEAD_SORT, errors };
+}
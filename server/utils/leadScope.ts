@@ -0,0 +1,41 @@
+/**
+ * Lead Visibility Scope
+ * Which assigned users' leads the current user may list, count or message
+ */
+
+// Restrict the assigned-user filter to the leads the current user may see
+// Admin: any user (no restriction without a filter)
+// Manager: their agents + themselves (only their own leads by default)
+// Agent: only their own leads
+export async function scopeAssignedTo(user: any, requested?: number[]): Promise<number[] | undefined> {
+  if (user.role === 'admin') {
+    return requested;
+  }
+
+  if (user.role === 'manager') {
+    const { UserModel } = await import('../models/User.js');
+    const agents = await UserModel.findByManagerId(user.id);
+    const agentIds = agents.map(agent => agent.id);
+    agentIds.push(Number(user.id)); // Include manager's own leads
+
+    return requested ? requested.filter(id => agentIds.includes(id)) : [Number(user.id)];
+  }
+
+  return requested ? requested.filter(id => id === Number(user.id)) : [Number(user.id)];
+}
+
+// Every assigned user whose leads the current user may see (null - no restriction)
+// Unlike scopeAssignedTo, managers get their agents' leads without asking for them (global search)
+export async function visibleAssignees(user: any): Promise<number[] | null> {
+  if (user.role === 'admin') {
+    return null;
+  }
+
+  if (user.role === 'manager') {
+    const { UserModel } = await import('../models/User.js');
+    const agents = await UserModel.findByManagerId(user.id);
+    return [...agents.map(agent => agent.id), Number(user.id)];
+  }
+
+  return [Number(user.id)];
+}
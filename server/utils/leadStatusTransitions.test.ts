@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LeadStatus } from '../models/SystemClient.js';
+import { checkStatusTransition, canEditLeadInStatus } from './leadStatusTransitions.js';
+
+// new -> contacted / lost, contacted -> anywhere, approved needs a manager, lost is final
+const statuses: LeadStatus[] = [
+  { id: 'new', name: 'new', color: '#3b82f6', order: 1, isDefault: true, isFinal: false, allowedTransitions: ['contacted', 'lost'] },
+  { id: 'contacted', name: 'contacted', color: '#f59e0b', order: 2, isDefault: false, isFinal: false },
+  { id: 'approved', name: 'approved', color: '#10b981', order: 3, isDefault: false, isFinal: false, requiresApproval: true },
+  { id: 'lost', name: 'lost', color: '#ef4444', order: 4, isDefault: false, isFinal: true }
+];
+
+describe('checkStatusTransition', () => {
+  it('allows any status when the client has no configured statuses', () => {
+    assert.deepEqual(checkStatusTransition([], 'anything', 'other', 'agent'), { allowed: true, requiresApproval: false });
+  });
+
+  it('rejects statuses that are not configured', () => {
+    const result = checkStatusTransition(statuses, 'new', 'missing', 'admin');
+    assert.equal(result.allowed, false);
+    assert.equal(result.statusCode, 400);
+  });
+
+  it('allows keeping the current status', () => {
+    assert.deepEqual(checkStatusTransition(statuses, 'lost', 'lost', 'agent'), { allowed: true, requiresApproval: false });
+  });
+
+  it('enforces the allowed transitions of the current status', () => {
+    assert.equal(checkStatusTransition(statuses, 'new', 'contacted', 'agent').allowed, true);
+
+    const result = checkStatusTransition(statuses, 'new', 'approved', 'admin');
+    assert.equal(result.allowed, false);
+    assert.equal(result.statusCode, 400);
+  });
+
+  it('lets statuses without transitions or outside the configuration move anywhere', () => {
+    assert.equal(checkStatusTransition(statuses, 'contacted', 'new', 'agent').allowed, true);
+    assert.equal(checkStatusTransition(statuses, 'legacy', 'contacted', 'agent').allowed, true);
+  });
+
+  it('lets only managers move a lead out of a final status', () => {
+    const result = checkStatusTransition(statuses, 'lost', 'contacted', 'agent');
+    assert.equal(result.allowed, false);
+    assert.equal(result.statusCode, 403);
+
+    assert.equal(checkStatusTransition(statuses, 'lost', 'contacted', 'manager').allowed, true);
+    assert.equal(checkStatusTransition(statuses, 'lost', 'contacted', 'admin').allowed, true);
+  });
+
+  it('requires approval for agents only', () => {
+    assert.deepEqual(checkStatusTransition(statuses, 'contacted', 'approved', 'agent'), { allowed: true, requiresApproval: true });
+    assert.deepEqual(checkStatusTransition(statuses, 'contacted', 'approved', 'manager'), { allowed: true, requiresApproval: false });
+  });
+});
+
+describe('canEditLeadInStatus', () => {
+  it('locks leads in a final status for agents', () => {
+    assert.equal(canEditLeadInStatus(statuses, 'lost', 'agent'), false);
+    assert.equal(canEditLeadInStatus(statuses, 'lost', 'manager'), true);
+    assert.equal(canEditLeadInStatus(statuses, 'contacted', 'agent'), true);
+    assert.equal(canEditLeadInStatus(statuses, null, 'agent'), true);
+  });
+});
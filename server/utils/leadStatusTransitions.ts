@@ -0,0 +1,69 @@
+/**
+ * Lead Status Transitions
+ * Validates status changes against the client's lead_statuses configuration
+ * (allowedTransitions, requiresApproval, isFinal)
+ */
+
+import { LeadStatus } from '../models/SystemClient.js';
+
+export interface StatusTransitionResult {
+  allowed: boolean;
+  requiresApproval: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+const hasManagerRights = (role: string): boolean => role === 'admin' || role === 'manager';
+
+const findStatus = (leadStatuses: LeadStatus[], name: string | null | undefined): LeadStatus | undefined =>
+  leadStatuses.find(status => status.name === name);
+
+/**
+ * Check whether a lead in the given status can be edited by this role
+ * Leads in a final status can only be edited by managers
+ */
+export function canEditLeadInStatus(leadStatuses: LeadStatus[], currentStatus: string | null | undefined, role: string): boolean {
+  const status = findStatus(leadStatuses, currentStatus);
+  return !status?.isFinal || hasManagerRights(role);
+}
+
+/**
+ * Validate a status change
+ * Clients without configured statuses keep the legacy behavior (any status allowed)
+ */
+export function checkStatusTransition(
+  leadStatuses: LeadStatus[],
+  currentStatus: string | null | undefined,
+  newStatus: string,
+  role: string
+): StatusTransitionResult {
+  if (!leadStatuses || leadStatuses.length === 0) {
+    return { allowed: true, requiresApproval: false };
+  }
+
+  const target = findStatus(leadStatuses, newStatus);
+  if (!target) {
+    return { allowed: false, requiresApproval: false, statusCode: 400, error: `Unknown lead status: ${newStatus}` };
+  }
+
+  if (currentStatus === newStatus) {
+    return { allowed: true, requiresApproval: false };
+  }
+
+  if (!canEditLeadInStatus(leadStatuses, currentStatus, role)) {
+    return { allowed: false, requiresApproval: false, statusCode: 403, error: 'Lead is in a final status - only managers can change it' };
+  }
+
+  // Statuses that are not in the configuration (legacy data) can move anywhere
+  const current = findStatus(leadStatuses, currentStatus);
+  if (current?.allowedTransitions && current.allowedTransitions.length > 0 && !current.allowedTransitions.includes(target.id)) {
+    return {
+      allowed: false,
+      requiresApproval: false,
+      statusCode: 400,
+      error: `Transition from "${current.name}" to "${target.name}" is not allowed`
+    };
+  }
+
+  return { allowed: true, requiresApproval: !!target.requiresApproval && !hasManagerRights(role) };
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePhone, phoneKey } from './phone.js';
+
+describe('parsePhone', () => {
+  it('parses Israeli numbers in every common format to the same E.164 number', () => {
+    for (const raw of ['050-123-4567', '0501234567', '+972 50 123 4567', '+972-(0)50-1234567', '00972501234567']) {
+      assert.deepEqual(parsePhone(raw), {
+        e164: '+972501234567',
+        national: '0501234567',
+        display: '050-123-4567',
+        countryCode: '972',
+        lineType: 'mobile'
+      }, raw);
+    }
+  });
+
+  it('restores the leading zero Excel drops from mobile numbers', () => {
+    assert.equal(parsePhone('501234567')?.e164, '+972501234567');
+    assert.equal(parsePhone(501234567)?.national, '0501234567');
+  });
+
+  it('tells landline, VoIP and mobile numbers apart', () => {
+    assert.equal(parsePhone('02-1234567')?.lineType, 'landline');
+    assert.equal(parsePhone('02-1234567')?.display, '02-123-4567');
+    assert.equal(parsePhone('077-1234567')?.lineType, 'voip');
+    assert.equal(parsePhone('052-7654321')?.lineType, 'mobile');
+  });
+
+  it('keeps foreign numbers in E.164 without a line type', () => {
+    assert.deepEqual(parsePhone('+44 20 7946 0958'), {
+      e164: '+442079460958',
+      national: null,
+      display: '+442079460958',
+      countryCode: '',
+      lineType: 'unknown'
+    });
+  });
+
+  it('returns null for values that cannot be phone numbers', () => {
+    for (const raw of [null, undefined, '', '   ', 'abc', '123', '01-1234567', '+123']) {
+      assert.equal(parsePhone(raw), null, String(raw));
+    }
+  });
+});
+
+describe('phoneKey', () => {
+  it('matches the same number entered in different formats', () => {
+    assert.equal(phoneKey('050-123-4567'), '+972501234567');
+    assert.equal(phoneKey('+972501234567'), phoneKey('0501234567'));
+    assert.equal(phoneKey('00972 50 123 4567'), phoneKey('501234567'));
+  });
+
+  it('falls back to the digits of invalid numbers', () => {
+    assert.equal(phoneKey('12-3'), '123');
+  });
+
+  it('returns null when there are no digits', () => {
+    assert.equal(phoneKey(null), null);
+    assert.equal(phoneKey(''), null);
+    assert.equal(phoneKey('abc'), null);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Phone Number Utilities
+ * The one place phone numbers are parsed - forms, imports, webhooks and messaging all go through here
+ * Numbers are compared and stored in E.164 (+972501234567) next to a display format (050-123-4567)
+ * Numbers without a country code are Israeli
+ * Keep in sync with src/utils/phone.ts
+ */
+
+export type PhoneLineType = 'mobile' | 'landline' | 'voip' | 'unknown';
+
+export interface ParsedPhone {
+  e164: string; // +972501234567
+  national: string | null; // 0501234567 (Israeli numbers only)
+  display: string; // 050-123-4567, or the E.164 form for foreign numbers
+  countryCode: string; // '972' for Israeli numbers, otherwise the digits after '+' are not split
+  lineType: PhoneLineType;
+}
+
+const ISRAEL_COUNTRY_CODE = '972';
+
+// Israeli prefixes after the leading 0 - mobile 05X, VoIP 07X, landlines 02/03/04/08/09
+const israeliLineType = (national: string): PhoneLineType | null => {
+  if (/^05\d{8}$/.test(national)) return 'mobile';
+  if (/^07\d{8}$/.test(national)) return 'voip';
+  if (/^0[23489]\d{7}$/.test(national)) return 'landline';
+  return null;
+};
+
+const formatIsraeli = (national: string): string => {
+  return national.length === 10
+    ? `${national.slice(0, 3)}-${national.slice(3, 6)}-${national.slice(6)}`
+    : `${national.slice(0, 2)}-${national.slice(2, 5)}-${national.slice(5)}`;
+};
+
+/**
+ * Parse a raw phone number
+ * Returns null when the value cannot be a valid phone number
+ */
+export function parsePhone(raw: string | number | null | undefined): ParsedPhone | null {
+  if (raw === null || raw === undefined) return null;
+
+  const value = String(raw).trim();
+  if (!value) return null;
+
+  let digits = value.replace(/\D/g, '');
+  let isInternational = value.startsWith('+');
+
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+    isInternational = true;
+  }
+
+  let national: string | null = null;
+  if (digits.startsWith(ISRAEL_COUNTRY_CODE) && (isInternational || digits.length >= 11)) {
+    // +972-(0)50-1234567
+    national = `0${digits.slice(3).replace(/^0/, '')}`;
+  } else if (!isInternational) {
+    // Excel drops the leading zero of mobile numbers (501234567)
+    national = digits.length === 9 && digits.startsWith('5') ? `0${digits}` : digits;
+  }
+
+  if (national === null) {
+    // Foreign number - without a numbering plan only the length can be checked
+    if (digits.length < 8 || digits.length > 15) return null;
+    return { e164: `+${digits}`, national: null, display: `+${digits}`, countryCode: '', lineType: 'unknown' };
+  }
+
+  const lineType = israeliLineType(national);
+  if (!lineType) return null;
+
+  return {
+    e164: `+${ISRAEL_COUNTRY_CODE}${national.slice(1)}`,
+    national,
+    display: formatIsraeli(national),
+    countryCode: ISRAEL_COUNTRY_CODE,
+    lineType
+  };
+}
+
+/**
+ * E.164 form of a phone number - null when invalid
+ */
+export function toE164(raw: string | number | null | undefined): string | null {
+  return parsePhone(raw)?.e164 || null;
+}
+
+/**
+ * Display form of a phone number - invalid values are returned trimmed, as entered
+ */
+export function formatPhone(raw: string | number | null | undefined): string {
+  if (raw === null || raw === undefined) return '';
+  return parsePhone(raw)?.display || String(raw).trim();
+}
+
+/**
+ * Normalize a raw phone number to the local format (0501234567, foreign numbers as +E.164)
+ * Returns null when the value cannot be a valid phone number
+ */
+export function normalizePhone(raw: string | number | null | undefined): string | null {
+  const phone = parsePhone(raw);
+  if (!phone) return null;
+  return phone.national || phone.e164;
+}
+
+/**
+ * Comparison key of a phone number (duplicates, do-not-contact, matching inbound messages)
+ * Invalid numbers still match by their digits
+ */
+export function phoneKey(raw: string | number | null | undefined): string | null {
+  return toE164(raw) || (raw?.toString().replace(/\D/g, '') || null);
+}
+
+/**
+ * Digits of a (partial) phone number as stored in search_phone - no country code or leading zero
+ * Same as search_phone_digits() in database/schema.sql
+ */
+export function phoneSearchDigits(raw: string): string {
+  return raw.replace(/\D/g, '').replace(/^(00)?972/, '').replace(/^0+/, '');
+}
+
+/**
+ * The stored pair of a phone number - display format and E.164
+ */
+export function phoneColumns(raw: string | number | null | undefined): { phone: string | null; phone_e164: string | null } {
+  if (raw === null || raw === undefined || String(raw).trim() === '') return { phone: null, phone_e164: null };
+  const parsed = parsePhone(raw);
+  return { phone: parsed?.display || String(raw).trim(), phone_e164: parsed?.e164 || null };
+}
+
+/**
+ * Number for the WhatsApp API / wa.me links (digits without '+') or the reason it cannot receive WhatsApp
+ */
+export function toWhatsAppNumber(raw: string | number | null | undefined): { number: string | null; error: string | null } {
+  const phone = parsePhone(raw);
+  if (!phone) return { number: null, error: 'invalid phone number' };
+  if (phone.lineType === 'landline') return { number: null, error: 'landline numbers cannot receive WhatsApp messages' };
+  return { number: phone.e164.slice(1), error: null };
+}
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LookupOptions } from 'dns';
+import { isPublicAddress, publicLookup } from './publicLookup.js';
+
+describe('isPublicAddress', () => {
+  it('accepts internet addresses', () => {
+    for (const address of ['8.8.8.8', '151.101.1.69', '::ffff:8.8.8.8', '2606:4700::6810:84e5']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('refuses loopback, private, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('refuses values that are not IP addresses', () => {
+    assert.equal(isPublicAddress('example.com'), false);
+  });
+});
+
+describe('publicLookup', () => {
+  const lookup = (hostname: string, options: LookupOptions) =>
+    new Promise<NodeJS.ErrnoException | null>(resolve => publicLookup(hostname, options, error => resolve(error)));
+
+  it('fails for host names that resolve to an internal address', async () => {
+    const error = await lookup('localhost', {});
+    assert.match(error?.message || '', /internal address/);
+    assert.equal(error?.code, 'EADDRNOTAVAIL');
+  });
+
+  it('fails the same when every address is asked for', async () => {
+    assert.equal((await lookup('localhost', { all: true }))?.code, 'EADDRNOTAVAIL');
+  });
+});
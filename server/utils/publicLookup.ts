@@ -0,0 +1,71 @@
+/**
+ * Public Address Lookup
+ * DNS lookup for outgoing requests to URLs a tenant entered (logos) - host names that resolve to
+ * loopback, private, link-local or other internal addresses are refused before connecting,
+ * so the address checked is the address connected to
+ */
+
+import dns from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // unspecified and loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address can be reached from the internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped addresses are checked as the IPv4 address (the block list would apply IPv6 rules to all IPv4)
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicAddress(mapped[1]);
+  if (/^::ffff:/i.test(address)) return false;
+
+  return !INTERNAL_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * dns.lookup that fails for host names with an internal address - for the `lookup` option of http(s) requests
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const internal = addresses.find(({ address }) => !isPublicAddress(address));
+    if (internal || addresses.length === 0) {
+      const refused = Object.assign(new Error(`${hostname} resolves to an internal address`), { code: 'EADDRNOTAVAIL' });
+      return callback(refused, '', 0);
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { visualRuns, hasHebrew } from './rtl.js';
+
+describe('visualRuns', () => {
+  it('keeps a Hebrew line in one right-to-left run', () => {
+    assert.deepEqual(visualRuns('שלום עולם'), [{ text: 'שלום עולם', rtl: true }]);
+  });
+
+  it('draws numbers left of the Hebrew before them, in their own order', () => {
+    assert.deepEqual(visualRuns('חשבונית 12/05/2025'), [
+      { text: '12/05/2025', rtl: false },
+      { text: 'חשבונית ', rtl: true }
+    ]);
+  });
+
+  it('keeps currency and percent signs with their number', () => {
+    assert.deepEqual(visualRuns('סה"כ ₪120'), [
+      { text: '₪120', rtl: false },
+      { text: 'סה"כ ', rtl: true }
+    ]);
+    assert.deepEqual(visualRuns('מע"מ 18%'), [
+      { text: '18%', rtl: false },
+      { text: 'מע"מ ', rtl: true }
+    ]);
+  });
+
+  it('mirrors brackets in right-to-left text', () => {
+    assert.deepEqual(visualRuns('שירות (חודשי)'), [{ text: 'שירות )חודשי(', rtl: true }]);
+  });
+
+  it('keeps Latin words together with the spaces between them', () => {
+    assert.deepEqual(visualRuns('John Smith לקוח'), [
+      { text: ' לקוח', rtl: true },
+      { text: 'John Smith', rtl: false }
+    ]);
+  });
+
+  it('leaves text without Hebrew as one left-to-right run', () => {
+    assert.deepEqual(visualRuns('Invoice 42'), [{ text: 'Invoice 42', rtl: false }]);
+  });
+});
+
+describe('hasHebrew', () => {
+  it('finds Hebrew letters', () => {
+    assert.equal(hasHebrew('abc א'), true);
+    assert.equal(hasHebrew('abc 123'), false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Right-to-left Text Utilities
+ * PDF text is drawn left to right, so Hebrew lines are split into runs in visual order -
+ * a simplified bidi algorithm for a right-to-left paragraph: Latin words and numbers keep their order,
+ * everything else reads right to left
+ */
+
+export interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+const HEBREW = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const LTR = /[A-Za-z0-9\u00C0-\u024F]/;
+const DIGIT = /[0-9]/;
+
+// Signs that belong to the number next to them (₪120, 18%, -50)
+const NUMBER_SIGNS = /[\u20AA$\u20AC%+-]/;
+
+const MIRRORED: Record<string, string> = {
+  '(': ')', ')': '(',
+  '[': ']', ']': '[',
+  '{': '}', '}': '{',
+  '<': '>', '>': '<'
+};
+
+/**
+ * Whether the text has Hebrew letters
+ */
+export function hasHebrew(text: string): boolean {
+  return HEBREW.test(text);
+}
+
+/**
+ * Runs of a right-to-left line, left to right as they are drawn
+ * Right-to-left runs are in logical order with their brackets mirrored - runs with Hebrew letters are
+ * reversed by the font's shaping (fontkit lays out Hebrew right to left), the others are reversed here
+ */
+export function visualRuns(text: string): TextRun[] {
+  const chars = Array.from(text);
+  const strong = chars.map(char => (HEBREW.test(char) ? 'R' : LTR.test(char) ? 'L' : null));
+
+  const directions = chars.map((char, index) => {
+    if (strong[index]) return strong[index];
+    if (NUMBER_SIGNS.test(char) && (DIGIT.test(chars[index - 1] || '') || DIGIT.test(chars[index + 1] || ''))) return 'L';
+
+    // Neutrals between two left-to-right characters stay with them (12/05/2025, John Smith)
+    let before = index - 1;
+    while (before >= 0 && !strong[before]) before--;
+    let after = index + 1;
+    while (after < chars.length && !strong[after]) after++;
+    return before >= 0 && after < chars.length && strong[before] === 'L' && strong[after] === 'L' ? 'L' : 'R';
+  });
+
+  const logicalRuns: TextRun[] = [];
+  chars.forEach((char, index) => {
+    const rtl = directions[index] === 'R';
+    const last = logicalRuns[logicalRuns.length - 1];
+    const shaped = rtl ? MIRRORED[char] || char : char;
+    if (last && last.rtl === rtl) {
+      last.text += shaped;
+    } else {
+      logicalRuns.push({ text: shaped, rtl });
+    }
+  });
+
+  return logicalRuns.reverse().map(run =>
+    run.rtl && !hasHebrew(run.text) ? { text: Array.from(run.text).reverse().join(''), rtl: true } : run
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { vatBreakdown, roundAmount, VAT_RATE } from './vat.js';
+
+describe('vatBreakdown', () => {
+  it('adds VAT on top of amounts entered before VAT', () => {
+    assert.deepEqual(vatBreakdown(100, 'plus'), { net: 100, vat: 18, total: 118 });
+  });
+
+  it('takes VAT out of amounts that include it', () => {
+    assert.deepEqual(vatBreakdown(118, 'included'), { net: 100, vat: 18, total: 118 });
+  });
+
+  it('keeps the total of included amounts to the agorot after rounding', () => {
+    const breakdown = vatBreakdown(99.99, 'included');
+    assert.deepEqual(breakdown, { net: 84.74, vat: 15.25, total: 99.99 });
+    assert.equal(roundAmount(breakdown.net + breakdown.vat), breakdown.total);
+  });
+
+  it('uses the given rate', () => {
+    assert.deepEqual(vatBreakdown(10, 'plus', 0.17), { net: 10, vat: 1.7, total: 11.7 });
+    assert.equal(vatBreakdown(100, 'plus').vat, roundAmount(100 * VAT_RATE));
+  });
+
+  it('returns zeros for a zero amount', () => {
+    assert.deepEqual(vatBreakdown(0, 'plus'), { net: 0, vat: 0, total: 0 });
+    assert.deepEqual(vatBreakdown(0, 'included'), { net: 0, vat: 0, total: 0 });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * VAT Utilities
+ * Amounts are entered either before VAT ('plus' - VAT is added on top) or including it ('included')
+ * Same rate as the customer dialogs (src/components/customers)
+ */
+
+export type VatType = 'plus' | 'included';
+
+export const VAT_TYPES: VatType[] = ['plus', 'included'];
+
+// Israeli VAT rate
+export const VAT_RATE = 0.18;
+
+export interface VatBreakdown {
+  net: number; // before VAT
+  vat: number;
+  total: number; // what the customer pays
+}
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Split an amount into net, VAT and total according to how it was entered
+ */
+export function vatBreakdown(amount: number, vatType: VatType, rate: number = VAT_RATE): VatBreakdown {
+  if (vatType === 'included') {
+    const net = roundAmount(amount / (1 + rate));
+    return { net, vat: roundAmount(amount - net), total: roundAmount(amount) };
+  }
+  const vat = roundAmount(amount * rate);
+  return { net: roundAmount(amount), vat, total: roundAmount(amount + vat) };
+}
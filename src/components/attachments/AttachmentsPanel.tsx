@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Paperclip, Upload, Download, Trash2, FileText, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { useAttachmentStore, Attachment, AttachmentParentType, MAX_ATTACHMENT_MB } from '../../store/attachmentStore';
+import { useAuthStore } from '../../store/authStore';
+
+interface AttachmentsPanelProps {
+  parentType: AttachmentParentType;
+  parentId: string | number;
+}
+
+const ACCEPT = '.pdf,.jpg,.jpeg,.png,.gif,.webp,.doc,.docx,.xls,.xlsx,.txt,.csv';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Files attached to a lead, customer or task
+const AttachmentsPanel: React.FC<AttachmentsPanelProps> = ({ parentType, parentId }) => {
+  const { fetchAttachments, uploadAttachment, downloadAttachment, deleteAttachment } = useAttachmentStore();
+  const { user } = useAuthStore();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isManagerOrAdmin = user?.role === 'admin' || user?.role === 'manager';
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      const items = await fetchAttachments(parentType, parentId);
+      if (!cancelled) {
+        setAttachments(items);
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [parentType, parentId, fetchAttachments]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        const attachment = await uploadAttachment(parentType, parentId, file);
+        if (attachment) {
+          setAttachments(current => [{ ...attachment, uploaded_by_name: user?.name || null }, ...current]);
+        }
+      }
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`למחוק את הקובץ ${attachment.file_name}?`)) return;
+
+    if (await deleteAttachment(parentType, parentId, attachment.id)) {
+      setAttachments(current => current.filter(item => item.id !== attachment.id));
+    }
+  };
+
+  const canDelete = (attachment: Attachment) =>
+    isManagerOrAdmin || Number(attachment.uploaded_by) === Number(user?.id);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Paperclip className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">קבצים מצורפים</h3>
+          {attachments.length > 0 && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">({attachments.length})</span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {isUploading ? 'מעלה...' : 'צרף קובץ'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPT}
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        PDF, תמונות, Word, Excel, טקסט או CSV - עד {MAX_ATTACHMENT_MB}MB לקובץ
+      </p>
+
+      {attachments.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+          {isLoading ? 'טוען...' : 'אין קבצים מצורפים'}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map(attachment => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700"
+            >
+              {attachment.mime_type.startsWith('image/') ? (
+                <ImageIcon className="w-5 h-5 text-purple-500 flex-shrink-0" />
+              ) : (
+                <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate" title={attachment.file_name}>
+                  {attachment.file_name}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatSize(attachment.size_bytes)}
+                  {' · '}
+                  {attachment.uploaded_by_name || 'משתמש שנמחק'}
+                  {' · '}
+                  {format(new Date(attachment.created_at), 'dd/MM/yyyy HH:mm', { locale: he })}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => downloadAttachment(parentType, parentId, attachment)}
+                className="p-2 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                title="הורדה"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              {canDelete(attachment) && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                  title="מחיקה"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentsPanel;
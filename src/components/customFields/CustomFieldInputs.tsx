@@ -0,0 +1,132 @@
+import React from 'react';
+import { CustomField } from '../../types/client';
+
+interface CustomFieldInputsProps {
+  definitions: CustomField[];
+  values: Record<string, any>;
+  onChange: (values: Record<string, any>) => void;
+}
+
+const inputClassName = 'w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const inputTypes: Partial<Record<CustomField['type'], string>> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  email: 'email',
+  phone: 'tel',
+  url: 'url'
+};
+
+// Initial values of a new record (the server applies the same defaults)
+export const getCustomFieldDefaults = (definitions: CustomField[]): Record<string, any> =>
+  Object.fromEntries(
+    definitions
+      .filter(definition => definition.defaultValue !== undefined && definition.defaultValue !== '')
+      .map(definition => [definition.id, definition.defaultValue])
+  );
+
+// Form inputs for the client's custom fields - values are validated by the server on save
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ definitions, values, onChange }) => {
+  const visibleFields = definitions.filter(definition => definition.showInForm !== false);
+  if (visibleFields.length === 0) return null;
+
+  const setValue = (id: string, value: any) => onChange({ ...values, [id]: value });
+
+  // Fields without a category first, then one group per category
+  const categories = [...new Set(visibleFields.map(definition => definition.category || ''))];
+
+  const renderInput = (definition: CustomField) => {
+    const value = values[definition.id];
+
+    switch (definition.type) {
+      case 'select':
+        return (
+          <select
+            value={value ?? ''}
+            onChange={(e) => setValue(definition.id, e.target.value)}
+            required={definition.required}
+            className={inputClassName}
+          >
+            <option value="">בחר...</option>
+            {(definition.options || []).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+
+      case 'multiselect': {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-3">
+            {(definition.options || []).map(option => (
+              <label key={option} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={() => setValue(
+                    definition.id,
+                    selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option]
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      case 'boolean':
+        return (
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => setValue(definition.id, e.target.checked)}
+            />
+            כן
+          </label>
+        );
+
+      default:
+        return (
+          <input
+            type={inputTypes[definition.type] || 'text'}
+            value={value ?? ''}
+            onChange={(e) => setValue(definition.id, e.target.value)}
+            required={definition.required}
+            min={definition.type === 'number' ? definition.validation?.min : undefined}
+            max={definition.type === 'number' ? definition.validation?.max : undefined}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {categories.map(category => (
+        <div key={category || 'general'}>
+          {category && (
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{category}</h4>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {visibleFields
+              .filter(definition => (definition.category || '') === category)
+              .map(definition => (
+                <div key={definition.id}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {definition.name}
+                    {definition.required && <span className="text-red-500 mr-1">*</span>}
+                  </label>
+                  {renderInput(definition)}
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldInputs;
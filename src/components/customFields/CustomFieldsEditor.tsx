@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldSchemas } from '../../types/client';
+
+interface CustomFieldsEditorProps {
+  value: CustomFieldSchemas;
+  onChange: (value: CustomFieldSchemas) => void;
+}
+
+type Entity = keyof CustomFieldSchemas;
+
+const entities: { id: Entity; label: string }[] = [
+  { id: 'leads', label: 'לידים' },
+  { id: 'customers', label: 'לקוחות' }
+];
+
+const fieldTypes: { id: CustomField['type']; label: string }[] = [
+  { id: 'text', label: 'טקסט' },
+  { id: 'number', label: 'מספר' },
+  { id: 'date', label: 'תאריך' },
+  { id: 'select', label: 'בחירה' },
+  { id: 'multiselect', label: 'בחירה מרובה' },
+  { id: 'boolean', label: 'כן/לא' },
+  { id: 'email', label: 'אימייל' },
+  { id: 'phone', label: 'טלפון' },
+  { id: 'url', label: 'קישור' }
+];
+
+const inputClassName = 'w-full rounded border border-gray-300 dark:border-gray-600 px-3 py-2 text-sm md:text-base';
+
+const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Admin editor for the custom field definitions of leads and customers (saved with the client)
+const CustomFieldsEditor: React.FC<CustomFieldsEditorProps> = ({ value, onChange }) => {
+  const [entity, setEntity] = useState<Entity>('leads');
+  const fields = value[entity] || [];
+
+  const setFields = (next: CustomField[]) => onChange({ ...value, [entity]: next });
+
+  const updateField = (index: number, updates: Partial<CustomField>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  const updateValidation = (index: number, updates: Partial<NonNullable<CustomField['validation']>>) => {
+    updateField(index, { validation: { ...fields[index].validation, ...updates } });
+  };
+
+  const addField = () => {
+    setFields([
+      ...fields,
+      {
+        id: `field_${Date.now().toString(36)}`,
+        name: 'שדה חדש',
+        type: 'text',
+        required: false,
+        showInForm: true,
+        showInList: false
+      }
+    ]);
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+          שדות מותאמים
+        </h3>
+        <button
+          type="button"
+          onClick={addField}
+          className="bg-blue-600 text-white px-4 py-3 sm:px-3 sm:py-1 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          + הוסף שדה
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {entities.map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => setEntity(option.id)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium ${
+              entity === option.id
+                ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+          >
+            {option.label} ({(value[option.id] || []).length})
+          </button>
+        ))}
+      </div>
+
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">לא הוגדרו שדות</p>
+      )}
+
+      <div className="space-y-3 md:space-y-4">
+        {fields.map((field, index) => (
+          <div key={index} className="p-3 md:p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">שם השדה</label>
+                <input
+                  type="text"
+                  value={field.name}
+                  onChange={(e) => updateField(index, { name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">מפתח (אנגלית)</label>
+                <input
+                  type="text"
+                  dir="ltr"
+                  value={field.id}
+                  onChange={(e) => updateField(index, { id: e.target.value.replace(/[^a-zA-Z0-9_]/g, '') })}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">סוג</label>
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(index, { type: e.target.value as CustomField['type'] })}
+                  className={inputClassName}
+                >
+                  {fieldTypes.map(type => (
+                    <option key={type.id} value={type.id}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {(field.type === 'select' || field.type === 'multiselect') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">אפשרויות (אחת בכל שורה)</label>
+                <textarea
+                  value={(field.options || []).join('\n')}
+                  onChange={(e) => updateField(index, { options: e.target.value.split('\n') })}
+                  onBlur={() => updateField(index, { options: (field.options || []).map(option => option.trim()).filter(Boolean) })}
+                  rows={3}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {field.type !== 'boolean' && field.type !== 'date' && field.type !== 'select' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      {field.type === 'number' ? 'ערך מינימלי' : field.type === 'multiselect' ? 'מינימום בחירות' : 'אורך מינימלי'}
+                    </label>
+                    <input
+                      type="number"
+                      value={field.validation?.min ?? ''}
+                      onChange={(e) => updateValidation(index, { min: toNumber(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      {field.type === 'number' ? 'ערך מקסימלי' : field.type === 'multiselect' ? 'מקסימום בחירות' : 'אורך מקסימלי'}
+                    </label>
+                    <input
+                      type="number"
+                      value={field.validation?.max ?? ''}
+                      onChange={(e) => updateValidation(index, { max: toNumber(e.target.value) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+              {['text', 'email', 'phone', 'url'].includes(field.type) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">תבנית (Regex)</label>
+                  <input
+                    type="text"
+                    dir="ltr"
+                    value={field.validation?.pattern || ''}
+                    onChange={(e) => updateValidation(index, { pattern: e.target.value || undefined })}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">הודעת שגיאה</label>
+                <input
+                  type="text"
+                  value={field.validation?.message || ''}
+                  onChange={(e) => updateValidation(index, { message: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">ערך ברירת מחדל</label>
+                <input
+                  type="text"
+                  value={field.defaultValue ?? ''}
+                  onChange={(e) => updateField(index, { defaultValue: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">קטגוריה</label>
+                <input
+                  type="text"
+                  value={field.category || ''}
+                  onChange={(e) => updateField(index, { category: e.target.value || undefined })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateField(index, { required: e.target.checked })}
+                    className="mr-2 w-4 h-4"
+                  />
+                  <span className="text-sm font-medium">שדה חובה</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={field.showInForm !== false}
+                    onChange={(e) => updateField(index, { showInForm: e.target.checked })}
+                    className="mr-2 w-4 h-4"
+                  />
+                  <span className="text-sm font-medium">הצג בטופס</span>
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={field.showInList === true}
+                    onChange={(e) => updateField(index, { showInList: e.target.checked })}
+                    className="mr-2 w-4 h-4"
+                  />
+                  <span className="text-sm font-medium">אפשר סינון ברשימה</span>
+                </label>
+              </div>
+              <button
+                type="button"
+                onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 p-2 rounded-lg transition-colors w-fit"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldsEditor;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { FileText, Download, Loader2, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { BillingDocument } from '../../store/billingStore';
+import { useAttachmentStore } from '../../store/attachmentStore';
+
+interface BillingDocumentsListProps {
+  customerId: string | number;
+  documents: BillingDocument[];
+  isIssuing: boolean;
+  renderingId: number | null;
+  onIssueInvoice: () => void;
+  onRenderPdf: (document: BillingDocument) => void;
+}
+
+const TITLES: Record<BillingDocument['document_type'], string> = {
+  invoice: 'חשבונית מס',
+  receipt: 'קבלה'
+};
+
+const formatMoney = (amount: number) =>
+  `₪${Number(amount).toLocaleString('he-IL', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Invoices and receipts issued to the customer - the PDFs are downloaded from the customer's attachments,
+// a document whose PDF could not be stored when it was issued can have it rendered again
+const BillingDocumentsList: React.FC<BillingDocumentsListProps> = ({
+  customerId,
+  documents,
+  isIssuing,
+  renderingId,
+  onIssueInvoice,
+  onRenderPdf
+}) => {
+  const { downloadAttachment } = useAttachmentStore();
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="font-medium text-gray-900 dark:text-white">חשבוניות וקבלות</h4>
+        <button
+          type="button"
+          onClick={onIssueInvoice}
+          disabled={isIssuing}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border border-blue-600 text-blue-600 dark:text-blue-400 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isIssuing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+          הפק חשבונית מהשירותים
+        </button>
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">לא הופקו מסמכים</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {documents.map(document => (
+            <li key={document.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="text-gray-900 dark:text-white">
+                  {TITLES[document.document_type]} {document.document_number}
+                  <span className="mr-2 text-gray-500 dark:text-gray-400">{formatMoney(document.total_amount)}</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {format(new Date(document.issued_at), 'dd/MM/yyyy HH:mm', { locale: he })}
+                  {document.issued_by_name && ` · ${document.issued_by_name}`}
+                </p>
+              </div>
+              {document.attachment ? (
+                <button
+                  type="button"
+                  onClick={() => downloadAttachment('customer', customerId, document.attachment!)}
+                  className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  title="הורדה"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onRenderPdf(document)}
+                  disabled={renderingId === document.id}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 disabled:opacity-50"
+                  title="הקובץ אינו זמין - צור אותו מחדש"
+                >
+                  {renderingId === document.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                  צור קובץ
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BillingDocumentsList;
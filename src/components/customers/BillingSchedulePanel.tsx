@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, Check, X, RotateCcw, RefreshCw, Loader2, Receipt } from 'lucide-react';
+import { useBillingStore, ChargeSchedule, CustomerCharge, ChargeStatus, BillingDocument, BillingDocumentRequest } from '../../store/billingStore';
+import BillingDocumentsList from './BillingDocumentsList';
+
+interface BillingSchedulePanelProps {
+  customerId: string | number;
+}
+
+// Charge being marked partial or failed - the amount or reason is typed inline
+interface PendingAction {
+  chargeId: number;
+  status: 'partial' | 'failed';
+  value: string;
+}
+
+const STATUS_LABELS: Record<ChargeStatus, string> = {
+  pending: 'ממתין',
+  paid: 'שולם',
+  partial: 'שולם חלקית',
+  failed: 'נכשל'
+};
+
+const STATUS_STYLES: Record<ChargeStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  paid: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  partial: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const formatMoney = (amount: number) =>
+  `₪${amount.toLocaleString('he-IL', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+// Billing schedule of a customer - charges generated from its services and payment plan, marked paid, partial or failed,
+// with the invoices and receipts issued from them
+const BillingSchedulePanel: React.FC<BillingSchedulePanelProps> = ({ customerId }) => {
+  const { fetchSchedule, generateSchedule, updateCharge, fetchDocuments, issueDocument, renderDocumentPdf } = useBillingStore();
+  const [schedule, setSchedule] = useState<ChargeSchedule | null>(null);
+  const [documents, setDocuments] = useState<BillingDocument[]>([]);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [renderingId, setRenderingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const load = async () => {
+    const data = await fetchSchedule(customerId);
+    if (data) setSchedule(data);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSchedule = async () => {
+      setIsLoading(true);
+      const [data, issued] = await Promise.all([fetchSchedule(customerId), fetchDocuments(customerId)]);
+      if (!cancelled) {
+        setSchedule(data);
+        setDocuments(issued);
+        setIsLoading(false);
+      }
+    };
+
+    loadSchedule();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId, fetchSchedule, fetchDocuments]);
+
+  const handleIssue = async (request: BillingDocumentRequest) => {
+    setIsIssuing(true);
+    try {
+      const document = await issueDocument(customerId, request);
+      if (document) {
+        setDocuments(await fetchDocuments(customerId));
+        if (request.type === 'receipt') await load();
+      }
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleRenderPdf = async (document: BillingDocument) => {
+    setRenderingId(document.id);
+    try {
+      if (await renderDocumentPdf(customerId, document.id)) {
+        setDocuments(await fetchDocuments(customerId));
+      }
+    } finally {
+      setRenderingId(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      if (await generateSchedule(customerId)) await load();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleUpdate = async (charge: CustomerCharge, status: ChargeStatus, value?: string) => {
+    setSavingId(charge.id);
+    try {
+      const updated = await updateCharge(customerId, charge.id, {
+        status,
+        paidAmount: status === 'partial' ? Number(value) : undefined,
+        failureReason: status === 'failed' ? value : undefined
+      });
+      if (updated) {
+        setPendingAction(null);
+        await load();
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const charges = schedule?.charges || [];
+
+  const renderActions = (charge: CustomerCharge) => {
+    if (savingId === charge.id) {
+      return <Loader2 className="w-4 h-4 animate-spin text-gray-400" />;
+    }
+
+    if (pendingAction?.chargeId === charge.id) {
+      return (
+        <div className="flex items-center gap-1">
+          <input
+            type={pendingAction.status === 'partial' ? 'number' : 'text'}
+            value={pendingAction.value}
+            autoFocus
+            placeholder={pendingAction.status === 'partial' ? 'סכום ששולם' : 'סיבת הכישלון'}
+            onChange={(e) => setPendingAction({ ...pendingAction, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleUpdate(charge, pendingAction.status, pendingAction.value);
+              } else if (e.key === 'Escape') {
+                e.stopPropagation();
+                setPendingAction(null);
+              }
+            }}
+            className="w-28 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1 text-xs"
+          />
+          <button
+            type="button"
+            onClick={() => handleUpdate(charge, pendingAction.status, pendingAction.value)}
+            disabled={pendingAction.status === 'partial' && !pendingAction.value}
+            className="p-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            title="שמור"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setPendingAction(null)}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title="ביטול"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-1">
+        {charge.status !== 'paid' && (
+          <>
+            <button
+              type="button"
+              onClick={() => handleUpdate(charge, 'paid')}
+              className="px-2 py-0.5 text-xs rounded bg-green-600 text-white hover:bg-green-700"
+            >
+              שולם
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingAction({ chargeId: charge.id, status: 'partial', value: '' })}
+              className="px-2 py-0.5 text-xs rounded border border-yellow-500 text-yellow-700 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/20"
+            >
+              חלקי
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingAction({ chargeId: charge.id, status: 'failed', value: '' })}
+              className="px-2 py-0.5 text-xs rounded border border-red-500 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              נכשל
+            </button>
+          </>
+        )}
+        {charge.paid_amount > charge.receipted_amount && (
+          <button
+            type="button"
+            onClick={() => handleIssue({ type: 'receipt', chargeIds: [charge.id] })}
+            disabled={isIssuing}
+            className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50"
+            title="הפק קבלה"
+          >
+            <Receipt className="w-4 h-4" />
+          </button>
+        )}
+        {charge.status !== 'pending' && charge.receipted_amount === 0 && (
+          <button
+            type="button"
+            onClick={() => handleUpdate(charge, 'pending')}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            title="החזר לממתין"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">לוח חיובים</h3>
+        </div>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          {charges.length > 0 ? 'עדכן לפי השירותים' : 'צור לוח חיובים'}
+        </button>
+      </div>
+
+      {schedule && charges.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 mb-3 text-sm">
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+            <p className="text-gray-500 dark:text-gray-400">סה"כ מתוכנן (כולל מע"מ)</p>
+            <p className="font-semibold text-gray-900 dark:text-white">{formatMoney(schedule.totals.amount)}</p>
+          </div>
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+            <p className="text-gray-500 dark:text-gray-400">שולם</p>
+            <p className="font-semibold text-green-600 dark:text-green-400">{formatMoney(schedule.totals.paid)}</p>
+          </div>
+          <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+            <p className="text-gray-500 dark:text-gray-400">באיחור</p>
+            <p className={`font-semibold ${schedule.totals.overdue > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+              {formatMoney(schedule.totals.overdue)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {charges.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+          {isLoading ? 'טוען...' : 'אין חיובים מתוכננים'}
+        </div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-500 dark:text-gray-400">
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 text-right font-medium">תאריך</th>
+                <th className="py-2 text-right font-medium">תיאור</th>
+                <th className="py-2 text-right font-medium">סכום (כולל מע"מ)</th>
+                <th className="py-2 text-right font-medium">סטטוס</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {charges.map(charge => (
+                <tr key={charge.id} className="border-b border-gray-100 dark:border-gray-800">
+                  <td className={`py-2 whitespace-nowrap ${charge.is_overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-gray-700 dark:text-gray-300'}`}>
+                    {formatDate(charge.due_date)}
+                  </td>
+                  <td className="py-2 text-gray-700 dark:text-gray-300">
+                    {charge.description}
+                    {charge.status === 'failed' && charge.failure_reason && (
+                      <p className="text-xs text-red-500">{charge.failure_reason}</p>
+                    )}
+                  </td>
+                  <td className="py-2 whitespace-nowrap text-gray-900 dark:text-white">
+                    {formatMoney(charge.amount)}
+                    {charge.status === 'partial' && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">שולם {formatMoney(charge.paid_amount)}</p>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[charge.status]}`}>
+                      {STATUS_LABELS[charge.status]}
+                    </span>
+                    {charge.is_overdue && (
+                      <span className="mr-1 px-2 py-0.5 rounded-full text-xs bg-red-600 text-white">באיחור</span>
+                    )}
+                  </td>
+                  <td className="py-2">{renderActions(charge)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <BillingDocumentsList
+        customerId={customerId}
+        documents={documents}
+        isIssuing={isIssuing}
+        renderingId={renderingId}
+        onIssueInvoice={() => handleIssue({ type: 'invoice' })}
+        onRenderPdf={handleRenderPdf}
+      />
+    </div>
+  );
+};
+
+export default BillingSchedulePanel;
@@ -8,6 +8,7 @@ import {
 import { Customer, Lead } from '../../types';
 import { useLeadStore } from '../../store/leadStore';
 import { useAuthStore } from '../../store/authStore';
+import CustomFieldInputs, { getCustomFieldDefaults } from '../customFields/CustomFieldInputs';
 import toast from 'react-hot-toast';
 
 interface CreateCustomerDialogProps {
@@ -30,6 +31,7 @@ const CreateCustomerDialog: React.FC<CreateCustomerDialogProps> = ({
   const [selectedLead, setSelectedLead] = useState<Lead | null>(lead || null);
   const [showLeadSelector, setShowLeadSelector] = useState(false);
   const [leadSearchQuery, setLeadSearchQuery] = useState('');
+  const customFieldDefinitions = clientConfig?.custom_fields?.customers || [];
   
   // Get available statuses based on user role and client config
   const getAvailableCustomerStatuses = () => {
@@ -56,7 +58,8 @@ const CreateCustomerDialog: React.FC<CreateCustomerDialogProps> = ({
     vatType: 'plus', // Default to plus VAT
     paymentType: 'amount', // Default to amount payment
     paymentValue: 0,
-    paymentVatIncluded: false
+    paymentVatIncluded: false,
+    customFields: getCustomFieldDefaults(customFieldDefinitions)
   });
 
   const [showPaymentPlan, setShowPaymentPlan] = useState(false);
@@ -886,6 +889,20 @@ const CreateCustomerDialog: React.FC<CreateCustomerDialogProps> = ({
                       </AnimatePresence>
                     </div>
 
+                    {/* שדות מותאמים */}
+                    {customFieldDefinitions.length > 0 && (
+                      <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+                        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                          שדות נוספים
+                        </h3>
+                        <CustomFieldInputs
+                          definitions={customFieldDefinitions}
+                          values={formData.customFields || {}}
+                          onChange={(customFields) => setFormData({ ...formData, customFields })}
+                        />
+                      </div>
+                    )}
+
                     {/* הערות */}
                     <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -7,6 +7,11 @@ import {
 } from 'lucide-react';
 import { Customer } from '../../types';
 import { useClientStore } from '../../store/clientStore';
+import useAuthStore from '../../store/authStore';
+import CustomFieldInputs from '../customFields/CustomFieldInputs';
+import AttachmentsPanel from '../attachments/AttachmentsPanel';
+import NotesPanel from '../notes/NotesPanel';
+import BillingSchedulePanel from './BillingSchedulePanel';
 import toast from 'react-hot-toast';
 
 interface CustomerEditDialogProps {
@@ -23,6 +28,8 @@ const CustomerEditDialog: React.FC<CustomerEditDialogProps> = ({
   onSave
 }) => {
   const { currentClient } = useClientStore();
+  const { clientConfig } = useAuthStore();
+  const customFieldDefinitions = clientConfig?.custom_fields?.customers || [];
   const [formData, setFormData] = useState<Partial<Customer>>({
     name: '',
     email: '',
@@ -113,7 +120,8 @@ const CustomerEditDialog: React.FC<CustomerEditDialogProps> = ({
           installments: paymentData?.installments || 1,
           installment_amount: paymentData?.installment_amount || totalAmount,
           notes: paymentData?.notes || ''
-        }]
+        }],
+        customFields: customer.customFields || {}
       });
       
     }
@@ -666,6 +674,20 @@ const CustomerEditDialog: React.FC<CustomerEditDialogProps> = ({
                       </div>
                     )}
 
+                    {/* שדות מותאמים */}
+                    {customFieldDefinitions.length > 0 && (
+                      <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
+                        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+                          שדות נוספים
+                        </h3>
+                        <CustomFieldInputs
+                          definitions={customFieldDefinitions}
+                          values={formData.customFields || {}}
+                          onChange={(customFields) => setFormData({ ...formData, customFields })}
+                        />
+                      </div>
+                    )}
+
                     {/* הערות */}
                     <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -681,6 +703,10 @@ const CustomerEditDialog: React.FC<CustomerEditDialogProps> = ({
                   </div>
                 </div>
 
+                {customer?.id && <BillingSchedulePanel customerId={customer.id} />}
+                {customer?.id && <NotesPanel parentType="customer" parentId={customer.id} />}
+                {customer?.id && <AttachmentsPanel parentType="customer" parentId={customer.id} />}
+
                 <div className="flex justify-end gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                   <button
                     type="button"
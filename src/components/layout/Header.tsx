@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Menu, Sun, Moon, User, Settings, LogOut } from 'lucide-react';
+import { Menu, Sun, Moon, User, Settings, LogOut, Search } from 'lucide-react';
 import { useTheme } from '../../hooks/useTheme';
 import { motion, AnimatePresence } from 'framer-motion';
 import useAuthStore from '../../store/authStore';
 import { useClientStore } from '../../store/clientStore';
 import AttendanceButton from '../attendance/AttendanceButton';
 import NotificationCenter from '../notifications/NotificationCenter';
+import CommandPalette from '../search/CommandPalette';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -20,6 +21,7 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
   const isDark = theme === 'dark';
   const [showProfile, setShowProfile] = useState(false);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
 
   const getUserClient = () => {
     if (!user?.client_id) return null;
@@ -48,6 +50,19 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
     return () => window.removeEventListener('storage', handleAvatarUpdate);
   }, [user?.id]);
 
+  // Ctrl+K / Cmd+K opens the global search from any page
+  useEffect(() => {
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
   const handleLogout = () => {
     logout();
     navigate('/login');
@@ -69,6 +84,16 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
           </div>
 
           <div className="flex items-center gap-3">
+            <motion.button 
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setIsSearchOpen(true)}
+              title="חיפוש (Ctrl+K)"
+              className="w-12 h-12 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 shadow-md flex items-center justify-center haptic-light"
+            >
+              <Search className="h-5 w-5" />
+            </motion.button>
+
             <motion.button 
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -193,6 +218,8 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
           </div>
         </div>
       </div>
+
+      <CommandPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
     </header>
   );
 };
@@ -13,7 +13,8 @@ import {
   User,
   LogOut,
   Menu,
-  X
+  X,
+  Ban
 } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import useAuthStore from '../../store/authStore'; // שונה מ useAuth
@@ -38,6 +39,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
     { path: '/tasks', icon: FileText, label: 'משימות' },
     { path: '/reports', icon: BarChart3, label: 'דוחות' },
     { path: '/reminders', icon: Bell, label: 'תזכורות' },
+    ...(user?.role === 'admin' || user?.role === 'manager'
+      ? [{ path: '/do-not-contact', icon: Ban, label: 'רשימת "אל תפנה"' }]
+      : []),
     { path: '/settings', icon: Settings, label: 'הגדרות' },
   ];
 
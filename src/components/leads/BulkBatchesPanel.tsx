@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { useLeadStore, LeadBulkBatch } from '../../store/leadStore';
+
+const describeBatch = (batch: LeadBulkBatch) => {
+  switch (batch.action) {
+    case 'status':
+      return `שינוי סטטוס ל"${batch.params.status}"`;
+    case 'tags':
+      return 'עדכון תגיות';
+    case 'callback':
+      return `תאריך חזרה ${batch.params.callbackDate}${batch.params.callbackTime ? ` ${batch.params.callbackTime}` : ''}`;
+    case 'delete':
+      return 'מחיקה';
+    case 'convert':
+      return 'המרה ללקוחות';
+  }
+};
+
+// Recent bulk actions that can still be undone (admins and managers)
+const BulkBatchesPanel: React.FC = () => {
+  const { bulkBatches, fetchBulkBatches, undoBulkBatch } = useLeadStore();
+  const [undoingId, setUndoingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchBulkBatches();
+  }, [fetchBulkBatches]);
+
+  const handleUndo = async (batch: LeadBulkBatch) => {
+    if (!window.confirm(`לבטל את הפעולה "${describeBatch(batch)}" על ${batch.lead_count} לידים?`)) return;
+
+    try {
+      setUndoingId(batch.id);
+      await undoBulkBatch(batch.id);
+    } catch {
+      // Error toast is shown by the store
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  const openBatches = bulkBatches.filter(batch => new Date(batch.undo_until).getTime() > Date.now());
+  if (openBatches.length === 0) return null;
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3 text-blue-800 dark:text-blue-300 font-medium">
+        <Undo2 className="w-5 h-5" />
+        פעולות מרובות שניתן לבטל ({openBatches.length})
+      </div>
+
+      <div className="space-y-2">
+        <AnimatePresence>
+          {openBatches.map(batch => (
+            <motion.div
+              key={batch.id}
+              initial={{ opacity: 0, y: -5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, height: 0 }}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-white dark:bg-gray-800 rounded-md px-3 py-2 text-sm"
+            >
+              <div className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{describeBatch(batch)}</span>
+                {' - '}
+                {batch.lead_count} לידים
+                <span className="text-gray-500 dark:text-gray-400">
+                  {batch.performed_by_name && ` (${batch.performed_by_name})`}
+                  {' · ניתן לבטל עוד '}
+                  {formatDistanceToNow(new Date(batch.undo_until), { locale: he })}
+                </span>
+              </div>
+
+              <button
+                onClick={() => handleUndo(batch)}
+                disabled={undoingId === batch.id}
+                className="flex items-center gap-1 px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Undo2 className="w-4 h-4" />
+                ביטול הפעולה
+              </button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
+
+export default BulkBatchesPanel;
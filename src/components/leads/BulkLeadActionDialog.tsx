@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, Calendar, UserCheck } from 'lucide-react';
+import { Lead } from '../../types';
+import { useLeadStore, LeadBulkParams } from '../../store/leadStore';
+import toast from 'react-hot-toast';
+
+export type BulkLeadDialogAction = 'status' | 'callback' | 'convert';
+
+interface BulkLeadActionDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  action: BulkLeadDialogAction;
+  selectedLeads: Lead[];
+}
+
+const actionTitles: Record<BulkLeadDialogAction, string> = {
+  status: 'שינוי סטטוס',
+  callback: 'קביעת תאריך חזרה',
+  convert: 'המרה ללקוחות'
+};
+
+const actionIcons: Record<BulkLeadDialogAction, React.ElementType> = {
+  status: RefreshCw,
+  callback: Calendar,
+  convert: UserCheck
+};
+
+// Status, callback date or conversion to customers for the selected leads - all of them change or none
+const BulkLeadActionDialog: React.FC<BulkLeadActionDialogProps> = ({
+  isOpen,
+  onClose,
+  action,
+  selectedLeads
+}) => {
+  const { availableStatuses, runBulkAction } = useLeadStore();
+  const [status, setStatus] = useState('');
+  const [callbackDate, setCallbackDate] = useState('');
+  const [callbackTime, setCallbackTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStatus('');
+      setCallbackDate('');
+      setCallbackTime('');
+    }
+  }, [isOpen]);
+
+  const Icon = actionIcons[action];
+  const canSubmit = action === 'convert' || (action === 'status' ? !!status : !!callbackDate);
+
+  const handleSave = async () => {
+    const params: LeadBulkParams = action === 'status'
+      ? { status }
+      : action === 'callback'
+        ? { callbackDate, callbackTime: callbackTime || undefined }
+        : {};
+
+    setIsSaving(true);
+    try {
+      const result = await runBulkAction(action, selectedLeads.map(lead => lead.id), params);
+      const done = action === 'convert'
+        ? `${result.successCount} לידים הומרו ללקוחות`
+        : `${result.successCount} לידים עודכנו`;
+      toast.success(result.unchangedCount > 0 ? `${done} (${result.unchangedCount} ללא שינוי)` : done);
+      onClose();
+    } catch (error) {
+      console.error(`Error in bulk ${action}:`, error);
+      // Error handling is done in the store function
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-lg rounded-lg bg-white dark:bg-gray-800 p-6 shadow-xl"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                    <Icon className="w-6 h-6 text-blue-500" />
+                    {actionTitles[action]}
+                  </h2>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    נבחרו {selectedLeads.length} לידים
+                  </p>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              {action === 'status' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    סטטוס חדש *
+                  </label>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">בחר סטטוס</option>
+                    {availableStatuses.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    סטטוסים שדורשים אישור מנהל יש לשנות בכל ליד בנפרד
+                  </p>
+                </div>
+              )}
+
+              {action === 'callback' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      תאריך חזרה *
+                    </label>
+                    <input
+                      type="date"
+                      value={callbackDate}
+                      onChange={(e) => setCallbackDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      שעה
+                    </label>
+                    <input
+                      type="time"
+                      value={callbackTime}
+                      onChange={(e) => setCallbackTime(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                    בלי שעה - כל ליד שומר את שעת החזרה שלו
+                  </p>
+                </div>
+              )}
+
+              {action === 'convert' && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  לכל ליד ייפתח כרטיס לקוח עם פרטי הליד, והליד יעבור לסטטוס ההמרה של הארגון ("לקוח קיים" אם לא הוגדר אחר).
+                  לידים שכבר הומרו ללקוח לא ניתן להמיר שוב.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-4 pt-4 mt-4 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+                >
+                  ביטול
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isSaving || !canSubmit}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center gap-2"
+                >
+                  {isSaving ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      מעדכן...
+                    </>
+                  ) : (
+                    <>
+                      <Icon className="w-5 h-5" />
+                      {actionTitles[action]} ({selectedLeads.length})
+                    </>
+                  )}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BulkLeadActionDialog;
@@ -5,6 +5,17 @@ import { Lead } from '../../types';
 import { useAuthStore } from '../../store/authStore';
 import { WhatsAppMessaging } from '../whatsapp';
 import toast from 'react-hot-toast';
+import { toWhatsAppNumber } from '../../utils/phone';
+
+// WhatsApp numbers of the selected leads - landlines and invalid numbers are left out
+const whatsAppNumbers = (leads: Lead[]) => {
+  const numbers = leads.map(lead => toWhatsAppNumber(lead.phone).number);
+  const skipped = numbers.filter(number => !number).length;
+  if (skipped > 0) {
+    toast.error(`${skipped} מספרים לא תקינים או נייחים לא יכולים לקבל ווטסאפ ולא נכללו`);
+  }
+  return numbers.filter((number): number is string => !!number);
+};
 
 interface BulkMessageDialogProps {
   isOpen: boolean;
@@ -128,15 +139,7 @@ const BulkMessageDialog: React.FC<BulkMessageDialogProps> = ({
 
   const handleWhatsAppBulk = async (message: string) => {
     // Format all phone numbers for WhatsApp
-    const formattedPhones = selectedLeads.map(lead => {
-      let formattedPhone = lead.phone.replace(/\D/g, '');
-      if (formattedPhone.startsWith('0')) {
-        formattedPhone = '972' + formattedPhone.substring(1);
-      } else if (!formattedPhone.startsWith('972')) {
-        formattedPhone = '972' + formattedPhone;
-      }
-      return formattedPhone;
-    });
+    const formattedPhones = whatsAppNumbers(selectedLeads);
 
     // Create a personalized message for the first lead (as an example)
     const firstLead = selectedLeads[0];
@@ -356,15 +359,7 @@ const BulkMessageDialog: React.FC<BulkMessageDialogProps> = ({
                       onClick={async () => {
                         try {
                           if (messageType === 'whatsapp') {
-                            const phones = selectedLeads.map(lead => {
-                              let formattedPhone = lead.phone.replace(/\D/g, '');
-                              if (formattedPhone.startsWith('0')) {
-                                formattedPhone = '972' + formattedPhone.substring(1);
-                              } else if (!formattedPhone.startsWith('972')) {
-                                formattedPhone = '972' + formattedPhone;
-                              }
-                              return formattedPhone;
-                            });
+                            const phones = whatsAppNumbers(selectedLeads);
                             await navigator.clipboard.writeText(phones.join('\n'));
                             toast.success('מספרי הטלפון הועתקו ללוח');
                           } else {
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tag, Plus, Minus } from 'lucide-react';
+import { Lead } from '../../types';
+import { useLeadStore } from '../../store/leadStore';
+import toast from 'react-hot-toast';
+
+interface BulkTagDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedLeads: Lead[];
+}
+
+type TagAction = 'add' | 'remove';
+
+// Add/remove tags on the selected leads - each tag is either added, removed or left as is
+const BulkTagDialog: React.FC<BulkTagDialogProps> = ({
+  isOpen,
+  onClose,
+  selectedLeads
+}) => {
+  const { tags, fetchLeadTags, bulkUpdateTags } = useLeadStore();
+  const [actions, setActions] = useState<Record<string, TagAction>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setActions({});
+      fetchLeadTags();
+    }
+  }, [isOpen, fetchLeadTags]);
+
+  const toggleAction = (name: string, action: TagAction) => {
+    setActions(prev => {
+      const next = { ...prev };
+      if (next[name] === action) {
+        delete next[name];
+      } else {
+        next[name] = action;
+      }
+      return next;
+    });
+  };
+
+  // How many of the selected leads already have the tag
+  const countTagged = (name: string) => selectedLeads.filter(lead => lead.tags?.includes(name)).length;
+
+  const handleSave = async () => {
+    const add = Object.keys(actions).filter(name => actions[name] === 'add');
+    const remove = Object.keys(actions).filter(name => actions[name] === 'remove');
+
+    if (add.length === 0 && remove.length === 0) {
+      toast.error('נא לבחור תגיות להוספה או להסרה');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await bulkUpdateTags(selectedLeads.map(lead => lead.id), add, remove);
+      onClose();
+    } catch (error) {
+      console.error('Error in bulk tagging:', error);
+      // Error handling is done in the store function
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-lg rounded-lg bg-white dark:bg-gray-800 p-6 shadow-xl"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                    <Tag className="w-6 h-6 text-blue-500" />
+                    עדכון תגיות
+                  </h2>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    נבחרו {selectedLeads.length} לידים
+                  </p>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {tags.map(tag => (
+                  <div key={tag.id} className="flex items-center justify-between gap-3 py-2 border-b border-gray-100 dark:border-gray-700">
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                      <span className="text-sm text-gray-900 dark:text-white">{tag.name}</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        ({countTagged(tag.name)}/{selectedLeads.length})
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => toggleAction(tag.name, 'add')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                          actions[tag.name] === 'add'
+                            ? 'bg-green-600 text-white'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        <Plus className="w-3 h-3" />
+                        הוסף
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => toggleAction(tag.name, 'remove')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                          actions[tag.name] === 'remove'
+                            ? 'bg-red-600 text-white'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        <Minus className="w-3 h-3" />
+                        הסר
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {tags.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+                    לא הוגדרו תגיות - מנהל יכול להוסיף תגיות מסינון התגיות
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-4 pt-4 mt-4 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+                >
+                  ביטול
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={isSaving || Object.keys(actions).length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center gap-2"
+                >
+                  {isSaving ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      מעדכן...
+                    </>
+                  ) : (
+                    <>
+                      <Tag className="w-5 h-5" />
+                      עדכן תגיות ({selectedLeads.length})
+                    </>
+                  )}
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BulkTagDialog;
@@ -2,12 +2,15 @@ import React from 'react';
 import { Mail, Send, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuthStore } from '../../store/authStore';
+import { useDoNotContactStore } from '../../store/doNotContactStore';
+import { useLeadStore } from '../../store/leadStore';
 
 interface EmailTemplatesProps {
   isOpen: boolean;
   onClose: () => void;
   leadName: string;
   email: string;
+  leadId?: string; // the email is checked and recorded on the lead by the server
 }
 
 const defaultTemplates = [
@@ -70,7 +73,9 @@ const defaultTemplates = [
   }
 ];
 
-const EmailTemplates: React.FC<EmailTemplatesProps> = ({ isOpen, onClose, leadName, email }) => {
+const EmailTemplates: React.FC<EmailTemplatesProps> = ({ isOpen, onClose, leadName, email, leadId }) => {
+  const { checkContact } = useDoNotContactStore();
+  const { contactLead } = useLeadStore();
   const { user, clientConfig } = useAuthStore();
   const [customSubject, setCustomSubject] = React.useState('');
   const [customMessage, setCustomMessage] = React.useState('');
@@ -110,6 +115,11 @@ const EmailTemplates: React.FC<EmailTemplatesProps> = ({ isOpen, onClose, leadNa
       message = template.message(leadName);
     }
 
+    const allowed = leadId
+      ? await contactLead(leadId, 'email', `נשלח אימייל${subject ? `: ${subject}` : ''}`)
+      : await checkContact('email', { email });
+    if (!allowed) return;
+
     // Encode the subject and message for Gmail
     const encodedSubject = encodeURIComponent(subject);
     const encodedMessage = encodeURIComponent(message);
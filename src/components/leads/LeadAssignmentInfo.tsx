@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { useLeadStore, LeadAssignmentLogEntry } from '../../store/leadStore';
+
+interface LeadAssignmentInfoProps {
+  leadId: string;
+}
+
+const strategyLabels: Record<LeadAssignmentLogEntry['strategy'], string> = {
+  round_robin: 'סבב',
+  least_open: 'פחות לידים פתוחים',
+  fallback: 'ברירת מחדל למנהל'
+};
+
+// Shows managers why an automatically assigned lead went to its agent
+const LeadAssignmentInfo: React.FC<LeadAssignmentInfoProps> = ({ leadId }) => {
+  const { fetchAssignmentLog } = useLeadStore();
+  const [entries, setEntries] = useState<LeadAssignmentLogEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLoad = async () => {
+    try {
+      setIsLoading(true);
+      setEntries(await fetchAssignmentLog(leadId));
+    } catch (error) {
+      console.error('Error loading assignment log:', error);
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (entries === null) {
+    return (
+      <button
+        onClick={handleLoad}
+        disabled={isLoading}
+        className="mb-6 flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+      >
+        <UserCheck className="w-4 h-4" />
+        {isLoading ? 'טוען...' : 'למה הליד שויך לנציג הזה?'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800 text-sm">
+      <div className="flex items-center gap-2 mb-2 font-medium text-blue-800 dark:text-blue-300">
+        <UserCheck className="w-4 h-4" />
+        היסטוריית שיוך אוטומטי
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-600 dark:text-gray-400">הליד לא שויך אוטומטית</p>
+      ) : (
+        <ul className="space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id} className="text-gray-700 dark:text-gray-300">
+              <span className="font-medium">{entry.assigned_to_name || 'לא ידוע'}</span>
+              {' - '}
+              {strategyLabels[entry.strategy] || entry.strategy}: {entry.reason}
+              <span className="text-gray-500 dark:text-gray-400"> ({format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm')})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LeadAssignmentInfo;
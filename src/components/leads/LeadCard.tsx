@@ -8,6 +8,8 @@ import { Lead } from '../../types';
 import { format } from 'date-fns';
 import { he } from 'date-fns/locale';
 import { useAuthStore } from '../../store/authStore';
+import { useLeadStore } from '../../store/leadStore';
+import { telHref } from '../../utils/phone';
 
 // Custom WhatsApp icon component
 const WhatsAppIcon: React.FC<{ className?: string }> = ({ className = "w-7 h-7" }) => (
@@ -17,6 +19,9 @@ const WhatsAppIcon: React.FC<{ className?: string }> = ({ className = "w-7 h-7"
 );
 import LeadAnalysis from '../ai/LeadAnalysis';
 import LeadHistory from './LeadHistory';
+import AttachmentsPanel from '../attachments/AttachmentsPanel';
+import NotesPanel from '../notes/NotesPanel';
+import LeadAssignmentInfo from './LeadAssignmentInfo';
 import WhatsAppTemplates from './WhatsAppTemplates';
 import EmailTemplates from './EmailTemplates';
 
@@ -30,13 +35,16 @@ interface LeadCardProps {
 }
 
 const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = true, canDelete = true, checkbox }) => {
-  const { clientConfig } = useAuthStore();
+  const { clientConfig, user } = useAuthStore();
+  const { contactLead, tags } = useLeadStore();
+  const isManagerOrAdmin = user?.role === 'admin' || user?.role === 'manager';
   const [isExpanded, setIsExpanded] = useState(() => {
     const savedState = localStorage.getItem(`lead-${lead.id}-expanded`);
     return savedState ? JSON.parse(savedState) : false;
   });
   const [showWhatsAppTemplates, setShowWhatsAppTemplates] = useState(false);
   const [showEmailTemplates, setShowEmailTemplates] = useState(false);
+  const [notesVersion, setNotesVersion] = useState(0);
 
   const handleWhatsAppClick = () => {
     setShowWhatsAppTemplates(true);
@@ -48,14 +56,13 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = t
     }
   };
 
-  const handlePhoneClick = () => {
-    // Format phone number for dialer
-    const formattedPhone = lead.phone.replace(/\D/g, '');
-    const phoneUrl = `tel:${formattedPhone}`;
-    
+  // The call is checked against the do-not-contact list and recorded on the lead timeline by the server
+  const handlePhoneClick = async () => {
+    if (!await contactLead(lead.id, 'dialer', `שיחה יוצאת ל-${lead.phone}`)) return;
+
     // Create clickable link for mobile
     const link = document.createElement('a');
-    link.href = phoneUrl;
+    link.href = telHref(lead.phone);
     link.setAttribute('class', 'phone-link');
     link.click();
   };
@@ -186,6 +193,19 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = t
                 {lead.status}
               </motion.span>
 
+              {lead.tags?.map(name => {
+                const color = tags.find(tag => tag.name === name)?.color || '#6b7280';
+                return (
+                  <span
+                    key={name}
+                    className="inline-block px-3 py-1 rounded-full text-xs font-medium"
+                    style={{ backgroundColor: color + '20', color }}
+                  >
+                    #{name}
+                  </span>
+                );
+              })}
+
               <div className="flex items-center text-purple-600 dark:text-purple-400 p-3 rounded-lg bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800">
                 <Calendar className="w-4 h-4 ml-2" />
                 <span className="text-sm font-medium">
@@ -257,8 +277,12 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = t
                 </div>
               )}
 
+              {isManagerOrAdmin && <LeadAssignmentInfo leadId={lead.id} />}
+
               <LeadAnalysis lead={lead} />
-              <LeadHistory history={lead.history || []} />
+              <NotesPanel parentType="lead" parentId={lead.id} onChange={() => setNotesVersion(version => version + 1)} />
+              <AttachmentsPanel parentType="lead" parentId={lead.id} />
+              <LeadHistory leadId={lead.id} updatedAt={lead.updatedAt} refreshKey={notesVersion} />
             </div>
           </motion.div>
         )}
@@ -269,6 +293,7 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = t
         onClose={() => setShowWhatsAppTemplates(false)}
         leadName={lead.name}
         phoneNumber={lead.phone}
+        leadId={lead.id}
       />
 
       <EmailTemplates
@@ -276,6 +301,7 @@ const LeadCard: React.FC<LeadCardProps> = ({ lead, onEdit, onDelete, canEdit = t
         onClose={() => setShowEmailTemplates(false)}
         leadName={lead.name}
         email={lead.email || ''}
+        leadId={lead.id}
       />
     </motion.div>
   );
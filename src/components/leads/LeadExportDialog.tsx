@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Download, RefreshCw } from 'lucide-react';
+import { useLeadStore, LeadExportFormat } from '../../store/leadStore';
+import useAuthStore from '../../store/authStore';
+
+interface LeadExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.';
+
+// Columns supported by GET /api/leads/export
+const exportColumns: { key: string; label: string }[] = [
+  { key: 'id', label: 'מזהה' },
+  { key: 'name', label: 'שם' },
+  { key: 'phone', label: 'טלפון' },
+  { key: 'email', label: 'אימייל' },
+  { key: 'status', label: 'סטטוס' },
+  { key: 'source', label: 'מקור' },
+  { key: 'assigned_agent', label: 'נציג מטפל' },
+  { key: 'callback_date', label: 'תאריך חזרה' },
+  { key: 'callback_time', label: 'שעת חזרה' },
+  { key: 'last_contact', label: 'קשר אחרון' },
+  { key: 'notes', label: 'הערות' },
+  { key: 'product', label: 'מוצר' },
+  { key: 'amount', label: 'סכום' },
+  { key: 'score', label: 'ציון' },
+  { key: 'score_classification', label: 'סיווג' },
+  { key: 'last_history', label: 'פעולה אחרונה' },
+  { key: 'created_at', label: 'תאריך יצירה' },
+  { key: 'updated_at', label: 'עדכון אחרון' }
+];
+
+const defaultColumns = ['name', 'phone', 'email', 'status', 'source', 'assigned_agent', 'callback_date', 'callback_time', 'last_history', 'created_at'];
+
+// Export the leads that match the current list filters with the selected columns
+const LeadExportDialog: React.FC<LeadExportDialogProps> = ({ isOpen, onClose }) => {
+  const { exportLeads, leads } = useLeadStore();
+  const { clientConfig } = useAuthStore();
+  const [format, setFormat] = useState<LeadExportFormat>('xlsx');
+  const [columns, setColumns] = useState<string[]>(defaultColumns);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Fields defined by the client, plus keys that only appear on the loaded leads (imported before they were defined)
+  const definedFields = clientConfig?.custom_fields?.leads || [];
+  const undefinedKeys = [...new Set(leads.flatMap(lead => Object.keys(lead.customFields || {})))]
+    .filter(key => !definedFields.some(field => field.id === key));
+  const availableColumns = [
+    ...exportColumns,
+    ...definedFields.map(field => ({ key: `${CUSTOM_FIELD_PREFIX}${field.id}`, label: field.name })),
+    ...undefinedKeys.map(key => ({ key: `${CUSTOM_FIELD_PREFIX}${key}`, label: key }))
+  ];
+
+  const toggleColumn = (key: string) => {
+    setColumns(columns.includes(key) ? columns.filter(column => column !== key) : [...columns, key]);
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      // Keep the order of the column list
+      await exportLeads(format, availableColumns.map(column => column.key).filter(key => columns.includes(key)));
+      onClose();
+    } catch {
+      // Error toast is shown by the store
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-2xl rounded-lg bg-white dark:bg-gray-800 p-6 shadow-xl"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                  <Download className="w-5 h-5" />
+                  ייצוא לידים
+                </h2>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                ייוצאו כל הלידים שתואמים לסינון הנוכחי ברשימה.
+              </p>
+
+              <div className="flex gap-4 mb-4">
+                {(['xlsx', 'csv'] as LeadExportFormat[]).map(option => (
+                  <label key={option} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <input
+                      type="radio"
+                      name="export-format"
+                      checked={format === option}
+                      onChange={() => setFormat(option)}
+                    />
+                    {option === 'xlsx' ? 'Excel (xlsx)' : 'CSV'}
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="font-medium text-gray-900 dark:text-white">עמודות</h3>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => setColumns(availableColumns.map(column => column.key))} className="text-blue-600 dark:text-blue-400 hover:underline">
+                    בחר הכל
+                  </button>
+                  <button onClick={() => setColumns(defaultColumns)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                    ברירת מחדל
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-6">
+                {availableColumns.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  ביטול
+                </button>
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting || columns.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-teal-600 text-white hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {isExporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  ייצוא
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default LeadExportDialog;
@@ -5,6 +5,7 @@ import { Lead, LeadFormData, LeadStatus } from '../../types/lead';
 import { useLeadStore } from '../../store/leadStore';
 import useAuthStore from '../../store/authStore';
 import { useUserStore } from '../../store/userStore';
+import CustomFieldInputs, { getCustomFieldDefaults } from '../customFields/CustomFieldInputs';
 import toast from 'react-hot-toast';
 
 interface LeadFormDialogProps {
@@ -15,9 +16,10 @@ interface LeadFormDialogProps {
 
 
 const LeadFormDialog: React.FC<LeadFormDialogProps> = ({ isOpen, onClose, lead }) => {
-  const { addLead, updateLead, deleteLead, availableStatuses } = useLeadStore();
-  const { user } = useAuthStore();
+  const { addLead, updateLead, deleteLead, availableStatuses, tags } = useLeadStore();
+  const { user, clientConfig } = useAuthStore();
   const { users, fetchUsers, fetchAgentsByManager } = useUserStore();
+  const customFieldDefinitions = clientConfig?.custom_fields?.leads || [];
   const [formData, setFormData] = useState<LeadFormData>({
     name: '',
     phone: '',
@@ -88,7 +90,9 @@ const LeadFormDialog: React.FC<LeadFormDialogProps> = ({ isOpen, onClose, lead }
         notes: lead.notes || '',
         callbackDate: formattedCallbackDate,
         callbackTime: formattedCallbackTime,
-        assigned_to: lead.assignedTo ? parseInt(lead.assignedTo) : (user?.id ? parseInt(user.id) : undefined)
+        assigned_to: lead.assignedTo ? parseInt(lead.assignedTo) : (user?.id ? parseInt(user.id) : undefined),
+        customFields: lead.customFields || {},
+        tags: lead.tags || []
       });
     } else {
       setFormData({
@@ -99,7 +103,9 @@ const LeadFormDialog: React.FC<LeadFormDialogProps> = ({ isOpen, onClose, lead }
         notes: '',
         callbackDate: '',
         callbackTime: '',
-        assigned_to: user?.id ? parseInt(user.id) : undefined
+        assigned_to: user?.id ? parseInt(user.id) : undefined,
+        customFields: getCustomFieldDefaults(customFieldDefinitions),
+        tags: []
       });
     }
   }, [lead, isOpen, availableStatuses, user?.id]);
@@ -344,6 +350,43 @@ const LeadFormDialog: React.FC<LeadFormDialogProps> = ({ isOpen, onClose, lead }
                   </div>
                 </div>
 
+                <CustomFieldInputs
+                  definitions={customFieldDefinitions}
+                  values={formData.customFields || {}}
+                  onChange={(customFields) => setFormData(prev => ({ ...prev, customFields }))}
+                />
+
+                {tags.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      תגיות
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {tags.map(tag => {
+                        const isSelected = formData.tags?.includes(tag.name);
+                        return (
+                          <button
+                            key={tag.id}
+                            type="button"
+                            onClick={() => setFormData(prev => ({
+                              ...prev,
+                              tags: isSelected
+                                ? (prev.tags || []).filter(name => name !== tag.name)
+                                : [...(prev.tags || []), tag.name]
+                            }))}
+                            className="px-3 py-1 rounded-full text-sm font-medium border"
+                            style={isSelected
+                              ? { backgroundColor: tag.color, borderColor: tag.color, color: 'white' }
+                              : { borderColor: tag.color, color: tag.color }}
+                          >
+                            {tag.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     הערות
@@ -1,16 +1,65 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { History, Clock, MessageSquare, Calendar, AlertCircle, Edit2, ChevronDown, ChevronUp } from 'lucide-react';
+import { History, Clock, MessageSquare, Calendar, AlertCircle, Edit2, ChevronDown, ChevronUp, Phone, Send } from 'lucide-react';
 import { format } from 'date-fns';
 import { he } from 'date-fns/locale';
-import { HistoryEntry } from '../../types';
+import { useLeadStore, LeadTimelineEntry } from '../../store/leadStore';
 
 interface LeadHistoryProps {
-  history: HistoryEntry[];
+  leadId: string;
+  updatedAt?: string; // reload the timeline when the lead changes
+  refreshKey?: number; // reload after a change that does not touch the lead (notes)
 }
 
-const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
+const fieldLabels: Record<string, string> = {
+  name: 'שם',
+  phone: 'טלפון',
+  email: 'אימייל',
+  source: 'מקור',
+  product: 'מוצר',
+  amount: 'סכום',
+  potential_value: 'ערך פוטנציאלי',
+  closing_date: 'תאריך סגירה',
+  last_contact: 'קשר אחרון',
+  customer_id: 'לקוח',
+  custom_fields: 'שדות מותאמים',
+  tags: 'תגיות'
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'object') return Object.entries(value).map(([key, item]) => `${key}: ${item}`).join(', ') || '—';
+  return String(value);
+};
+
+// Activity timeline of a lead - entries are recorded by the server on every change
+const LeadHistory: React.FC<LeadHistoryProps> = ({ leadId, updatedAt, refreshKey }) => {
+  const { fetchLeadTimeline } = useLeadStore();
   const [isExpanded, setIsExpanded] = useState(true);
+  const [history, setHistory] = useState<LeadTimelineEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const entries = await fetchLeadTimeline(leadId);
+        if (!cancelled) setHistory(entries);
+      } catch (error) {
+        console.error('Error loading lead timeline:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [leadId, updatedAt, refreshKey, fetchLeadTimeline]);
 
   const getIcon = (type: string) => {
     switch (type) {
@@ -24,52 +73,46 @@ const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
         return <Clock className="w-4 h-4 text-yellow-500" />;
       case 'edit':
         return <Edit2 className="w-4 h-4 text-gray-500" />;
+      case 'message':
+        return <Send className="w-4 h-4 text-emerald-500" />;
+      case 'call':
+        return <Phone className="w-4 h-4 text-sky-500" />;
       default:
         return <History className="w-4 h-4 text-gray-500" />;
     }
   };
 
-  const getDescription = (entry: HistoryEntry) => {
+  const getDescription = (entry: LeadTimelineEntry) => {
     switch (entry.type) {
-      case 'status':
-        return entry.metadata?.before ? (
-          <span>
-            סטטוס שונה מ-
-            <span className="font-medium">{entry.metadata.before}</span>
-            {' '}ל-
-            <span className="font-medium">{entry.metadata.after}</span>
-          </span>
-        ) : (
-          <span>
-            סטטוס נקבע ל-
-            <span className="font-medium">{entry.metadata?.status}</span>
-          </span>
-        );
-      case 'note':
+      case 'note': {
+        // Team notes keep their text as body, the lead's notes field as notes
+        const text = entry.after_values?.body || entry.before_values?.body || entry.after_values?.notes || entry.metadata?.notes;
         return (
           <span>
             {entry.description}
-            {entry.metadata?.notes && (
-              <span className="block mt-1 text-gray-600 dark:text-gray-400">
-                "{entry.metadata.notes}"
+            {text && (
+              <span className="block mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                "{text}"
               </span>
             )}
           </span>
         );
-      case 'callback':
+      }
+      case 'edit': {
+        // Field changes show the values before and after
+        const fields = Object.keys(entry.after_values || {}).filter(field => fieldLabels[field]);
+        if (!entry.before_values || fields.length === 0) return entry.description;
         return (
           <span>
-            נקבעה שיחה חוזרת ל-
-            {entry.metadata?.callbackDate && (
-              <span className="font-medium">
-                {format(new Date(entry.metadata.callbackDate), 'dd/MM/yyyy', { locale: he })}
+            {entry.description}
+            {fields.map(field => (
+              <span key={field} className="block mt-1 text-xs text-gray-600 dark:text-gray-400">
+                {fieldLabels[field]}: {formatValue(entry.before_values?.[field])} ← {formatValue(entry.after_values?.[field])}
               </span>
-            )}
-            {entry.metadata?.callbackTime && (
-              <span className="font-medium"> בשעה {entry.metadata.callbackTime}</span>
-            )}
+            ))}
           </span>
         );
+      }
       default:
         return entry.description;
     }
@@ -81,9 +124,9 @@ const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
     return (
       <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
         {getIcon(latest.type)}
-        <span className="truncate">{getDescription(latest)}</span>
+        <span className="truncate">{latest.description}</span>
         <span className="text-xs">
-          {format(new Date(latest.createdAt), 'HH:mm', { locale: he })}
+          {format(new Date(latest.created_at), 'HH:mm', { locale: he })}
         </span>
       </div>
     );
@@ -91,7 +134,7 @@ const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
 
   return (
     <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-      <div 
+      <div
         className="flex items-center justify-between mb-4 cursor-pointer"
         onClick={() => setIsExpanded(!isExpanded)}
       >
@@ -122,26 +165,29 @@ const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
                 key={entry.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
+                transition={{ delay: Math.min(index, 10) * 0.05 }}
                 className="flex gap-3"
               >
                 <div className="flex-shrink-0 mt-1">{getIcon(entry.type)}</div>
                 <div className="flex-1">
-                  <div className="flex items-start justify-between">
+                  <div className="flex items-start justify-between gap-2">
                     <p className="text-sm text-gray-700 dark:text-gray-300">
                       {getDescription(entry)}
                     </p>
-                    <span className="text-xs text-gray-500 dark:text-gray-400">
-                      {format(new Date(entry.createdAt), 'dd/MM/yyyy HH:mm', { locale: he })}
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm', { locale: he })}
                     </span>
                   </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {entry.actor_name || 'המערכת'}
+                  </p>
                 </div>
               </motion.div>
             ))}
 
             {history.length === 0 && (
               <div className="text-center py-4 text-gray-500 dark:text-gray-400">
-                אין היסטוריה זמינה
+                {isLoading ? 'טוען...' : 'אין היסטוריה זמינה'}
               </div>
             )}
           </motion.div>
@@ -151,4 +197,4 @@ const LeadHistory: React.FC<LeadHistoryProps> = ({ history }) => {
   );
 };
 
-export default LeadHistory;
\ No newline at end of file
+export default LeadHistory;
@@ -0,0 +1,444 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, RefreshCw, AlertCircle, Plus, Trash2, Download, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLeadStore, LeadImportEncoding, LeadImportMapping, LeadImportPreview, LeadImportJob } from '../../store/leadStore';
+
+interface LeadImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.';
+const JOB_POLL_INTERVAL = 1500;
+
+const fieldLabels: Record<string, string> = {
+  name: 'שם *',
+  phone: 'טלפון *',
+  email: 'אימייל',
+  status: 'סטטוס',
+  source: 'מקור',
+  notes: 'הערות',
+  callback_date: 'תאריך חזרה',
+  callback_time: 'שעת חזרה'
+};
+
+const jobStatusLabels: Record<LeadImportJob['status'], string> = {
+  pending: 'ממתין בתור',
+  running: 'מייבא',
+  completed: 'הייבוא הסתיים',
+  failed: 'הייבוא נכשל'
+};
+
+// Two-step import: preview with detected mapping and row errors, then a background job with the chosen mapping
+const LeadImportDialog: React.FC<LeadImportDialogProps> = ({ isOpen, onClose }) => {
+  const { previewImport, startImportJob, fetchImportJob, rerunImportJob, downloadImportErrors, finishImportJob } = useLeadStore();
+  const [file, setFile] = useState<File | null>(null);
+  const [encoding, setEncoding] = useState<LeadImportEncoding>('auto');
+  const [preview, setPreview] = useState<LeadImportPreview | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>({});
+  const [customFields, setCustomFields] = useState<{ key: string; header: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [job, setJob] = useState<LeadImportJob | null>(null);
+
+  const isJobActive = job?.status === 'pending' || job?.status === 'running';
+
+  // Poll the job until it finishes, then refresh the leads list
+  useEffect(() => {
+    if (!job || !isJobActive) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const updated = await fetchImportJob(job.id);
+        setJob(updated);
+        if (updated.status === 'completed' || updated.status === 'failed') {
+          await finishImportJob(updated);
+        }
+      } catch (error) {
+        console.error('Error polling import job:', error);
+        setJob({ ...job }); // try again on the next interval
+      }
+    }, JOB_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [job, isJobActive, fetchImportJob, finishImportJob]);
+
+  const resetDialog = () => {
+    setJob(null);
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setCustomFields([]);
+    setEncoding('auto');
+  };
+
+  const handleClose = () => {
+    resetDialog();
+    onClose();
+  };
+
+  const buildMapping = (): LeadImportMapping => {
+    const result: LeadImportMapping = {};
+    Object.entries(mapping).forEach(([field, header]) => {
+      if (header) result[field] = header;
+    });
+    customFields.forEach(({ key, header }) => {
+      if (key.trim() && header) result[`${CUSTOM_FIELD_PREFIX}${key.trim()}`] = header;
+    });
+    return result;
+  };
+
+  const loadPreview = async (selectedFile: File, withMapping?: LeadImportMapping) => {
+    try {
+      setIsLoading(true);
+      const result = await previewImport(selectedFile, encoding, withMapping);
+      setPreview(result);
+
+      const standard: LeadImportMapping = {};
+      const custom: { key: string; header: string }[] = [];
+      Object.entries(result.mapping).forEach(([field, header]) => {
+        if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+          custom.push({ key: field.slice(CUSTOM_FIELD_PREFIX.length), header });
+        } else {
+          standard[field] = header;
+        }
+      });
+      setMapping(standard);
+      setCustomFields(custom);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'שגיאה בקריאת הקובץ');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    if (!selectedFile) return;
+
+    setFile(selectedFile);
+    setPreview(null);
+    loadPreview(selectedFile);
+    event.target.value = '';
+  };
+
+  const handleConfirm = async () => {
+    if (!file) return;
+
+    try {
+      setIsLoading(true);
+      setJob(await startImportJob(file, encoding, buildMapping()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'שגיאה בייבוא הקובץ');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRerun = async () => {
+    if (!job) return;
+
+    try {
+      setJob(await rerunImportJob(job.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהרצה חוזרת של הייבוא');
+    }
+  };
+
+  const issuesByRow = new Map((preview?.rowErrors || []).map(row => [row.rowNumber, row]));
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={handleClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-5xl rounded-lg bg-white dark:bg-gray-800 p-6 shadow-xl"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                  <Upload className="w-5 h-5" />
+                  ייבוא לידים מקובץ Excel / CSV
+                </h2>
+                <button onClick={handleClose} className="text-gray-400 hover:text-gray-500">
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              {/* Step 3 - background job progress */}
+              {job && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                    <span className="flex items-center gap-2">
+                      {isJobActive && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      {jobStatusLabels[job.status]} · {job.filename}
+                    </span>
+                    <span>{job.processed_rows} / {job.total_rows || '?'} שורות</span>
+                  </div>
+
+                  <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${job.status === 'failed' ? 'bg-red-500' : 'bg-orange-500'}`}
+                      style={{ width: `${job.total_rows ? Math.round((job.processed_rows / job.total_rows) * 100) : 0}%` }}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center text-sm">
+                    <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">
+                      <div className="text-lg font-semibold">{job.created_count}</div>
+                      נוצרו
+                    </div>
+                    <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                      <div className="text-lg font-semibold">{job.attached_count}</div>
+                      צורפו לקיימים
+                    </div>
+                    <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300">
+                      <div className="text-lg font-semibold">{job.skipped_count}</div>
+                      דולגו
+                    </div>
+                    <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+                      <div className="text-lg font-semibold">{job.failed_count}</div>
+                      נכשלו
+                    </div>
+                  </div>
+
+                  {job.error && (
+                    <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                      {job.error}
+                    </div>
+                  )}
+
+                  {!isJobActive && (
+                    <div className="flex justify-end gap-3">
+                      {job.row_errors.length > 0 && (
+                        <button
+                          onClick={() => downloadImportErrors(job.id)}
+                          className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <Download className="w-4 h-4" />
+                          הורדת שורות שלא יובאו
+                        </button>
+                      )}
+                      {(job.failed_count > 0 || job.status === 'failed') && (
+                        <button
+                          onClick={handleRerun}
+                          className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          הרצה חוזרת לשורות שנכשלו
+                        </button>
+                      )}
+                      <button
+                        onClick={handleClose}
+                        className="px-4 py-2 rounded-lg bg-orange-600 text-white hover:bg-orange-700"
+                      >
+                        סגירה
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Step 1 - file and encoding */}
+              {!job && (
+                <div className="flex flex-col sm:flex-row gap-3 mb-6">
+                  <label className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <Upload className="w-5 h-5" />
+                    {file ? file.name : 'בחירת קובץ (.xlsx, .xls, .csv)'}
+                    <input type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} className="hidden" />
+                  </label>
+                  <select
+                    value={encoding}
+                    onChange={(e) => setEncoding(e.target.value as LeadImportEncoding)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    title="קידוד קובץ CSV"
+                  >
+                    <option value="auto">קידוד: זיהוי אוטומטי</option>
+                    <option value="utf-8">UTF-8</option>
+                    <option value="cp1255">Windows-1255 (עברית)</option>
+                  </select>
+                </div>
+              )}
+
+              {isLoading && !preview && !job && (
+                <div className="flex items-center justify-center py-8 text-gray-600 dark:text-gray-400">
+                  <RefreshCw className="w-5 h-5 animate-spin ml-2" />
+                  קורא את הקובץ...
+                </div>
+              )}
+
+              {/* Step 2 - mapping and validation */}
+              {preview && !job && (
+                <div className="space-y-6">
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {preview.format === 'csv' ? `CSV (${preview.encoding === 'cp1255' ? 'Windows-1255' : 'UTF-8'})` : 'Excel'}
+                    {' · '}
+                    {preview.totalRows} שורות · {preview.validRows} תקינות
+                    {preview.invalidRows > 0 && <span className="text-red-600"> · {preview.invalidRows} עם שגיאות (לא ייובאו)</span>}
+                  </div>
+
+                  <div>
+                    <h3 className="font-medium text-gray-900 dark:text-white mb-3">מיפוי עמודות</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                      {preview.fields.map(field => (
+                        <div key={field}>
+                          <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">{fieldLabels[field] || field}</label>
+                          <select
+                            value={mapping[field] || ''}
+                            onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                            className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                          >
+                            <option value="">— לא לייבא —</option>
+                            {preview.headers.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="mt-4 space-y-2">
+                      <div className="text-sm font-medium text-gray-700 dark:text-gray-300">שדות מותאמים</div>
+                      {customFields.map((customField, index) => (
+                        <div key={index} className="flex gap-2">
+                          {preview.customFields.length > 0 ? (
+                            <select
+                              value={customField.key}
+                              onChange={(e) => setCustomFields(customFields.map((item, i) => i === index ? { ...item, key: e.target.value } : item))}
+                              className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                            >
+                              <option value="">— בחר שדה —</option>
+                              {preview.customFields.map(definition => (
+                                <option key={definition.id} value={definition.id}>
+                                  {definition.name}{definition.required ? ' *' : ''}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <input
+                              type="text"
+                              placeholder="שם השדה"
+                              value={customField.key}
+                              onChange={(e) => setCustomFields(customFields.map((item, i) => i === index ? { ...item, key: e.target.value } : item))}
+                              className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                            />
+                          )}
+                          <select
+                            value={customField.header}
+                            onChange={(e) => setCustomFields(customFields.map((item, i) => i === index ? { ...item, header: e.target.value } : item))}
+                            className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                          >
+                            <option value="">— בחר עמודה —</option>
+                            {preview.headers.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => setCustomFields(customFields.filter((_, i) => i !== index))}
+                            className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => setCustomFields([...customFields, { key: '', header: '' }])}
+                        className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Plus className="w-4 h-4" />
+                        הוספת שדה מותאם
+                      </button>
+                    </div>
+                  </div>
+
+                  {preview.mappingErrors.length > 0 && (
+                    <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                      {preview.mappingErrors.map(error => <div key={error}>{error}</div>)}
+                    </div>
+                  )}
+
+                  {/* Sample rows with their validation errors */}
+                  <div className="overflow-x-auto max-h-72 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                        <tr>
+                          <th className="px-2 py-1 text-right">#</th>
+                          {preview.headers.map(header => (
+                            <th key={header} className="px-2 py-1 text-right whitespace-nowrap">{header}</th>
+                          ))}
+                          <th className="px-2 py-1 text-right">בעיות</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.sample.map(row => (
+                          <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/10' : ''}>
+                            <td className="px-2 py-1 text-gray-500">{row.rowNumber}</td>
+                            {preview.headers.map(header => (
+                              <td key={header} className="px-2 py-1 whitespace-nowrap text-gray-800 dark:text-gray-200">{row.values[header]}</td>
+                            ))}
+                            <td className="px-2 py-1 text-xs">
+                              {row.errors.map(error => <div key={error} className="text-red-600">{error}</div>)}
+                              {row.warnings.map(warning => <div key={warning} className="text-amber-600">{warning}</div>)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Problems beyond the sample rows */}
+                  {preview.rowErrors.some(row => row.rowNumber > (preview.sample[preview.sample.length - 1]?.rowNumber || 0)) && (
+                    <div className="max-h-40 overflow-y-auto p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm">
+                      <div className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300 mb-1">
+                        <AlertCircle className="w-4 h-4" />
+                        בעיות בשורות נוספות
+                      </div>
+                      {[...issuesByRow.values()]
+                        .filter(row => row.rowNumber > (preview.sample[preview.sample.length - 1]?.rowNumber || 0))
+                        .map(row => (
+                          <div key={row.rowNumber} className={row.errors.length > 0 ? 'text-red-600' : 'text-amber-700 dark:text-amber-300'}>
+                            שורה {row.rowNumber}: {[...row.errors, ...row.warnings].join(', ')}
+                          </div>
+                        ))}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-3">
+                    <button
+                      onClick={() => file && loadPreview(file, buildMapping())}
+                      disabled={isLoading}
+                      className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                      בדיקה מחדש
+                    </button>
+                    <button
+                      onClick={handleConfirm}
+                      disabled={isLoading || !mapping.name || !mapping.phone}
+                      className="px-4 py-2 rounded-lg bg-orange-600 text-white hover:bg-orange-700 disabled:opacity-50"
+                    >
+                      ייבוא {preview.validRows} לידים
+                    </button>
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default LeadImportDialog;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Search, Users, FileCheck, AlertCircle, UserCheck, Filter, UserPlus, Upload, MessageSquare, Calendar, Trash2, ChevronLeft, ChevronRight, UserCog } from 'lucide-react';
+import { Plus, Search, Users, FileCheck, AlertCircle, UserCheck, Filter, UserPlus, Upload, Download, MessageSquare, Calendar, Trash2, ChevronLeft, ChevronRight, UserCog, SlidersHorizontal, Tag, RefreshCw, Kanban, LayoutList } from 'lucide-react';
 import { useLeadStore } from '../../store/leadStore';
 import useCustomerStore from '../../store/customerStore';
 import { useUserStore } from '../../store/userStore';
@@ -10,6 +11,15 @@ import LeadFormDialog from './LeadFormDialog';
 import CreateCustomerDialog from '../customers/CreateCustomerDialog';
 import BulkMessageDialog from './BulkMessageDialog';
 import BulkAssignDialog from './BulkAssignDialog';
+import BulkTagDialog from './BulkTagDialog';
+import BulkLeadActionDialog, { BulkLeadDialogAction } from './BulkLeadActionDialog';
+import BulkBatchesPanel from './BulkBatchesPanel';
+import PipelineBoard from './PipelineBoard';
+import LeadTagsManager from './LeadTagsManager';
+import LeadSegmentsMenu from './LeadSegmentsMenu';
+import LeadImportDialog from './LeadImportDialog';
+import LeadExportDialog from './LeadExportDialog';
+import StatusApprovalsPanel from './StatusApprovalsPanel';
 import { Lead, LeadStatus } from '../../types';
 import { useAuthStore } from '../../store/authStore';
 import toast from 'react-hot-toast';
@@ -32,17 +42,22 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
     fetchLeads, 
     deleteLead,
     bulkDeleteLeads,
-    importFromExcel,
     setCurrentPage,
     setPageSize,
     setSelectedAgentId,
     selectedAgentId,
-    updateAvailableStatuses
+    updateAvailableStatuses,
+    filters,
+    setFilters,
+    tags,
+    segments,
+    fetchLeadTags
   } = useLeadStore();
   const { addCustomer, createFromLead } = useCustomerStore();
   const { user, clientConfig } = useAuthStore();
   const { users: agents, fetchAgentsByManager, fetchUsers } = useUserStore();
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
   const [dateFilter, setDateFilter] = useState({
     startDate: '',
     endDate: ''
@@ -51,13 +66,25 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
   const [isCustomerDialogOpen, setIsCustomerDialogOpen] = useState(false);
   const [isBulkMessageOpen, setIsBulkMessageOpen] = useState(false);
   const [isBulkAssignOpen, setIsBulkAssignOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [activeStatusFilter, setActiveStatusFilter] = useState<LeadStatus | 'הכל'>('הכל');
+  const [sortOrder, setSortOrder] = useState('');
   const [showStatusFilter, setShowStatusFilter] = useState(false);
   const [selectedLeads, setSelectedLeads] = useState<Set<string>>(new Set());
   const [showDateFilter, setShowDateFilter] = useState(false);
+  const [showCustomFieldFilter, setShowCustomFieldFilter] = useState(false);
+  const [customFieldFilter, setCustomFieldFilter] = useState<Record<string, string>>({}); // cf.* query parameter -> value
   const [showAgentFilter, setShowAgentFilter] = useState(false);
   const [showPageSizeFilter, setShowPageSizeFilter] = useState(false);
   const [showAllLeads, setShowAllLeads] = useState(false); // For admin to toggle between own leads and all leads
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [showTagFilter, setShowTagFilter] = useState(false);
+  const [segmentFilter, setSegmentFilter] = useState(''); // saved segment ID
+  const [isBulkTagOpen, setIsBulkTagOpen] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkLeadDialogAction | null>(null);
+  const [isTagsManagerOpen, setIsTagsManagerOpen] = useState(false);
+  const [view, setView] = useState<'list' | 'board'>('list'); // board - pipeline by status
 
   // Load leads on component mount and when page changes
   useEffect(() => {
@@ -74,13 +101,57 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
     }
     
     fetchLeads(currentPage, pageSize, agentToShow || undefined);
-  }, [currentPage, pageSize, selectedAgentId, user?.id, user?.role, showAllLeads, fetchLeads]);
+  }, [currentPage, pageSize, selectedAgentId, user?.id, user?.role, showAllLeads, fetchLeads, filters]);
+
+  // Opened from the global search (?search=)
+  useEffect(() => {
+    const term = searchParams.get('search');
+    if (term !== null) setSearchQuery(term);
+  }, [searchParams]);
+
+  // Filtering is done on the server - search is debounced to avoid a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const nextFilters = {
+        q: searchQuery.trim() || undefined,
+        status: activeStatusFilter !== 'הכל' ? [activeStatusFilter] : undefined,
+        created_from: dateFilter.startDate || undefined,
+        created_to: dateFilter.endDate || undefined,
+        sort: sortOrder || undefined,
+        tag: tagFilter.length > 0 ? tagFilter : undefined,
+        segment: segmentFilter || undefined,
+        ...Object.fromEntries(Object.entries(customFieldFilter).filter(([, value]) => value))
+      };
+
+      if (JSON.stringify(nextFilters) !== JSON.stringify(useLeadStore.getState().filters)) {
+        setFilters(nextFilters);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery, activeStatusFilter, dateFilter.startDate, dateFilter.endDate, sortOrder, tagFilter, segmentFilter, customFieldFilter, setFilters]);
+
+  // Tag vocabulary for the tag filter, chips and bulk tagging
+  useEffect(() => {
+    fetchLeadTags();
+  }, [fetchLeadTags]);
+
+  const toggleTagFilter = (name: string) => {
+    setTagFilter(prev => (prev.includes(name) ? prev.filter(tag => tag !== name) : [...prev, name]));
+  };
 
   // Update available statuses when client config changes
   useEffect(() => {
     updateAvailableStatuses();
   }, [clientConfig, updateAvailableStatuses]);
 
+  // Custom fields the admin marked as filterable in the list
+  const filterableCustomFields = (clientConfig?.custom_fields?.leads || []).filter(field => field.showInList);
+  const activeCustomFieldFilters = Object.values(customFieldFilter).filter(Boolean).length;
+  const setCustomFieldFilterValue = (param: string, value: string) => {
+    setCustomFieldFilter(prev => ({ ...prev, [param]: value }));
+  };
+
   // Load agents for managers and all users for admins
   useEffect(() => {
     if (user?.role === 'manager') {
@@ -101,22 +172,8 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
     { icon: <UserCheck size={20} />, label: "עסקאות שנסגרו", count: userLeads.filter(l => l.status === 'עסקה נסגרה').length, color: "red" }
   ];
 
-  const filteredLeads = userLeads.filter((lead) => {
-    const matchesSearch = !searchQuery || 
-      lead.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      lead.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      lead.phone.includes(searchQuery);
-    
-    const matchesStatus = activeStatusFilter === 'הכל' || lead.status === activeStatusFilter;
-    
-    const matchesDate = (!dateFilter.startDate || new Date(lead.createdAt) >= new Date(dateFilter.startDate)) &&
-                       (!dateFilter.endDate || new Date(lead.createdAt) <= new Date(dateFilter.endDate));
-    
-    // Agent filter is already handled in userLeads logic above
-    const matchesAgent = true; // This is already filtered in userLeads
-    
-    return matchesSearch && matchesStatus && matchesDate && matchesAgent;
-  });
+  // Search, status and date filters are already applied by the server
+  const filteredLeads = userLeads;
 
   const handleAddNewLead = () => {
     setSelectedLeadProp(null);
@@ -141,11 +198,9 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
 
       // Use createFromLead if a leadId exists, otherwise use addCustomer
       if (customerDataWithClientId.leadId) {
-        // Use the correct function for creating customer from lead
+        // The lead stays, in the closed status, with its history - refresh it
         await createFromLead(customerDataWithClientId.leadId, customerDataWithClientId);
-        
-        // Remove lead from store after successful customer creation
-        await deleteLead(customerDataWithClientId.leadId);
+        fetchLeads(currentPage, pageSize, selectedAgentId || ((user?.role === 'admin' && !showAllLeads) || user?.role === 'manager' ? user?.id : undefined));
       } else {
         await addCustomer(customerDataWithClientId);
       }
@@ -213,19 +268,6 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
     return false;
   };
 
-  const handleImportExcel = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    try {
-      await importFromExcel(file, user!.id);
-      event.target.value = ''; // Reset file input
-      // No need to call fetchLeads here - importFromExcel already does it
-    } catch (error) {
-      console.error('Error importing Excel:', error);
-    }
-  };
-
   // Pagination functions
   const totalPages = Math.ceil(totalLeads / pageSize);
   
@@ -272,7 +314,7 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
       return;
     }
 
-    const confirmMessage = `האם אתה בטוח שברצונך למחוק ${selectedLeads.size} לידים? פעולה זו לא ניתנת לביטול.`;
+    const confirmMessage = `האם אתה בטוח שברצונך למחוק ${selectedLeads.size} לידים? מנהל יכול לבטל את המחיקה ב-30 הדקות הקרובות.`;
     
     if (window.confirm(confirmMessage)) {
       try {
@@ -287,26 +329,19 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
           return;
         }
 
-        // Use bulk delete function that doesn't show individual toasts
+        // All leads are deleted in one batch - or none when one of them fails
         const result = await bulkDeleteLeads(leadsToDelete);
         
         setSelectedLeads(new Set());
         
-        // Show single summary message
-        if (result.deletedCount > 0) {
-          toast.success(`נמחקו ${result.deletedCount} לידים בהצלחה`);
-        }
-        
-        if (result.failedCount > 0) {
-          toast.error(`${result.failedCount} לידים לא נמחקו בגלל שגיאות`);
-        }
+        toast.success(`נמחקו ${result.successCount} לידים בהצלחה`);
         
         if (leadsToDelete.length < selectedLeads.size) {
           toast.error(`${selectedLeads.size - leadsToDelete.length} לידים לא נמחקו בגלל הרשאות`);
         }
       } catch (error) {
+        // Error toast is shown by the store
         console.error('Error in bulk delete:', error);
-        toast.error('שגיאה במחיקת הלידים');
       }
     }
   };
@@ -410,17 +445,10 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
         </div>
         
         <div className="col-12 col-sm-6 col-md-auto">
-          <input
-            type="file"
-            accept=".xlsx,.xls"
-            onChange={handleImportExcel}
-            className="d-none"
-            id="excel-import"
-          />
           <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            onClick={() => document.getElementById('excel-import')?.click()}
+            onClick={() => setIsImportDialogOpen(true)}
             className="btn btn-md w-100 d-flex align-items-center justify-content-center gap-2 shadow"
             style={{ 
               minHeight: '44px',
@@ -430,7 +458,25 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
             }}
           >
             <Upload className="w-5 h-5" />
-            ייבוא אקסל
+            ייבוא אקסל / CSV
+          </motion.button>
+        </div>
+        
+        <div className="col-12 col-sm-6 col-md-auto">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setIsExportDialogOpen(true)}
+            className="btn btn-md w-100 d-flex align-items-center justify-content-center gap-2 shadow"
+            style={{ 
+              minHeight: '44px',
+              backgroundColor: '#0d9488',
+              borderColor: '#0d9488',
+              color: 'white'
+            }}
+          >
+            <Download className="w-5 h-5" />
+            ייצוא לידים
           </motion.button>
         </div>
         
@@ -453,6 +499,10 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
         </div>
       </div>
 
+      {/* Pending status approvals - managers only */}
+      {(user?.role === 'admin' || user?.role === 'manager') && <StatusApprovalsPanel />}
+      {(user?.role === 'admin' || user?.role === 'manager') && <BulkBatchesPanel />}
+
       {/* Search and Filters */}
       <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
         <div className="flex gap-4 w-full">
@@ -468,6 +518,18 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
           </div>
           
           <div className="flex gap-2">
+            <select
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-700 dark:text-white"
+            >
+              <option value="">החדשים ביותר</option>
+              <option value="-score">ציון גבוה תחילה</option>
+              <option value="score">ציון נמוך תחילה</option>
+              <option value="callback_date,callback_time">תאריך חזרה</option>
+              <option value="-last_contact">קשר אחרון</option>
+            </select>
+
             <div className="relative">
               <button
                 onClick={() => setShowStatusFilter(!showStatusFilter)}
@@ -585,6 +647,157 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
               </AnimatePresence>
             </div>
             
+            <LeadSegmentsMenu value={segmentFilter} onChange={setSegmentFilter} />
+
+            <div className="relative">
+              <button
+                onClick={() => setShowTagFilter(!showTagFilter)}
+                className={`px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 ${
+                  tagFilter.length > 0 ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-gray-800'
+                }`}
+              >
+                <Tag className="w-5 h-5" />
+                <span>תגיות</span>
+              </button>
+
+              <AnimatePresence>
+                {showTagFilter && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 10 }}
+                    className="absolute z-10 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-2 border border-gray-200 dark:border-gray-700 left-0"
+                  >
+                    {tags.map(tag => (
+                      <label
+                        key={tag.id}
+                        className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={tagFilter.includes(tag.name)}
+                          onChange={() => toggleTagFilter(tag.name)}
+                          className="w-4 h-4"
+                        />
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                        <span className="flex-1">{tag.name}</span>
+                        <span className="text-gray-500">({tag.lead_count ?? 0})</span>
+                      </label>
+                    ))}
+                    {tags.length === 0 && (
+                      <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">לא הוגדרו תגיות</p>
+                    )}
+                    {(user?.role === 'admin' || user?.role === 'manager') && (
+                      <button
+                        onClick={() => {
+                          setShowTagFilter(false);
+                          setIsTagsManagerOpen(true);
+                        }}
+                        className="w-full text-right px-4 py-2 mt-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 border-t border-gray-200 dark:border-gray-700"
+                      >
+                        ניהול תגיות
+                      </button>
+                    )}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+
+            {filterableCustomFields.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowCustomFieldFilter(!showCustomFieldFilter)}
+                  className={`px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 ${
+                    activeCustomFieldFilters > 0 ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-gray-800'
+                  }`}
+                >
+                  <SlidersHorizontal className="w-5 h-5" />
+                  <span>שדות נוספים</span>
+                </button>
+
+                <AnimatePresence>
+                  {showCustomFieldFilter && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      className="absolute z-10 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-4 px-4 border border-gray-200 dark:border-gray-700 left-0"
+                    >
+                      <div className="space-y-4">
+                        {filterableCustomFields.map(field => (
+                          <div key={field.id}>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                              {field.name}
+                            </label>
+                            {(field.type === 'number' || field.type === 'date') ? (
+                              <div className="flex gap-2">
+                                <input
+                                  type={field.type}
+                                  placeholder="מ-"
+                                  value={customFieldFilter[`cf.${field.id}.min`] || ''}
+                                  onChange={(e) => setCustomFieldFilterValue(`cf.${field.id}.min`, e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                />
+                                <input
+                                  type={field.type}
+                                  placeholder="עד"
+                                  value={customFieldFilter[`cf.${field.id}.max`] || ''}
+                                  onChange={(e) => setCustomFieldFilterValue(`cf.${field.id}.max`, e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                                />
+                              </div>
+                            ) : (field.type === 'select' || field.type === 'multiselect' || field.type === 'boolean') ? (
+                              <select
+                                value={customFieldFilter[`cf.${field.id}`] || ''}
+                                onChange={(e) => setCustomFieldFilterValue(`cf.${field.id}`, e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                              >
+                                <option value="">הכל</option>
+                                {field.type === 'boolean' ? (
+                                  <>
+                                    <option value="true">כן</option>
+                                    <option value="false">לא</option>
+                                  </>
+                                ) : (field.options || []).map(option => (
+                                  <option key={option} value={option}>{option}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <input
+                                type="text"
+                                value={customFieldFilter[`cf.${field.id}`] || ''}
+                                onChange={(e) => setCustomFieldFilterValue(`cf.${field.id}`, e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                              />
+                            )}
+                          </div>
+                        ))}
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setCustomFieldFilter({});
+                              setShowCustomFieldFilter(false);
+                            }}
+                            className="flex-1 px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                          >
+                            נקה
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setShowCustomFieldFilter(false)}
+                            className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                          >
+                            החל
+                          </button>
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            )}
+            
             {/* Show All Leads Toggle - Only for admins */}
             {user?.role === 'admin' && (
               <div className="relative">
@@ -659,46 +872,59 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
               </div>
             )}
             
+            {/* List / pipeline board */}
+            <button
+              onClick={() => setView(view === 'list' ? 'board' : 'list')}
+              className={`px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 ${
+                view === 'board' ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-gray-800'
+              }`}
+            >
+              {view === 'list' ? <Kanban className="w-5 h-5" /> : <LayoutList className="w-5 h-5" />}
+              <span>{view === 'list' ? 'לוח מכירות' : 'רשימה'}</span>
+            </button>
+            
             {/* Page Size Filter */}
-            <div className="relative">
-              <button
-                onClick={() => setShowPageSizeFilter(!showPageSizeFilter)}
-                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 bg-white dark:bg-gray-800"
-              >
-                <span>{pageSize} לידים בדף</span>
-              </button>
+            {view === 'list' && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowPageSizeFilter(!showPageSizeFilter)}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 bg-white dark:bg-gray-800"
+                >
+                  <span>{pageSize} לידים בדף</span>
+                </button>
               
-              <AnimatePresence>
-                {showPageSizeFilter && (
-                  <motion.div
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: 10 }}
-                    className="absolute z-10 mt-2 w-32 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-2 border border-gray-200 dark:border-gray-700"
-                  >
-                    {[25, 50, 100, 200].map((size) => (
-                      <button
-                        key={size}
-                        onClick={() => handlePageSizeChange(size)}
-                        className={`w-full text-right px-4 py-2 text-sm ${
-                          pageSize === size
-                            ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
-                            : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                      >
-                        {size} לידים
-                      </button>
-                    ))}
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </div>
+                <AnimatePresence>
+                  {showPageSizeFilter && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: 10 }}
+                      className="absolute z-10 mt-2 w-32 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-2 border border-gray-200 dark:border-gray-700"
+                    >
+                      {[25, 50, 100, 200].map((size) => (
+                        <button
+                          key={size}
+                          onClick={() => handlePageSizeChange(size)}
+                          className={`w-full text-right px-4 py-2 text-sm ${
+                            pageSize === size
+                              ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                          }`}
+                        >
+                          {size} לידים
+                        </button>
+                      ))}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Active Filter Display */}
-      {(activeStatusFilter !== 'הכל' || dateFilter.startDate || dateFilter.endDate || selectedAgentId || (user?.role === 'admin' && showAllLeads)) && (
+      {(activeStatusFilter !== 'הכל' || dateFilter.startDate || dateFilter.endDate || activeCustomFieldFilters > 0 || tagFilter.length > 0 || segmentFilter || selectedAgentId || (user?.role === 'admin' && showAllLeads)) && (
         <div className="flex items-center gap-2 flex-wrap">
           <span className="text-sm text-gray-600 dark:text-gray-300">מציג לידים:</span>
           {activeStatusFilter !== 'הכל' && (
@@ -732,10 +958,28 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
               עד-{dateFilter.endDate}
             </span>
           )}
+          {activeCustomFieldFilters > 0 && (
+            <span className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+              שדות נוספים ({activeCustomFieldFilters})
+            </span>
+          )}
+          {segmentFilter && (
+            <span className="px-3 py-1 rounded-full text-sm bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-300">
+              סגמנט: {segments.find(segment => String(segment.id) === segmentFilter)?.name || segmentFilter}
+            </span>
+          )}
+          {tagFilter.map(name => (
+            <span key={name} className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+              #{name}
+            </span>
+          ))}
           <button
             onClick={() => {
               setActiveStatusFilter('הכל');
               setDateFilter({ startDate: '', endDate: '' });
+              setCustomFieldFilter({});
+              setTagFilter([]);
+              setSegmentFilter('');
               setSelectedAgentId(null);
               if (user?.role === 'admin') {
                 setShowAllLeads(false);
@@ -748,8 +992,16 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
         </div>
       )}
 
+      {/* Pipeline board - same filters and agent as the list */}
+      {view === 'board' && (
+        <PipelineBoard
+          assignedTo={selectedAgentId || ((user?.role === 'admin' && !showAllLeads) || user?.role === 'manager' ? user?.id : undefined)}
+          getStatusColor={getStatusColor}
+        />
+      )}
+
       {/* Bulk Selection */}
-      {filteredLeads.length > 0 && (
+      {view === 'list' && filteredLeads.length > 0 && (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -835,6 +1087,46 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
                     שלח הודעות
                   </motion.button>
                   
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setIsBulkTagOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg shadow-md transition-all duration-200 font-medium"
+                  >
+                    <Tag className="w-4 h-4" />
+                    תגיות
+                  </motion.button>
+                  
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setBulkAction('status')}
+                    className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white rounded-lg shadow-md transition-all duration-200 font-medium"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    סטטוס
+                  </motion.button>
+                  
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setBulkAction('callback')}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg shadow-md transition-all duration-200 font-medium"
+                  >
+                    <Calendar className="w-4 h-4" />
+                    תאריך חזרה
+                  </motion.button>
+                  
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setBulkAction('convert')}
+                    className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg shadow-md transition-all duration-200 font-medium"
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    המר ללקוחות
+                  </motion.button>
+                  
                   {(user?.role === 'admin' || user?.role === 'manager') && (
                     <motion.button
                       whileHover={{ scale: 1.05 }}
@@ -864,64 +1156,66 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
       )}
 
       {/* Leads List */}
-      <div className="space-y-4">
-        {filteredLeads.map((lead) => (
-          <LeadCard
-            key={lead.id}
-            lead={lead}
-            onEdit={() => handleEditLead(lead)}
-            onDelete={() => handleDeleteLead(lead)}
-            canEdit={canEditLead(lead)}
-            canDelete={canDeleteLead(lead)}
-            checkbox={
-              <motion.label 
-                className="flex items-center cursor-pointer group"
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-              >
-                <input
-                  type="checkbox"
-                  checked={selectedLeads.has(lead.id)}
-                  onChange={(e) => handleSelectLead(lead.id, e.target.checked)}
-                  className="sr-only"
-                />
-                <div className={`w-5 h-5 rounded-md border-2 transition-all duration-300 flex items-center justify-center cursor-pointer ${
-                  selectedLeads.has(lead.id)
-                    ? 'bg-gradient-to-r from-blue-500 to-blue-600 border-blue-500 shadow-lg shadow-blue-500/25' 
-                    : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 hover:border-blue-400 dark:hover:border-blue-500'
-                }`}>
-                  {selectedLeads.has(lead.id) && (
-                    <motion.svg
-                      initial={{ scale: 0, opacity: 0 }}
-                      animate={{ scale: 1, opacity: 1 }}
-                      exit={{ scale: 0, opacity: 0 }}
-                      className="w-3 h-3 text-white"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                      strokeWidth={3}
-                    >
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
-                    </motion.svg>
-                  )}
-                </div>
-              </motion.label>
-            }
-          />
-        ))}
+      {view === 'list' && (
+        <div className="space-y-4">
+          {filteredLeads.map((lead) => (
+            <LeadCard
+              key={lead.id}
+              lead={lead}
+              onEdit={() => handleEditLead(lead)}
+              onDelete={() => handleDeleteLead(lead)}
+              canEdit={canEditLead(lead)}
+              canDelete={canDeleteLead(lead)}
+              checkbox={
+                <motion.label 
+                  className="flex items-center cursor-pointer group"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedLeads.has(lead.id)}
+                    onChange={(e) => handleSelectLead(lead.id, e.target.checked)}
+                    className="sr-only"
+                  />
+                  <div className={`w-5 h-5 rounded-md border-2 transition-all duration-300 flex items-center justify-center cursor-pointer ${
+                    selectedLeads.has(lead.id)
+                      ? 'bg-gradient-to-r from-blue-500 to-blue-600 border-blue-500 shadow-lg shadow-blue-500/25' 
+                      : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 hover:border-blue-400 dark:hover:border-blue-500'
+                  }`}>
+                    {selectedLeads.has(lead.id) && (
+                      <motion.svg
+                        initial={{ scale: 0, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        exit={{ scale: 0, opacity: 0 }}
+                        className="w-3 h-3 text-white"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                        strokeWidth={3}
+                      >
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                      </motion.svg>
+                    )}
+                  </div>
+                </motion.label>
+              }
+            />
+          ))}
         
-        {filteredLeads.length === 0 && (
-          <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg shadow-sm">
-            <p className="text-gray-500 dark:text-gray-400">
-              {searchQuery || dateFilter.startDate || dateFilter.endDate
-                ? 'לא נמצאו לידים התואמים את החיפוש'
-                : activeStatusFilter !== 'הכל'
-                ? `לא נמצאו לידים בסטטוס ${activeStatusFilter}`
-                : 'לא נמצאו לידים'}
-            </p>
-          </div>
-        )}
-      </div>
+          {filteredLeads.length === 0 && (
+            <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg shadow-sm">
+              <p className="text-gray-500 dark:text-gray-400">
+                {searchQuery || dateFilter.startDate || dateFilter.endDate
+                  ? 'לא נמצאו לידים התואמים את החיפוש'
+                  : activeStatusFilter !== 'הכל'
+                  ? `לא נמצאו לידים בסטטוס ${activeStatusFilter}`
+                  : 'לא נמצאו לידים'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Lead Form Dialog */}
       <LeadFormDialog
@@ -964,8 +1258,47 @@ const LeadManagement: React.FC<LeadManagementProps> = ({
         selectedLeads={filteredLeads.filter(lead => selectedLeads.has(lead.id))}
       />
 
+      {/* Bulk Tag Dialog */}
+      <BulkTagDialog
+        isOpen={isBulkTagOpen}
+        onClose={() => {
+          setIsBulkTagOpen(false);
+          setSelectedLeads(new Set());
+        }}
+        selectedLeads={filteredLeads.filter(lead => selectedLeads.has(lead.id))}
+      />
+
+      {/* Bulk status / callback / convert */}
+      {bulkAction && (
+        <BulkLeadActionDialog
+          isOpen={!!bulkAction}
+          action={bulkAction}
+          onClose={() => {
+            setBulkAction(null);
+            setSelectedLeads(new Set());
+          }}
+          selectedLeads={filteredLeads.filter(lead => selectedLeads.has(lead.id))}
+        />
+      )}
+
+      <LeadTagsManager
+        isOpen={isTagsManagerOpen}
+        onClose={() => setIsTagsManagerOpen(false)}
+      />
+
+      {/* Import Dialog (preview + column mapping) */}
+      <LeadImportDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+      />
+
+      <LeadExportDialog
+        isOpen={isExportDialogOpen}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
+
       {/* Pagination */}
-      {totalPages > 1 && (
+      {view === 'list' && totalPages > 1 && (
         <div className="mt-6 flex items-center justify-between bg-white dark:bg-gray-900 rounded-lg shadow-sm p-4">
           <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
             <span>
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bookmark, Trash2, Users } from 'lucide-react';
+import { useLeadStore, LeadSegment } from '../../store/leadStore';
+import { useAuthStore } from '../../store/authStore';
+
+interface LeadSegmentsMenuProps {
+  value: string; // selected segment ID ('' for none)
+  onChange: (segmentId: string) => void;
+}
+
+// Saved segments dropdown - pick a segment for the list, or save the current filters as a new one
+const LeadSegmentsMenu: React.FC<LeadSegmentsMenuProps> = ({ value, onChange }) => {
+  const { segments, filters, fetchSegments, saveSegment, deleteSegment } = useLeadStore();
+  const { user } = useAuthStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState({ name: '', is_shared: false });
+
+  useEffect(() => {
+    fetchSegments();
+  }, [fetchSegments]);
+
+  // Counts are live - refresh them whenever the menu is opened
+  useEffect(() => {
+    if (isOpen) fetchSegments();
+  }, [isOpen, fetchSegments]);
+
+  const canManage = (segment: LeadSegment) =>
+    String(segment.created_by) === String(user?.id) || (segment.is_shared && user?.role !== 'agent');
+
+  const selected = segments.find(segment => String(segment.id) === value);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      const segment = await saveSegment({ name: draft.name.trim(), is_shared: draft.is_shared }, filters);
+      setDraft({ name: '', is_shared: false });
+      onChange(String(segment.id));
+      setIsOpen(false);
+    } catch {
+      // Error handling is done in the store function
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: LeadSegment) => {
+    if (!window.confirm(`למחוק את הסגמנט "${segment.name}"?`)) return;
+    try {
+      await deleteSegment(segment.id);
+      if (value === String(segment.id)) onChange('');
+    } catch {
+      // Error handling is done in the store function
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-white flex items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-600 ${
+          selected ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'bg-white dark:bg-gray-800'
+        }`}
+      >
+        <Bookmark className="w-5 h-5" />
+        <span>{selected ? selected.name : 'סגמנטים'}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute z-10 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg py-2 border border-gray-200 dark:border-gray-700 left-0"
+          >
+            <button
+              onClick={() => {
+                onChange('');
+                setIsOpen(false);
+              }}
+              className={`w-full text-right px-4 py-2 text-sm ${
+                !value
+                  ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              ללא סגמנט
+            </button>
+
+            {segments.map(segment => (
+              <div
+                key={segment.id}
+                className={`flex items-center justify-between px-4 py-2 text-sm ${
+                  value === String(segment.id)
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => {
+                    onChange(String(segment.id));
+                    setIsOpen(false);
+                  }}
+                  className="flex-1 text-right flex items-center gap-2"
+                >
+                  {segment.is_shared && <Users className="w-4 h-4 text-gray-400" />}
+                  <span>{segment.name}</span>
+                  <span className="text-gray-500">({segment.lead_count})</span>
+                </button>
+                {canManage(segment) && (
+                  <button
+                    onClick={() => handleDelete(segment)}
+                    className="p-1 text-red-500 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+
+            <div className="border-t border-gray-200 dark:border-gray-700 mt-2 pt-3 px-4 space-y-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">שמירת הסינון הנוכחי כסגמנט</p>
+              <input
+                type="text"
+                placeholder="שם הסגמנט"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              />
+              {user?.role !== 'agent' && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.is_shared}
+                    onChange={(e) => setDraft({ ...draft, is_shared: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  משותף לכל המשתמשים
+                </label>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || isSaving}
+                className="w-full px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 text-sm"
+              >
+                {isSaving ? 'שומר...' : 'שמור סגמנט'}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default LeadSegmentsMenu;
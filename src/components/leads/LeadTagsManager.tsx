@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Tag, Trash2, Check } from 'lucide-react';
+import { useLeadStore, LeadTag } from '../../store/leadStore';
+
+interface LeadTagsManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_TAG_COLOR = '#6b7280';
+
+const inputClassName = 'rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-3 py-2 text-sm';
+
+// Tag vocabulary of the client (managers and admins) - renaming or deleting a tag updates the tagged leads
+const LeadTagsManager: React.FC<LeadTagsManagerProps> = ({ isOpen, onClose }) => {
+  const { tags, fetchLeadTags, saveLeadTag, deleteLeadTag } = useLeadStore();
+  const [drafts, setDrafts] = useState<Record<number, { name: string; color: string }>>({});
+  const [newTag, setNewTag] = useState({ name: '', color: DEFAULT_TAG_COLOR });
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts({});
+      fetchLeadTags();
+    }
+  }, [isOpen, fetchLeadTags]);
+
+  const draftOf = (tag: LeadTag) => drafts[tag.id] || { name: tag.name, color: tag.color };
+
+  const isChanged = (tag: LeadTag) => {
+    const draft = draftOf(tag);
+    return draft.name.trim() !== tag.name || draft.color !== tag.color;
+  };
+
+  const handleCreate = async () => {
+    if (!newTag.name.trim()) return;
+    try {
+      await saveLeadTag({ name: newTag.name.trim(), color: newTag.color });
+      setNewTag({ name: '', color: DEFAULT_TAG_COLOR });
+    } catch {
+      // Error handling is done in the store function
+    }
+  };
+
+  const handleUpdate = async (tag: LeadTag) => {
+    const draft = draftOf(tag);
+    try {
+      await saveLeadTag({ id: tag.id, name: draft.name.trim(), color: draft.color });
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[tag.id];
+        return next;
+      });
+    } catch {
+      // Error handling is done in the store function
+    }
+  };
+
+  const handleDelete = async (tag: LeadTag) => {
+    const message = tag.lead_count
+      ? `התגית "${tag.name}" תוסר מ-${tag.lead_count} לידים. להמשיך?`
+      : `למחוק את התגית "${tag.name}"?`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteLeadTag(tag.id);
+    } catch {
+      // Error handling is done in the store function
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-lg rounded-lg bg-white dark:bg-gray-800 p-6 shadow-xl"
+            >
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                  <Tag className="w-6 h-6 text-blue-500" />
+                  ניהול תגיות
+                </h2>
+                <button
+                  onClick={onClose}
+                  className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+
+              <div className="flex gap-2 mb-4">
+                <input
+                  type="color"
+                  value={newTag.color}
+                  onChange={(e) => setNewTag({ ...newTag, color: e.target.value })}
+                  className="w-10 h-10 rounded cursor-pointer"
+                />
+                <input
+                  type="text"
+                  placeholder="שם תגית חדשה"
+                  value={newTag.name}
+                  maxLength={50}
+                  onChange={(e) => setNewTag({ ...newTag, name: e.target.value.replace(/,/g, '') })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                  className={`${inputClassName} flex-1`}
+                />
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={!newTag.name.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 text-sm"
+                >
+                  הוסף
+                </button>
+              </div>
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {tags.map(tag => {
+                  const draft = draftOf(tag);
+                  return (
+                    <div key={tag.id} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={draft.color}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [tag.id]: { ...draft, color: e.target.value } }))}
+                        className="w-10 h-10 rounded cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={draft.name}
+                        maxLength={50}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [tag.id]: { ...draft, name: e.target.value.replace(/,/g, '') } }))}
+                        className={`${inputClassName} flex-1`}
+                      />
+                      <span className="text-xs text-gray-500 dark:text-gray-400 w-16 text-center">
+                        {tag.lead_count ?? 0} לידים
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleUpdate(tag)}
+                        disabled={!isChanged(tag) || !draft.name.trim()}
+                        className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg disabled:opacity-30"
+                      >
+                        <Check className="w-5 h-5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(tag)}
+                        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  );
+                })}
+
+                {tags.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">לא הוגדרו תגיות</p>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default LeadTagsManager;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Phone, Calendar, GripVertical } from 'lucide-react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { useLeadStore, PipelineCard, PipelineStage } from '../../store/leadStore';
+import { useUserStore } from '../../store/userStore';
+
+interface PipelineBoardProps {
+  assignedTo?: string; // same agent filter as the list
+  getStatusColor: (status: string) => string;
+}
+
+// Column and index a dragged card would be dropped at
+interface DropTarget {
+  status: string;
+  index: number;
+}
+
+const formatMoney = (value: number) => `₪${Math.round(value).toLocaleString('he-IL')}`;
+
+// Index in the column (without the dragged card) the pointer is over - before the first card whose middle is below it
+const dropIndexAt = (column: HTMLElement, clientY: number, draggedId: string | null): number => {
+  const cards = Array.from(column.querySelectorAll<HTMLElement>('[data-lead-id]'))
+    .filter(card => card.dataset.leadId !== draggedId);
+  const index = cards.findIndex(card => {
+    const rect = card.getBoundingClientRect();
+    return clientY < rect.top + rect.height / 2;
+  });
+  return index < 0 ? cards.length : index;
+};
+
+// Sales pipeline - a column per lead status, cards are dragged between and within columns
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ assignedTo, getStatusColor }) => {
+  const { pipeline, filters, fetchPipeline, moveLeadOnBoard } = useLeadStore();
+  const { users } = useUserStore();
+  const [isLoading, setIsLoading] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchPipeline(assignedTo).finally(() => setIsLoading(false));
+  }, [assignedTo, filters, fetchPipeline]);
+
+  const agentName = (id?: string) => users.find(user => user.id === id)?.name;
+
+  const handleDrop = async (stage: PipelineStage, event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const leadId = event.dataTransfer.getData('text/plain') || draggedId;
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!leadId) return;
+
+    const leads = stage.leads.filter(lead => lead.id !== leadId);
+    const index = dropIndexAt(event.currentTarget, event.clientY, leadId);
+    const afterLeadId = leads[index - 1]?.id || null;
+    const beforeLeadId = leads[index]?.id || null;
+
+    // Dropped where it already was
+    if (stage.leads.findIndex(lead => lead.id === leadId) === index) return;
+
+    try {
+      await moveLeadOnBoard(leadId, stage.status, { afterLeadId, beforeLeadId });
+      await fetchPipeline(assignedTo);
+    } catch {
+      // Error toast is shown by the store
+    }
+  };
+
+  const renderCard = (lead: PipelineCard) => (
+    <div
+      data-lead-id={lead.id}
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.setData('text/plain', lead.id);
+        event.dataTransfer.effectAllowed = 'move';
+        setDraggedId(lead.id);
+      }}
+      onDragEnd={() => {
+        setDraggedId(null);
+        setDropTarget(null);
+      }}
+      className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-3 cursor-grab active:cursor-grabbing ${
+        draggedId === lead.id ? 'opacity-40' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900 dark:text-white truncate">{lead.name}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1 mt-1" dir="ltr">
+            <Phone className="w-3 h-3" />
+            {lead.phone}
+          </p>
+        </div>
+        <GripVertical className="w-4 h-4 text-gray-300 dark:text-gray-600 flex-shrink-0" />
+      </div>
+
+      {(lead.potentialValue || lead.amount) ? (
+        <div className="flex gap-3 mt-2 text-xs">
+          {!!lead.potentialValue && (
+            <span className="text-emerald-700 dark:text-emerald-400">פוטנציאל {formatMoney(lead.potentialValue)}</span>
+          )}
+          {!!lead.amount && (
+            <span className="text-blue-700 dark:text-blue-400">סכום {formatMoney(lead.amount)}</span>
+          )}
+        </div>
+      ) : null}
+
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+        <span className="truncate">{agentName(lead.assignedTo) || lead.source || ''}</span>
+        {lead.callbackDate && (
+          <span className="flex items-center gap-1 flex-shrink-0">
+            <Calendar className="w-3 h-3" />
+            {format(new Date(lead.callbackDate), 'dd/MM', { locale: he })}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
+  if (!pipeline) {
+    return (
+      <div className="text-center py-12 bg-white dark:bg-gray-900 rounded-lg shadow-sm">
+        <p className="text-gray-500 dark:text-gray-400">{isLoading ? 'טוען את לוח המכירות...' : 'לא נמצאו לידים'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>{pipeline.totals.count} לידים</span>
+        <span>פוטנציאל: {formatMoney(pipeline.totals.potentialValue)}</span>
+        <span>סכום: {formatMoney(pipeline.totals.amount)}</span>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {pipeline.stages.map(stage => {
+          const color = stage.color || getStatusColor(stage.status);
+          const isTarget = dropTarget?.status === stage.status;
+          // Drop indexes skip the dragged card, which stays in place until the drop
+          const otherLeads = stage.leads.filter(lead => lead.id !== draggedId);
+          const indicator = <div className="h-1 rounded bg-blue-400" />;
+
+          return (
+            <motion.div
+              key={stage.status}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={`w-72 flex-shrink-0 rounded-lg bg-gray-50 dark:bg-gray-900 border-2 ${
+                isTarget ? 'border-blue-400 dark:border-blue-500' : 'border-transparent'
+              }`}
+            >
+              <div className="p-3 border-b border-gray-200 dark:border-gray-700" style={{ borderTop: `4px solid ${color}` }}>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">{stage.status}</h3>
+                  <span
+                    className="px-2 py-0.5 rounded-full text-xs font-medium"
+                    style={{ backgroundColor: color + '20', color }}
+                  >
+                    {stage.count}
+                  </span>
+                </div>
+                <div className="flex gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  <span>פוטנציאל {formatMoney(stage.potentialValue)}</span>
+                  <span>סכום {formatMoney(stage.amount)}</span>
+                </div>
+                {!stage.configured && (
+                  <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">סטטוס שאינו מוגדר בהגדרות הארגון</p>
+                )}
+              </div>
+
+              <div
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  event.dataTransfer.dropEffect = 'move';
+                  const index = dropIndexAt(event.currentTarget, event.clientY, draggedId);
+                  if (dropTarget?.status !== stage.status || dropTarget.index !== index) {
+                    setDropTarget({ status: stage.status, index });
+                  }
+                }}
+                onDragLeave={(event) => {
+                  if (!event.currentTarget.contains(event.relatedTarget as Node)) setDropTarget(null);
+                }}
+                onDrop={(event) => handleDrop(stage, event)}
+                className="p-2 space-y-2 min-h-[120px] max-h-[65vh] overflow-y-auto"
+              >
+                {stage.leads.map(lead => (
+                  <React.Fragment key={lead.id}>
+                    {isTarget && lead.id !== draggedId && otherLeads.indexOf(lead) === dropTarget.index && indicator}
+                    {renderCard(lead)}
+                  </React.Fragment>
+                ))}
+                {isTarget && dropTarget.index >= otherLeads.length && indicator}
+
+                {stage.hasMore && (
+                  <p className="text-center text-xs text-gray-500 dark:text-gray-400 py-1">
+                    ועוד {stage.count - stage.leads.length} לידים
+                  </p>
+                )}
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBoard;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ShieldCheck, Check, X } from 'lucide-react';
+import { useLeadStore, LeadStatusApproval } from '../../store/leadStore';
+
+// Pending status changes (statuses with requiresApproval) waiting for a manager decision
+const StatusApprovalsPanel: React.FC = () => {
+  const { fetchPendingApprovals, reviewStatusApproval } = useLeadStore();
+  const [approvals, setApprovals] = useState<LeadStatusApproval[]>([]);
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      setApprovals(await fetchPendingApprovals());
+    } catch (error) {
+      console.error('Error loading status approvals:', error);
+    }
+  }, [fetchPendingApprovals]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const handleReview = async (approval: LeadStatusApproval, decision: 'approve' | 'reject') => {
+    const note = decision === 'reject' ? window.prompt('סיבת הדחייה (אופציונלי)') || undefined : undefined;
+
+    try {
+      setReviewingId(approval.id);
+      await reviewStatusApproval(approval.id, decision, note);
+      await loadApprovals();
+    } catch {
+      // Error toast is shown by the store
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3 text-amber-800 dark:text-amber-300 font-medium">
+        <ShieldCheck className="w-5 h-5" />
+        שינויי סטטוס ממתינים לאישור ({approvals.length})
+      </div>
+
+      <div className="space-y-2">
+        <AnimatePresence>
+          {approvals.map(approval => (
+            <motion.div
+              key={approval.id}
+              initial={{ opacity: 0, y: -5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, height: 0 }}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-white dark:bg-gray-800 rounded-md px-3 py-2 text-sm"
+            >
+              <div className="text-gray-700 dark:text-gray-300">
+                <span className="font-medium">{approval.lead_name}</span>
+                {' - '}
+                {approval.from_status || 'ללא סטטוס'} ← <span className="font-medium">{approval.to_status}</span>
+                {approval.requested_by_name && (
+                  <span className="text-gray-500 dark:text-gray-400"> (ביקש/ה: {approval.requested_by_name})</span>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleReview(approval, 'approve')}
+                  disabled={reviewingId === approval.id}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                  אישור
+                </button>
+                <button
+                  onClick={() => handleReview(approval, 'reject')}
+                  disabled={reviewingId === approval.id}
+                  className="flex items-center gap-1 px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                  דחייה
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
+
+export default StatusApprovalsPanel;
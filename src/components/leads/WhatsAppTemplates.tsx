@@ -2,12 +2,17 @@ import React from 'react';
 import { MessageSquare, Send, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuthStore } from '../../store/authStore';
+import { useDoNotContactStore } from '../../store/doNotContactStore';
+import { useLeadStore } from '../../store/leadStore';
+import { toWhatsAppNumber } from '../../utils/phone';
+import toast from 'react-hot-toast';
 
 interface WhatsAppTemplatesProps {
   isOpen: boolean;
   onClose: () => void;
   leadName: string;
   phoneNumber: string;
+  leadId?: string; // the message is checked and recorded on the lead by the server
 }
 
 const defaultTemplates = [
@@ -64,7 +69,9 @@ const defaultTemplates = [
   }
 ];
 
-const WhatsAppTemplates: React.FC<WhatsAppTemplatesProps> = ({ isOpen, onClose, leadName, phoneNumber }) => {
+const WhatsAppTemplates: React.FC<WhatsAppTemplatesProps> = ({ isOpen, onClose, leadName, phoneNumber, leadId }) => {
+  const { checkContact } = useDoNotContactStore();
+  const { contactLead } = useLeadStore();
   const { user, clientConfig } = useAuthStore();
   const [customMessage, setCustomMessage] = React.useState('');
 
@@ -98,27 +105,18 @@ const WhatsAppTemplates: React.FC<WhatsAppTemplatesProps> = ({ isOpen, onClose,
       message = template.message(leadName);
     }
 
-    // Format phone number for WhatsApp
-    let formattedPhone = phoneNumber.replace(/\D/g, ''); // Remove all non-digits
-    
-    // Handle Israeli phone numbers
-    if (formattedPhone.startsWith('972')) {
-      // Already has country code
-      formattedPhone = formattedPhone;
-    } else if (formattedPhone.startsWith('0')) {
-      // Remove leading 0 and add Israel country code
-      formattedPhone = '972' + formattedPhone.substring(1);
-    } else if (formattedPhone.length === 9) {
-      // 9 digits without leading 0 - add Israel country code
-      formattedPhone = '972' + formattedPhone;
-    } else if (formattedPhone.length === 10 && formattedPhone.startsWith('5')) {
-      // 10 digits starting with 5 (mobile) - add country code
-      formattedPhone = '972' + formattedPhone;
-    } else {
-      // Default case - add Israel country code
-      formattedPhone = '972' + formattedPhone;
+    // Format phone number for WhatsApp - landlines and invalid numbers cannot receive messages
+    const { number: formattedPhone, error: phoneError } = toWhatsAppNumber(phoneNumber);
+    if (!formattedPhone) {
+      toast.error(phoneError);
+      return;
     }
 
+    const allowed = leadId
+      ? await contactLead(leadId, 'whatsapp', `נשלחה הודעת WhatsApp: ${message.length > 200 ? `${message.slice(0, 200)}...` : message}`)
+      : await checkContact('whatsapp', { phone: phoneNumber });
+    if (!allowed) return;
+
     // Encode the message
     const encodedMessage = encodeURIComponent(message);
     const whatsappUrl = `https://web.whatsapp.com/send?phone=${formattedPhone}&text=${encodedMessage}`;
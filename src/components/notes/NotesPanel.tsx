@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Reply, Pencil, Trash2, Send, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { useNoteStore, Note, NoteThread, NoteParentType, MentionableUser } from '../../store/noteStore';
+import { useAuthStore } from '../../store/authStore';
+
+interface NotesPanelProps {
+  parentType: NoteParentType;
+  parentId: string | number;
+  onChange?: () => void; // a note was added, edited or deleted (lead timeline reload)
+}
+
+interface NoteComposerProps {
+  users: MentionableUser[];
+  initialValue?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+// Longest names first, so a name that starts another name does not cut it
+const mentionPattern = (users: MentionableUser[]) => {
+  const names = users
+    .map(user => user.name)
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return names.length > 0 ? new RegExp(`(@(?:${names.join('|')}))`, 'g') : null;
+};
+
+// Note text with the @mentions highlighted
+const NoteBody: React.FC<{ body: string; users: MentionableUser[] }> = ({ body, users }) => {
+  const pattern = mentionPattern(users);
+  const parts = pattern ? body.split(pattern) : [body];
+  return (
+    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <span key={index} className="text-blue-600 dark:text-blue-400 font-medium">{part}</span>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </p>
+  );
+};
+
+// Text box with @mention suggestions - typing "@" and the start of a name lists the matching users
+const NoteComposer: React.FC<NoteComposerProps> = ({ users, initialValue = '', placeholder, submitLabel, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : users.filter(user => user.name.toLowerCase().startsWith(mentionQuery.toLowerCase())).slice(0, 6);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(/(?:^|\s)@([^@\n]{0,30})$/);
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const start = value.slice(0, caret).lastIndexOf('@');
+    const next = `${value.slice(0, start)}@${user.name} ${value.slice(caret)}`;
+    setValue(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      const position = start + user.name.length + 2;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!value.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      if (await onSubmit(value.trim())) setValue('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={2}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setValue(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            handleSubmit();
+          } else if (e.key === 'Escape' && mentionQuery !== null) {
+            e.stopPropagation();
+            setMentionQuery(null);
+          } else if (e.key === 'Enter' && suggestions.length > 0) {
+            e.preventDefault();
+            insertMention(suggestions[0]);
+          }
+        }}
+        className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-3 py-2 text-sm"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-56 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(user => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                className="w-full text-right px-3 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end gap-2 mt-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            ביטול
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={!value.trim() || isSaving}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Threaded notes of a lead or customer - every user adds notes, only the author edits or deletes them
+const NotesPanel: React.FC<NotesPanelProps> = ({ parentType, parentId, onChange }) => {
+  const { fetchNotes, fetchMentionable, addNote, updateNote, deleteNote } = useNoteStore();
+  const { user } = useAuthStore();
+  const [threads, setThreads] = useState<NoteThread[]>([]);
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const load = async () => {
+    setThreads(await fetchNotes(parentType, parentId));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAll = async () => {
+      setIsLoading(true);
+      const [items, mentionable] = await Promise.all([
+        fetchNotes(parentType, parentId),
+        fetchMentionable(parentType, parentId)
+      ]);
+      if (!cancelled) {
+        setThreads(items);
+        setUsers(mentionable);
+        setIsLoading(false);
+      }
+    };
+
+    loadAll();
+    return () => {
+      cancelled = true;
+    };
+  }, [parentType, parentId, fetchNotes, fetchMentionable]);
+
+  const afterChange = async () => {
+    await load();
+    onChange?.();
+  };
+
+  const handleAdd = async (body: string, replyToId?: number) => {
+    const note = await addNote(parentType, parentId, body, replyToId);
+    if (!note) return false;
+    setReplyingTo(null);
+    await afterChange();
+    return true;
+  };
+
+  const handleEdit = async (note: Note, body: string) => {
+    const updated = await updateNote(parentType, parentId, note.id, body);
+    if (!updated) return false;
+    setEditingId(null);
+    await afterChange();
+    return true;
+  };
+
+  const handleDelete = async (note: Note) => {
+    if (!window.confirm('למחוק את ההערה?')) return;
+    if (await deleteNote(parentType, parentId, note.id)) await afterChange();
+  };
+
+  const isAuthor = (note: Note) => note.author_id !== null && Number(note.author_id) === Number(user?.id);
+
+  const renderNote = (note: Note, thread: NoteThread) => (
+    <div key={note.id} className="flex-1 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          <span className="font-medium text-gray-700 dark:text-gray-200">{note.author_name || 'משתמש שנמחק'}</span>
+          {' · '}
+          {format(new Date(note.created_at), 'dd/MM/yyyy HH:mm', { locale: he })}
+          {note.edited_at && ' · נערכה'}
+        </p>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setReplyingTo(replyingTo === thread.id ? null : thread.id)}
+            className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+            title="תגובה"
+          >
+            <Reply className="w-4 h-4" />
+          </button>
+          {isAuthor(note) && (
+            <>
+              <button
+                type="button"
+                onClick={() => setEditingId(note.id)}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                title="עריכה"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              {!(note.id === thread.id && thread.replies.length > 0) && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(note)}
+                  className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="מחיקה"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {editingId === note.id ? (
+        <div className="mt-1">
+          <NoteComposer
+            users={users}
+            initialValue={note.body}
+            placeholder="עריכת ההערה"
+            submitLabel="שמור"
+            onSubmit={(body) => handleEdit(note, body)}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      ) : (
+        <div className="mt-1">
+          <NoteBody body={note.body} users={users} />
+        </div>
+      )}
+    </div>
+  );
+
+  const noteCount = threads.reduce((count, thread) => count + 1 + thread.replies.length, 0);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2 mb-3">
+        <MessageSquare className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">הערות צוות</h3>
+        {noteCount > 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">({noteCount})</span>
+        )}
+      </div>
+
+      <NoteComposer
+        users={users}
+        placeholder="הוסף הערה... (@ לאזכור חבר צוות, Ctrl+Enter לשליחה)"
+        submitLabel="הוסף הערה"
+        onSubmit={(body) => handleAdd(body)}
+      />
+
+      {threads.length === 0 ? (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+          {isLoading ? 'טוען...' : 'אין הערות'}
+        </div>
+      ) : (
+        <ul className="space-y-3 mt-4">
+          {threads.map(thread => (
+            <li
+              key={thread.id}
+              className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700"
+            >
+              {renderNote(thread, thread)}
+
+              {thread.replies.length > 0 && (
+                <div className="mt-3 mr-4 pr-3 border-r-2 border-gray-200 dark:border-gray-700 space-y-3">
+                  {thread.replies.map(reply => renderNote(reply, thread))}
+                </div>
+              )}
+
+              {replyingTo === thread.id && (
+                <div className="mt-3 mr-4">
+                  <NoteComposer
+                    users={users}
+                    placeholder="כתוב תגובה..."
+                    submitLabel="הגב"
+                    onSubmit={(body) => handleAdd(body, thread.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NotesPanel;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, Users, UserCheck, CheckSquare, Calendar } from 'lucide-react';
+import { useSearchStore, SearchEntity, SearchResult, MIN_SEARCH_LENGTH } from '../../store/searchStore';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const groupOrder: SearchEntity[] = ['lead', 'customer', 'task', 'event'];
+
+const groupTitles: Record<SearchEntity, string> = {
+  lead: 'לידים',
+  customer: 'לקוחות',
+  task: 'משימות',
+  event: 'אירועים ותזכורות'
+};
+
+const groupIcons: Record<SearchEntity, React.ElementType> = {
+  lead: Users,
+  customer: UserCheck,
+  task: CheckSquare,
+  event: Calendar
+};
+
+const eventTypes: Record<string, string> = {
+  reminder: 'תזכורת',
+  meeting: 'פגישה',
+  task: 'משימה'
+};
+
+// Where a result opens - the entity's page filtered to the record
+const resultPath = (result: SearchResult) => {
+  const search = encodeURIComponent(result.title);
+  switch (result.type) {
+    case 'lead':
+      return `/leads?search=${search}`;
+    case 'customer':
+      return `/customers?search=${search}`;
+    case 'task':
+      return `/tasks?search=${search}`;
+    case 'event':
+      return '/calendar';
+  }
+};
+
+// Search box over leads, customers, tasks and events (Ctrl+K) - results come grouped and ranked from the server
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose }) => {
+  const navigate = useNavigate();
+  const { query, groups, isSearching, error, search, clear } = useSearchStore();
+  const [input, setInput] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setInput(query);
+      setActiveIndex(0);
+      setTimeout(() => inputRef.current?.select(), 0);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timeout = setTimeout(() => search(input), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input, isOpen, search]);
+
+  const results = groups ? groupOrder.flatMap(type => groups[type] || []) : [];
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [groups]);
+
+  const openResult = (result: SearchResult) => {
+    navigate(resultPath(result));
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      event.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const term = input.trim();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-start justify-center p-4 pt-24">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black bg-opacity-25"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="relative w-full max-w-xl rounded-lg bg-white dark:bg-gray-800 shadow-xl overflow-hidden"
+            >
+              <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+                <Search className="w-5 h-5 text-gray-400" />
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="חיפוש לידים, לקוחות, משימות ואירועים - שם, טלפון או טקסט"
+                  className="flex-1 py-4 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none"
+                />
+                {isSearching && (
+                  <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                )}
+              </div>
+
+              <div className="max-h-[60vh] overflow-y-auto py-2">
+                {term.length < MIN_SEARCH_LENGTH ? (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                    הקלד לפחות {MIN_SEARCH_LENGTH} תווים
+                  </p>
+                ) : error ? (
+                  <p className="px-4 py-6 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+                ) : groups && results.length === 0 && !isSearching ? (
+                  <p className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                    לא נמצאו תוצאות עבור "{term}"
+                  </p>
+                ) : groups && groupOrder.filter(type => groups[type]?.length > 0).map(type => {
+                  const Icon = groupIcons[type];
+                  return (
+                    <div key={type} className="py-1">
+                      <p className="px-4 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400">{groupTitles[type]}</p>
+                      {groups[type].map(result => {
+                        const index = results.indexOf(result);
+                        return (
+                          <button
+                            key={`${type}-${result.id}`}
+                            onClick={() => openResult(result)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`w-full text-right px-4 py-2 flex items-center gap-3 ${
+                              index === activeIndex
+                                ? 'bg-blue-50 dark:bg-blue-900/20'
+                                : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                            }`}
+                          >
+                            <Icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-gray-900 dark:text-white truncate">{result.title}</p>
+                              {result.subtitle && (
+                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{result.subtitle}</p>
+                              )}
+                            </div>
+                            {result.status && (
+                              <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 flex-shrink-0">
+                                {type === 'event' ? eventTypes[result.status] || result.status : result.status}
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-400 flex justify-between">
+                <span>↑↓ מעבר · Enter פתיחה · Esc סגירה</span>
+                <button onClick={() => { clear(); setInput(''); }} className="hover:text-gray-600 dark:hover:text-gray-300">
+                  נקה
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { UserMinus, Users, Briefcase, CheckSquare, Calendar, MessageCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  useUserStore,
+  OffboardingPreview,
+  OffboardingDistribution,
+  OffboardingTargetSummary
+} from '../../store/userStore';
+
+interface UserOffboardingDialogProps {
+  userId: string;
+  canChooseSuccessor: boolean; // admins only
+  onClose: () => void;
+}
+
+const distributionLabels: Record<OffboardingDistribution, string> = {
+  even: 'חלוקה שווה - כל משתמש מקבל מספר דומה של רשומות',
+  least_open: 'לפי עומס - לידים פתוחים עוברים למי שיש לו הכי מעט לידים פתוחים'
+};
+
+// Preview what a departing user owns, split it between other users and deactivate the account
+const UserOffboardingDialog: React.FC<UserOffboardingDialogProps> = ({ userId, canChooseSuccessor, onClose }) => {
+  const { fetchOffboardingPreview, offboardUser, isLoading } = useUserStore();
+  const [preview, setPreview] = useState<OffboardingPreview | null>(null);
+  const [targetIds, setTargetIds] = useState<number[]>([]);
+  const [distribution, setDistribution] = useState<OffboardingDistribution>('even');
+  const [successorManagerId, setSuccessorManagerId] = useState<string>('');
+  const [split, setSplit] = useState<OffboardingTargetSummary[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    fetchOffboardingPreview(userId).then(setPreview);
+  }, [userId, fetchOffboardingPreview]);
+
+  // The split shown is only valid for the choices it was made with
+  useEffect(() => {
+    setSplit(null);
+  }, [targetIds, distribution]);
+
+  if (!preview) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+        <div className="bg-white p-6 rounded-lg flex items-center gap-2 text-gray-600">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          טוען את הרשומות של המשתמש...
+        </div>
+      </div>
+    );
+  }
+
+  const { counts } = preview;
+  const isManager = preview.user.role === 'manager';
+  const managers = preview.candidates.filter(candidate => candidate.role === 'manager');
+  const nameOf = (id: number) => preview.candidates.find(candidate => candidate.id === id)?.name || `#${id}`;
+
+  const toggleTarget = (id: number) => {
+    setTargetIds(current => (current.includes(id) ? current.filter(item => item !== id) : [...current, id]));
+  };
+
+  const buildRequest = (dryRun: boolean) => ({
+    targetUserIds: targetIds,
+    distribution,
+    successorManagerId: successorManagerId ? Number(successorManagerId) : null,
+    dryRun
+  });
+
+  const handlePreviewSplit = async () => {
+    setIsPreviewing(true);
+    const result = await offboardUser(userId, buildRequest(true));
+    setIsPreviewing(false);
+    if (result) setSplit(result.distribution);
+  };
+
+  const handleOffboard = async () => {
+    if (!window.confirm(`להעביר את כל הרשומות של ${preview.user.name} ולהשבית את המשתמש?`)) return;
+
+    const result = await offboardUser(userId, buildRequest(false));
+    if (!result) return;
+
+    if (result.whatsappConnection === 'moved') {
+      toast.success('חיבור הווטסאפ הועבר למנהל המחליף');
+    } else if (result.whatsappConnection === 'deactivated') {
+      toast('חיבור הווטסאפ של המשתמש הושבת');
+    }
+    onClose();
+  };
+
+  const summaryItems = [
+    { label: 'לידים', count: counts.leads, icon: Users },
+    { label: 'לקוחות', count: counts.customers, icon: Briefcase },
+    { label: 'משימות', count: counts.tasks, icon: CheckSquare },
+    { label: 'אירועים', count: counts.events, icon: Calendar }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <UserMinus className="w-5 h-5 text-red-600" />
+          העברת תיק והשבתת {preview.user.name}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          כל הרשומות יועברו בפעולה אחת למשתמשים שנבחרו, ולאחר מכן המשתמש יושבת ויתנתק מכל המכשירים.
+          משימות ואירועים של ליד עוברים יחד עם הליד.
+        </p>
+
+        {/* What the user owns */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+          {summaryItems.map(({ label, count, icon: Icon }) => (
+            <div key={label} className="p-3 rounded-lg bg-gray-50 border border-gray-200 text-center">
+              <Icon className="w-5 h-5 mx-auto text-gray-500 mb-1" />
+              <div className="text-2xl font-bold text-gray-900">{count}</div>
+              <div className="text-xs text-gray-600">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        {isManager && (counts.agents > 0 || preview.whatsappConnection) && (
+          <div className="mb-4 p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-yellow-800 space-y-1">
+            {counts.agents > 0 && (
+              <p>
+                <Users className="w-4 h-4 inline ml-1" />
+                {counts.agents} נציגים בצוות: {preview.agents.map(agent => agent.name).join(', ')}
+              </p>
+            )}
+            {preview.whatsappConnection && (
+              <p>
+                <MessageCircle className="w-4 h-4 inline ml-1" />
+                חיבור ווטסאפ פעיל ({preview.whatsappConnection.wa_phone_number_id}) - יועבר למנהל המחליף, או יושבת אם לא נבחר מנהל
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Who takes over */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            העבר ל- *
+          </label>
+          {preview.candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">אין משתמשים פעילים שיכולים לקבל את הרשומות</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-48 overflow-y-auto p-1">
+              {preview.candidates.map(candidate => (
+                <label
+                  key={candidate.id}
+                  className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer ${
+                    targetIds.includes(candidate.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={targetIds.includes(candidate.id)}
+                    onChange={() => toggleTarget(candidate.id)}
+                    className="rounded border-gray-300 text-blue-600"
+                  />
+                  <span className="text-sm text-gray-900">{candidate.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {candidate.role === 'manager' ? 'מנהל' : candidate.role === 'admin' ? 'אדמין' : 'נציג'}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {targetIds.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              אופן החלוקה
+            </label>
+            <div className="space-y-2">
+              {(Object.keys(distributionLabels) as OffboardingDistribution[]).map(option => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="distribution"
+                    checked={distribution === option}
+                    onChange={() => setDistribution(option)}
+                    className="text-blue-600"
+                  />
+                  {distributionLabels[option]}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {canChooseSuccessor && isManager && (counts.agents > 0 || preview.whatsappConnection) && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              מנהל מחליף (צוות וחיבור ווטסאפ)
+            </label>
+            <select
+              value={successorManagerId}
+              onChange={(e) => setSuccessorManagerId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">ללא - הנציגים יישארו ללא מנהל פעיל</option>
+              {managers.map(manager => (
+                <option key={manager.id} value={manager.id}>{manager.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {split && (
+          <div className="mb-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-600 border-b border-gray-200">
+                  <th className="text-right py-2">משתמש</th>
+                  <th className="py-2">לידים</th>
+                  <th className="py-2">לקוחות</th>
+                  <th className="py-2">משימות</th>
+                  <th className="py-2">אירועים</th>
+                </tr>
+              </thead>
+              <tbody>
+                {split.map(row => (
+                  <tr key={row.userId} className="border-b border-gray-100 text-center">
+                    <td className="text-right py-2 text-gray-900">{nameOf(row.userId)}</td>
+                    <td className="py-2">{row.leads}</td>
+                    <td className="py-2">{row.customers}</td>
+                    <td className="py-2">{row.tasks}</td>
+                    <td className="py-2">{row.events}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={handlePreviewSplit}
+            disabled={targetIds.length === 0 || isPreviewing}
+            className="flex-1 border border-blue-600 text-blue-600 py-2 px-4 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPreviewing ? 'מחשב...' : 'הצג חלוקה'}
+          </button>
+          <button
+            type="button"
+            onClick={handleOffboard}
+            disabled={targetIds.length === 0 || isLoading}
+            className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'מעביר...' : 'העבר והשבת משתמש'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 bg-gray-300 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-400"
+          >
+            ביטול
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserOffboardingDialog;
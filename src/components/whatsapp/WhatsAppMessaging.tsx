@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Send, MessageSquare, CheckCircle, XCircle, Clock, Loader2, Users } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useWhatsAppStore, useWhatsAppMessaging, useWhatsAppPermissions } from '../../store/whatsappStore';
+import { useLeadStore } from '../../store/leadStore';
 
 interface WhatsAppMessagingProps {
   selectedPhoneNumbers?: string[];
@@ -19,12 +20,21 @@ export const WhatsAppMessaging: React.FC<WhatsAppMessagingProps> = ({
 }) => {
   const { canSend, isManager, isAgent } = useWhatsAppPermissions();
   const { isConnected, messages, clearMessages } = useWhatsAppStore();
-  const { sendWhatsAppMessage, isLoading, error } = useWhatsAppMessaging();
+  const { sendWhatsAppMessage, sendSegmentMessage, isLoading, error } = useWhatsAppMessaging();
+  const { segments, fetchSegments } = useLeadStore();
 
   const [message, setMessage] = useState('');
   const [phoneNumbers, setPhoneNumbers] = useState<string[]>(selectedPhoneNumbers);
   const [customPhoneNumbers, setCustomPhoneNumbers] = useState('');
   const [showMessageHistory, setShowMessageHistory] = useState(false);
+  const [segmentId, setSegmentId] = useState(''); // שליחה ללידים בסגמנט שמור
+
+  useEffect(() => {
+    fetchSegments();
+  }, [fetchSegments]);
+
+  const selectedSegment = segments.find(segment => String(segment.id) === segmentId);
+  const recipientCount = phoneNumbers.length + (selectedSegment?.lead_count || 0);
 
   // עדכון מספרי הטלפון כאשר selectedPhoneNumbers משתנה
   useEffect(() => {
@@ -55,12 +65,16 @@ export const WhatsAppMessaging: React.FC<WhatsAppMessagingProps> = ({
   };
 
   const handleSendMessage = async () => {
-    if (!message.trim() || phoneNumbers.length === 0) {
+    if (!message.trim() || recipientCount === 0) {
       return;
     }
 
     try {
-      await sendWhatsAppMessage(phoneNumbers, message);
+      if (selectedSegment) {
+        await sendSegmentMessage(selectedSegment.id, message, phoneNumbers);
+      } else {
+        await sendWhatsAppMessage(phoneNumbers, message);
+      }
       setMessage('');
       onMessageSent?.();
     } catch (err) {
@@ -144,6 +158,27 @@ export const WhatsAppMessaging: React.FC<WhatsAppMessagingProps> = ({
         )}
       </AnimatePresence>
 
+      {/* סגמנט שמור */}
+      {segments.length > 0 && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            שליחה לסגמנט
+          </label>
+          <select
+            value={segmentId}
+            onChange={(e) => setSegmentId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="">ללא סגמנט</option>
+            {segments.map(segment => (
+              <option key={segment.id} value={segment.id}>
+                {segment.name} ({segment.lead_count} לידים)
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* מספרי טלפון */}
       <div className="mb-4">
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -211,7 +246,7 @@ export const WhatsAppMessaging: React.FC<WhatsAppMessagingProps> = ({
             {message.length} תווים
           </span>
           <span className="text-xs text-gray-500">
-            {phoneNumbers.length} נמענים
+            {recipientCount} נמענים
           </span>
         </div>
       </div>
@@ -240,7 +275,7 @@ export const WhatsAppMessaging: React.FC<WhatsAppMessagingProps> = ({
 
         <button
           onClick={handleSendMessage}
-          disabled={!isConnected || !message.trim() || phoneNumbers.length === 0 || isLoading}
+          disabled={!isConnected || !message.trim() || recipientCount === 0 || isLoading}
           className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           {isLoading ? (
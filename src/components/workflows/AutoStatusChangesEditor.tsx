@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Trash2, Eye } from 'lucide-react';
+import { format } from 'date-fns';
+import { AutoStatusChange } from '../../types/client';
+import { useSystemClientStore, LeadStatus, AutoStatusChangePreview } from '../../store/systemClientStore';
+
+interface AutoStatusChangesEditorProps {
+  clientId?: string; // dry runs need a saved client
+  leadStatuses: LeadStatus[];
+  value: AutoStatusChange[];
+  onChange: (value: AutoStatusChange[]) => void;
+}
+
+const inputClassName = 'w-full rounded border border-gray-300 dark:border-gray-600 px-3 py-2 text-sm md:text-base';
+
+const toHours = (value: string) => (value === '' ? undefined : Math.max(1, Math.round(Number(value))));
+
+// Admin editor for time-based status rules (applied hourly by the server) with a dry run per rule
+const AutoStatusChangesEditor: React.FC<AutoStatusChangesEditorProps> = ({ clientId, leadStatuses, value, onChange }) => {
+  const { previewAutoStatusChange } = useSystemClientStore();
+  const [previews, setPreviews] = useState<Record<string, AutoStatusChangePreview>>({});
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+
+  const updateRule = (index: number, updates: Partial<AutoStatusChange>) => {
+    const rule = value[index];
+    setPreviews(prev => {
+      const next = { ...prev };
+      delete next[rule.id];
+      return next;
+    });
+    onChange(value.map((current, i) => (i === index ? { ...current, ...updates } : current)));
+  };
+
+  const updateConditions = (index: number, updates: Partial<AutoStatusChange['conditions']>) => {
+    updateRule(index, { conditions: { ...value[index].conditions, ...updates } });
+  };
+
+  const addRule = () => {
+    onChange([
+      ...value,
+      {
+        id: `rule_${Date.now().toString(36)}`,
+        name: 'כלל חדש',
+        fromStatus: leadStatuses[0]?.name || '',
+        toStatus: leadStatuses[1]?.name || '',
+        conditions: { timeElapsed: 24 },
+        enabled: false
+      }
+    ]);
+  };
+
+  const handlePreview = async (rule: AutoStatusChange) => {
+    if (!clientId) return;
+    setPreviewingId(rule.id);
+    try {
+      const preview = await previewAutoStatusChange(clientId, rule);
+      setPreviews(prev => ({ ...prev, [rule.id]: preview }));
+    } catch {
+      // Error handling is done in the store function
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+            שינויי סטטוס אוטומטיים
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            הכללים רצים כל שעה. מומלץ לבדוק כלל לפני הפעלתו - הבדיקה מתבססת על הסטטוסים השמורים.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addRule}
+          className="bg-blue-600 text-white px-4 py-3 sm:px-3 sm:py-1 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+        >
+          + הוסף כלל
+        </button>
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">לא הוגדרו כללים</p>
+      )}
+
+      <div className="space-y-3 md:space-y-4">
+        {value.map((rule, index) => {
+          const preview = previews[rule.id];
+          return (
+            <div key={index} className="p-3 md:p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">שם הכלל</label>
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(index, { name: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">מסטטוס</label>
+                  <select
+                    value={rule.fromStatus}
+                    onChange={(e) => updateRule(index, { fromStatus: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {leadStatuses.map(status => (
+                      <option key={status.id} value={status.name}>{status.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">לסטטוס</label>
+                  <select
+                    value={rule.toStatus}
+                    onChange={(e) => updateRule(index, { toStatus: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {leadStatuses.map(status => (
+                      <option key={status.id} value={status.name}>{status.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">שעות בסטטוס</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.conditions.timeElapsed ?? ''}
+                    onChange={(e) => updateConditions(index, { timeElapsed: toHours(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">שעות ללא פעילות</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.conditions.noActivity ?? ''}
+                    onChange={(e) => updateConditions(index, { noActivity: toHours(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">רק לידים ממקור</label>
+                  <input
+                    type="text"
+                    placeholder="כל המקורות"
+                    value={rule.conditions.fieldValue?.field === 'source' ? String(rule.conditions.fieldValue.value ?? '') : ''}
+                    onChange={(e) => updateConditions(index, {
+                      fieldValue: e.target.value ? { field: 'source', value: e.target.value } : undefined
+                    })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                      className="mr-2 w-4 h-4"
+                    />
+                    <span className="text-sm font-medium">פעיל</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => handlePreview(rule)}
+                    disabled={!clientId || previewingId === rule.id}
+                    title={clientId ? undefined : 'יש לשמור את הלקוח לפני בדיקת כללים'}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-blue-700 dark:text-blue-300 bg-blue-100 dark:bg-blue-900/20 hover:bg-blue-200 dark:hover:bg-blue-900/40 disabled:opacity-50"
+                  >
+                    <Eye className="w-4 h-4" />
+                    {previewingId === rule.id ? 'בודק...' : 'אילו לידים יושפעו?'}
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 p-2 rounded-lg transition-colors w-fit"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+
+              {preview && (
+                <div className="rounded-lg border border-blue-200 dark:border-blue-800 bg-white dark:bg-gray-800 p-3 text-sm">
+                  <p className="font-medium text-gray-900 dark:text-white mb-2">
+                    {preview.total === 0
+                      ? 'אין כרגע לידים שהכלל יעביר'
+                      : `${preview.total} לידים יועברו מ"${preview.fromStatus}" ל"${preview.toStatus}"`}
+                  </p>
+                  {preview.leads.length > 0 && (
+                    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                      {preview.leads.map(lead => (
+                        <li key={lead.id} className="py-1 flex justify-between gap-3 text-gray-700 dark:text-gray-300">
+                          <span>{lead.name}{lead.assigned_to_name ? ` · ${lead.assigned_to_name}` : ''}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            בסטטוס מ-{format(new Date(lead.status_since), 'dd/MM/yyyy HH:mm')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {preview.total > preview.leads.length && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                      מוצגים {preview.leads.length} הלידים הוותיקים ביותר
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AutoStatusChangesEditor;
@@ -18,6 +18,18 @@ export const useAI = (lead: Lead) => {
     try {
       await aiService.initialize();
       const result = await aiService.analyzeLead(lead);
+
+      // The score is calculated and stored by the server - the local analysis only supplies recommendations
+      if (lead.score !== undefined) {
+        return {
+          sentiment: lead.sentiment || 'neutral',
+          classification: lead.scoreClassification || result.classification,
+          potentialScore: lead.score,
+          recommendedActions: result.recommendedActions,
+          nextStatus: lead.predictedStatus || null
+        };
+      }
+
       const nextStatus = await aiService.predictNextStatus(lead);
       return {
         sentiment: result.sentiment as 'positive' | 'negative' | 'neutral',
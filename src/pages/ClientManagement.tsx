@@ -3,9 +3,12 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Building2, Edit2, Trash2, Save, X, 
   Settings, CheckSquare, Zap, MessageSquare, 
-  Users, Calendar, BarChart3, FileText, Bell, Phone, Shield
+  Users, Calendar, BarChart3, FileText, Bell, Phone, Shield, ListPlus, RefreshCw
 } from 'lucide-react';
 import { useSystemClientStore, SystemClient, LeadStatus, CustomerStatus, PaymentStatus } from '../store/systemClientStore';
+import { AutoStatusChange, CustomFieldSchemas } from '../types/client';
+import CustomFieldsEditor from '../components/customFields/CustomFieldsEditor';
+import AutoStatusChangesEditor from '../components/workflows/AutoStatusChangesEditor';
 import { useUserStore } from '../store/userStore';
 import toast from 'react-hot-toast';
 
@@ -167,7 +170,7 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
   client
 }) => {
   const { addClient, updateClient } = useSystemClientStore();
-  const [activeTab, setActiveTab] = useState<'general' | 'statuses' | 'features' | 'templates'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'statuses' | 'features' | 'templates' | 'customFields' | 'autoStatusChanges'>('general');
   
   const [formData, setFormData] = useState<Partial<SystemClient>>({
     name: '',
@@ -185,6 +188,8 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
   // New state for features and templates
   const [features, setFeatures] = useState<Record<string, any>>({});
   const [messageTemplates, setMessageTemplates] = useState<any[]>([]);
+  const [customFields, setCustomFields] = useState<CustomFieldSchemas>({});
+  const [autoStatusChanges, setAutoStatusChanges] = useState<AutoStatusChange[]>([]);
 
   React.useEffect(() => {
     if (client) {
@@ -244,6 +249,8 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
       
       setFeatures(normalizedFeatures);
       setMessageTemplates(client.messageTemplates || []);
+      setCustomFields(client.customFields || {});
+      setAutoStatusChanges(client.autoStatusChanges || []);
       
       console.log('Form data set to:', {
         name: client.name || '',
@@ -279,6 +286,8 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
       setFeatures(defaultFeatures);
       
       setMessageTemplates([]);
+      setCustomFields({});
+      setAutoStatusChanges([]);
     }
   }, [client, isOpen]);
 
@@ -394,7 +403,9 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
       customerStatuses,
       paymentStatuses,
       features,
-      messageTemplates
+      messageTemplates,
+      customFields,
+      autoStatusChanges
     };
 
 
@@ -479,7 +490,9 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
     { id: 'general', label: 'כללי', icon: Settings },
     { id: 'statuses', label: 'סטטוסים', icon: CheckSquare },
     { id: 'features', label: 'תכונות', icon: Zap },
-    { id: 'templates', label: 'תבנית הודעות', icon: MessageSquare }
+    { id: 'templates', label: 'תבנית הודעות', icon: MessageSquare },
+    { id: 'customFields', label: 'שדות מותאמים', icon: ListPlus },
+    { id: 'autoStatusChanges', label: 'שינויי סטטוס', icon: RefreshCw }
   ];
 
   return (
@@ -903,6 +916,19 @@ const ClientConfigDialog: React.FC<ClientConfigDialogProps> = ({
                         )}
 
 
+                        {activeTab === 'customFields' && (
+                          <CustomFieldsEditor value={customFields} onChange={setCustomFields} />
+                        )}
+
+                        {activeTab === 'autoStatusChanges' && (
+                          <AutoStatusChangesEditor
+                            clientId={client?.id || undefined}
+                            leadStatuses={leadStatuses}
+                            value={autoStatusChanges}
+                            onChange={setAutoStatusChanges}
+                          />
+                        )}
+
                       </motion.div>
                     </AnimatePresence>
 
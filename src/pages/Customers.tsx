@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { 
   Search, Edit2, Trash2, Download, Phone, ChevronDown, ChevronUp, Mail, Calendar, Users
 } from 'lucide-react';
@@ -10,10 +11,12 @@ import CustomerEditDialog from '../components/customers/CustomerEditDialog';
 import toast from 'react-hot-toast';
 import { Customer } from '../types';
 import * as XLSX from 'xlsx';
+import { toWhatsAppNumber } from '../utils/phone';
 
 const Customers = () => {
   const { customers, fetchCustomers, updateCustomer, deleteCustomer } = useCustomerStore();
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('search') || '');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [expandedCustomers, setExpandedCustomers] = useState<Set<string>>(new Set());
@@ -58,6 +61,12 @@ const Customers = () => {
     fetchCustomers();
   }, [fetchCustomers]);
 
+  // Opened from the global search (?search=)
+  React.useEffect(() => {
+    const term = searchParams.get('search');
+    if (term !== null) setSearchTerm(term);
+  }, [searchParams]);
+
   // Refresh data when page becomes visible
   React.useEffect(() => {
     const handleVisibilityChange = () => {
@@ -80,10 +89,12 @@ const Customers = () => {
 
   const handlePhoneClick = (phone: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const cleanPhone = phone.replace(/\D/g, '');
-    const israelPhone = cleanPhone.startsWith('972') ? cleanPhone : `972${cleanPhone.substring(1)}`;
-    const phoneUrl = `https://wa.me/${israelPhone}`;
-    window.open(phoneUrl, '_blank');
+    const { number, error } = toWhatsAppNumber(phone);
+    if (!number) {
+      toast.error(error);
+      return;
+    }
+    window.open(`https://wa.me/${number}`, '_blank');
   };
 
   const handleEdit = (customer: Customer) => {
@@ -2,6 +2,8 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Phone, PhoneCall, PhoneOff, History, Clock, Trash2, Search, Star, StarOff } from 'lucide-react';
 import { useDialerStore, dialerUtils } from '../store/dialerStore';
 import { useAuthStore } from '../store/authStore';
+import { useDoNotContactStore } from '../store/doNotContactStore';
+import { telHref } from '../utils/phone';
 
 const Dialer: React.FC = () => {
   const [phoneNumber, setPhoneNumber] = useState('');
@@ -27,6 +29,7 @@ const Dialer: React.FC = () => {
     loadUserData,
     saveUserData
   } = useDialerStore();
+  const { checkContact } = useDoNotContactStore();
 
   const handleNumberInput = (number: string) => {
     if (phoneNumber.length < 15) { // Limit phone number length
@@ -44,6 +47,7 @@ const Dialer: React.FC = () => {
 
   const handleCall = useCallback(async () => {
     if (!phoneNumber.trim()) return;
+    if (!await checkContact('dialer', { phone: phoneNumber })) return;
 
     setIsCalling(true);
     
@@ -78,7 +82,7 @@ const Dialer: React.FC = () => {
       console.error('Error initiating call:', error);
       setIsCalling(false);
     }
-  }, [phoneNumber, getContactByPhone, addCallToHistory, addToRecent, callHistory, updateCallDuration]);
+  }, [phoneNumber, checkContact, getContactByPhone, addCallToHistory, addToRecent, callHistory, updateCallDuration]);
 
   // Handle keyboard input
   useEffect(() => {
@@ -352,14 +356,12 @@ const Dialer: React.FC = () => {
                           <Phone className="h-3 w-3 md:h-4 md:w-4" />
                         </button>
                         <button
-                          onClick={() => {
-                            // Format phone number for dialer (remove non-digits)
-                            const formattedPhone = call.phoneNumber.replace(/\D/g, '');
-                            const phoneUrl = `tel:${formattedPhone}`;
-                            
+                          onClick={async () => {
+                            if (!await checkContact('dialer', { phone: call.phoneNumber })) return;
+
                             // Create clickable link for all devices (mobile and desktop)
                             const link = document.createElement('a');
-                            link.href = phoneUrl;
+                            link.href = telHref(call.phoneNumber);
                             link.setAttribute('class', 'phone-link');
                             link.click();
                           }}
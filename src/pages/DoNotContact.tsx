@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, Plus, Search, Trash2, ShieldAlert } from 'lucide-react';
+import { format } from 'date-fns';
+import { useDoNotContactStore, DncChannel, DncEntry } from '../store/doNotContactStore';
+
+const SOURCE_LABELS: Record<DncEntry['source'], string> = {
+  status: 'סטטוס ליד',
+  stop_reply: 'תגובת STOP',
+  manual: 'ידני'
+};
+
+const CHANNEL_LABELS: Record<DncChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'אימייל',
+  dialer: 'חיוג',
+  import: 'ייבוא',
+  inbound: 'טופס באתר'
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const formatDate = (value: string) => format(new Date(value), 'dd/MM/yyyy HH:mm');
+
+// Do-not-contact registry for managers - manual entries, removals and the blocked attempts report
+const DoNotContact: React.FC = () => {
+  const {
+    entries,
+    total,
+    removalStatuses,
+    blockedReport,
+    isLoading,
+    fetchEntries,
+    addEntry,
+    deleteEntry,
+    fetchBlockedAttempts
+  } = useDoNotContactStore();
+  const [search, setSearch] = useState('');
+  const [newEntry, setNewEntry] = useState({ phone: '', email: '', reason: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [reportDays, setReportDays] = useState(30);
+  const [reportChannel, setReportChannel] = useState<DncChannel | ''>('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchEntries(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search, fetchEntries]);
+
+  useEffect(() => {
+    fetchBlockedAttempts(reportDays, reportChannel || undefined);
+  }, [reportDays, reportChannel, fetchBlockedAttempts]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newEntry.phone.trim() && !newEntry.email.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addEntry({
+        phone: newEntry.phone.trim() || undefined,
+        email: newEntry.email.trim() || undefined,
+        reason: newEntry.reason.trim() || undefined
+      });
+      setNewEntry({ phone: '', email: '', reason: '' });
+    } catch {
+      // Error handling is done in the store function
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (entry: DncEntry) => {
+    if (window.confirm(`להסיר את ${entry.value} מהרשימה? ניתן יהיה לפנות אליו שוב.`)) {
+      deleteEntry(entry.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Ban className="w-6 h-6 text-red-500" />
+          רשימת "אל תפנה"
+        </h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          לא נשלחות הודעות WhatsApp ואימייל, לא מתבצעות שיחות ולא מיובאים לידים לאנשי הקשר ברשימה.
+          לידים בסטטוס {removalStatuses.map(status => `"${status}"`).join(', ') || '"הסרה מהמאגר"'} ותגובות STOP ב-WhatsApp נוספים אוטומטית.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+        <h2 className="font-medium text-gray-900 dark:text-white mb-3">הוספה ידנית</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="tel"
+            placeholder="טלפון"
+            value={newEntry.phone}
+            onChange={(e) => setNewEntry({ ...newEntry, phone: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="email"
+            placeholder="אימייל"
+            value={newEntry.email}
+            onChange={(e) => setNewEntry({ ...newEntry, email: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="סיבה (לא חובה)"
+            value={newEntry.reason}
+            onChange={(e) => setNewEntry({ ...newEntry, reason: e.target.value })}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={isSaving || (!newEntry.phone.trim() && !newEntry.email.trim())}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5" />
+            הוסף לרשימה
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h2 className="font-medium text-gray-900 dark:text-white">אנשי קשר ברשימה ({total})</h2>
+          <div className="relative md:w-72">
+            <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="חיפוש טלפון, אימייל או סיבה..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`${inputClassName} pr-9`}
+            />
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{isLoading ? 'טוען...' : 'הרשימה ריקה'}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-right text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 px-2 font-medium">איש קשר</th>
+                  <th className="py-2 px-2 font-medium">מקור</th>
+                  <th className="py-2 px-2 font-medium">סיבה</th>
+                  <th className="py-2 px-2 font-medium">ליד</th>
+                  <th className="py-2 px-2 font-medium">נוסף</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {entries.map(entry => (
+                  <tr key={entry.id} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 px-2 font-medium" dir="ltr">{entry.value}</td>
+                    <td className="py-2 px-2">{SOURCE_LABELS[entry.source]}</td>
+                    <td className="py-2 px-2">{entry.reason || '-'}</td>
+                    <td className="py-2 px-2">{entry.lead_name || '-'}</td>
+                    <td className="py-2 px-2 whitespace-nowrap">
+                      {formatDate(entry.created_at)}
+                      {entry.created_by_name && <span className="text-xs text-gray-500 dark:text-gray-400"> · {entry.created_by_name}</span>}
+                    </td>
+                    <td className="py-2 px-2 text-left">
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 p-2 rounded-lg transition-colors"
+                        title="הסר מהרשימה"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h2 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-orange-500" />
+            פניות שנחסמו ({blockedReport?.total ?? 0})
+          </h2>
+          <div className="flex gap-2">
+            <select
+              value={reportChannel}
+              onChange={(e) => setReportChannel(e.target.value as DncChannel | '')}
+              className={inputClassName}
+            >
+              <option value="">כל הערוצים</option>
+              {(Object.keys(CHANNEL_LABELS) as DncChannel[]).map(channel => (
+                <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+              ))}
+            </select>
+            <select
+              value={reportDays}
+              onChange={(e) => setReportDays(Number(e.target.value))}
+              className={inputClassName}
+            >
+              <option value={7}>7 ימים</option>
+              <option value={30}>30 ימים</option>
+              <option value={90}>90 ימים</option>
+              <option value={365}>שנה</option>
+            </select>
+          </div>
+        </div>
+
+        {blockedReport && (
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CHANNEL_LABELS) as DncChannel[]).map(channel => (
+              <span key={channel} className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                {CHANNEL_LABELS[channel]}: {blockedReport.byChannel[channel] || 0}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {!blockedReport || blockedReport.attempts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">לא נחסמו פניות בתקופה</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-right text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 px-2 font-medium">מועד</th>
+                  <th className="py-2 px-2 font-medium">ערוץ</th>
+                  <th className="py-2 px-2 font-medium">איש קשר</th>
+                  <th className="py-2 px-2 font-medium">ליד</th>
+                  <th className="py-2 px-2 font-medium">משתמש</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {blockedReport.attempts.map(attempt => (
+                  <tr key={attempt.id} className="text-gray-700 dark:text-gray-300">
+                    <td className="py-2 px-2 whitespace-nowrap">{formatDate(attempt.created_at)}</td>
+                    <td className="py-2 px-2">{CHANNEL_LABELS[attempt.channel]}</td>
+                    <td className="py-2 px-2" dir="ltr">{attempt.value}</td>
+                    <td className="py-2 px-2">{attempt.lead_name || '-'}</td>
+                    <td className="py-2 px-2">{attempt.user_name || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DoNotContact;
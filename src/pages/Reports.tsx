@@ -13,6 +13,7 @@ import {
   Target,
   Activity,
   Info,
+  Clock,
 } from 'lucide-react';
 import {
   Chart as ChartJS,
@@ -29,6 +30,7 @@ import {
 import { Bar, Doughnut } from 'react-chartjs-2';
 import { useReportsStore } from '../store/reportsStore';
 import useAuthStore from '../store/authStore';
+import { useLeadStore } from '../store/leadStore';
 import { format, parseISO } from 'date-fns';
 import { he } from 'date-fns/locale';
 
@@ -45,6 +47,12 @@ ChartJS.register(
   PointElement
 );
 
+// Time to first touch - minutes under an hour, hours above
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '-';
+  return minutes < 60 ? `${Math.round(minutes)} דק'` : `${(minutes / 60).toFixed(1)} שע'`;
+};
+
 const Reports = () => {
   const { 
     reportsData, 
@@ -54,18 +62,24 @@ const Reports = () => {
     clearError 
   } = useReportsStore();
   const { user } = useAuthStore();
+  const { segments, fetchSegments } = useLeadStore();
   
   const [selectedPeriod, setSelectedPeriod] = useState('30');
+  const [selectedSegment, setSelectedSegment] = useState(''); // lead figures of a saved segment only
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  // Load reports data on component mount and when period changes
   useEffect(() => {
-    fetchReportsData(selectedPeriod);
-  }, [selectedPeriod, fetchReportsData]);
+    fetchSegments();
+  }, [fetchSegments]);
+
+  // Load reports data on component mount and when period or segment changes
+  useEffect(() => {
+    fetchReportsData(selectedPeriod, selectedSegment || undefined);
+  }, [selectedPeriod, selectedSegment, fetchReportsData]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await fetchReportsData(selectedPeriod);
+    await fetchReportsData(selectedPeriod, selectedSegment || undefined);
     setIsRefreshing(false);
   };
 
@@ -119,6 +133,27 @@ const Reports = () => {
     ],
   };
 
+  // Prepare data for lead score distribution (scores are calculated by the server)
+  const scoreDistribution = reportsData?.charts.scoreDistribution || [];
+  const scoreData = {
+    labels: scoreDistribution.map(item => item.classification),
+    datasets: [
+      {
+        label: 'לידים לפי ציון',
+        data: scoreDistribution.map(item => item.count),
+        backgroundColor: [
+          '#ef4444', // Red for ליד חם
+          '#f59e0b', // Amber for ליד מבטיח
+          '#3b82f6', // Blue for ליד בינוני
+          '#6b7280', // Gray for ליד קר
+          '#d1d5db', // Light gray for לא דורג
+        ],
+        borderRadius: 8,
+        borderSkipped: false,
+      },
+    ],
+  };
+
   // Prepare data for payment status distribution
   const paymentStatusData = {
     labels: reportsData?.charts.paymentStatusDistribution.map(item => item.payment_status) || [],
@@ -155,6 +190,9 @@ const Reports = () => {
   };
 
 
+  const sla = reportsData?.sla;
+  const slaRate = sla && sla.met + sla.breached > 0 ? (sla.met / (sla.met + sla.breached)) * 100 : null;
+
   const stats = reportsData ? [
     {
       title: 'סה״כ לידים',
@@ -253,6 +291,24 @@ const Reports = () => {
             <option value="90">90 ימים אחרונים</option>
           </select>
           
+          {segments.length > 0 && (
+            <select
+              value={selectedSegment}
+              onChange={(e) => {
+                setSelectedSegment(e.target.value);
+                clearError();
+              }}
+              className="flex-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 md:px-4 md:py-3 text-sm md:text-lg font-medium focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">כל הלידים</option>
+              {segments.map(segment => (
+                <option key={segment.id} value={segment.id}>
+                  {segment.name} ({segment.lead_count})
+                </option>
+              ))}
+            </select>
+          )}
+          
           <button
             onClick={handleRefresh}
             disabled={isRefreshing}
@@ -402,6 +458,147 @@ const Reports = () => {
             </div>
           </div>
 
+          {/* Lead Score Distribution */}
+          {scoreDistribution.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl md:rounded-2xl p-4 md:p-6 shadow-lg border border-gray-100 dark:border-gray-700 lg:col-span-2">
+              <div className="flex items-center gap-2 md:gap-3 mb-4 md:mb-6">
+                <div className="p-2 bg-red-100 dark:bg-red-900/20 rounded-lg">
+                  <TrendingUp className="w-4 h-4 md:w-5 md:h-5 text-red-600 dark:text-red-400" />
+                </div>
+                <h3 className="text-lg md:text-xl font-bold text-gray-900 dark:text-white">
+                  לידים לפי ציון
+                  {reportsData.summary.averageScore !== undefined && (
+                    <span className="mr-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+                      (ציון ממוצע: {reportsData.summary.averageScore})
+                    </span>
+                  )}
+                </h3>
+              </div>
+              <div className="h-64 md:h-80">
+                <Bar
+                  data={scoreData}
+                  options={{
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    plugins: {
+                      legend: {
+                        display: false,
+                      },
+                      tooltip: {
+                        callbacks: {
+                          label: (context) => {
+                            const avgScore = scoreDistribution[context.dataIndex]?.avg_score;
+                            return `${context.parsed.y} לידים${avgScore !== null && avgScore !== undefined ? ` (ציון ממוצע ${avgScore})` : ''}`;
+                          }
+                        }
+                      }
+                    },
+                    scales: {
+                      y: {
+                        beginAtZero: true,
+                        grid: {
+                          color: 'rgba(0, 0, 0, 0.1)'
+                        }
+                      },
+                      x: {
+                        grid: {
+                          display: false
+                        }
+                      }
+                    },
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* First-touch SLA */}
+          {sla && (sla.tracked > 0 || sla.avgFirstTouchMinutes !== null) && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl md:rounded-2xl p-4 md:p-6 shadow-lg border border-gray-100 dark:border-gray-700 lg:col-span-2">
+              <div className="flex items-center gap-2 md:gap-3 mb-4 md:mb-6">
+                <div className="p-2 bg-orange-100 dark:bg-orange-900/20 rounded-lg">
+                  <Clock className="w-4 h-4 md:w-5 md:h-5 text-orange-600 dark:text-orange-400" />
+                </div>
+                <h3 className="text-lg md:text-xl font-bold text-gray-900 dark:text-white">
+                  זמני מענה ללידים (SLA)
+                  {user?.role !== 'agent' && (
+                    <span className="mr-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+                      ({user?.role === 'admin' ? 'כל הלידים' : 'כל הצוות'})
+                    </span>
+                  )}
+                </h3>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+                {[
+                  { label: 'זמן ממוצע למגע ראשון', value: formatMinutes(sla.avgFirstTouchMinutes) },
+                  { label: 'עמידה ביעד', value: slaRate !== null ? `${slaRate.toFixed(1)}%` : '-' },
+                  { label: 'חריגות', value: sla.breached.toLocaleString(), alert: sla.breached > 0 },
+                  { label: 'ממתינים למגע ראשון', value: sla.pending.toLocaleString() }
+                ].map(item => (
+                  <div key={item.label} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3 md:p-4">
+                    <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400">{item.label}</p>
+                    <p className={`text-xl md:text-2xl font-bold ${item.alert ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                      {item.value}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {sla.byAgent.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">לפי נציג</h4>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-right text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                          <th className="py-2 font-medium">נציג</th>
+                          <th className="py-2 font-medium">לידים</th>
+                          <th className="py-2 font-medium">חריגות</th>
+                          <th className="py-2 font-medium">זמן ממוצע</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sla.byAgent.map(agent => (
+                          <tr key={agent.assigned_to} className="border-b border-gray-100 dark:border-gray-700 text-gray-900 dark:text-white">
+                            <td className="py-2">{agent.agent_name}</td>
+                            <td className="py-2">{agent.tracked}</td>
+                            <td className={`py-2 ${agent.breached > 0 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>{agent.breached}</td>
+                            <td className="py-2">{formatMinutes(agent.avg_first_touch_minutes)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {sla.recentBreaches.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">חריגות אחרונות</h4>
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                      {sla.recentBreaches.map(breach => (
+                        <li key={breach.id} className="py-2 flex items-center justify-between gap-3">
+                          <div>
+                            <p className="font-medium text-gray-900 dark:text-white">{breach.name}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {breach.agent_name || 'ללא נציג'}{breach.sla_rule ? ` · ${breach.sla_rule}` : ''}
+                            </p>
+                          </div>
+                          <div className="text-xs text-left text-gray-600 dark:text-gray-400">
+                            <p>יעד: {format(new Date(breach.sla_due_at), 'dd/MM HH:mm')}</p>
+                            <p className={breach.first_touch_at ? '' : 'text-red-600 dark:text-red-400'}>
+                              {breach.first_touch_at ? `טופל: ${format(new Date(breach.first_touch_at), 'dd/MM HH:mm')}` : 'טרם טופל'}
+                            </p>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Payment Status Distribution */}
           <div
             className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg border border-gray-100 dark:border-gray-700 lg:col-span-2"
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
 import { 
   Plus, Search, Calendar, Filter, ArrowUpDown, User, Edit2, Trash2,
@@ -12,6 +13,7 @@ import { useTaskStore, Task, TaskFormData } from '../store/taskStore';
 import { useUserStore } from '../store/userStore';
 import { useAuthStore } from '../store/authStore';
 import toast from 'react-hot-toast';
+import AttachmentsPanel from '../components/attachments/AttachmentsPanel';
 
 type TaskStatus = 'ממתין' | 'בביצוע' | 'הושלם';
 type SortField = 'dueDate' | 'priority' | 'title';
@@ -24,7 +26,8 @@ const Tasks = () => {
   const { user: currentUser } = useAuthStore();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'הכל'>('הכל');
   const [priorityFilter, setPriorityFilter] = useState<string | 'הכל'>('הכל');
   const [sortField, setSortField] = useState<SortField>('dueDate');
@@ -64,6 +67,12 @@ const Tasks = () => {
     fetchUsers();
   }, [fetchTasks, fetchUsers]);
 
+  // Opened from the global search (?search=)
+  React.useEffect(() => {
+    const term = searchParams.get('search');
+    if (term !== null) setSearchQuery(term);
+  }, [searchParams]);
+
 
   const filteredTasks = tasks
     .filter(task => {
@@ -815,6 +824,8 @@ const TaskFormDialog: React.FC<TaskFormDialogProps> = ({
                   </select>
                 </div>
 
+                {task && <AttachmentsPanel parentType="task" parentId={task.id} />}
+
                 <div className="flex justify-end gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                   <button
                     type="button"
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Users, Plus, Edit, Trash2, Search, Filter, UserCheck, UserX, Building2, Archive } from 'lucide-react';
+import { Users, Plus, Edit, Trash2, Search, Filter, UserCheck, UserX, UserMinus, Building2, Archive } from 'lucide-react';
 import { useUserStore } from '../store/userStore';
 import { useClientStore } from '../store/clientStore';
 import { useAuthStore } from '../store/authStore';
@@ -8,6 +8,7 @@ import useCustomerStore from '../store/customerStore';
 import { useSystemClientStore } from '../store/systemClientStore';
 import { User, Customer } from '../types';
 import { WhatsAppConnection } from '../components/whatsapp';
+import UserOffboardingDialog from '../components/users/UserOffboardingDialog';
 
 type UserRole = 'admin' | 'manager' | 'agent';
 
@@ -23,6 +24,7 @@ const UserManagement: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
   const [showDeletedUsers, setShowDeletedUsers] = useState(false);
+  const [offboardingUserId, setOffboardingUserId] = useState<string | null>(null);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -289,7 +291,7 @@ const UserManagement: React.FC = () => {
   };
 
   const handleDelete = (userId: string) => {
-    if (window.confirm('האם אתה בטוח שברצונך למחוק את המשתמש?')) {
+    if (window.confirm('האם אתה בטוח שברצונך למחוק את המשתמש?\nהלידים שלו יישארו ללא נציג והמשימות והאירועים שלו יימחקו - כדי להעביר אותם למשתמשים אחרים השתמש ב"העברת תיק והשבתה".')) {
       deleteUser(userId);
     }
   };
@@ -501,6 +503,16 @@ const UserManagement: React.FC = () => {
                       {user.status === 'active' ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
                     </button>
                   )}
+                  {(currentUser?.role === 'admin' || 
+                    (currentUser?.role === 'manager' && user.role === 'agent' && user.managerId === currentUser.id)) && (
+                    <button
+                      onClick={() => setOffboardingUserId(user.id)}
+                      className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded-lg min-w-[32px] min-h-[32px] flex items-center justify-center"
+                      title="העברת תיק והשבתה"
+                    >
+                      <UserMinus className="w-4 h-4" />
+                    </button>
+                  )}
                   {(currentUser?.role === 'admin' || 
                     (currentUser?.role === 'manager' && user.role === 'agent' && user.managerId === currentUser.id)) && (
                     <button
@@ -630,6 +642,14 @@ const UserManagement: React.FC = () => {
         </div>
       )}
 
+      {offboardingUserId && (
+        <UserOffboardingDialog
+          userId={offboardingUserId}
+          canChooseSuccessor={currentUser?.role === 'admin'}
+          onClose={() => setOffboardingUserId(null)}
+        />
+      )}
+
       {/* Add/Edit User Dialog */}
       {isDialogOpen && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -12,6 +12,7 @@ import UserManagement from '../pages/UserManagement';
 import ClientManagement from '../pages/ClientManagement';
 import Reminders from '../pages/Reminders';
 import Dialer from '../pages/Dialer';
+import DoNotContact from '../pages/DoNotContact';
 import PrivateRoute from '../components/PrivateRoute';
 import { useUserStore } from '../store/userStore';
 import useAuthStore from '../store/authStore';
@@ -91,6 +92,15 @@ const AppRoutes = () => {
         } 
       />
       
+      <Route 
+        path="/do-not-contact" 
+        element={
+          <PrivateRoute allowedRoles={['admin', 'manager']}>
+            <DoNotContact />
+          </PrivateRoute>
+        } 
+      />
+      
       <Route 
         path="/clients" 
         element={
@@ -9,6 +9,13 @@ export interface ReportsSummary {
   totalRevenue: number;
   conversionRate: number;
   weekGrowth: number;
+  averageScore?: number;
+}
+
+export interface ScoreDistribution {
+  classification: string;
+  count: number;
+  avg_score: number | null;
 }
 
 export interface StatusDistribution {
@@ -33,6 +40,30 @@ export interface RecentActivity {
   leads_count: number;
 }
 
+// First-touch SLA figures - scoped to the team for managers and to the client for admins
+export interface SlaReport {
+  tracked: number;
+  met: number;
+  breached: number;
+  pending: number;
+  avgFirstTouchMinutes: number | null;
+  byAgent: Array<{
+    assigned_to: number;
+    agent_name: string;
+    tracked: number;
+    breached: number;
+    avg_first_touch_minutes: number | null;
+  }>;
+  recentBreaches: Array<{
+    id: number;
+    name: string;
+    agent_name: string | null;
+    sla_rule: string | null;
+    sla_due_at: string;
+    first_touch_at: string | null;
+  }>;
+}
+
 export interface ReportsData {
   summary: ReportsSummary;
   charts: {
@@ -44,7 +75,9 @@ export interface ReportsData {
       count: number;
       total_amount: number;
     }>;
+    scoreDistribution?: ScoreDistribution[];
   };
+  sla?: SlaReport;
 }
 
 export interface LeadAnalytics {
@@ -71,6 +104,10 @@ export interface LeadAnalytics {
     count: number;
     avg_days_in_status: number;
   }>;
+  scoreAnalysis?: Array<ScoreDistribution & {
+    converted_leads: number;
+    conversion_rate: number;
+  }>;
 }
 
 export interface CustomerAnalytics {
@@ -123,9 +160,10 @@ class ReportsService {
     return response.json();
   }
 
-  async getDashboardReports(period: string = '30'): Promise<ReportsData> {
+  // segmentId narrows the lead figures to a saved segment
+  async getDashboardReports(period: string = '30', segmentId?: string): Promise<ReportsData> {
     try {
-      const response = await this.makeRequest(`/reports/dashboard?period=${period}`);
+      const response = await this.makeRequest(`/reports/dashboard?period=${period}${segmentId ? `&segment=${segmentId}` : ''}`);
       return response;
     } catch (error) {
       console.error('Error fetching dashboard reports:', error);
@@ -133,9 +171,9 @@ class ReportsService {
     }
   }
 
-  async getLeadAnalytics(period: string = '30'): Promise<LeadAnalytics> {
+  async getLeadAnalytics(period: string = '30', segmentId?: string): Promise<LeadAnalytics> {
     try {
-      const response = await this.makeRequest(`/reports/leads/analytics?period=${period}`);
+      const response = await this.makeRequest(`/reports/leads/analytics?period=${period}${segmentId ? `&segment=${segmentId}` : ''}`);
       return response;
     } catch (error) {
       console.error('Error fetching lead analytics:', error);
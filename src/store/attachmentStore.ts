@@ -0,0 +1,147 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from '../config/api.js';
+import toast from 'react-hot-toast';
+
+export type AttachmentParentType = 'lead' | 'customer' | 'task';
+
+export interface Attachment {
+  id: number;
+  parent_type: AttachmentParentType;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  uploaded_by: number | null;
+  uploaded_by_name?: string | null;
+  created_at: string;
+}
+
+// Must match the server limit
+export const MAX_ATTACHMENT_MB = 15;
+
+interface AttachmentStore {
+  fetchAttachments: (parentType: AttachmentParentType, parentId: string | number) => Promise<Attachment[]>;
+  uploadAttachment: (parentType: AttachmentParentType, parentId: string | number, file: File) => Promise<Attachment | null>;
+  downloadAttachment: (parentType: AttachmentParentType, parentId: string | number, attachment: Attachment) => Promise<void>;
+  deleteAttachment: (parentType: AttachmentParentType, parentId: string | number, attachmentId: number) => Promise<boolean>;
+}
+
+// Content-Type is left out - uploads are multipart and downloads are binary
+const getAuthHeaders = (): Record<string, string> | null => {
+  const sessionToken = localStorage.getItem('session_token');
+  const accessToken = localStorage.getItem('access_token');
+  if (!sessionToken || !accessToken) return null;
+
+  return {
+    'X-Session-Token': sessionToken,
+    'Authorization': `Bearer ${accessToken}`
+  };
+};
+
+const attachmentsUrl = (parentType: AttachmentParentType, parentId: string | number) =>
+  `${API_BASE_URL}/${parentType}s/${parentId}/attachments`;
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.details?.join(', ') || errorData.error || fallback;
+};
+
+export const useAttachmentStore = create<AttachmentStore>()(() => ({
+  fetchAttachments: async (parentType, parentId) => {
+    const headers = getAuthHeaders();
+    if (!headers) return [];
+
+    try {
+      const response = await fetch(attachmentsUrl(parentType, parentId), { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בטעינת הקבצים'));
+      }
+
+      const data = await response.json();
+      return data.attachments || [];
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת הקבצים');
+      return [];
+    }
+  },
+
+  uploadAttachment: async (parentType, parentId, file) => {
+    const headers = getAuthHeaders();
+    if (!headers) return null;
+
+    if (file.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+      toast.error(`ניתן לצרף קבצים עד ${MAX_ATTACHMENT_MB}MB`);
+      return null;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(attachmentsUrl(parentType, parentId), {
+        method: 'POST',
+        headers,
+        body: formData
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בהעלאת הקובץ'));
+      }
+
+      const data = await response.json();
+      toast.success(`הקובץ ${file.name} הועלה`);
+      return data.attachment;
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהעלאת הקובץ');
+      return null;
+    }
+  },
+
+  downloadAttachment: async (parentType, parentId, attachment) => {
+    const headers = getAuthHeaders();
+    if (!headers) return;
+
+    try {
+      const response = await fetch(`${attachmentsUrl(parentType, parentId)}/${attachment.id}/download`, { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בהורדת הקובץ'));
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = attachment.file_name;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהורדת הקובץ');
+    }
+  },
+
+  deleteAttachment: async (parentType, parentId, attachmentId) => {
+    const headers = getAuthHeaders();
+    if (!headers) return false;
+
+    try {
+      const response = await fetch(`${attachmentsUrl(parentType, parentId)}/${attachmentId}`, {
+        method: 'DELETE',
+        headers
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה במחיקת הקובץ'));
+      }
+
+      toast.success('הקובץ נמחק');
+      return true;
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה במחיקת הקובץ');
+      return false;
+    }
+  }
+}));
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { RateLimiter } from '../utils/rateLimiter';
 import { API_BASE_URL } from '../config/api.js';
+import { CustomFieldSchemas } from '../types/client';
 
 // Create a single instance of RateLimiter for auth attempts
 const loginRateLimiter = new RateLimiter(5, 300000); // 5 attempts per 5 minutes
@@ -78,6 +79,7 @@ interface ClientConfig {
   payment_statuses: any[];
   features: Record<string, any>;
   message_templates: any[];
+  custom_fields?: CustomFieldSchemas;
 }
 
 interface AuthStore {
@@ -0,0 +1,220 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from '../config/api.js';
+import toast from 'react-hot-toast';
+import { Attachment } from './attachmentStore';
+
+export type ChargeStatus = 'pending' | 'paid' | 'partial' | 'failed';
+
+export interface CustomerCharge {
+  id: number;
+  customer_id: number;
+  source: 'installment' | 'service';
+  description: string;
+  due_date: string; // YYYY-MM-DD
+  amount: number;
+  paid_amount: number;
+  receipted_amount: number; // part of paid_amount a receipt was issued for
+  status: ChargeStatus;
+  paid_at: string | null;
+  failure_reason: string | null;
+  is_overdue: boolean;
+}
+
+export interface ChargeTotals {
+  amount: number;
+  paid: number;
+  overdue: number;
+}
+
+export interface ChargeSchedule {
+  charges: CustomerCharge[];
+  totals: ChargeTotals;
+  today: string;
+}
+
+export interface ChargePaymentUpdate {
+  status: ChargeStatus;
+  paidAmount?: number;
+  paidAt?: string;
+  failureReason?: string;
+}
+
+export type BillingDocumentType = 'invoice' | 'receipt';
+
+export interface BillingDocument {
+  id: number;
+  document_type: BillingDocumentType;
+  document_number: number;
+  net_amount: number;
+  vat_amount: number;
+  total_amount: number;
+  attachment: Attachment | null; // the PDF
+  issued_by_name?: string | null;
+  issued_at: string;
+}
+
+export interface BillingDocumentRequest {
+  type: BillingDocumentType;
+  serviceIds?: number[]; // invoices - all the customer's services when left out
+  chargeIds?: number[]; // receipts
+}
+
+interface BillingStore {
+  fetchSchedule: (customerId: string | number) => Promise<ChargeSchedule | null>;
+  generateSchedule: (customerId: string | number) => Promise<boolean>;
+  updateCharge: (customerId: string | number, chargeId: number, update: ChargePaymentUpdate) => Promise<CustomerCharge | null>;
+  fetchDocuments: (customerId: string | number) => Promise<BillingDocument[]>;
+  issueDocument: (customerId: string | number, request: BillingDocumentRequest) => Promise<BillingDocument | null>;
+  renderDocumentPdf: (customerId: string | number, documentId: number) => Promise<BillingDocument | null>;
+}
+
+const getHeaders = (): Record<string, string> | null => {
+  const sessionToken = localStorage.getItem('session_token');
+  const accessToken = localStorage.getItem('access_token');
+  if (!sessionToken || !accessToken) return null;
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Session-Token': sessionToken,
+    'Authorization': `Bearer ${accessToken}`
+  };
+};
+
+const chargesUrl = (customerId: string | number) => `${API_BASE_URL}/customers/${customerId}/charges`;
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.details?.join(', ') || errorData.error || fallback;
+};
+
+export const useBillingStore = create<BillingStore>()(() => ({
+  fetchSchedule: async (customerId) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(chargesUrl(customerId), { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בטעינת לוח החיובים'));
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching charges:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת לוח החיובים');
+      return null;
+    }
+  },
+
+  generateSchedule: async (customerId) => {
+    const headers = getHeaders();
+    if (!headers) return false;
+
+    try {
+      const response = await fetch(`${chargesUrl(customerId)}/generate`, {
+        method: 'POST',
+        headers
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה ביצירת לוח החיובים'));
+      }
+
+      toast.success('לוח החיובים עודכן');
+      return true;
+    } catch (error) {
+      console.error('Error generating charges:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה ביצירת לוח החיובים');
+      return false;
+    }
+  },
+
+  updateCharge: async (customerId, chargeId, update) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(`${chargesUrl(customerId)}/${chargeId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify(update)
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בעדכון החיוב'));
+      }
+
+      const data = await response.json();
+      toast.success('החיוב עודכן');
+      return data.charge;
+    } catch (error) {
+      console.error('Error updating charge:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בעדכון החיוב');
+      return null;
+    }
+  },
+
+  fetchDocuments: async (customerId) => {
+    const headers = getHeaders();
+    if (!headers) return [];
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/customers/${customerId}/documents`, { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בטעינת החשבוניות והקבלות'));
+      }
+
+      const data = await response.json();
+      return data.documents || [];
+    } catch (error) {
+      console.error('Error fetching billing documents:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת החשבוניות והקבלות');
+      return [];
+    }
+  },
+
+  issueDocument: async (customerId, request) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/customers/${customerId}/documents`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(request)
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בהפקת המסמך'));
+      }
+
+      const data = await response.json();
+      toast.success(request.type === 'invoice' ? 'החשבונית הופקה' : 'הקבלה הופקה');
+      return data.document;
+    } catch (error) {
+      console.error('Error issuing billing document:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהפקת המסמך');
+      return null;
+    }
+  },
+
+  renderDocumentPdf: async (customerId, documentId) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/customers/${customerId}/documents/${documentId}/pdf`, {
+        method: 'POST',
+        headers
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה ביצירת קובץ המסמך'));
+      }
+
+      const data = await response.json();
+      toast.success('קובץ המסמך נוצר');
+      return data.document;
+    } catch (error) {
+      console.error('Error rendering billing document PDF:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה ביצירת קובץ המסמך');
+      return null;
+    }
+  }
+}));
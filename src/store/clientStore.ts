@@ -100,7 +100,8 @@ export const createDefaultClientConfig = (): Omit<ClientConfiguration, 'id' | 'n
     defaultPaymentStatus: '1',
     autoAssignLeads: false,
     requireCallbackDate: false,
-    enableLeadScoring: true
+    enableLeadScoring: true,
+    duplicateLeadPolicy: 'warn'
   },
   workflows: {
     leadToCustomerStatuses: ['8'], // Only 'עסקה נסגרה' by default
@@ -164,7 +164,7 @@ const useCustomerStore = create<CustomerStore>()(
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה ביצירת הלקוח');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה ביצירת הלקוח');
           }
 
           const newCustomerData = await response.json();
@@ -277,10 +277,18 @@ const useCustomerStore = create<CustomerStore>()(
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה ביצירת הלקוח מהליד');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה ביצירת הלקוח מהליד');
           }
 
-          const newCustomerData = await response.json();
+          // Conversion summary - the customer with its services, payment plan and what moved from the lead
+          const conversion = await response.json();
+          const newCustomerData = {
+            customer: {
+              ...conversion.customer,
+              services: conversion.services,
+              payments: conversion.payment ? [conversion.payment] : []
+            }
+          };
           
           // Add the new customer directly to the store instead of refetching all customers
           const newCustomer = {
@@ -333,7 +341,10 @@ const useCustomerStore = create<CustomerStore>()(
             data: newCustomer
           });
           
-          toast.success('הליד הומר ללקוח בהצלחה');
+          const movedCount = conversion.movedTasks.length + conversion.movedEvents.length;
+          toast.success(movedCount > 0
+            ? `הליד הומר ללקוח - ${conversion.movedTasks.length} משימות ו-${conversion.movedEvents.length} אירועים הועברו ללקוח`
+            : 'הליד הומר ללקוח בהצלחה');
           set({ selectedCustomer: null });
         } catch (error) {
           console.error('Error creating customer from lead:', error);
@@ -367,7 +378,7 @@ const useCustomerStore = create<CustomerStore>()(
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה בעדכון הלקוח');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בעדכון הלקוח');
           }
 
           // Refresh customers list
@@ -2,6 +2,7 @@ import { API_BASE_URL } from '../config/api.js';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useAuthStore } from './authStore';
+import { formatPhone, parsePhone, telHref, toE164 } from '../utils/phone';
 
 export interface CallHistory {
   id: string;
@@ -123,7 +124,8 @@ export const useDialerStore = create<DialerState>()(
       },
       getContactByPhone: (phoneNumber) => {
         const { contacts } = get();
-        return contacts.find((contact) => contact.phoneNumber === phoneNumber);
+        const key = toE164(phoneNumber) || phoneNumber;
+        return contacts.find((contact) => (toE164(contact.phoneNumber) || contact.phoneNumber) === key);
       },
 
       // Favorites
@@ -272,38 +274,15 @@ export const useDialerStore = create<DialerState>()(
 
 // Helper functions for call management
 export const dialerUtils = {
-  formatPhoneNumber: (phoneNumber: string): string => {
-    // Remove all non-digit characters
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    
-    // Format Israeli phone numbers
-    if (cleaned.startsWith('0') && cleaned.length === 10) {
-      return cleaned.replace(/(\d{3})(\d{3})(\d{4})/, '$1-$2-$3');
-    }
-    
-    // Format international numbers
-    if (cleaned.startsWith('972') && cleaned.length === 12) {
-      const localNumber = '0' + cleaned.slice(3);
-      return localNumber.replace(/(\d{3})(\d{3})(\d{4})/, '$1-$2-$3');
-    }
-    
-    return phoneNumber;
-  },
+  formatPhoneNumber: (phoneNumber: string): string => formatPhone(phoneNumber),
 
-  validatePhoneNumber: (phoneNumber: string): boolean => {
-    const cleaned = phoneNumber.replace(/\D/g, '');
-    return cleaned.length >= 7 && cleaned.length <= 15;
-  },
+  validatePhoneNumber: (phoneNumber: string): boolean => parsePhone(phoneNumber) !== null,
 
   initiateCall: (phoneNumber: string): void => {
     if (typeof window !== 'undefined') {
-      // Format phone number for dialer (remove non-digits)
-      const formattedPhone = phoneNumber.replace(/\D/g, '');
-      const phoneUrl = `tel:${formattedPhone}`;
-      
       // Create clickable link for all devices (mobile and desktop)
       const link = document.createElement('a');
-      link.href = phoneUrl;
+      link.href = telHref(phoneNumber);
       link.setAttribute('class', 'phone-link');
       link.click();
     }
@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from '../config/api.js';
+import toast from 'react-hot-toast';
+
+export type DncChannel = 'whatsapp' | 'email' | 'dialer' | 'import' | 'inbound';
+
+export interface DncEntry {
+  id: number;
+  contact_type: 'phone' | 'email';
+  value: string;
+  source: 'status' | 'stop_reply' | 'manual';
+  reason: string | null;
+  lead_id: number | null;
+  lead_name?: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+}
+
+export interface DncBlockedAttempt {
+  id: number;
+  channel: DncChannel;
+  contact_type: 'phone' | 'email';
+  value: string;
+  lead_id: number | null;
+  lead_name?: string | null;
+  user_name?: string | null;
+  created_at: string;
+}
+
+export interface DncBlockedReport {
+  attempts: DncBlockedAttempt[];
+  total: number;
+  byChannel: Partial<Record<DncChannel, number>>;
+  days: number;
+}
+
+interface DoNotContactStore {
+  entries: DncEntry[];
+  total: number;
+  removalStatuses: string[];
+  blockedReport: DncBlockedReport | null;
+  isLoading: boolean;
+
+  fetchEntries: (search?: string) => Promise<void>;
+  addEntry: (entry: { phone?: string; email?: string; reason?: string }) => Promise<void>;
+  deleteEntry: (id: number) => Promise<void>;
+  fetchBlockedAttempts: (days: number, channel?: DncChannel) => Promise<void>;
+  checkContact: (channel: Exclude<DncChannel, 'import' | 'inbound'>, contact: { phone?: string; email?: string; leadId?: string }) => Promise<boolean>;
+}
+
+const getHeaders = (): Record<string, string> | null => {
+  const sessionToken = localStorage.getItem('session_token');
+  const accessToken = localStorage.getItem('access_token');
+  if (!sessionToken || !accessToken) return null;
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Session-Token': sessionToken,
+    'Authorization': `Bearer ${accessToken}`
+  };
+};
+
+export const useDoNotContactStore = create<DoNotContactStore>()((set, get) => ({
+  entries: [],
+  total: 0,
+  removalStatuses: [],
+  blockedReport: null,
+  isLoading: false,
+
+  fetchEntries: async (search = '') => {
+    const headers = getHeaders();
+    if (!headers) return;
+
+    set({ isLoading: true });
+    try {
+      const params = new URLSearchParams({ limit: '200' });
+      if (search) params.set('search', search);
+
+      const response = await fetch(`${API_BASE_URL}/dnc?${params.toString()}`, { headers });
+      if (!response.ok) {
+        throw new Error('שגיאה בטעינת רשימת "אל תפנה"');
+      }
+
+      const data = await response.json();
+      set({ entries: data.entries || [], total: data.total || 0, removalStatuses: data.removal_statuses || [] });
+    } catch (error) {
+      console.error('Error fetching do-not-contact list:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת רשימת "אל תפנה"');
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  addEntry: async (entry) => {
+    try {
+      const headers = getHeaders();
+      if (!headers) {
+        throw new Error('לא נמצא טוקן התחברות');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/dnc`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(entry)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בהוספה לרשימה');
+      }
+
+      await get().fetchEntries();
+      toast.success('נוסף לרשימת "אל תפנה"');
+    } catch (error) {
+      console.error('Error adding do-not-contact entry:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהוספה לרשימה');
+      throw error;
+    }
+  },
+
+  deleteEntry: async (id: number) => {
+    try {
+      const headers = getHeaders();
+      if (!headers) {
+        throw new Error('לא נמצא טוקן התחברות');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/dnc/${id}`, { method: 'DELETE', headers });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'שגיאה בהסרה מהרשימה');
+      }
+
+      set(state => ({ entries: state.entries.filter(entry => entry.id !== id), total: state.total - 1 }));
+      toast.success('הוסר מרשימת "אל תפנה"');
+    } catch (error) {
+      console.error('Error deleting do-not-contact entry:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בהסרה מהרשימה');
+    }
+  },
+
+  fetchBlockedAttempts: async (days: number, channel?: DncChannel) => {
+    const headers = getHeaders();
+    if (!headers) return;
+
+    try {
+      const params = new URLSearchParams({ days: String(days), limit: '100' });
+      if (channel) params.set('channel', channel);
+
+      const response = await fetch(`${API_BASE_URL}/dnc/blocked-attempts?${params.toString()}`, { headers });
+      if (!response.ok) {
+        throw new Error('שגיאה בטעינת הפניות שנחסמו');
+      }
+
+      set({ blockedReport: await response.json() });
+    } catch (error) {
+      console.error('Error fetching blocked contact attempts:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת הפניות שנחסמו');
+    }
+  },
+
+  // Called before contacting from the browser - a failed check does not block the user
+  checkContact: async (channel, contact) => {
+    const headers = getHeaders();
+    if (!headers) return true;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/dnc/check`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ channel, phone: contact.phone, email: contact.email, lead_id: contact.leadId })
+      });
+      if (!response.ok) {
+        throw new Error(`Do-not-contact check failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (!data.allowed) {
+        toast.error(`${data.entry?.value || 'איש הקשר'} ברשימת "אל תפנה" - הפנייה נחסמה`);
+      }
+      return data.allowed;
+    } catch (error) {
+      console.error('Error checking do-not-contact list:', error);
+      return true;
+    }
+  }
+}));
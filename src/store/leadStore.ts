@@ -2,9 +2,237 @@ import { API_BASE_URL } from '../config/api.js';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Lead, LeadFormData } from '../types/lead';
+import { CustomField } from '../types/client';
 import { useAuthStore } from './authStore';
 import toast from 'react-hot-toast';
 
+// Server-side list filters (see GET /api/leads)
+export interface LeadListFilters {
+  q?: string;
+  status?: string[];
+  source?: string[];
+  created_from?: string;
+  created_to?: string;
+  callback_from?: string;
+  callback_to?: string;
+  last_contact_from?: string;
+  last_contact_to?: string;
+  amount_min?: number;
+  amount_max?: number;
+  score_min?: number;
+  score_max?: number;
+  classification?: string[];
+  tag?: string[];
+  segment?: string; // saved segment ID - the other filters override its filters
+  sort?: string;
+  // Custom fields: cf.<key>, cf.<key>.min, cf.<key>.max
+  [customField: `cf.${string}`]: string | undefined;
+}
+
+// Status change waiting for manager approval
+export interface LeadStatusApproval {
+  id: number;
+  lead_id: number;
+  lead_name?: string;
+  requested_by: number | null;
+  requested_by_name?: string;
+  from_status: string | null;
+  to_status: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+}
+
+// Why an automatically assigned lead went to its agent
+export interface LeadAssignmentLogEntry {
+  id: number;
+  lead_id: number;
+  assigned_to: number | null;
+  assigned_to_name?: string;
+  strategy: 'round_robin' | 'least_open' | 'fallback';
+  rule_index: number | null;
+  reason: string;
+  candidates: number[];
+  created_at: string;
+}
+
+// Lead activity timeline returned by GET /leads/:id/timeline (written by the server)
+export type LeadTimelineType = 'status' | 'note' | 'callback' | 'task' | 'edit' | 'message' | 'call';
+
+export interface LeadTimelineEntry {
+  id: number;
+  lead_id: number;
+  type: LeadTimelineType;
+  description: string;
+  actor_id: number | null;
+  actor_name?: string | null;
+  before_values: Record<string, any> | null;
+  after_values: Record<string, any> | null;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+// Client tag vocabulary (GET /lead-tags)
+export interface LeadTag {
+  id: number;
+  name: string;
+  color: string;
+  lead_count?: number;
+}
+
+// Saved lead filters (GET /lead-segments) - lead_count is computed live for the current user
+export interface LeadSegment {
+  id: number;
+  name: string;
+  description: string | null;
+  filters: Record<string, string>;
+  is_shared: boolean;
+  created_by: number | null;
+  created_by_name?: string | null;
+  lead_count: number;
+}
+
+// Import preview returned by POST /leads/import/preview
+export type LeadImportEncoding = 'auto' | 'utf-8' | 'cp1255';
+export type LeadImportMapping = Record<string, string>; // lead field or custom_fields.<key> -> column header
+
+export interface LeadImportRowIssues {
+  rowNumber: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface LeadImportPreview {
+  format: 'csv' | 'excel';
+  encoding: 'utf-8' | 'cp1255' | null;
+  headers: string[];
+  fields: string[];
+  customFields: CustomField[]; // client-defined lead fields (mapped as custom_fields.<id>)
+  detectedMapping: LeadImportMapping;
+  mapping: LeadImportMapping;
+  mappingErrors: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  sample: (LeadImportRowIssues & { values: Record<string, string> })[];
+  rowErrors: LeadImportRowIssues[];
+}
+
+export type LeadExportFormat = 'xlsx' | 'csv';
+
+// Background import job returned by /leads/import/jobs
+export interface LeadImportJob {
+  id: number;
+  filename: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  skipped_count: number;
+  attached_count: number;
+  failed_count: number;
+  row_errors: { rowNumber: number; type: 'failed' | 'skipped'; reason: string }[];
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+// Bulk lead actions - every action is one batch that admins and managers can undo for 30 minutes
+export type LeadBulkAction = 'status' | 'delete' | 'tags' | 'callback' | 'convert';
+
+export interface LeadBulkParams {
+  status?: string;
+  add?: string[];
+  remove?: string[];
+  callbackDate?: string; // YYYY-MM-DD
+  callbackTime?: string; // HH:MM - omitted keeps each lead's time
+}
+
+export interface LeadBulkBatch {
+  id: number;
+  action: LeadBulkAction;
+  params: LeadBulkParams;
+  lead_count: number;
+  performed_by: number | null;
+  performed_by_name?: string | null;
+  undo_until: string;
+  undone_at: string | null;
+  created_at: string;
+}
+
+export interface LeadBulkResult {
+  batch: LeadBulkBatch;
+  successCount: number;
+  unchangedCount: number; // leads that already matched (e.g. already in the status)
+}
+
+// Lead card on the pipeline board (GET /api/leads/pipeline)
+export interface PipelineCard {
+  id: string;
+  name: string;
+  phone: string;
+  status: string;
+  source?: string;
+  potentialValue: number | null;
+  amount: number | null;
+  product?: string;
+  assignedTo?: string;
+  callbackDate?: string;
+  tags: string[];
+  score?: number;
+  scoreClassification?: string;
+}
+
+export interface PipelineStage {
+  status: string;
+  color: string | null;
+  order: number | null;
+  isFinal: boolean;
+  configured: boolean; // false - a status missing from the client's configuration
+  count: number;
+  potentialValue: number;
+  amount: number;
+  leads: PipelineCard[]; // first cards of the column in board order
+  hasMore: boolean;
+}
+
+export interface LeadPipeline {
+  stages: PipelineStage[];
+  totals: { count: number; potentialValue: number; amount: number };
+}
+
+// Where a card was dropped - the neighbouring cards in the target column
+export interface PipelinePlacement {
+  afterLeadId?: string | null;
+  beforeLeadId?: string | null;
+}
+
+// Cards loaded per board column
+const PIPELINE_CARDS_PER_STAGE = 50;
+
+const toPipelineCard = (lead: any): PipelineCard => ({
+  id: lead.id.toString(),
+  name: lead.name,
+  phone: lead.phone,
+  status: lead.status,
+  source: lead.source || undefined,
+  potentialValue: lead.potential_value === null ? null : Number(lead.potential_value),
+  amount: lead.amount === null ? null : Number(lead.amount),
+  product: lead.product || undefined,
+  assignedTo: lead.assigned_to?.toString(),
+  callbackDate: lead.callback_date || undefined,
+  tags: lead.tags || [],
+  score: lead.score ?? undefined,
+  scoreClassification: lead.score_classification || undefined
+});
+
+const bulkActionEndpoints: Record<LeadBulkAction, { path: string; method: 'PATCH' | 'POST' }> = {
+  status: { path: 'bulk-status', method: 'PATCH' },
+  tags: { path: 'bulk-tags', method: 'PATCH' },
+  callback: { path: 'bulk-callback', method: 'PATCH' },
+  delete: { path: 'bulk-delete', method: 'POST' },
+  convert: { path: 'bulk-convert', method: 'POST' }
+};
+
 interface LeadStore {
   leads: Lead[];
   selectedLead: Lead | null;
@@ -17,13 +245,18 @@ interface LeadStore {
   selectedAgentId: string | null;
   isImporting: boolean; // Flag to prevent duplicate notifications during bulk import
   isBulkDeleting: boolean; // Flag to prevent individual notifications during bulk delete
+  filters: LeadListFilters;
+  tags: LeadTag[];
+  segments: LeadSegment[];
+  bulkBatches: LeadBulkBatch[]; // bulk actions that can still be undone (admins and managers)
+  pipeline: LeadPipeline | null;
   
   // API functions
   fetchLeads: (page?: number, pageSize?: number, assignedTo?: string) => Promise<void>;
   addLead: (leadData: LeadFormData, userId: string) => Promise<void>;
   updateLead: (id: string, updates: Partial<LeadFormData>) => Promise<void>;
   deleteLead: (id: string) => Promise<void>;
-  bulkDeleteLeads: (ids: string[]) => Promise<{ deletedCount: number; failedCount: number }>;
+  bulkDeleteLeads: (ids: string[]) => Promise<LeadBulkResult>;
   updateLeadStatus: (id: string, status: string) => Promise<void>;
   bulkAssignLeads: (leadIds: string[], assignedTo: string) => Promise<void>;
   setSelectedLead: (lead: Lead | null) => void;
@@ -31,11 +264,37 @@ interface LeadStore {
   getLeadsByClient: (clientId: string) => Lead[];
   searchLeads: (query: string) => Lead[];
   importFromExcel: (file: File, userId: string) => Promise<void>;
+  previewImport: (file: File, encoding: LeadImportEncoding, mapping?: LeadImportMapping) => Promise<LeadImportPreview>;
+  startImportJob: (file: File, encoding: LeadImportEncoding, mapping: LeadImportMapping) => Promise<LeadImportJob>;
+  fetchImportJob: (jobId: number) => Promise<LeadImportJob>;
+  rerunImportJob: (jobId: number) => Promise<LeadImportJob>;
+  downloadImportErrors: (jobId: number) => Promise<void>;
+  finishImportJob: (job: LeadImportJob) => Promise<void>;
+  exportLeads: (format: LeadExportFormat, columns: string[]) => Promise<void>;
   clearLeads: () => void;
   setCurrentPage: (page: number) => void;
   setPageSize: (size: number) => void;
   updateAvailableStatuses: () => void;
   setSelectedAgentId: (agentId: string | null) => void;
+  setFilters: (filters: LeadListFilters) => void;
+  fetchPendingApprovals: () => Promise<LeadStatusApproval[]>;
+  reviewStatusApproval: (approvalId: number, decision: 'approve' | 'reject', note?: string) => Promise<void>;
+  fetchAssignmentLog: (leadId: string) => Promise<LeadAssignmentLogEntry[]>;
+  fetchLeadTimeline: (leadId: string) => Promise<LeadTimelineEntry[]>;
+  logLeadActivity: (leadId: string, type: 'call' | 'message' | 'note', description: string) => Promise<void>;
+  contactLead: (leadId: string, channel: 'dialer' | 'whatsapp' | 'email', description: string) => Promise<boolean>;
+  fetchLeadTags: () => Promise<void>;
+  saveLeadTag: (tag: { id?: number; name: string; color: string }) => Promise<void>;
+  deleteLeadTag: (id: number) => Promise<void>;
+  bulkUpdateTags: (leadIds: string[], add: string[], remove: string[]) => Promise<void>;
+  runBulkAction: (action: LeadBulkAction, leadIds: string[], params?: LeadBulkParams) => Promise<LeadBulkResult>;
+  fetchBulkBatches: () => Promise<void>;
+  undoBulkBatch: (batchId: number) => Promise<void>;
+  fetchPipeline: (assignedTo?: string) => Promise<void>;
+  moveLeadOnBoard: (leadId: string, status: string, placement: PipelinePlacement) => Promise<void>;
+  fetchSegments: () => Promise<void>;
+  saveSegment: (segment: { name: string; description?: string; is_shared: boolean }, filters: LeadListFilters) => Promise<LeadSegment>;
+  deleteSegment: (id: number) => Promise<void>;
 }
 
 export const useLeadStore = create<LeadStore>()(
@@ -52,6 +311,11 @@ export const useLeadStore = create<LeadStore>()(
       selectedAgentId: null,
       isImporting: false,
       isBulkDeleting: false,
+      filters: {},
+      tags: [],
+      segments: [],
+      bulkBatches: [],
+      pipeline: null,
 
       fetchLeads: async (page = 1, pageSize = 50, assignedTo?: string) => {
         try {
@@ -73,6 +337,12 @@ export const useLeadStore = create<LeadStore>()(
           if (assignedTo) {
             url += `&assigned_to=${assignedTo}`;
           }
+
+          // Add list filters (status, dates, free text, sort)
+          Object.entries(get().filters).forEach(([key, value]) => {
+            if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+            url += `&${key}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`;
+          });
           
           const response = await fetch(url, {
             method: 'GET',
@@ -113,7 +383,11 @@ export const useLeadStore = create<LeadStore>()(
             callbackTime: lead.callback_time,
             lastContactDate: lead.last_contact_date,
             convertedAt: lead.converted_at,
-            conversionValue: lead.conversion_value
+            conversionValue: lead.conversion_value,
+            score: lead.score ?? undefined,
+            scoreClassification: lead.score_classification || undefined,
+            sentiment: lead.sentiment || undefined,
+            predictedStatus: lead.predicted_status || undefined
           })) || [];
 
           set({ 
@@ -160,16 +434,21 @@ export const useLeadStore = create<LeadStore>()(
               notes: leadData.notes || null,
               callback_date: leadData.callbackDate || null,
               callback_time: leadData.callbackTime || null,
-              assigned_to: leadData.assigned_to || userId
+              customFields: leadData.customFields,
+              tags: leadData.tags,
+              // Managers/admins without an explicit agent let the server assign the lead (auto-assignment)
+              assigned_to: leadData.assigned_to || (useAuthStore.getState().user?.role === 'agent' ? userId : undefined)
             })
             
           });
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה ביצירת הליד');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה ביצירת הליד');
           }
 
+          const result = await response.json();
+
           // Refresh leads list with current filters
           const state = get();
           // For admin users, if no specific agent is selected, show their own leads by default
@@ -188,7 +467,13 @@ export const useLeadStore = create<LeadStore>()(
           
           // Only show success message if not during bulk import
           if (!state.isImporting) {
-            toast.success('הליד נוצר בהצלחה');
+            if (result.attached) {
+              toast.success('קיים ליד עם אותו טלפון/אימייל - הפנייה צורפה לליד הקיים');
+            } else if (result.duplicates && result.duplicates.length > 0) {
+              toast.success('הליד נוצר בהצלחה\nשים לב: קיים ליד עם אותו טלפון/אימייל', { duration: 6000 });
+            } else {
+              toast.success('הליד נוצר בהצלחה');
+            }
           }
           set({ selectedLead: null });
         } catch (error) {
@@ -227,15 +512,19 @@ export const useLeadStore = create<LeadStore>()(
               notes: updates.notes,
               callback_date: updates.callbackDate,
               callback_time: updates.callbackTime,
-              assigned_to: updates.assigned_to
+              assigned_to: updates.assigned_to,
+              customFields: updates.customFields,
+              tags: updates.tags
             })
           });
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה בעדכון הליד');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בעדכון הליד');
           }
 
+          const result = await response.json();
+
           // Refresh leads list with current filters
           const state = get();
           // For admin users, if no specific agent is selected, show their own leads by default
@@ -252,7 +541,9 @@ export const useLeadStore = create<LeadStore>()(
           }
           await state.fetchLeads(state.currentPage, state.pageSize, agentToShow || undefined);
           
-          toast.success('הליד עודכן בהצלחה');
+          toast.success(result.pendingApproval
+            ? 'הליד עודכן - שינוי הסטטוס ממתין לאישור מנהל'
+            : 'הליד עודכן בהצלחה');
           set({ selectedLead: null });
         } catch (error) {
           console.error('Error updating lead:', error);
@@ -319,67 +610,13 @@ export const useLeadStore = create<LeadStore>()(
       },
 
       bulkDeleteLeads: async (ids: string[]) => {
-        if (ids.length === 0) {
-          return { deletedCount: 0, failedCount: 0 };
-        }
-
         try {
-          set({ isLoading: true, isBulkDeleting: true });
-
-          const sessionToken = localStorage.getItem('session_token');
-          const accessToken = localStorage.getItem('access_token');
-          
-          if (!sessionToken || !accessToken) {
-            throw new Error('לא נמצא טוקן התחברות');
-          }
-
-          let deletedCount = 0;
-          let failedCount = 0;
-
-          // Delete leads without showing individual toast messages
-          for (const id of ids) {
-            try {
-              const response = await fetch(`${API_BASE_URL}/leads/${id}`, {
-                method: 'DELETE',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'X-Session-Token': sessionToken,
-                  'Authorization': `Bearer ${accessToken}`
-                }
-              });
-
-              if (response.ok) {
-                deletedCount++;
-              } else {
-                failedCount++;
-              }
-            } catch (error) {
-              console.error(`Error deleting lead ${id}:`, error);
-              failedCount++;
-            }
-          }
-
-          // Refresh leads list with current filters
-          const state = get();
-          let agentToShow = state.selectedAgentId;
-          if (!agentToShow) {
-            const { user } = useAuthStore.getState();
-            if (user?.role === 'admin') {
-              agentToShow = user.id;
-            } else if (user?.role === 'manager') {
-              agentToShow = user.id;
-            }
-          }
-          await state.fetchLeads(state.currentPage, state.pageSize, agentToShow || undefined);
-          
+          set({ isBulkDeleting: true });
+          const result = await get().runBulkAction('delete', ids);
           set({ selectedLead: null });
-          
-          return { deletedCount, failedCount };
-        } catch (error) {
-          console.error('Error in bulk delete:', error);
-          throw error;
+          return result;
         } finally {
-          set({ isLoading: false, isBulkDeleting: false });
+          set({ isBulkDeleting: false });
         }
       },
 
@@ -409,6 +646,8 @@ export const useLeadStore = create<LeadStore>()(
             throw new Error(errorData.error || 'שגיאה בעדכון סטטוס הליד');
           }
 
+          const result = await response.json();
+
           // Refresh leads list with current filters
           const state = get();
           // For admin users, if no specific agent is selected, show their own leads by default
@@ -425,7 +664,9 @@ export const useLeadStore = create<LeadStore>()(
           }
           await state.fetchLeads(state.currentPage, state.pageSize, agentToShow || undefined);
           
-          toast.success('סטטוס הליד עודכן בהצלחה');
+          toast.success(result.pendingApproval
+            ? 'שינוי הסטטוס נשלח לאישור מנהל'
+            : 'סטטוס הליד עודכן בהצלחה');
         } catch (error) {
           console.error('Error updating lead status:', error);
           toast.error(error instanceof Error ? error.message : 'שגיאה בעדכון סטטוס הליד');
@@ -553,6 +794,18 @@ export const useLeadStore = create<LeadStore>()(
             const warningCount = result.warnings.length;
             successMessage += `\n(עם ${warningCount} אזהרות - בדוק את הנתונים)`;
           }
+          if (result.skipped - (result.blocked || 0) > 0) {
+            successMessage += `\n${result.skipped - (result.blocked || 0)} לידים כפולים דולגו`;
+          }
+          if (result.blocked > 0) {
+            successMessage += `\n${result.blocked} לידים ברשימת "אל תפנה" לא יובאו`;
+          }
+          if (result.attached > 0) {
+            successMessage += `\n${result.attached} לידים כפולים צורפו ללידים קיימים`;
+          }
+          if (result.duplicates && result.duplicates.length > 0 && !result.skipped && !result.attached) {
+            successMessage += `\n(נמצאו ${result.duplicates.length} לידים כפולים)`;
+          }
           if (result.detectedColumns) {
             successMessage += `\nעמודות שזוהו: שם="${result.detectedColumns.name}", טלפון="${result.detectedColumns.phone}"`;
           }
@@ -583,6 +836,245 @@ export const useLeadStore = create<LeadStore>()(
         }
       },
 
+      previewImport: async (file: File, encoding: LeadImportEncoding, mapping?: LeadImportMapping) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          throw new Error('לא נמצא טוקן התחברות');
+        }
+
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('encoding', encoding);
+        if (mapping) {
+          formData.append('mapping', JSON.stringify(mapping));
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/import/preview`, {
+          method: 'POST',
+          headers: {
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          },
+          body: formData
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'שגיאה בקריאת הקובץ');
+        }
+
+        return response.json();
+      },
+
+      startImportJob: async (file: File, encoding: LeadImportEncoding, mapping: LeadImportMapping) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          throw new Error('לא נמצא טוקן התחברות');
+        }
+
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('encoding', encoding);
+        formData.append('mapping', JSON.stringify(mapping));
+
+        const response = await fetch(`${API_BASE_URL}/leads/import/jobs`, {
+          method: 'POST',
+          headers: {
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          },
+          body: formData
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'שגיאה בייבוא הקובץ');
+        }
+
+        const data = await response.json();
+        if (data.reused) {
+          toast('הקובץ הזה כבר יובא עם אותו מיפוי - מוצגת משימת הייבוא הקיימת');
+        }
+        return data.job;
+      },
+
+      fetchImportJob: async (jobId: number) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          throw new Error('לא נמצא טוקן התחברות');
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/import/jobs/${jobId}`, {
+          headers: {
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'שגיאה בטעינת מצב הייבוא');
+        }
+
+        const data = await response.json();
+        return data.job;
+      },
+
+      rerunImportJob: async (jobId: number) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          throw new Error('לא נמצא טוקן התחברות');
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/import/jobs/${jobId}/rerun`, {
+          method: 'POST',
+          headers: {
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'שגיאה בהרצה חוזרת של הייבוא');
+        }
+
+        const data = await response.json();
+        return data.job;
+      },
+
+      downloadImportErrors: async (jobId: number) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/leads/import/jobs/${jobId}/errors`, {
+            headers: {
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error('שגיאה בהורדת השורות שלא יובאו');
+          }
+
+          const blob = await response.blob();
+          const url = window.URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.style.display = 'none';
+          a.href = url;
+          a.download = `import-${jobId}-errors.xlsx`;
+          document.body.appendChild(a);
+          a.click();
+          window.URL.revokeObjectURL(url);
+          document.body.removeChild(a);
+        } catch (error) {
+          console.error('Error downloading import errors:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בהורדת השורות שלא יובאו');
+        }
+      },
+
+      finishImportJob: async (job: LeadImportJob) => {
+        if (job.status === 'failed') {
+          toast.error(job.error ? `הייבוא נכשל: ${job.error}` : 'הייבוא נכשל');
+        } else {
+          let successMessage = `יובאו בהצלחה ${job.created_count} לידים`;
+          if (job.failed_count > 0) {
+            successMessage += `\n${job.failed_count} שורות עם שגיאות לא יובאו`;
+          }
+          if (job.skipped_count > 0) {
+            successMessage += `\n${job.skipped_count} לידים דולגו (כפולים או ברשימת "אל תפנה")`;
+          }
+          if (job.attached_count > 0) {
+            successMessage += `\n${job.attached_count} לידים כפולים צורפו ללידים קיימים`;
+          }
+          toast.success(successMessage, { duration: 6000 });
+        }
+
+        // Refresh leads list with current filters
+        const state = get();
+        let agentToShow = state.selectedAgentId;
+        if (!agentToShow) {
+          const { user } = useAuthStore.getState();
+          if (user?.role === 'admin' || user?.role === 'manager') {
+            agentToShow = user.id;
+          }
+        }
+        await state.fetchLeads(state.currentPage, state.pageSize, agentToShow || undefined);
+      },
+
+      exportLeads: async (format: LeadExportFormat, columns: string[]) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          // Same leads as the list: selected agent (or the manager's own leads) + list filters
+          const state = get();
+          let agentToShow = state.selectedAgentId;
+          if (!agentToShow) {
+            const { user } = useAuthStore.getState();
+            if (user?.role === 'admin' || user?.role === 'manager') {
+              agentToShow = user.id;
+            }
+          }
+
+          let url = `${API_BASE_URL}/leads/export?format=${format}&columns=${encodeURIComponent(columns.join(','))}`;
+          if (agentToShow) {
+            url += `&assigned_to=${agentToShow}`;
+          }
+          Object.entries(state.filters).forEach(([key, value]) => {
+            if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+            url += `&${key}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`;
+          });
+
+          const response = await fetch(url, {
+            headers: {
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה בייצוא הלידים');
+          }
+
+          const blob = await response.blob();
+          const downloadUrl = window.URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.style.display = 'none';
+          a.href = downloadUrl;
+          a.download = `leads-${new Date().toISOString().split('T')[0]}.${format}`;
+          document.body.appendChild(a);
+          a.click();
+          window.URL.revokeObjectURL(downloadUrl);
+          document.body.removeChild(a);
+
+          toast.success('הלידים יוצאו בהצלחה');
+        } catch (error) {
+          console.error('Error exporting leads:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בייצוא הלידים');
+          throw error;
+        }
+      },
+
       setSelectedLead: (lead: Lead | null) => {
         set({ selectedLead: lead });
       },
@@ -638,6 +1130,668 @@ export const useLeadStore = create<LeadStore>()(
 
       setSelectedAgentId: (agentId: string | null) => {
         set({ selectedAgentId: agentId });
+      },
+
+      setFilters: (filters: LeadListFilters) => {
+        set({ filters, currentPage: 1 }); // Reset to first page when filters change
+      },
+
+      fetchPendingApprovals: async () => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          return [];
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/approvals/pending`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('שגיאה בטעינת בקשות האישור');
+        }
+
+        const data = await response.json();
+        return data.approvals || [];
+      },
+
+      fetchAssignmentLog: async (leadId: string) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          return [];
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/${leadId}/assignment-log`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('שגיאה בטעינת היסטוריית השיוך');
+        }
+
+        const data = await response.json();
+        return data.assignments || [];
+      },
+
+      fetchLeadTimeline: async (leadId: string) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          return [];
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/${leadId}/timeline`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          }
+        });
+
+        if (!response.ok) {
+          throw new Error('שגיאה בטעינת היסטוריית הליד');
+        }
+
+        const data = await response.json();
+        return data.entries || [];
+      },
+
+      logLeadActivity: async (leadId: string, type: 'call' | 'message' | 'note', description: string) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          throw new Error('לא נמצא טוקן התחברות');
+        }
+
+        const response = await fetch(`${API_BASE_URL}/leads/${leadId}/timeline`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Session-Token': sessionToken,
+            'Authorization': `Bearer ${accessToken}`
+          },
+          body: JSON.stringify({ type, description })
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'שגיאה בתיעוד הפעולה');
+        }
+
+        // The activity changes the score and last update time of the lead
+        const data = await response.json();
+        if (data.lead) {
+          set(state => ({
+            leads: state.leads.map(lead => lead.id === leadId ? {
+              ...lead,
+              updatedAt: data.lead.updated_at,
+              score: data.lead.score ?? lead.score,
+              scoreClassification: data.lead.score_classification || lead.scoreClassification
+            } : lead)
+          }));
+        }
+      },
+
+      // Checked against the do-not-contact list and recorded by the server - false when the contact may not be made
+      contactLead: async (leadId: string, channel: 'dialer' | 'whatsapp' | 'email', description: string) => {
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+
+        if (!sessionToken || !accessToken) {
+          toast.error('לא נמצא טוקן התחברות');
+          return false;
+        }
+
+        try {
+          const response = await fetch(`${API_BASE_URL}/leads/${leadId}/contact`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ channel, description })
+          });
+
+          const data = await response.json().catch(() => ({}));
+          if (!response.ok) {
+            throw new Error(data.entry
+              ? `${data.entry.value} ברשימת "אל תפנה" - הפנייה נחסמה`
+              : data.error || 'שגיאה בתיעוד הפנייה');
+          }
+
+          if (data.lead) {
+            set(state => ({
+              leads: state.leads.map(lead => lead.id === leadId ? {
+                ...lead,
+                updatedAt: data.lead.updated_at,
+                score: data.lead.score ?? lead.score,
+                scoreClassification: data.lead.score_classification || lead.scoreClassification
+              } : lead)
+            }));
+          }
+          return true;
+        } catch (error) {
+          console.error('Error contacting lead:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בתיעוד הפנייה');
+          return false;
+        }
+      },
+
+      fetchLeadTags: async () => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            return;
+          }
+
+          const response = await fetch(`${API_BASE_URL}/lead-tags`, {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error('שגיאה בטעינת התגיות');
+          }
+
+          const data = await response.json();
+          set({ tags: data.tags || [] });
+        } catch (error) {
+          console.error('Error fetching lead tags:', error);
+        }
+      },
+
+      saveLeadTag: async (tag: { id?: number; name: string; color: string }) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/lead-tags${tag.id ? `/${tag.id}` : ''}`, {
+            method: tag.id ? 'PUT' : 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ name: tag.name, color: tag.color })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בשמירת התגית');
+          }
+
+          // A rename also changes the tags of the listed leads
+          const state = get();
+          await state.fetchLeadTags();
+          if (tag.id) {
+            await state.fetchLeads(state.currentPage, state.pageSize, state.selectedAgentId || useAuthStore.getState().user?.id || undefined);
+          }
+          toast.success(tag.id ? 'התגית עודכנה' : 'התגית נוספה');
+        } catch (error) {
+          console.error('Error saving lead tag:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בשמירת התגית');
+          throw error;
+        }
+      },
+
+      deleteLeadTag: async (id: number) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/lead-tags/${id}`, {
+            method: 'DELETE',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה במחיקת התגית');
+          }
+
+          const state = get();
+          await state.fetchLeadTags();
+          await state.fetchLeads(state.currentPage, state.pageSize, state.selectedAgentId || useAuthStore.getState().user?.id || undefined);
+          toast.success('התגית נמחקה');
+        } catch (error) {
+          console.error('Error deleting lead tag:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה במחיקת התגית');
+          throw error;
+        }
+      },
+
+      bulkUpdateTags: async (leadIds: string[], add: string[], remove: string[]) => {
+        const result = await get().runBulkAction('tags', leadIds, { add, remove });
+        await get().fetchLeadTags();
+
+        toast.success(result.unchangedCount > 0
+          ? `התגיות עודכנו ב-${result.successCount} לידים (${result.unchangedCount} כבר היו מעודכנים)`
+          : `התגיות עודכנו ב-${result.successCount} לידים`);
+      },
+
+      // All-or-nothing: when any lead is rejected nothing changes and the reasons are shown
+      runBulkAction: async (action: LeadBulkAction, leadIds: string[], params: LeadBulkParams = {}) => {
+        try {
+          set({ isLoading: true });
+
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const endpoint = bulkActionEndpoints[action];
+          const response = await fetch(`${API_BASE_URL}/leads/${endpoint.path}`, {
+            method: endpoint.method,
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({
+              leadIds: leadIds.map(id => parseInt(id)),
+              ...params
+            })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בביצוע הפעולה על הלידים');
+          }
+
+          const result: LeadBulkResult = await response.json();
+
+          const state = get();
+          let agentToShow = state.selectedAgentId;
+          if (!agentToShow) {
+            const { user } = useAuthStore.getState();
+            if (user?.role === 'admin' || user?.role === 'manager') {
+              agentToShow = user.id;
+            }
+          }
+          await state.fetchLeads(state.currentPage, state.pageSize, agentToShow || undefined);
+          await state.fetchBulkBatches();
+
+          return result;
+        } catch (error) {
+          console.error(`Error in bulk ${action}:`, error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בביצוע הפעולה על הלידים');
+          throw error;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      fetchBulkBatches: async () => {
+        const { user } = useAuthStore.getState();
+        if (user?.role !== 'admin' && user?.role !== 'manager') {
+          set({ bulkBatches: [] });
+          return;
+        }
+
+        const sessionToken = localStorage.getItem('session_token');
+        const accessToken = localStorage.getItem('access_token');
+        
+        if (!sessionToken || !accessToken) {
+          return;
+        }
+
+        try {
+          const response = await fetch(`${API_BASE_URL}/leads/bulk-batches`, {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error('שגיאה בטעינת הפעולות המרובות');
+          }
+
+          const data = await response.json();
+          set({ bulkBatches: data.batches || [] });
+        } catch (error) {
+          console.error('Error fetching bulk actions:', error);
+        }
+      },
+
+      undoBulkBatch: async (batchId: number) => {
+        try {
+          set({ isLoading: true });
+
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/leads/bulk-batches/${batchId}/undo`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה בביטול הפעולה');
+          }
+
+          const result = await response.json();
+
+          const state = get();
+          await state.fetchLeads(state.currentPage, state.pageSize, state.selectedAgentId || useAuthStore.getState().user?.id || undefined);
+          await state.fetchBulkBatches();
+
+          toast.success(`הפעולה בוטלה - ${result.restoredCount} לידים שוחזרו`);
+          if (result.skippedCount > 0) {
+            toast(`${result.skippedCount} לידים לא שוחזרו כי שונו מאז הפעולה`);
+          }
+        } catch (error) {
+          console.error('Error undoing bulk action:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בביטול הפעולה');
+          throw error;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      fetchPipeline: async (assignedTo?: string) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            return;
+          }
+
+          // Same filters as the list - the board shows every status, so the status filter is left out
+          let url = `${API_BASE_URL}/leads/pipeline?per_stage=${PIPELINE_CARDS_PER_STAGE}`;
+          if (assignedTo) {
+            url += `&assigned_to=${assignedTo}`;
+          }
+          Object.entries(get().filters).forEach(([key, value]) => {
+            if (key === 'status' || key === 'sort') return;
+            if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+            url += `&${key}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`;
+          });
+
+          const response = await fetch(url, {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error('שגיאה בטעינת לוח המכירות');
+          }
+
+          const data = await response.json();
+          set({
+            pipeline: {
+              stages: (data.stages || []).map((stage: any) => ({ ...stage, leads: stage.leads.map(toPipelineCard) })),
+              totals: data.totals
+            }
+          });
+        } catch (error) {
+          console.error('Error fetching pipeline:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת לוח המכירות');
+        }
+      },
+
+      moveLeadOnBoard: async (leadId: string, status: string, placement: PipelinePlacement) => {
+        const previous = get().pipeline;
+        if (!previous) return;
+
+        // Move the card right away - the board is reloaded after the server answers
+        const card = previous.stages.flatMap(stage => stage.leads).find(lead => lead.id === leadId);
+        if (card) {
+          const stages = previous.stages.map(stage => {
+            const leads = stage.leads.filter(lead => lead.id !== leadId);
+            if (stage.status !== status) {
+              return { ...stage, leads, count: stage.count - (leads.length < stage.leads.length ? 1 : 0) };
+            }
+            const index = placement.beforeLeadId
+              ? leads.findIndex(lead => lead.id === placement.beforeLeadId)
+              : placement.afterLeadId
+                ? leads.findIndex(lead => lead.id === placement.afterLeadId) + 1
+                : 0;
+            leads.splice(index < 0 ? leads.length : index, 0, { ...card, status });
+            return { ...stage, leads, count: stage.count + (card.status !== status ? 1 : 0) };
+          });
+          set({ pipeline: { ...previous, stages } });
+        }
+
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/leads/${leadId}/pipeline`, {
+            method: 'PATCH',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({
+              status,
+              afterLeadId: placement.afterLeadId ? Number(placement.afterLeadId) : null,
+              beforeLeadId: placement.beforeLeadId ? Number(placement.beforeLeadId) : null
+            })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בהעברת הליד');
+          }
+
+          const result = await response.json();
+          if (result.pendingApproval) {
+            // The card goes back to its column until a manager approves
+            set({ pipeline: previous });
+            toast.success('שינוי הסטטוס נשלח לאישור מנהל');
+          } else if (card && card.status !== status) {
+            toast.success(`הליד "${card.name}" הועבר ל"${status}"`);
+          }
+        } catch (error) {
+          console.error('Error moving lead on pipeline:', error);
+          set({ pipeline: previous });
+          toast.error(error instanceof Error ? error.message : 'שגיאה בהעברת הליד');
+          throw error;
+        }
+      },
+
+      fetchSegments: async () => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            return;
+          }
+
+          const response = await fetch(`${API_BASE_URL}/lead-segments`, {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            throw new Error('שגיאה בטעינת הסגמנטים');
+          }
+
+          const data = await response.json();
+          set({ segments: data.segments || [] });
+        } catch (error) {
+          console.error('Error fetching lead segments:', error);
+        }
+      },
+
+      saveSegment: async (segment: { name: string; description?: string; is_shared: boolean }, filters: LeadListFilters) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          // Filters of a selected segment are kept - the current filters refine them (the sort is not a filter)
+          const baseSegment = get().segments.find(item => String(item.id) === filters.segment);
+          const segmentFilters: Record<string, string> = { ...(baseSegment?.filters || {}) };
+          Object.entries(filters).forEach(([key, value]) => {
+            if (key === 'segment' || key === 'sort') return;
+            if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+            segmentFilters[key] = Array.isArray(value) ? value.join(',') : String(value);
+          });
+
+          const response = await fetch(`${API_BASE_URL}/lead-segments`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ ...segment, filters: segmentFilters })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בשמירת הסגמנט');
+          }
+
+          const data = await response.json();
+          await get().fetchSegments();
+          toast.success('הסגמנט נשמר');
+          return data.segment;
+        } catch (error) {
+          console.error('Error saving lead segment:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בשמירת הסגמנט');
+          throw error;
+        }
+      },
+
+      deleteSegment: async (id: number) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/lead-segments/${id}`, {
+            method: 'DELETE',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה במחיקת הסגמנט');
+          }
+
+          // A list filtered by the deleted segment falls back to the other filters
+          const { filters } = get();
+          if (filters.segment === String(id)) {
+            get().setFilters({ ...filters, segment: undefined });
+          }
+          await get().fetchSegments();
+          toast.success('הסגמנט נמחק');
+        } catch (error) {
+          console.error('Error deleting lead segment:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה במחיקת הסגמנט');
+          throw error;
+        }
+      },
+
+      reviewStatusApproval: async (approvalId: number, decision: 'approve' | 'reject', note?: string) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/leads/approvals/${approvalId}/${decision}`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ note })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה בטיפול בבקשת האישור');
+          }
+
+          const state = get();
+          await state.fetchLeads(state.currentPage, state.pageSize, state.selectedAgentId || useAuthStore.getState().user?.id || undefined);
+
+          toast.success(decision === 'approve' ? 'שינוי הסטטוס אושר' : 'שינוי הסטטוס נדחה');
+        } catch (error) {
+          console.error('Error reviewing status approval:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בטיפול בבקשת האישור');
+          throw error;
+        }
       }
     }),
     {
@@ -0,0 +1,163 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from '../config/api.js';
+import toast from 'react-hot-toast';
+
+export type NoteParentType = 'lead' | 'customer';
+
+export interface Note {
+  id: number;
+  parent_type: NoteParentType;
+  reply_to_id: number | null;
+  body: string;
+  mentions: number[];
+  author_id: number | null;
+  author_name?: string | null;
+  created_at: string;
+  edited_at: string | null;
+}
+
+export interface NoteThread extends Note {
+  replies: Note[];
+}
+
+export interface MentionableUser {
+  id: number;
+  name: string;
+}
+
+interface NoteStore {
+  fetchNotes: (parentType: NoteParentType, parentId: string | number) => Promise<NoteThread[]>;
+  fetchMentionable: (parentType: NoteParentType, parentId: string | number) => Promise<MentionableUser[]>;
+  addNote: (parentType: NoteParentType, parentId: string | number, body: string, replyToId?: number) => Promise<Note | null>;
+  updateNote: (parentType: NoteParentType, parentId: string | number, noteId: number, body: string) => Promise<Note | null>;
+  deleteNote: (parentType: NoteParentType, parentId: string | number, noteId: number) => Promise<boolean>;
+}
+
+const getHeaders = (): Record<string, string> | null => {
+  const sessionToken = localStorage.getItem('session_token');
+  const accessToken = localStorage.getItem('access_token');
+  if (!sessionToken || !accessToken) return null;
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Session-Token': sessionToken,
+    'Authorization': `Bearer ${accessToken}`
+  };
+};
+
+const notesUrl = (parentType: NoteParentType, parentId: string | number) =>
+  `${API_BASE_URL}/${parentType}s/${parentId}/notes`;
+
+const readError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.details?.join(', ') || errorData.error || fallback;
+};
+
+export const useNoteStore = create<NoteStore>()(() => ({
+  fetchNotes: async (parentType, parentId) => {
+    const headers = getHeaders();
+    if (!headers) return [];
+
+    try {
+      const response = await fetch(notesUrl(parentType, parentId), { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בטעינת ההערות'));
+      }
+
+      const data = await response.json();
+      return data.threads || [];
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת ההערות');
+      return [];
+    }
+  },
+
+  fetchMentionable: async (parentType, parentId) => {
+    const headers = getHeaders();
+    if (!headers) return [];
+
+    try {
+      const response = await fetch(`${notesUrl(parentType, parentId)}/mentionable`, { headers });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בטעינת המשתמשים'));
+      }
+
+      const data = await response.json();
+      return data.users || [];
+    } catch (error) {
+      // Notes still work without mention suggestions
+      console.error('Error fetching mentionable users:', error);
+      return [];
+    }
+  },
+
+  addNote: async (parentType, parentId, body, replyToId) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(notesUrl(parentType, parentId), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ body, replyToId: replyToId ?? null })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בשמירת ההערה'));
+      }
+
+      const data = await response.json();
+      return data.note;
+    } catch (error) {
+      console.error('Error adding note:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בשמירת ההערה');
+      return null;
+    }
+  },
+
+  updateNote: async (parentType, parentId, noteId, body) => {
+    const headers = getHeaders();
+    if (!headers) return null;
+
+    try {
+      const response = await fetch(`${notesUrl(parentType, parentId)}/${noteId}`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ body })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה בעדכון ההערה'));
+      }
+
+      const data = await response.json();
+      toast.success('ההערה עודכנה');
+      return data.note;
+    } catch (error) {
+      console.error('Error updating note:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה בעדכון ההערה');
+      return null;
+    }
+  },
+
+  deleteNote: async (parentType, parentId, noteId) => {
+    const headers = getHeaders();
+    if (!headers) return false;
+
+    try {
+      const response = await fetch(`${notesUrl(parentType, parentId)}/${noteId}`, {
+        method: 'DELETE',
+        headers
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'שגיאה במחיקת ההערה'));
+      }
+
+      toast.success('ההערה נמחקה');
+      return true;
+    } catch (error) {
+      console.error('Error deleting note:', error);
+      toast.error(error instanceof Error ? error.message : 'שגיאה במחיקת ההערה');
+      return false;
+    }
+  }
+}));
@@ -18,8 +18,8 @@ interface ReportsStore {
   customerAnalyticsError: string | null;
   
   // Actions
-  fetchReportsData: (period?: string) => Promise<void>;
-  fetchLeadAnalytics: (period?: string) => Promise<void>;
+  fetchReportsData: (period?: string, segmentId?: string) => Promise<void>;
+  fetchLeadAnalytics: (period?: string, segmentId?: string) => Promise<void>;
   fetchCustomerAnalytics: () => Promise<void>;
   clearError: () => void;
   clearAllData: () => void;
@@ -38,10 +38,10 @@ export const useReportsStore = create<ReportsStore>((set) => ({
   customerAnalyticsError: null,
 
   // Fetch main reports data
-  fetchReportsData: async (period = '30') => {
+  fetchReportsData: async (period = '30', segmentId?: string) => {
     set({ isLoading: true, error: null });
     try {
-      const data = await reportsService.getDashboardReports(period);
+      const data = await reportsService.getDashboardReports(period, segmentId);
       set({ reportsData: data, isLoading: false });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch reports data';
@@ -50,10 +50,10 @@ export const useReportsStore = create<ReportsStore>((set) => ({
   },
 
   // Fetch lead analytics
-  fetchLeadAnalytics: async (period = '30') => {
+  fetchLeadAnalytics: async (period = '30', segmentId?: string) => {
     set({ isLeadAnalyticsLoading: true, leadAnalyticsError: null });
     try {
-      const data = await reportsService.getLeadAnalytics(period);
+      const data = await reportsService.getLeadAnalytics(period, segmentId);
       set({ leadAnalytics: data, isLeadAnalyticsLoading: false });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch lead analytics';
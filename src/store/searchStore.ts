@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { API_BASE_URL } from '../config/api.js';
+
+export type SearchEntity = 'lead' | 'customer' | 'task' | 'event';
+
+export interface SearchResult {
+  type: SearchEntity;
+  id: number;
+  title: string;
+  subtitle: string | null;
+  status: string | null; // event type for events
+  rank: number;
+}
+
+export type SearchGroups = Record<SearchEntity, SearchResult[]>;
+
+interface SearchStore {
+  query: string;
+  groups: SearchGroups | null;
+  isSearching: boolean;
+  error: string | null;
+
+  search: (query: string) => Promise<void>;
+  clear: () => void;
+}
+
+// Shortest query the server accepts
+export const MIN_SEARCH_LENGTH = 2;
+
+const getHeaders = (): Record<string, string> | null => {
+  const sessionToken = localStorage.getItem('session_token');
+  const accessToken = localStorage.getItem('access_token');
+  if (!sessionToken || !accessToken) return null;
+
+  return {
+    'Content-Type': 'application/json',
+    'X-Session-Token': sessionToken,
+    'Authorization': `Bearer ${accessToken}`
+  };
+};
+
+export const useSearchStore = create<SearchStore>()((set, get) => ({
+  query: '',
+  groups: null,
+  isSearching: false,
+  error: null,
+
+  search: async (query: string) => {
+    const term = query.trim();
+    set({ query });
+    if (term.length < MIN_SEARCH_LENGTH) {
+      set({ groups: null, isSearching: false, error: null });
+      return;
+    }
+
+    const headers = getHeaders();
+    if (!headers) return;
+
+    set({ isSearching: true, error: null });
+    try {
+      const response = await fetch(`${API_BASE_URL}/search?q=${encodeURIComponent(term)}`, { headers });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בחיפוש');
+      }
+
+      const data = await response.json();
+      // An answer to an older query that arrived late is dropped
+      if (get().query.trim() !== term) return;
+      set({ groups: data.groups, isSearching: false });
+    } catch (error) {
+      console.error('Error searching:', error);
+      if (get().query.trim() !== term) return;
+      set({ groups: null, isSearching: false, error: error instanceof Error ? error.message : 'שגיאה בחיפוש' });
+    }
+  },
+
+  clear: () => set({ query: '', groups: null, isSearching: false, error: null })
+}));
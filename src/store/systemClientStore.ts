@@ -3,6 +3,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import toast from 'react-hot-toast';
 import { useAuthStore } from './authStore';
+import { CustomFieldSchemas, AutoStatusChange } from '../types/client';
 
 export interface LeadStatus {
   id: string;
@@ -84,6 +85,8 @@ export interface SystemClient {
   features?: Record<string, any>;
   workflowSettings?: Record<string, any>;
   messageTemplates?: MessageTemplate[];
+  customFields?: CustomFieldSchemas;
+  autoStatusChanges?: AutoStatusChange[];
   createdAt: string;
   updatedAt: string;
 }
@@ -99,6 +102,24 @@ export interface SystemClientFormData {
   paymentStatuses?: PaymentStatus[];
   features?: Record<string, any>;
   messageTemplates?: any[];
+  customFields?: CustomFieldSchemas;
+  autoStatusChanges?: AutoStatusChange[];
+}
+
+// Dry run of an automatic status change rule (POST /system-clients/:id/workflow/preview)
+export interface AutoStatusChangePreview {
+  total: number;
+  fromStatus: string;
+  toStatus: string;
+  leads: Array<{
+    id: number;
+    name: string;
+    phone: string | null;
+    status: string;
+    assigned_to_name: string | null;
+    status_since: string;
+    last_activity: string;
+  }>;
 }
 
 interface SystemClientStore {
@@ -130,6 +151,7 @@ interface SystemClientStore {
     features?: Record<string, any>;
     messageTemplates?: any[];
   }) => Promise<void>;
+  previewAutoStatusChange: (clientId: string, rule: AutoStatusChange) => Promise<AutoStatusChangePreview>;
   
   // כל המידע נשמר בטבלת system_clients עצמה בשדות JSONB
   // אין צורך בפונקציות נפרדות
@@ -192,6 +214,8 @@ export const useSystemClientStore = create<SystemClientStore>()(
             features: client.features || {},
             workflowSettings: client.workflow_settings || {},
             messageTemplates: client.message_templates || [],
+            customFields: client.custom_fields || {},
+            autoStatusChanges: client.auto_status_changes || [],
             createdAt: client.created_at || new Date().toISOString(),
             updatedAt: client.updated_at || new Date().toISOString()
           })) || [];
@@ -231,7 +255,9 @@ export const useSystemClientStore = create<SystemClientStore>()(
             customer_statuses: clientData.customerStatuses || [],
             payment_statuses: clientData.paymentStatuses || [],
             features: clientData.features || {},
-            message_templates: clientData.messageTemplates || []
+            message_templates: clientData.messageTemplates || [],
+            custom_fields: clientData.customFields || {},
+            auto_status_changes: clientData.autoStatusChanges || []
           };
 
           const response = await fetch(`${API_BASE_URL}/system-clients`, {
@@ -246,7 +272,7 @@ export const useSystemClientStore = create<SystemClientStore>()(
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה ביצירת לקוח המערכת');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה ביצירת לקוח המערכת');
           }
 
           const newClientData = await response.json();
@@ -267,6 +293,8 @@ export const useSystemClientStore = create<SystemClientStore>()(
             features: newClientData.client.features || {},
             workflowSettings: newClientData.client.workflow_settings || {},
             messageTemplates: newClientData.client.message_templates || [],
+            customFields: newClientData.client.custom_fields || {},
+            autoStatusChanges: newClientData.client.auto_status_changes || [],
             createdAt: newClientData.client.created_at || new Date().toISOString(),
             updatedAt: newClientData.client.updated_at || new Date().toISOString()
           };
@@ -321,6 +349,8 @@ export const useSystemClientStore = create<SystemClientStore>()(
           if (updates.paymentStatuses !== undefined) serverData.payment_statuses = updates.paymentStatuses;
           if (updates.features !== undefined) serverData.features = updates.features;
           if (updates.messageTemplates !== undefined) serverData.message_templates = updates.messageTemplates;
+          if (updates.customFields !== undefined) serverData.custom_fields = updates.customFields;
+          if (updates.autoStatusChanges !== undefined) serverData.auto_status_changes = updates.autoStatusChanges;
 
           console.log('Sending update data to server:', serverData);
 
@@ -336,7 +366,7 @@ export const useSystemClientStore = create<SystemClientStore>()(
 
           if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.error || 'שגיאה בעדכון לקוח המערכת');
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בעדכון לקוח המערכת');
           }
 
           // Refresh clients list
@@ -581,6 +611,39 @@ export const useSystemClientStore = create<SystemClientStore>()(
         }
       },
 
+      // Which leads a rule would move right now - nothing is changed
+      previewAutoStatusChange: async (clientId: string, rule: AutoStatusChange) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/system-clients/${clientId}/workflow/preview`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify({ rule })
+          });
+
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.details?.join(', ') || data.error || 'שגיאה בבדיקת הכלל');
+          }
+
+          return data;
+        } catch (error) {
+          console.error('Error previewing auto status change:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בבדיקת הכלל');
+          throw error;
+        }
+      },
+
       // כל המידע נשמר בטבלת system_clients עצמה בשדות JSONB
       // אין צורך בפונקציות נפרדות
 
@@ -5,6 +5,48 @@ import { User, UserFormData } from '../types';
 import toast from 'react-hot-toast';
 import { useSyncStore } from './syncStore';
 
+export type OffboardingDistribution = 'even' | 'least_open';
+
+export interface OffboardingUserSummary {
+  id: number;
+  name: string;
+  role: 'admin' | 'manager' | 'agent';
+}
+
+// Everything a departing user owns (GET /users/:id/offboarding)
+export interface OffboardingPreview {
+  user: OffboardingUserSummary;
+  leads: Array<{ id: number; name: string; status: string }>;
+  customers: Array<{ id: number; full_name: string; status: string | null }>;
+  tasks: Array<{ id: number; title: string; status: string; due_date: string }>;
+  events: Array<{ id: number; title: string; event_type: string; start_time: string }>;
+  agents: Array<{ id: number; name: string }>;
+  whatsappConnection: { id: number; wa_phone_number_id: string; is_active: boolean } | null;
+  counts: { leads: number; customers: number; tasks: number; events: number; agents: number };
+  candidates: OffboardingUserSummary[];
+}
+
+export interface OffboardingRequest {
+  targetUserIds: number[];
+  distribution: OffboardingDistribution;
+  successorManagerId?: number | null;
+  dryRun?: boolean;
+}
+
+export interface OffboardingTargetSummary {
+  userId: number;
+  leads: number;
+  customers: number;
+  tasks: number;
+  events: number;
+}
+
+export interface OffboardingResult {
+  distribution: OffboardingTargetSummary[];
+  agentsMoved?: number;
+  whatsappConnection?: 'moved' | 'deactivated' | null;
+}
+
 interface UserStore {
   users: User[];
   deletedUsers: User[];
@@ -22,6 +64,8 @@ interface UserStore {
   deleteUser: (id: string) => Promise<void>;
   restoreUser: (id: string) => Promise<void>;
   toggleUserStatus: (id: string) => Promise<void>;
+  fetchOffboardingPreview: (id: string) => Promise<OffboardingPreview | null>;
+  offboardUser: (id: string, request: OffboardingRequest) => Promise<OffboardingResult | null>;
   hasPermission: (userId: string, permission: string) => boolean;
   setSelectedUser: (user: User | null) => void;
   clearUsers: () => void;
@@ -670,6 +714,77 @@ export const useUserStore = create<UserStore>()(
         }
       },
 
+      fetchOffboardingPreview: async (id: string) => {
+        try {
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/users/${id}/offboarding`, {
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            }
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'שגיאה בטעינת הרשומות של המשתמש');
+          }
+
+          return await response.json();
+        } catch (error) {
+          console.error('Error fetching offboarding preview:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בטעינת הרשומות של המשתמש');
+          return null;
+        }
+      },
+
+      offboardUser: async (id: string, request: OffboardingRequest) => {
+        try {
+          if (!request.dryRun) set({ isLoading: true });
+
+          const sessionToken = localStorage.getItem('session_token');
+          const accessToken = localStorage.getItem('access_token');
+          
+          if (!sessionToken || !accessToken) {
+            throw new Error('לא נמצא טוקן התחברות');
+          }
+
+          const response = await fetch(`${API_BASE_URL}/users/${id}/offboarding`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Session-Token': sessionToken,
+              'Authorization': `Bearer ${accessToken}`
+            },
+            body: JSON.stringify(request)
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.details?.join(', ') || errorData.error || 'שגיאה בהעברת הרשומות');
+          }
+
+          const result: OffboardingResult = await response.json();
+          if (!request.dryRun) {
+            await get().fetchUsers();
+            toast.success('הרשומות הועברו והמשתמש הושבת');
+          }
+          return result;
+        } catch (error) {
+          console.error('Error offboarding user:', error);
+          toast.error(error instanceof Error ? error.message : 'שגיאה בהעברת הרשומות');
+          return null;
+        } finally {
+          if (!request.dryRun) set({ isLoading: false });
+        }
+      },
+
       hasPermission: (userId: string, permission: string) => {
         const user = get().users.find(u => u.id === userId);
         if (!user) return false;
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useAuthStore } from './authStore';
+import { toWhatsAppNumber } from '../utils/phone';
 
 /**
  * WhatsApp Store - ניהול חיבור ווטסאפ ושליחת הודעות
@@ -48,7 +49,7 @@ interface WhatsAppStore {
     webhook_verify_token?: string;
   }) => Promise<void>;
   disconnectWhatsApp: () => Promise<void>;
-  sendMessages: (phoneNumbers: string[], message: string) => Promise<void>;
+  sendMessages: (phoneNumbers: string[], message: string, segmentId?: number) => Promise<void>;
   clearError: () => void;
   clearMessages: () => void;
 }
@@ -255,8 +256,9 @@ export const useWhatsAppStore = create<WhatsAppStore>()(
 
       /**
        * שליחת הודעות ווטסאפ
+       * segmentId - שליחה גם ללידים בסגמנט שמור (המספרים נקבעים בשרת)
        */
-      sendMessages: async (phoneNumbers: string[], message: string) => {
+      sendMessages: async (phoneNumbers: string[], message: string, segmentId?: number) => {
         set({ isLoading: true, error: null });
         
         // הוספת הודעות למצב pending
@@ -284,6 +286,7 @@ export const useWhatsAppStore = create<WhatsAppStore>()(
             },
             body: JSON.stringify({
               phone_numbers: phoneNumbers,
+              segment_id: segmentId,
               message: message,
             }),
           });
@@ -304,27 +307,37 @@ export const useWhatsAppStore = create<WhatsAppStore>()(
               const messageIndex = updatedMessages.findIndex(
                 msg => msg.phone_number === result.phone_number && msg.status === 'pending'
               );
+              const sentMessage: WhatsAppMessage = {
+                phone_number: result.phone_number,
+                message,
+                status: 'sent',
+                message_id: result.message_id,
+                sent_at: new Date().toISOString(),
+              };
+              // מספרים מהסגמנט לא היו ברשימת הממתינים
               if (messageIndex !== -1) {
-                updatedMessages[messageIndex] = {
-                  ...updatedMessages[messageIndex],
-                  status: 'sent',
-                  message_id: result.message_id,
-                  sent_at: new Date().toISOString(),
-                };
+                updatedMessages[messageIndex] = sentMessage;
+              } else {
+                updatedMessages.push(sentMessage);
               }
             });
 
-            // עדכון הודעות שנכשלו
-            data.errors?.forEach((error: any) => {
+            // עדכון הודעות שנכשלו - כולל מספרים שנחסמו ברשימת "אל תפנה"
+            const blocked = (data.blocked || []).map((item: any) => ({ phone_number: item.phone_number, error: 'ברשימת "אל תפנה" - לא נשלח' }));
+            [...(data.errors || []), ...blocked].forEach((error: any) => {
               const messageIndex = updatedMessages.findIndex(
                 msg => msg.phone_number === error.phone_number && msg.status === 'pending'
               );
+              const failedMessage: WhatsAppMessage = {
+                phone_number: error.phone_number,
+                message,
+                status: 'failed',
+                error: error.error,
+              };
               if (messageIndex !== -1) {
-                updatedMessages[messageIndex] = {
-                  ...updatedMessages[messageIndex],
-                  status: 'failed',
-                  error: error.error,
-                };
+                updatedMessages[messageIndex] = failedMessage;
+              } else {
+                updatedMessages.push(failedMessage);
               }
             });
 
@@ -420,10 +433,7 @@ export const useWhatsAppMessaging = () => {
     }
 
     // Validation של מספרי טלפון
-    const validPhoneNumbers = phoneNumbers.filter(phone => {
-      const cleanPhone = phone.replace(/[^\d]/g, '');
-      return cleanPhone.length >= 9 && cleanPhone.length <= 15;
-    });
+    const validPhoneNumbers = phoneNumbers.filter(phone => toWhatsAppNumber(phone).number);
 
     if (validPhoneNumbers.length === 0) {
       throw new Error('No valid phone numbers provided');
@@ -432,8 +442,22 @@ export const useWhatsAppMessaging = () => {
     await sendMessages(validPhoneNumbers, message.trim());
   };
 
+  // שליחה לכל הלידים בסגמנט שמור
+  const sendSegmentMessage = async (segmentId: number, message: string, phoneNumbers: string[] = []) => {
+    if (!canSend) {
+      throw new Error('You do not have permission to send WhatsApp messages');
+    }
+
+    if (!message || message.trim().length === 0) {
+      throw new Error('Message content is required');
+    }
+
+    await sendMessages(phoneNumbers, message.trim(), segmentId);
+  };
+
   return {
     sendWhatsAppMessage,
+    sendSegmentMessage,
     isLoading,
     error,
     canSend,
@@ -45,6 +45,23 @@ export interface ClientConfiguration {
     autoAssignLeads: boolean;
     requireCallbackDate: boolean;
     enableLeadScoring: boolean;
+    duplicateLeadPolicy?: 'warn' | 'skip' | 'attach';
+    autoAssign?: {
+      strategy?: 'round_robin' | 'least_open';
+      requireClockedIn?: boolean;
+      // field is 'source' or 'custom_fields.<key>'
+      rules?: { field: string; value: string; agentIds?: number[]; strategy?: 'round_robin' | 'least_open' }[];
+    };
+    sla?: {
+      enabled?: boolean;
+      // first matching rule applies - minutes are counted in business hours unless businessHoursOnly is false
+      rules?: { id: string; name: string; firstTouchMinutes: number; businessHoursOnly?: boolean; sources?: string[] }[];
+      businessHours?: { days: number[]; start: string; end: string }; // days: 0 = Sunday, times in Israel time
+      notifyManager?: boolean;
+    };
+    dnc?: {
+      removalStatuses?: string[]; // defaults to ['הסרה מהמאגר']
+    };
   };
   workflows: {
     leadToCustomerStatuses: string[];
@@ -79,6 +96,7 @@ export interface LeadStatus {
   description?: string;
   allowedTransitions?: string[];
   requiresApproval?: boolean;
+  isConversion?: boolean; // status a lead gets when it becomes a customer
   autoActions?: string[];
 }
 
@@ -131,6 +149,12 @@ export interface CustomField {
   category?: string;
 }
 
+// Custom field definitions per entity, as stored in system_clients.custom_fields
+export interface CustomFieldSchemas {
+  leads?: CustomField[];
+  customers?: CustomField[];
+}
+
 export interface ClientPermission {
   id: string;
   name: string;
@@ -144,9 +168,9 @@ export interface AutoStatusChange {
   fromStatus: string;
   toStatus: string;
   conditions: {
-    timeElapsed?: number;
-    noActivity?: number;
-    fieldValue?: { field: string; value: any };
+    timeElapsed?: number; // hours in fromStatus
+    noActivity?: number; // hours without timeline activity
+    fieldValue?: { field: string; value: any }; // field is 'source' or 'custom_fields.<key>'
   };
   enabled: boolean;
 }
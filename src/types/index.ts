@@ -44,6 +44,12 @@ export interface Lead {
   product?: string;
   amount?: number;
   closingDate?: string;
+  tags?: string[];
+  // Calculated by the server (lead scoring)
+  score?: number;
+  scoreClassification?: string;
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  predictedStatus?: string;
 }
 
 export interface LeadFormData {
@@ -44,6 +44,13 @@ export interface Lead {
   product?: string;
   amount?: number;
   closingDate?: string;
+  customFields?: Record<string, any>;
+  tags?: string[];
+  // Calculated by the server (lead scoring)
+  score?: number;
+  scoreClassification?: string;
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  predictedStatus?: string;
 }
 
 export interface LeadFormData {
@@ -56,6 +63,8 @@ export interface LeadFormData {
   callbackDate?: string;
   callbackTime?: string;
   assigned_to?: number;
+  customFields?: Record<string, any>;
+  tags?: string[];
 }
 
 export interface HistoryEntry {
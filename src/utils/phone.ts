@@ -0,0 +1,109 @@
+/**
+ * Phone Number Utilities
+ * Same parsing rules as the server, for display, tel: links and WhatsApp links
+ * Numbers without a country code are Israeli
+ * Keep in sync with server/utils/phone.ts
+ */
+
+export type PhoneLineType = 'mobile' | 'landline' | 'voip' | 'unknown';
+
+export interface ParsedPhone {
+  e164: string; // +972501234567
+  national: string | null; // 0501234567 (Israeli numbers only)
+  display: string; // 050-123-4567, or the E.164 form for foreign numbers
+  countryCode: string; // '972' for Israeli numbers, otherwise the digits after '+' are not split
+  lineType: PhoneLineType;
+}
+
+const ISRAEL_COUNTRY_CODE = '972';
+
+// Israeli prefixes after the leading 0 - mobile 05X, VoIP 07X, landlines 02/03/04/08/09
+const israeliLineType = (national: string): PhoneLineType | null => {
+  if (/^05\d{8}$/.test(national)) return 'mobile';
+  if (/^07\d{8}$/.test(national)) return 'voip';
+  if (/^0[23489]\d{7}$/.test(national)) return 'landline';
+  return null;
+};
+
+const formatIsraeli = (national: string): string => {
+  return national.length === 10
+    ? `${national.slice(0, 3)}-${national.slice(3, 6)}-${national.slice(6)}`
+    : `${national.slice(0, 2)}-${national.slice(2, 5)}-${national.slice(5)}`;
+};
+
+/**
+ * Parse a raw phone number
+ * Returns null when the value cannot be a valid phone number
+ */
+export function parsePhone(raw: string | number | null | undefined): ParsedPhone | null {
+  if (raw === null || raw === undefined) return null;
+
+  const value = String(raw).trim();
+  if (!value) return null;
+
+  let digits = value.replace(/\D/g, '');
+  let isInternational = value.startsWith('+');
+
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+    isInternational = true;
+  }
+
+  let national: string | null = null;
+  if (digits.startsWith(ISRAEL_COUNTRY_CODE) && (isInternational || digits.length >= 11)) {
+    // +972-(0)50-1234567
+    national = `0${digits.slice(3).replace(/^0/, '')}`;
+  } else if (!isInternational) {
+    // Excel drops the leading zero of mobile numbers (501234567)
+    national = digits.length === 9 && digits.startsWith('5') ? `0${digits}` : digits;
+  }
+
+  if (national === null) {
+    // Foreign number - without a numbering plan only the length can be checked
+    if (digits.length < 8 || digits.length > 15) return null;
+    return { e164: `+${digits}`, national: null, display: `+${digits}`, countryCode: '', lineType: 'unknown' };
+  }
+
+  const lineType = israeliLineType(national);
+  if (!lineType) return null;
+
+  return {
+    e164: `+${ISRAEL_COUNTRY_CODE}${national.slice(1)}`,
+    national,
+    display: formatIsraeli(national),
+    countryCode: ISRAEL_COUNTRY_CODE,
+    lineType
+  };
+}
+
+/**
+ * E.164 form of a phone number - null when invalid
+ */
+export function toE164(raw: string | number | null | undefined): string | null {
+  return parsePhone(raw)?.e164 || null;
+}
+
+/**
+ * Display form of a phone number - invalid values are returned trimmed, as entered
+ */
+export function formatPhone(raw: string | number | null | undefined): string {
+  if (raw === null || raw === undefined) return '';
+  return parsePhone(raw)?.display || String(raw).trim();
+}
+
+/**
+ * Number for the WhatsApp API / wa.me links (digits without '+') or the reason it cannot receive WhatsApp
+ */
+export function toWhatsAppNumber(raw: string | number | null | undefined): { number: string | null; error: string | null } {
+  const phone = parsePhone(raw);
+  if (!phone) return { number: null, error: 'מספר טלפון לא תקין' };
+  if (phone.lineType === 'landline') return { number: null, error: 'מספר נייח לא יכול לקבל הודעות ווטסאפ' };
+  return { number: phone.e164.slice(1), error: null };
+}
+
+/**
+ * tel: link of a phone number (E.164 when valid, so it dials from abroad too)
+ */
+export function telHref(raw: string | number | null | undefined): string {
+  return `tel:${toE164(raw) || String(raw ?? '').replace(/[^\d+]/g, '')}`;
+}